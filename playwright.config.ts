@@ -23,12 +23,21 @@ export default defineConfig({
       HOST: process.env.HOST ?? '127.0.0.1',
       PORT: String(port),
       E2E_AUTH_BYPASS: 'true',
+      // Dream runs against the local mock backend + in-page WHIP server
+      DAYDREAM_BACKEND: 'mock',
     },
   },
   projects: [
     {
       name: 'chromium',
-      use: { ...devices['Desktop Chrome'] },
+      use: {
+        ...devices['Desktop Chrome'],
+        // Fake camera for the Dream ingest
+        permissions: ['camera'],
+        launchOptions: {
+          args: ['--use-fake-device-for-media-stream', '--use-fake-ui-for-media-stream'],
+        },
+      },
     },
     {
       name: 'firefox',
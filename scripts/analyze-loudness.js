@@ -0,0 +1,162 @@
+#!/usr/bin/env node
+
+/**
+ * MetaDJ Nexus - Loudness Analyzer
+ * Measures integrated loudness (EBU R128) and true peak per track with FFmpeg
+ * and writes `loudnessLufs` / `peakDb` into src/data/music.json.
+ *
+ * Usage: node scripts/analyze-loudness.js <audio-dir> [--force] [--dry-run]
+ *   <audio-dir>  Local copy of the music bucket; `/api/audio/<path>` maps to `<audio-dir>/<path>`
+ *   --force      Re-analyze tracks that already have loudness data
+ *   --dry-run    Print results without writing music.json
+ */
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const path = require('path');
+
+// Colors for console output
+const colors = {
+  reset: '\x1b[0m',
+  red: '\x1b[31m',
+  green: '\x1b[32m',
+  yellow: '\x1b[33m',
+};
+
+const log = {
+  error: (msg) => console.log(`${colors.red}✗ ${msg}${colors.reset}`),
+  success: (msg) => console.log(`${colors.green}✓ ${msg}${colors.reset}`),
+  warn: (msg) => console.log(`${colors.yellow}⚠ ${msg}${colors.reset}`),
+  info: (msg) => console.log(`  ${msg}`),
+};
+
+const AUDIO_URL_PREFIX = '/api/audio/';
+const tracksPath = path.join(__dirname, '../src/data/music.json');
+
+const args = process.argv.slice(2);
+const force = args.includes('--force');
+const dryRun = args.includes('--dry-run');
+const audioDir = args.find((arg) => !arg.startsWith('--'));
+
+if (!audioDir) {
+  log.error('Missing audio directory');
+  console.log('Usage: node scripts/analyze-loudness.js <audio-dir> [--force] [--dry-run]');
+  console.log('');
+  console.log('Example:');
+  console.log('  node scripts/analyze-loudness.js ~/MusicArchive/metadj-nexus-music');
+  process.exit(1);
+}
+
+if (!fs.existsSync(audioDir) || !fs.statSync(audioDir).isDirectory()) {
+  log.error(`Audio directory not found: ${audioDir}`);
+  process.exit(1);
+}
+
+const ffmpegCheck = spawnSync('ffmpeg', ['-version'], { encoding: 'utf-8' });
+if (ffmpegCheck.error) {
+  log.error('FFmpeg not found');
+  log.info('Install with: brew install ffmpeg');
+  process.exit(1);
+}
+
+let tracks;
+try {
+  tracks = JSON.parse(fs.readFileSync(tracksPath, 'utf-8'));
+} catch (error) {
+  log.error(`Failed to parse music.json: ${error.message}`);
+  process.exit(1);
+}
+
+/**
+ * Resolve a track's audioUrl to a file inside the audio directory
+ */
+function resolveAudioFile(audioUrl) {
+  if (!audioUrl || !audioUrl.startsWith(AUDIO_URL_PREFIX)) return null;
+  const relativePath = decodeURIComponent(audioUrl.slice(AUDIO_URL_PREFIX.length));
+  const filePath = path.resolve(audioDir, relativePath);
+  // Refuse paths that escape the audio directory
+  if (!filePath.startsWith(path.resolve(audioDir) + path.sep)) return null;
+  return filePath;
+}
+
+/**
+ * Run FFmpeg's ebur128 filter and read the summary block.
+ * Returns { loudnessLufs, peakDb } rounded to 0.1 dB, or null on failure.
+ */
+function measureLoudness(filePath) {
+  const result = spawnSync(
+    'ffmpeg',
+    [
+      '-hide_banner',
+      '-nostats',
+      '-i', filePath,
+      // Per-frame measurements are logged at verbose level; only the summary prints at info
+      '-af', 'ebur128=peak=true:framelog=verbose',
+      '-f', 'null',
+      '-',
+    ],
+    { encoding: 'utf-8', maxBuffer: 16 * 1024 * 1024 }
+  );
+
+  if (result.error || result.status !== 0) return null;
+
+  const summary = result.stderr.slice(result.stderr.lastIndexOf('Summary:'));
+  const integrated = /I:\s*(-?[\d.]+|-inf)\s*LUFS/.exec(summary);
+  const truePeak = /True peak:\s*Peak:\s*(-?[\d.]+|-inf)\s*dBFS/.exec(summary);
+  if (!integrated || integrated[1] === '-inf') return null;
+
+  const round = (value) => Math.round(value * 10) / 10;
+  return {
+    loudnessLufs: round(Number(integrated[1])),
+    peakDb: truePeak && truePeak[1] !== '-inf' ? round(Number(truePeak[1])) : null,
+  };
+}
+
+console.log('MetaDJ Nexus - Loudness Analyzer\n');
+
+let analyzed = 0;
+let skipped = 0;
+let failed = 0;
+
+tracks.forEach((track) => {
+  if (!force && typeof track.loudnessLufs === 'number') {
+    skipped++;
+    return;
+  }
+
+  const filePath = resolveAudioFile(track.audioUrl);
+  if (!filePath || !fs.existsSync(filePath)) {
+    log.warn(`${track.id}: Audio file not found (${track.audioUrl})`);
+    failed++;
+    return;
+  }
+
+  const measurement = measureLoudness(filePath);
+  if (!measurement) {
+    log.error(`${track.id}: FFmpeg loudness analysis failed`);
+    failed++;
+    return;
+  }
+
+  track.loudnessLufs = measurement.loudnessLufs;
+  if (measurement.peakDb !== null) {
+    track.peakDb = measurement.peakDb;
+  } else {
+    delete track.peakDb;
+  }
+  analyzed++;
+
+  const peakLabel = measurement.peakDb !== null ? `${measurement.peakDb} dBTP` : 'no peak';
+  log.success(`${track.id}: ${measurement.loudnessLufs} LUFS, ${peakLabel}`);
+});
+
+console.log('');
+log.info(`Analyzed: ${analyzed}, skipped (already analyzed): ${skipped}, failed: ${failed}`);
+
+if (dryRun) {
+  log.warn('Dry run - music.json not written');
+} else if (analyzed > 0) {
+  fs.writeFileSync(tracksPath, `${JSON.stringify(tracks, null, 2)}\n`);
+  log.success('Updated src/data/music.json');
+}
+
+process.exit(failed > 0 ? 1 : 0);
@@ -131,6 +131,20 @@ tracks.forEach((track) => {
   }
 });
 
+// Validation 6: Loudness analysis values (scripts/analyze-loudness.js) in range
+log.info('Checking loudness analysis values...');
+tracks.forEach((track) => {
+  if (track.loudnessLufs !== undefined &&
+      (typeof track.loudnessLufs !== 'number' || track.loudnessLufs < -70 || track.loudnessLufs > 0)) {
+    log.error(`${track.id}: loudnessLufs must be a number between -70 and 0`);
+    errors++;
+  }
+  if (track.peakDb !== undefined && (typeof track.peakDb !== 'number' || track.peakDb > 6)) {
+    log.error(`${track.id}: peakDb must be a number no higher than 6`);
+    errors++;
+  }
+});
+
 // Summary
 console.log('');
 if (errors === 0 && warnings === 0) {
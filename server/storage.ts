@@ -1,11 +1,13 @@
 /**
  * Storage Layer
  *
- * Database operations for users, sessions, preferences, feedback, and analytics.
+ * Database operations for users, sessions, preferences, feedback, analytics, listening history, playlists,
+ * the music catalog, the knowledge retrieval index, MetaDJai long-term memories, per-user AI quotas,
+ * the AI usage ledger, Dream prompt presets, and Cinema visualizer presets.
  * Uses Drizzle ORM with PostgreSQL.
  */
 
-import { eq, and, gte, sql, count, desc, isNull } from 'drizzle-orm';
+import { eq, and, gt, gte, sql, count, desc, isNull, inArray, notInArray, asc, or, sum } from 'drizzle-orm';
 import { db } from './db';
 import {
   users,
@@ -16,8 +18,21 @@ import {
   feedback,
   conversations,
   messages,
+  conversationShares,
+  aiMemories,
+  aiEntitlements,
+  aiUsage,
+  aiUsageDaily,
+  dreamPromptPresets,
+  visualizerPresets,
   analyticsEvents,
+  listeningEvents,
   emailVerificationTokens,
+  playlists,
+  playlistTracks,
+  catalogCollections,
+  catalogTracks,
+  knowledgeChunks,
   type User,
   type NewUser,
   type Session,
@@ -32,10 +47,27 @@ import {
   type NewConversation,
   type Message,
   type NewMessage,
+  type ConversationShareRecord,
+  type AiMemoryRecord,
+  type AiEntitlementRecord,
+  type AiUsageRecord,
+  type NewAiUsageRecord,
+  type DreamPromptPresetRecord,
+  type VisualizerPresetRecord,
   type AnalyticsEvent,
+  type ListeningEventRecord,
+  type NewListeningEventRecord,
   type EmailVerificationToken,
+  type PlaylistRecord,
+  type CatalogCollectionRecord,
+  type NewCatalogCollectionRecord,
+  type CatalogTrackRecord,
+  type NewCatalogTrackRecord,
+  type NewKnowledgeChunkRecord,
 } from '../shared/schema';
 
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 /**
  * Generate a unique ID with a prefix
  */
@@ -1064,6 +1096,85 @@ export async function getUserConversations(
     .limit(limit);
 }
 
+/**
+ * Full-text search hit within a user's conversations
+ */
+export interface ConversationSearchRow {
+  conversationId: string;
+  conversationTitle: string | null;
+  messageId: string | null;
+  role: string | null;
+  /** `ts_headline` excerpt with the caller's highlight markers */
+  headline: string;
+  rank: number;
+  titleMatched: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Full-text search over a user's active conversations (message content and titles).
+ * Uses `websearch_to_tsquery`, so quoted phrases and `-exclusions` work.
+ * Expressions match the GIN indexes on `messages.content` and `conversations.title`.
+ */
+export async function searchUserConversations(
+  userId: string,
+  query: string,
+  options: { limit: number; headlineOptions: string }
+): Promise<{ messageHits: ConversationSearchRow[]; titleHits: ConversationSearchRow[] }> {
+  const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+  const contentVector = sql`to_tsvector('english', ${messages.content})`;
+  const titleVector = sql`to_tsvector('english', coalesce(${conversations.title}, ''))`;
+  const ownedActive = and(
+    eq(conversations.userId, userId),
+    eq(conversations.isArchived, false),
+    isNull(conversations.deletedAt)
+  );
+
+  const messageRank = sql<number>`ts_rank(${contentVector}, ${tsQuery})`;
+  const messageHits = await db
+    .select({
+      conversationId: conversations.id,
+      conversationTitle: conversations.title,
+      messageId: messages.id,
+      role: messages.role,
+      headline: sql<string>`ts_headline('english', ${messages.content}, ${tsQuery}, ${options.headlineOptions})`,
+      rank: messageRank,
+      titleMatched: sql<boolean>`${titleVector} @@ ${tsQuery}`,
+      createdAt: messages.createdAt,
+    })
+    .from(messages)
+    .innerJoin(conversations, eq(messages.conversationId, conversations.id))
+    .where(
+      and(
+        ownedActive,
+        sql`${contentVector} @@ ${tsQuery}`,
+        // Mode/model switch notices are UI-only
+        sql`coalesce(${messages.metadata}->>'kind', '') NOT IN ('mode-switch', 'model-switch')`
+      )
+    )
+    .orderBy(desc(messageRank), desc(messages.createdAt))
+    .limit(options.limit);
+
+  const titleRank = sql<number>`ts_rank(${titleVector}, ${tsQuery})`;
+  const titleHits = await db
+    .select({
+      conversationId: conversations.id,
+      conversationTitle: conversations.title,
+      messageId: sql<string | null>`NULL`,
+      role: sql<string | null>`NULL`,
+      headline: sql<string>`ts_headline('english', coalesce(${conversations.title}, ''), ${tsQuery}, ${options.headlineOptions})`,
+      rank: titleRank,
+      titleMatched: sql<boolean>`TRUE`,
+      createdAt: conversations.updatedAt,
+    })
+    .from(conversations)
+    .where(and(ownedActive, sql`${titleVector} @@ ${tsQuery}`))
+    .orderBy(desc(titleRank), desc(conversations.updatedAt))
+    .limit(options.limit);
+
+  return { messageHits, titleHits };
+}
+
 /**
  * Get a single conversation by ID
  */
@@ -1096,6 +1207,38 @@ export async function updateConversation(
   return updated || null;
 }
 
+/**
+ * Store the compaction summary of a conversation (null clears it).
+ * Leaves `updatedAt` alone so history ordering isn't affected.
+ */
+export async function setConversationSummary(
+  id: string,
+  summary: string | null,
+  summaryThroughMessageId: string | null
+): Promise<void> {
+  await db
+    .update(conversations)
+    .set({ summary, summaryThroughMessageId })
+    .where(eq(conversations.id, id));
+}
+
+/**
+ * Store the branch the user last selected (null = most recent message).
+ * Leaves `updatedAt` alone so history ordering isn't affected.
+ */
+export async function setConversationActiveLeaf(
+  id: string,
+  activeLeafId: string | null
+): Promise<Conversation | undefined> {
+  const [updated] = await db
+    .update(conversations)
+    .set({ activeLeafId })
+    .where(eq(conversations.id, id))
+    .returning();
+
+  return updated;
+}
+
 /**
  * Soft delete a conversation
  */
@@ -1133,6 +1276,7 @@ export async function hardDeleteConversation(id: string): Promise<boolean> {
 export async function addMessage(data: {
   id?: string;
   conversationId: string;
+  parentId?: string | null;
   role: 'user' | 'assistant' | 'system';
   content: string;
   tokensUsed?: number;
@@ -1147,6 +1291,7 @@ export async function addMessage(data: {
     .values({
       id: messageId,
       conversationId: data.conversationId,
+      parentId: data.parentId ?? null,
       role: data.role,
       content: data.content,
       tokensUsed: data.tokensUsed || 0,
@@ -1193,10 +1338,40 @@ export async function getConversationMessages(
     .select()
     .from(messages)
     .where(eq(messages.conversationId, conversationId))
-    .orderBy(messages.createdAt)
+    .orderBy(messages.createdAt, messages.id)
     .limit(limit);
 }
 
+/**
+ * Link a conversation saved before branching into a single thread
+ * (each message follows the previous one). No-op once any message has a parent.
+ * Uses the same order as `getConversationMessages`, matching how clients link
+ * unlinked history.
+ */
+export async function linkConversationMessages(conversationId: string): Promise<void> {
+  const [linked] = await db
+    .select({ id: messages.id })
+    .from(messages)
+    .where(and(eq(messages.conversationId, conversationId), sql`${messages.parentId} IS NOT NULL`))
+    .limit(1);
+  if (linked) return;
+
+  const thread = await db
+    .select({ id: messages.id })
+    .from(messages)
+    .where(eq(messages.conversationId, conversationId))
+    .orderBy(messages.createdAt, messages.id);
+  if (thread.length < 2) return;
+
+  const cases = thread
+    .slice(1)
+    .map((message, index) => sql`when ${message.id} then ${thread[index].id}`);
+  await db
+    .update(messages)
+    .set({ parentId: sql`case ${messages.id} ${sql.join(cases, sql` `)} end` })
+    .where(inArray(messages.id, thread.slice(1).map((message) => message.id)));
+}
+
 /**
  * Get recent messages for a conversation (for context window)
  */
@@ -1267,6 +1442,478 @@ export async function updateMessage(
   return updated || null;
 }
 
+// ============================================================================
+// AI Memory Operations (MetaDJai Long-Term Memory)
+// ============================================================================
+
+/**
+ * Get a user's memories (most recently updated first)
+ */
+export async function getUserAiMemories(userId: string): Promise<AiMemoryRecord[]> {
+  return db
+    .select()
+    .from(aiMemories)
+    .where(eq(aiMemories.userId, userId))
+    .orderBy(desc(aiMemories.updatedAt));
+}
+
+/**
+ * Apply an extraction result: create, update, and prune memories in one transaction
+ */
+export async function applyAiMemoryChanges(
+  userId: string,
+  sourceConversationId: string,
+  changes: {
+    create: Array<{ category: string; content: string }>;
+    update: Array<{ id: string; category: string; content: string }>;
+    deleteIds: string[];
+  }
+): Promise<void> {
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    if (changes.create.length > 0) {
+      await tx.insert(aiMemories).values(
+        changes.create.map((memory) => ({
+          id: generateId('mem'),
+          userId,
+          category: memory.category,
+          content: memory.content,
+          sourceConversationId,
+          createdAt: now,
+          updatedAt: now,
+        }))
+      );
+    }
+
+    for (const memory of changes.update) {
+      await tx
+        .update(aiMemories)
+        .set({ category: memory.category, content: memory.content, sourceConversationId, updatedAt: now })
+        .where(and(eq(aiMemories.id, memory.id), eq(aiMemories.userId, userId)));
+    }
+
+    if (changes.deleteIds.length > 0) {
+      await tx
+        .delete(aiMemories)
+        .where(and(eq(aiMemories.userId, userId), inArray(aiMemories.id, changes.deleteIds)));
+    }
+  });
+}
+
+/**
+ * Delete one of a user's memories
+ */
+export async function deleteAiMemory(id: string, userId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(aiMemories)
+    .where(and(eq(aiMemories.id, id), eq(aiMemories.userId, userId)))
+    .returning({ id: aiMemories.id });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Get conversation messages created after `since` (all messages when null), oldest first
+ */
+export async function getMessagesSince(
+  conversationId: string,
+  since: Date | null,
+  limit: number = 100
+): Promise<Message[]> {
+  const result = await db
+    .select()
+    .from(messages)
+    .where(
+      since
+        ? and(eq(messages.conversationId, conversationId), gt(messages.createdAt, since))
+        : eq(messages.conversationId, conversationId)
+    )
+    .orderBy(desc(messages.createdAt))
+    .limit(limit);
+
+  return result.reverse();
+}
+
+/**
+ * Record when memories were last extracted from a conversation.
+ * Leaves `updatedAt` alone so history ordering isn't affected.
+ */
+export async function markConversationMemoriesExtracted(id: string, extractedAt: Date): Promise<void> {
+  await db
+    .update(conversations)
+    .set({ memoriesExtractedAt: extractedAt })
+    .where(eq(conversations.id, id));
+}
+
+// ============================================================================
+// AI Quota Operations (Per-User Entitlements & Daily Usage)
+// ============================================================================
+
+/**
+ * Get a user's admin-set AI entitlement (null when on the default free tier)
+ */
+export async function getAiEntitlement(userId: string): Promise<AiEntitlementRecord | null> {
+  const [entitlement] = await db
+    .select()
+    .from(aiEntitlements)
+    .where(eq(aiEntitlements.userId, userId))
+    .limit(1);
+
+  return entitlement || null;
+}
+
+/**
+ * Set a user's AI tier and custom limits
+ */
+export async function upsertAiEntitlement(
+  userId: string,
+  values: {
+    tier: string;
+    dailyTokenLimit: number | null;
+    monthlyTokenLimit: number | null;
+    dailyCostLimitUsd: number | null;
+    monthlyCostLimitUsd: number | null;
+  },
+  updatedBy: string
+): Promise<AiEntitlementRecord> {
+  const now = new Date();
+  const [entitlement] = await db
+    .insert(aiEntitlements)
+    .values({ userId, ...values, updatedBy, updatedAt: now })
+    .onConflictDoUpdate({
+      target: aiEntitlements.userId,
+      set: { ...values, updatedBy, updatedAt: now },
+    })
+    .returning();
+
+  return entitlement;
+}
+
+/**
+ * Remove a user's override (back to the default free tier)
+ */
+export async function deleteAiEntitlement(userId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(aiEntitlements)
+    .where(eq(aiEntitlements.userId, userId))
+    .returning({ userId: aiEntitlements.userId });
+
+  return deleted.length > 0;
+}
+
+/**
+ * Add one request's tokens and cost to a user's total for a UTC day
+ */
+export async function incrementAiUsageDaily(
+  userId: string,
+  day: string,
+  usage: { inputTokens: number; outputTokens: number; costUsd: number }
+): Promise<void> {
+  const now = new Date();
+
+  await db
+    .insert(aiUsageDaily)
+    .values({
+      id: generateId('aiu'),
+      userId,
+      day,
+      requests: 1,
+      ...usage,
+      updatedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [aiUsageDaily.userId, aiUsageDaily.day],
+      set: {
+        requests: sql`${aiUsageDaily.requests} + 1`,
+        inputTokens: sql`${aiUsageDaily.inputTokens} + ${usage.inputTokens}`,
+        outputTokens: sql`${aiUsageDaily.outputTokens} + ${usage.outputTokens}`,
+        costUsd: sql`${aiUsageDaily.costUsd} + ${usage.costUsd}`,
+        updatedAt: now,
+      },
+    });
+}
+
+/**
+ * Get a user's daily AI totals from a UTC day key onward
+ */
+export async function getAiUsageDaysSince(
+  userId: string,
+  fromDay: string
+): Promise<Array<{ day: string; tokens: number; costUsd: number }>> {
+  const rows = await db
+    .select({
+      day: aiUsageDaily.day,
+      inputTokens: aiUsageDaily.inputTokens,
+      outputTokens: aiUsageDaily.outputTokens,
+      costUsd: aiUsageDaily.costUsd,
+    })
+    .from(aiUsageDaily)
+    .where(and(eq(aiUsageDaily.userId, userId), gte(aiUsageDaily.day, fromDay)));
+
+  return rows.map((row) => ({
+    day: row.day,
+    tokens: row.inputTokens + row.outputTokens,
+    costUsd: row.costUsd,
+  }));
+}
+
+// ============================================================================
+// AI Usage Ledger Operations
+// ============================================================================
+
+/**
+ * Record one AI request in the usage ledger
+ */
+export async function recordAiUsage(data: Omit<NewAiUsageRecord, 'id' | 'createdAt'>): Promise<void> {
+  await db.insert(aiUsage).values({
+    ...data,
+    id: generateId('aiu'),
+    createdAt: new Date(),
+  });
+}
+
+/**
+ * One page of ledger rows since a date, newest first. Pass the last row of the
+ * previous page as `after` to continue (keyset on `created_at`, then `id`).
+ */
+export async function getAiUsagePage(
+  since: Date,
+  after: Pick<AiUsageRecord, 'createdAt' | 'id'> | null,
+  limit: number
+): Promise<AiUsageRecord[]> {
+  const inWindow = gte(aiUsage.createdAt, since);
+
+  return db
+    .select()
+    .from(aiUsage)
+    .where(
+      after
+        ? and(
+            inWindow,
+            or(
+              sql`${aiUsage.createdAt} < ${after.createdAt}`,
+              and(eq(aiUsage.createdAt, after.createdAt), sql`${aiUsage.id} < ${after.id}`)
+            )
+          )
+        : inWindow
+    )
+    .orderBy(desc(aiUsage.createdAt), desc(aiUsage.id))
+    .limit(limit);
+}
+
+export interface AiUsageAggregateRow {
+  requests: number;
+  costUsd: number;
+  tokens: number;
+}
+
+/**
+ * Ledger totals since a date, aggregated in SQL for the admin AI dashboard:
+ * per UTC day, per provider/model (with failures, fallbacks, and p95 latency
+ * of successful requests), the overall p95 latency, and the most used tools
+ */
+export async function getAiUsageAggregatesSince(
+  since: Date,
+  topToolLimit: number
+): Promise<{
+  byDay: Array<AiUsageAggregateRow & { day: string }>;
+  byModel: Array<AiUsageAggregateRow & {
+    provider: string;
+    model: string;
+    failedRequests: number;
+    fallbackRequests: number;
+    p95LatencyMs: number | null;
+  }>;
+  p95LatencyMs: number | null;
+  toolCalls: Array<{ name: string; count: number }>;
+}> {
+  const inWindow = gte(aiUsage.createdAt, since);
+  // `created_at` holds UTC wall time, so this is the UTC day key
+  const day = sql<string>`to_char(${aiUsage.createdAt}, 'YYYY-MM-DD')`;
+  const totals = {
+    requests: count(),
+    costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`.mapWith(Number),
+    tokens: sql<number>`coalesce(sum(coalesce(${aiUsage.totalTokens}, coalesce(${aiUsage.inputTokens}, 0) + coalesce(${aiUsage.outputTokens}, 0))), 0)`.mapWith(Number),
+  };
+  const p95Latency = () =>
+    sql<number | null>`percentile_cont(0.95) within group (order by ${aiUsage.latencyMs}) filter (where ${aiUsage.success})`.mapWith(Number);
+
+  const toolNames = db
+    .select({ name: sql<string>`jsonb_array_elements_text(${aiUsage.toolCalls})`.as('name') })
+    .from(aiUsage)
+    .where(inWindow)
+    .as('tool_names');
+  const toolCount = count();
+
+  const [byDay, byModel, [overall], toolCalls] = await Promise.all([
+    db
+      .select({ day, ...totals })
+      .from(aiUsage)
+      .where(inWindow)
+      .groupBy(day),
+    db
+      .select({
+        provider: aiUsage.provider,
+        model: aiUsage.model,
+        ...totals,
+        failedRequests: sql<number>`count(*) filter (where not ${aiUsage.success})`.mapWith(Number),
+        fallbackRequests: sql<number>`count(*) filter (where ${aiUsage.usedFallback})`.mapWith(Number),
+        p95LatencyMs: p95Latency(),
+      })
+      .from(aiUsage)
+      .where(inWindow)
+      .groupBy(aiUsage.provider, aiUsage.model),
+    db
+      .select({ p95LatencyMs: p95Latency() })
+      .from(aiUsage)
+      .where(inWindow),
+    db
+      .select({ name: toolNames.name, count: toolCount })
+      .from(toolNames)
+      .groupBy(toolNames.name)
+      .orderBy(desc(toolCount), asc(toolNames.name))
+      .limit(topToolLimit),
+  ]);
+
+  return { byDay, byModel, p95LatencyMs: overall?.p95LatencyMs ?? null, toolCalls };
+}
+
+// ============================================================================
+// Saved Preset Helpers
+// ============================================================================
+
+/**
+ * Run `insert` only while the user has fewer than `maxPresets` rows in `table`.
+ * The user row is locked for the transaction, so concurrent saves by the same
+ * user count one after another and can't both slip under the cap.
+ * Returns null when the limit is reached.
+ */
+async function insertUserPresetWithinCap<T>(
+  table: typeof dreamPromptPresets | typeof visualizerPresets,
+  userId: string,
+  maxPresets: number,
+  insert: (tx: DbTransaction) => Promise<T>
+): Promise<T | null> {
+  return db.transaction(async (tx) => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for('update');
+
+    const [{ count: existing }] = await tx
+      .select({ count: count() })
+      .from(table)
+      .where(eq(table.userId, userId));
+
+    if (existing >= maxPresets) return null;
+    return insert(tx);
+  });
+}
+
+// ============================================================================
+// Dream Prompt Preset Operations
+// ============================================================================
+
+/**
+ * Get a user's Dream prompt presets (oldest first, matching save order)
+ */
+export async function getDreamPromptPresets(userId: string): Promise<DreamPromptPresetRecord[]> {
+  return db
+    .select()
+    .from(dreamPromptPresets)
+    .where(eq(dreamPromptPresets.userId, userId))
+    .orderBy(asc(dreamPromptPresets.createdAt));
+}
+
+/**
+ * Save a Dream prompt preset unless the user already has `maxPresets`.
+ * Returns null when the limit is reached.
+ */
+export async function createDreamPromptPreset(
+  userId: string,
+  data: { name: string; promptBase: string; presentation: string },
+  maxPresets: number
+): Promise<DreamPromptPresetRecord | null> {
+  return insertUserPresetWithinCap(dreamPromptPresets, userId, maxPresets, async (tx) => {
+    const [created] = await tx
+      .insert(dreamPromptPresets)
+      .values({
+        id: generateId('dreampreset'),
+        userId,
+        name: data.name,
+        promptBase: data.promptBase,
+        presentation: data.presentation,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    return created;
+  });
+}
+
+/**
+ * Delete one of a user's Dream prompt presets
+ */
+export async function deleteDreamPromptPreset(id: string, userId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(dreamPromptPresets)
+    .where(and(eq(dreamPromptPresets.id, id), eq(dreamPromptPresets.userId, userId)))
+    .returning({ id: dreamPromptPresets.id });
+
+  return deleted.length > 0;
+}
+
+// ============================================================================
+// Visualizer Preset Operations
+// ============================================================================
+
+/**
+ * Get a user's visualizer presets (oldest first, matching save order)
+ */
+export async function getVisualizerPresets(userId: string): Promise<VisualizerPresetRecord[]> {
+  return db
+    .select()
+    .from(visualizerPresets)
+    .where(eq(visualizerPresets.userId, userId))
+    .orderBy(asc(visualizerPresets.createdAt));
+}
+
+/**
+ * Save a visualizer preset unless the user already has `maxPresets`.
+ * Returns null when the limit is reached.
+ */
+export async function createVisualizerPreset(
+  userId: string,
+  data: { name: string; sceneId: string; params: Record<string, number | string> },
+  maxPresets: number
+): Promise<VisualizerPresetRecord | null> {
+  return insertUserPresetWithinCap(visualizerPresets, userId, maxPresets, async (tx) => {
+    const [created] = await tx
+      .insert(visualizerPresets)
+      .values({
+        id: generateId('vizpreset'),
+        userId,
+        name: data.name,
+        sceneId: data.sceneId,
+        params: data.params,
+        createdAt: new Date(),
+      })
+      .returning();
+
+    return created;
+  });
+}
+
+/**
+ * Delete one of a user's visualizer presets
+ */
+export async function deleteVisualizerPreset(id: string, userId: string): Promise<boolean> {
+  const deleted = await db
+    .delete(visualizerPresets)
+    .where(and(eq(visualizerPresets.id, id), eq(visualizerPresets.userId, userId)))
+    .returning({ id: visualizerPresets.id });
+
+  return deleted.length > 0;
+}
+
 // ============================================================================
 // Archive Operations
 // ============================================================================
@@ -1368,32 +2015,173 @@ export async function hardDeleteArchivedConversation(id: string, userId: string)
 }
 
 // ============================================================================
-// Analytics Operations
+// Transfer & Share Operations
 // ============================================================================
 
 /**
- * Record an analytics event
+ * Insert an imported conversation with all of its messages in one transaction.
+ * Keeps the imported timestamps and archive state.
  */
-export async function recordAnalyticsEvent(data: {
-  eventName: string;
-  userId?: string | null;
-  sessionId?: string | null;
-  source?: string;
-  properties?: Record<string, unknown> | null;
-  context?: Record<string, unknown> | null;
-}): Promise<AnalyticsEvent> {
-  const [event] = await db
-    .insert(analyticsEvents)
-    .values({
-      id: generateId('evt'),
-      eventName: data.eventName,
-      userId: data.userId || null,
-      sessionId: data.sessionId || null,
-      source: data.source || 'server',
-      properties: data.properties || null,
-      context: data.context || null,
-      createdAt: new Date(),
-    })
+export async function importConversation(
+  userId: string,
+  data: {
+    id?: string;
+    title: string;
+    createdAt: Date;
+    updatedAt: Date;
+    archivedAt: Date | null;
+    activeLeafId: string | null;
+    messages: Array<Pick<NewMessage, 'id' | 'parentId' | 'role' | 'content' | 'metadata' | 'createdAt'>>;
+  }
+): Promise<Conversation> {
+  const id = data.id || generateId('conv');
+
+  return db.transaction(async (tx) => {
+    const [conversation] = await tx
+      .insert(conversations)
+      .values({
+        id,
+        userId,
+        title: data.title,
+        activeLeafId: data.activeLeafId,
+        totalTokens: 0,
+        messageCount: data.messages.length,
+        isArchived: data.archivedAt !== null,
+        archivedAt: data.archivedAt,
+        createdAt: data.createdAt,
+        updatedAt: data.updatedAt,
+      })
+      .returning();
+
+    if (data.messages.length > 0) {
+      await tx
+        .insert(messages)
+        .values(data.messages.map((message) => ({ ...message, conversationId: id })));
+    }
+
+    return conversation;
+  });
+}
+
+/**
+ * Create a share link for a conversation, revoking any earlier link
+ */
+export async function createConversationShare(data: {
+  id: string;
+  conversationId: string;
+  userId: string;
+  snapshot: Record<string, unknown>;
+}): Promise<ConversationShareRecord> {
+  return db.transaction(async (tx) => {
+    await tx
+      .update(conversationShares)
+      .set({ revokedAt: new Date() })
+      .where(
+        and(
+          eq(conversationShares.conversationId, data.conversationId),
+          isNull(conversationShares.revokedAt)
+        )
+      );
+
+    const [share] = await tx
+      .insert(conversationShares)
+      .values({ ...data, createdAt: new Date() })
+      .returning();
+
+    return share;
+  });
+}
+
+/**
+ * Get the current (not revoked) share link of a user's conversation
+ */
+export async function getActiveConversationShare(
+  conversationId: string,
+  userId: string
+): Promise<ConversationShareRecord | null> {
+  const [share] = await db
+    .select()
+    .from(conversationShares)
+    .where(
+      and(
+        eq(conversationShares.conversationId, conversationId),
+        eq(conversationShares.userId, userId),
+        isNull(conversationShares.revokedAt)
+      )
+    )
+    .orderBy(desc(conversationShares.createdAt))
+    .limit(1);
+
+  return share || null;
+}
+
+/**
+ * Revoke every share link of a user's conversation
+ */
+export async function revokeConversationShares(conversationId: string, userId: string): Promise<number> {
+  const revoked = await db
+    .update(conversationShares)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(conversationShares.conversationId, conversationId),
+        eq(conversationShares.userId, userId),
+        isNull(conversationShares.revokedAt)
+      )
+    )
+    .returning({ id: conversationShares.id });
+
+  return revoked.length;
+}
+
+/**
+ * Look up a share link for the public page.
+ * Returns null for revoked links and for conversations that were deleted.
+ */
+export async function getPublicConversationShare(id: string): Promise<ConversationShareRecord | null> {
+  const [row] = await db
+    .select({ share: conversationShares })
+    .from(conversationShares)
+    .innerJoin(conversations, eq(conversations.id, conversationShares.conversationId))
+    .where(
+      and(
+        eq(conversationShares.id, id),
+        isNull(conversationShares.revokedAt),
+        isNull(conversations.deletedAt)
+      )
+    )
+    .limit(1);
+
+  return row?.share ?? null;
+}
+
+// ============================================================================
+// Analytics Operations
+// ============================================================================
+
+/**
+ * Record an analytics event
+ */
+export async function recordAnalyticsEvent(data: {
+  eventName: string;
+  userId?: string | null;
+  sessionId?: string | null;
+  source?: string;
+  properties?: Record<string, unknown> | null;
+  context?: Record<string, unknown> | null;
+}): Promise<AnalyticsEvent> {
+  const [event] = await db
+    .insert(analyticsEvents)
+    .values({
+      id: generateId('evt'),
+      eventName: data.eventName,
+      userId: data.userId || null,
+      sessionId: data.sessionId || null,
+      source: data.source || 'server',
+      properties: data.properties || null,
+      context: data.context || null,
+      createdAt: new Date(),
+    })
     .returning();
   
   return event;
@@ -1454,3 +2242,601 @@ export async function getAnalyticsSummary(days: number = 30): Promise<{
     recentEvents,
   };
 }
+
+// ============================================================================
+// Listening History Operations
+// ============================================================================
+
+/**
+ * Record one listen of one track
+ */
+export async function recordListeningEvent(
+  userId: string,
+  data: Omit<NewListeningEventRecord, 'id' | 'userId' | 'createdAt'>
+): Promise<ListeningEventRecord> {
+  const [event] = await db
+    .insert(listeningEvents)
+    .values({
+      ...data,
+      id: generateId('listen'),
+      userId,
+      createdAt: new Date(),
+    })
+    .returning();
+
+  return event;
+}
+
+/**
+ * Aggregates behind the "Your stats" view.
+ * Plays are listens of at least `playThresholdSeconds` (or completed ones);
+ * listening days are calendar days shifted by the listener's UTC offset.
+ */
+export async function getListeningStatsSummary(
+  userId: string,
+  options: { playThresholdSeconds: number; timezoneOffsetMinutes: number; topTrackLimit?: number }
+): Promise<{
+  totalSeconds: number;
+  totalPlays: number;
+  topTracks: Array<{ trackId: string; collection: string | null; plays: number; seconds: number }>;
+  topCollection: { title: string; plays: number } | null;
+  listeningDays: string[];
+}> {
+  const userFilter = eq(listeningEvents.userId, userId);
+  const playFilter = and(
+    userFilter,
+    or(
+      gte(listeningEvents.listenedSeconds, options.playThresholdSeconds),
+      eq(listeningEvents.completed, true)
+    )
+  );
+
+  const [totals] = await db
+    .select({ totalSeconds: sum(listeningEvents.listenedSeconds) })
+    .from(listeningEvents)
+    .where(userFilter);
+
+  const [plays] = await db
+    .select({ count: count() })
+    .from(listeningEvents)
+    .where(playFilter);
+
+  const playCount = count();
+  const topTracks = await db
+    .select({
+      trackId: listeningEvents.trackId,
+      collection: sql<string | null>`max(${listeningEvents.collection})`,
+      plays: playCount,
+      seconds: sum(listeningEvents.listenedSeconds),
+    })
+    .from(listeningEvents)
+    .where(playFilter)
+    .groupBy(listeningEvents.trackId)
+    .orderBy(desc(playCount), asc(listeningEvents.trackId))
+    .limit(options.topTrackLimit ?? 5);
+
+  const collectionPlays = count();
+  const [topCollection] = await db
+    .select({ title: listeningEvents.collection, plays: collectionPlays })
+    .from(listeningEvents)
+    .where(and(playFilter, sql`${listeningEvents.collection} IS NOT NULL`))
+    .groupBy(listeningEvents.collection)
+    .orderBy(desc(collectionPlays), asc(listeningEvents.collection))
+    .limit(1);
+
+  const localDay = sql<string>`to_char(${listeningEvents.startedAt} - make_interval(mins => ${options.timezoneOffsetMinutes}), 'YYYY-MM-DD')`;
+  const days = await db
+    .selectDistinct({ day: localDay })
+    .from(listeningEvents)
+    .where(userFilter);
+
+  return {
+    totalSeconds: Number(totals?.totalSeconds ?? 0),
+    totalPlays: plays?.count ?? 0,
+    topTracks: topTracks.map((row) => ({
+      trackId: row.trackId,
+      collection: row.collection,
+      plays: row.plays,
+      seconds: Number(row.seconds ?? 0),
+    })),
+    topCollection: topCollection?.title
+      ? { title: topCollection.title, plays: topCollection.plays }
+      : null,
+    listeningDays: days.map((row) => row.day),
+  };
+}
+
+/**
+ * Per-track listening history for recommendations, most recently heard first
+ */
+export async function getListeningTrackHistory(
+  userId: string,
+  options: { playThresholdSeconds: number; limit?: number }
+): Promise<Array<{
+  trackId: string;
+  listens: number;
+  plays: number;
+  completions: number;
+  skips: number;
+  lastListenedAt: Date | null;
+}>> {
+  const lastListenedAt = sql<Date | null>`max(${listeningEvents.startedAt})`;
+  const rows = await db
+    .select({
+      trackId: listeningEvents.trackId,
+      listens: count(),
+      plays: sql<number>`count(*) filter (where ${listeningEvents.listenedSeconds} >= ${options.playThresholdSeconds} or ${listeningEvents.completed})`.mapWith(Number),
+      completions: sql<number>`count(*) filter (where ${listeningEvents.completed})`.mapWith(Number),
+      skips: sql<number>`count(*) filter (where ${listeningEvents.skipped})`.mapWith(Number),
+      lastListenedAt,
+    })
+    .from(listeningEvents)
+    .where(eq(listeningEvents.userId, userId))
+    .groupBy(listeningEvents.trackId)
+    .orderBy(desc(lastListenedAt))
+    .limit(options.limit ?? 500);
+
+  return rows.map((row) => ({
+    ...row,
+    lastListenedAt: row.lastListenedAt ? new Date(row.lastListenedAt) : null,
+  }));
+}
+
+// ============================================================================
+// Playlist Operations
+// ============================================================================
+
+/**
+ * Playlist row with its ordered track IDs
+ */
+export type PlaylistWithTracks = PlaylistRecord & { trackIds: string[] };
+
+/**
+ * Load ordered track IDs for a set of playlist rows
+ */
+async function attachPlaylistTracks(rows: PlaylistRecord[]): Promise<PlaylistWithTracks[]> {
+  if (rows.length === 0) return [];
+
+  const trackRows = await db
+    .select({ playlistId: playlistTracks.playlistId, trackId: playlistTracks.trackId })
+    .from(playlistTracks)
+    .where(inArray(playlistTracks.playlistId, rows.map((row) => row.id)))
+    .orderBy(asc(playlistTracks.position));
+
+  const trackIdsByPlaylist = new Map<string, string[]>();
+  for (const row of trackRows) {
+    const list = trackIdsByPlaylist.get(row.playlistId) ?? [];
+    list.push(row.trackId);
+    trackIdsByPlaylist.set(row.playlistId, list);
+  }
+
+  return rows.map((row) => ({ ...row, trackIds: trackIdsByPlaylist.get(row.id) ?? [] }));
+}
+
+/**
+ * Replace the ordered track list of a playlist.
+ * Runs inside the caller's transaction so a failed insert never leaves the playlist empty.
+ */
+async function replacePlaylistTracks(
+  tx: DbTransaction,
+  playlistId: string,
+  trackIds: string[]
+): Promise<void> {
+  await tx.delete(playlistTracks).where(eq(playlistTracks.playlistId, playlistId));
+
+  const uniqueTrackIds = Array.from(new Set(trackIds));
+  if (uniqueTrackIds.length === 0) return;
+
+  const addedAt = new Date();
+  await tx.insert(playlistTracks).values(
+    uniqueTrackIds.map((trackId, position) => ({
+      id: generateId('pltrack'),
+      playlistId,
+      trackId,
+      position,
+      addedAt,
+    }))
+  );
+}
+
+/**
+ * Get all active (not deleted) playlists for a user, oldest first
+ */
+export async function getUserPlaylists(userId: string): Promise<PlaylistWithTracks[]> {
+  const rows = await db
+    .select()
+    .from(playlists)
+    .where(and(eq(playlists.userId, userId), isNull(playlists.deletedAt)))
+    .orderBy(asc(playlists.createdAt));
+
+  return attachPlaylistTracks(rows);
+}
+
+/**
+ * Count active playlists for a user
+ */
+export async function getUserPlaylistCount(userId: string): Promise<number> {
+  const [result] = await db
+    .select({ count: count() })
+    .from(playlists)
+    .where(and(eq(playlists.userId, userId), isNull(playlists.deletedAt)));
+
+  return result?.count || 0;
+}
+
+/**
+ * Get a playlist by ID (includes soft-deleted rows so callers can honour tombstones)
+ */
+export async function getPlaylistById(id: string): Promise<PlaylistWithTracks | null> {
+  const [row] = await db
+    .select()
+    .from(playlists)
+    .where(eq(playlists.id, id))
+    .limit(1);
+
+  if (!row) return null;
+
+  const [withTracks] = await attachPlaylistTracks([row]);
+  return withTracks;
+}
+
+/**
+ * Create a playlist with its track list
+ */
+export async function createPlaylist(
+  userId: string,
+  data: {
+    id?: string;
+    name: string;
+    trackIds?: string[];
+    artworkUrl?: string | null;
+    isDefault?: boolean;
+    smartRules?: unknown;
+    createdAt?: Date;
+    updatedAt?: Date;
+  }
+): Promise<PlaylistWithTracks> {
+  const now = new Date();
+  const trackIds = data.trackIds ?? [];
+
+  const row = await db.transaction(async (tx) => {
+    const [created] = await tx
+      .insert(playlists)
+      .values({
+        id: data.id || generateId('playlist'),
+        userId,
+        name: data.name,
+        artworkUrl: data.artworkUrl ?? null,
+        isDefault: data.isDefault ?? false,
+        smartRules: data.smartRules ?? null,
+        createdAt: data.createdAt ?? now,
+        updatedAt: data.updatedAt ?? now,
+      })
+      .returning();
+
+    await replacePlaylistTracks(tx, created.id, trackIds);
+    return created;
+  });
+
+  return { ...row, trackIds: Array.from(new Set(trackIds)) };
+}
+
+/**
+ * Update a playlist's metadata and/or track list.
+ * Clears any soft-delete tombstone, since an accepted update means the playlist is live.
+ */
+export async function updatePlaylist(
+  id: string,
+  data: {
+    name?: string;
+    trackIds?: string[];
+    artworkUrl?: string | null;
+    smartRules?: unknown;
+    updatedAt?: Date;
+  }
+): Promise<PlaylistWithTracks | null> {
+  const updates: Partial<PlaylistRecord> = {
+    updatedAt: data.updatedAt ?? new Date(),
+    deletedAt: null,
+  };
+  if (data.name !== undefined) updates.name = data.name;
+  if (data.artworkUrl !== undefined) updates.artworkUrl = data.artworkUrl;
+  if (data.smartRules !== undefined) updates.smartRules = data.smartRules;
+
+  const updated = await db.transaction(async (tx) => {
+    const [row] = await tx
+      .update(playlists)
+      .set(updates)
+      .where(eq(playlists.id, id))
+      .returning();
+
+    if (row && data.trackIds) {
+      await replacePlaylistTracks(tx, id, data.trackIds);
+    }
+    return row;
+  });
+
+  if (!updated) return null;
+
+  const [withTracks] = await attachPlaylistTracks([updated]);
+  return withTracks;
+}
+
+/**
+ * Soft delete a playlist (verifies ownership)
+ */
+export async function deletePlaylist(
+  id: string,
+  userId: string,
+  deletedAt: Date = new Date()
+): Promise<boolean> {
+  const [updated] = await db
+    .update(playlists)
+    .set({ deletedAt, updatedAt: deletedAt, isPublic: false })
+    .where(and(eq(playlists.id, id), eq(playlists.userId, userId)))
+    .returning();
+
+  return Boolean(updated);
+}
+
+/**
+ * Check whether a public slug has ever been assigned (published or not)
+ */
+export async function isPlaylistSlugTaken(slug: string): Promise<boolean> {
+  const [row] = await db
+    .select({ id: playlists.id })
+    .from(playlists)
+    .where(eq(playlists.publicSlug, slug))
+    .limit(1);
+
+  return Boolean(row);
+}
+
+/**
+ * Publish or unpublish a playlist (verifies ownership).
+ * The slug is only written when the playlist does not have one yet, and
+ * `updatedAt` is left alone because visibility is not part of the synced snapshot.
+ */
+export async function setPlaylistVisibility(
+  id: string,
+  userId: string,
+  data: { isPublic: boolean; publicSlug?: string }
+): Promise<PlaylistWithTracks | null> {
+  const updates: Partial<PlaylistRecord> = { isPublic: data.isPublic };
+  if (data.isPublic) updates.publishedAt = new Date();
+  if (data.publicSlug) updates.publicSlug = data.publicSlug;
+
+  const [updated] = await db
+    .update(playlists)
+    .set(updates)
+    .where(and(eq(playlists.id, id), eq(playlists.userId, userId), isNull(playlists.deletedAt)))
+    .returning();
+
+  if (!updated) return null;
+
+  const [withTracks] = await attachPlaylistTracks([updated]);
+  return withTracks;
+}
+
+/**
+ * Get a published, active playlist by its public slug
+ */
+export async function getPublicPlaylistBySlug(slug: string): Promise<PlaylistWithTracks | null> {
+  const [row] = await db
+    .select()
+    .from(playlists)
+    .where(
+      and(
+        eq(playlists.publicSlug, slug),
+        eq(playlists.isPublic, true),
+        isNull(playlists.deletedAt)
+      )
+    )
+    .limit(1);
+
+  if (!row) return null;
+
+  const [withTracks] = await attachPlaylistTracks([row]);
+  return withTracks;
+}
+
+// ============================================================================
+// Music Catalog Operations
+// ============================================================================
+
+/**
+ * Get all catalog collections (including disabled), in display order
+ */
+export async function getCatalogCollections(): Promise<CatalogCollectionRecord[]> {
+  return db
+    .select()
+    .from(catalogCollections)
+    .orderBy(asc(catalogCollections.position), asc(catalogCollections.createdAt));
+}
+
+/**
+ * Get all catalog tracks (including disabled), ordered within their collection
+ */
+export async function getCatalogTracks(): Promise<CatalogTrackRecord[]> {
+  return db
+    .select()
+    .from(catalogTracks)
+    .orderBy(asc(catalogTracks.collectionId), asc(catalogTracks.position), asc(catalogTracks.id));
+}
+
+/**
+ * Get a catalog track by ID
+ */
+export async function getCatalogTrackById(id: string): Promise<CatalogTrackRecord | null> {
+  const [track] = await db
+    .select()
+    .from(catalogTracks)
+    .where(eq(catalogTracks.id, id))
+    .limit(1);
+
+  return track || null;
+}
+
+/**
+ * Get a catalog collection by ID
+ */
+export async function getCatalogCollectionById(id: string): Promise<CatalogCollectionRecord | null> {
+  const [collection] = await db
+    .select()
+    .from(catalogCollections)
+    .where(eq(catalogCollections.id, id))
+    .limit(1);
+
+  return collection || null;
+}
+
+/**
+ * Create a catalog track. New tracks are appended to the end of their collection.
+ */
+export async function createCatalogTrack(
+  data: Omit<NewCatalogTrackRecord, 'position' | 'createdAt' | 'updatedAt'>
+): Promise<CatalogTrackRecord> {
+  const [result] = await db
+    .select({ maxPosition: sql<number>`coalesce(max(${catalogTracks.position}), -1)` })
+    .from(catalogTracks)
+    .where(eq(catalogTracks.collectionId, data.collectionId));
+
+  const now = new Date();
+  const [track] = await db
+    .insert(catalogTracks)
+    .values({
+      ...data,
+      position: Number(result?.maxPosition ?? -1) + 1,
+      createdAt: now,
+      updatedAt: now,
+    })
+    .returning();
+
+  return track;
+}
+
+/**
+ * Update a catalog track (including enable/disable)
+ */
+export async function updateCatalogTrack(
+  id: string,
+  data: Partial<Omit<NewCatalogTrackRecord, 'id' | 'createdAt' | 'updatedAt'>>
+): Promise<CatalogTrackRecord | null> {
+  const [track] = await db
+    .update(catalogTracks)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(catalogTracks.id, id))
+    .returning();
+
+  return track || null;
+}
+
+/**
+ * Persist a new collection order (position = index in the given list).
+ * Runs in one transaction so a failed update never leaves a half-applied order.
+ */
+export async function reorderCatalogCollections(collectionIds: string[]): Promise<void> {
+  const now = new Date();
+  await db.transaction(async (tx) => {
+    for (const [position, id] of collectionIds.entries()) {
+      await tx
+        .update(catalogCollections)
+        .set({ position, updatedAt: now })
+        .where(eq(catalogCollections.id, id));
+    }
+  });
+}
+
+/**
+ * Insert catalog rows that do not exist yet (used to seed from the bundled JSON)
+ */
+export async function seedCatalog(data: {
+  collections: NewCatalogCollectionRecord[];
+  tracks: NewCatalogTrackRecord[];
+}): Promise<{ collections: number; tracks: number }> {
+  const insertedCollections = data.collections.length > 0
+    ? await db
+        .insert(catalogCollections)
+        .values(data.collections)
+        .onConflictDoNothing()
+        .returning({ id: catalogCollections.id })
+    : [];
+
+  const insertedTracks = data.tracks.length > 0
+    ? await db
+        .insert(catalogTracks)
+        .values(data.tracks)
+        .onConflictDoNothing()
+        .returning({ id: catalogTracks.id })
+    : [];
+
+  return { collections: insertedCollections.length, tracks: insertedTracks.length };
+}
+
+// ============================================================================
+// Knowledge Index Operations
+// ============================================================================
+
+/**
+ * Get stored chunk hashes for an embedding model (used to find changed chunks)
+ */
+export async function getKnowledgeChunkHashes(
+  embeddingModel: string
+): Promise<Array<{ id: string; contentHash: string }>> {
+  return db
+    .select({ id: knowledgeChunks.id, contentHash: knowledgeChunks.contentHash })
+    .from(knowledgeChunks)
+    .where(eq(knowledgeChunks.embeddingModel, embeddingModel));
+}
+
+/**
+ * Get stored chunk embeddings for an embedding model
+ */
+export async function getKnowledgeChunkEmbeddings(
+  embeddingModel: string
+): Promise<Array<{ id: string; embedding: number[] }>> {
+  return db
+    .select({ id: knowledgeChunks.id, embedding: knowledgeChunks.embedding })
+    .from(knowledgeChunks)
+    .where(eq(knowledgeChunks.embeddingModel, embeddingModel));
+}
+
+/**
+ * Insert or replace embedded knowledge chunks
+ */
+export async function upsertKnowledgeChunks(
+  chunks: Omit<NewKnowledgeChunkRecord, 'updatedAt'>[]
+): Promise<void> {
+  if (chunks.length === 0) return;
+  const now = new Date();
+
+  await db
+    .insert(knowledgeChunks)
+    .values(chunks.map((chunk) => ({ ...chunk, updatedAt: now })))
+    .onConflictDoUpdate({
+      target: knowledgeChunks.id,
+      set: {
+        sourceType: sql`excluded.source_type`,
+        category: sql`excluded.category`,
+        entryId: sql`excluded.entry_id`,
+        title: sql`excluded.title`,
+        content: sql`excluded.content`,
+        contentHash: sql`excluded.content_hash`,
+        embeddingModel: sql`excluded.embedding_model`,
+        embedding: sql`excluded.embedding`,
+        updatedAt: now,
+      },
+    });
+}
+
+/**
+ * Remove chunks that no longer exist in the source content
+ */
+export async function deleteKnowledgeChunksExcept(ids: string[]): Promise<number> {
+  const deleted = await db
+    .delete(knowledgeChunks)
+    .where(ids.length > 0 ? notInArray(knowledgeChunks.id, ids) : undefined)
+    .returning({ id: knowledgeChunks.id });
+
+  return deleted.length;
+}
@@ -4,7 +4,10 @@
  * Complete PostgreSQL schema for MetaDJ Nexus using Drizzle ORM.
  * Includes: users, sessions, preferences, conversations, messages,
  * email verification tokens, password resets, login attempts,
- * analytics events, feedback, journal entries, recently played.
+ * analytics events, feedback, journal entries, recently played, listening events, playlists,
+ * music catalog (collections, tracks), knowledge chunks (AI retrieval index),
+ * AI entitlements and daily AI usage (per-user quotas), AI usage ledger (per-request),
+ * Dream prompt presets, visualizer presets.
  */
 
 import { relations, sql } from 'drizzle-orm';
@@ -16,6 +19,7 @@ import {
   boolean,
   integer,
   jsonb,
+  real,
   index,
   uniqueIndex,
 } from 'drizzle-orm/pg-core';
@@ -192,6 +196,38 @@ export const recentlyPlayed = pgTable(
   ]
 );
 
+/**
+ * Listening events - One row per track listen (play counts and listening stats).
+ * Unlike `recently_played`, every play is kept.
+ */
+export const listeningEvents = pgTable(
+  'listening_events',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    userId: varchar('user_id', { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    trackId: varchar('track_id', { length: 64 }).notNull(),
+    // Collection title at listen time, so stats survive catalog changes
+    collection: varchar('collection', { length: 200 }),
+    startedAt: timestamp('started_at').notNull(),
+    durationSeconds: integer('duration_seconds').notNull(),
+    listenedSeconds: integer('listened_seconds').notNull(),
+    completionPercent: integer('completion_percent').notNull(),
+    completed: boolean('completed').default(false).notNull(),
+    skipped: boolean('skipped').default(false).notNull(),
+    // Where playback started: queue context plus mood channel / AI proposal
+    queueContext: varchar('queue_context', { length: 32 }).notNull(),
+    sourceType: varchar('source_type', { length: 32 }).default('queue').notNull(),
+    sourceId: varchar('source_id', { length: 64 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('listening_events_user_started_idx').on(table.userId, table.startedAt),
+    index('listening_events_user_track_idx').on(table.userId, table.trackId),
+  ]
+);
+
 /**
  * User preferences - Settings and customization
  */
@@ -205,7 +241,7 @@ export const userPreferences = pgTable(
     theme: varchar('theme', { length: 20 }).default('system'),
     reducedMotion: boolean('reduced_motion').default(false),
     notifications: jsonb('notifications').default(sql`'{"email": true, "push": false}'::jsonb`),
-    audioPreferences: jsonb('audio_preferences').default(sql`'{"volume": 0.8, "autoplay": false, "crossfadeEnabled": false, "muted": false}'::jsonb`),
+    audioPreferences: jsonb('audio_preferences').default(sql`'{"volume": 0.8, "autoplay": false, "crossfadeEnabled": false, "crossfadeDuration": 3, "crossfadeCurve": "equal-power", "gaplessEnabled": false, "loudnessNormalization": "track", "muted": false}'::jsonb`),
     videoPreferences: jsonb('video_preferences').default(sql`'{"quality": "auto", "autoplay": false}'::jsonb`),
     privacySettings: jsonb('privacy_settings').default(sql`'{"analytics": true, "personalization": true}'::jsonb`),
     createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -228,10 +264,16 @@ export const conversations = pgTable(
       .references(() => users.id, { onDelete: 'cascade' }),
     title: varchar('title', { length: 255 }),
     summary: text('summary'),
+    /** Last message folded into `summary` by context compaction */
+    summaryThroughMessageId: varchar('summary_through_message_id', { length: 64 }),
+    /** Leaf of the branch the user last selected (null = most recent message) */
+    activeLeafId: varchar('active_leaf_id', { length: 64 }),
     totalTokens: integer('total_tokens').default(0),
     messageCount: integer('message_count').default(0),
     isArchived: boolean('is_archived').default(false),
     archivedAt: timestamp('archived_at'),
+    /** Last time long-term memories were extracted from this conversation */
+    memoriesExtractedAt: timestamp('memories_extracted_at'),
     createdAt: timestamp('created_at').defaultNow().notNull(),
     updatedAt: timestamp('updated_at').defaultNow().notNull(),
     deletedAt: timestamp('deleted_at'),
@@ -240,6 +282,8 @@ export const conversations = pgTable(
     index('conversations_user_id_idx').on(table.userId),
     index('conversations_created_at_idx').on(table.createdAt),
     index('conversations_is_archived_idx').on(table.isArchived),
+    // Full-text search over titles (expression must match searchUserConversations)
+    index('conversations_title_search_idx').using('gin', sql`to_tsvector('english', coalesce(${table.title}, ''))`),
   ]
 );
 
@@ -253,6 +297,12 @@ export const messages = pgTable(
     conversationId: varchar('conversation_id', { length: 64 })
       .notNull()
       .references(() => conversations.id, { onDelete: 'cascade' }),
+    /**
+     * Message this one follows (null for a first turn). Edits and regenerations
+     * share a parent, forming branches. No foreign key: legacy regenerated
+     * versions are expanded client-side and can be parents.
+     */
+    parentId: varchar('parent_id', { length: 64 }),
     role: varchar('role', { length: 20 }).notNull(),
     content: text('content').notNull(),
     tokensUsed: integer('tokens_used').default(0),
@@ -263,6 +313,186 @@ export const messages = pgTable(
     index('messages_conversation_id_idx').on(table.conversationId),
     index('messages_created_at_idx').on(table.createdAt),
     index('messages_conversation_created_idx').on(table.conversationId, table.createdAt),
+    index('messages_parent_id_idx').on(table.parentId),
+    // Full-text search over content (expression must match searchUserConversations)
+    index('messages_content_search_idx').using('gin', sql`to_tsvector('english', ${table.content})`),
+  ]
+);
+
+/**
+ * Conversation shares - Read-only public snapshots of a MetaDJai conversation
+ *
+ * The snapshot (title plus the shared branch's chat text) is copied at share
+ * time, so later messages stay private. The random ID is the public link
+ * token. Revoking sets `revokedAt`; sharing again issues a new token.
+ */
+export const conversationShares = pgTable(
+  'conversation_shares',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    conversationId: varchar('conversation_id', { length: 64 })
+      .notNull()
+      .references(() => conversations.id, { onDelete: 'cascade' }),
+    userId: varchar('user_id', { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    snapshot: jsonb('snapshot').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    revokedAt: timestamp('revoked_at'),
+  },
+  (table) => [
+    index('conversation_shares_conversation_id_idx').on(table.conversationId),
+  ]
+);
+
+/**
+ * AI memories - Durable facts MetaDJai remembers about a user across conversations
+ *
+ * Extracted from conversations (favorite collections, creative projects,
+ * preferred tone, ...) and recalled into the system instructions. Users can
+ * review and delete them from the Personalize panel.
+ */
+export const aiMemories = pgTable(
+  'ai_memories',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    userId: varchar('user_id', { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    category: varchar('category', { length: 32 }).notNull(),
+    content: text('content').notNull(),
+    sourceConversationId: varchar('source_conversation_id', { length: 64 })
+      .references(() => conversations.id, { onDelete: 'set null' }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('ai_memories_user_id_idx').on(table.userId),
+  ]
+);
+
+/**
+ * AI entitlements - Admin-set MetaDJai plan tier and custom limits per user
+ *
+ * Users without a row are on the free tier; admins are always unlimited.
+ * A null limit falls back to the tier's limit.
+ */
+export const aiEntitlements = pgTable(
+  'ai_entitlements',
+  {
+    userId: varchar('user_id', { length: 64 })
+      .primaryKey()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    tier: varchar('tier', { length: 20 }).default('free').notNull(),
+    dailyTokenLimit: integer('daily_token_limit'),
+    monthlyTokenLimit: integer('monthly_token_limit'),
+    dailyCostLimitUsd: real('daily_cost_limit_usd'),
+    monthlyCostLimitUsd: real('monthly_cost_limit_usd'),
+    updatedBy: varchar('updated_by', { length: 64 }).references(() => users.id, { onDelete: 'set null' }),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  }
+);
+
+/**
+ * AI usage (daily) - Per-user MetaDJai token and cost totals per UTC day
+ *
+ * Incremented after each AI request; quotas sum the current day and month.
+ */
+export const aiUsageDaily = pgTable(
+  'ai_usage_daily',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    userId: varchar('user_id', { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    day: varchar('day', { length: 10 }).notNull(),
+    requests: integer('requests').default(0).notNull(),
+    inputTokens: integer('input_tokens').default(0).notNull(),
+    outputTokens: integer('output_tokens').default(0).notNull(),
+    costUsd: real('cost_usd').default(0).notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex('ai_usage_daily_user_day_unique_idx').on(table.userId, table.day),
+  ]
+);
+
+/**
+ * AI usage ledger - One row per MetaDJai chat request or background model call
+ * (`route`: stream, chat, compaction, memory)
+ *
+ * Durable record behind the admin AI dashboard (cost, latency, failover, tools);
+ * the in-memory/Redis spending buckets only cover the current hour and day.
+ */
+export const aiUsage = pgTable(
+  'ai_usage',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    requestId: varchar('request_id', { length: 64 }),
+    route: varchar('route', { length: 20 }).notNull(),
+    userId: varchar('user_id', { length: 64 }).references(() => users.id, { onDelete: 'set null' }),
+    provider: varchar('provider', { length: 20 }).notNull(),
+    model: varchar('model', { length: 100 }).notNull(),
+    inputTokens: integer('input_tokens'),
+    outputTokens: integer('output_tokens'),
+    totalTokens: integer('total_tokens'),
+    costUsd: real('cost_usd'),
+    toolCalls: jsonb('tool_calls').$type<string[]>().default(sql`'[]'::jsonb`).notNull(),
+    latencyMs: integer('latency_ms').notNull(),
+    usedFallback: boolean('used_fallback').default(false).notNull(),
+    success: boolean('success').notNull(),
+    error: text('error'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('ai_usage_created_at_idx').on(table.createdAt),
+    index('ai_usage_user_id_idx').on(table.userId),
+  ]
+);
+
+/**
+ * Dream prompt presets - Saved Dream prompts per user
+ *
+ * Stores the presentation word and prompt base separately, matching the
+ * Cinema Dream controls; the sent prompt is `${presentation} ${promptBase}`.
+ */
+export const dreamPromptPresets = pgTable(
+  'dream_prompt_presets',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    userId: varchar('user_id', { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 60 }).notNull(),
+    promptBase: text('prompt_base').notNull(),
+    presentation: varchar('presentation', { length: 20 }).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('dream_prompt_presets_user_id_idx').on(table.userId),
+  ]
+);
+
+/**
+ * Visualizer presets - Saved Cinema visualizer tunings per user
+ *
+ * `sceneId` is the built-in visualizer scene the preset starts from; `params`
+ * holds that visualizer's parameter values (see lib/visualizers/params).
+ */
+export const visualizerPresets = pgTable(
+  'visualizer_presets',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    userId: varchar('user_id', { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 60 }).notNull(),
+    sceneId: varchar('scene_id', { length: 40 }).notNull(),
+    params: jsonb('params').notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('visualizer_presets_user_id_idx').on(table.userId),
   ]
 );
 
@@ -302,7 +532,9 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   feedback: many(feedback),
   analyticsEvents: many(analyticsEvents),
   recentlyPlayed: many(recentlyPlayed),
+  listeningEvents: many(listeningEvents),
   journalEntries: many(journalEntries),
+  playlists: many(playlists),
 }));
 
 export const recentlyPlayedRelations = relations(recentlyPlayed, ({ one }) => ({
@@ -312,6 +544,13 @@ export const recentlyPlayedRelations = relations(recentlyPlayed, ({ one }) => ({
   }),
 }));
 
+export const listeningEventsRelations = relations(listeningEvents, ({ one }) => ({
+  user: one(users, {
+    fields: [listeningEvents.userId],
+    references: [users.id],
+  }),
+}));
+
 export const sessionsRelations = relations(sessions, ({ one }) => ({
   user: one(users, {
     fields: [sessions.userId],
@@ -421,6 +660,174 @@ export const journalEntriesRelations = relations(journalEntries, ({ one }) => ({
   }),
 }));
 
+/**
+ * Playlists - User-created playlists for cross-device sync
+ *
+ * Mirrors the client `Playlist` shape from `src/types/playlist.types.ts`.
+ * Track order lives in `playlist_tracks`. Deletes are soft (deletedAt) so a
+ * stale copy on another device cannot resurrect a playlist the user removed.
+ * Publishing assigns `publicSlug` once; it survives unpublish/republish so
+ * shared links stay stable.
+ */
+export const playlists = pgTable(
+  'playlists',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    userId: varchar('user_id', { length: 64 })
+      .notNull()
+      .references(() => users.id, { onDelete: 'cascade' }),
+    name: varchar('name', { length: 100 }).notNull(),
+    artworkUrl: text('artwork_url'),
+    isDefault: boolean('is_default').default(false).notNull(),
+    isPublic: boolean('is_public').default(false).notNull(),
+    publicSlug: varchar('public_slug', { length: 80 }),
+    publishedAt: timestamp('published_at'),
+    // Smart playlist rule tree (null for manual playlists); validated on read
+    smartRules: jsonb('smart_rules'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+    deletedAt: timestamp('deleted_at'),
+  },
+  (table) => [
+    index('playlists_user_id_idx').on(table.userId),
+    index('playlists_updated_at_idx').on(table.updatedAt),
+    uniqueIndex('playlists_public_slug_unique_idx').on(table.publicSlug),
+  ]
+);
+
+/**
+ * Playlist tracks - Ordered track membership for a playlist
+ */
+export const playlistTracks = pgTable(
+  'playlist_tracks',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    playlistId: varchar('playlist_id', { length: 64 })
+      .notNull()
+      .references(() => playlists.id, { onDelete: 'cascade' }),
+    trackId: varchar('track_id', { length: 64 }).notNull(),
+    position: integer('position').notNull(),
+    addedAt: timestamp('added_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('playlist_tracks_playlist_id_idx').on(table.playlistId),
+    uniqueIndex('playlist_tracks_playlist_track_idx').on(table.playlistId, table.trackId),
+  ]
+);
+
+export const playlistsRelations = relations(playlists, ({ one, many }) => ({
+  user: one(users, {
+    fields: [playlists.userId],
+    references: [users.id],
+  }),
+  tracks: many(playlistTracks),
+}));
+
+export const playlistTracksRelations = relations(playlistTracks, ({ one }) => ({
+  playlist: one(playlists, {
+    fields: [playlistTracks.playlistId],
+    references: [playlists.id],
+  }),
+}));
+
+/**
+ * Music catalog collections
+ *
+ * Used when `MUSIC_CATALOG_SOURCE=database`. Mirrors `collectionSchema` in
+ * `src/lib/validation/schemas.ts`; `trackCount` is derived from enabled tracks.
+ */
+export const catalogCollections = pgTable(
+  'collections',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    title: varchar('title', { length: 200 }).notNull(),
+    artist: varchar('artist', { length: 100 }).notNull(),
+    type: varchar('type', { length: 20 }).default('collection').notNull(),
+    releaseDate: varchar('release_date', { length: 10 }).notNull(),
+    artworkUrl: text('artwork_url'),
+    description: text('description'),
+    enabled: boolean('enabled').default(true).notNull(),
+    position: integer('position').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('collections_position_idx').on(table.position),
+  ]
+);
+
+/**
+ * Music catalog tracks
+ *
+ * Mirrors `trackSchema`; the client `collection` field is resolved from the
+ * parent collection title. Disabled tracks stay in the table but are not served.
+ */
+export const catalogTracks = pgTable(
+  'tracks',
+  {
+    id: varchar('id', { length: 64 }).primaryKey(),
+    collectionId: varchar('collection_id', { length: 64 })
+      .notNull()
+      .references(() => catalogCollections.id, { onDelete: 'restrict' }),
+    title: varchar('title', { length: 200 }).notNull(),
+    artist: varchar('artist', { length: 100 }).notNull(),
+    duration: integer('duration').notNull(),
+    releaseDate: varchar('release_date', { length: 10 }).notNull(),
+    audioUrl: text('audio_url').notNull(),
+    artworkUrl: text('artwork_url'),
+    description: text('description'),
+    genres: jsonb('genres').$type<string[]>().notNull(),
+    bpm: integer('bpm'),
+    key: varchar('key', { length: 20 }),
+    loudnessLufs: real('loudness_lufs'),
+    peakDb: real('peak_db'),
+    enabled: boolean('enabled').default(true).notNull(),
+    position: integer('position').default(0).notNull(),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('tracks_collection_position_idx').on(table.collectionId, table.position),
+  ]
+);
+
+export const catalogCollectionsRelations = relations(catalogCollections, ({ many }) => ({
+  tracks: many(catalogTracks),
+}));
+
+export const catalogTracksRelations = relations(catalogTracks, ({ one }) => ({
+  collection: one(catalogCollections, {
+    fields: [catalogTracks.collectionId],
+    references: [catalogCollections.id],
+  }),
+}));
+
+/**
+ * Knowledge chunks - Retrieval index for MetaDJai (`getZuberantContext`)
+ *
+ * One row per chunk of `src/data/knowledge/*.json` or `wisdom-content.json`.
+ * `content_hash` lets startup re-embed only changed chunks; embeddings are a
+ * plain float array, so no pgvector extension is required.
+ */
+export const knowledgeChunks = pgTable(
+  'knowledge_chunks',
+  {
+    id: varchar('id', { length: 200 }).primaryKey(),
+    sourceType: varchar('source_type', { length: 20 }).notNull(),
+    category: varchar('category', { length: 32 }).notNull(),
+    entryId: varchar('entry_id', { length: 128 }).notNull(),
+    title: text('title').notNull(),
+    content: text('content').notNull(),
+    contentHash: varchar('content_hash', { length: 64 }).notNull(),
+    embeddingModel: varchar('embedding_model', { length: 64 }).notNull(),
+    embedding: real('embedding').array().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('knowledge_chunks_entry_idx').on(table.category, table.entryId),
+  ]
+);
+
 /**
  * Type exports for use throughout the application
  */
@@ -438,6 +845,7 @@ export type Conversation = typeof conversations.$inferSelect;
 export type NewConversation = typeof conversations.$inferInsert;
 export type Message = typeof messages.$inferSelect;
 export type NewMessage = typeof messages.$inferInsert;
+export type ConversationShareRecord = typeof conversationShares.$inferSelect;
 export type Feedback = typeof feedback.$inferSelect;
 export type NewFeedback = typeof feedback.$inferInsert;
 export type AnalyticsEvent = typeof analyticsEvents.$inferSelect;
@@ -446,5 +854,25 @@ export type EmailVerificationToken = typeof emailVerificationTokens.$inferSelect
 export type NewEmailVerificationToken = typeof emailVerificationTokens.$inferInsert;
 export type RecentlyPlayed = typeof recentlyPlayed.$inferSelect;
 export type NewRecentlyPlayed = typeof recentlyPlayed.$inferInsert;
+export type ListeningEventRecord = typeof listeningEvents.$inferSelect;
+export type NewListeningEventRecord = typeof listeningEvents.$inferInsert;
 export type JournalEntryRecord = typeof journalEntries.$inferSelect;
 export type NewJournalEntryRecord = typeof journalEntries.$inferInsert;
+export type PlaylistRecord = typeof playlists.$inferSelect;
+export type NewPlaylistRecord = typeof playlists.$inferInsert;
+export type PlaylistTrackRecord = typeof playlistTracks.$inferSelect;
+export type NewPlaylistTrackRecord = typeof playlistTracks.$inferInsert;
+export type CatalogCollectionRecord = typeof catalogCollections.$inferSelect;
+export type NewCatalogCollectionRecord = typeof catalogCollections.$inferInsert;
+export type CatalogTrackRecord = typeof catalogTracks.$inferSelect;
+export type NewCatalogTrackRecord = typeof catalogTracks.$inferInsert;
+export type KnowledgeChunkRecord = typeof knowledgeChunks.$inferSelect;
+export type NewKnowledgeChunkRecord = typeof knowledgeChunks.$inferInsert;
+export type AiMemoryRecord = typeof aiMemories.$inferSelect;
+export type NewAiMemoryRecord = typeof aiMemories.$inferInsert;
+export type AiEntitlementRecord = typeof aiEntitlements.$inferSelect;
+export type AiUsageDailyRecord = typeof aiUsageDaily.$inferSelect;
+export type AiUsageRecord = typeof aiUsage.$inferSelect;
+export type NewAiUsageRecord = typeof aiUsage.$inferInsert;
+export type DreamPromptPresetRecord = typeof dreamPromptPresets.$inferSelect;
+export type VisualizerPresetRecord = typeof visualizerPresets.$inferSelect;
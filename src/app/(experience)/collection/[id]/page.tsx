@@ -1,5 +1,6 @@
 import { getAppBaseUrl } from "@/lib/app-url"
-import { buildMusicDeepLinkPath, getCollectionById } from "@/lib/music"
+import { buildMusicDeepLinkPath } from "@/lib/music"
+import { getServerMusicRepository } from "@/lib/music/server"
 import type { Metadata } from "next"
 
 const musicRobots = {
@@ -23,7 +24,7 @@ export async function generateMetadata({
   const baseUrl = getAppBaseUrl()
   const url = `${baseUrl}${buildMusicDeepLinkPath("collection", id)}`
 
-  const collection = getCollectionById(id)
+  const collection = await getServerMusicRepository().findCollectionById(id)
   if (!collection) {
     return {
       title: "Collections — MetaDJ Nexus",
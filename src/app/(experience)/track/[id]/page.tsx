@@ -1,6 +1,6 @@
-import tracks from "@/data/music.json"
 import { getAppBaseUrl } from "@/lib/app-url"
 import { buildMusicDeepLinkPath } from "@/lib/music"
+import { getServerMusicRepository } from "@/lib/music/server"
 import type { Metadata } from "next"
 
 const musicRobots = {
@@ -8,10 +8,6 @@ const musicRobots = {
   follow: true,
 }
 
-function getTrack(id: string) {
-  return tracks.find((track) => track.id === id)
-}
-
 function resolveImageUrl(baseUrl: string, imageUrl?: string) {
   if (!imageUrl) {
     return `${baseUrl}/images/og-image.png`
@@ -28,7 +24,7 @@ export async function generateMetadata({
   const baseUrl = getAppBaseUrl()
   const url = `${baseUrl}${buildMusicDeepLinkPath("track", id)}`
 
-  const track = getTrack(id)
+  const track = await getServerMusicRepository().findTrackById(id)
   if (!track) {
     return {
       title: "Music — MetaDJ Nexus",
@@ -0,0 +1,54 @@
+/**
+ * Admin AI Usage Export API Route
+ *
+ * GET /api/admin/ai-usage/export - Download the `ai_usage` ledger as CSV,
+ * one row per request (newest first), streamed a page at a time
+ * Query params: ?days=30 (max 90)
+ */
+
+import { NextResponse } from 'next/server';
+import { AI_USAGE_MAX_DAYS } from '@/lib/ai/usage-ledger';
+import { createAiUsageCsvStream } from '@/lib/ai/usage-recording';
+import { getSession } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export async function GET(request: Request) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (!session.isAdmin) {
+      return NextResponse.json(
+        { success: false, message: 'Forbidden: Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(AI_USAGE_MAX_DAYS, Math.max(1, parseInt(searchParams.get('days') || '30', 10) || 30));
+
+    const dateLabel = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(createAiUsageCsvStream(days), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="metadjai-usage-${days}d-${dateLabel}.csv"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    logger.error('[Admin AI Usage] Export error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to export AI usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Admin AI Usage API Route
+ *
+ * GET /api/admin/ai-usage - Summary of the `ai_usage` ledger for the AI tab:
+ * cost per day/provider/model, p95 latency, failover rate, top tool calls
+ * Query params: ?days=30 (max 90)
+ */
+
+import { NextResponse } from 'next/server';
+import { AI_USAGE_MAX_DAYS, summarizeAiUsageAggregates } from '@/lib/ai/usage-ledger';
+import { loadAiUsageAggregates } from '@/lib/ai/usage-recording';
+import { getSession } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export async function GET(request: Request) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (!session.isAdmin) {
+      return NextResponse.json(
+        { success: false, message: 'Forbidden: Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(AI_USAGE_MAX_DAYS, Math.max(1, parseInt(searchParams.get('days') || '30', 10) || 30));
+
+    const aggregates = await loadAiUsageAggregates(days);
+
+    return NextResponse.json({
+      success: true,
+      summary: summarizeAiUsageAggregates(aggregates, { days }),
+    });
+  } catch (error) {
+    logger.error('[Admin AI Usage] Error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch AI usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Admin Catalog Collection Order API Route
+ *
+ * PUT /api/admin/catalog/collections/order - Persist collection display order
+ * Body: { collectionIds: string[] } (every catalog collection, in the new order)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { invalidateMusicCatalogCache } from '@/lib/music/db-repository';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import { getCatalogCollections, reorderCatalogCollections } from '../../../../../../../server/storage';
+import { requireCatalogAdmin } from '../../utils';
+
+type ReorderPayload = {
+  collectionIds?: unknown;
+};
+
+export const PUT = withOriginValidation(async (request: NextRequest) => {
+  try {
+    const denied = await requireCatalogAdmin();
+    if (denied) return denied;
+
+    const bodyResult = await readJsonBodyWithLimit<ReorderPayload>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const { collectionIds } = bodyResult.data ?? {};
+    if (!Array.isArray(collectionIds) || !collectionIds.every((id) => typeof id === 'string')) {
+      return NextResponse.json(
+        { success: false, message: 'collectionIds must be an array of strings' },
+        { status: 400 }
+      );
+    }
+
+    // Require the full set so a stale editor cannot drop collections from the order
+    const existingIds = new Set((await getCatalogCollections()).map((collection) => collection.id));
+    const requestedIds = new Set(collectionIds);
+    const isCompleteOrder =
+      requestedIds.size === collectionIds.length &&
+      requestedIds.size === existingIds.size &&
+      collectionIds.every((id) => existingIds.has(id));
+
+    if (!isCompleteOrder) {
+      return NextResponse.json(
+        { success: false, message: 'Collection order must list every collection exactly once' },
+        { status: 400 }
+      );
+    }
+
+    await reorderCatalogCollections(collectionIds);
+    invalidateMusicCatalogCache();
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('[Admin Catalog] Reorder collections error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to reorder collections' },
+      { status: 500 }
+    );
+  }
+});
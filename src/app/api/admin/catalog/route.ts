@@ -0,0 +1,38 @@
+/**
+ * Admin Catalog API Route
+ *
+ * GET /api/admin/catalog - List every catalog collection and track (including disabled)
+ */
+
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { resolveMusicCatalogSource } from '@/lib/music/catalog';
+import { requireCatalogAdmin } from './utils';
+import { getCatalogCollections, getCatalogTracks } from '../../../../../server/storage';
+
+export async function GET() {
+  try {
+    const denied = await requireCatalogAdmin();
+    if (denied) return denied;
+
+    const [collections, tracks] = await Promise.all([getCatalogCollections(), getCatalogTracks()]);
+
+    return NextResponse.json(
+      {
+        success: true,
+        source: resolveMusicCatalogSource(),
+        collections,
+        tracks,
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[Admin Catalog] List error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch catalog' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Admin Catalog Seed API Route
+ *
+ * POST /api/admin/catalog/seed - Copy the bundled JSON catalog into the database.
+ * Existing rows are left untouched, so this is safe to run more than once.
+ */
+
+import { NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { toCatalogSeedRows } from '@/lib/music/catalog';
+import { collectionList, trackList } from '@/lib/music/data';
+import { invalidateMusicCatalogCache } from '@/lib/music/db-repository';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { seedCatalog } from '../../../../../../server/storage';
+import { requireCatalogAdmin } from '../utils';
+
+export const POST = withOriginValidation(async () => {
+  try {
+    const denied = await requireCatalogAdmin();
+    if (denied) return denied;
+
+    const inserted = await seedCatalog(toCatalogSeedRows(collectionList, trackList));
+    invalidateMusicCatalogCache();
+
+    return NextResponse.json({ success: true, inserted });
+  } catch (error) {
+    logger.error('[Admin Catalog] Seed error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to seed catalog' },
+      { status: 500 }
+    );
+  }
+});
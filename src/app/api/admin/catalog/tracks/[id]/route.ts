@@ -0,0 +1,76 @@
+/**
+ * Admin Catalog Track API Route
+ *
+ * PATCH /api/admin/catalog/tracks/[id] - Edit a catalog track (send `enabled: false` to disable)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { parseCatalogTrackUpdate } from '@/lib/music/catalog';
+import { invalidateMusicCatalogCache } from '@/lib/music/db-repository';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import { getCatalogCollectionById, updateCatalogTrack } from '../../../../../../../server/storage';
+import { requireCatalogAdmin } from '../../utils';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export const PATCH = withOriginValidation(async (request: NextRequest, context: RouteContext) => {
+  try {
+    const denied = await requireCatalogAdmin();
+    if (denied) return denied;
+
+    const { id } = await context.params;
+    const bodyResult = await readJsonBodyWithLimit<unknown>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const parsed = parseCatalogTrackUpdate(bodyResult.data);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const updates = parsed.data;
+    if (Object.keys(updates).length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'No changes provided' },
+        { status: 400 }
+      );
+    }
+
+    if (updates.collectionId && !(await getCatalogCollectionById(updates.collectionId))) {
+      return NextResponse.json(
+        { success: false, message: 'Collection not found' },
+        { status: 400 }
+      );
+    }
+
+    const track = await updateCatalogTrack(id, updates);
+
+    if (!track) {
+      return NextResponse.json(
+        { success: false, message: 'Track not found' },
+        { status: 404 }
+      );
+    }
+
+    invalidateMusicCatalogCache();
+
+    return NextResponse.json({ success: true, track });
+  } catch (error) {
+    logger.error('[Admin Catalog] Update track error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to update track' },
+      { status: 500 }
+    );
+  }
+});
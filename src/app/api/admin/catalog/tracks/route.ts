@@ -0,0 +1,77 @@
+/**
+ * Admin Catalog Tracks API Route
+ *
+ * POST /api/admin/catalog/tracks - Create a catalog track (appended to its collection)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { parseCatalogTrackInput } from '@/lib/music/catalog';
+import { invalidateMusicCatalogCache } from '@/lib/music/db-repository';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import {
+  createCatalogTrack,
+  getCatalogCollectionById,
+  getCatalogTrackById,
+} from '../../../../../../server/storage';
+import { requireCatalogAdmin } from '../utils';
+
+export const POST = withOriginValidation(async (request: NextRequest) => {
+  try {
+    const denied = await requireCatalogAdmin();
+    if (denied) return denied;
+
+    const bodyResult = await readJsonBodyWithLimit<unknown>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const parsed = parseCatalogTrackInput(bodyResult.data);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { enabled, ...input } = parsed.data;
+
+    if (!(await getCatalogCollectionById(input.collectionId))) {
+      return NextResponse.json(
+        { success: false, message: 'Collection not found' },
+        { status: 400 }
+      );
+    }
+
+    if (await getCatalogTrackById(input.id)) {
+      return NextResponse.json(
+        { success: false, message: 'A track with this ID already exists' },
+        { status: 409 }
+      );
+    }
+
+    const track = await createCatalogTrack({
+      ...input,
+      artworkUrl: input.artworkUrl ?? null,
+      description: input.description ?? null,
+      bpm: input.bpm ?? null,
+      key: input.key ?? null,
+      loudnessLufs: input.loudnessLufs ?? null,
+      peakDb: input.peakDb ?? null,
+      enabled: enabled ?? true,
+    });
+    invalidateMusicCatalogCache();
+
+    return NextResponse.json({ success: true, track }, { status: 201 });
+  } catch (error) {
+    logger.error('[Admin Catalog] Create track error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to create track' },
+      { status: 500 }
+    );
+  }
+});
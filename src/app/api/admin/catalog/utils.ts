@@ -0,0 +1,31 @@
+/**
+ * Admin Catalog API Helpers
+ *
+ * Shared admin gate for the `/api/admin/catalog` routes.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+
+/**
+ * Resolve to an error response unless the caller is an admin
+ */
+export async function requireCatalogAdmin(): Promise<NextResponse | null> {
+  const session = await getSession();
+
+  if (!session) {
+    return NextResponse.json(
+      { success: false, message: 'Not authenticated' },
+      { status: 401 }
+    );
+  }
+
+  if (!session.isAdmin) {
+    return NextResponse.json(
+      { success: false, message: 'Forbidden: Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,57 @@
+/**
+ * Admin Catalog Audio Validation API Route
+ *
+ * POST /api/admin/catalog/validate-audio - Check that an audioUrl exists in the R2 music bucket
+ * Body: { audioUrl: string }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { logger } from '@/lib/logger';
+import { validateCatalogAudioUrl } from '@/lib/music/audio-validation';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import { requireCatalogAdmin } from '../utils';
+
+type ValidateAudioPayload = {
+  audioUrl?: unknown;
+};
+
+export const POST = withOriginValidation(async (request: NextRequest) => {
+  try {
+    const denied = await requireCatalogAdmin();
+    if (denied) return denied;
+
+    const bodyResult = await readJsonBodyWithLimit<ValidateAudioPayload>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const { audioUrl } = bodyResult.data ?? {};
+    if (typeof audioUrl !== 'string' || !audioUrl) {
+      return NextResponse.json(
+        { success: false, message: 'audioUrl is required' },
+        { status: 400 }
+      );
+    }
+
+    const result = await validateCatalogAudioUrl(audioUrl);
+
+    if (!result.valid && result.reason === 'storage_unavailable') {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 503 }
+      );
+    }
+
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    logger.error('[Admin Catalog] Validate audio error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to validate audio' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,176 @@
+/**
+ * Admin User AI Quota API Route
+ *
+ * GET /api/admin/users/[id]/ai-quota - A user's AI tier, override, and current usage
+ * PUT /api/admin/users/[id]/ai-quota - Set the user's tier and custom limits (null = tier default)
+ * DELETE /api/admin/users/[id]/ai-quota - Clear the override (back to the free tier)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserAiQuotaStatus, toAiQuotaOverride } from '@/lib/ai/quota-tracking';
+import { parseAiQuotaOverride } from '@/lib/ai/quotas';
+import { getSession } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import {
+  deleteAiEntitlement,
+  findUserById,
+  getAiEntitlement,
+  upsertAiEntitlement,
+} from '../../../../../../../server/storage';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * Resolve the admin session, or an error response
+ */
+async function requireAdmin() {
+  const session = await getSession();
+
+  if (!session) {
+    return {
+      session: null,
+      denied: NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  if (!session.isAdmin) {
+    return {
+      session: null,
+      denied: NextResponse.json(
+        { success: false, message: 'Forbidden: Admin access required' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { session, denied: null };
+}
+
+async function buildQuotaResponse(userId: string, isAdmin: boolean) {
+  const [quota, entitlement] = await Promise.all([
+    getUserAiQuotaStatus(userId, isAdmin),
+    getAiEntitlement(userId),
+  ]);
+
+  return NextResponse.json({
+    success: true,
+    quota,
+    override: toAiQuotaOverride(entitlement),
+  });
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  try {
+    const { denied } = await requireAdmin();
+    if (denied) return denied;
+
+    const { id } = await context.params;
+    const user = await findUserById(id);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    return buildQuotaResponse(user.id, user.isAdmin);
+  } catch (error) {
+    logger.error('[Admin AI Quota] Fetch error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch AI quota' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PUT = withOriginValidation(async (request: NextRequest, context: RouteContext) => {
+  try {
+    const { session, denied } = await requireAdmin();
+    if (denied) return denied;
+
+    const { id } = await context.params;
+    const bodyResult = await readJsonBodyWithLimit<unknown>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const parsed = parseAiQuotaOverride(bodyResult.data);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const user = await findUserById(id);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    const { tier, limits } = parsed.data;
+    await upsertAiEntitlement(
+      user.id,
+      {
+        tier,
+        dailyTokenLimit: limits.dailyTokens,
+        monthlyTokenLimit: limits.monthlyTokens,
+        dailyCostLimitUsd: limits.dailyCostUsd,
+        monthlyCostLimitUsd: limits.monthlyCostUsd,
+      },
+      session.id
+    );
+
+    logger.info('[Admin AI Quota] Override set', { userId: user.id, tier, updatedBy: session.id });
+    return buildQuotaResponse(user.id, user.isAdmin);
+  } catch (error) {
+    logger.error('[Admin AI Quota] Update error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to update AI quota' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withOriginValidation(async (_request: NextRequest, context: RouteContext) => {
+  try {
+    const { session, denied } = await requireAdmin();
+    if (denied) return denied;
+
+    const { id } = await context.params;
+    const user = await findUserById(id);
+    if (!user) {
+      return NextResponse.json(
+        { success: false, message: 'User not found' },
+        { status: 404 }
+      );
+    }
+
+    await deleteAiEntitlement(user.id);
+
+    logger.info('[Admin AI Quota] Override cleared', { userId: user.id, updatedBy: session.id });
+    return buildQuotaResponse(user.id, user.isAdmin);
+  } catch (error) {
+    logger.error('[Admin AI Quota] Reset error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to reset AI quota' },
+      { status: 500 }
+    );
+  }
+});
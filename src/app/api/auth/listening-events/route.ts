@@ -0,0 +1,62 @@
+/**
+ * Listening Events API Route
+ *
+ * POST /api/auth/listening-events - Record one listen (start, completion, skip, source)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { parseListeningEventInput } from '@/lib/listening/events';
+import { logger } from '@/lib/logger';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import { recordListeningEvent } from '../../../../../server/storage';
+
+export const POST = withOriginValidation(async (request: NextRequest) => {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true });
+    }
+
+    const bodyResult = await readJsonBodyWithLimit<unknown>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const parsed = parseListeningEventInput(bodyResult.data);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, message: parsed.error },
+        { status: 400 }
+      );
+    }
+
+    const { startedAt, collection, sourceId, ...event } = parsed.data;
+    await recordListeningEvent(session.id, {
+      ...event,
+      collection: collection ?? null,
+      sourceId: sourceId ?? null,
+      startedAt: new Date(startedAt),
+    });
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    logger.error('[ListeningEvents] Record error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to record listening event' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,90 @@
+/**
+ * Listening Stats API Route
+ *
+ * GET /api/auth/listening-events/stats?tz=<getTimezoneOffset()> - "Your stats" summary:
+ * top tracks, total minutes, most-played collection, and listening streaks
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { PLAY_THRESHOLD_SECONDS } from '@/lib/listening/events';
+import { computeListeningStreaks, normalizeTimezoneOffset, toListeningDay } from '@/lib/listening/stats';
+import { logger } from '@/lib/logger';
+import { getServerMusicRepository } from '@/lib/music/server';
+import { getListeningStatsSummary } from '../../../../../../server/storage';
+import type { ListeningStats } from '@/types';
+
+const TOP_TRACK_LIMIT = 5;
+
+const EMPTY_STATS: ListeningStats = {
+  totalMinutes: 0,
+  totalPlays: 0,
+  topTracks: [],
+  mostPlayedCollection: null,
+  currentStreakDays: 0,
+  longestStreakDays: 0,
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, stats: EMPTY_STATS });
+    }
+
+    const timezoneOffsetMinutes = normalizeTimezoneOffset(request.nextUrl.searchParams.get('tz'));
+    const summary = await getListeningStatsSummary(session.id, {
+      playThresholdSeconds: PLAY_THRESHOLD_SECONDS,
+      timezoneOffsetMinutes,
+      topTrackLimit: TOP_TRACK_LIMIT,
+    });
+
+    const repository = getServerMusicRepository();
+    const topTracks = await Promise.all(
+      summary.topTracks.map(async (row) => {
+        const track = await repository.findTrackById(row.trackId);
+        return {
+          trackId: row.trackId,
+          title: track?.title ?? null,
+          collection: track?.collection ?? row.collection,
+          plays: row.plays,
+          minutes: Math.round(row.seconds / 60),
+        };
+      })
+    );
+
+    const streaks = computeListeningStreaks(
+      summary.listeningDays,
+      toListeningDay(new Date(), timezoneOffsetMinutes)
+    );
+
+    const stats: ListeningStats = {
+      totalMinutes: Math.round(summary.totalSeconds / 60),
+      totalPlays: summary.totalPlays,
+      topTracks,
+      mostPlayedCollection: summary.topCollection,
+      ...streaks,
+    };
+
+    return NextResponse.json(
+      { success: true, stats },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[ListeningEvents] Stats error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to get listening stats' },
+      { status: 500 }
+    );
+  }
+}
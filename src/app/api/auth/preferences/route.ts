@@ -11,6 +11,7 @@ import { logger } from '@/lib/logger';
 import {
   getDefaultPreferences,
   getUserPreferences,
+  sanitizeAudioPreferenceUpdates,
   updateAudioPreferences,
   ensureUserPreferences,
   type AudioPreferences,
@@ -80,7 +81,8 @@ export const PATCH = withOriginValidation(async (request: NextRequest, _context:
     );
     if (!bodyResult.ok) return bodyResult.response;
 
-    const { category, updates } = bodyResult.data ?? {};
+    const { category, updates: rawUpdates } = bodyResult.data ?? {};
+    const updates = sanitizeAudioPreferenceUpdates(rawUpdates);
 
     if (isE2EAuthBypassEnabled()) {
       if (category !== 'audio') {
@@ -93,12 +95,12 @@ export const PATCH = withOriginValidation(async (request: NextRequest, _context:
       const defaults = getDefaultPreferences();
       return NextResponse.json({
         success: true,
-        audio: { ...defaults.audio, ...(updates || {}) },
+        audio: { ...defaults.audio, ...updates },
       });
     }
 
     if (category === 'audio') {
-      const newAudio = await updateAudioPreferences(session.id, updates || {});
+      const newAudio = await updateAudioPreferences(session.id, updates);
       return NextResponse.json({
         success: true,
         audio: newAudio,
@@ -0,0 +1,69 @@
+/**
+ * Personalized Recommendations API Route
+ *
+ * GET /api/auth/recommendations?limit=<n> - Tracks ranked for the signed-in
+ * listener from their play, skip and completion history plus genre/BPM/key similarity
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { getUserListeningHistory } from '@/lib/listening/server';
+import { logger } from '@/lib/logger';
+import { recommendTracksForListener } from '@/lib/music/recommendations';
+import { getServerMusicRepository } from '@/lib/music/server';
+
+const DEFAULT_LIMIT = 12;
+const MAX_LIMIT = 30;
+
+function parseLimit(value: string | null): number {
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) return DEFAULT_LIMIT;
+  return Math.min(limit, MAX_LIMIT);
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, personalized: false, recommendations: [] });
+    }
+
+    const [history, tracks] = await Promise.all([
+      getUserListeningHistory(session.id),
+      getServerMusicRepository().listTracks(),
+    ]);
+
+    const recommendations = recommendTracksForListener(tracks, history, {
+      limit: parseLimit(request.nextUrl.searchParams.get('limit')),
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        personalized: recommendations.length > 0,
+        recommendations: recommendations.map(({ track, score, reasons }) => ({
+          trackId: track.id,
+          score,
+          reasons,
+        })),
+      },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[Recommendations] Get error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to get recommendations' },
+      { status: 500 }
+    );
+  }
+}
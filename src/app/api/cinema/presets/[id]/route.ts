@@ -0,0 +1,16 @@
+/**
+ * Cinema Visualizer Preset API Route
+ *
+ * DELETE /api/cinema/presets/{id} - Delete one saved visualizer preset
+ */
+
+import { createUserPresetItemHandlers } from "@/lib/presets/routes"
+import { deleteVisualizerPreset } from "../../../../../../server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export const { DELETE } = createUserPresetItemHandlers({
+  label: "Visualizer Presets",
+  remove: deleteVisualizerPreset,
+})
@@ -0,0 +1,26 @@
+/**
+ * Cinema Visualizer Presets API Route
+ *
+ * GET /api/cinema/presets - List the signed-in user's saved visualizer presets
+ * POST /api/cinema/presets - Save a visualizer preset ({ name, sceneId, params })
+ */
+
+import { createUserPresetCollectionHandlers } from "@/lib/presets/routes"
+import {
+  VISUALIZER_PRESET_MAX,
+  parseVisualizerPresetInput,
+  toVisualizerPreset,
+} from "@/lib/visualizers/presets"
+import { createVisualizerPreset, getVisualizerPresets } from "../../../../../server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export const { GET, POST } = createUserPresetCollectionHandlers({
+  label: "Visualizer Presets",
+  maxPresets: VISUALIZER_PRESET_MAX,
+  parseInput: parseVisualizerPresetInput,
+  toPreset: toVisualizerPreset,
+  list: getVisualizerPresets,
+  create: createVisualizerPreset,
+})
@@ -0,0 +1,171 @@
+import { logger } from "@/lib/logger"
+import { daydreamFetch, getDaydreamConfig } from "../utils"
+import type { StreamDiffusionBackend, WhipForwardRequest } from "./types"
+
+/**
+ * Maximum allowed WHIP payload size (64KB).
+ * SDP payloads are typically 1-4KB; 64KB provides headroom for ICE candidates.
+ */
+const MAX_WHIP_BODY_SIZE = 64 * 1024
+
+const DEFAULT_ALLOWED_HOSTS = [
+  "daydream.live",
+  "sdaydream.live",
+  "livepeer.com",
+  "livepeer.studio",
+  "livepeer.cloud",
+  "lp-playback.studio",
+]
+
+function getAllowedHosts() {
+  const { allowedHosts } = getDaydreamConfig()
+  const merged = allowedHosts.length > 0 ? allowedHosts : DEFAULT_ALLOWED_HOSTS
+  return merged
+}
+
+function isAllowedHost(hostname: string) {
+  const hosts = getAllowedHosts()
+  if (hosts.some((allowed) => hostname === allowed || hostname.endsWith(`.${allowed}`))) return true
+  const { allowDevWhip } = getDaydreamConfig()
+  if (!allowDevWhip) return false
+  return hostname === "localhost" || hostname === "127.0.0.1"
+}
+
+function enforceHttps(url: URL) {
+  if (url.protocol === "http:" && isAllowedHost(url.hostname)) {
+    return new URL(url.toString().replace(/^http:/, "https:"))
+  }
+  return url
+}
+
+function resolveResource(resource: string | null) {
+  const raw = resource?.trim()
+  if (!raw) throw new Response("Missing resource URL", { status: 400 })
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    throw new Response("Invalid resource URL", { status: 400 })
+  }
+
+  const { allowDevWhip } = getDaydreamConfig()
+  const isLocal = url.hostname === "localhost" || url.hostname === "127.0.0.1"
+  if (url.protocol !== "https:") {
+    if (url.protocol === "http:" && isAllowedHost(url.hostname)) {
+      url = enforceHttps(url)
+    } else if (!(allowDevWhip && isLocal && url.protocol === "http:")) {
+      throw new Response("Only HTTPS WHIP endpoints are allowed", { status: 400 })
+    }
+  }
+
+  if (!isAllowedHost(url.hostname)) {
+    throw new Response("Forbidden WHIP host", { status: 403 })
+  }
+
+  return url
+}
+
+function buildProxyLocation(origin: string, streamId: string, upstreamLocation: string, base: URL) {
+  const absolute = enforceHttps(new URL(upstreamLocation, base)).toString()
+  return `${origin}/api/daydream/streams/${encodeURIComponent(streamId)}/whip?resource=${encodeURIComponent(absolute)}`
+}
+
+async function forwardWhip({ method, streamId, resource, body, contentType, origin }: WhipForwardRequest) {
+  // NOTE: We intentionally do NOT add an Authorization header here.
+  // The WHIP URL from Daydream/Livepeer is pre-signed with a stream-specific token
+  // embedded in the URL path (e.g., stk_xxx). Adding a Bearer token with the API key
+  // causes auth conflicts and 401/403 errors.
+  const target = resolveResource(resource)
+
+  const headers: Record<string, string> = {
+    Accept: "application/sdp",
+  }
+  if (method !== "DELETE") {
+    headers["Content-Type"] =
+      method === "PATCH"
+        ? contentType || "application/trickle-ice-sdpfrag"
+        : "application/sdp"
+  }
+
+  if ((method === "POST" || method === "PATCH") && (!body || body.trim().length === 0)) {
+    throw new Response("Missing WHIP payload", { status: 400 })
+  }
+  if (body && body.length > MAX_WHIP_BODY_SIZE) {
+    throw new Response("Payload too large", { status: 413 })
+  }
+
+  const upstream = await fetch(target, { method, headers, body })
+
+  if (process.env.NODE_ENV !== "production") {
+    // Lightweight debug logging for local dev - avoids leaking payloads
+    logger.debug("[Dream] WHIP proxy request", { method, host: target.hostname, path: target.pathname, status: upstream.status })
+  }
+
+  if (method === "DELETE") {
+    if (upstream.ok || upstream.status === 404 || upstream.status === 405) {
+      return new Response(null, { status: 204 })
+    }
+    const text = await upstream.text().catch(() => "")
+    return new Response(text, { status: upstream.status })
+  }
+
+  const responseHeaders: HeadersInit = {
+    "Content-Type": upstream.headers.get("Content-Type") || "application/sdp",
+  }
+
+  // Forward Link headers - these contain ICE server info per WHIP spec (RFC 8840)
+  // Format: <turn:host>; rel="ice-server"; username="xxx"; credential="yyy"
+  const linkHeader = upstream.headers.get("Link")
+  if (linkHeader) {
+    responseHeaders["Link"] = linkHeader
+  }
+
+  const location = upstream.headers.get("Location")
+  if (location) {
+    responseHeaders["Location"] = buildProxyLocation(origin, streamId, location, target)
+  }
+
+  const text = await upstream.text()
+  return new Response(text, { status: upstream.status, headers: responseHeaders })
+}
+
+/**
+ * Daydream StreamDiffusion (https://api.daydream.live)
+ */
+export const daydreamBackend: StreamDiffusionBackend = {
+  name: "daydream",
+
+  isConfigured() {
+    return Boolean(getDaydreamConfig().apiKey)
+  },
+
+  createStream(payload) {
+    return daydreamFetch("/v1/streams", {
+      method: "POST",
+      body: JSON.stringify(payload),
+    })
+  },
+
+  getStreamStatus(streamId) {
+    return daydreamFetch(`/v1/streams/${encodeURIComponent(streamId)}/status`, {
+      method: "GET",
+    })
+  },
+
+  updateStreamParameters(streamId, payload) {
+    // Daydream PATCH (per official OpenAPI) expects: { pipeline, params }.
+    return daydreamFetch(`/v1/streams/${encodeURIComponent(streamId)}`, {
+      method: "PATCH",
+      body: JSON.stringify(payload),
+    })
+  },
+
+  endStream(streamId) {
+    // Per official Daydream OpenAPI: DELETE /v1/streams?id={id}
+    return daydreamFetch(`/v1/streams?id=${encodeURIComponent(streamId)}`, {
+      method: "DELETE",
+    })
+  },
+
+  forwardWhip,
+}
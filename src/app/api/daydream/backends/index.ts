@@ -0,0 +1,21 @@
+import { logger } from "@/lib/logger"
+import { daydreamBackend } from "./daydream"
+import { mockBackend } from "./mock"
+import type { StreamDiffusionBackend } from "./types"
+
+export type { StreamBackendName, StreamDiffusionBackend, WhipForwardRequest } from "./types"
+
+/**
+ * Backend selected by `DAYDREAM_BACKEND` (default: daydream).
+ * The mock backend is never used in production builds.
+ */
+export function getStreamBackend(): StreamDiffusionBackend {
+  // Access env directly, like getDaydreamConfig (Turbopack env loading timing)
+  if (process.env.DAYDREAM_BACKEND !== "mock") return daydreamBackend
+
+  if (process.env.NODE_ENV === "production") {
+    logger.warn("DAYDREAM_BACKEND=mock is ignored in production; using Daydream")
+    return daydreamBackend
+  }
+  return mockBackend
+}
@@ -0,0 +1,122 @@
+import { randomUUID } from "crypto"
+import { MOCK_STREAM_WARMUP_MS, buildMockWhipUrl } from "@/lib/daydream/mock-stream"
+import type { StreamDiffusionBackend } from "./types"
+
+/** Mock streams are forgotten after the same 30-minute cap the limiter uses */
+const MOCK_STREAM_MAX_AGE_MS = 30 * 60 * 1000
+
+interface MockStream {
+  id: string
+  createdAt: number
+  params: Record<string, unknown>
+  /** Number of accepted parameter updates (exposed in status for tests) */
+  updates: number
+}
+
+const globalStore = globalThis as typeof globalThis & {
+  __dreamMockStreams?: Map<string, MockStream>
+}
+
+// In-memory storage (hoisted to global for dev HMR resilience)
+const mockStreams = globalStore.__dreamMockStreams ?? new Map<string, MockStream>()
+globalStore.__dreamMockStreams = mockStreams
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  })
+}
+
+function pruneExpired(now: number) {
+  for (const [id, stream] of mockStreams.entries()) {
+    if (now - stream.createdAt > MOCK_STREAM_MAX_AGE_MS) {
+      mockStreams.delete(id)
+    }
+  }
+}
+
+function isWarmingUp(stream: MockStream) {
+  return Date.now() - stream.createdAt < MOCK_STREAM_WARMUP_MS
+}
+
+/**
+ * Local mock backend for offline development and Playwright.
+ *
+ * Mirrors Daydream's observable behavior: streams report "initializing" and
+ * reject parameter updates with "Stream not ready yet" for
+ * `MOCK_STREAM_WARMUP_MS`, then go active. WHIP URLs use the `mock-whip:`
+ * scheme; the browser answers those offers itself with the in-page mock WHIP
+ * server (`src/lib/streaming/mock-whip-server.ts`), so nothing is proxied.
+ */
+export const mockBackend: StreamDiffusionBackend = {
+  name: "mock",
+
+  isConfigured() {
+    return true
+  },
+
+  async createStream(payload) {
+    const now = Date.now()
+    pruneExpired(now)
+
+    const id = `mock_${randomUUID().replace(/-/g, "").slice(0, 16)}`
+    const params = ("params" in payload && payload.params ? payload.params : payload) as Record<string, unknown>
+    mockStreams.set(id, { id, createdAt: now, params: { ...params }, updates: 0 })
+
+    const mockUrl = buildMockWhipUrl(id)
+    return json({
+      id,
+      status: "initializing",
+      whip_url: mockUrl,
+      playback_url: mockUrl,
+      params,
+    })
+  },
+
+  async getStreamStatus(streamId) {
+    const stream = mockStreams.get(streamId)
+    if (!stream) {
+      return json({ error: "Stream not found" }, 404)
+    }
+    return json({
+      success: true,
+      data: {
+        id: stream.id,
+        status: isWarmingUp(stream) ? "initializing" : "active",
+        prompt: stream.params.prompt ?? null,
+        seed: stream.params.seed ?? null,
+        updates: stream.updates,
+      },
+    })
+  },
+
+  async updateStreamParameters(streamId, payload) {
+    const stream = mockStreams.get(streamId)
+    if (!stream) {
+      return json({ error: "Stream not found" }, 404)
+    }
+    if (isWarmingUp(stream)) {
+      return json({ error: "Stream not ready yet", code: "STREAM_NOT_READY" }, 404)
+    }
+    stream.params = { ...stream.params, ...payload.params }
+    stream.updates += 1
+    return json({ id: stream.id, params: stream.params })
+  },
+
+  async endStream(streamId) {
+    const existed = mockStreams.delete(streamId)
+    return existed ? json({ ok: true }) : json({ error: "Stream not found" }, 404)
+  },
+
+  async forwardWhip() {
+    return new Response("Mock WHIP offers are answered in the browser", { status: 501 })
+  },
+}
+
+/**
+ * Clear mock streams (tests only)
+ */
+export function resetMockStreams(): void {
+  mockStreams.clear()
+}
@@ -0,0 +1,41 @@
+import type { CreateStreamPayload } from "@/lib/daydream/schemas"
+
+/**
+ * Stream-diffusion backend names (`DAYDREAM_BACKEND`)
+ */
+export type StreamBackendName = "daydream" | "mock"
+
+/**
+ * WHIP request forwarded by `/api/daydream/streams/[streamId]/whip`
+ */
+export interface WhipForwardRequest {
+  method: "POST" | "PATCH" | "DELETE"
+  streamId: string
+  /** Upstream WHIP resource URL from the `resource` query param */
+  resource: string | null
+  /** SDP offer or trickle ICE fragment (undefined for DELETE) */
+  body?: string
+  contentType?: string | null
+  /** Request origin, used to rewrite `Location` headers through the proxy */
+  origin: string
+}
+
+/**
+ * Everything the Dream routes need from a stream-diffusion service.
+ *
+ * Methods resolve to upstream-shaped `Response`s so routes keep one code path
+ * for status codes and JSON bodies whichever backend answers. Throwing an
+ * `Error` named `AbortError` signals an upstream timeout.
+ */
+export interface StreamDiffusionBackend {
+  readonly name: StreamBackendName
+  /** Whether the backend has what it needs (e.g. an API key) */
+  isConfigured(): boolean
+  createStream(payload: CreateStreamPayload): Promise<Response>
+  getStreamStatus(streamId: string): Promise<Response>
+  /** Apply a `{ pipeline, params }` update to a running stream */
+  updateStreamParameters(streamId: string, payload: { pipeline: string; params: Record<string, unknown> }): Promise<Response>
+  endStream(streamId: string): Promise<Response>
+  /** Forward a WHIP offer/trickle/teardown; thrown `Response`s are returned as-is by the route */
+  forwardWhip(request: WhipForwardRequest): Promise<Response>
+}
@@ -1,4 +1,5 @@
 import { NextResponse } from "next/server"
+import { getStreamBackend } from "../backends"
 import { getDaydreamConfig } from "../utils"
 
 export const runtime = "nodejs"
@@ -6,10 +7,11 @@ export const dynamic = "force-dynamic"
 
 /**
  * GET /api/daydream/config
- * Check if Daydream API is configured (has API key) without creating streams
+ * Check if the Dream backend is configured (Daydream API key or the mock backend) without creating streams
  */
 export async function GET() {
-  const { apiKey, publicEnabled } = getDaydreamConfig()
-  const configured = Boolean(apiKey && publicEnabled)
-  return NextResponse.json({ configured, enabled: publicEnabled })
+  const { publicEnabled } = getDaydreamConfig()
+  const backend = getStreamBackend()
+  const configured = Boolean(backend.isConfigured() && publicEnabled)
+  return NextResponse.json({ configured, enabled: publicEnabled, backend: backend.name })
 }
@@ -0,0 +1,16 @@
+/**
+ * Dream Prompt Preset API Route
+ *
+ * DELETE /api/daydream/presets/{id} - Delete one saved Dream prompt
+ */
+
+import { createUserPresetItemHandlers } from "@/lib/presets/routes"
+import { deleteDreamPromptPreset } from "../../../../../../server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export const { DELETE } = createUserPresetItemHandlers({
+  label: "Dream Presets",
+  remove: deleteDreamPromptPreset,
+})
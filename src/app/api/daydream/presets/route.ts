@@ -0,0 +1,26 @@
+/**
+ * Dream Prompt Presets API Route
+ *
+ * GET /api/daydream/presets - List the signed-in user's saved Dream prompts
+ * POST /api/daydream/presets - Save a Dream prompt ({ name, promptBase, presentation })
+ */
+
+import {
+  DREAM_PROMPT_PRESET_MAX,
+  parseDreamPromptPresetInput,
+  toDreamPromptPreset,
+} from "@/lib/daydream/prompt-presets"
+import { createUserPresetCollectionHandlers } from "@/lib/presets/routes"
+import { createDreamPromptPreset, getDreamPromptPresets } from "../../../../../server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export const { GET, POST } = createUserPresetCollectionHandlers({
+  label: "Dream Presets",
+  maxPresets: DREAM_PROMPT_PRESET_MAX,
+  parseInput: parseDreamPromptPresetInput,
+  toPreset: toDreamPromptPreset,
+  list: getDreamPromptPresets,
+  create: createDreamPromptPreset,
+})
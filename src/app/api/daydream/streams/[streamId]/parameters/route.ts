@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server"
 import { getActiveStream, getClientIdentifier } from "@/lib/daydream/stream-limiter"
 import { getMaxRequestSize, readJsonBodyWithLimit } from "@/lib/validation/request-size"
-import { daydreamFetch, jsonError } from "../../../utils"
+import { getStreamBackend } from "../../../backends"
+import { jsonError } from "../../../utils"
 import type { NextRequest } from "next/server"
 
 export const runtime = "nodejs"
@@ -9,7 +10,7 @@ export const dynamic = "force-dynamic"
 
 /**
  * PATCH /api/daydream/streams/:streamId/parameters
- * Pass-through to Daydream to update stream parameters (prompt, guidance, etc).
+ * Pass-through to the stream backend to update stream parameters (prompt, guidance, etc).
  * Used by MetaDJ Nexus to re-assert the initial prompt payload after stream creation.
  */
 export async function PATCH(
@@ -59,10 +60,7 @@ export async function PATCH(
 
     const payload = { pipeline, params: paramsObject }
 
-    const upstream = await daydreamFetch(`/v1/streams/${encodeURIComponent(streamId)}`, {
-      method: "PATCH",
-      body: JSON.stringify(payload),
-    })
+    const upstream = await getStreamBackend().updateStreamParameters(streamId, payload)
 
     // If fetch failed deeply (network), JSON parsing might fail if we don't read text first
     // For error debugging, read text first
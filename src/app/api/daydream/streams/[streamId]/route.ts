@@ -1,7 +1,8 @@
 import { NextResponse } from "next/server"
 import { getActiveStream, getClientIdentifier, endStream } from "@/lib/daydream/stream-limiter"
 import { withOriginValidation } from "@/lib/validation/origin-validation"
-import { daydreamFetch, parseJson, jsonError } from "../../utils"
+import { getStreamBackend } from "../../backends"
+import { parseJson, jsonError } from "../../utils"
 import type { NextRequest } from "next/server"
 
 export const runtime = "nodejs"
@@ -26,10 +27,7 @@ export const DELETE = withOriginValidation(async (
     // Clear rate limiter so user can create new stream immediately
     await endStream(clientId, streamId)
 
-    // Per official Daydream OpenAPI: DELETE /v1/streams?id={id}
-    const upstream = await daydreamFetch(`/v1/streams?id=${encodeURIComponent(streamId)}`, {
-      method: "DELETE",
-    })
+    const upstream = await getStreamBackend().endStream(streamId)
 
     if (!upstream.ok && upstream.status !== 404 && upstream.status !== 405) {
       const body = await parseJson(upstream)
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server"
 import { getActiveStream, getClientIdentifier } from "@/lib/daydream/stream-limiter"
-import { daydreamFetch, parseJson, jsonError } from "../../../utils"
+import { getStreamBackend } from "../../../backends"
+import { parseJson, jsonError } from "../../../utils"
 import type { NextRequest } from "next/server"
 
 export const runtime = "nodejs"
@@ -22,9 +23,7 @@ export async function GET(
       return NextResponse.json({ error: "Stream not owned by active session" }, { status: 403 })
     }
 
-    const upstream = await daydreamFetch(`/v1/streams/${encodeURIComponent(streamId)}/status`, {
-      method: "GET",
-    })
+    const upstream = await getStreamBackend().getStreamStatus(streamId)
     const body = await parseJson(upstream)
 
     if (!upstream.ok) {
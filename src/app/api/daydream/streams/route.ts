@@ -11,7 +11,8 @@ import {
 } from "@/lib/daydream/stream-limiter"
 import { withOriginValidation } from "@/lib/validation/origin-validation"
 import { getMaxRequestSize, readJsonBodyWithLimit } from "@/lib/validation/request-size"
-import { daydreamFetch, parseJson, jsonError, getDaydreamConfig } from "../utils"
+import { getStreamBackend } from "../backends"
+import { parseJson, jsonError, getDaydreamConfig } from "../utils"
 import type { NextRequest } from "next/server"
 
 export const runtime = "nodejs"
@@ -19,8 +20,9 @@ export const dynamic = "force-dynamic"
 
 export const POST = withOriginValidation(async (request: NextRequest) => {
   try {
-    const { apiKey, publicEnabled } = getDaydreamConfig()
-    if (!apiKey || !publicEnabled) {
+    const { publicEnabled } = getDaydreamConfig()
+    const backend = getStreamBackend()
+    if (!backend.isConfigured() || !publicEnabled) {
       return NextResponse.json(
         { error: "Daydream is not enabled" },
         { status: 403 },
@@ -66,10 +68,7 @@ export const POST = withOriginValidation(async (request: NextRequest) => {
       throw error
     }
 
-    const upstream = await daydreamFetch("/v1/streams", {
-      method: "POST",
-      body: JSON.stringify(payload),
-    })
+    const upstream = await backend.createStream(payload)
 
     const body = await parseJson(upstream)
 
@@ -7,6 +7,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import {
+  buildMessageMetadata,
+  isMessageKind,
+  isMessageMode,
+  isMessageProvider,
+  isMessageStatus,
+} from '@/lib/metadjai/message-records';
 import { withOriginValidation } from '@/lib/validation/origin-validation';
 import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
 import {
@@ -16,30 +23,6 @@ import {
 } from '../../../../../../../../server/storage';
 import type { MetaDjAiMessage } from '@/types/metadjai.types';
 
-const isValidStatus = (value: unknown): value is MetaDjAiMessage['status'] =>
-  value === 'streaming' || value === 'complete' || value === 'error';
-
-const isValidKind = (value: unknown): value is NonNullable<MetaDjAiMessage['kind']> =>
-  value === 'mode-switch' || value === 'model-switch';
-
-const isValidMode = (value: unknown): value is NonNullable<MetaDjAiMessage['mode']> =>
-  value === 'adaptive' || value === 'explorer' || value === 'dj';
-
-function buildMetadata(message: MetaDjAiMessage): Record<string, unknown> | null {
-  const metadata: Record<string, unknown> = {};
-  if (message.status) metadata.status = message.status;
-  if (message.kind) metadata.kind = message.kind;
-  if (message.mode) metadata.mode = message.mode;
-  if (message.sources) metadata.sources = message.sources;
-  if (message.toolsUsed) metadata.toolsUsed = message.toolsUsed;
-  if (message.versions) metadata.versions = message.versions;
-  if (typeof message.currentVersionIndex === 'number') {
-    metadata.currentVersionIndex = message.currentVersionIndex;
-  }
-  if (message.proposal) metadata.proposal = message.proposal;
-  return Object.keys(metadata).length > 0 ? metadata : null;
-}
-
 type UpdatePayload = {
   message?: MetaDjAiMessage;
   content?: string;
@@ -48,6 +31,8 @@ type UpdatePayload = {
   mode?: MetaDjAiMessage['mode'];
   sources?: MetaDjAiMessage['sources'];
   toolsUsed?: MetaDjAiMessage['toolsUsed'];
+  provider?: MetaDjAiMessage['provider'];
+  model?: MetaDjAiMessage['model'];
   versions?: MetaDjAiMessage['versions'];
   currentVersionIndex?: MetaDjAiMessage['currentVersionIndex'];
   proposal?: MetaDjAiMessage['proposal'];
@@ -109,11 +94,13 @@ export const PATCH = withOriginValidation(async (
     if (payload.message) {
       const message = payload.message;
       content = message.content;
-      metadata = buildMetadata({
+      metadata = buildMessageMetadata({
         ...message,
-        status: isValidStatus(message.status) ? message.status : undefined,
-        kind: isValidKind(message.kind) ? message.kind : undefined,
-        mode: isValidMode(message.mode) ? message.mode : undefined,
+        status: isMessageStatus(message.status) ? message.status : undefined,
+        kind: isMessageKind(message.kind) ? message.kind : undefined,
+        mode: isMessageMode(message.mode) ? message.mode : undefined,
+        provider: isMessageProvider(message.provider) ? message.provider : undefined,
+        model: typeof message.model === 'string' ? message.model.slice(0, 100) : undefined,
       });
     } else {
       if (typeof payload.content === 'string') {
@@ -124,16 +111,18 @@ export const PATCH = withOriginValidation(async (
         role: existingMessage.role === 'user' ? 'user' : 'assistant',
         content: content ?? existingMessage.content,
         createdAt: existingMessage.createdAt.getTime(),
-        status: isValidStatus(payload.status) ? payload.status : undefined,
-        kind: isValidKind(payload.kind) ? payload.kind : undefined,
-        mode: isValidMode(payload.mode) ? payload.mode : undefined,
+        status: isMessageStatus(payload.status) ? payload.status : undefined,
+        kind: isMessageKind(payload.kind) ? payload.kind : undefined,
+        mode: isMessageMode(payload.mode) ? payload.mode : undefined,
         sources: payload.sources,
         toolsUsed: payload.toolsUsed,
+        provider: isMessageProvider(payload.provider) ? payload.provider : undefined,
+        model: typeof payload.model === 'string' ? payload.model.slice(0, 100) : undefined,
         versions: payload.versions,
         currentVersionIndex: payload.currentVersionIndex,
         proposal: payload.proposal,
       };
-      metadata = buildMetadata(metaMessage);
+      metadata = buildMessageMetadata(metaMessage);
     }
 
     const updated = await updateMessage(messageId, {
@@ -2,13 +2,22 @@
  * Conversation Messages API Route
  *
  * GET /api/metadjai/conversations/{id}/messages - List messages for a conversation
- * POST /api/metadjai/conversations/{id}/messages - Add one or more messages
- * DELETE /api/metadjai/conversations/{id}/messages - Clear all messages
+ * POST /api/metadjai/conversations/{id}/messages - Add one or more messages (schedules memory extraction)
+ * DELETE /api/metadjai/conversations/{id}/messages - Clear all messages (and the context summary and branch)
  */
 
 import { NextRequest, NextResponse } from 'next/server';
+import { scheduleMemoryExtraction } from '@/lib/ai/memory-extraction';
 import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
 import { logger } from '@/lib/logger';
+import {
+  buildMessageMetadata,
+  isMessageKind,
+  isMessageMode,
+  isMessageProvider,
+  isMessageStatus,
+  mapMessageRecord,
+} from '@/lib/metadjai/message-records';
 import { withOriginValidation } from '@/lib/validation/origin-validation';
 import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
 import {
@@ -16,104 +25,12 @@ import {
   deleteConversationMessages,
   getConversationById,
   getConversationMessages,
+  linkConversationMessages,
+  setConversationActiveLeaf,
+  setConversationSummary,
 } from '../../../../../../../server/storage';
 import type { MetaDjAiMessage } from '@/types/metadjai.types';
 
-const isValidStatus = (value: unknown): value is MetaDjAiMessage['status'] =>
-  value === 'streaming' || value === 'complete' || value === 'error';
-
-const isValidKind = (value: unknown): value is NonNullable<MetaDjAiMessage['kind']> =>
-  value === 'mode-switch' || value === 'model-switch';
-
-const isValidMode = (value: unknown): value is NonNullable<MetaDjAiMessage['mode']> =>
-  value === 'adaptive' || value === 'explorer' || value === 'dj';
-
-function normalizeSources(sources: unknown): MetaDjAiMessage['sources'] | undefined {
-  if (!Array.isArray(sources)) return undefined;
-  const normalized = sources
-    .map((entry) => {
-      if (!entry || typeof entry !== 'object') return null;
-      const record = entry as Record<string, unknown>;
-      const title = typeof record.title === 'string' ? record.title : null;
-      const url = typeof record.url === 'string' ? record.url : null;
-      if (!title || !url) return null;
-      return { title, url };
-    })
-    .filter((entry): entry is { title: string; url: string } => Boolean(entry));
-  return normalized.length > 0 ? normalized : undefined;
-}
-
-function normalizeVersions(versions: unknown): MetaDjAiMessage['versions'] | undefined {
-  if (!Array.isArray(versions)) return undefined;
-  const normalized = versions
-    .map((entry) => {
-      if (!entry || typeof entry !== 'object') return null;
-      const record = entry as Record<string, unknown>;
-      const content = typeof record.content === 'string' ? record.content : null;
-      const createdAtValue = typeof record.createdAt === 'number' ? record.createdAt : null;
-      if (!content || createdAtValue === null) return null;
-      const toolsUsed = Array.isArray(record.toolsUsed)
-        ? record.toolsUsed.filter((tool) => typeof tool === 'string')
-        : undefined;
-      return {
-        content,
-        createdAt: createdAtValue,
-        toolsUsed: toolsUsed && toolsUsed.length > 0 ? toolsUsed : undefined,
-      };
-    })
-    .filter(
-      (entry): entry is { content: string; createdAt: number; toolsUsed: string[] | undefined } =>
-        Boolean(entry)
-    );
-  return normalized.length > 0 ? normalized : undefined;
-}
-
-function buildMetadata(message: MetaDjAiMessage): Record<string, unknown> | null {
-  const metadata: Record<string, unknown> = {};
-  if (message.status) metadata.status = message.status;
-  if (message.kind) metadata.kind = message.kind;
-  if (message.mode) metadata.mode = message.mode;
-  if (message.sources) metadata.sources = message.sources;
-  if (message.toolsUsed) metadata.toolsUsed = message.toolsUsed;
-  if (message.versions) metadata.versions = message.versions;
-  if (typeof message.currentVersionIndex === 'number') {
-    metadata.currentVersionIndex = message.currentVersionIndex;
-  }
-  if (message.proposal) metadata.proposal = message.proposal;
-  return Object.keys(metadata).length > 0 ? metadata : null;
-}
-
-function mapDbMessageToMeta(message: {
-  id: string;
-  role: string;
-  content: string;
-  createdAt: Date;
-  metadata: unknown;
-}): MetaDjAiMessage {
-  const metadata = message.metadata && typeof message.metadata === 'object'
-    ? (message.metadata as Record<string, unknown>)
-    : null;
-
-  return {
-    id: message.id,
-    role: message.role === 'user' ? 'user' : 'assistant',
-    content: message.content,
-    createdAt: message.createdAt.getTime(),
-    status: metadata && isValidStatus(metadata.status) ? metadata.status : 'complete',
-    kind: metadata && isValidKind(metadata.kind) ? metadata.kind : undefined,
-    mode: metadata && isValidMode(metadata.mode) ? metadata.mode : undefined,
-    sources: metadata ? normalizeSources(metadata.sources) : undefined,
-    toolsUsed: metadata && Array.isArray(metadata.toolsUsed)
-      ? metadata.toolsUsed.filter((tool) => typeof tool === 'string')
-      : undefined,
-    versions: metadata ? normalizeVersions(metadata.versions) : undefined,
-    currentVersionIndex: metadata && typeof metadata.currentVersionIndex === 'number'
-      ? metadata.currentVersionIndex
-      : undefined,
-    proposal: metadata ? metadata.proposal as MetaDjAiMessage['proposal'] : undefined,
-  };
-}
-
 export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
   try {
     const session = await getSession();
@@ -153,7 +70,9 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
     return NextResponse.json(
       {
         success: true,
-        messages: messages.map(mapDbMessageToMeta),
+        messages: messages.map(mapMessageRecord),
+        summaryThroughMessageId: conversation.summaryThroughMessageId ?? null,
+        activeLeafId: conversation.activeLeafId ?? null,
       },
       { headers: { 'Cache-Control': 'no-store' } }
     );
@@ -170,6 +89,7 @@ export async function GET(request: Request, { params }: { params: Promise<{ id:
 
 type MessagePayload = {
   id?: string;
+  parentId?: string | null;
   role?: MetaDjAiMessage['role'];
   content?: string;
   createdAt?: number;
@@ -178,6 +98,8 @@ type MessagePayload = {
   mode?: MetaDjAiMessage['mode'];
   sources?: MetaDjAiMessage['sources'];
   toolsUsed?: MetaDjAiMessage['toolsUsed'];
+  provider?: MetaDjAiMessage['provider'];
+  model?: MetaDjAiMessage['model'];
   versions?: MetaDjAiMessage['versions'];
   currentVersionIndex?: MetaDjAiMessage['currentVersionIndex'];
   proposal?: MetaDjAiMessage['proposal'];
@@ -239,6 +161,11 @@ export const POST = withOriginValidation(async (request: NextRequest, { params }
       );
     }
 
+    // Branch-aware clients send parent links; link older unlinked history first
+    if (incoming.some((message) => typeof message?.parentId === 'string')) {
+      await linkConversationMessages(id);
+    }
+
     for (const message of incoming) {
       if (!message || typeof message !== 'object') continue;
       const role = message.role === 'user' || message.role === 'assistant' ? message.role : null;
@@ -253,11 +180,13 @@ export const POST = withOriginValidation(async (request: NextRequest, { params }
         role,
         content,
         createdAt: message.createdAt ?? Date.now(),
-        status: isValidStatus(message.status) ? message.status : undefined,
-        kind: isValidKind(message.kind) ? message.kind : undefined,
-        mode: isValidMode(message.mode) ? message.mode : undefined,
+        status: isMessageStatus(message.status) ? message.status : undefined,
+        kind: isMessageKind(message.kind) ? message.kind : undefined,
+        mode: isMessageMode(message.mode) ? message.mode : undefined,
         sources: message.sources,
         toolsUsed: message.toolsUsed,
+        provider: isMessageProvider(message.provider) ? message.provider : undefined,
+        model: typeof message.model === 'string' ? message.model.slice(0, 100) : undefined,
         versions: message.versions,
         currentVersionIndex: message.currentVersionIndex,
         proposal: message.proposal,
@@ -266,13 +195,19 @@ export const POST = withOriginValidation(async (request: NextRequest, { params }
       await addMessage({
         id: metaMessage.id,
         conversationId: id,
+        parentId: typeof message.parentId === 'string' ? message.parentId.slice(0, 64) : null,
         role,
         content,
-        metadata: buildMetadata(metaMessage),
+        metadata: buildMessageMetadata(metaMessage),
         createdAt,
       });
     }
 
+    // A finished reply may carry something worth remembering across conversations
+    if (incoming.some((message) => message?.role === 'assistant')) {
+      scheduleMemoryExtraction(id, session.id);
+    }
+
     return NextResponse.json({ success: true });
   } catch (error) {
     logger.error('[Conversation Messages] Add error', {
@@ -317,6 +252,9 @@ export const DELETE = withOriginValidation(async (_request: NextRequest, { param
     }
 
     const deletedCount = await deleteConversationMessages(id);
+    // The summary and selected branch described the cleared messages
+    await setConversationSummary(id, null, null);
+    await setConversationActiveLeaf(id, null);
 
     return NextResponse.json({ success: true, deleted: deletedCount });
   } catch (error) {
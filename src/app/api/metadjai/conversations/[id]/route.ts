@@ -2,7 +2,7 @@
  * Conversation API Route
  *
  * PATCH /api/metadjai/conversations/{id}
- * Updates conversation metadata (title/summary)
+ * Updates conversation metadata (title/summary) and the selected branch (activeLeafId)
  *
  * DELETE /api/metadjai/conversations/{id}
  * Soft deletes an active conversation or permanently deletes an archived conversation
@@ -17,12 +17,15 @@ import {
   deleteConversation,
   getConversationById,
   hardDeleteArchivedConversation,
+  setConversationActiveLeaf,
   updateConversation,
 } from '../../../../../../server/storage';
+import type { Conversation } from '../../../../../../shared/schema';
 
 type UpdatePayload = {
   title?: string;
   summary?: string;
+  activeLeafId?: string | null;
 };
 
 export const PATCH = withOriginValidation(async (
@@ -79,7 +82,26 @@ export const PATCH = withOriginValidation(async (
       updatePayload.summary = summary;
     }
 
-    const updated = await updateConversation(id, updatePayload);
+    if (
+      body.activeLeafId !== undefined &&
+      body.activeLeafId !== null &&
+      (typeof body.activeLeafId !== 'string' || body.activeLeafId.length > 64)
+    ) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid activeLeafId' },
+        { status: 400 }
+      );
+    }
+
+    // Respond with the row as written so a branch-only change returns the new leaf
+    let updated: Conversation | null | undefined = body.activeLeafId !== undefined
+      ? await setConversationActiveLeaf(id, body.activeLeafId)
+      : existing;
+
+    // Branch selection alone shouldn't reorder history
+    if (updated && Object.keys(updatePayload).length > 0) {
+      updated = await updateConversation(id, updatePayload);
+    }
 
     if (!updated) {
       return NextResponse.json(
@@ -96,6 +118,7 @@ export const PATCH = withOriginValidation(async (
         createdAt: updated.createdAt.getTime(),
         updatedAt: updated.updatedAt.getTime(),
         messageCount: updated.messageCount ?? 0,
+        activeLeafId: updated.activeLeafId ?? null,
       },
     });
   } catch (error) {
@@ -0,0 +1,149 @@
+/**
+ * Conversation Share API Route
+ *
+ * GET /api/metadjai/conversations/{id}/share - Current share link (or null)
+ * POST /api/metadjai/conversations/{id}/share - Snapshot the selected branch and issue a new link
+ * DELETE /api/metadjai/conversations/{id}/share - Revoke the link
+ *
+ * The read-only page lives at /share/{token} and shows only the snapshot, never
+ * the owner's account. Sharing again replaces the previous link.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAppBaseUrl } from '@/lib/app-url';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import {
+  CONVERSATION_IMPORT_MAX_MESSAGES,
+  createConversationShareToken,
+  createConversationSnapshot,
+} from '@/lib/metadjai/conversation-transfer';
+import { mapMessageRecord } from '@/lib/metadjai/message-records';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import {
+  createConversationShare,
+  getActiveConversationShare,
+  getConversationById,
+  getConversationMessages,
+  revokeConversationShares,
+} from '../../../../../../../server/storage';
+import type { ConversationShareRecord } from '../../../../../../../shared/schema';
+import type { MetaDjAiConversationShare } from '@/types/metadjai.types';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+function toShareResponse(share: ConversationShareRecord): MetaDjAiConversationShare {
+  return {
+    token: share.id,
+    url: `${getAppBaseUrl()}/share/${share.id}`,
+    sharedAt: share.createdAt.getTime(),
+  };
+}
+
+/**
+ * Resolve the session and an owned, non-deleted conversation
+ */
+async function resolveConversation(context: RouteContext) {
+  const session = await getSession();
+  if (!session) {
+    return {
+      error: NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const { id } = await context.params;
+  const conversation = isE2EAuthBypassEnabled() ? null : await getConversationById(id);
+  if (!conversation || conversation.userId !== session.id || conversation.deletedAt) {
+    return {
+      error: NextResponse.json(
+        { success: false, message: 'Conversation not found' },
+        { status: 404 }
+      ),
+    };
+  }
+
+  return { session, conversation };
+}
+
+export async function GET(_request: Request, context: RouteContext) {
+  try {
+    const resolved = await resolveConversation(context);
+    if (resolved.error) return resolved.error;
+
+    const share = await getActiveConversationShare(resolved.conversation.id, resolved.session.id);
+    return NextResponse.json(
+      { success: true, share: share ? toShareResponse(share) : null },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[Conversation Share] Lookup error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to load share link' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = withOriginValidation(async (_request: NextRequest, context: RouteContext) => {
+  try {
+    const resolved = await resolveConversation(context);
+    if (resolved.error) return resolved.error;
+    const { session, conversation } = resolved;
+
+    const messages = await getConversationMessages(conversation.id, CONVERSATION_IMPORT_MAX_MESSAGES);
+    const snapshot = createConversationSnapshot({
+      title: conversation.title || 'New conversation',
+      messages: messages.map(mapMessageRecord),
+      activeLeafId: conversation.activeLeafId ?? null,
+    });
+
+    if (snapshot.messages.length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'Conversation has no messages to share' },
+        { status: 400 }
+      );
+    }
+
+    const share = await createConversationShare({
+      id: createConversationShareToken(),
+      conversationId: conversation.id,
+      userId: session.id,
+      snapshot: { ...snapshot },
+    });
+
+    logger.info('[Conversation Share] Link created', { conversationId: conversation.id });
+
+    return NextResponse.json({ success: true, share: toShareResponse(share) });
+  } catch (error) {
+    logger.error('[Conversation Share] Create error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to share conversation' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withOriginValidation(async (_request: NextRequest, context: RouteContext) => {
+  try {
+    const resolved = await resolveConversation(context);
+    if (resolved.error) return resolved.error;
+
+    await revokeConversationShares(resolved.conversation.id, resolved.session.id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('[Conversation Share] Revoke error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to stop sharing' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,127 @@
+/**
+ * Conversation Export API Route
+ *
+ * GET /api/metadjai/conversations/export?format=json|markdown&id=...
+ * Downloads one conversation (`id`) or all of the user's conversations,
+ * archived included. JSON keeps every branch, proposal, and model detail and
+ * can be imported again; Markdown shows the selected branch for reading.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import {
+  CONVERSATION_IMPORT_MAX_CONVERSATIONS,
+  CONVERSATION_IMPORT_MAX_MESSAGES,
+  createConversationExport,
+  formatConversationsMarkdown,
+  type MetaDjAiExportedConversation,
+} from '@/lib/metadjai/conversation-transfer';
+import { mapMessageRecord } from '@/lib/metadjai/message-records';
+import {
+  getArchivedConversations,
+  getConversationById,
+  getConversationMessages,
+  getUserConversations,
+} from '../../../../../../server/storage';
+import type { Conversation } from '../../../../../../shared/schema';
+
+type ExportFormat = 'json' | 'markdown';
+
+async function toExportedConversation(conversation: Conversation): Promise<MetaDjAiExportedConversation> {
+  const messages = await getConversationMessages(conversation.id, CONVERSATION_IMPORT_MAX_MESSAGES);
+  return {
+    id: conversation.id,
+    title: conversation.title || 'New conversation',
+    createdAt: conversation.createdAt.getTime(),
+    updatedAt: conversation.updatedAt.getTime(),
+    archivedAt: conversation.isArchived ? (conversation.archivedAt ?? conversation.updatedAt).getTime() : null,
+    activeLeafId: conversation.activeLeafId ?? null,
+    messages: messages.map(mapMessageRecord),
+  };
+}
+
+function buildFileName(format: ExportFormat, title: string | null): string {
+  const dateLabel = new Date().toISOString().slice(0, 10);
+  const safeTitle = title?.replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 30);
+  const base = safeTitle ? `metadjai-${safeTitle}` : 'metadjai-conversations';
+  return `${base}-${dateLabel}.${format === 'json' ? 'json' : 'md'}`;
+}
+
+function buildDownload(
+  conversations: MetaDjAiExportedConversation[],
+  format: ExportFormat,
+  title: string | null
+) {
+  const body = format === 'json'
+    ? JSON.stringify(createConversationExport(conversations), null, 2)
+    : formatConversationsMarkdown(conversations);
+
+  return new NextResponse(body, {
+    headers: {
+      'Content-Type': format === 'json' ? 'application/json; charset=utf-8' : 'text/markdown; charset=utf-8',
+      'Content-Disposition': `attachment; filename="${buildFileName(format, title)}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
+
+export async function GET(request: Request) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const formatParam = searchParams.get('format') ?? 'json';
+    if (formatParam !== 'json' && formatParam !== 'markdown') {
+      return NextResponse.json(
+        { success: false, message: 'format must be json or markdown' },
+        { status: 400 }
+      );
+    }
+    const format: ExportFormat = formatParam;
+    const id = searchParams.get('id');
+
+    if (isE2EAuthBypassEnabled()) {
+      return buildDownload([], format, null);
+    }
+
+    if (id) {
+      const conversation = await getConversationById(id);
+      if (!conversation || conversation.userId !== session.id || conversation.deletedAt) {
+        return NextResponse.json(
+          { success: false, message: 'Conversation not found' },
+          { status: 404 }
+        );
+      }
+      return buildDownload([await toExportedConversation(conversation)], format, conversation.title);
+    }
+
+    const [active, archived] = await Promise.all([
+      getUserConversations(session.id, CONVERSATION_IMPORT_MAX_CONVERSATIONS),
+      getArchivedConversations(session.id, CONVERSATION_IMPORT_MAX_CONVERSATIONS),
+    ]);
+    const selected = [...active, ...archived].slice(0, CONVERSATION_IMPORT_MAX_CONVERSATIONS);
+
+    const conversations: MetaDjAiExportedConversation[] = [];
+    for (const conversation of selected) {
+      conversations.push(await toExportedConversation(conversation));
+    }
+
+    return buildDownload(conversations, format, null);
+  } catch (error) {
+    logger.error('[Conversation Export] Export error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to export conversations' },
+      { status: 500 }
+    );
+  }
+}
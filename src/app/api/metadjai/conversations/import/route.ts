@@ -0,0 +1,108 @@
+/**
+ * Conversation Import API Route
+ *
+ * POST /api/metadjai/conversations/import
+ * Restores conversations from a JSON export (`/api/metadjai/conversations/export`),
+ * including archived threads and every branch. Conversations the user already
+ * has (same ID) are skipped, so importing the same file twice is safe.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import {
+  parseConversationImport,
+  remapConversationMessageIds,
+  type MetaDjAiExportedConversation,
+} from '@/lib/metadjai/conversation-transfer';
+import { buildMessageMetadata } from '@/lib/metadjai/message-records';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import { getConversationById, importConversation } from '../../../../../../server/storage';
+
+export const POST = withOriginValidation(async (request: NextRequest) => {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const bodyResult = await readJsonBodyWithLimit<unknown>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    let incoming: MetaDjAiExportedConversation[];
+    try {
+      incoming = parseConversationImport(bodyResult.data);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, message: error instanceof Error ? error.message : 'Invalid conversation export' },
+        { status: 400 }
+      );
+    }
+
+    if (incoming.length === 0) {
+      return NextResponse.json(
+        { success: false, message: 'No conversations to import' },
+        { status: 400 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, imported: 0, archived: 0, skipped: incoming.length });
+    }
+
+    let imported = 0;
+    let archived = 0;
+    let skipped = 0;
+
+    for (const candidate of incoming) {
+      // Keep the exported ID when it is free; an ID the user already owns means
+      // the conversation is already here
+      const existing = candidate.id ? await getConversationById(candidate.id) : null;
+      if (existing && existing.userId === session.id && !existing.deletedAt) {
+        skipped += 1;
+        continue;
+      }
+
+      const conversation = remapConversationMessageIds(candidate, () => crypto.randomUUID());
+      await importConversation(session.id, {
+        id: existing ? undefined : conversation.id || undefined,
+        title: conversation.title,
+        createdAt: new Date(conversation.createdAt),
+        updatedAt: new Date(conversation.updatedAt),
+        archivedAt: conversation.archivedAt !== null ? new Date(conversation.archivedAt) : null,
+        activeLeafId: conversation.activeLeafId,
+        messages: conversation.messages.map((message) => ({
+          id: message.id,
+          parentId: message.parentId ?? null,
+          role: message.role,
+          content: message.content,
+          metadata: buildMessageMetadata(message),
+          createdAt: new Date(message.createdAt),
+        })),
+      });
+
+      imported += 1;
+      if (conversation.archivedAt !== null) archived += 1;
+    }
+
+    logger.info('[Conversation Import] Imported conversations', { imported, archived, skipped });
+
+    return NextResponse.json({ success: true, imported, archived, skipped });
+  } catch (error) {
+    logger.error('[Conversation Import] Import error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to import conversations' },
+      { status: 500 }
+    );
+  }
+});
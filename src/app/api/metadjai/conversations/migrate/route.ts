@@ -8,6 +8,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth'
 import { logger } from '@/lib/logger'
+import {
+  buildMessageMetadata,
+  isMessageKind,
+  isMessageMode,
+  isMessageProvider,
+  isMessageStatus,
+} from '@/lib/metadjai/message-records'
 import { withOriginValidation } from '@/lib/validation/origin-validation'
 import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size'
 import {
@@ -20,17 +27,9 @@ import type { MetaDjAiMessage } from '@/types/metadjai.types'
 const MAX_SESSIONS = 20
 const MAX_MESSAGES = 200
 
-const isValidStatus = (value: unknown): value is MetaDjAiMessage['status'] =>
-  value === 'streaming' || value === 'complete' || value === 'error'
-
-const isValidKind = (value: unknown): value is NonNullable<MetaDjAiMessage['kind']> =>
-  value === 'mode-switch' || value === 'model-switch'
-
-const isValidMode = (value: unknown): value is NonNullable<MetaDjAiMessage['mode']> =>
-  value === 'adaptive' || value === 'explorer' || value === 'dj'
-
 type MessagePayload = {
   id?: string
+  parentId?: string | null
   role?: MetaDjAiMessage['role']
   content?: string
   createdAt?: number
@@ -39,6 +38,8 @@ type MessagePayload = {
   mode?: MetaDjAiMessage['mode']
   sources?: MetaDjAiMessage['sources']
   toolsUsed?: MetaDjAiMessage['toolsUsed']
+  provider?: MetaDjAiMessage['provider']
+  model?: MetaDjAiMessage['model']
   versions?: MetaDjAiMessage['versions']
   currentVersionIndex?: MetaDjAiMessage['currentVersionIndex']
   proposal?: MetaDjAiMessage['proposal']
@@ -56,21 +57,6 @@ type MigratePayload = {
   sessions?: SessionPayload[]
 }
 
-function buildMetadata(message: MetaDjAiMessage): Record<string, unknown> | null {
-  const metadata: Record<string, unknown> = {}
-  if (message.status) metadata.status = message.status
-  if (message.kind) metadata.kind = message.kind
-  if (message.mode) metadata.mode = message.mode
-  if (message.sources) metadata.sources = message.sources
-  if (message.toolsUsed) metadata.toolsUsed = message.toolsUsed
-  if (message.versions) metadata.versions = message.versions
-  if (typeof message.currentVersionIndex === 'number') {
-    metadata.currentVersionIndex = message.currentVersionIndex
-  }
-  if (message.proposal) metadata.proposal = message.proposal
-  return Object.keys(metadata).length > 0 ? metadata : null
-}
-
 export const POST = withOriginValidation(async (request: NextRequest) => {
   try {
     const session = await getSession()
@@ -141,11 +127,13 @@ export const POST = withOriginValidation(async (request: NextRequest) => {
           role,
           content,
           createdAt: typeof message.createdAt === 'number' ? message.createdAt : Date.now(),
-          status: isValidStatus(message.status) ? message.status : undefined,
-          kind: isValidKind(message.kind) ? message.kind : undefined,
-          mode: isValidMode(message.mode) ? message.mode : undefined,
+          status: isMessageStatus(message.status) ? message.status : undefined,
+          kind: isMessageKind(message.kind) ? message.kind : undefined,
+          mode: isMessageMode(message.mode) ? message.mode : undefined,
           sources: message.sources,
           toolsUsed: message.toolsUsed,
+          provider: isMessageProvider(message.provider) ? message.provider : undefined,
+          model: typeof message.model === 'string' ? message.model.slice(0, 100) : undefined,
           versions: message.versions,
           currentVersionIndex: message.currentVersionIndex,
           proposal: message.proposal,
@@ -154,9 +142,10 @@ export const POST = withOriginValidation(async (request: NextRequest) => {
         await addMessage({
           id: metaMessage.id,
           conversationId: conversation.id,
+          parentId: typeof message.parentId === 'string' ? message.parentId.slice(0, 64) : null,
           role: metaMessage.role,
           content: metaMessage.content,
-          metadata: buildMetadata(metaMessage),
+          metadata: buildMessageMetadata(metaMessage),
           createdAt: typeof message.createdAt === 'number' ? new Date(message.createdAt) : undefined,
         })
       }
@@ -0,0 +1,74 @@
+/**
+ * Conversation Search API Route
+ *
+ * GET /api/metadjai/conversations/search?q=...&limit=20
+ * Full-text search across the authenticated user's active conversations
+ * (message content and titles). Returns highlighted snippets, best match first.
+ */
+
+import { NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import {
+  CONVERSATION_SEARCH_DEFAULT_LIMIT,
+  CONVERSATION_SEARCH_MAX_LIMIT,
+  SEARCH_HEADLINE_OPTIONS,
+  mergeConversationSearchHits,
+  normalizeSearchQuery,
+} from '@/lib/metadjai/conversation-search';
+import { searchUserConversations } from '../../../../../../server/storage';
+
+export async function GET(request: Request) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = normalizeSearchQuery(searchParams.get('q'));
+    if (!query) {
+      return NextResponse.json(
+        { success: false, message: 'Search query must be at least 2 characters' },
+        { status: 400 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, query, results: [] });
+    }
+
+    const limitParam = searchParams.get('limit');
+    const parsedLimit = limitParam ? Number.parseInt(limitParam, 10) : CONVERSATION_SEARCH_DEFAULT_LIMIT;
+    const limit = Number.isFinite(parsedLimit)
+      ? Math.min(CONVERSATION_SEARCH_MAX_LIMIT, Math.max(1, parsedLimit))
+      : CONVERSATION_SEARCH_DEFAULT_LIMIT;
+
+    const { messageHits, titleHits } = await searchUserConversations(session.id, query, {
+      limit,
+      headlineOptions: SEARCH_HEADLINE_OPTIONS,
+    });
+    const results = mergeConversationSearchHits(
+      messageHits.map((hit) => ({ ...hit, rank: Number(hit.rank) })),
+      titleHits.map((hit) => ({ ...hit, rank: Number(hit.rank) })),
+      limit
+    );
+
+    return NextResponse.json(
+      { success: true, query, results },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[Conversation Search] Error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to search conversations' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * MetaDJai Memory API Route
+ *
+ * DELETE /api/metadjai/memories/{id} - Forget a single memory
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { deleteAiMemory } from '../../../../../../server/storage';
+
+export const DELETE = withOriginValidation(async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true });
+    }
+
+    const { id } = await params;
+    if (!id) {
+      return NextResponse.json(
+        { success: false, message: 'Memory ID is required' },
+        { status: 400 }
+      );
+    }
+
+    const deleted = await deleteAiMemory(id, session.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'Memory not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('[Memories] Delete error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete memory' },
+      { status: 500 }
+    );
+  }
+});
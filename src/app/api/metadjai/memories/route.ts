@@ -0,0 +1,42 @@
+/**
+ * MetaDJai Memories API Route
+ *
+ * GET /api/metadjai/memories - List what MetaDJai remembers about the signed-in user
+ */
+
+import { NextResponse } from 'next/server';
+import { getUserMemories } from '@/lib/ai/memory-extraction';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, memories: [] });
+    }
+
+    const memories = await getUserMemories(session.id);
+
+    return NextResponse.json(
+      { success: true, memories },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[Memories] List error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch memories' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * MetaDJai Quota API Route
+ *
+ * GET /api/metadjai/quota - The signed-in user's AI plan tier and remaining daily/monthly quota
+ */
+
+import { NextResponse } from 'next/server';
+import { getUserAiQuotaStatus } from '@/lib/ai/quota-tracking';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, quota: null });
+    }
+
+    const quota = await getUserAiQuotaStatus(session.id, session.isAdmin);
+
+    return NextResponse.json(
+      { success: true, quota },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[AI Quota] Status error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to fetch AI quota' },
+      { status: 500 }
+    );
+  }
+}
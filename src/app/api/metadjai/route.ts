@@ -2,7 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { Output, ToolLoopAgent } from 'ai';
 import { isCircuitOpen, isProviderError, recordFailure, recordSuccess } from '@/lib/ai/circuit-breaker';
 import { createStopCondition, getAIRequestTimeout, isTimeoutError } from '@/lib/ai/config';
+import { compactConversationHistory } from '@/lib/ai/conversation-summary';
 import { isFailoverEnabled } from '@/lib/ai/failover';
+import { getSessionMemoriesForRecall } from '@/lib/ai/memory-extraction';
 import { buildMetaDjAiSystemInstructions } from '@/lib/ai/meta-dj-ai-prompt';
 import { MODEL_LABELS } from '@/lib/ai/model-preferences';
 import {
@@ -16,6 +18,8 @@ import {
   isFailoverAvailable,
 } from '@/lib/ai/providers';
 import { estimateCost } from '@/lib/ai/providers';
+import { getSessionAiQuota, recordUserAiUsage } from '@/lib/ai/quota-tracking';
+import { buildAiQuotaExceededMessage } from '@/lib/ai/quotas';
 import {
   sanitizeMessages,
   getClientIdentifier,
@@ -29,8 +33,10 @@ import {
 } from '@/lib/ai/rate-limiter';
 import { isSpendingAllowed, recordSpending } from '@/lib/ai/spending-alerts';
 import { getTools } from '@/lib/ai/tools';
+import { recordAiRequest } from '@/lib/ai/usage-recording';
 import { validateMetaDjAiRequest } from '@/lib/ai/validation';
 import { getEnv } from '@/lib/env';
+import { getSessionListeningHistory } from '@/lib/listening/server';
 import { logger } from '@/lib/logger';
 import { metaDjAiResponseSchema } from '@/lib/metadjai/response-schema';
 import { getRequestId } from '@/lib/request-id';
@@ -56,6 +62,7 @@ const structuredReplyOutput = Output.object({ schema: metaDjAiResponseSchema });
  * Features:
  * - Automatic provider failover with circuit breaker pattern
  * - Rate limiting (20 messages per 5-minute window)
+ * - Per-user daily/monthly token and cost quotas for signed-in users
  * - Session cookie for per-device isolation
  * - Input sanitization and content length limits
  *
@@ -68,7 +75,7 @@ const structuredReplyOutput = Output.object({ schema: metaDjAiResponseSchema });
  * { messages: [{ role: 'user', content: 'Tell me about this track' }], context: { trackTitle: 'Neon Dreams' } }
  *
  * @throws {400} Invalid request body or missing/empty messages array
- * @throws {429} Rate limit exceeded (includes Retry-After header)
+ * @throws {429} Rate limit exceeded (includes Retry-After header) or AI quota used up (includes `quota`)
  * @throws {500} Environment configuration error
  * @throws {502} AI service temporarily unavailable
  * @throws {503} No AI providers configured
@@ -126,6 +133,20 @@ export async function POST(request: NextRequest) {
     );
   }
 
+  // Signed-in users are held to their daily/monthly quota
+  const quota = await getSessionAiQuota();
+  if (quota && !quota.status.allowed) {
+    logger.warn('AI quota exceeded - request blocked', {
+      requestId,
+      userId: quota.userId,
+      window: quota.status.exceeded,
+    });
+    return NextResponse.json(
+      { error: buildAiQuotaExceededMessage(quota.status), quota: quota.status },
+      { status: 429 },
+    );
+  }
+
   const client = getClientIdentifier(request);
   const needsSessionCookie = !request.cookies.get(SESSION_COOKIE_NAME);
   const rateLimitCheck = await checkRateLimitDistributed(client.id, client.isFingerprint);
@@ -213,13 +234,20 @@ export async function POST(request: NextRequest) {
     );
   }
 
-  const messages = sanitizeMessages(payload.messages);
+  // Long conversations: earlier turns are replaced by the stored summary
+  const history = await compactConversationHistory(payload.conversationId, payload.messages);
+  const messages = sanitizeMessages(history.messages);
 
   const responseCookies: Array<{ name: string; value: string }> = [];
   if (needsSessionCookie) {
     responseCookies.push({ name: SESSION_COOKIE_NAME, value: generateSessionId() });
   }
 
+  // Signed-in listeners get recommendations ranked by their own listening history
+  const listeningHistory = await getSessionListeningHistory();
+  // Signed-in users get what MetaDJai remembers from earlier conversations
+  const memories = await getSessionMemoriesForRecall();
+
   // AI request timeout configuration
   const controller = new AbortController();
   const timeoutMs = getAIRequestTimeout('chat');
@@ -232,6 +260,8 @@ export async function POST(request: NextRequest) {
     buildMetaDjAiSystemInstructions(payload.context, payload.personalization, provider, {
       webSearchAvailable: isWebSearchAvailable(provider),
       modelInfo: modelName ? { label: MODEL_LABELS[provider], model: modelName, provider } : undefined,
+      memories,
+      conversationSummary: history.summary,
     });
   const formattedMessages = messages.map((message) => ({
     role: message.role,
@@ -284,6 +314,38 @@ export async function POST(request: NextRequest) {
     return reply;
   };
 
+  const requestStartTime = Date.now();
+
+  // Add a request to the usage ledger
+  const recordRequest = (entry: {
+    provider: string;
+    model: string;
+    usedFallback: boolean;
+    success: boolean;
+    inputTokens?: number;
+    outputTokens?: number;
+    costUsd?: number;
+    toolCalls?: string[];
+    error?: string;
+  }) => recordAiRequest({
+    requestId,
+    route: 'chat',
+    userId: quota?.userId ?? null,
+    provider: entry.provider,
+    model: entry.model,
+    inputTokens: entry.inputTokens ?? null,
+    outputTokens: entry.outputTokens ?? null,
+    totalTokens: entry.inputTokens !== undefined && entry.outputTokens !== undefined
+      ? entry.inputTokens + entry.outputTokens
+      : null,
+    costUsd: entry.costUsd ?? null,
+    toolCalls: entry.toolCalls ?? [],
+    latencyMs: Date.now() - requestStartTime,
+    usedFallback: entry.usedFallback,
+    success: entry.success,
+    error: entry.error ?? null,
+  });
+
   // Helper to build success response and record spending
   const buildSuccessResponse = async (
     result: {
@@ -317,11 +379,13 @@ export async function POST(request: NextRequest) {
       },
       toolUsage,
       toolResults,
+      contextCondensedThroughMessageId: history.summaryThroughMessageId ?? undefined,
     };
 
     // Record spending for threshold tracking and alerts
+    let costUsd: number | undefined;
     if (result.usage?.inputTokens !== undefined && result.usage?.outputTokens !== undefined) {
-      const costUsd = estimateCost(modelName, result.usage.inputTokens, result.usage.outputTokens);
+      costUsd = estimateCost(modelName, result.usage.inputTokens, result.usage.outputTokens);
       if (costUsd > 0) {
         try {
           await recordSpending({ costUsd, provider: providerName, model: modelName });
@@ -331,8 +395,26 @@ export async function POST(request: NextRequest) {
           });
         }
       }
+      if (quota) {
+        await recordUserAiUsage(quota.userId, {
+          inputTokens: result.usage.inputTokens,
+          outputTokens: result.usage.outputTokens,
+          costUsd,
+        });
+      }
     }
 
+    await recordRequest({
+      provider: providerName,
+      model: modelName,
+      usedFallback,
+      success: true,
+      inputTokens: result.usage?.inputTokens,
+      outputTokens: result.usage?.outputTokens,
+      costUsd,
+      toolCalls: toolUsage.map((tool) => tool.name),
+    });
+
     const res = NextResponse.json(body, { status: 200 });
     if (responseCookies.length > 0) {
       responseCookies.forEach(({ name, value }) => {
@@ -368,6 +450,7 @@ export async function POST(request: NextRequest) {
         const providerOptions = getProviderOptions(fallbackSettings.provider);
         const tools = await getTools(fallbackSettings.provider, {
           webSearchAvailable: isWebSearchAvailable(fallbackSettings.provider),
+          listeningHistory,
         });
         const agent = new ToolLoopAgent({
           model: fallbackModel,
@@ -401,6 +484,13 @@ export async function POST(request: NextRequest) {
         }
 
         logger.error('Fallback provider also failed', { requestId, error: fallbackMessage });
+        await recordRequest({
+          provider: fallbackModelInfo.provider,
+          model: fallbackSettings.name,
+          usedFallback: true,
+          success: false,
+          error: fallbackMessage,
+        });
         return NextResponse.json(
           { error: 'AI service temporarily unavailable. Please try again.' },
           { status: 502 },
@@ -417,6 +507,7 @@ export async function POST(request: NextRequest) {
 
     const tools = await getTools(modelSettings.provider, {
       webSearchAvailable: isWebSearchAvailable(modelSettings.provider),
+      listeningHistory,
     });
     const agent = new ToolLoopAgent({
       model,
@@ -455,6 +546,7 @@ export async function POST(request: NextRequest) {
     if (isPrimaryTimeout) {
       clearTimeout(timeout);
       logger.error('MetaDJai request timed out', { requestId, error: primaryMessage });
+      await recordRequest({ provider: modelInfo.provider, model: modelInfo.model, usedFallback: false, success: false, error: primaryMessage });
       return NextResponse.json(
         { error: 'AI request timed out. Please try again.' },
         { status: 504 },
@@ -481,6 +573,7 @@ export async function POST(request: NextRequest) {
           const fallbackProviderOptions = getProviderOptions(fallbackSettings.provider);
           const tools = await getTools(fallbackSettings.provider, {
             webSearchAvailable: isWebSearchAvailable(fallbackSettings.provider),
+            listeningHistory,
           });
           const agent = new ToolLoopAgent({
             model: fallbackModel,
@@ -525,6 +618,7 @@ export async function POST(request: NextRequest) {
 
     clearTimeout(timeout);
     logger.error('MetaDJai request failed', { requestId, error: primaryMessage });
+    await recordRequest({ provider: modelInfo.provider, model: modelInfo.model, usedFallback: false, success: false, error: primaryMessage });
     return NextResponse.json(
       { error: 'AI service temporarily unavailable. Please try again.' },
       { status: 502 },
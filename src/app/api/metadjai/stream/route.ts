@@ -10,25 +10,28 @@
  * - Streaming responses for real-time chat experience
  * - Automatic provider failover with circuit breaker pattern
  * - Rate limiting (20 messages per 5-minute window)
+ * - Per-user daily/monthly token and cost quotas for signed-in users
  * - Burst prevention (500ms minimum between messages)
  * - Session cookie for per-device isolation
  * - Input sanitization and content length limits
  * - Spam detection (duplicate message filtering)
  * - Context-aware system instructions based on playback state
+ * - Context compaction: older turns of long conversations are summarized
  * - Cost estimation in usage logs
  *
  * @route POST /api/metadjai/stream
  *
  * Request body:
  * {
- *   messages: Array<{role: 'user' | 'assistant', content: string}>,
+ *   messages: Array<{id?: string, role: 'user' | 'assistant', content: string}>,
+ *   conversationId?: string,
  *   playbackContext?: {trackTitle, artist, collection}
  * }
  *
  * Response codes:
  * - 200: Streaming response (text/event-stream)
  * - 400: Invalid request body
- * - 429: Rate limit exceeded
+ * - 429: Rate limit or AI quota exceeded
  * - 500: Server error
  * - 503: AI providers not configured
  */
@@ -37,7 +40,9 @@ import { streamText } from 'ai'
 import { createCacheKey, getCachedResponse, setCachedResponse } from '@/lib/ai/cache'
 import { isCircuitOpen, isProviderError, recordFailure, recordSuccess } from '@/lib/ai/circuit-breaker'
 import { createStopCondition, getAIRequestTimeout, isTimeoutError } from '@/lib/ai/config'
+import { compactConversationHistory } from '@/lib/ai/conversation-summary'
 import { isFailoverEnabled } from '@/lib/ai/failover'
+import { getSessionMemoriesForRecall } from '@/lib/ai/memory-extraction'
 import { buildMetaDjAiSystemInstructions } from '@/lib/ai/meta-dj-ai-prompt'
 import { MODEL_LABELS } from '@/lib/ai/model-preferences'
 import {
@@ -52,6 +57,8 @@ import {
   formatCost,
   isFailoverAvailable,
 } from '@/lib/ai/providers'
+import { getSessionAiQuota, recordUserAiUsage } from '@/lib/ai/quota-tracking'
+import { buildAiQuotaExceededMessage } from '@/lib/ai/quotas'
 import {
   sanitizeMessages,
   getClientIdentifier,
@@ -64,8 +71,10 @@ import {
 } from '@/lib/ai/rate-limiter'
 import { isSpendingAllowed, recordSpending } from '@/lib/ai/spending-alerts'
 import { getTools } from '@/lib/ai/tools'
+import { recordAiRequest } from '@/lib/ai/usage-recording'
 import { validateMetaDjAiRequest } from '@/lib/ai/validation'
 import { getEnv } from '@/lib/env'
+import { getSessionListeningHistory } from '@/lib/listening/server'
 import { logger } from '@/lib/logger'
 import { getRequestId, getRequestIdHeaders } from '@/lib/request-id'
 import { validateOrigin, buildOriginForbiddenResponse } from '@/lib/validation/origin-validation'
@@ -74,7 +83,7 @@ import type { MetaDjAiApiRequestBody } from '@/types/metadjai.types'
 
 /**
  * Log AI usage metrics for monitoring and cost tracking
- * Also records spending for threshold alerts
+ * Also records spending for threshold alerts and the `ai_usage` ledger
  */
 async function logAIUsage(metrics: {
   requestId: string
@@ -88,6 +97,8 @@ async function logAIUsage(metrics: {
   success: boolean
   error?: string
   clientId?: string
+  /** Signed-in user the usage counts against */
+  userId?: string
   usedFallback?: boolean
 }) {
   // Calculate cost estimate if we have token counts
@@ -132,6 +143,32 @@ async function logAIUsage(metrics: {
       })
     }
   }
+
+  // Count successful requests against the user's quota
+  if (metrics.success && metrics.userId) {
+    await recordUserAiUsage(metrics.userId, {
+      inputTokens: metrics.inputTokens,
+      outputTokens: metrics.outputTokens,
+      costUsd: estimatedCostUsd,
+    })
+  }
+
+  await recordAiRequest({
+    requestId: metrics.requestId,
+    route: 'stream',
+    userId: metrics.userId ?? null,
+    provider: metrics.provider,
+    model: metrics.model,
+    inputTokens: metrics.inputTokens ?? null,
+    outputTokens: metrics.outputTokens ?? null,
+    totalTokens: metrics.totalTokens ?? null,
+    costUsd: estimatedCostUsd ?? null,
+    toolCalls: metrics.toolCalls ?? [],
+    latencyMs: metrics.durationMs,
+    usedFallback: metrics.usedFallback ?? false,
+    success: metrics.success,
+    error: metrics.error ?? null,
+  })
 }
 
 export const runtime = 'nodejs'
@@ -152,7 +189,7 @@ export const runtime = 'nodejs'
  * { messages: [{ role: 'user', content: 'What genre is this?' }], context: { trackTitle: 'Synth Haven' } }
  *
  * @throws {400} Invalid request body, missing messages, too many messages (>50), or duplicate spam messages
- * @throws {429} Rate limit exceeded (includes Retry-After header)
+ * @throws {429} Rate limit exceeded (includes Retry-After header) or AI quota used up (includes `quota`)
  * @throws {500} Server configuration error
  * @throws {502} AI provider error
  * @throws {503} No AI providers configured
@@ -220,6 +257,20 @@ export async function POST(request: NextRequest) {
     )
   }
 
+  // Signed-in users are held to their daily/monthly quota
+  const quota = await getSessionAiQuota()
+  if (quota && !quota.status.allowed) {
+    logger.warn('AI quota exceeded - request blocked', {
+      requestId,
+      userId: quota.userId,
+      window: quota.status.exceeded,
+    })
+    return NextResponse.json(
+      { error: buildAiQuotaExceededMessage(quota.status), quota: quota.status },
+      { status: 429 }
+    )
+  }
+
   // Check rate limiting
   const client = getClientIdentifier(request)
   const needsSessionCookie = !request.cookies.get(SESSION_COOKIE_NAME)
@@ -307,6 +358,9 @@ export async function POST(request: NextRequest) {
 
   // Rate limiting is consumed on initial check for consistent enforcement across modes.
 
+  // Long conversations: earlier turns are replaced by the stored summary
+  const history = await compactConversationHistory(payload.conversationId, payload.messages)
+
   // Helper to create streaming response with optional session cookie
   // Use toUIMessageStreamResponse() to emit SSE UI message events (data: {json})
   // expected by the client-side stream parser.
@@ -336,6 +390,9 @@ export async function POST(request: NextRequest) {
     if (metadata?.cacheHit) {
       headers.set('X-MetaDJai-Cache', 'hit')
     }
+    if (history.summaryThroughMessageId) {
+      headers.set('X-MetaDJai-Context-Condensed-Through', history.summaryThroughMessageId)
+    }
 
     if (needsSessionCookie) {
       headers.set(
@@ -380,6 +437,9 @@ export async function POST(request: NextRequest) {
     if (metadata?.cacheHit) {
       headers.set('X-MetaDJai-Cache', 'hit')
     }
+    if (history.summaryThroughMessageId) {
+      headers.set('X-MetaDJai-Context-Condensed-Through', history.summaryThroughMessageId)
+    }
 
     if (needsSessionCookie) {
       headers.set(
@@ -392,10 +452,12 @@ export async function POST(request: NextRequest) {
   }
 
   // Prepare sanitized messages for both attempts
-  const sanitizedMessages = sanitizeMessages(payload.messages).map((message) => ({
+  const sanitizedMessages = sanitizeMessages(history.messages).map((message) => ({
     role: message.role,
     content: message.content,
   }))
+  // Signed-in users get what MetaDJai remembers from earlier conversations
+  const memories = await getSessionMemoriesForRecall()
   const buildSystemInstructions = (
     provider: 'openai' | 'anthropic' | 'google' | 'xai' | 'moonshotai',
     modelName?: string
@@ -405,6 +467,8 @@ export async function POST(request: NextRequest) {
       modelInfo: modelName
         ? { label: MODEL_LABELS[provider], model: modelName, provider }
         : undefined,
+      memories,
+      conversationSummary: history.summary,
     })
 
   const cacheMode = payload.context?.mode ?? 'adaptive'
@@ -428,6 +492,8 @@ export async function POST(request: NextRequest) {
           instructions: payload.personalization.instructions,
         }
       : null,
+    memories: memories?.map((memory) => `${memory.id}:${memory.updatedAt}`) ?? null,
+    summaryThroughMessageId: history.summaryThroughMessageId,
   }
   const createProviderCacheKey = (
     provider: 'openai' | 'anthropic' | 'google' | 'xai' | 'moonshotai',
@@ -480,6 +546,9 @@ export async function POST(request: NextRequest) {
     }
   }
 
+  // Signed-in listeners get recommendations ranked by their own listening history
+  const listeningHistory = await getSessionListeningHistory()
+
   // AI request timeout configuration
   const controller = new AbortController()
   const timeoutMs = getAIRequestTimeout('stream')
@@ -488,6 +557,23 @@ export async function POST(request: NextRequest) {
   // Track request timing
   const requestStartTime = Date.now()
 
+  // Requests that fail before streaming starts still belong in the usage ledger
+  const logFailedRequest = (
+    providerInfo: { provider: string; model: string },
+    usedFallback: boolean,
+    errorMessage: string
+  ) => logAIUsage({
+    requestId,
+    provider: providerInfo.provider,
+    model: providerInfo.model,
+    durationMs: Date.now() - requestStartTime,
+    success: false,
+    error: errorMessage,
+    clientId: client.id,
+    userId: quota?.userId,
+    usedFallback,
+  })
+
   // Helper function to create streaming result with a specific model
   const createStreamingResult = async (
     model: ReturnType<typeof getModel>,
@@ -502,6 +588,7 @@ export async function POST(request: NextRequest) {
   ) => {
     const tools = await getTools(settings.provider, {
       webSearchAvailable: settings.provider === 'openai' && hasOpenAI,
+      listeningHistory,
     })
     const providerOptions = getProviderOptions(settings.provider)
 
@@ -541,6 +628,7 @@ export async function POST(request: NextRequest) {
           durationMs: Date.now() - requestStartTime,
           success: true,
           clientId: client.id,
+          userId: quota?.userId,
           usedFallback: options.usedFallback,
         })
       },
@@ -572,6 +660,7 @@ export async function POST(request: NextRequest) {
           success: false,
           error: errorMessage,
           clientId: client.id,
+          userId: quota?.userId,
           usedFallback: options.usedFallback,
         })
       },
@@ -611,6 +700,7 @@ export async function POST(request: NextRequest) {
       }
 
       logger.error('Fallback provider also failed', { requestId, error: fallbackMessage })
+      logFailedRequest(fallbackModelInfo, true, fallbackMessage)
       return NextResponse.json({ error: 'AI service temporarily unavailable. Please try again.' }, { status: 502 })
     }
   }
@@ -644,6 +734,7 @@ export async function POST(request: NextRequest) {
     if (isPrimaryTimeout) {
       clearTimeout(timeout)
       logger.error('MetaDJai streaming timed out', { requestId, error: primaryMessage })
+      logFailedRequest(modelInfo, false, primaryMessage)
       return NextResponse.json({ error: 'AI request timed out. Please try again.' }, { status: 504 })
     }
 
@@ -705,6 +796,7 @@ export async function POST(request: NextRequest) {
 
     clearTimeout(timeout)
     logger.error('MetaDJai streaming failed', { requestId, error: primaryMessage })
+    logFailedRequest(modelInfo, false, primaryMessage)
     return NextResponse.json({ error: 'AI service temporarily unavailable. Please try again.' }, { status: 502 })
   }
 }
@@ -0,0 +1,114 @@
+/**
+ * Playlist Publish API Route
+ *
+ * POST /api/playlists/{id}/publish - Publish or unpublish a playlist
+ *
+ * The first publish assigns a stable public slug; the read-only landing page
+ * lives at /playlist/{slug}.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { createPublicPlaylistSlug } from '@/lib/playlists/public';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import {
+  getPlaylistById,
+  isPlaylistSlugTaken,
+  setPlaylistVisibility,
+} from '../../../../../../server/storage';
+import { toPlaylistResponse } from '../../utils';
+
+const MAX_SLUG_ATTEMPTS = 5;
+
+/**
+ * Generate a slug that has never been assigned to another playlist
+ */
+async function generateUniqueSlug(name: string): Promise<string | null> {
+  for (let attempt = 0; attempt < MAX_SLUG_ATTEMPTS; attempt += 1) {
+    const slug = createPublicPlaylistSlug(name);
+    if (!(await isPlaylistSlugTaken(slug))) return slug;
+  }
+  return null;
+}
+
+export const POST = withOriginValidation(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const bodyResult = await readJsonBodyWithLimit<{ isPublic?: unknown }>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const isPublic = bodyResult.data?.isPublic;
+    if (typeof isPublic !== 'boolean') {
+      return NextResponse.json(
+        { success: false, message: 'isPublic must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json(
+        { success: false, message: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await getPlaylistById(id);
+    if (!existing || existing.userId !== session.id || existing.deletedAt) {
+      return NextResponse.json(
+        { success: false, message: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    let publicSlug: string | undefined;
+    if (isPublic && !existing.publicSlug) {
+      const slug = await generateUniqueSlug(existing.name);
+      if (!slug) {
+        logger.error('[Playlists] Publish error', { error: 'Could not allocate a unique slug' });
+        return NextResponse.json(
+          { success: false, message: 'Failed to publish playlist' },
+          { status: 500 }
+        );
+      }
+      publicSlug = slug;
+    }
+
+    const updated = await setPlaylistVisibility(id, session.id, { isPublic, publicSlug });
+    if (!updated) {
+      return NextResponse.json(
+        { success: false, message: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    logger.info('[Playlists] Visibility changed', { playlistId: id, isPublic });
+
+    return NextResponse.json({ success: true, playlist: toPlaylistResponse(updated) });
+  } catch (error) {
+    logger.error('[Playlists] Publish error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to update playlist visibility' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,160 @@
+/**
+ * Playlist API Route
+ *
+ * GET /api/playlists/{id} - Get a single playlist
+ * PATCH /api/playlists/{id} - Apply a full client snapshot (newest updatedAt wins)
+ * DELETE /api/playlists/{id} - Soft delete a playlist
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizePlaylistPayload } from '@/lib/playlists/sync';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import { PlaylistErrors } from '@/types/playlist.types';
+import { deletePlaylist, getPlaylistById } from '../../../../../server/storage';
+import { applyPlaylistSnapshot, toPlaylistResponse } from '../utils';
+import type { Playlist } from '@/types/playlist.types';
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const record = isE2EAuthBypassEnabled() ? null : await getPlaylistById(id);
+    if (!record || record.userId !== session.id || record.deletedAt) {
+      return NextResponse.json(
+        { success: false, message: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, playlist: toPlaylistResponse(record) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[Playlists] Get error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to get playlist' },
+      { status: 500 }
+    );
+  }
+}
+
+export const PATCH = withOriginValidation(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const bodyResult = await readJsonBodyWithLimit<Partial<Playlist>>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const snapshot = normalizePlaylistPayload({ ...(bodyResult.data ?? {}), id });
+    if (!snapshot) {
+      return NextResponse.json(
+        { success: false, message: 'Invalid playlist payload' },
+        { status: 400 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, applied: true, playlist: snapshot });
+    }
+
+    const result = await applyPlaylistSnapshot(session.id, snapshot);
+
+    if (result.status === 'rejected') {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: result.message === PlaylistErrors.PLAYLIST_NOT_FOUND ? 404 : 400 }
+      );
+    }
+
+    if (result.status === 'deleted') {
+      return NextResponse.json({ success: true, applied: false, deleted: true });
+    }
+
+    return NextResponse.json({
+      success: true,
+      applied: result.status !== 'kept',
+      playlist: result.playlist,
+    });
+  } catch (error) {
+    logger.error('[Playlists] Update error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to update playlist' },
+      { status: 500 }
+    );
+  }
+});
+
+export const DELETE = withOriginValidation(async (
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true });
+    }
+
+    const deleted = await deletePlaylist(id, session.id);
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'Playlist not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    logger.error('[Playlists] Delete error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to delete playlist' },
+      { status: 500 }
+    );
+  }
+});
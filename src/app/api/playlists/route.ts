@@ -0,0 +1,118 @@
+/**
+ * Playlists API Route
+ *
+ * GET /api/playlists - List the authenticated user's playlists
+ * POST /api/playlists - Create a playlist (accepts a client-generated id)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { normalizePlaylistPayload } from '@/lib/playlists/sync';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import { applyPlaylistSnapshot, toPlaylistResponse } from './utils';
+import { getUserPlaylists } from '../../../../server/storage';
+
+export async function GET() {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, playlists: [] });
+    }
+
+    const records = await getUserPlaylists(session.id);
+
+    return NextResponse.json(
+      { success: true, playlists: records.map(toPlaylistResponse) },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    logger.error('[Playlists] List error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to get playlists' },
+      { status: 500 }
+    );
+  }
+}
+
+type CreatePlaylistPayload = {
+  id?: string;
+  name?: string;
+  trackIds?: string[];
+  artworkUrl?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+};
+
+export const POST = withOriginValidation(async (request: NextRequest) => {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const bodyResult = await readJsonBodyWithLimit<CreatePlaylistPayload>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const payload = bodyResult.data ?? {};
+    const playlist = normalizePlaylistPayload({
+      ...payload,
+      id: typeof payload.id === 'string' && payload.id ? payload.id : crypto.randomUUID(),
+    });
+
+    if (!playlist) {
+      return NextResponse.json(
+        { success: false, message: 'A valid playlist name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, playlist });
+    }
+
+    const result = await applyPlaylistSnapshot(session.id, playlist);
+
+    if (result.status === 'rejected') {
+      return NextResponse.json(
+        { success: false, message: result.message },
+        { status: 400 }
+      );
+    }
+
+    if (result.status === 'deleted') {
+      return NextResponse.json(
+        { success: false, message: 'Playlist was deleted' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({ success: true, playlist: result.playlist });
+  } catch (error) {
+    logger.error('[Playlists] Create error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to create playlist' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,76 @@
+/**
+ * Playlist Sync API Route
+ *
+ * POST /api/playlists/sync
+ * Reconciles the client's local playlists with server storage. Each playlist is
+ * resolved independently by `updatedAt`; the response is the merged server list.
+ * Also used once per device to migrate pre-account local playlists.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth';
+import { logger } from '@/lib/logger';
+import { MAX_PLAYLISTS } from '@/lib/playlists/repository';
+import { normalizePlaylistPayload } from '@/lib/playlists/sync';
+import { withOriginValidation } from '@/lib/validation/origin-validation';
+import { getMaxRequestSize, readJsonBodyWithLimit } from '@/lib/validation/request-size';
+import { getUserPlaylists } from '../../../../../server/storage';
+import { applyPlaylistSnapshot, toPlaylistResponse } from '../utils';
+import type { Playlist } from '@/types/playlist.types';
+
+type SyncPayload = {
+  playlists?: unknown[];
+};
+
+export const POST = withOriginValidation(async (request: NextRequest) => {
+  try {
+    const session = await getSession();
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, message: 'Not authenticated' },
+        { status: 401 }
+      );
+    }
+
+    const bodyResult = await readJsonBodyWithLimit<SyncPayload>(
+      request,
+      getMaxRequestSize(request.nextUrl.pathname)
+    );
+    if (!bodyResult.ok) return bodyResult.response;
+
+    const incoming = Array.isArray(bodyResult.data?.playlists)
+      ? bodyResult.data.playlists.slice(0, MAX_PLAYLISTS)
+      : [];
+
+    const snapshots = incoming
+      .map(normalizePlaylistPayload)
+      .filter((playlist): playlist is Playlist => playlist !== null);
+
+    if (isE2EAuthBypassEnabled()) {
+      return NextResponse.json({ success: true, playlists: snapshots });
+    }
+
+    let rejected = 0;
+    for (const snapshot of snapshots) {
+      const result = await applyPlaylistSnapshot(session.id, snapshot);
+      if (result.status === 'rejected') rejected += 1;
+    }
+
+    const records = await getUserPlaylists(session.id);
+
+    return NextResponse.json({
+      success: true,
+      playlists: records.map(toPlaylistResponse),
+      rejected,
+    });
+  } catch (error) {
+    logger.error('[Playlists] Sync error', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return NextResponse.json(
+      { success: false, message: 'Failed to sync playlists' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,111 @@
+/**
+ * Playlist API Helpers
+ *
+ * Shared serialization and snapshot-apply logic for the `/api/playlists` routes.
+ */
+
+import { MAX_PLAYLISTS } from '@/lib/playlists/repository';
+import { normalizeSmartPlaylistRules } from '@/lib/playlists/smart';
+import { getPlaylistTimestamp, resolvePlaylistConflict } from '@/lib/playlists/sync';
+import { PlaylistErrors } from '@/types/playlist.types';
+import {
+  createPlaylist,
+  getPlaylistById,
+  getUserPlaylistCount,
+  updatePlaylist,
+  type PlaylistWithTracks,
+} from '../../../../server/storage';
+import type { Playlist } from '@/types/playlist.types';
+
+export type PlaylistSnapshotResult =
+  | { status: 'created' | 'updated' | 'kept'; playlist: Playlist }
+  | { status: 'deleted' }
+  | { status: 'rejected'; message: string };
+
+/**
+ * Convert a database playlist into the client `Playlist` shape
+ */
+export function toPlaylistResponse(record: PlaylistWithTracks): Playlist {
+  const playlist: Playlist = {
+    id: record.id,
+    name: record.name,
+    trackIds: record.trackIds,
+    createdAt: record.createdAt.toISOString(),
+    updatedAt: record.updatedAt.toISOString(),
+    artworkUrl: record.artworkUrl,
+  };
+  if (record.isDefault) playlist.isDefault = true;
+  const smartRules = record.smartRules ? normalizeSmartPlaylistRules(record.smartRules) : null;
+  if (smartRules) playlist.smartRules = smartRules;
+  if (record.publicSlug) {
+    playlist.isPublic = record.isPublic;
+    playlist.publicSlug = record.publicSlug;
+  }
+  return playlist;
+}
+
+/**
+ * Apply a client playlist snapshot using the per-playlist `updatedAt` rule.
+ *
+ * - Unknown ID: created (subject to the playlist limit)
+ * - Owned by another user: rejected
+ * - Deleted on the server after the snapshot was taken: stays deleted
+ * - Deleted before the snapshot was taken: restored (subject to the playlist limit)
+ * - Otherwise the newer `updatedAt` wins (ties keep the server copy)
+ */
+export async function applyPlaylistSnapshot(
+  userId: string,
+  snapshot: Playlist
+): Promise<PlaylistSnapshotResult> {
+  const existing = await getPlaylistById(snapshot.id);
+
+  if (!existing) {
+    const activeCount = await getUserPlaylistCount(userId);
+    if (activeCount >= MAX_PLAYLISTS) {
+      return { status: 'rejected', message: PlaylistErrors.PLAYLIST_LIMIT_REACHED };
+    }
+
+    const created = await createPlaylist(userId, {
+      id: snapshot.id,
+      name: snapshot.name,
+      trackIds: snapshot.trackIds,
+      artworkUrl: snapshot.artworkUrl ?? null,
+      isDefault: snapshot.isDefault ?? false,
+      smartRules: snapshot.smartRules ?? null,
+      createdAt: new Date(snapshot.createdAt),
+      updatedAt: new Date(snapshot.updatedAt),
+    });
+    return { status: 'created', playlist: toPlaylistResponse(created) };
+  }
+
+  if (existing.userId !== userId) {
+    return { status: 'rejected', message: PlaylistErrors.PLAYLIST_NOT_FOUND };
+  }
+
+  if (existing.deletedAt) {
+    if (getPlaylistTimestamp(snapshot.updatedAt) <= getPlaylistTimestamp(existing.deletedAt)) {
+      return { status: 'deleted' };
+    }
+    // Restoring clears the tombstone, so it counts against the limit like a create
+    const activeCount = await getUserPlaylistCount(userId);
+    if (activeCount >= MAX_PLAYLISTS) {
+      return { status: 'rejected', message: PlaylistErrors.PLAYLIST_LIMIT_REACHED };
+    }
+  } else if (resolvePlaylistConflict(snapshot, toPlaylistResponse(existing)) === 'remote') {
+    return { status: 'kept', playlist: toPlaylistResponse(existing) };
+  }
+
+  const updated = await updatePlaylist(existing.id, {
+    name: snapshot.name,
+    trackIds: snapshot.trackIds,
+    artworkUrl: snapshot.artworkUrl ?? null,
+    smartRules: snapshot.smartRules ?? null,
+    updatedAt: new Date(snapshot.updatedAt),
+  });
+
+  if (!updated) {
+    return { status: 'rejected', message: PlaylistErrors.PLAYLIST_NOT_FOUND };
+  }
+
+  return { status: 'updated', playlist: toPlaylistResponse(updated) };
+}
@@ -0,0 +1,175 @@
+import { headers } from "next/headers"
+import { AuthenticatedAppLayout } from "@/components/layout/AuthenticatedAppLayout"
+import { PublicPlaylistView } from "@/components/playlist/PublicPlaylistView"
+import { getAppBaseUrl } from "@/lib/app-url"
+import { buildMusicDeepLinkPath } from "@/lib/music"
+import { getMusicSnapshot } from "@/lib/music/server"
+import { getPublicPlaylist } from "@/lib/playlists/server"
+import { generatePublicPlaylistSchema } from "@/lib/structured-data"
+import type { Track } from "@/types"
+import type { PublicPlaylist } from "@/types/playlist.types"
+import type { Metadata } from "next"
+
+/**
+ * Playlist Deep Link Route
+ *
+ * Lives outside the `(experience)` group so published playlists can render a
+ * public, read-only landing page for visitors without an account:
+ * - `/playlist/{publicSlug}` → server-rendered landing page (public)
+ * - `/playlist/{playlistId}` → owner deep link into the app (protected)
+ */
+
+const musicRobots = {
+  index: false,
+  follow: true,
+}
+
+const publicPlaylistRobots = {
+  index: true,
+  follow: true,
+}
+
+type SearchParam = string | string[] | undefined
+
+interface PlaylistPageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<Record<string, SearchParam>>
+}
+
+function resolveImageUrl(baseUrl: string, imageUrl?: string) {
+  if (!imageUrl) {
+    return `${baseUrl}/images/og-image.png`
+  }
+  return new URL(imageUrl, baseUrl).toString()
+}
+
+function getSearchParam(params: Record<string, SearchParam>, key: string): string | undefined {
+  const value = params[key]
+  if (Array.isArray(value)) {
+    return value[0]
+  }
+  return value
+}
+
+function parsePlaylistName(value?: string) {
+  if (!value) return ""
+  try {
+    return decodeURIComponent(value).trim()
+  } catch {
+    return value.trim()
+  }
+}
+
+function parsePlaylistCount(value?: string) {
+  if (!value) return null
+  const count = Number.parseInt(value, 10)
+  return Number.isFinite(count) && count >= 0 ? count : null
+}
+
+async function resolvePublicPlaylistTracks(playlist: PublicPlaylist): Promise<Track[]> {
+  const { tracks } = await getMusicSnapshot()
+  const tracksById = new Map(tracks.map((track) => [track.id, track]))
+  return playlist.trackIds
+    .map((trackId) => tracksById.get(trackId))
+    .filter((track): track is Track => Boolean(track))
+}
+
+export async function generateMetadata({
+  params,
+  searchParams,
+}: PlaylistPageProps): Promise<Metadata> {
+  const { id } = await params
+  const baseUrl = getAppBaseUrl()
+
+  const publicPlaylist = await getPublicPlaylist(id)
+  if (publicPlaylist) {
+    const schema = generatePublicPlaylistSchema(
+      publicPlaylist,
+      await resolvePublicPlaylistTracks(publicPlaylist)
+    )
+    const title = `${schema.name} — MetaDJ Playlist`
+    const image = resolveImageUrl(baseUrl, schema.image)
+
+    return {
+      title,
+      description: schema.description,
+      alternates: { canonical: schema.url },
+      robots: publicPlaylistRobots,
+      openGraph: {
+        title,
+        description: schema.description,
+        url: schema.url,
+        type: "music.playlist",
+        images: [{ url: image }],
+      },
+      twitter: {
+        card: "summary_large_image",
+        title,
+        description: schema.description,
+        images: [image],
+      },
+    }
+  }
+
+  const url = `${baseUrl}${buildMusicDeepLinkPath("playlist", id)}`
+  const query = await searchParams
+
+  const playlistName = parsePlaylistName(getSearchParam(query, "name"))
+  const playlistCount = parsePlaylistCount(getSearchParam(query, "count"))
+
+  const title = playlistName ? `${playlistName} — MetaDJ Playlist` : "MetaDJ Playlist"
+  const countLabel = playlistCount !== null ? ` · ${playlistCount} tracks` : ""
+  const description = playlistName
+    ? `Playlist "${playlistName}" on MetaDJ Nexus${countLabel}.`
+    : "Curated playlist on MetaDJ Nexus."
+
+  const image = resolveImageUrl(baseUrl)
+
+  return {
+    title,
+    description,
+    alternates: { canonical: url },
+    robots: musicRobots,
+    openGraph: {
+      title,
+      description,
+      url,
+      type: "music.playlist",
+      images: [{ url: image }],
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [image],
+    },
+  }
+}
+
+export default async function PlaylistDeepLinkPage({ params }: PlaylistPageProps) {
+  const { id } = await params
+  const publicPlaylist = await getPublicPlaylist(id)
+
+  if (!publicPlaylist) {
+    // Not published: behave like the other (experience) deep links
+    return <AuthenticatedAppLayout>{null}</AuthenticatedAppLayout>
+  }
+
+  const tracks = await resolvePublicPlaylistTracks(publicPlaylist)
+  const structuredData = generatePublicPlaylistSchema(publicPlaylist, tracks)
+  const nonce = (await headers()).get("x-nonce") ?? undefined
+
+  return (
+    <>
+      <script
+        id="playlist-structured-data"
+        type="application/ld+json"
+        nonce={nonce}
+        suppressHydrationWarning
+        // Playlist names are user input: escape "<" so they cannot close the script tag.
+        dangerouslySetInnerHTML={{ __html: JSON.stringify(structuredData).replace(/</g, "\\u003c") }}
+      />
+      <PublicPlaylistView playlist={publicPlaylist} tracks={tracks} />
+    </>
+  )
+}
@@ -13,6 +13,7 @@ export default function robots(): MetadataRoute.Robots {
           '/api/*',           // API routes not for crawling
           '/_next/*',         // Next.js internals
           '/static/*',        // Static assets handled separately
+          '/share/*',         // Shared MetaDJai conversations (private links)
         ],
       },
       {
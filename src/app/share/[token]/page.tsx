@@ -0,0 +1,44 @@
+import { notFound } from "next/navigation"
+import { SharedConversationView } from "@/components/metadjai/SharedConversationView"
+import { getSharedConversation } from "@/lib/metadjai/share-server"
+import type { Metadata } from "next"
+
+/**
+ * Shared MetaDJai Conversation Route
+ *
+ * `/share/{token}` renders a read-only snapshot of a conversation for anyone
+ * with the link. Lives outside the `(experience)` group so visitors without an
+ * account can open it; revoked links and deleted conversations 404.
+ */
+
+const sharedConversationRobots = {
+  index: false,
+  follow: false,
+}
+
+interface SharedConversationPageProps {
+  params: Promise<{ token: string }>
+}
+
+export async function generateMetadata({ params }: SharedConversationPageProps): Promise<Metadata> {
+  const { token } = await params
+  const conversation = await getSharedConversation(token)
+  const title = conversation ? `${conversation.title} — MetaDJai` : "Shared conversation — MetaDJai"
+
+  return {
+    title,
+    description: "A conversation with MetaDJai on MetaDJ Nexus.",
+    robots: sharedConversationRobots,
+  }
+}
+
+export default async function SharedConversationPage({ params }: SharedConversationPageProps) {
+  const { token } = await params
+  const conversation = await getSharedConversation(token)
+
+  if (!conversation) {
+    notFound()
+  }
+
+  return <SharedConversationView conversation={conversation} />
+}
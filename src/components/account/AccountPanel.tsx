@@ -3,15 +3,16 @@
 /**
  * Account Panel Component
  *
- * Slide-out panel for account settings (email, password, username update) and feedback submission.
+ * Slide-out panel for account settings (email, password, username update), listening stats, and feedback submission.
  * Styled to match Music and MetaDJai panels.
  */
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
-import { X, User, Mail, Lock, LogOut, Shield, MessageSquare, Bug, Lightbulb, Sparkles, SendHorizonal, ChevronLeft, AtSign } from 'lucide-react';
+import { X, User, Mail, Lock, LogOut, Shield, MessageSquare, Bug, Lightbulb, Sparkles, SendHorizonal, ChevronLeft, AtSign, BarChart3 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useBodyScrollLock } from '@/hooks/use-body-scroll-lock';
+import { ListeningStatsView } from './ListeningStatsView';
 import type { FeedbackType, FeedbackSeverity } from '@/lib/feedback';
 
 interface AccountPanelProps {
@@ -19,7 +20,7 @@ interface AccountPanelProps {
   onClose: () => void;
 }
 
-type PanelView = 'main' | 'email' | 'password' | 'username' | 'feedback';
+type PanelView = 'main' | 'email' | 'password' | 'username' | 'feedback' | 'stats';
 
 const feedbackTypes: { value: FeedbackType; label: string; icon: typeof Bug; description: string }[] = [
   { value: 'feedback', label: 'General Feedback', icon: MessageSquare, description: 'Share comments or thoughts' },
@@ -300,6 +301,13 @@ export function AccountPanel({ isOpen, onClose }: AccountPanelProps) {
                 <h3 className="text-xs font-heading font-semibold text-white/50 uppercase tracking-wider mb-3">
                   Actions
                 </h3>
+                <button
+                  onClick={() => setCurrentView('stats')}
+                  className="w-full py-3 px-4 bg-white/5 border border-white/15 rounded-xl text-white/90 hover:bg-white/10 hover:text-white hover:border-white/25 transition-all flex items-center gap-3 font-heading font-semibold text-sm"
+                >
+                  <BarChart3 className="w-5 h-5 text-purple-400" />
+                  Your Stats
+                </button>
                 <button
                   onClick={() => setCurrentView('feedback')}
                   className="w-full py-3 px-4 bg-white/5 border border-white/15 rounded-xl text-white/90 hover:bg-white/10 hover:text-white hover:border-white/25 transition-all flex items-center gap-3 font-heading font-semibold text-sm"
@@ -351,6 +359,8 @@ export function AccountPanel({ isOpen, onClose }: AccountPanelProps) {
             </>
           )}
 
+          {currentView === 'stats' && <ListeningStatsView />}
+
           {currentView === 'username' && (
             <div className="p-4">
               <h3 className="text-lg font-heading font-bold text-white mb-4">
@@ -0,0 +1,136 @@
+'use client';
+
+/**
+ * Listening Stats View
+ *
+ * "Your stats" screen inside the Account panel: total minutes, plays,
+ * listening streaks, most-played collection, and top tracks from the
+ * listening history.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Clock, Flame, Library, Music, RotateCcw } from 'lucide-react';
+import { fetchListeningStats } from '@/lib/listening/remote';
+import type { ListeningStats } from '@/types';
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours}h ${rest}m` : `${hours}h`;
+}
+
+function formatDays(days: number): string {
+  return `${days} ${days === 1 ? 'day' : 'days'}`;
+}
+
+export function ListeningStatsView() {
+  const [stats, setStats] = useState<ListeningStats | null>(null);
+  const [status, setStatus] = useState<'loading' | 'ready' | 'error'>('loading');
+
+  const loadStats = useCallback(async () => {
+    setStatus('loading');
+    const result = await fetchListeningStats();
+    setStats(result);
+    setStatus(result ? 'ready' : 'error');
+  }, []);
+
+  useEffect(() => {
+    void loadStats();
+  }, [loadStats]);
+
+  return (
+    <div className="p-4">
+      <h3 className="text-lg font-heading font-bold text-white mb-4">Your Stats</h3>
+
+      {status === 'loading' && (
+        <div className="flex items-center justify-center py-12" role="status">
+          <div className="w-6 h-6 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+          <span className="sr-only">Loading your stats</span>
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="rounded-xl border border-red-500/40 bg-red-500/10 p-4 text-sm text-red-300">
+          <p>Couldn&apos;t load your stats.</p>
+          <button
+            type="button"
+            onClick={() => void loadStats()}
+            className="mt-3 inline-flex items-center gap-2 rounded-lg border border-white/20 bg-white/10 px-3 py-1.5 text-xs font-heading font-semibold text-white transition hover:bg-white/20"
+          >
+            <RotateCcw className="w-3.5 h-3.5" />
+            Try again
+          </button>
+        </div>
+      )}
+
+      {status === 'ready' && stats && stats.totalPlays === 0 && (
+        <p className="text-sm text-white/60">
+          Nothing here yet. Listen to a track for at least 30 seconds and it will show up in your stats.
+        </p>
+      )}
+
+      {status === 'ready' && stats && stats.totalPlays > 0 && (
+        <div className="space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            <div className="rounded-xl border border-white/15 bg-white/5 p-3">
+              <Clock className="w-4 h-4 text-cyan-400 mb-1.5" />
+              <p className="text-lg font-heading font-bold text-white">{formatMinutes(stats.totalMinutes)}</p>
+              <p className="text-xs text-white/50">Listened · {stats.totalPlays} plays</p>
+            </div>
+            <div className="rounded-xl border border-white/15 bg-white/5 p-3">
+              <Flame className="w-4 h-4 text-amber-400 mb-1.5" />
+              <p className="text-lg font-heading font-bold text-white">{formatDays(stats.currentStreakDays)}</p>
+              <p className="text-xs text-white/50">Current streak · best {formatDays(stats.longestStreakDays)}</p>
+            </div>
+          </div>
+
+          {stats.mostPlayedCollection && (
+            <div className="rounded-xl border border-white/15 bg-white/5 p-3 flex items-center gap-3">
+              <Library className="w-5 h-5 text-purple-400 shrink-0" />
+              <div className="min-w-0">
+                <p className="text-xs text-white/50">Most-played collection</p>
+                <p className="text-sm font-heading font-semibold text-white truncate">
+                  {stats.mostPlayedCollection.title}
+                </p>
+              </div>
+              <span className="ml-auto shrink-0 text-xs text-white/50">
+                {stats.mostPlayedCollection.plays} plays
+              </span>
+            </div>
+          )}
+
+          {stats.topTracks.length > 0 && (
+            <div>
+              <h4 className="text-xs font-heading font-semibold text-white/50 uppercase tracking-wider mb-3">
+                Top Tracks
+              </h4>
+              <ol className="space-y-2">
+                {stats.topTracks.map((track, index) => (
+                  <li
+                    key={track.trackId}
+                    className="flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 px-3 py-2"
+                  >
+                    <span className="w-5 shrink-0 text-center text-xs font-heading font-semibold text-white/40">
+                      {index + 1}
+                    </span>
+                    <Music className="w-4 h-4 shrink-0 text-blue-400" />
+                    <div className="min-w-0">
+                      <p className="text-sm text-white truncate">{track.title ?? 'Unavailable track'}</p>
+                      {track.collection && (
+                        <p className="text-xs text-white/50 truncate">{track.collection}</p>
+                      )}
+                    </div>
+                    <span className="ml-auto shrink-0 text-xs text-white/50">
+                      {track.plays} {track.plays === 1 ? 'play' : 'plays'}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
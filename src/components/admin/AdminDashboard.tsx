@@ -3,7 +3,8 @@
 /**
  * Admin Dashboard Component
  *
- * Main admin interface for managing feedback, users, and viewing analytics.
+ * Main admin interface for managing feedback, users (including per-user AI quotas),
+ * the music catalog, and viewing AI usage and analytics.
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -27,12 +28,17 @@ import {
   ChevronDown,
   UserPlus,
   UserCheck,
+  Disc3,
+  Bot,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { logger } from '@/lib/logger';
+import { AiQuotaEditor } from './AiQuotaEditor';
+import { AiUsagePanel } from './AiUsagePanel';
+import { CatalogEditor } from './CatalogEditor';
 import type { FeedbackItem, FeedbackType, FeedbackStatus } from '@/lib/feedback';
 
-type Tab = 'overview' | 'feedback' | 'users' | 'analytics';
+type Tab = 'overview' | 'feedback' | 'users' | 'catalog' | 'ai' | 'analytics';
 
 type UserItem = {
   id: string;
@@ -107,6 +113,7 @@ export function AdminDashboard() {
   const [userLimit] = useState(20);
   const [userTotal, setUserTotal] = useState(0);
   const [userTotalPages, setUserTotalPages] = useState(1);
+  const [quotaUser, setQuotaUser] = useState<UserItem | null>(null);
   const [navDropdownOpen, setNavDropdownOpen] = useState(false);
 
   const [analytics, setAnalytics] = useState<{
@@ -117,6 +124,8 @@ export function AdminDashboard() {
   } | null>(null);
   const [analyticsDays, setAnalyticsDays] = useState(30);
   const [analyticsLoading, setAnalyticsLoading] = useState(false);
+  const [catalogRefreshKey, setCatalogRefreshKey] = useState(0);
+  const [aiUsageRefreshKey, setAiUsageRefreshKey] = useState(0);
 
   const fetchFeedback = useCallback(async () => {
     setIsLoading(true);
@@ -344,6 +353,10 @@ export function AdminDashboard() {
               onClick={() => {
                 if (activeTab === 'users') {
                   fetchUsers();
+                } else if (activeTab === 'catalog') {
+                  setCatalogRefreshKey((key) => key + 1);
+                } else if (activeTab === 'ai') {
+                  setAiUsageRefreshKey((key) => key + 1);
                 } else if (activeTab === 'analytics') {
                   fetchAnalytics();
                 } else {
@@ -373,6 +386,8 @@ export function AdminDashboard() {
             { id: 'overview' as Tab, label: 'Overview', icon: BarChart3 },
             { id: 'feedback' as Tab, label: 'Feedback', icon: MessageSquare },
             { id: 'users' as Tab, label: 'Users', icon: Users },
+            { id: 'catalog' as Tab, label: 'Catalog', icon: Disc3 },
+            { id: 'ai' as Tab, label: 'AI', icon: Bot },
             { id: 'analytics' as Tab, label: 'Analytics', icon: BarChart3 },
           ].map((tab) => (
             <button
@@ -721,6 +736,7 @@ export function AdminDashboard() {
                         <th className="text-left text-white/70 text-sm font-medium px-6 py-3">Status</th>
                         <th className="text-left text-white/70 text-sm font-medium px-6 py-3">Admin</th>
                         <th className="text-left text-white/70 text-sm font-medium px-6 py-3">Created At</th>
+                        <th className="text-left text-white/70 text-sm font-medium px-6 py-3">AI Quota</th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-white/10">
@@ -749,6 +765,18 @@ export function AdminDashboard() {
                               {new Date(user.createdAt).toLocaleDateString()}
                             </span>
                           </td>
+                          <td className="px-6 py-4">
+                            <button
+                              onClick={() => setQuotaUser(user)}
+                              className={`px-2 py-1 text-xs rounded border transition-colors ${
+                                quotaUser?.id === user.id
+                                  ? 'border-purple-500/50 bg-purple-500/20 text-purple-400'
+                                  : 'border-white/10 text-white/60 hover:text-white'
+                              }`}
+                            >
+                              Manage
+                            </button>
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -756,9 +784,19 @@ export function AdminDashboard() {
                 </div>
               )}
             </div>
+
+            {quotaUser && (
+              <AiQuotaEditor key={quotaUser.id} user={quotaUser} onClose={() => setQuotaUser(null)} />
+            )}
           </div>
         )}
 
+        {/* Catalog Tab */}
+        {activeTab === 'catalog' && <CatalogEditor refreshKey={catalogRefreshKey} />}
+
+        {/* AI Tab */}
+        {activeTab === 'ai' && <AiUsagePanel refreshKey={aiUsageRefreshKey} />}
+
         {/* Analytics Tab */}
         {activeTab === 'analytics' && (
           <div className="space-y-8">
@@ -0,0 +1,246 @@
+'use client';
+
+/**
+ * AI Quota Editor Component
+ *
+ * Admin panel for one user's MetaDJai entitlement: plan tier, optional custom
+ * daily/monthly token and cost limits (blank = tier default), and current usage.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { AlertCircle, Bot, X } from 'lucide-react';
+import { AI_QUOTA_TIERS, AI_QUOTA_TIER_LABELS, AI_QUOTA_TIER_LIMITS, type AiQuotaOverride } from '@/lib/ai/quotas';
+import { logger } from '@/lib/logger';
+import type { MetaDjAiQuotaLimits, MetaDjAiQuotaStatus, MetaDjAiQuotaTier, MetaDjAiQuotaWindow } from '@/types/metadjai.types';
+
+type LimitField = keyof MetaDjAiQuotaLimits;
+
+type QuotaFormState = {
+  tier: MetaDjAiQuotaTier;
+  limits: Record<LimitField, string>;
+};
+
+const LIMIT_FIELDS: Array<{ field: LimitField; label: string; step: number }> = [
+  { field: 'dailyTokens', label: 'Daily tokens', step: 1000 },
+  { field: 'monthlyTokens', label: 'Monthly tokens', step: 1000 },
+  { field: 'dailyCostUsd', label: 'Daily cost (USD)', step: 0.01 },
+  { field: 'monthlyCostUsd', label: 'Monthly cost (USD)', step: 0.01 },
+];
+
+const toFormState = (override: AiQuotaOverride | null): QuotaFormState => ({
+  tier: override?.tier ?? 'free',
+  limits: {
+    dailyTokens: override?.limits.dailyTokens?.toString() ?? '',
+    monthlyTokens: override?.limits.monthlyTokens?.toString() ?? '',
+    dailyCostUsd: override?.limits.dailyCostUsd?.toString() ?? '',
+    monthlyCostUsd: override?.limits.monthlyCostUsd?.toString() ?? '',
+  },
+});
+
+const toPayload = (form: QuotaFormState): AiQuotaOverride => {
+  const optionalNumber = (value: string) => (value.trim() ? Number(value) : null);
+  return {
+    tier: form.tier,
+    limits: {
+      dailyTokens: optionalNumber(form.limits.dailyTokens),
+      monthlyTokens: optionalNumber(form.limits.monthlyTokens),
+      dailyCostUsd: optionalNumber(form.limits.dailyCostUsd),
+      monthlyCostUsd: optionalNumber(form.limits.monthlyCostUsd),
+    },
+  };
+};
+
+const formatLimit = (value: number | null, isCost: boolean) => {
+  if (value === null) return 'No limit';
+  return isCost ? `$${value.toFixed(2)}` : value.toLocaleString();
+};
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const inputClassName =
+  'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder:text-white/30 focus:outline-none focus:border-purple-500/50';
+
+function UsageWindow({ label, window }: { label: string; window: MetaDjAiQuotaWindow }) {
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-lg p-3">
+      <p className="text-xs uppercase tracking-wide text-white/50">{label}</p>
+      <p className="text-sm text-white mt-1">
+        {window.tokensUsed.toLocaleString()} / {formatLimit(window.tokenLimit, false)} tokens
+      </p>
+      <p className="text-sm text-white">
+        ${window.costUsedUsd.toFixed(4)} / {formatLimit(window.costLimitUsd, true)}
+      </p>
+      <p className="text-xs text-white/40 mt-1">Resets {new Date(window.resetsAt).toLocaleString()}</p>
+    </div>
+  );
+}
+
+interface AiQuotaEditorProps {
+  user: { id: string; email: string; isAdmin: boolean };
+  onClose: () => void;
+}
+
+export function AiQuotaEditor({ user, onClose }: AiQuotaEditorProps) {
+  const [quota, setQuota] = useState<MetaDjAiQuotaStatus | null>(null);
+  const [form, setForm] = useState<QuotaFormState>(() => toFormState(null));
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const applyResponse = (data: { quota: MetaDjAiQuotaStatus; override: AiQuotaOverride | null }) => {
+    setQuota(data.quota);
+    setForm(toFormState(data.override));
+  };
+
+  const fetchQuota = useCallback(async () => {
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/admin/users/${encodeURIComponent(user.id)}/ai-quota`);
+      const data = await response.json();
+
+      if (data.success) {
+        applyResponse(data);
+      } else {
+        setMessage({ tone: 'error', text: data.message ?? 'Failed to load AI quota' });
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to fetch AI quota', { error: toErrorMessage(error) });
+      setMessage({ tone: 'error', text: 'Failed to load AI quota' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user.id]);
+
+  useEffect(() => {
+    fetchQuota();
+  }, [fetchQuota]);
+
+  const saveQuota = async (method: 'PUT' | 'DELETE') => {
+    if (method === 'DELETE' && !confirm(`Reset ${user.email} to the Free tier defaults?`)) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/admin/users/${encodeURIComponent(user.id)}/ai-quota`, {
+        method,
+        headers: method === 'PUT' ? { 'Content-Type': 'application/json' } : undefined,
+        body: method === 'PUT' ? JSON.stringify(toPayload(form)) : undefined,
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        applyResponse(data);
+        setMessage({ tone: 'success', text: method === 'PUT' ? 'AI quota saved' : 'AI quota reset' });
+      } else {
+        setMessage({ tone: 'error', text: data.message ?? 'Failed to update AI quota' });
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to update AI quota', { error: toErrorMessage(error) });
+      setMessage({ tone: 'error', text: 'Failed to update AI quota' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const tierDefaults = AI_QUOTA_TIER_LIMITS[form.tier];
+
+  return (
+    <div className="bg-white/5 border border-white/10 rounded-xl overflow-hidden">
+      <div className="p-4 border-b border-white/10 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Bot className="w-5 h-5 text-cyan-400" />
+          <div>
+            <h3 className="text-lg font-semibold text-white">AI Quota</h3>
+            <p className="text-xs text-white/50">{user.email}</p>
+          </div>
+        </div>
+        <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/60" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isLoading ? (
+        <div className="text-center py-8 text-white/50">Loading AI quota...</div>
+      ) : (
+        <div className="p-6 space-y-6">
+          {message && (
+            <div
+              className={`p-3 rounded-lg text-sm border ${
+                message.tone === 'success'
+                  ? 'bg-green-500/10 border-green-500/40 text-green-400'
+                  : 'bg-red-500/10 border-red-500/40 text-red-400'
+              }`}
+            >
+              {message.text}
+            </div>
+          )}
+
+          {quota && (
+            <div className="grid md:grid-cols-2 gap-3">
+              <UsageWindow label="Today" window={quota.daily} />
+              <UsageWindow label="This month" window={quota.monthly} />
+            </div>
+          )}
+
+          {user.isAdmin ? (
+            <p className="flex items-center gap-1.5 text-sm text-white/60">
+              <AlertCircle className="w-4 h-4 text-purple-400" />
+              Admins always have unlimited AI usage; overrides don&apos;t apply.
+            </p>
+          ) : (
+            <div className="grid md:grid-cols-2 gap-4">
+              <label className="block text-sm text-white/70 md:col-span-2">
+                Tier
+                <select
+                  value={form.tier}
+                  onChange={(event) => setForm((prev) => ({ ...prev, tier: event.target.value as MetaDjAiQuotaTier }))}
+                  className={`${inputClassName} mt-1`}
+                >
+                  {AI_QUOTA_TIERS.map((tier) => (
+                    <option key={tier} value={tier} className="bg-[#0a0a0a]">
+                      {AI_QUOTA_TIER_LABELS[tier]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {form.tier !== 'unlimited' &&
+                LIMIT_FIELDS.map(({ field, label, step }) => (
+                  <label key={field} className="block text-sm text-white/70">
+                    {label}
+                    <input
+                      type="number"
+                      min={0}
+                      step={step}
+                      value={form.limits[field]}
+                      onChange={(event) =>
+                        setForm((prev) => ({ ...prev, limits: { ...prev.limits, [field]: event.target.value } }))
+                      }
+                      placeholder={`Tier default: ${formatLimit(tierDefaults[field], field.endsWith('CostUsd'))}`}
+                      className={`${inputClassName} mt-1`}
+                    />
+                  </label>
+                ))}
+              <div className="md:col-span-2 flex justify-end gap-2">
+                <button
+                  onClick={() => saveQuota('DELETE')}
+                  disabled={isSaving || !quota?.hasOverride}
+                  className="px-4 py-2 text-sm rounded-lg border border-white/10 text-white/60 hover:text-white disabled:opacity-40"
+                >
+                  Reset to Free
+                </button>
+                <button
+                  onClick={() => saveQuota('PUT')}
+                  disabled={isSaving}
+                  className="px-4 py-2 text-sm rounded-lg bg-purple-500/20 border border-purple-500/50 text-purple-400 hover:bg-purple-500/30 disabled:opacity-40"
+                >
+                  {isSaving ? 'Saving...' : 'Save Quota'}
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,219 @@
+'use client';
+
+/**
+ * AI Usage Panel Component
+ *
+ * Admin "AI" tab: MetaDJai cost per day, provider, and model, p95 latency,
+ * failover rate, and top tool calls from the `ai_usage` ledger, plus CSV export.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Activity, Bot, DollarSign, Download, Repeat, Wrench } from 'lucide-react';
+import { logger } from '@/lib/logger';
+import type { AiUsageSummary } from '@/lib/ai/usage-ledger';
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const formatUsd = (value: number) => (value > 0 && value < 0.01 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`);
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const formatLatency = (value: number | null) =>
+  value === null ? '—' : value >= 1000 ? `${(value / 1000).toFixed(1)}s` : `${Math.round(value)}ms`;
+
+interface AiUsagePanelProps {
+  /** Increment to force a reload (dashboard refresh button) */
+  refreshKey?: number;
+}
+
+export function AiUsagePanel({ refreshKey = 0 }: AiUsagePanelProps) {
+  const [summary, setSummary] = useState<AiUsageSummary | null>(null);
+  const [days, setDays] = useState(30);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchSummary = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/admin/ai-usage?days=${days}`);
+      const data = await response.json();
+      if (data.success) {
+        setSummary(data.summary);
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to fetch AI usage', { error: toErrorMessage(error) });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [days]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary, refreshKey]);
+
+  const maxDayCost = Math.max(0, ...(summary?.costByDay.map((row) => row.costUsd) ?? []));
+  const statCards = [
+    { label: 'Cost', value: summary ? formatUsd(summary.totals.costUsd) : '...', icon: DollarSign, tone: 'green' },
+    { label: 'Requests', value: summary ? summary.totals.requests.toLocaleString() : '...', icon: Bot, tone: 'purple' },
+    { label: 'p95 Latency', value: summary ? formatLatency(summary.totals.p95LatencyMs) : '...', icon: Activity, tone: 'cyan' },
+    { label: 'Failover Rate', value: summary ? formatPercent(summary.totals.failoverRate) : '...', icon: Repeat, tone: 'yellow' },
+  ] as const;
+  const toneClasses: Record<(typeof statCards)[number]['tone'], string> = {
+    green: 'bg-green-500/20 text-green-400',
+    purple: 'bg-purple-500/20 text-purple-400',
+    cyan: 'bg-cyan-500/20 text-cyan-400',
+    yellow: 'bg-yellow-500/20 text-yellow-400',
+  };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">MetaDJai Usage</h3>
+          <p className="text-xs text-white/50">
+            Last {days} days
+            {summary && summary.totals.failedRequests > 0 && ` · ${summary.totals.failedRequests.toLocaleString()} failed requests`}
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="text-xs text-white/60 flex items-center gap-2">
+            Range
+            <select
+              value={days}
+              onChange={(event) => setDays(Number(event.target.value))}
+              className="bg-white/5 border border-white/10 rounded-lg px-3 py-1 text-sm text-white"
+            >
+              {[1, 7, 30, 90].map((option) => (
+                <option key={option} value={option} className="bg-[#0a0a0a]">
+                  {option === 1 ? 'Today' : `${option} days`}
+                </option>
+              ))}
+            </select>
+          </label>
+          <a
+            href={`/api/admin/ai-usage/export?days=${days}`}
+            download
+            className="flex items-center gap-1.5 px-3 py-1 text-xs rounded border border-purple-500/50 text-purple-400 hover:bg-purple-500/20"
+          >
+            <Download className="w-3.5 h-3.5" />
+            Export CSV
+          </a>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {statCards.map((card) => (
+          <div key={card.label} className="bg-white/5 border border-white/10 rounded-xl p-4">
+            <div className="flex items-center gap-3 mb-2">
+              <div className={`p-2 rounded-lg ${toneClasses[card.tone]}`}>
+                <card.icon className="w-5 h-5" />
+              </div>
+              <span className="text-white/60 text-sm">{card.label}</span>
+            </div>
+            <p className="text-3xl font-bold text-white">{isLoading && !summary ? '...' : card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {/* Cost per Day */}
+      <div className="bg-white/5 border border-white/10 rounded-xl p-6">
+        <h3 className="text-lg font-semibold text-white mb-4">Cost per Day</h3>
+        {isLoading && !summary ? (
+          <div className="text-center py-8 text-white/50">Loading AI usage...</div>
+        ) : !summary || summary.totals.requests === 0 ? (
+          <div className="text-center py-8 text-white/50">No AI usage recorded yet</div>
+        ) : (
+          <div className="space-y-1.5">
+            {[...summary.costByDay].reverse().map((row) => {
+              const percentage = maxDayCost > 0 ? Math.round((row.costUsd / maxDayCost) * 100) : 0;
+              return (
+                <div key={row.day} className="flex items-center gap-3 text-xs">
+                  <span className="w-20 shrink-0 text-white/50 font-mono">{row.day.slice(5)}</span>
+                  <div className="flex-1 h-1.5 bg-white/10 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-gradient-to-r from-purple-500 to-purple-400 rounded-full transition-all duration-300"
+                      style={{ width: `${percentage}%` }}
+                    />
+                  </div>
+                  <span className="w-16 shrink-0 text-right text-white/50">{row.requests.toLocaleString()} req</span>
+                  <span className="w-20 shrink-0 text-right text-white font-medium">{formatUsd(row.costUsd)}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {summary && summary.totals.requests > 0 && (
+        <div className="grid lg:grid-cols-2 gap-6">
+          {/* Cost by Provider / Model */}
+          <div className="bg-white/5 border border-white/10 rounded-xl overflow-hidden">
+            <div className="p-4 border-b border-white/10">
+              <h3 className="text-lg font-semibold text-white">Cost by Provider &amp; Model</h3>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full">
+                <thead className="bg-white/5">
+                  <tr>
+                    <th className="text-left text-white/70 text-sm font-medium px-4 py-3">Model</th>
+                    <th className="text-right text-white/70 text-sm font-medium px-4 py-3">Requests</th>
+                    <th className="text-right text-white/70 text-sm font-medium px-4 py-3">p95</th>
+                    <th className="text-right text-white/70 text-sm font-medium px-4 py-3">Cost</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10">
+                  {summary.costByProvider.map((provider) => (
+                    <tr key={provider.provider} className="bg-white/5">
+                      <td className="px-4 py-2 text-sm font-semibold text-white capitalize">
+                        {provider.provider}
+                        <span className="ml-2 text-xs font-normal text-white/40">
+                          {formatPercent(provider.failoverRate)} via failover
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-white/70">{provider.requests.toLocaleString()}</td>
+                      <td className="px-4 py-2" />
+                      <td className="px-4 py-2 text-sm text-right text-white font-medium">{formatUsd(provider.costUsd)}</td>
+                    </tr>
+                  ))}
+                  {summary.costByModel.map((model) => (
+                    <tr key={`${model.provider}:${model.model}`} className="hover:bg-white/5 transition-colors">
+                      <td className="px-4 py-2 text-sm text-white/80">
+                        <span className="text-white/40">{model.provider} / </span>
+                        {model.model}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right text-white/60">{model.requests.toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm text-right text-white/60">{formatLatency(model.p95LatencyMs)}</td>
+                      <td className="px-4 py-2 text-sm text-right text-white/80">{formatUsd(model.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Top Tool Calls */}
+          <div className="bg-white/5 border border-white/10 rounded-xl p-6">
+            <h3 className="text-lg font-semibold text-white mb-4">Top Tool Calls</h3>
+            {summary.topToolCalls.length === 0 ? (
+              <div className="text-center py-8 text-white/50">No tool calls yet</div>
+            ) : (
+              <div className="space-y-2">
+                {summary.topToolCalls.map((tool) => (
+                  <div key={tool.name} className="flex items-center justify-between p-3 bg-white/5 rounded-lg">
+                    <div className="flex items-center gap-2">
+                      <div className="p-1.5 bg-purple-500/20 rounded">
+                        <Wrench className="w-3.5 h-3.5 text-purple-400" />
+                      </div>
+                      <span className="text-white text-sm font-mono">{tool.name}</span>
+                    </div>
+                    <span className="text-white/50 text-sm">{tool.count.toLocaleString()} calls</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,642 @@
+'use client';
+
+/**
+ * Catalog Editor Component
+ *
+ * Admin tab for the database-backed music catalog: create/edit/disable tracks,
+ * reorder collections, and check audio URLs against the R2 music bucket.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle,
+  AlertCircle,
+  Database,
+  Eye,
+  EyeOff,
+  Pencil,
+  Plus,
+  X,
+} from 'lucide-react';
+import { logger } from '@/lib/logger';
+import { formatDuration } from '@/lib/utils';
+import type { CatalogAudioValidation } from '@/lib/music/catalog';
+
+type CatalogCollectionRow = {
+  id: string;
+  title: string;
+  artist: string;
+  enabled: boolean;
+  position: number;
+};
+
+type CatalogTrackRow = {
+  id: string;
+  collectionId: string;
+  title: string;
+  artist: string;
+  duration: number;
+  releaseDate: string;
+  audioUrl: string;
+  artworkUrl: string | null;
+  description: string | null;
+  genres: string[];
+  bpm: number | null;
+  key: string | null;
+  enabled: boolean;
+  position: number;
+};
+
+type TrackFormState = {
+  id: string;
+  collectionId: string;
+  title: string;
+  artist: string;
+  duration: string;
+  releaseDate: string;
+  audioUrl: string;
+  artworkUrl: string;
+  description: string;
+  genres: string;
+  bpm: string;
+  key: string;
+  enabled: boolean;
+};
+
+const emptyForm = (collectionId = ''): TrackFormState => ({
+  id: '',
+  collectionId,
+  title: '',
+  artist: 'MetaDJ',
+  duration: '',
+  releaseDate: new Date().toISOString().slice(0, 10),
+  audioUrl: '/api/audio/',
+  artworkUrl: '',
+  description: '',
+  genres: '',
+  bpm: '',
+  key: '',
+  enabled: true,
+});
+
+const toFormState = (track: CatalogTrackRow): TrackFormState => ({
+  id: track.id,
+  collectionId: track.collectionId,
+  title: track.title,
+  artist: track.artist,
+  duration: String(track.duration),
+  releaseDate: track.releaseDate,
+  audioUrl: track.audioUrl,
+  artworkUrl: track.artworkUrl ?? '',
+  description: track.description ?? '',
+  genres: track.genres.join(', '),
+  bpm: track.bpm ? String(track.bpm) : '',
+  key: track.key ?? '',
+  enabled: track.enabled,
+});
+
+const toPayload = (form: TrackFormState) => {
+  const optionalText = (value: string) => value.trim() || undefined;
+  const optionalNumber = (value: string) => (value.trim() ? Number(value) : undefined);
+  return {
+    collectionId: form.collectionId,
+    title: form.title.trim(),
+    artist: form.artist.trim(),
+    duration: Number(form.duration),
+    releaseDate: form.releaseDate,
+    audioUrl: form.audioUrl.trim(),
+    artworkUrl: optionalText(form.artworkUrl),
+    description: optionalText(form.description),
+    genres: form.genres.split(',').map((genre) => genre.trim()).filter(Boolean),
+    bpm: optionalNumber(form.bpm),
+    key: optionalText(form.key),
+    enabled: form.enabled,
+  };
+};
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+const inputClassName =
+  'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-sm text-white placeholder:text-white/30 focus:outline-none focus:border-purple-500/50';
+
+interface CatalogEditorProps {
+  /** Increment to force a reload (dashboard refresh button) */
+  refreshKey?: number;
+}
+
+export function CatalogEditor({ refreshKey = 0 }: CatalogEditorProps) {
+  const [collections, setCollections] = useState<CatalogCollectionRow[]>([]);
+  const [tracks, setTracks] = useState<CatalogTrackRow[]>([]);
+  const [source, setSource] = useState<'static' | 'database'>('static');
+  const [isLoading, setIsLoading] = useState(true);
+  const [message, setMessage] = useState<{ tone: 'success' | 'error'; text: string } | null>(null);
+
+  const [collectionOrder, setCollectionOrder] = useState<string[]>([]);
+  const [collectionFilter, setCollectionFilter] = useState('all');
+  const [editingTrackId, setEditingTrackId] = useState<string | null>(null);
+  const [form, setForm] = useState<TrackFormState | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [audioCheck, setAudioCheck] = useState<CatalogAudioValidation | null>(null);
+  const [isCheckingAudio, setIsCheckingAudio] = useState(false);
+
+  const fetchCatalog = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/admin/catalog');
+      const data = await response.json();
+
+      if (data.success) {
+        setCollections(data.collections);
+        setTracks(data.tracks);
+        setSource(data.source);
+        setCollectionOrder((data.collections as CatalogCollectionRow[]).map((collection) => collection.id));
+      } else {
+        setMessage({ tone: 'error', text: data.message ?? 'Failed to load catalog' });
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to fetch catalog', { error: toErrorMessage(error) });
+      setMessage({ tone: 'error', text: 'Failed to load catalog' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, [fetchCatalog, refreshKey]);
+
+  const collectionsById = useMemo(
+    () => new Map(collections.map((collection) => [collection.id, collection])),
+    [collections]
+  );
+
+  const orderChanged = collectionOrder.some((id, index) => collections[index]?.id !== id);
+
+  const visibleTracks = useMemo(
+    () => (collectionFilter === 'all' ? tracks : tracks.filter((track) => track.collectionId === collectionFilter)),
+    [collectionFilter, tracks]
+  );
+
+  const moveCollection = (index: number, direction: -1 | 1) => {
+    setCollectionOrder((prev) => {
+      const target = index + direction;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const saveCollectionOrder = async () => {
+    try {
+      const response = await fetch('/api/admin/catalog/collections/order', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ collectionIds: collectionOrder }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage({ tone: 'success', text: 'Collection order saved' });
+        fetchCatalog();
+      } else {
+        setMessage({ tone: 'error', text: data.message ?? 'Failed to save order' });
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to reorder collections', { error: toErrorMessage(error) });
+      setMessage({ tone: 'error', text: 'Failed to save order' });
+    }
+  };
+
+  const seedFromBundledCatalog = async () => {
+    if (!confirm('Copy the bundled catalog into the database? Existing rows are kept.')) return;
+
+    try {
+      const response = await fetch('/api/admin/catalog/seed', { method: 'POST' });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage({
+          tone: 'success',
+          text: `Seeded ${data.inserted.collections} collections and ${data.inserted.tracks} tracks`,
+        });
+        fetchCatalog();
+      } else {
+        setMessage({ tone: 'error', text: data.message ?? 'Failed to seed catalog' });
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to seed catalog', { error: toErrorMessage(error) });
+      setMessage({ tone: 'error', text: 'Failed to seed catalog' });
+    }
+  };
+
+  const openCreateForm = () => {
+    setEditingTrackId(null);
+    setForm(emptyForm(collectionFilter !== 'all' ? collectionFilter : collections[0]?.id));
+    setAudioCheck(null);
+  };
+
+  const openEditForm = (track: CatalogTrackRow) => {
+    setEditingTrackId(track.id);
+    setForm(toFormState(track));
+    setAudioCheck(null);
+  };
+
+  const closeForm = () => {
+    setEditingTrackId(null);
+    setForm(null);
+    setAudioCheck(null);
+  };
+
+  const updateForm = <K extends keyof TrackFormState>(field: K, value: TrackFormState[K]) => {
+    setForm((prev) => (prev ? { ...prev, [field]: value } : prev));
+    if (field === 'audioUrl') setAudioCheck(null);
+  };
+
+  const validateAudio = async () => {
+    if (!form) return;
+    setIsCheckingAudio(true);
+    try {
+      const response = await fetch('/api/admin/catalog/validate-audio', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ audioUrl: form.audioUrl.trim() }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setAudioCheck(data.result);
+      } else {
+        setAudioCheck({ valid: false, reason: 'storage_unavailable', message: data.message ?? 'Validation failed' });
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to validate audio', { error: toErrorMessage(error) });
+    } finally {
+      setIsCheckingAudio(false);
+    }
+  };
+
+  const saveTrack = async () => {
+    if (!form) return;
+    setIsSaving(true);
+    try {
+      const payload = toPayload(form);
+      const response = editingTrackId
+        ? await fetch(`/api/admin/catalog/tracks/${encodeURIComponent(editingTrackId)}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(payload),
+          })
+        : await fetch('/api/admin/catalog/tracks', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ ...payload, id: form.id.trim() }),
+          });
+      const data = await response.json();
+
+      if (data.success) {
+        setMessage({ tone: 'success', text: editingTrackId ? 'Track updated' : 'Track created' });
+        closeForm();
+        fetchCatalog();
+      } else {
+        setMessage({ tone: 'error', text: data.message ?? 'Failed to save track' });
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to save track', { error: toErrorMessage(error) });
+      setMessage({ tone: 'error', text: 'Failed to save track' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleTrackEnabled = async (track: CatalogTrackRow) => {
+    try {
+      const response = await fetch(`/api/admin/catalog/tracks/${encodeURIComponent(track.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !track.enabled }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setTracks((prev) => prev.map((item) => (item.id === track.id ? { ...item, enabled: !track.enabled } : item)));
+      } else {
+        setMessage({ tone: 'error', text: data.message ?? 'Failed to update track' });
+      }
+    } catch (error) {
+      logger.error('[Admin] Failed to toggle track', { error: toErrorMessage(error) });
+    }
+  };
+
+  return (
+    <div className="space-y-8">
+      {/* Source + Actions */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Music Catalog</h3>
+          <p className="text-xs text-white/50 mt-1">
+            {source === 'database'
+              ? 'Serving the database catalog (MUSIC_CATALOG_SOURCE=database)'
+              : 'Serving the bundled catalog. Set MUSIC_CATALOG_SOURCE=database to serve these edits.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={seedFromBundledCatalog}
+            className="flex items-center gap-2 px-4 py-2 bg-white/5 border border-white/10 text-white/70 hover:text-white rounded-lg transition-colors text-sm"
+          >
+            <Database className="w-4 h-4" />
+            Seed from bundled catalog
+          </button>
+          <button
+            onClick={openCreateForm}
+            disabled={collections.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-purple-500/20 border border-purple-500/50 text-purple-400 hover:bg-purple-500/30 rounded-lg transition-colors text-sm disabled:opacity-40"
+          >
+            <Plus className="w-4 h-4" />
+            New Track
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div
+          className={`flex items-center justify-between gap-3 p-3 rounded-lg text-sm border ${
+            message.tone === 'success'
+              ? 'bg-green-500/10 border-green-500/40 text-green-400'
+              : 'bg-red-500/10 border-red-500/40 text-red-400'
+          }`}
+        >
+          <span>{message.text}</span>
+          <button onClick={() => setMessage(null)} title="Dismiss">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="text-center py-8 text-white/50">Loading catalog...</div>
+      ) : collections.length === 0 ? (
+        <div className="text-center py-8 text-white/50">
+          The catalog tables are empty. Seed them from the bundled catalog to start editing.
+        </div>
+      ) : (
+        <div className="grid lg:grid-cols-3 gap-6">
+          {/* Collection Order */}
+          <div className="lg:col-span-1 bg-white/5 border border-white/10 rounded-xl overflow-hidden">
+            <div className="p-4 border-b border-white/10 flex items-center justify-between gap-4">
+              <h3 className="text-lg font-semibold text-white">Collections</h3>
+              <button
+                onClick={saveCollectionOrder}
+                disabled={!orderChanged}
+                className="px-3 py-1 text-xs rounded border border-purple-500/50 text-purple-400 hover:bg-purple-500/20 disabled:opacity-40 disabled:hover:bg-transparent"
+              >
+                Save order
+              </button>
+            </div>
+            <div className="divide-y divide-white/10">
+              {collectionOrder.map((id, index) => {
+                const collection = collectionsById.get(id);
+                if (!collection) return null;
+                return (
+                  <div key={id} className="p-3 flex items-center gap-3">
+                    <span className="w-5 text-xs text-white/40 text-center">{index + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <p className={`text-sm font-medium truncate ${collection.enabled ? 'text-white' : 'text-white/40 line-through'}`}>
+                        {collection.title}
+                      </p>
+                      <p className="text-xs text-white/50">
+                        {tracks.filter((track) => track.collectionId === id && track.enabled).length} enabled tracks
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => moveCollection(index, -1)}
+                      disabled={index === 0}
+                      className="p-1.5 hover:bg-white/10 rounded transition-colors text-white/60 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveCollection(index, 1)}
+                      disabled={index === collectionOrder.length - 1}
+                      className="p-1.5 hover:bg-white/10 rounded transition-colors text-white/60 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Tracks */}
+          <div className="lg:col-span-2 bg-white/5 border border-white/10 rounded-xl overflow-hidden">
+            <div className="p-4 border-b border-white/10 flex items-center justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-semibold text-white">Tracks</h3>
+                <p className="text-xs text-white/50 mt-1">{visibleTracks.length} shown</p>
+              </div>
+              <select
+                value={collectionFilter}
+                onChange={(event) => setCollectionFilter(event.target.value)}
+                className="bg-white/5 border border-white/10 rounded-lg px-3 py-1 text-sm text-white"
+              >
+                <option value="all" className="bg-[#0a0a0a]">All collections</option>
+                {collections.map((collection) => (
+                  <option key={collection.id} value={collection.id} className="bg-[#0a0a0a]">
+                    {collection.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="max-h-[600px] overflow-y-auto divide-y divide-white/10">
+              {visibleTracks.map((track) => (
+                <div key={track.id} className="p-3 flex items-center gap-3 hover:bg-white/5 transition-colors">
+                  <div className="flex-1 min-w-0">
+                    <p className={`text-sm font-medium truncate ${track.enabled ? 'text-white' : 'text-white/40 line-through'}`}>
+                      {track.title}
+                    </p>
+                    <p className="text-xs text-white/50 truncate">
+                      {collectionsById.get(track.collectionId)?.title ?? track.collectionId} • {formatDuration(track.duration)}
+                      {track.bpm ? ` • ${track.bpm} BPM` : ''}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => toggleTrackEnabled(track)}
+                    className="p-1.5 hover:bg-white/10 rounded transition-colors text-white/60"
+                    title={track.enabled ? 'Disable track' : 'Enable track'}
+                  >
+                    {track.enabled ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                  </button>
+                  <button
+                    onClick={() => openEditForm(track)}
+                    className="p-1.5 hover:bg-white/10 rounded transition-colors text-white/60"
+                    title="Edit track"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Track Form */}
+      {form && (
+        <div className="bg-white/5 border border-white/10 rounded-xl overflow-hidden">
+          <div className="p-4 border-b border-white/10 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-white">
+              {editingTrackId ? `Edit ${editingTrackId}` : 'New Track'}
+            </h3>
+            <button onClick={closeForm} className="p-2 hover:bg-white/10 rounded-lg transition-colors text-white/60" title="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="p-6 grid md:grid-cols-2 gap-4">
+            {!editingTrackId && (
+              <label className="block text-sm text-white/70">
+                ID
+                <input
+                  value={form.id}
+                  onChange={(event) => updateForm('id', event.target.value)}
+                  placeholder="majestic-ascent-011"
+                  className={`${inputClassName} mt-1`}
+                />
+              </label>
+            )}
+            <label className="block text-sm text-white/70">
+              Collection
+              <select
+                value={form.collectionId}
+                onChange={(event) => updateForm('collectionId', event.target.value)}
+                className={`${inputClassName} mt-1`}
+              >
+                {collections.map((collection) => (
+                  <option key={collection.id} value={collection.id} className="bg-[#0a0a0a]">
+                    {collection.title}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm text-white/70">
+              Title
+              <input value={form.title} onChange={(event) => updateForm('title', event.target.value)} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block text-sm text-white/70">
+              Artist
+              <input value={form.artist} onChange={(event) => updateForm('artist', event.target.value)} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block text-sm text-white/70">
+              Duration (seconds)
+              <input
+                type="number"
+                min={1}
+                value={form.duration}
+                onChange={(event) => updateForm('duration', event.target.value)}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-white/70">
+              Release date
+              <input
+                type="date"
+                value={form.releaseDate}
+                onChange={(event) => updateForm('releaseDate', event.target.value)}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <div className="md:col-span-2">
+              <label className="block text-sm text-white/70">
+                Audio URL
+                <div className="mt-1 flex gap-2">
+                  <input value={form.audioUrl} onChange={(event) => updateForm('audioUrl', event.target.value)} className={inputClassName} />
+                  <button
+                    onClick={validateAudio}
+                    disabled={isCheckingAudio}
+                    className="shrink-0 px-3 py-2 text-sm rounded-lg border border-white/10 text-white/70 hover:text-white disabled:opacity-40"
+                  >
+                    {isCheckingAudio ? 'Checking...' : 'Validate'}
+                  </button>
+                </div>
+              </label>
+              {audioCheck && (
+                <p className={`mt-2 flex items-center gap-1.5 text-xs ${audioCheck.valid ? 'text-green-400' : 'text-red-400'}`}>
+                  {audioCheck.valid ? <CheckCircle className="w-3.5 h-3.5" /> : <AlertCircle className="w-3.5 h-3.5" />}
+                  {audioCheck.valid
+                    ? `Found in R2${audioCheck.size ? ` (${(audioCheck.size / (1024 * 1024)).toFixed(1)} MB)` : ''}`
+                    : audioCheck.message}
+                </p>
+              )}
+            </div>
+            <label className="block text-sm text-white/70">
+              Genres (exactly two, comma-separated)
+              <input
+                value={form.genres}
+                onChange={(event) => updateForm('genres', event.target.value)}
+                placeholder="Orchestral, Cinematic"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-white/70">
+              Artwork URL
+              <input value={form.artworkUrl} onChange={(event) => updateForm('artworkUrl', event.target.value)} className={`${inputClassName} mt-1`} />
+            </label>
+            <label className="block text-sm text-white/70">
+              BPM
+              <input
+                type="number"
+                min={1}
+                value={form.bpm}
+                onChange={(event) => updateForm('bpm', event.target.value)}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-white/70">
+              Key
+              <input
+                value={form.key}
+                onChange={(event) => updateForm('key', event.target.value)}
+                placeholder="C minor"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-white/70 md:col-span-2">
+              Description
+              <textarea
+                value={form.description}
+                onChange={(event) => updateForm('description', event.target.value)}
+                rows={3}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-white/70">
+              <input type="checkbox" checked={form.enabled} onChange={(event) => updateForm('enabled', event.target.checked)} />
+              Enabled
+            </label>
+            <div className="md:col-span-2 flex justify-end gap-2">
+              <button
+                onClick={closeForm}
+                className="px-4 py-2 text-sm rounded-lg border border-white/10 text-white/60 hover:text-white"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveTrack}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm rounded-lg bg-purple-500/20 border border-purple-500/50 text-purple-400 hover:bg-purple-500/30 disabled:opacity-40"
+              >
+                {isSaving ? 'Saving...' : editingTrackId ? 'Save Changes' : 'Create Track'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
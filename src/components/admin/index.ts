@@ -1 +1,2 @@
 export { AdminDashboard } from './AdminDashboard';
+export { CatalogEditor } from './CatalogEditor';
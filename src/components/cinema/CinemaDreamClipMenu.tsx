@@ -0,0 +1,174 @@
+"use client"
+
+import { useState, useRef } from "react"
+import { ChevronDown, Circle, Download, FileJson, Film, Square, X } from "lucide-react"
+import { Button } from "@/components/ui/Button"
+import { ShareButton } from "@/components/ui/ShareButton"
+import { useClickAway } from "@/hooks"
+import { DREAM_CLIP_BUFFER_OPTIONS, DREAM_CLIP_MAX_SECONDS } from "@/lib/daydream/clip-recording"
+import type { UseDreamClipRecorderReturn } from "@/hooks/dream/use-dream-clip-recorder"
+import type { Track } from "@/types"
+
+interface CinemaDreamClipMenuProps {
+  clipRecorder: UseDreamClipRecorderReturn
+  currentTrack: Track | null
+}
+
+const sectionLabelClassName = "mb-1.5 text-[10px] font-semibold uppercase tracking-[0.2em] text-(--text-secondary)"
+
+const toggleClassName = (active: boolean) =>
+  `flex-1 rounded-lg px-2 py-1 text-xs transition ${active ? "bg-white/15 text-white" : "text-white/60 hover:bg-white/10 hover:text-white"}`
+
+/**
+ * CinemaDreamClipMenu - Record Dream clips and download or share them
+ *
+ * Capture is off until armed. Rolling mode then keeps the last N seconds ready
+ * to save; manual mode records between start and stop. Each clip comes with a JSON log of the prompts used,
+ * and the share button next to the menu offers the last clip.
+ */
+export function CinemaDreamClipMenu({ clipRecorder, currentTrack }: CinemaDreamClipMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useClickAway(menuRef, () => setIsOpen(false), { enabled: isOpen })
+
+  const {
+    canRecord,
+    mode,
+    setMode,
+    bufferSeconds,
+    setBufferSeconds,
+    isRecording,
+    startRecording,
+    stopRecording,
+    saveRollingClip,
+    clip,
+    clearClip,
+    downloadClip,
+    downloadSidecar,
+    error,
+  } = clipRecorder
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    await (mode === "rolling" ? saveRollingClip() : stopRecording())
+    setIsSaving(false)
+  }
+
+  return (
+    <div className="flex items-center gap-1">
+      <div ref={menuRef} className="relative">
+        <Button
+          onClick={() => setIsOpen(!isOpen)}
+          variant="secondary"
+          size="sm"
+          className="gap-2 rounded-full border-white/30 bg-black/50 px-3 py-1.5 text-[11px] uppercase tracking-[0.2em] text-white hover:bg-black/40 hover:border-white/50 backdrop-blur-md"
+          leftIcon={<Film className="h-3 w-3" />}
+          rightIcon={<ChevronDown className={`h-3 w-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />}
+          aria-expanded={isOpen}
+        >
+          <span className="hidden sm:inline">Clip</span>
+          {isRecording && (
+            <span className="h-1.5 w-1.5 rounded-full bg-red-500 animate-pulse" aria-label="Recording" />
+          )}
+        </Button>
+
+        {isOpen && (
+          <div className="absolute left-1/2 top-full z-50 mt-2 w-72 -translate-x-1/2 space-y-4 rounded-xl border border-(--border-elevated) bg-(--bg-surface-elevated)/95 p-3 text-white shadow-xl backdrop-blur-xl">
+            {!canRecord ? (
+              <p className="text-xs text-white/60">
+                Clips need a browser that records WebM, and a Dream output played in this page. The hosted Livepeer player can&apos;t be captured.
+              </p>
+            ) : (
+              <>
+                {/* Mode */}
+                <div>
+                  <p className={sectionLabelClassName}>Capture</p>
+                  <div className="flex gap-1 rounded-lg bg-black/30 p-1">
+                    <button type="button" onClick={() => setMode("idle")} className={toggleClassName(mode === "idle")} aria-pressed={mode === "idle"}>
+                      Off
+                    </button>
+                    <button type="button" onClick={() => setMode("rolling")} className={toggleClassName(mode === "rolling")} aria-pressed={mode === "rolling"}>
+                      Rolling buffer
+                    </button>
+                    <button type="button" onClick={() => setMode("manual")} className={toggleClassName(mode === "manual")} aria-pressed={mode === "manual"}>
+                      Start / stop
+                    </button>
+                  </div>
+                </div>
+
+                {mode === "idle" ? (
+                  <p className="text-[10px] text-white/40">
+                    Rolling buffer records in the background so you can save what just happened.
+                  </p>
+                ) : mode === "rolling" ? (
+                  <div>
+                    <p className={sectionLabelClassName}>Keep the last</p>
+                    <div className="mb-2 flex gap-1">
+                      {DREAM_CLIP_BUFFER_OPTIONS.map((seconds) => (
+                        <button
+                          key={seconds}
+                          type="button"
+                          onClick={() => setBufferSeconds(seconds)}
+                          className={toggleClassName(bufferSeconds === seconds)}
+                          aria-pressed={bufferSeconds === seconds}
+                        >
+                          {seconds}s
+                        </button>
+                      ))}
+                    </div>
+                    <Button onClick={() => void handleSave()} disabled={isSaving} variant="secondary" size="sm" className="w-full text-xs" leftIcon={<Film className="h-3 w-3" />}>
+                      {isSaving ? "Saving..." : `Save last ${bufferSeconds}s`}
+                    </Button>
+                  </div>
+                ) : (
+                  <div>
+                    {isRecording ? (
+                      <Button onClick={() => void handleSave()} disabled={isSaving} variant="secondary" size="sm" className="w-full text-xs" leftIcon={<Square className="h-3 w-3" />}>
+                        {isSaving ? "Saving..." : "Stop & save"}
+                      </Button>
+                    ) : (
+                      <Button onClick={startRecording} variant="secondary" size="sm" className="w-full text-xs" leftIcon={<Circle className="h-3 w-3 text-red-400" />}>
+                        Start recording
+                      </Button>
+                    )}
+                    <p className="mt-1 text-[10px] text-white/40">Stops on its own after {DREAM_CLIP_MAX_SECONDS / 60} minutes.</p>
+                  </div>
+                )}
+              </>
+            )}
+
+            {error && <p className="text-xs text-red-300">{error}</p>}
+
+            {/* Last clip */}
+            {clip && (
+              <div>
+                <div className="mb-1.5 flex items-center justify-between">
+                  <p className={sectionLabelClassName}>Last clip · {clip.sidecar.durationSeconds}s</p>
+                  <button type="button" onClick={clearClip} className="rounded p-1 text-white/50 hover:bg-white/10 hover:text-white" aria-label="Discard clip" title="Discard clip">
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+                <p className="mb-2 truncate text-[10px] text-white/40" title={clip.file.name}>{clip.file.name}</p>
+                <div className="flex items-center gap-2">
+                  <Button onClick={downloadClip} variant="secondary" size="sm" className="h-auto flex-1 px-2.5 py-1.5 text-xs" leftIcon={<Download className="h-3 w-3" />}>
+                    WebM
+                  </Button>
+                  <Button onClick={downloadSidecar} variant="secondary" size="sm" className="h-auto flex-1 px-2.5 py-1.5 text-xs" leftIcon={<FileJson className="h-3 w-3" />}>
+                    Prompts
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Outside the dropdown so the share menu stays mounted when the dropdown closes */}
+      {clip && (
+        <ShareButton track={currentTrack ?? undefined} clip={{ file: clip.file, title: clip.title }} size="sm" className="bg-black/50 backdrop-blur-md" />
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,11 @@ import { useState, useRef } from "react"
 import { Sparkles, Hourglass, X, ChevronDown, Monitor, Minimize, Maximize, LayoutTemplate, AlignCenter, ArrowDown, ArrowDownLeft, ArrowDownRight, User, Eye, EyeOff } from "lucide-react"
 import { Button } from "@/components/ui/Button"
 import { useResponsivePanels, useClickAway } from "@/hooks"
+import { CinemaDreamClipMenu } from "./CinemaDreamClipMenu"
+import { CinemaDreamPromptMenu } from "./CinemaDreamPromptMenu"
+import type { UseDreamClipRecorderReturn } from "@/hooks/dream/use-dream-clip-recorder"
+import type { UseDreamPromptDirectorReturn } from "@/hooks/dream/use-dream-prompt-director"
+import type { Track } from "@/types"
 import type { DaydreamPresentation, DaydreamStatus } from "@/types/daydream.types"
 
 interface CinemaDreamControlsProps {
@@ -21,6 +26,13 @@ interface CinemaDreamControlsProps {
   onPresentationChange: (presentation: DaydreamPresentation) => void
   /** Force re-sync the current prompt (used when selecting the same persona) */
   onForceSync?: () => void
+  promptBase: string
+  onPromptBaseChange: (promptBase: string) => void
+  /** Timeline and audio-reactive controls for the prompt menu */
+  promptDirector: UseDreamPromptDirectorReturn
+  /** Clip recording state for the clip menu */
+  clipRecorder: UseDreamClipRecorderReturn
+  currentTrack: Track | null
   isOverlayHidden: boolean
   onOverlayHiddenChange: (hidden: boolean) => void
   /** When true, only show Dream button and status - no settings controls */
@@ -50,6 +62,11 @@ export function CinemaDreamControls({
   presentation,
   onPresentationChange,
   onForceSync,
+  promptBase,
+  onPromptBaseChange,
+  promptDirector,
+  clipRecorder,
+  currentTrack,
   isOverlayHidden,
   onOverlayHiddenChange,
   compactMode = false,
@@ -89,6 +106,18 @@ export function CinemaDreamControls({
     setIsPositionMenuOpen(false)
   }
 
+  const promptMenu = (
+    <CinemaDreamPromptMenu
+      presentation={presentation}
+      onPresentationChange={onPresentationChange}
+      promptBase={promptBase}
+      onPromptBaseChange={onPromptBaseChange}
+      promptDirector={promptDirector}
+    />
+  )
+
+  const clipMenu = <CinemaDreamClipMenu clipRecorder={clipRecorder} currentTrack={currentTrack} />
+
   // settingsOnly mode: only render settings controls
   if (settingsOnly) {
     const isDreamActive = dreamStatus.status === "streaming" || dreamStatus.status === "connecting"
@@ -123,6 +152,10 @@ export function CinemaDreamControls({
           )}
         </div>
 
+        {promptMenu}
+
+        {clipMenu}
+
         {/* Position Dropdown - Desktop */}
         {shouldUseSidePanels && (
           <div ref={positionRef} className="relative">
@@ -239,6 +272,10 @@ export function CinemaDreamControls({
             )}
           </div>
 
+          {promptMenu}
+
+          {clipMenu}
+
           {/* Position Dropdown (Desktop Only) */}
           {shouldUseSidePanels && (
             <div ref={positionRef} className="relative hidden md:block">
@@ -0,0 +1,56 @@
+"use client"
+
+/**
+ * Cinema Dream Mock Playback
+ *
+ * Plays the synthetic Dream output of the in-page mock WHIP server
+ * (`DAYDREAM_BACKEND=mock`) in place of the Livepeer player.
+ */
+
+import { forwardRef, useEffect, useImperativeHandle, useRef } from "react"
+import { getMockWhipStreamId } from "@/lib/daydream/mock-stream"
+import { getMockWhipServer } from "@/lib/streaming/mock-whip-server"
+
+interface CinemaDreamMockPlaybackProps {
+  /** `mock-whip:` playback URL from the mock stream */
+  playbackUrl: string
+}
+
+export const CinemaDreamMockPlayback = forwardRef<HTMLVideoElement, CinemaDreamMockPlaybackProps>(function CinemaDreamMockPlayback({ playbackUrl }, ref) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  // Exposed for clip recording
+  useImperativeHandle(ref, () => videoRef.current as HTMLVideoElement, [])
+
+  useEffect(() => {
+    const streamId = getMockWhipStreamId(playbackUrl)
+    if (!streamId) return
+
+    const server = getMockWhipServer()
+    const attach = () => {
+      const video = videoRef.current
+      const output = server.getOutputStream(streamId)
+      if (!video || video.srcObject === output) return
+      video.srcObject = output
+      if (output) {
+        void video.play().catch(() => {
+          // Muted autoplay can still be refused; the next output change retries
+        })
+      }
+    }
+
+    attach()
+    return server.subscribe(attach)
+  }, [playbackUrl])
+
+  return (
+    <video
+      ref={videoRef}
+      aria-label="Dream Visual"
+      autoPlay
+      muted
+      playsInline
+      className="h-full w-full object-cover pointer-events-none"
+    />
+  )
+})
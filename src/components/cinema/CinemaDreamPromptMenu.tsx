@@ -0,0 +1,330 @@
+"use client"
+
+import { useState, useRef } from "react"
+import { AudioWaveform, ChevronDown, ChevronUp, ListOrdered, Play, Plus, Save, Square, Trash2, WandSparkles, X } from "lucide-react"
+import { Button } from "@/components/ui/Button"
+import { useClickAway } from "@/hooks"
+import { useDreamPromptPresets } from "@/hooks/dream/use-dream-prompt-presets"
+import { DREAM_PROMPT_BASE_MAX_LENGTH, DREAM_PROMPT_PRESET_MAX, DREAM_PROMPT_PRESET_NAME_MAX_LENGTH } from "@/lib/daydream/prompt-presets"
+import { DREAM_TIMELINE_MAX_STEPS, DREAM_TIMELINE_MIN_HOLD_SECONDS } from "@/lib/daydream/prompt-timeline"
+import type { UseDreamPromptDirectorReturn } from "@/hooks/dream/use-dream-prompt-director"
+import type { DaydreamPresentation } from "@/types/daydream.types"
+
+interface CinemaDreamPromptMenuProps {
+  presentation: DaydreamPresentation
+  onPresentationChange: (presentation: DaydreamPresentation) => void
+  promptBase: string
+  onPromptBaseChange: (promptBase: string) => void
+  promptDirector: UseDreamPromptDirectorReturn
+}
+
+const PRESENTATION_LABELS: Record<DaydreamPresentation, string> = {
+  androgynous: "Neutral",
+  female: "Female",
+  male: "Male",
+}
+
+/** Hold times offered per timeline step (seconds) */
+const HOLD_OPTIONS = [DREAM_TIMELINE_MIN_HOLD_SECONDS, 15, 20, 30, 45, 60, 90, 120, 180, 300]
+
+const formatHold = (seconds: number) => (seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${seconds % 60 ? ` ${seconds % 60}s` : ""}`)
+
+const inputClassName =
+  "min-w-0 flex-1 rounded-lg border border-white/15 bg-black/40 px-2.5 py-1.5 text-xs text-white placeholder:text-white/40 focus:border-purple-400/60 focus:outline-none"
+
+const sectionLabelClassName = "mb-1.5 text-[10px] font-semibold uppercase tracking-[0.2em] text-(--text-secondary)"
+
+/**
+ * CinemaDreamPromptMenu - Dream prompt editing, saved presets, timeline, and audio-reactive toggle
+ *
+ * Presets are saved per signed-in user. The timeline steps through prompts on a
+ * timer or at track changes; audio-reactive mode blends accents driven by the music.
+ */
+export function CinemaDreamPromptMenu({
+  presentation,
+  onPresentationChange,
+  promptBase,
+  onPromptBaseChange,
+  promptDirector,
+}: CinemaDreamPromptMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [draftPrompt, setDraftPrompt] = useState(promptBase)
+  const [presetName, setPresetName] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+  const { presets, isLoading, error, savePreset, deletePreset } = useDreamPromptPresets(isOpen)
+
+  useClickAway(menuRef, () => setIsOpen(false), { enabled: isOpen })
+
+  const {
+    timeline,
+    setTimelineMode,
+    addTimelineStep,
+    removeTimelineStep,
+    moveTimelineStep,
+    setTimelineStepHold,
+    clearTimeline,
+    isTimelineRunning,
+    activeStepIndex,
+    startTimeline,
+    stopTimeline,
+    isReactive,
+    setReactive,
+  } = promptDirector
+
+  const handleToggle = () => {
+    if (!isOpen) setDraftPrompt(promptBase)
+    setIsOpen(!isOpen)
+  }
+
+  const handleApplyPrompt = () => {
+    const next = draftPrompt.trim()
+    if (next && next !== promptBase) onPromptBaseChange(next)
+  }
+
+  const handleSavePreset = async () => {
+    const name = presetName.trim()
+    if (!name) return
+    setIsSaving(true)
+    const saved = await savePreset(name, promptBase, presentation)
+    setIsSaving(false)
+    if (saved) setPresetName("")
+  }
+
+  const handleApplyPreset = (preset: { promptBase: string; presentation: DaydreamPresentation }) => {
+    setDraftPrompt(preset.promptBase)
+    if (preset.presentation !== presentation) onPresentationChange(preset.presentation)
+    onPromptBaseChange(preset.promptBase)
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        onClick={handleToggle}
+        variant="secondary"
+        size="sm"
+        className="gap-2 rounded-full border-white/30 bg-black/50 px-3 py-1.5 text-[11px] uppercase tracking-[0.2em] text-white hover:bg-black/40 hover:border-white/50 backdrop-blur-md"
+        leftIcon={<WandSparkles className="h-3 w-3" />}
+        rightIcon={<ChevronDown className={`h-3 w-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />}
+        aria-expanded={isOpen}
+      >
+        <span className="hidden sm:inline">Prompt</span>
+        {(isTimelineRunning || isReactive) && (
+          <span className="h-1.5 w-1.5 rounded-full bg-purple-400" aria-label="Prompt automation on" />
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-1/2 top-full z-50 mt-2 max-h-[70vh] w-80 -translate-x-1/2 space-y-4 overflow-y-auto rounded-xl border border-(--border-elevated) bg-(--bg-surface-elevated)/95 p-3 text-white shadow-xl backdrop-blur-xl">
+          {/* Prompt */}
+          <div>
+            <p className={sectionLabelClassName}>Prompt</p>
+            <div className="flex gap-2">
+              <input
+                value={draftPrompt}
+                onChange={(event) => setDraftPrompt(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") handleApplyPrompt()
+                }}
+                maxLength={DREAM_PROMPT_BASE_MAX_LENGTH}
+                placeholder="Describe the Dream"
+                aria-label="Dream prompt"
+                className={inputClassName}
+              />
+              <Button onClick={handleApplyPrompt} variant="secondary" size="sm" className="h-auto px-2.5 py-1.5 text-xs">
+                Apply
+              </Button>
+            </div>
+            <p className="mt-1 text-[10px] text-white/40">Sent as “{PRESENTATION_LABELS[presentation].toLowerCase()}” persona + prompt</p>
+          </div>
+
+          {/* Presets */}
+          <div>
+            <p className={sectionLabelClassName}>Saved presets</p>
+            {isLoading ? (
+              <p className="text-xs text-white/50">Loading presets...</p>
+            ) : presets === null ? (
+              <p className="text-xs text-white/50">Sign in to save prompt presets.</p>
+            ) : (
+              <>
+                {presets.length === 0 ? (
+                  <p className="mb-2 text-xs text-white/50">No saved presets yet.</p>
+                ) : (
+                  <ul className="mb-2 space-y-1">
+                    {presets.map((preset) => (
+                      <li key={preset.id} className="flex items-center gap-1">
+                        <button
+                          type="button"
+                          onClick={() => handleApplyPreset(preset)}
+                          className="min-w-0 flex-1 rounded-lg px-2 py-1 text-left text-xs hover:bg-white/10"
+                          title={`${PRESENTATION_LABELS[preset.presentation]} · ${preset.promptBase}`}
+                        >
+                          <span className="block truncate text-white">{preset.name}</span>
+                          <span className="block truncate text-[10px] text-white/40">{preset.promptBase}</span>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => addTimelineStep(preset.promptBase, preset.presentation)}
+                          disabled={timeline.steps.length >= DREAM_TIMELINE_MAX_STEPS}
+                          className="rounded p-1 text-white/50 hover:bg-white/10 hover:text-white disabled:opacity-30"
+                          aria-label={`Add ${preset.name} to timeline`}
+                          title="Add to timeline"
+                        >
+                          <Plus className="h-3 w-3" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => void deletePreset(preset.id)}
+                          className="rounded p-1 text-white/50 hover:bg-red-500/20 hover:text-red-300"
+                          aria-label={`Delete ${preset.name}`}
+                          title="Delete preset"
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <div className="flex gap-2">
+                  <input
+                    value={presetName}
+                    onChange={(event) => setPresetName(event.target.value)}
+                    onKeyDown={(event) => {
+                      if (event.key === "Enter") void handleSavePreset()
+                    }}
+                    maxLength={DREAM_PROMPT_PRESET_NAME_MAX_LENGTH}
+                    placeholder="Name the current prompt"
+                    aria-label="Preset name"
+                    className={inputClassName}
+                  />
+                  <Button
+                    onClick={() => void handleSavePreset()}
+                    disabled={isSaving || !presetName.trim() || presets.length >= DREAM_PROMPT_PRESET_MAX}
+                    variant="secondary"
+                    size="sm"
+                    className="h-auto px-2.5 py-1.5 text-xs"
+                    leftIcon={<Save className="h-3 w-3" />}
+                  >
+                    Save
+                  </Button>
+                </div>
+              </>
+            )}
+            {error && <p className="mt-1 text-[11px] text-red-300">{error}</p>}
+          </div>
+
+          {/* Timeline */}
+          <div>
+            <div className="mb-1.5 flex items-center justify-between">
+              <p className={`${sectionLabelClassName} mb-0 flex items-center gap-1.5`}>
+                <ListOrdered className="h-3 w-3" />
+                Timeline
+              </p>
+              <div className="flex overflow-hidden rounded-full border border-white/15 text-[10px]">
+                {(["time", "track"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    type="button"
+                    onClick={() => setTimelineMode(mode)}
+                    className={`px-2 py-0.5 ${timeline.mode === mode ? "bg-white/15 text-white" : "text-white/50 hover:text-white"}`}
+                    aria-pressed={timeline.mode === mode}
+                  >
+                    {mode === "time" ? "Timed" : "Each track"}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {timeline.steps.length === 0 ? (
+              <p className="mb-2 text-xs text-white/50">Add prompts to step through them while Dream runs.</p>
+            ) : (
+              <ol className="mb-2 space-y-1">
+                {timeline.steps.map((step, index) => (
+                  <li
+                    key={step.id}
+                    className={`flex items-center gap-1 rounded-lg px-1.5 py-1 text-xs ${activeStepIndex === index ? "bg-purple-500/25" : "bg-white/5"}`}
+                  >
+                    <span className="w-4 shrink-0 text-right text-[10px] text-white/40">{index + 1}</span>
+                    <span className="min-w-0 flex-1 truncate" title={`${PRESENTATION_LABELS[step.presentation]} · ${step.promptBase}`}>
+                      {step.promptBase}
+                    </span>
+                    {timeline.mode === "time" && (
+                      <select
+                        value={step.holdSeconds}
+                        onChange={(event) => setTimelineStepHold(step.id, Number(event.target.value))}
+                        className="rounded border border-white/15 bg-black/40 px-1 py-0.5 text-[11px] text-white"
+                        aria-label={`Hold time for step ${index + 1}`}
+                      >
+                        {(HOLD_OPTIONS.includes(step.holdSeconds) ? HOLD_OPTIONS : [...HOLD_OPTIONS, step.holdSeconds].sort((a, b) => a - b)).map((seconds) => (
+                          <option key={seconds} value={seconds} className="bg-[#0a0a0a]">
+                            {formatHold(seconds)}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button type="button" onClick={() => moveTimelineStep(step.id, -1)} disabled={index === 0} className="rounded p-0.5 text-white/50 hover:text-white disabled:opacity-30" aria-label={`Move step ${index + 1} up`}>
+                      <ChevronUp className="h-3 w-3" />
+                    </button>
+                    <button type="button" onClick={() => moveTimelineStep(step.id, 1)} disabled={index === timeline.steps.length - 1} className="rounded p-0.5 text-white/50 hover:text-white disabled:opacity-30" aria-label={`Move step ${index + 1} down`}>
+                      <ChevronDown className="h-3 w-3" />
+                    </button>
+                    <button type="button" onClick={() => removeTimelineStep(step.id)} className="rounded p-0.5 text-white/50 hover:text-red-300" aria-label={`Remove step ${index + 1}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button
+                onClick={() => addTimelineStep(promptBase, presentation)}
+                disabled={timeline.steps.length >= DREAM_TIMELINE_MAX_STEPS}
+                variant="secondary"
+                size="sm"
+                className="h-auto px-2.5 py-1 text-xs"
+                leftIcon={<Plus className="h-3 w-3" />}
+              >
+                Current prompt
+              </Button>
+              <Button
+                onClick={isTimelineRunning ? stopTimeline : startTimeline}
+                disabled={!isTimelineRunning && timeline.steps.length === 0}
+                variant="secondary"
+                size="sm"
+                className="h-auto px-2.5 py-1 text-xs"
+                leftIcon={isTimelineRunning ? <Square className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+              >
+                {isTimelineRunning ? "Stop" : "Start"}
+              </Button>
+              {timeline.steps.length > 0 && (
+                <Button onClick={clearTimeline} variant="ghost" size="sm" className="h-auto px-2.5 py-1 text-xs text-white/60">
+                  Clear
+                </Button>
+              )}
+            </div>
+          </div>
+
+          {/* Audio-reactive */}
+          <label className="flex cursor-pointer items-start gap-2 rounded-lg bg-white/5 p-2">
+            <input
+              type="checkbox"
+              checked={isReactive}
+              onChange={(event) => setReactive(event.target.checked)}
+              className="mt-0.5 accent-purple-500"
+            />
+            <span>
+              <span className="flex items-center gap-1.5 text-xs text-white">
+                <AudioWaveform className="h-3 w-3" />
+                Audio reactive
+              </span>
+              <span className="block text-[10px] text-white/50">
+                Bass, mids, and highs blend accents into the prompt and nudge the seed.
+              </span>
+            </span>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
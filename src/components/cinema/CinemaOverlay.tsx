@@ -9,19 +9,26 @@ import {
   SCENES,
   VISUALIZER_SCENES,
   isVisualizer,
-  type Scene
+  type Scene,
+  type SceneId,
 } from "@/data/scenes"
 import { useAudioAnalyzer } from "@/hooks/audio/use-audio-analyzer"
+import { useBeatTracker } from "@/hooks/audio/use-beat-tracker"
 import { useCinemaFullscreen } from "@/hooks/cinema/use-cinema-fullscreen"
 import { useCinemaScene } from "@/hooks/cinema/use-cinema-scene"
+import { useVisualizerPresets } from "@/hooks/cinema/use-visualizer-presets"
 import { useWebcamCapture } from "@/hooks/cinema/use-webcam-capture"
+import { useDreamClipRecorder } from "@/hooks/dream/use-dream-clip-recorder"
 import { useCspStyle } from "@/hooks/use-csp-style"
 import { useResponsivePanels } from "@/hooks/use-responsive-panels"
 import { trackDreamToggled, trackSceneChanged } from "@/lib/analytics"
 import { buildVideoSources } from "@/lib/cinema/video-utils"
+import { isMockWhipUrl } from "@/lib/daydream/mock-stream"
 import { logger } from "@/lib/logger"
+import { getVisualizerScene } from "@/lib/visualizers/presets"
 import { combineSeeds } from "@/lib/visualizers/seed"
 import { CinemaDreamControls } from "./CinemaDreamControls"
+import { CinemaDreamMockPlayback } from "./CinemaDreamMockPlayback"
 import { CinemaSceneSelector } from "./CinemaSceneSelector"
 import {
   CinemaVideoError,
@@ -30,9 +37,12 @@ import {
   CinemaWebcamError,
   CinemaWebGLContextLoss,
 } from "./CinemaStateOverlays"
+import { CinemaVisualizerEditor } from "./CinemaVisualizerEditor"
 import { VisualizerCinema } from "./VisualizerCinema"
+import type { UseDreamPromptDirectorReturn } from "@/hooks/dream/use-dream-prompt-director"
 import type { Track } from "@/types"
 import type { DaydreamPresentation, DaydreamStatus } from "@/types/daydream.types"
+import type { VisualizerPreset } from "@/types/visualizer.types"
 
 interface CinemaOverlayProps {
   // Cinema state
@@ -57,6 +67,9 @@ interface CinemaOverlayProps {
     setPresentation: (next: DaydreamPresentation) => void
     promptBase: string
     setPromptBase: (next: string) => void
+    promptDirector: UseDreamPromptDirectorReturn
+    /** Composed prompt currently requested (logged for clip sidecars) */
+    prompt: string
     // null = unknown, true = PATCH works, false = changes require restart
     patchSupported: boolean | null
   }
@@ -82,6 +95,10 @@ interface CinemaOverlayProps {
   retryVideo: () => void
   resetControlsTimer: () => void
   hideControlsImmediately: () => void
+
+  // MetaDJai scene request (cleared once applied)
+  sceneRequest?: SceneId | null
+  onSceneRequestHandled?: () => void
 }
 
 /**
@@ -131,6 +148,8 @@ export function CinemaOverlay({
   hideControlsImmediately,
   dream,
   posterOnly,
+  sceneRequest = null,
+  onSceneRequestHandled,
 }: CinemaOverlayProps) {
   const { shouldUseSidePanels } = useResponsivePanels()
   // 3D visualizers are now available on all devices including mobile
@@ -160,6 +179,11 @@ export function CinemaOverlay({
     selectedCollectionId: selectedCollection,
   })
 
+  // User-authored visualizer presets and live parameter edits
+  const visualizerPresets = useVisualizerPresets({ enabled, selectedScene })
+  const { applyPreset, clearPreset } = visualizerPresets
+  const currentVisualizerScene = getVisualizerScene(currentScene.id)
+
   // Fullscreen management (browser API, focus, keyboard)
   const { handleFullscreenToggle } = useCinemaFullscreen({
     isFullscreen,
@@ -224,6 +248,8 @@ export function CinemaOverlay({
     setPresentation: setDreamPresentation,
     promptBase: dreamPromptBase,
     setPromptBase: setDreamPromptBase,
+    promptDirector: dreamPromptDirector,
+    prompt: dreamPrompt,
     patchSupported: dreamPatchSupported,
   } = dream
 
@@ -296,6 +322,34 @@ export function CinemaOverlay({
     smoothingTimeConstant: 0.8,
   })
 
+  // Beat clock for visualizers: hits land on the kick instead of the smoothed bass
+  // (seeded with the track's BPM when known)
+  const beatRef = useBeatTracker({
+    audioRef,
+    enabled: enabled && isVisualizerScene && playerAudioElement !== null,
+    bpm: currentTrack?.bpm,
+  })
+
+  // Feed band levels to the Dream prompt director (audio-reactive mode samples this ref)
+  const dreamAudioLevelsRef = dreamPromptDirector.audioLevelsRef
+  useEffect(() => {
+    dreamAudioLevelsRef.current = {
+      bass: analyzerData.bassLevel,
+      mid: analyzerData.midLevel,
+      high: analyzerData.highLevel,
+    }
+  }, [analyzerData.bassLevel, analyzerData.midLevel, analyzerData.highLevel, dreamAudioLevelsRef])
+
+  // Dream clip recording (only <video> outputs register an element; the Livepeer iframe can't be captured)
+  const [dreamVideoElement, setDreamVideoElement] = useState<HTMLVideoElement | null>(null)
+  const dreamClipRecorder = useDreamClipRecorder({
+    videoElement: dreamVideoElement,
+    audioElement: playerAudioElement,
+    isActive: dreamStatus.status === "streaming",
+    prompt: dreamPrompt,
+    track: currentTrack,
+  })
+
   // Track the shared audio element for the analyzer.
   // audioRef is stable (never changes), so we poll until the element is available.
   // This ensures the analyzer gets the real audio element once PlayerContext mounts it.
@@ -575,6 +629,31 @@ export function CinemaOverlay({
     }
   }, [baseHandleSceneSelect, posterOnly, retryVideo])
 
+  // Scene menu: built-in scenes drop any applied preset; presets switch to their scene first
+  const handleSceneMenuSelect = useCallback((scene: Scene) => {
+    clearPreset()
+    handleSceneSelect(scene)
+  }, [clearPreset, handleSceneSelect])
+
+  const handlePresetSelect = useCallback((preset: VisualizerPreset) => {
+    const scene = SCENES.find((entry) => entry.id === preset.sceneId)
+    if (!scene || !isSceneAllowedOnDevice(scene)) return
+    handleSceneSelect(scene)
+    applyPreset(preset)
+  }, [applyPreset, handleSceneSelect, isSceneAllowedOnDevice])
+
+  // Apply a scene requested by a confirmed MetaDJai proposal
+  useEffect(() => {
+    if (!sceneRequest) return
+    const scene = SCENES.find((entry) => entry.id === sceneRequest)
+    if (scene && isSceneAllowedOnDevice(scene)) {
+      handleSceneSelect(scene)
+    } else {
+      logger.info("[Cinema] Requested scene unavailable on this device", { sceneId: sceneRequest })
+    }
+    onSceneRequestHandled?.()
+  }, [sceneRequest, handleSceneSelect, isSceneAllowedOnDevice, onSceneRequestHandled])
+
   // Handler to switch to 2D visualizer when WebGL context is lost
   const handleSwitchTo2DVisualizer = useCallback(() => {
     const scene2D = VISUALIZER_SCENES.find(
@@ -643,6 +722,8 @@ export function CinemaOverlay({
             midLevel={analyzerData.midLevel}
             highLevel={analyzerData.highLevel}
             style={currentScene.visualizerStyle}
+            params={visualizerPresets.params}
+            beat={beatRef}
             seed={combineSeeds(currentTrack?.id ?? "no-track", currentScene.id)}
             performanceMode={isPerformanceMode}
             postProcessing={
@@ -718,8 +799,11 @@ export function CinemaOverlay({
                 className="w-full h-full border-0 pointer-events-none"
                 allow="autoplay; fullscreen; encrypted-media"
               />
+            ) : isMockWhipUrl(dreamStatus.playbackUrl) ? (
+              <CinemaDreamMockPlayback ref={setDreamVideoElement} playbackUrl={dreamStatus.playbackUrl} />
             ) : dreamStatus.playbackUrl ? (
               <video
+                ref={setDreamVideoElement}
                 src={dreamStatus.playbackUrl}
                 autoPlay
                 muted
@@ -823,9 +907,18 @@ export function CinemaOverlay({
                 selectedScene={selectedScene}
                 isOpen={isSceneMenuOpen}
                 onToggle={() => setIsSceneMenuOpen(!isSceneMenuOpen)}
-                onSelect={handleSceneSelect}
+                onSelect={handleSceneMenuSelect}
                 allow3DVisualizers={allow3DVisualizers}
+                presets={visualizerPresets.presets}
+                activePresetId={visualizerPresets.activePreset?.id ?? null}
+                onSelectPreset={handlePresetSelect}
               />
+              {currentVisualizerScene && (
+                <CinemaVisualizerEditor
+                  scene={currentVisualizerScene}
+                  visualizerPresets={visualizerPresets}
+                />
+              )}
             </div>
 
             <div className="flex items-center justify-center justify-self-center">
@@ -843,6 +936,11 @@ export function CinemaOverlay({
                 presentation={dreamPresentation}
                 onPresentationChange={setDreamPresentation}
                 onForceSync={forceDreamSync}
+                promptBase={dreamPromptBase}
+                onPromptBaseChange={setDreamPromptBase}
+                promptDirector={dreamPromptDirector}
+                clipRecorder={dreamClipRecorder}
+                currentTrack={currentTrack}
                 isOverlayHidden={isOverlayHidden}
                 onOverlayHiddenChange={setIsOverlayHidden}
                 settingsOnly
@@ -864,6 +962,11 @@ export function CinemaOverlay({
                 presentation={dreamPresentation}
                 onPresentationChange={setDreamPresentation}
                 onForceSync={forceDreamSync}
+                promptBase={dreamPromptBase}
+                onPromptBaseChange={setDreamPromptBase}
+                promptDirector={dreamPromptDirector}
+                clipRecorder={dreamClipRecorder}
+                currentTrack={currentTrack}
                 isOverlayHidden={isOverlayHidden}
                 onOverlayHiddenChange={setIsOverlayHidden}
                 compactMode
@@ -1,7 +1,7 @@
 "use client"
 
 import { useState, useRef, useCallback, useEffect, useMemo } from "react"
-import { ChevronDown, Film, Activity } from "lucide-react"
+import { ChevronDown, Film, Activity, SlidersHorizontal } from "lucide-react"
 import {
   VISUALIZER_SCENES,
   VIDEO_SCENES,
@@ -10,6 +10,7 @@ import {
   type Scene
 } from "@/data/scenes"
 import { useClickAway } from "@/hooks"
+import type { VisualizerPreset } from "@/types/visualizer.types"
 
 interface CinemaSceneSelectorProps {
   currentScene: Scene
@@ -19,12 +20,22 @@ interface CinemaSceneSelectorProps {
   onSelect: (scene: Scene) => void
   /** When false, hides 3D visualizers (mobile performance mode). */
   allow3DVisualizers?: boolean
+  /** Saved visualizer presets, listed after the built-in visualizers */
+  presets?: VisualizerPreset[] | null
+  /** Applied preset (its entry is selected instead of the scene) */
+  activePresetId?: string | null
+  onSelectPreset?: (preset: VisualizerPreset) => void
 }
 
+type SceneOption =
+  | { kind: "scene"; id: string; scene: Scene }
+  | { kind: "preset"; id: string; preset: VisualizerPreset }
+
 /**
  * CinemaSceneSelector - Categorized dropdown for selecting cinema scenes
  *
- * Displays visualizers first, then video scenes, with clear category headers.
+ * Displays visualizers first (built-in, then the user's saved presets), then
+ * video scenes, with clear category headers.
  */
 export function CinemaSceneSelector({
   currentScene,
@@ -33,6 +44,9 @@ export function CinemaSceneSelector({
   onToggle,
   onSelect,
   allow3DVisualizers = true,
+  presets,
+  activePresetId = null,
+  onSelectPreset,
 }: CinemaSceneSelectorProps) {
   const isVisualizerScene = isVisualizer(currentScene)
 
@@ -46,16 +60,39 @@ export function CinemaSceneSelector({
     []
   )
 
-  // Flatten all scenes into a single navigable list
-  const allScenes = useMemo(() => {
-    const scenes: Scene[] = []
+  // Presets for visualizers this device can show
+  const visiblePresets = useMemo(() => {
+    if (!presets) return []
+    if (allow3DVisualizers) return presets
+    const allowed = new Set<string>(visualizer2DScenes.map(scene => scene.id))
+    return presets.filter(preset => allowed.has(preset.sceneId))
+  }, [presets, allow3DVisualizers, visualizer2DScenes])
+
+  const activePreset = visiblePresets.find(preset => preset.id === activePresetId) ?? null
+
+  // Flatten all scenes and presets into a single navigable list
+  const allOptions = useMemo(() => {
+    const toSceneOption = (scene: Scene): SceneOption => ({ kind: "scene", id: scene.id, scene })
+    const options: SceneOption[] = []
     if (allow3DVisualizers) {
-      scenes.push(...visualizer3DScenes)
+      options.push(...visualizer3DScenes.map(toSceneOption))
     }
-    scenes.push(...visualizer2DScenes)
-    scenes.push(...VIDEO_SCENES)
-    return scenes
-  }, [allow3DVisualizers, visualizer3DScenes, visualizer2DScenes])
+    options.push(...visualizer2DScenes.map(toSceneOption))
+    options.push(...visiblePresets.map((preset): SceneOption => ({ kind: "preset", id: `preset-${preset.id}`, preset })))
+    options.push(...VIDEO_SCENES.map(toSceneOption))
+    return options
+  }, [allow3DVisualizers, visualizer3DScenes, visualizer2DScenes, visiblePresets])
+
+  const isOptionSelected = useCallback((option: SceneOption) => (
+    option.kind === "preset"
+      ? option.preset.id === activePreset?.id
+      : !activePreset && option.scene.id === selectedScene
+  ), [activePreset, selectedScene])
+
+  const selectOption = useCallback((option: SceneOption) => {
+    if (option.kind === "preset") onSelectPreset?.(option.preset)
+    else onSelect(option.scene)
+  }, [onSelect, onSelectPreset])
 
   // Roving tabindex state
   const [focusedIndex, setFocusedIndex] = useState(-1)
@@ -64,8 +101,8 @@ export function CinemaSceneSelector({
 
   // Find current selected index for initial focus
   const selectedIndex = useMemo(() => {
-    return allScenes.findIndex(s => s.id === selectedScene)
-  }, [allScenes, selectedScene])
+    return allOptions.findIndex(isOptionSelected)
+  }, [allOptions, isOptionSelected])
 
   // Reset focused index when dropdown opens, focus selected item
   useEffect(() => {
@@ -83,7 +120,7 @@ export function CinemaSceneSelector({
 
   // Keyboard navigation handler
   const handleKeyDown = useCallback((e: React.KeyboardEvent, index: number) => {
-    const totalItems = allScenes.length
+    const totalItems = allOptions.length
 
     switch (e.key) {
       case 'ArrowDown':
@@ -117,11 +154,11 @@ export function CinemaSceneSelector({
       case 'Enter':
       case ' ':
         e.preventDefault()
-        const scene = allScenes[index]
-        if (scene) onSelect(scene)
+        const option = allOptions[index]
+        if (option) selectOption(option)
         break
     }
-  }, [allScenes, onToggle, onSelect])
+  }, [allOptions, onToggle, selectOption])
 
   // Handle trigger keyboard events
   const handleTriggerKeyDown = useCallback((e: React.KeyboardEvent) => {
@@ -136,39 +173,49 @@ export function CinemaSceneSelector({
     }
   }, [isOpen, onToggle])
 
-  const renderSceneButton = (scene: Scene, index: number) => (
-    <button
-      key={scene.id}
-      ref={(el) => {
-        if (el) buttonRefs.current.set(index, el)
-        else buttonRefs.current.delete(index)
-      }}
-      type="button"
-      role="option"
-      aria-selected={scene.id === selectedScene}
-      tabIndex={focusedIndex === index ? 0 : -1}
-      onClick={() => onSelect(scene)}
-      onKeyDown={(e) => handleKeyDown(e, index)}
-      className={`w-full px-4 py-3 text-left transition-colors focus-ring ${scene.id === selectedScene
-        ? 'bg-(--border-standard) text-white'
-        : 'text-(--text-secondary) hover:bg-(--glass-strong) hover:text-white'
-        }`}
-    >
-      <div className="flex items-center justify-between">
-        <span className="text-sm font-medium">{scene.name}</span>
-      </div>
-      {scene.description && (
-        <p className="text-xs text-(--text-subtle) mt-0.5">{scene.description}</p>
-      )}
-    </button>
-  )
+  const renderOptionButton = (option: SceneOption, index: number) => {
+    const selected = isOptionSelected(option)
+    const name = option.kind === "preset" ? option.preset.name : option.scene.name
+    const description = option.kind === "preset"
+      ? VISUALIZER_SCENES.find(scene => scene.id === option.preset.sceneId)?.name
+      : option.scene.description
+
+    return (
+      <button
+        key={option.id}
+        id={`scene-option-${option.id}`}
+        ref={(el) => {
+          if (el) buttonRefs.current.set(index, el)
+          else buttonRefs.current.delete(index)
+        }}
+        type="button"
+        role="option"
+        aria-selected={selected}
+        tabIndex={focusedIndex === index ? 0 : -1}
+        onClick={() => selectOption(option)}
+        onKeyDown={(e) => handleKeyDown(e, index)}
+        className={`w-full px-4 py-3 text-left transition-colors focus-ring ${selected
+          ? 'bg-(--border-standard) text-white'
+          : 'text-(--text-secondary) hover:bg-(--glass-strong) hover:text-white'
+          }`}
+      >
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">{name}</span>
+        </div>
+        {description && (
+          <p className="text-xs text-(--text-subtle) mt-0.5">{description}</p>
+        )}
+      </button>
+    )
+  }
 
   // Calculate index ranges for each section
   const visualizer3DStartIndex = 0
   const visualizer3DEndIndex = allow3DVisualizers ? visualizer3DScenes.length : 0
   const visualizer2DStartIndex = visualizer3DEndIndex
   const visualizer2DEndIndex = visualizer2DStartIndex + visualizer2DScenes.length
-  const videoStartIndex = visualizer2DEndIndex
+  const presetStartIndex = visualizer2DEndIndex
+  const videoStartIndex = presetStartIndex + visiblePresets.length
 
   // Click-away support
   const containerRef = useRef<HTMLDivElement>(null)
@@ -193,7 +240,7 @@ export function CinemaSceneSelector({
         ) : (
           <Film className="h-3.5 w-3.5" />
         )}
-        <span id="cinema-console-heading">Scene: {currentScene.name}</span>
+        <span id="cinema-console-heading">Scene: {activePreset?.name ?? currentScene.name}</span>
         <ChevronDown className={`h-3.5 w-3.5 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
       </button>
 
@@ -202,7 +249,7 @@ export function CinemaSceneSelector({
         <div
           role="listbox"
           aria-label="Cinema scenes"
-          aria-activedescendant={focusedIndex >= 0 ? `scene-option-${allScenes[focusedIndex]?.id}` : undefined}
+          aria-activedescendant={focusedIndex >= 0 ? `scene-option-${allOptions[focusedIndex]?.id}` : undefined}
           className="absolute left-0 top-full mt-2 min-w-64 max-h-[60vh] overflow-y-auto overscroll-contain touch-pan-y rounded-2xl border border-(--border-elevated) bg-(--bg-surface-elevated)/95 backdrop-blur-xl shadow-[0_20px_60px_rgba(0,0,0,0.75)] z-50 [-webkit-overflow-scrolling:touch]"
         >
           {/* Visualizers Category (shown first) */}
@@ -218,7 +265,7 @@ export function CinemaSceneSelector({
               <div className="px-4 pt-3 pb-1 text-[10px] uppercase tracking-[0.35em] text-(--text-subtle)" role="presentation">
                 3D Visualizers
               </div>
-              {visualizer3DScenes.map((scene, idx) => renderSceneButton(scene, visualizer3DStartIndex + idx))}
+              {allOptions.slice(visualizer3DStartIndex, visualizer3DEndIndex).map((option, idx) => renderOptionButton(option, visualizer3DStartIndex + idx))}
             </>
           )}
 
@@ -230,7 +277,18 @@ export function CinemaSceneSelector({
               <div className="px-4 pt-3 pb-1 text-[10px] uppercase tracking-[0.35em] text-(--text-subtle)" role="presentation">
                 2D Visualizers
               </div>
-              {visualizer2DScenes.map((scene, idx) => renderSceneButton(scene, visualizer2DStartIndex + idx))}
+              {allOptions.slice(visualizer2DStartIndex, visualizer2DEndIndex).map((option, idx) => renderOptionButton(option, visualizer2DStartIndex + idx))}
+            </>
+          )}
+
+          {visiblePresets.length > 0 && (
+            <>
+              <div className="h-px bg-(--border-standard) my-1" role="presentation" />
+              <div className="flex items-center gap-1.5 px-4 pt-3 pb-1 text-[10px] uppercase tracking-[0.35em] text-(--text-subtle)" role="presentation">
+                <SlidersHorizontal className="h-3 w-3" />
+                My Presets
+              </div>
+              {allOptions.slice(presetStartIndex, videoStartIndex).map((option, idx) => renderOptionButton(option, presetStartIndex + idx))}
             </>
           )}
 
@@ -244,7 +302,7 @@ export function CinemaSceneSelector({
               <span>Video Scenes</span>
             </div>
           </div>
-          {VIDEO_SCENES.map((scene, idx) => renderSceneButton(scene, videoStartIndex + idx))}
+          {allOptions.slice(videoStartIndex).map((option, idx) => renderOptionButton(option, videoStartIndex + idx))}
         </div>
       )}
     </div>
@@ -0,0 +1,227 @@
+"use client"
+
+import { useState, useRef } from "react"
+import { ChevronDown, RotateCcw, Save, SlidersHorizontal, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/Button"
+import { useClickAway } from "@/hooks"
+import {
+  VISUALIZER_PARAM_SCHEMAS,
+  getDefaultVisualizerParams,
+  type VisualizerParamDef,
+  type VisualizerParamGroup,
+} from "@/lib/visualizers/params"
+import { VISUALIZER_PRESET_NAME_MAX_LENGTH, type VisualizerScene } from "@/lib/visualizers/presets"
+import type { UseVisualizerPresetsReturn } from "@/hooks/cinema/use-visualizer-presets"
+
+interface CinemaVisualizerEditorProps {
+  scene: VisualizerScene
+  visualizerPresets: UseVisualizerPresetsReturn
+}
+
+const GROUPS: { id: VisualizerParamGroup; label: string; hint?: string }[] = [
+  { id: "look", label: "Look" },
+  { id: "motion", label: "Motion" },
+  { id: "bands", label: "Band mapping", hint: "Which band drives each part of the scene" },
+]
+
+const sectionLabelClassName = "mb-1.5 text-[10px] font-semibold uppercase tracking-[0.2em] text-(--text-secondary)"
+
+const toggleClassName = (active: boolean) =>
+  `flex-1 rounded-lg px-1.5 py-1 text-[11px] transition ${active ? "bg-white/15 text-white" : "text-white/60 hover:bg-white/10 hover:text-white"}`
+
+function formatNumber(value: number, def: Extract<VisualizerParamDef, { kind: "number" }>) {
+  return def.unit === "%" ? `${Math.round(value)}%` : `${value.toFixed(2)}×`
+}
+
+/**
+ * CinemaVisualizerEditor - Tune the current visualizer and save presets
+ *
+ * Controls are generated from the visualizer's parameter schema and apply
+ * live. Saved presets appear in the scene menu next to the built-in scenes.
+ */
+export function CinemaVisualizerEditor({ scene, visualizerPresets }: CinemaVisualizerEditorProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [presetName, setPresetName] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useClickAway(menuRef, () => setIsOpen(false), { enabled: isOpen })
+
+  const {
+    presets,
+    isLoading,
+    error,
+    activePreset,
+    params,
+    isDirty,
+    clearPreset,
+    setParam,
+    resetParams,
+    savePreset,
+    deletePreset,
+  } = visualizerPresets
+
+  const type = scene.visualizerStyle.type
+  const schema = Object.entries(VISUALIZER_PARAM_SCHEMAS[type]) as [string, VisualizerParamDef][]
+  const values = (params ?? getDefaultVisualizerParams(type)) as Record<string, number | string>
+  const canSave = presets !== null
+
+  const handleSave = async () => {
+    const name = presetName.trim()
+    if (!name) return
+    setIsSaving(true)
+    const saved = await savePreset(name)
+    setIsSaving(false)
+    if (saved) setPresetName("")
+  }
+
+  const renderParam = ([key, def]: [string, VisualizerParamDef]) => {
+    const value = values[key]
+
+    if (def.kind === "select") {
+      return (
+        <div key={key}>
+          <p className="mb-1 text-[11px] text-white/70">{def.label}</p>
+          <div className="flex gap-1 rounded-lg bg-black/30 p-1" role="group" aria-label={def.label}>
+            {def.options.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                onClick={() => setParam(key, option.value)}
+                className={toggleClassName(value === option.value)}
+                aria-pressed={value === option.value}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )
+    }
+
+    const numeric = typeof value === "number" ? value : def.default
+    return (
+      <div key={key}>
+        <div className="mb-1 flex items-center justify-between text-[11px]">
+          <label htmlFor={`visualizer-param-${key}`} className="text-white/70">{def.label}</label>
+          <span className="tabular-nums text-white/50">{formatNumber(numeric, def)}</span>
+        </div>
+        <input
+          id={`visualizer-param-${key}`}
+          type="range"
+          min={def.min}
+          max={def.max}
+          step={def.step}
+          value={numeric}
+          onChange={(event) => setParam(key, Number(event.target.value))}
+          className="w-full accent-purple-400"
+        />
+      </div>
+    )
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <Button
+        onClick={() => setIsOpen(!isOpen)}
+        variant="secondary"
+        size="sm"
+        className="gap-2 rounded-full border-white/30 bg-black/50 px-3 py-2 text-[11px] uppercase tracking-[0.2em] text-white hover:bg-black/40 hover:border-white/50 backdrop-blur-md"
+        leftIcon={<SlidersHorizontal className="h-3 w-3" />}
+        rightIcon={<ChevronDown className={`h-3 w-3 transition-transform ${isOpen ? 'rotate-180' : ''}`} />}
+        aria-expanded={isOpen}
+        aria-label="Tune visualizer"
+      >
+        <span className="hidden sm:inline">Tune</span>
+        {isDirty && (
+          <span className="h-1.5 w-1.5 rounded-full bg-cyan-300" aria-label="Unsaved changes" />
+        )}
+      </Button>
+
+      {isOpen && (
+        <div className="absolute left-0 top-full z-50 mt-2 max-h-[60vh] w-80 space-y-4 overflow-y-auto overscroll-contain rounded-xl border border-(--border-elevated) bg-(--bg-surface-elevated)/95 p-3 text-white shadow-xl backdrop-blur-xl">
+          <div className="flex items-start justify-between gap-2">
+            <div className="min-w-0">
+              <p className="truncate text-sm font-medium">{activePreset?.name ?? scene.name}</p>
+              <p className="text-[10px] text-white/40">
+                {activePreset ? `Preset · ${scene.name}` : "Built-in scene"}
+                {isDirty && " · unsaved changes"}
+              </p>
+            </div>
+            {isDirty && (
+              <button type="button" onClick={resetParams} className="rounded p-1 text-white/50 hover:bg-white/10 hover:text-white" aria-label="Discard changes" title="Discard changes">
+                <RotateCcw className="h-3.5 w-3.5" />
+              </button>
+            )}
+          </div>
+
+          {GROUPS.map((group) => {
+            const entries = schema.filter(([, def]) => def.group === group.id)
+            if (entries.length === 0) return null
+            return (
+              <div key={group.id}>
+                <p className={sectionLabelClassName}>{group.label}</p>
+                {group.hint && <p className="mb-2 text-[10px] text-white/40">{group.hint}</p>}
+                <div className="space-y-2.5">{entries.map(renderParam)}</div>
+              </div>
+            )
+          })}
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+
+          {/* Presets */}
+          <div>
+            <p className={sectionLabelClassName}>Save as preset</p>
+            {canSave ? (
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={presetName}
+                  onChange={(event) => setPresetName(event.target.value)}
+                  onKeyDown={(event) => {
+                    if (event.key === "Enter") void handleSave()
+                  }}
+                  maxLength={VISUALIZER_PRESET_NAME_MAX_LENGTH}
+                  placeholder="Preset name"
+                  aria-label="Preset name"
+                  className="min-w-0 flex-1 rounded-lg border border-white/15 bg-black/30 px-2.5 py-1.5 text-xs text-white placeholder:text-white/30 focus:border-white/40 focus:outline-none"
+                />
+                <Button
+                  onClick={() => void handleSave()}
+                  disabled={isSaving || !presetName.trim()}
+                  variant="secondary"
+                  size="sm"
+                  className="h-auto px-2.5 py-1.5 text-xs"
+                  leftIcon={<Save className="h-3 w-3" />}
+                >
+                  {isSaving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-white/60">
+                {isLoading ? "Loading presets..." : "Sign in to save presets to your account."}
+              </p>
+            )}
+          </div>
+
+          {activePreset && (
+            <div className="flex items-center gap-2">
+              <Button onClick={clearPreset} variant="secondary" size="sm" className="h-auto flex-1 px-2.5 py-1.5 text-xs">
+                Use built-in look
+              </Button>
+              <Button
+                onClick={() => void deletePreset(activePreset.id)}
+                variant="secondary"
+                size="sm"
+                className="h-auto px-2.5 py-1.5 text-xs text-red-200"
+                leftIcon={<Trash2 className="h-3 w-3" />}
+              >
+                Delete
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,6 +2,9 @@
 
 import dynamic from "next/dynamic"
 import type { VisualizerStyle } from "@/data/scenes"
+import type { BeatSnapshot } from "@/lib/audio/beat-tracking"
+import type { VisualizerParams, VisualizerParamsFor, VisualizerType } from "@/lib/visualizers/params"
+import type { RefObject } from "react"
 
 interface Visualizer2DProps {
   active?: boolean
@@ -9,46 +12,53 @@ interface Visualizer2DProps {
   midLevel: number
   highLevel: number
   style: VisualizerStyle
+  /** Parameter values resolved for `style.type`. */
+  params: VisualizerParams
+  /** Live beat clock; read per frame for kick-synced hits. */
+  beat?: RefObject<BeatSnapshot>
   /** Stable seed for track-scoped visual variation. */
   seed?: number
   /** Optional performance mode for future 2D tuning. */
   performanceMode?: boolean
 }
 
-type Visualizer2DRendererProps = Omit<Visualizer2DProps, "style">
+type Visualizer2DRendererProps<T extends VisualizerType> = Omit<Visualizer2DProps, "style" | "params"> & {
+  params?: VisualizerParamsFor<T>
+}
 
-const PixelParadise = dynamic<Visualizer2DRendererProps>(
+const PixelParadise = dynamic<Visualizer2DRendererProps<"pixel-paradise">>(
   () => import("./visualizers/PixelParadise").then((mod) => mod.PixelParadise),
   { ssr: false, loading: () => null },
 )
 
-const EightBitAdventure = dynamic<Visualizer2DRendererProps>(
+const EightBitAdventure = dynamic<Visualizer2DRendererProps<"eight-bit-adventure">>(
   () => import("./visualizers/EightBitAdventure").then((mod) => mod.EightBitAdventure),
   { ssr: false, loading: () => null },
 )
 
-const SynthwaveHorizon = dynamic<Visualizer2DRendererProps>(
+const SynthwaveHorizon = dynamic<Visualizer2DRendererProps<"synthwave-horizon">>(
   () => import("./visualizers/SynthwaveHorizon").then((mod) => mod.SynthwaveHorizon),
   { ssr: false, loading: () => null },
 )
 
-const SpectrumRing = dynamic<Visualizer2DRendererProps>(
+const SpectrumRing = dynamic<Visualizer2DRendererProps<"spectrum-ring">>(
   () => import("./visualizers/SpectrumRing").then((mod) => mod.SpectrumRing),
   { ssr: false, loading: () => null },
 )
 
-const StarlightDrift = dynamic<Visualizer2DRendererProps>(
+const StarlightDrift = dynamic<Visualizer2DRendererProps<"starlight-drift">>(
   () => import("./visualizers/StarlightDrift").then((mod) => mod.StarlightDrift),
   { ssr: false, loading: () => null },
 )
 
-export function Visualizer2D({ active = true, bassLevel, midLevel, highLevel, style, seed, performanceMode }: Visualizer2DProps) {
-  const sharedProps = { active, bassLevel, midLevel, highLevel, seed, performanceMode }
+export function Visualizer2D({ active = true, bassLevel, midLevel, highLevel, style, params, beat, seed, performanceMode }: Visualizer2DProps) {
+  const sharedProps = { active, bassLevel, midLevel, highLevel, beat, seed, performanceMode }
 
   if (style.type === "pixel-paradise") {
     return (
       <PixelParadise
         {...sharedProps}
+        params={params as VisualizerParamsFor<"pixel-paradise">}
       />
     )
   }
@@ -57,6 +67,7 @@ export function Visualizer2D({ active = true, bassLevel, midLevel, highLevel, st
     return (
       <EightBitAdventure
         {...sharedProps}
+        params={params as VisualizerParamsFor<"eight-bit-adventure">}
       />
     )
   }
@@ -65,6 +76,7 @@ export function Visualizer2D({ active = true, bassLevel, midLevel, highLevel, st
     return (
       <SynthwaveHorizon
         {...sharedProps}
+        params={params as VisualizerParamsFor<"synthwave-horizon">}
       />
     )
   }
@@ -73,6 +85,7 @@ export function Visualizer2D({ active = true, bassLevel, midLevel, highLevel, st
     return (
       <SpectrumRing
         {...sharedProps}
+        params={params as VisualizerParamsFor<"spectrum-ring">}
       />
     )
   }
@@ -81,6 +94,7 @@ export function Visualizer2D({ active = true, bassLevel, midLevel, highLevel, st
     return (
       <StarlightDrift
         {...sharedProps}
+        params={params as VisualizerParamsFor<"starlight-drift">}
       />
     )
   }
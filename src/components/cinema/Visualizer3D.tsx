@@ -1,18 +1,24 @@
 "use client"
 
-import { useMemo } from "react"
+import { useMemo, type RefObject } from "react"
 import dynamic from "next/dynamic"
 import { EffectComposer, Bloom, ChromaticAberration, Vignette } from "@react-three/postprocessing"
 import { BlendFunction } from "postprocessing"
 import * as THREE from "three"
 import { CinemaPerformanceMonitor } from "@/hooks/cinema"
 import type { VisualizerStyle } from "@/data/scenes"
+import type { BeatSnapshot } from "@/lib/audio/beat-tracking"
+import type { VisualizerParams, VisualizerParamsFor, VisualizerType } from "@/lib/visualizers/params"
 
 interface Visualizer3DProps {
   bassLevel: number
   midLevel: number
   highLevel: number
   style: VisualizerStyle
+  /** Parameter values resolved for `style.type`. */
+  params: VisualizerParams
+  /** Live beat clock; read per frame for kick-synced hits. */
+  beat?: RefObject<BeatSnapshot>
   /** When true, uses lower particle counts and lower-cost rendering defaults. */
   performanceMode?: boolean
   /** Postprocessing preset (independent of particle quality). */
@@ -23,27 +29,27 @@ interface Visualizer3DProps {
   onPerformanceModeRecommended?: () => void
 }
 
-type Visualizer3DRendererProps = Pick<
+type Visualizer3DRendererProps<T extends VisualizerType> = Pick<
   Visualizer3DProps,
-  "bassLevel" | "midLevel" | "highLevel" | "performanceMode"
->
+  "bassLevel" | "midLevel" | "highLevel" | "beat" | "performanceMode"
+> & { params?: VisualizerParamsFor<T> }
 
-const Cosmos = dynamic<Visualizer3DRendererProps>(
+const Cosmos = dynamic<Visualizer3DRendererProps<"explosion">>(
   () => import("./visualizers/Cosmos").then((mod) => mod.Cosmos),
   { ssr: false, loading: () => null },
 )
 
-const SpaceTravel = dynamic<Visualizer3DRendererProps>(
+const SpaceTravel = dynamic<Visualizer3DRendererProps<"space-travel">>(
   () => import("./visualizers/SpaceTravel").then((mod) => mod.SpaceTravel),
   { ssr: false, loading: () => null },
 )
 
-const DiscoBall = dynamic<Visualizer3DRendererProps>(
+const DiscoBall = dynamic<Visualizer3DRendererProps<"disco-ball">>(
   () => import("./visualizers/DiscoBall").then((mod) => mod.DiscoBall),
   { ssr: false, loading: () => null },
 )
 
-const BlackHole = dynamic<Visualizer3DRendererProps>(
+const BlackHole = dynamic<Visualizer3DRendererProps<"black-hole">>(
   () => import("./visualizers/BlackHole").then((mod) => mod.BlackHole),
   { ssr: false, loading: () => null },
 )
@@ -61,6 +67,8 @@ export function Visualizer3D({
   midLevel,
   highLevel,
   style,
+  params,
+  beat,
   performanceMode = false,
   postProcessing,
   enablePerformanceMonitoring = false,
@@ -86,7 +94,7 @@ export function Visualizer3D({
     : isBalanced
       ? bloomSettings.radius * 0.8
       : bloomSettings.radius
-  const sharedProps = { bassLevel, midLevel, highLevel, performanceMode }
+  const sharedProps = { bassLevel, midLevel, highLevel, beat, performanceMode }
 
   // STATIC bloom - particles already have audio reactivity built in
   // Reactive bloom on top of reactive particles creates double-pulsing artifact
@@ -105,16 +113,16 @@ export function Visualizer3D({
       )}
 
       {style.type === "explosion" && (
-        <Cosmos {...sharedProps} />
+        <Cosmos {...sharedProps} params={params as VisualizerParamsFor<"explosion">} />
       )}
       {style.type === "space-travel" && (
-        <SpaceTravel {...sharedProps} />
+        <SpaceTravel {...sharedProps} params={params as VisualizerParamsFor<"space-travel">} />
       )}
       {style.type === "disco-ball" && (
-        <DiscoBall {...sharedProps} />
+        <DiscoBall {...sharedProps} params={params as VisualizerParamsFor<"disco-ball">} />
       )}
       {style.type === "black-hole" && (
-        <BlackHole {...sharedProps} />
+        <BlackHole {...sharedProps} params={params as VisualizerParamsFor<"black-hole">} />
       )}
 
       {shouldPostProcess &&
@@ -1,11 +1,18 @@
 "use client"
 
-import { useState, useEffect, useRef, useMemo } from "react"
+import { useState, useEffect, useRef, useMemo, type RefObject } from "react"
 import dynamic from "next/dynamic"
 import { useCspStyle } from "@/hooks/use-csp-style"
 import { useReducedMotion } from "@/lib/motion-utils"
+import {
+  getVisualizerPaletteFilter,
+  mapVisualizerBands,
+  resolveVisualizerParams,
+} from "@/lib/visualizers/params"
 import { Visualizer2D } from "./Visualizer2D"
 import type { VisualizerStyle } from "@/data/scenes"
+import type { BeatSnapshot } from "@/lib/audio/beat-tracking"
+import type { VisualizerParams } from "@/lib/visualizers/params"
 
 // Lazy load 3D visualizer to avoid loading Three.js bundle on mobile/2D views
 const Visualizer3D = dynamic(() => import("./Visualizer3D").then(mod => mod.Visualizer3D), {
@@ -22,6 +29,10 @@ interface VisualizerCinemaProps {
   midLevel: number
   highLevel: number
   style: VisualizerStyle
+  /** Parameter values from a visualizer preset or the editor (defaults when omitted). */
+  params?: VisualizerParams
+  /** Live beat clock from `useBeatTracker`; renderers read it every frame to hit on the kick. */
+  beat?: RefObject<BeatSnapshot>
   /** Stable seed for track-scoped visual variation. */
   seed?: number
   /** When true, renders with lower GPU/CPU cost. */
@@ -43,6 +54,8 @@ export function VisualizerCinema({
   midLevel,
   highLevel,
   style,
+  params,
+  beat,
   seed,
   performanceMode = false,
   postProcessing,
@@ -59,6 +72,8 @@ export function VisualizerCinema({
   // Respect user's reduced motion preference - enables performance mode for simpler animations
   const prefersReducedMotion = useReducedMotion()
   const effectivePerformanceMode = performanceMode || prefersReducedMotion
+  // Beat hits are sudden motion; reduced motion keeps the smoothed levels only
+  const beatClock = prefersReducedMotion ? undefined : beat
 
   // Intensity scaling: currently only used to keep "subtle" scenes gentler.
   // Intense scenes remain unchanged to preserve the established premium look.
@@ -73,9 +88,18 @@ export function VisualizerCinema({
     }
   }, [currentStyle.intensity])
 
-  const scaledBass = Math.min(1, bassLevel * intensityScale)
-  const scaledMid = Math.min(1, midLevel * intensityScale)
-  const scaledHigh = Math.min(1, highLevel * intensityScale)
+  // Params resolve against the visualizer on screen, so a preset for the next
+  // scene only takes over once the fade swaps styles
+  const resolvedParams = useMemo(
+    () => resolveVisualizerParams(currentStyle.type, params),
+    [currentStyle.type, params],
+  )
+
+  // Band mapping and reactivity apply before the scene's intensity scaling
+  const bands = mapVisualizerBands({ bass: bassLevel, mid: midLevel, high: highLevel }, resolvedParams)
+  const scaledBass = Math.min(1, bands.bass * intensityScale)
+  const scaledMid = Math.min(1, bands.mid * intensityScale)
+  const scaledHigh = Math.min(1, bands.high * intensityScale)
 
   const renderer = currentStyle.renderer ?? "2d"
   const resolvedPostProcessing = postProcessing ?? (effectivePerformanceMode ? "off" : "full")
@@ -131,9 +155,11 @@ export function VisualizerCinema({
     }
   }, [onCanvasReady, renderer, currentStyle.type])
 
+  // Palette is a CSS filter on the container; the captured canvas keeps the original colors
   const containerStyleId = useCspStyle({
     opacity,
     transition: "opacity 300ms ease-in-out",
+    filter: getVisualizerPaletteFilter(resolvedParams.palette),
   })
 
   return (
@@ -161,6 +187,8 @@ export function VisualizerCinema({
             midLevel={scaledMid}
             highLevel={scaledHigh}
             style={currentStyle}
+            params={resolvedParams}
+            beat={beatClock}
             performanceMode={effectivePerformanceMode}
             postProcessing={resolvedPostProcessing}
             enablePerformanceMonitoring={enablePerformanceMonitoring}
@@ -174,6 +202,8 @@ export function VisualizerCinema({
           midLevel={scaledMid}
           highLevel={scaledHigh}
           style={currentStyle}
+          params={resolvedParams}
+          beat={beatClock}
           seed={seed}
           performanceMode={effectivePerformanceMode}
         />
@@ -1,9 +1,11 @@
 "use client"
 
-import { useMemo, useRef } from "react"
+import { useMemo, useRef, type RefObject } from "react"
 import { useFrame } from "@react-three/fiber"
 import * as THREE from "three"
+import { crossedBeat, getBeatPulse, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import { VISUALIZER_SRGB } from "@/lib/color/visualizer-palette"
+import { scaleVisualizerCount, type VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface BlackHoleProps {
   bassLevel: number
@@ -11,6 +13,10 @@ interface BlackHoleProps {
   highLevel: number
   /** When true, uses reduced particle counts for smoother rendering. */
   performanceMode?: boolean
+  /** Preset parameters (particle count %, rotation speed multiplier). */
+  params?: VisualizerParamsFor<"black-hole">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 // Seeded random
@@ -556,6 +562,7 @@ interface BlackHoleState {
   // Bass transient detection for ripple pulses and tilt
   prevBassLevel: number
   bassTransientCooldown: number
+  prevBeatPhase: number
   ripplePulses: RipplePulse[]
   // Tilt impulses from bass impacts
   tiltImpulses: TiltImpulse[]
@@ -586,6 +593,7 @@ function createInitialBlackHoleState(): BlackHoleState {
     sustainedEnergy: 0,
     prevBassLevel: 0,
     bassTransientCooldown: 0,
+    prevBeatPhase: 0,
     ripplePulses: [],
     tiltImpulses: [],
     colorTemperature: 0,
@@ -595,7 +603,7 @@ function createInitialBlackHoleState(): BlackHoleState {
   }
 }
 
-export function BlackHole({ bassLevel, midLevel, highLevel, performanceMode = false }: BlackHoleProps) {
+export function BlackHole({ bassLevel, midLevel, highLevel, performanceMode = false, params, beat }: BlackHoleProps) {
   const pointsRef = useRef<THREE.Points>(null)
   const materialRef = useRef<THREE.ShaderMaterial>(null)
   const horizonRef = useRef<THREE.ShaderMaterial>(null)
@@ -606,7 +614,13 @@ export function BlackHole({ bassLevel, midLevel, highLevel, performanceMode = fa
     [performanceMode],
   )
 
-  const densityScale = performanceMode ? 1.0 : Math.sqrt(LOW_PARTICLE_COUNT / HIGH_PARTICLE_COUNT)
+  // Particle count draws a prefix of the pre-generated (uniformly random) disk
+  const visibleCount = scaleVisualizerCount(
+    performanceMode ? LOW_PARTICLE_COUNT : HIGH_PARTICLE_COUNT,
+    params?.particleCount ?? 100,
+  )
+  const densityScale = Math.min(1, Math.sqrt(LOW_PARTICLE_COUNT / visibleCount))
+  const rotationSpeedScale = params?.rotationSpeed ?? 1
 
   useFrame((state, delta) => {
     if (!materialRef.current || !horizonRef.current || !pointsRef.current) return
@@ -663,12 +677,18 @@ export function BlackHole({ bassLevel, midLevel, highLevel, performanceMode = fa
     const bassDelta = bassLevel - s.prevBassLevel
     s.bassTransientCooldown = Math.max(0, s.bassTransientCooldown - clampedDelta)
 
+    // Tracked beats fire on the kick itself; the smoothed bass delta lags it
+    const beatSnapshot = beat?.current
+    const beatStrength = crossedBeat(s.prevBeatPhase, beatSnapshot) ? getBeatPulse(beatSnapshot) : 0
+    s.prevBeatPhase = beatSnapshot?.phase ?? 0
+
     // Transient threshold: significant upward jump with cooldown
     const transientThreshold = 0.12
-    const isTransient = bassDelta > transientThreshold && s.bassTransientCooldown <= 0 && bassLevel > 0.2
+    const isBassTransient = bassDelta > transientThreshold && s.bassTransientCooldown <= 0 && bassLevel > 0.2
+    const isTransient = isBassTransient || beatStrength > 0.2
 
     if (isTransient) {
-      const transientStrength = Math.min(bassDelta / 0.5, 1.0) // normalize to 0-1
+      const transientStrength = Math.max(Math.min(bassDelta / 0.5, 1.0), beatStrength) // normalize to 0-1
 
       // Spawn a ripple pulse
       if (s.ripplePulses.length < MAX_RIPPLE_PULSES) {
@@ -706,8 +726,8 @@ export function BlackHole({ bassLevel, midLevel, highLevel, performanceMode = fa
       // Feed intensity spike
       s.feedIntensity = Math.max(s.feedIntensity, transientStrength)
 
-      // Cooldown to avoid rapid-fire detection
-      s.bassTransientCooldown = 0.08
+      // Cooldown to avoid rapid-fire detection (longer after a beat so its lagging bass rise doesn't retrigger)
+      s.bassTransientCooldown = isBassTransient ? 0.08 : 0.2
     }
 
     s.prevBassLevel = bassLevel
@@ -776,7 +796,7 @@ export function BlackHole({ bassLevel, midLevel, highLevel, performanceMode = fa
     s.smoothedRotationSpeed = Math.max(s.smoothedRotationSpeed, 0.03) // Lower floor (was 0.08)
 
     // Accumulate rotation - always increases, never decreases
-    s.accumulatedRotation += s.smoothedRotationSpeed * clampedDelta
+    s.accumulatedRotation += s.smoothedRotationSpeed * rotationSpeedScale * clampedDelta
 
     // ═══════════════════════════════════════════════════════════════════════
     // RIPPLE PHASE — propagation speed scales with energy
@@ -810,6 +830,7 @@ export function BlackHole({ bassLevel, midLevel, highLevel, performanceMode = fa
     materialRef.current.uniforms.uDiskThickness.value = s.diskThickness
     materialRef.current.uniforms.uColorTemperature.value = s.colorTemperature
     materialRef.current.uniforms.uDensityScale.value = densityScale
+    pointsRef.current.geometry.setDrawRange(0, visibleCount)
 
     // Pack ripple pulse data into uniform arrays
     const pulseOrigins = materialRef.current.uniforms.uRipplePulseOrigins.value as Float32Array
@@ -1,9 +1,11 @@
 "use client"
 
-import { useMemo, useRef } from "react"
+import { useMemo, useRef, type RefObject } from "react"
 import { useFrame } from "@react-three/fiber"
 import * as THREE from "three"
+import { getBeatPulse, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import { VISUALIZER_SRGB } from "@/lib/color/visualizer-palette"
+import { scaleVisualizerCount, type VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface CosmosProps {
   bassLevel: number
@@ -11,6 +13,10 @@ interface CosmosProps {
   highLevel: number
   /** When true, uses reduced particle counts for smoother rendering. */
   performanceMode?: boolean
+  /** Preset parameters (particle count %, rotation speed multiplier). */
+  params?: VisualizerParamsFor<"explosion">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 // Seeded random for reproducible particle distribution
@@ -471,7 +477,7 @@ function createInitialCosmosState(): CosmosState {
   }
 }
 
-export function Cosmos({ bassLevel, midLevel, highLevel, performanceMode = false }: CosmosProps) {
+export function Cosmos({ bassLevel, midLevel, highLevel, performanceMode = false, params, beat }: CosmosProps) {
   const pointsRef = useRef<THREE.Points>(null)
   const materialRef = useRef<THREE.ShaderMaterial>(null)
   const stateRef = useRef<CosmosState>(createInitialCosmosState())
@@ -481,7 +487,13 @@ export function Cosmos({ bassLevel, midLevel, highLevel, performanceMode = false
     [performanceMode],
   )
 
-  const densityScale = performanceMode ? 1.0 : Math.sqrt(LOW_PARTICLE_COUNT / HIGH_PARTICLE_COUNT)
+  // Particle count draws a prefix of the pre-generated (uniformly random) galaxy
+  const visibleCount = scaleVisualizerCount(
+    performanceMode ? LOW_PARTICLE_COUNT : HIGH_PARTICLE_COUNT,
+    params?.particleCount ?? 100,
+  )
+  const densityScale = Math.min(1, Math.sqrt(LOW_PARTICLE_COUNT / visibleCount))
+  const rotationSpeedScale = params?.rotationSpeed ?? 1
 
   useFrame((state, delta) => {
     if (!materialRef.current || !pointsRef.current) return
@@ -517,8 +529,9 @@ export function Cosmos({ bassLevel, midLevel, highLevel, performanceMode = false
 
     // === BASS IMPACT: Transient detection for hits ===
     // Detects sudden bass increases — the "punch" of a kick drum or drop
+    // The beat clock lands the punch on the kick itself; the smoothed bass lags it
     const bassDelta = Math.max(0, bassLevel - s.prevBassLevel)
-    const bassTransient = Math.pow(bassDelta, 0.6)
+    const bassTransient = Math.max(Math.pow(bassDelta, 0.6), getBeatPulse(beat?.current) * 0.5)
     const impactRate = bassTransient > s.bassImpact ? 0.08 : 0.008
     s.bassImpact = THREE.MathUtils.lerp(s.bassImpact, bassTransient, impactRate)
     s.prevBassLevel = bassLevel
@@ -545,7 +558,7 @@ export function Cosmos({ bassLevel, midLevel, highLevel, performanceMode = false
     s.smoothedRotationSpeed = THREE.MathUtils.lerp(s.smoothedRotationSpeed, targetRotationSpeed, accelRate)
     s.smoothedRotationSpeed = Math.max(s.smoothedRotationSpeed, 0.06) // Lower minimum for quieter idle
 
-    s.accumulatedRotation += s.smoothedRotationSpeed * clampedDelta
+    s.accumulatedRotation += s.smoothedRotationSpeed * rotationSpeedScale * clampedDelta
 
     // === PULSE PHASE: Drives radial wave propagation in shader ===
     const pulseSpeed = 0.08 + s.smoothedBass * 1.2 + s.smoothedMid * 0.6 + s.bassImpact * 1.5
@@ -569,6 +582,7 @@ export function Cosmos({ bassLevel, midLevel, highLevel, performanceMode = false
     materialRef.current.uniforms.uBassImpact.value = s.bassImpact
     materialRef.current.uniforms.uTurbulenceLevel.value = s.turbulenceLevel
     materialRef.current.uniforms.uDensityScale.value = densityScale
+    pointsRef.current.geometry.setDrawRange(0, visibleCount)
 
     // === TILT: Bass impact creates camera-like rotational punch ===
     // Each bass hit imparts a small rotational impulse that decays slowly
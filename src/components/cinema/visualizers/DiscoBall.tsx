@@ -1,9 +1,11 @@
 "use client"
 
-import { useMemo, useRef } from "react"
+import { useMemo, useRef, type RefObject } from "react"
 import { useFrame } from "@react-three/fiber"
 import * as THREE from "three"
+import { crossedBeat, getBeatPulse, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import { VISUALIZER_COLORS } from "@/lib/color/visualizer-palette"
+import { scaleVisualizerCount, type VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface DiscoBallProps {
   bassLevel: number
@@ -11,6 +13,10 @@ interface DiscoBallProps {
   highLevel: number
   /** When true, uses reduced particle counts for smoother rendering. */
   performanceMode?: boolean
+  /** Preset parameters (facet/halo count %, rotation speed multiplier). */
+  params?: VisualizerParamsFor<"disco-ball">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 function seededRandom(seed: number): () => number {
@@ -680,6 +686,7 @@ interface DiscoBallState {
   shockwaveAlpha: number
   prevRawBass: number
   prevRawMid: number
+  prevBeatPhase: number
   rotationImpulse: number
   wobbleImpulse: number
   sustainedEnergy: number
@@ -700,6 +707,7 @@ function createDiscoBallState(): DiscoBallState {
     shockwaveAlpha: 0,
     prevRawBass: 0,
     prevRawMid: 0,
+    prevBeatPhase: 0,
     rotationImpulse: 0,
     wobbleImpulse: 0,
     sustainedEnergy: 0,
@@ -710,7 +718,7 @@ function createDiscoBallState(): DiscoBallState {
   }
 }
 
-export function DiscoBall({ bassLevel, midLevel, highLevel, performanceMode = false }: DiscoBallProps) {
+export function DiscoBall({ bassLevel, midLevel, highLevel, performanceMode = false, params, beat }: DiscoBallProps) {
   const coreMaterialRef = useRef<THREE.ShaderMaterial>(null)
   const facetsRef = useRef<THREE.Points>(null)
   const facetsMaterialRef = useRef<THREE.ShaderMaterial>(null)
@@ -728,8 +736,13 @@ export function DiscoBall({ bassLevel, midLevel, highLevel, performanceMode = fa
     [performanceMode],
   )
 
-  const facetDensityScale = performanceMode ? 1.0 : Math.sqrt(LOW_FACET_COUNT / HIGH_FACET_COUNT)
-  const haloDensityScale = performanceMode ? 1.0 : Math.sqrt(LOW_HALO_COUNT / HIGH_HALO_COUNT)
+  // Facet count draws a prefix of the pre-generated (uniformly random) facets and halo
+  const countPercent = params?.particleCount ?? 100
+  const visibleFacetCount = scaleVisualizerCount(performanceMode ? LOW_FACET_COUNT : HIGH_FACET_COUNT, countPercent)
+  const visibleHaloCount = scaleVisualizerCount(performanceMode ? LOW_HALO_COUNT : HIGH_HALO_COUNT, countPercent)
+  const facetDensityScale = Math.min(1, Math.sqrt(LOW_FACET_COUNT / visibleFacetCount))
+  const haloDensityScale = Math.min(1, Math.sqrt(LOW_HALO_COUNT / visibleHaloCount))
+  const rotationSpeedScale = params?.rotationSpeed ?? 1
 
   useFrame((state, delta) => {
     if (!coreMaterialRef.current || !facetsMaterialRef.current || !haloMaterialRef.current) return
@@ -744,6 +757,12 @@ export function DiscoBall({ bassLevel, midLevel, highLevel, performanceMode = fa
     s.prevRawBass = bassLevel
     s.prevRawMid = midLevel
 
+    // Tracked beats land on the kick; the bar's first beat gets the shockwave
+    const beatSnapshot = beat?.current
+    const beatStrength = crossedBeat(s.prevBeatPhase, beatSnapshot) ? getBeatPulse(beatSnapshot) : 0
+    const isDownbeat = beatStrength > 0 && beatSnapshot?.beatInBar === 0
+    s.prevBeatPhase = beatSnapshot?.phase ?? 0
+
     // --- Smoothing with differentiated attack/release ---
     // Faster attack (0.12) to catch transients, slower release (0.04) for smooth decay
     const bassAttack = bassLevel > s.smoothedBass ? 0.05 : 0.015
@@ -764,6 +783,9 @@ export function DiscoBall({ bassLevel, midLevel, highLevel, performanceMode = fa
       // Scale impulse by how hard the transient hit
       s.rotationImpulse = Math.min(s.rotationImpulse + bassDelta * 2.0, 1.5)
     }
+    if (beatStrength > 0) {
+      s.rotationImpulse = Math.min(s.rotationImpulse + beatStrength * 0.3, 1.5)
+    }
     // Decay the impulse (fast initial decay, then slow tail)
     s.rotationImpulse *= 0.85
 
@@ -775,10 +797,10 @@ export function DiscoBall({ bassLevel, midLevel, highLevel, performanceMode = fa
 
     // --- Primary shockwave (area 2): transient-based triggering ---
     // Trigger on bass transients (sudden increases), not just threshold
-    if (bassDelta > 0.2 && bassLevel > 0.55) {
+    if ((bassDelta > 0.2 && bassLevel > 0.55) || (isDownbeat && beatStrength > 0.4)) {
       s.shockwaveRadius = DISCO_RADIUS * 1.0
       // Intensity scales with transient strength — bigger hits make bigger waves
-      s.shockwaveIntensity = Math.min(bassDelta * 4.0, 1.0)
+      s.shockwaveIntensity = Math.min(Math.max(bassDelta * 4.0, isDownbeat ? beatStrength * 0.8 : 0), 1.0)
       s.shockwaveAlpha = Math.max(s.shockwaveAlpha, 0.4 + s.shockwaveIntensity * 0.3)
     }
 
@@ -808,7 +830,7 @@ export function DiscoBall({ bassLevel, midLevel, highLevel, performanceMode = fa
     const baseRotSpeed = 0.14
     // Sustained energy gradually increases base rotation speed
     const sustainedRotBoost = s.sustainedEnergy * 0.2
-    s.rotationAccum += (baseRotSpeed + instantEnergy * 0.35 + s.rotationImpulse + sustainedRotBoost) * clampedDelta
+    s.rotationAccum += (baseRotSpeed + instantEnergy * 0.35 + s.rotationImpulse + sustainedRotBoost) * rotationSpeedScale * clampedDelta
 
     // --- Color dynamics (area 6): dramatic acceleration with audio ---
     // Quiet: slow elegant cycling. Peak: rapid club-light shifts
@@ -852,18 +874,20 @@ export function DiscoBall({ bassLevel, midLevel, highLevel, performanceMode = fa
         + s.sustainedEnergy * 0.01                         // sustained energy expansion
       facetsRef.current.scale.setScalar(breathe)
       // Y-rotation: base spin + mid response + sustained energy bonus
-      facetsRef.current.rotation.y += clampedDelta * (0.12 + s.smoothedMid * 0.025 + s.sustainedEnergy * 0.02)
+      facetsRef.current.rotation.y += clampedDelta * rotationSpeedScale * (0.12 + s.smoothedMid * 0.025 + s.sustainedEnergy * 0.02)
       facetsRef.current.rotation.x += clampedDelta * (0.008 + s.smoothedHigh * 0.01)
       // Z-axis wobble from bass transients (area 1)
       facetsRef.current.rotation.z += clampedDelta * s.wobbleImpulse * 0.15
+      facetsRef.current.geometry.setDrawRange(0, visibleFacetCount)
     }
 
     // --- Halo dynamics (area 4): calm vs active, bass waves ---
     if (haloRef.current) {
       // Base rotation slows during quiet, accelerates during energy
       const haloRotSpeed = 0.03 + s.smoothedBass * 0.06 + s.sustainedEnergy * 0.04
-      haloRef.current.rotation.y += clampedDelta * haloRotSpeed
+      haloRef.current.rotation.y += clampedDelta * haloRotSpeed * rotationSpeedScale
       haloRef.current.rotation.z += clampedDelta * (0.015 + s.smoothedHigh * 0.03 + s.sustainedEnergy * 0.015)
+      haloRef.current.geometry.setDrawRange(0, visibleHaloCount)
     }
   })
 
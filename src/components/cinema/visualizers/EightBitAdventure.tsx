@@ -1,6 +1,7 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useRef, type RefObject } from "react"
+import { crossedBeat, getBeatPulse, isBeatLocked, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import {
   // Types
   type IntensityMode,
@@ -47,6 +48,7 @@ import {
   drawCosmicSparkle,
   drawShootingStar,
 } from "@/lib/visualizers/eight-bit-helpers"
+import type { VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface EightBitAdventureProps {
   active?: boolean
@@ -56,6 +58,10 @@ interface EightBitAdventureProps {
   /** Stable seed for track-scoped visual variation. */
   seed?: number
   performanceMode?: boolean
+  /** Preset parameters (star count %, walk speed multiplier). */
+  params?: VisualizerParamsFor<"eight-bit-adventure">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 function drawEightBitAdventure(
@@ -92,7 +98,8 @@ function drawEightBitAdventure(
   skyGlowPulseRef: { current: number },
   background: AdventureBackground | null,
   rng: () => number,
-  performanceMode: boolean
+  performanceMode: boolean,
+  walkSpeed: number
 ) {
   const safeBass = clamp01(bass)
   const safeMid = clamp01(mid)
@@ -108,7 +115,7 @@ function drawEightBitAdventure(
   const worldBoost = intensityMode === "focus" ? 0.85 : intensityMode === "hype" ? 1.12 : 1
   const dynamicMid = Math.pow(safeMid, 1.3)
   const dynamicBass = Math.pow(safeBass, 1.4)
-  const speed = (65 + dynamicMid * 165 + dynamicBass * 115) * (performanceMode ? 0.9 : 1) * worldBoost
+  const speed = (65 + dynamicMid * 165 + dynamicBass * 115) * (performanceMode ? 0.9 : 1) * worldBoost * walkSpeed
   scrollRef.current += speed * delta
 
   // Beat-like bass jump: one clear action per bass rise.
@@ -491,7 +498,7 @@ function drawEightBitAdventure(
 
   // Clouds (parallax).
   ctx.globalCompositeOperation = "lighter"
-  const cloudSpeed = (0.55 + safeMid * 0.9) * (performanceMode ? 0.9 : 1)
+  const cloudSpeed = (0.55 + safeMid * 0.9) * (performanceMode ? 0.9 : 1) * walkSpeed
   for (const cloud of clouds) {
     cloud.x -= cloud.speed * delta * cloudSpeed
     const bob = Math.sin(time * 0.55 + cloud.phase) * (performanceMode ? 4 : 6 + safeMid * 4)
@@ -788,6 +795,8 @@ export function EightBitAdventure({
   highLevel,
   seed,
   performanceMode = false,
+  params,
+  beat,
 }: EightBitAdventureProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const backgroundRef = useRef<AdventureBackground | null>(null)
@@ -816,10 +825,15 @@ export function EightBitAdventure({
   const loopRef = useRef<((now: number) => void) | null>(null)
   const sizeRef = useRef({ width: 0, height: 0 })
   const audioRef = useRef({ bass: 0, mid: 0, high: 0 })
+  const beatClockRef = useRef(beat)
+  const walkSpeedRef = useRef(1)
 
   audioRef.current.bass = clamp01(bassLevel)
   audioRef.current.mid = clamp01(midLevel)
   audioRef.current.high = clamp01(highLevel)
+  walkSpeedRef.current = params?.walkSpeed ?? 1
+  beatClockRef.current = beat
+  const starPercent = params?.starCount ?? 100
 
   useEffect(() => {
     activeRef.current = active
@@ -887,7 +901,9 @@ export function EightBitAdventure({
       backgroundRef.current = { sky, glow, vignette }
 
       const starDensity = performanceMode ? 21000 : 12500
-      const starCount = Math.min(220, Math.max(70, Math.floor((rect.width * rect.height) / starDensity)))
+      const starCount = Math.round(
+        Math.min(220, Math.max(70, Math.floor((rect.width * rect.height) / starDensity))) * (starPercent / 100),
+      )
       starsRef.current = createStars(rect.width, rect.height, starCount, layoutRandom)
 
       const cloudCount = performanceMode
@@ -937,6 +953,7 @@ export function EightBitAdventure({
     let intensityHoldUntil = 0
     let beatInterval = 0.55
     let lastBeatAt = 0
+    let prevBeatPhase = 0
     let prevBass = 0
     let dropPulse = 0
 
@@ -1002,13 +1019,21 @@ export function EightBitAdventure({
         const beatCooldown = Math.max(0.26, beatInterval * 0.55)
         const beatThreshold = intensityMode === "focus" ? 0.7 : intensityMode === "hype" ? 0.56 : 0.62
         const beatSlope = intensityMode === "focus" ? 0.085 : 0.07
-        if (bass > beatThreshold && bassDelta > beatSlope && time - lastBeatAt > beatCooldown) {
+
+        // A confident beat clock takes over: it fires on the kick, not on the smoothed bass rise
+        const beatSnapshot = beatClockRef.current?.current
+        const trackedBeat = crossedBeat(prevBeatPhase, beatSnapshot) ? getBeatPulse(beatSnapshot) : 0
+        prevBeatPhase = beatSnapshot?.phase ?? 0
+        const isBassBeat = bass > beatThreshold && bassDelta > beatSlope && time - lastBeatAt > beatCooldown
+
+        if (isBeatLocked(beatSnapshot) ? trackedBeat > 0 : isBassBeat) {
+          const hit = Math.max(bass, trackedBeat * 0.8)
           const dt = time - lastBeatAt
           if (lastBeatAt > 0 && dt > 0.28 && dt < 1.2) {
             beatInterval = lerp(beatInterval, dt, 0.18)
           }
           lastBeatAt = time
-          dropPulse = Math.max(dropPulse, bass)
+          dropPulse = Math.max(dropPulse, hit)
         }
         dropPulse = Math.max(0, dropPulse - delta * 1.7)
 
@@ -1046,7 +1071,8 @@ export function EightBitAdventure({
           skyGlowPulseRef,
           backgroundRef.current,
           motionRandom,
-          performanceMode
+          performanceMode,
+          walkSpeedRef.current
         )
       }
 
@@ -1071,7 +1097,7 @@ export function EightBitAdventure({
       rafRef.current = null
       loopRef.current = null
     }
-  }, [performanceMode, seed])
+  }, [performanceMode, seed, starPercent])
 
   useEffect(() => {
     if (!active) {
@@ -1,7 +1,9 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useRef, type RefObject } from "react"
+import { crossedBeat, getBeatPulse, isBeatLocked, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import { VISUALIZER_COLORS } from "@/lib/color/visualizer-palette"
+import { scaleVisualizerCount, type VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface Tower {
   x: number
@@ -28,6 +30,10 @@ interface PixelParadiseProps {
   /** Stable seed for track-scoped visual variation. */
   seed?: number
   performanceMode?: boolean
+  /** Preset parameters (block count %, flow speed multiplier). */
+  params?: VisualizerParamsFor<"pixel-paradise">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 interface Block {
@@ -338,7 +344,8 @@ function drawPixelPortal(
   sparks: Spark[],
   rng: () => number,
   smoothedSpeedRef: React.MutableRefObject<number>,
-  performanceMode: boolean
+  performanceMode: boolean,
+  flowSpeed: number
 ) {
   const safeBass = clamp01(bass)
   const safeMid = clamp01(mid)
@@ -485,7 +492,7 @@ function drawPixelPortal(
 
   const targetSpeed = (20 + (dynamicBass * 1.2 + safeMid * 0.7 + dynamicHigh * 0.95) * 135) * (0.92 + intensityBoost * 0.08)
   smoothedSpeedRef.current = lerp(smoothedSpeedRef.current, targetSpeed, delta * (performanceMode ? 8 : 12))
-  const speedScale = smoothedSpeedRef.current
+  const speedScale = smoothedSpeedRef.current * flowSpeed
 
   for (const block of blocks) {
     const layerSpeed = 0.7 + block.layer * 0.6
@@ -761,7 +768,7 @@ function drawPixelPortal(
   }
 }
 
-export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, seed, performanceMode = false }: PixelParadiseProps) {
+export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, seed, performanceMode = false, params, beat }: PixelParadiseProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const blocksRef = useRef<Block[]>([])
   const backgroundRef = useRef<PixelPortalBackground | null>(null)
@@ -779,10 +786,15 @@ export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, s
   const sizeRef = useRef({ width: 0, height: 0 })
   const smoothedSpeedRef = useRef(30)
   const audioRef = useRef({ bass: 0, mid: 0, high: 0 })
+  const beatClockRef = useRef(beat)
+  const flowSpeedRef = useRef(1)
 
   audioRef.current.bass = clamp01(bassLevel)
   audioRef.current.mid = clamp01(midLevel)
   audioRef.current.high = clamp01(highLevel)
+  flowSpeedRef.current = params?.flowSpeed ?? 1
+  beatClockRef.current = beat
+  const blockPercent = params?.blockCount ?? 100
 
   useEffect(() => {
     activeRef.current = active
@@ -891,9 +903,9 @@ export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, s
 
       const area = rect.width * rect.height
       const density = performanceMode ? 12000 : 6200
-      const minCount = performanceMode ? 120 : 240
-      const maxCount = performanceMode ? 260 : 440
-      const count = Math.min(maxCount, Math.max(minCount, Math.floor(area / density)))
+      const minCount = scaleVisualizerCount(performanceMode ? 120 : 240, blockPercent)
+      const maxCount = scaleVisualizerCount(performanceMode ? 260 : 440, blockPercent)
+      const count = Math.min(maxCount, Math.max(minCount, Math.floor((area / density) * (blockPercent / 100))))
       blocksRef.current = createBlocks(rect.width, rect.height, count, layoutRandom)
 
       const portalCount = performanceMode ? 200 : 280
@@ -925,6 +937,7 @@ export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, s
     let intensityHoldUntil = 0
     let beatInterval = 0.55
     let lastBeatAt = 0
+    let prevBeatPhase = 0
     let dropPulse = 0
 
     const loop = (now: number) => {
@@ -992,7 +1005,14 @@ export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, s
         const beatThreshold = intensityMode === "focus" ? 0.72 : intensityMode === "hype" ? 0.58 : 0.64
         const beatSlope = intensityMode === "focus" ? 0.09 : 0.075
 
-        if (bass > beatThreshold && bassDelta > beatSlope && time - lastBeatAt > beatCooldown) {
+        // A confident beat clock takes over: it fires on the kick, not on the smoothed bass rise
+        const beatSnapshot = beatClockRef.current?.current
+        const trackedBeat = crossedBeat(prevBeatPhase, beatSnapshot) ? getBeatPulse(beatSnapshot) : 0
+        prevBeatPhase = beatSnapshot?.phase ?? 0
+        const isBassBeat = bass > beatThreshold && bassDelta > beatSlope && time - lastBeatAt > beatCooldown
+
+        if (isBeatLocked(beatSnapshot) ? trackedBeat > 0 : isBassBeat) {
+          const hit = Math.max(bass, trackedBeat * 0.8)
           const dt = time - lastBeatAt
           if (lastBeatAt > 0 && dt > 0.28 && dt < 1.2) {
             beatInterval = lerp(beatInterval, dt, 0.18)
@@ -1000,16 +1020,16 @@ export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, s
           lastBeatAt = time
 
           // "Drop pulse" gives the portal a moment of presence on strong hits.
-          dropPulse = Math.max(dropPulse, bass)
+          dropPulse = Math.max(dropPulse, hit)
 
           // Rate-limit shockwaves separately from beat detection.
           const shockCooldown = intensityMode === "focus" ? 0.62 : intensityMode === "hype" ? 0.36 : 0.44
-          if (bass > (intensityMode === "focus" ? 0.78 : 0.66) && time - lastShockwaveAtRef.current > shockCooldown) {
+          if (hit > (intensityMode === "focus" ? 0.78 : 0.66) && time - lastShockwaveAtRef.current > shockCooldown) {
             lastShockwaveAtRef.current = time
             shockwavesRef.current.push({
               age: 0,
-              duration: 0.9 + (1 - bass) * 0.55,
-              strength: bass,
+              duration: 0.9 + (1 - hit) * 0.55,
+              strength: hit,
               seed: (time * 0.12 + smoothedMid * 0.3 + smoothedHigh * 0.2) % 1,
             })
             const limit = performanceMode ? 3 : 5
@@ -1043,7 +1063,8 @@ export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, s
           sparksRef.current,
           motionRandom,
           smoothedSpeedRef,
-          performanceMode
+          performanceMode,
+          flowSpeedRef.current
         )
       }
 
@@ -1068,7 +1089,7 @@ export function PixelParadise({ active = true, bassLevel, midLevel, highLevel, s
       rafRef.current = null
       loopRef.current = null
     }
-  }, [performanceMode, seed])
+  }, [performanceMode, seed, blockPercent])
 
   useEffect(() => {
     if (!active) {
@@ -1,9 +1,11 @@
 "use client"
 
-import { useMemo, useRef, useEffect } from "react"
+import { useMemo, useRef, useEffect, type RefObject } from "react"
 import { useFrame, useThree } from "@react-three/fiber"
 import * as THREE from "three"
+import { crossedBeat, getBeatPulse, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import { VISUALIZER_COLORS, VISUALIZER_SRGB } from "@/lib/color/visualizer-palette"
+import { scaleVisualizerCount, type VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface SpaceTravelProps {
   bassLevel: number
@@ -11,6 +13,10 @@ interface SpaceTravelProps {
   highLevel: number
   /** When true, uses reduced star/nebula counts for smoother rendering. */
   performanceMode?: boolean
+  /** Preset parameters (star/nebula count %, warp speed and camera drift multipliers). */
+  params?: VisualizerParamsFor<"space-travel">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 function seededRandom(seed: number): () => number {
@@ -392,6 +398,7 @@ interface SpaceTravelState {
   nextBurstTime: number
   warpBurstIntensity: number
   prevBassForTransient: number
+  prevBeatPhase: number
   cameraBassImpulse: number
   rotationMomentum: number
 }
@@ -410,12 +417,13 @@ function createSpaceTravelState(): SpaceTravelState {
     nextBurstTime: 6,
     warpBurstIntensity: 0,
     prevBassForTransient: 0,
+    prevBeatPhase: 0,
     cameraBassImpulse: 0,
     rotationMomentum: 0,
   }
 }
 
-export function SpaceTravel({ bassLevel, midLevel, highLevel, performanceMode = false }: SpaceTravelProps) {
+export function SpaceTravel({ bassLevel, midLevel, highLevel, performanceMode = false, params, beat }: SpaceTravelProps) {
   const { camera } = useThree()
   const starsRef = useRef<THREE.Points>(null)
   const starMaterialRef = useRef<THREE.ShaderMaterial>(null)
@@ -432,8 +440,14 @@ export function SpaceTravel({ bassLevel, midLevel, highLevel, performanceMode =
     [performanceMode],
   )
 
-  const starDensityScale = performanceMode ? 1.0 : Math.sqrt(LOW_STAR_COUNT / HIGH_STAR_COUNT)
-  const nebulaDensityScale = performanceMode ? 1.0 : Math.sqrt(LOW_NEBULA_COUNT / HIGH_NEBULA_COUNT)
+  // Star count draws a prefix of the pre-generated (uniformly random) stars and nebula
+  const countPercent = params?.particleCount ?? 100
+  const visibleStarCount = scaleVisualizerCount(performanceMode ? LOW_STAR_COUNT : HIGH_STAR_COUNT, countPercent)
+  const visibleNebulaCount = scaleVisualizerCount(performanceMode ? LOW_NEBULA_COUNT : HIGH_NEBULA_COUNT, countPercent)
+  const starDensityScale = Math.min(1, Math.sqrt(LOW_STAR_COUNT / visibleStarCount))
+  const nebulaDensityScale = Math.min(1, Math.sqrt(LOW_NEBULA_COUNT / visibleNebulaCount))
+  const warpSpeedScale = params?.warpSpeed ?? 1
+  const cameraDriftScale = params?.cameraDrift ?? 1
 
   // SpaceTravel is the only visualizer that tilts/drifts the shared R3F camera.
   // Reset on unmount so other scenes start from a neutral view.
@@ -470,6 +484,13 @@ export function SpaceTravel({ bassLevel, midLevel, highLevel, performanceMode =
       // Intensity scales with how hard the hit is
       s.warpBurstIntensity = Math.max(s.warpBurstIntensity, Math.min(0.7, 0.3 + bassTransient * 3.0))
     }
+    // Tracked downbeats punch on the bar's first kick, ahead of the smoothed bass
+    const beatSnapshot = beat?.current
+    const beatStrength = crossedBeat(s.prevBeatPhase, beatSnapshot) ? getBeatPulse(beatSnapshot) : 0
+    s.prevBeatPhase = beatSnapshot?.phase ?? 0
+    if (beatSnapshot?.beatInBar === 0 && beatStrength > 0.4 && s.warpBurstIntensity < 0.2) {
+      s.warpBurstIntensity = Math.max(s.warpBurstIntensity, 0.2 + beatStrength * 0.35)
+    }
     // Rapid exponential decay — the burst is felt, not sustained
     s.warpBurstIntensity *= Math.pow(0.04, clampedDelta) // ~96% decay per second
 
@@ -498,7 +519,7 @@ export function SpaceTravel({ bassLevel, midLevel, highLevel, performanceMode =
     s.smoothedSpeed = Math.max(s.smoothedSpeed, 0.8)
     s.smoothedSpeed = Math.min(s.smoothedSpeed, 22.0)
 
-    s.accumulatedZOffset += s.smoothedSpeed * clampedDelta
+    s.accumulatedZOffset += s.smoothedSpeed * warpSpeedScale * clampedDelta
 
     // --- Tunnel rotation ---
     // Base rotation: slow persistent twist
@@ -557,6 +578,8 @@ export function SpaceTravel({ bassLevel, midLevel, highLevel, performanceMode =
     nebulaMaterialRef.current.uniforms.uColorPhase.value = s.accumulatedColorPhase
     nebulaMaterialRef.current.uniforms.uBurstIntensity.value = s.nebulaBurstIntensity
     nebulaMaterialRef.current.uniforms.uDensityScale.value = nebulaDensityScale
+    starsRef.current?.geometry.setDrawRange(0, visibleStarCount)
+    nebulaRef.current?.geometry.setDrawRange(0, visibleNebulaCount)
 
     // --- Camera drift & bass-hit reaction ---
     // Bass transients create a brief Z-rotation impulse (thrust push)
@@ -571,9 +594,9 @@ export function SpaceTravel({ bassLevel, midLevel, highLevel, performanceMode =
 
     // Drift scales with speed — feels like turbulence at warp
     const speedFactor = s.smoothedSpeed / 22.0
-    const driftAmount = 0.008 + speedFactor * 0.03
+    const driftAmount = (0.008 + speedFactor * 0.03) * cameraDriftScale
     const driftSpeed = 0.1 + speedFactor * 0.04
-    const drift = Math.sin(time * driftSpeed) * driftAmount + s.cameraBassImpulse
+    const drift = Math.sin(time * driftSpeed) * driftAmount + s.cameraBassImpulse * cameraDriftScale
     const tilt = Math.cos(time * driftSpeed * 0.7) * driftAmount * 0.4
 
     // Smooth return to center during quiet passages (lower lerp = slower = smoother)
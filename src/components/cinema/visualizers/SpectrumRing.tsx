@@ -1,7 +1,9 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useRef, type RefObject } from "react"
+import { getBeatPulse, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import { VISUALIZER_COLORS } from "@/lib/color/visualizer-palette"
+import { scaleVisualizerCount, type VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface SpectrumRingProps {
   active?: boolean
@@ -11,6 +13,10 @@ interface SpectrumRingProps {
   /** Stable seed for track-scoped visual variation. */
   seed?: number
   performanceMode?: boolean
+  /** Preset parameters (segment count %, rotation speed multiplier). */
+  params?: VisualizerParamsFor<"spectrum-ring">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 interface RingPalette {
@@ -86,21 +92,28 @@ export function SpectrumRing({
   highLevel,
   seed,
   performanceMode = false,
+  params,
+  beat,
 }: SpectrumRingProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const rafRef = useRef<number | null>(null)
   const sizeRef = useRef({ width: 0, height: 0 })
   const audioRef = useRef({ bass: 0, mid: 0, high: 0 })
+  const beatClockRef = useRef(beat)
   const smoothedRef = useRef({ bass: 0, mid: 0, high: 0, energy: 0 })
   const activeRef = useRef(active)
   const ringNoiseRef = useRef<number[]>([])
   const innerRingNoiseRef = useRef<number[]>([])
   const particlesRef = useRef<BurstParticle[]>([])
   const gradientRef = useRef<CanvasGradient | null>(null)
+  const rotationScaleRef = useRef(1)
 
   audioRef.current.bass = clamp01(bassLevel)
   audioRef.current.mid = clamp01(midLevel)
   audioRef.current.high = clamp01(highLevel)
+  rotationScaleRef.current = params?.rotationSpeed ?? 1
+  beatClockRef.current = beat
+  const segmentPercent = params?.segmentCount ?? 100
 
   useEffect(() => {
     activeRef.current = active
@@ -114,10 +127,10 @@ export function SpectrumRing({
 
     const baseSeed = (seed ?? 0) >>> 0
     const random = seededRandom(baseSeed ^ 0x1f4b)
-    const segmentCount = performanceMode ? 84 : 120
+    const segmentCount = scaleVisualizerCount(performanceMode ? 84 : 120, segmentPercent)
     ringNoiseRef.current = Array.from({ length: segmentCount }, () => random())
 
-    const innerSegmentCount = performanceMode ? 42 : 60
+    const innerSegmentCount = scaleVisualizerCount(performanceMode ? 42 : 60, segmentPercent)
     innerRingNoiseRef.current = Array.from({ length: innerSegmentCount }, () => random())
     particlesRef.current = []
 
@@ -208,10 +221,13 @@ export function SpectrumRing({
         ctx.fillRect(0, 0, width, height)
       }
 
+      // Beat pulse: snaps the ring outward on the kick, decays through the beat
+      const beatPulse = getBeatPulse(beatClockRef.current?.current)
+
       // Ring pulse: wider dynamic range between quiet and loud
-      const ringPulse = 0.5 + dynamicEnergy * 0.8 + accumulatedEnergy * 0.15
+      const ringPulse = 0.5 + dynamicEnergy * 0.8 + accumulatedEnergy * 0.15 + beatPulse * 0.25
       // Rotation speed responds to energy: contemplative idle, intense at peaks
-      const rotationSpeed = 0.00025 + dynamicEnergy * 0.00025 + accumulatedEnergy * 0.0001
+      const rotationSpeed = (0.00025 + dynamicEnergy * 0.00025 + accumulatedEnergy * 0.0001) * rotationScaleRef.current
       const time = now * rotationSpeed
       // Color cycling accelerates with energy
       const colorCycleSpeed = 0.08 + dynamicEnergy * 0.12 + accumulatedEnergy * 0.04
@@ -219,7 +235,7 @@ export function SpectrumRing({
       ctx.lineCap = "round"
 
       // Bass-responsive radius breathing
-      const radiusBreath = 1 + bass * 0.06 + accumulatedEnergy * 0.02
+      const radiusBreath = 1 + bass * 0.06 + accumulatedEnergy * 0.02 + beatPulse * 0.04
 
       ringNoiseRef.current.forEach((noise, index) => {
         const segCount = ringNoiseRef.current.length
@@ -276,7 +292,7 @@ export function SpectrumRing({
       })
 
       // Secondary Inner Ring - bass-responsive with dynamic range
-      const innerRotationSpeed = 0.00038 + dynamicEnergy * 0.0003
+      const innerRotationSpeed = (0.00038 + dynamicEnergy * 0.0003) * rotationScaleRef.current
       const innerTime = now * innerRotationSpeed
       innerRingNoiseRef.current.forEach((noise, index) => {
         const segCount = innerRingNoiseRef.current.length
@@ -340,7 +356,7 @@ export function SpectrumRing({
       if (rafRef.current) cancelAnimationFrame(rafRef.current)
       window.removeEventListener("resize", resize)
     }
-  }, [seed, performanceMode])
+  }, [seed, performanceMode, segmentPercent])
 
   return <canvas ref={canvasRef} className="h-full w-full" aria-hidden />
 }
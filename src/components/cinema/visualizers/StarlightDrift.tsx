@@ -1,7 +1,9 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useRef, type RefObject } from "react"
+import { getBeatPulse, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import { VISUALIZER_COLORS } from "@/lib/color/visualizer-palette"
+import { scaleVisualizerCount, type VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface StarlightDriftProps {
   active?: boolean
@@ -11,6 +13,10 @@ interface StarlightDriftProps {
   /** Stable seed for track-scoped visual variation. */
   seed?: number
   performanceMode?: boolean
+  /** Preset parameters (star count %, drift and twinkle speed multipliers). */
+  params?: VisualizerParamsFor<"starlight-drift">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 interface Star {
@@ -61,6 +67,8 @@ export function StarlightDrift({
   highLevel,
   seed,
   performanceMode = false,
+  params,
+  beat,
 }: StarlightDriftProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const rafRef = useRef<number | null>(null)
@@ -68,12 +76,18 @@ export function StarlightDrift({
   const starsRef = useRef<Star[]>([])
   const activeRef = useRef(active)
   const audioRef = useRef({ bass: 0, mid: 0, high: 0 })
+  const beatClockRef = useRef(beat)
   const smoothedRef = useRef({ bass: 0, mid: 0, high: 0, energy: 0 })
   const gradientRef = useRef<CanvasGradient | null>(null)
+  const motionRef = useRef({ drift: 1, twinkle: 1 })
 
   audioRef.current.bass = clamp01(bassLevel)
   audioRef.current.mid = clamp01(midLevel)
   audioRef.current.high = clamp01(highLevel)
+  motionRef.current.drift = params?.driftSpeed ?? 1
+  motionRef.current.twinkle = params?.twinkleSpeed ?? 1
+  beatClockRef.current = beat
+  const starPercent = params?.starCount ?? 100
 
   useEffect(() => {
     activeRef.current = active
@@ -87,7 +101,7 @@ export function StarlightDrift({
 
     const baseSeed = (seed ?? 0) >>> 0
     const random = seededRandom(baseSeed ^ 0x2b77)
-    const starCount = performanceMode ? 90 : 150
+    const starCount = scaleVisualizerCount(performanceMode ? 90 : 150, starPercent)
 
     const resetStars = (width: number, height: number) => {
       starsRef.current = Array.from({ length: starCount }, () => {
@@ -172,7 +186,9 @@ export function StarlightDrift({
 
       // Dynamic range: quiet passages feel contemplative, peaks feel dramatic
       const dynamicEnergy = Math.pow(energy, 1.4)
-      const speedBoost = 0.3 + dynamicEnergy * 1.5 + accumulatedEnergy * 0.3
+      // Soft beat pulse: a gentle surge and glint on each kick
+      const beatPulse = getBeatPulse(beatClockRef.current?.current)
+      const speedBoost = 0.3 + dynamicEnergy * 1.5 + accumulatedEnergy * 0.3 + beatPulse * 0.4
 
       // Color temperature shift: cooler during quiet, warmer during peaks
       const colorWarmth = Math.pow(energy, 1.2) * 0.3 + accumulatedEnergy * 0.15
@@ -200,17 +216,17 @@ export function StarlightDrift({
       }
 
       starsRef.current.forEach((star) => {
-        star.y += star.speed * speedBoost
+        star.y += star.speed * speedBoost * motionRef.current.drift
         if (star.y > height + 4) {
           star.y = -4
           star.x = random() * width
         }
 
         // Twinkle speed responds to highs for sparkling effect
-        const twinkleSpeed = 0.0012 + high * 0.001
+        const twinkleSpeed = (0.0012 + high * 0.001) * motionRef.current.twinkle
         const flicker = 0.7 + Math.sin(now * twinkleSpeed * star.twinkle + star.x) * 0.3
         // Wider dynamic range: quiet stars are subtler, loud stars are brighter
-        const dynamicAlpha = star.alpha * flicker * (0.6 + dynamicEnergy * 0.9 + accumulatedEnergy * 0.2)
+        const dynamicAlpha = star.alpha * flicker * (0.6 + dynamicEnergy * 0.9 + accumulatedEnergy * 0.2 + beatPulse * 0.25)
         const size = star.size + dynamicEnergy * 1.2 + accumulatedEnergy * 0.3 + (performanceMode ? 0.4 : 0)
 
         // Warp Speed Effect (Radial Trails) - wider trigger range with dynamic energy
@@ -274,7 +290,7 @@ export function StarlightDrift({
       if (rafRef.current) cancelAnimationFrame(rafRef.current)
       window.removeEventListener("resize", resize)
     }
-  }, [seed, performanceMode])
+  }, [seed, performanceMode, starPercent])
 
   return <canvas ref={canvasRef} className="h-full w-full" aria-hidden />
 }
@@ -1,7 +1,9 @@
 "use client"
 
-import { useEffect, useRef } from "react"
+import { useEffect, useRef, type RefObject } from "react"
+import { crossedBeat, getBeatPulse, isBeatLocked, type BeatSnapshot } from "@/lib/audio/beat-tracking"
 import { VISUALIZER_COLORS } from "@/lib/color/visualizer-palette"
+import type { VisualizerParamsFor } from "@/lib/visualizers/params"
 
 interface SynthwaveHorizonProps {
   active?: boolean
@@ -11,6 +13,10 @@ interface SynthwaveHorizonProps {
   /** Stable seed for track-scoped visual variation. */
   seed?: number
   performanceMode?: boolean
+  /** Preset parameters (star count %, grid speed multiplier). */
+  params?: VisualizerParamsFor<"synthwave-horizon">
+  /** Live beat clock; its pulse lands hits on the kick. */
+  beat?: RefObject<BeatSnapshot>
 }
 
 interface Star {
@@ -401,7 +407,8 @@ function drawSynthwaveHorizon(
   flyers: SkyFlyer[],
   comets: Comet[],
   background: SynthwaveBackground | null,
-  performanceMode: boolean
+  performanceMode: boolean,
+  gridSpeed: number
 ) {
   const safeBass = clamp01(bass)
   const safeMid = clamp01(mid)
@@ -689,7 +696,7 @@ function drawSynthwaveHorizon(
 
   const rows = performanceMode ? 22 : 30
   // Grid scroll: contemplative crawl during quiet, rushing during peaks
-  const scrollSpeed = (0.12 + tempoHz * 0.14) * (0.7 + dynamicBass * 0.55) * (0.92 + intensityBoost * 0.08)
+  const scrollSpeed = (0.12 + tempoHz * 0.14) * (0.7 + dynamicBass * 0.55) * (0.92 + intensityBoost * 0.08) * gridSpeed
   const scroll = (time * scrollSpeed) % 1
   const pulseZ = beatPhase
   const bassPulse = Math.pow(safeBass, 1.25)
@@ -764,6 +771,8 @@ export function SynthwaveHorizon({
   highLevel,
   seed,
   performanceMode = false,
+  params,
+  beat,
 }: SynthwaveHorizonProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const starsRef = useRef<Star[]>([])
@@ -777,10 +786,15 @@ export function SynthwaveHorizon({
   const loopRef = useRef<((now: number) => void) | null>(null)
   const sizeRef = useRef({ width: 0, height: 0 })
   const audioRef = useRef({ bass: 0, mid: 0, high: 0 })
+  const beatClockRef = useRef(beat)
+  const gridSpeedRef = useRef(1)
 
   audioRef.current.bass = clamp01(bassLevel)
   audioRef.current.mid = clamp01(midLevel)
   audioRef.current.high = clamp01(highLevel)
+  gridSpeedRef.current = params?.scrollSpeed ?? 1
+  beatClockRef.current = beat
+  const starPercent = params?.starCount ?? 100
 
   useEffect(() => {
     activeRef.current = active
@@ -838,7 +852,9 @@ export function SynthwaveHorizon({
       backgroundRef.current = { sky, glow: sunGlow, haze, vignette }
 
       const starDensity = performanceMode ? 18000 : 8000
-      const starCount = Math.min(240, Math.max(80, Math.floor((rect.width * rect.height) / starDensity)))
+      const starCount = Math.round(
+        Math.min(240, Math.max(80, Math.floor((rect.width * rect.height) / starDensity))) * (starPercent / 100),
+      )
       starsRef.current = createStars(rect.width, rect.height, starCount, layoutRandom)
 
       // Increased flyer count for more visual interest in the sky
@@ -865,6 +881,7 @@ export function SynthwaveHorizon({
     let intensityHoldUntil = 0
     let beatInterval = 0.55
     let lastBeatAt = 0
+    let prevBeatPhase = 0
     let prevBass = 0
     let dropPulse = 0
 
@@ -930,13 +947,21 @@ export function SynthwaveHorizon({
         const beatCooldown = Math.max(0.26, beatInterval * 0.55)
         const beatThreshold = intensityMode === "focus" ? 0.7 : intensityMode === "hype" ? 0.56 : 0.62
         const beatSlope = intensityMode === "focus" ? 0.085 : 0.07
-        if (bass > beatThreshold && bassDelta > beatSlope && time - lastBeatAt > beatCooldown) {
+
+        // A confident beat clock takes over: it fires on the kick, not on the smoothed bass rise
+        const beatSnapshot = beatClockRef.current?.current
+        const trackedBeat = crossedBeat(prevBeatPhase, beatSnapshot) ? getBeatPulse(beatSnapshot) : 0
+        prevBeatPhase = beatSnapshot?.phase ?? 0
+        const isBassBeat = bass > beatThreshold && bassDelta > beatSlope && time - lastBeatAt > beatCooldown
+
+        if (isBeatLocked(beatSnapshot) ? trackedBeat > 0 : isBassBeat) {
+          const hit = Math.max(bass, trackedBeat * 0.8)
           const dt = time - lastBeatAt
           if (lastBeatAt > 0 && dt > 0.28 && dt < 1.2) {
             beatInterval = lerp(beatInterval, dt, 0.18)
           }
           lastBeatAt = time
-          dropPulse = Math.max(dropPulse, bass)
+          dropPulse = Math.max(dropPulse, hit)
         }
         dropPulse = Math.max(0, dropPulse - delta * 1.6)
 
@@ -997,7 +1022,8 @@ export function SynthwaveHorizon({
           flyersRef.current,
           cometsRef.current,
           backgroundRef.current,
-          performanceMode
+          performanceMode,
+          gridSpeedRef.current
         )
       }
 
@@ -1022,7 +1048,7 @@ export function SynthwaveHorizon({
       rafRef.current = null
       loopRef.current = null
     }
-  }, [performanceMode, seed])
+  }, [performanceMode, seed, starPercent])
 
   useEffect(() => {
     if (!active) {
@@ -7,9 +7,9 @@ import { GuideContent, NAV_ICONS, GUIDE_NAV_SECTIONS } from "@/components/guide"
 import { MetaDjAiChat } from "@/components/metadjai/MetaDjAiChat"
 import { useTour } from "@/contexts/TourContext"
 import { useUI } from "@/contexts/UIContext"
+import { useMetaDjAi } from "@/hooks/metadjai/use-metadjai"
 import { useBodyScrollLock } from "@/hooks/use-body-scroll-lock"
 import { useFocusTrap } from "@/hooks/use-focus-trap"
-import { useMetaDjAi } from "@/hooks/metadjai/use-metadjai"
 import { BREAKPOINTS } from "@/lib/app.constants"
 
 interface UserGuideOverlayProps {
@@ -210,8 +210,11 @@ export function UserGuideOverlay({ onClose }: UserGuideOverlayProps) {
     onSelectSession: guideMetaDjAiSession.switchSession,
     onDeleteSession: guideMetaDjAiSession.deleteSession,
     onRefreshSessions: guideMetaDjAiSession.refreshSessions,
+    condensedThroughMessageId: guideMetaDjAiSession.condensedThroughMessageId,
     onRegenerate: guideMetaDjAiSession.regenerateLastResponse,
-    onSwitchVersion: guideMetaDjAiSession.switchMessageVersion,
+    messageBranches: guideMetaDjAiSession.messageBranches,
+    onSwitchBranch: guideMetaDjAiSession.switchBranch,
+    onEditMessage: guideMetaDjAiSession.editMessage,
     onRetry: guideMetaDjAiSession.retryLastMessage,
     canRetry: guideMetaDjAiSession.canRetry,
     rateLimit: guideMetaDjAiSession.rateLimit,
@@ -10,9 +10,11 @@ import { ErrorBoundary } from "@/components/ui"
 import { Journal } from "@/components/wisdom/Journal"
 import { WisdomExperience } from "@/components/wisdom/WisdomExperience"
 import { usePlayer } from "@/contexts/PlayerContext"
+import { usePlaylist } from "@/contexts/PlaylistContext"
 import { useQueue } from "@/contexts/QueueContext"
 import { useToast } from "@/contexts/ToastContext"
 import { useUI } from "@/contexts/UIContext"
+import { SCENES } from "@/data/scenes"
 import { useAudioPreloader } from "@/hooks/audio/use-audio-preloader"
 import { useCinema } from "@/hooks/cinema/use-cinema"
 import {
@@ -27,6 +29,7 @@ import {
   useMetaDjAiPanelControls,
   usePlayerControls,
   useHubPlayback,
+  useMoodChannelStream,
 } from "@/hooks/home"
 import { useMetaDjAi } from "@/hooks/metadjai/use-metadjai"
 import { useKeyboardShortcuts } from "@/hooks/use-keyboard-shortcuts"
@@ -36,6 +39,14 @@ import { useTrackDetails } from "@/hooks/use-track-details"
 import { OPEN_FEEDBACK_EVENT } from "@/lib/ai/tools/feedback"
 import { FEATURED_TRACK_IDS, DEFAULT_COLLECTION_ID, FEATURES, RECENTLY_PLAYED_MAX_ITEMS, DEFAULT_FALLBACK_TRACK_ID } from "@/lib/app.constants"
 import { META_DJAI_PROMPT_EVENT, type MetaDjAiExternalPromptDetail } from "@/lib/metadjai/external-prompts"
+import {
+  META_DJAI_CINEMA_EVENT,
+  META_DJAI_DREAM_EVENT,
+  META_DJAI_WISDOM_EVENT,
+  type MetaDjAiCinemaEventDetail,
+  type MetaDjAiDreamEventDetail,
+  type MetaDjAiWisdomEventDetail,
+} from "@/lib/metadjai/proposal-events"
 import {
   getCollectionById,
   getTrackById,
@@ -135,6 +146,12 @@ export function HomePageClient({
     maxItems: RECENTLY_PLAYED_MAX_ITEMS,
   })
 
+  // Smart playlists re-evaluate whenever the catalog changes
+  const { refreshSmartPlaylists } = usePlaylist()
+  useEffect(() => {
+    refreshSmartPlaylists(tracks)
+  }, [refreshSmartPlaylists, tracks])
+
   const shouldPrefetchCinema = mountMode !== "lazy" && shouldUseSidePanels
   const shouldKeepCinemaMounted = mountMode !== "lazy" && shouldUseSidePanels
 
@@ -157,6 +174,10 @@ export function HomePageClient({
     isFullscreen,
     setIsFullscreen,
     posterOnly,
+    sceneRequest,
+    requestScene,
+    clearSceneRequest,
+    requestDreamStart,
     dream,
   } = useCinema({
     currentTrack: player.currentTrack,
@@ -441,6 +462,7 @@ export function HomePageClient({
     handlePrevious,
     toggleQueueVisibility,
     handleShuffleToggle,
+    handleDjOrderToggle,
     handleRepeatToggle,
   } = useQueueControls({
     player,
@@ -585,6 +607,13 @@ export function HomePageClient({
     openDetails,
   })
 
+  // Endless mood channel streams (refills the queue while a channel plays)
+  const { startMoodChannelStream } = useMoodChannelStream({
+    player,
+    queue,
+    tracks,
+  })
+
   // Hub playback controls (extracted to hook)
   const {
     activeMoodChannelId,
@@ -599,6 +628,8 @@ export function HomePageClient({
     setSelectedCollection,
     handleTrackClick,
     handleTrackQueueAdd,
+    setPlaybackSource: queue.setPlaybackSource,
+    startMoodChannelStream,
     showToast,
     shouldUseSidePanels,
     panels,
@@ -632,6 +663,8 @@ export function HomePageClient({
     queue: queue.queue,
     isShuffleEnabled: queue.isShuffleEnabled,
     repeatMode: queue.repeatMode,
+    queueContext: queue.queueContext,
+    playbackSource: queue.playbackSource,
     handleNext,
     handlePrevious,
     handleShuffleToggle,
@@ -674,6 +707,49 @@ export function HomePageClient({
     handleActiveViewChange("wisdom")
   }, [handleActiveViewChange])
 
+  // Confirmed MetaDJai Cinema/Dream/Wisdom proposals
+  useEffect(() => {
+    const handleCinema = (event: Event) => {
+      const { action, sceneId } = (event as CustomEvent<MetaDjAiCinemaEventDetail>).detail || {}
+      if (action === "close") {
+        if (cinemaEnabled) handleCinemaToggle()
+        return
+      }
+      const scene = SCENES.find((entry) => entry.id === sceneId)
+      if (scene) requestScene(scene.id)
+      if (!cinemaEnabled) openCinemaFromHub()
+    }
+
+    const handleDream = (event: Event) => {
+      const { action, prompt } = (event as CustomEvent<MetaDjAiDreamEventDetail>).detail || {}
+      if (action === "stop") {
+        void dream.stopDream()
+        return
+      }
+      if (action === "setPrompt") {
+        if (prompt) dream.setPromptBase(prompt)
+        return
+      }
+      requestDreamStart(prompt)
+      if (!cinemaEnabled) openCinemaFromHub()
+    }
+
+    const handleWisdom = (event: Event) => {
+      const { section, slug } = (event as CustomEvent<MetaDjAiWisdomEventDetail>).detail || {}
+      if (!section || !slug) return
+      openWisdomFromHub(section, slug)
+    }
+
+    window.addEventListener(META_DJAI_CINEMA_EVENT, handleCinema)
+    window.addEventListener(META_DJAI_DREAM_EVENT, handleDream)
+    window.addEventListener(META_DJAI_WISDOM_EVENT, handleWisdom)
+    return () => {
+      window.removeEventListener(META_DJAI_CINEMA_EVENT, handleCinema)
+      window.removeEventListener(META_DJAI_DREAM_EVENT, handleDream)
+      window.removeEventListener(META_DJAI_WISDOM_EVENT, handleWisdom)
+    }
+  }, [cinemaEnabled, dream, handleCinemaToggle, openCinemaFromHub, openWisdomFromHub, requestDreamStart, requestScene])
+
   const openMusicLibraryFromHub = useCallback((tab: LeftPanelTab = "browse") => {
     if (activeView !== "hub") {
       handleActiveViewChange("hub")
@@ -707,6 +783,7 @@ export function HomePageClient({
             tracks={tracks}
             onPlayTrack={handleHubTrackPlay}
             onCinematicPlay={handleTrackClick}
+            onPlayForYou={handleTrackClick}
             onOpenCinema={openCinemaFromHub}
             onOpenMusicPanel={openMusicPanel}
             onOpenWisdom={openWisdomFromHub}
@@ -756,6 +833,8 @@ export function HomePageClient({
     retryVideo,
     resetControlsTimer: resetCinemaControlsTimer,
     hideControlsImmediately: hideCinemaControlsImmediately,
+    sceneRequest,
+    onSceneRequestHandled: clearSceneRequest,
     dream,
   }), [
     cinemaEnabled,
@@ -774,6 +853,8 @@ export function HomePageClient({
     resetCinemaControlsTimer,
     hideCinemaControlsImmediately,
     posterOnly,
+    sceneRequest,
+    clearSceneRequest,
     dream,
   ])
 
@@ -814,6 +895,8 @@ export function HomePageClient({
     onRepeatChange: queue.setRepeatMode,
     onShuffleToggle: queue.queue.length > 0 ? handleShuffleToggle : undefined,
     isShuffleEnabled: queue.isShuffleEnabled,
+    onDjOrderToggle: queue.queue.length > 0 ? handleDjOrderToggle : undefined,
+    isDjOrderEnabled: queue.isDjOrderEnabled,
     onShowDetails: player.currentTrack ? handleShowTrackDetails : undefined,
     // Note: onOpenCollection is added via nowPlayingPropsWithCollection (defined after handleCollectionSelect)
   }), [
@@ -831,9 +914,11 @@ export function HomePageClient({
     queue.repeatMode,
     queue.setRepeatMode,
     queue.isShuffleEnabled,
+    queue.isDjOrderEnabled,
     handleNext,
     handlePrevious,
     handleShuffleToggle,
+    handleDjOrderToggle,
     handleShowTrackDetails,
     handlePlayWithNoTrack,
   ])
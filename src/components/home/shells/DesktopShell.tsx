@@ -264,6 +264,8 @@ function DesktopShell({
         controlInsetLeft={panels.left.isOpen ? PANEL_POSITIONING.LEFT_PANEL.WIDTH + 16 : 16}
         controlInsetRight={panels.right.isOpen ? PANEL_POSITIONING.RIGHT_PANEL.WIDTH + 16 : 16}
         dream={cinema.dream}
+        sceneRequest={cinema.sceneRequest}
+        onSceneRequestHandled={cinema.onSceneRequestHandled}
       />
     </ErrorBoundary>
   ) : null
@@ -190,6 +190,8 @@ function MobileShell({
         controlInsetLeft={16}
         controlInsetRight={16}
         dream={cinema.dream}
+        sceneRequest={cinema.sceneRequest}
+        onSceneRequestHandled={cinema.onSceneRequestHandled}
       />
     </ErrorBoundary>
   ) : null
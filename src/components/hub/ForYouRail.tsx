@@ -0,0 +1,120 @@
+"use client"
+
+/**
+ * For You Rail
+ *
+ * Hub rail of tracks ranked for the signed-in listener by
+ * `/api/auth/recommendations` (listening history + metadata similarity).
+ * Hidden for guests and when recommendations can't be loaded.
+ */
+
+import { useEffect, useMemo, useState } from "react"
+import { Heart } from "lucide-react"
+import { BrandGradientIcon } from "@/components/icons/BrandGradientIcon"
+import { TrackArtwork } from "@/components/ui"
+import { useAuth } from "@/contexts/AuthContext"
+import { fetchRecommendations, type RemoteRecommendations } from "@/lib/listening/remote"
+import type { RecommendationReason } from "@/lib/music/recommendations"
+import type { Track } from "@/types"
+
+const FOR_YOU_LIMIT = 8
+
+const REASON_LABELS: Record<RecommendationReason, string> = {
+  "listened-before": "Back on repeat",
+  "similar-genre": "Your genres",
+  "similar-tempo": "Your tempo",
+  "harmonic-key": "Fits your keys",
+  "new-to-you": "New to you",
+}
+
+interface ForYouRailProps {
+  tracks: Track[]
+  onPlayTrack: (track: Track, railTracks: Track[]) => void
+  currentTrack?: Track | null
+  isPlaying?: boolean
+}
+
+export function ForYouRail({ tracks, onPlayTrack, currentTrack, isPlaying = false }: ForYouRailProps) {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const [result, setResult] = useState<RemoteRecommendations | null>(null)
+
+  useEffect(() => {
+    if (!userId) {
+      setResult(null)
+      return
+    }
+
+    let cancelled = false
+    void fetchRecommendations(FOR_YOU_LIMIT).then((next) => {
+      if (!cancelled) setResult(next)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const items = useMemo(() => {
+    if (!result) return []
+    const trackById = new Map(tracks.map((track) => [track.id, track]))
+    return result.recommendations.flatMap((recommendation) => {
+      const track = trackById.get(recommendation.trackId)
+      return track ? [{ track, reasons: recommendation.reasons }] : []
+    })
+  }, [result, tracks])
+
+  const railTracks = useMemo(() => items.map((item) => item.track), [items])
+
+  if (!userId || !result) return null
+
+  return (
+    <section aria-labelledby="for-you-heading" className="min-[1100px]:flex-shrink-0">
+      <div className="mb-2.5 px-1">
+        <h2
+          id="for-you-heading"
+          className="text-xl font-heading font-semibold flex items-center gap-2.5"
+        >
+          <BrandGradientIcon icon={Heart} className="h-5 w-5" strokeWidth={2.5} />
+          <span className="text-heading-solid">For You</span>
+        </h2>
+      </div>
+
+      {!result.personalized || items.length === 0 ? (
+        <p className="px-1 text-sm text-white/75">
+          Listen to a few tracks and this rail will tune itself to you.
+        </p>
+      ) : (
+        <ul className="flex gap-2 overflow-x-auto pb-1 scrollbar-hide">
+          {items.map(({ track, reasons }) => {
+            const isCurrent = currentTrack?.id === track.id
+            const reason = reasons[0]
+
+            return (
+              <li key={track.id} className="shrink-0 w-36">
+                <button
+                  type="button"
+                  onClick={() => onPlayTrack(track, railTracks)}
+                  className="group w-full text-left rounded-2xl border border-white/10 bg-black/20 p-2 backdrop-blur-xl transition-all duration-300 hover:border-white/25 hover:bg-black/30 focus-ring-light"
+                  aria-label={`Play ${track.title}`}
+                >
+                  <TrackArtwork
+                    artworkUrl={track.artworkUrl}
+                    title={track.title}
+                    className="aspect-square w-full rounded-xl"
+                    sizes="144px"
+                    isPlaying={isCurrent && isPlaying}
+                    showPlayingIndicator={isCurrent}
+                  />
+                  <p className="mt-2 text-sm font-heading font-semibold text-white truncate">{track.title}</p>
+                  <p className="text-[10px] uppercase tracking-wider text-muted-accessible truncate">
+                    {reason ? REASON_LABELS[reason] : track.collection}
+                  </p>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
@@ -3,6 +3,7 @@
 import { useMemo } from "react"
 import { clsx } from "clsx"
 import { Play, MessageSquare, Newspaper, BookOpen, Lightbulb, Compass, Sparkles, Calendar, Globe, ChevronRight } from "lucide-react"
+import { ForYouRail } from "@/components/hub/ForYouRail"
 import { BrandGradientIcon } from "@/components/icons/BrandGradientIcon"
 import { Button, Card } from "@/components/ui"
 import { useToast } from "@/contexts/ToastContext"
@@ -36,6 +37,8 @@ interface HubExperienceProps {
   tracks: Track[]
   onPlayTrack: (track: Track) => void
   onCinematicPlay?: (track: Track) => void
+  /** Plays a "For You" track with the rest of the rail queued after it */
+  onPlayForYou?: (track: Track, railTracks: Track[]) => void
   onOpenCinema: () => void
   onOpenMusicPanel?: () => void
   onOpenWisdom: (section?: WisdomSection, slug?: string) => void
@@ -51,6 +54,7 @@ export function HubExperience({
   tracks,
   onPlayTrack,
   onCinematicPlay,
+  onPlayForYou,
   onOpenCinema,
   onOpenMusicPanel,
   onOpenWisdom,
@@ -192,6 +196,14 @@ export function HubExperience({
       </section>
 
       <div className="relative z-10 px-3 sm:px-6 lg:px-8 pb-2 space-y-3 min-[1100px]:flex-1 min-[1100px]:flex min-[1100px]:flex-col min-[1100px]:overflow-hidden">
+        {/* For You (signed-in listeners) */}
+        <ForYouRail
+          tracks={tracks}
+          onPlayTrack={onPlayForYou ?? ((track) => onPlayTrack(track))}
+          currentTrack={currentTrack}
+          isPlaying={isPlaying}
+        />
+
                 {/* Wisdom Spotlight */}
         {wisdomCards.length > 0 && (
           <section aria-labelledby="wisdom-spotlight-heading" className="min-[1100px]:flex-shrink-0">
@@ -1,2 +1,3 @@
 // Hub components barrel export
 export { HubExperience } from './HubExperience'
+export { ForYouRail } from './ForYouRail'
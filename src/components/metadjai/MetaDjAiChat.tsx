@@ -13,6 +13,7 @@ import { MetaDjAiPersonalizePopover } from "@/components/metadjai/MetaDjAiPerson
 import { MetaDjAiWelcomeState, buildWelcomeStarters, buildNoTrackStarters } from "@/components/metadjai/MetaDjAiWelcomeState"
 import { usePlayer } from "@/contexts/PlayerContext"
 import { useUI } from "@/contexts/UIContext"
+import { useMetaDjAiQuota } from "@/hooks/metadjai/use-metadjai-quota"
 import { useCspStyle } from "@/hooks/use-csp-style"
 import { useDynamicActions } from "@/hooks/use-dynamic-actions"
 import { useFocusTrap } from "@/hooks/use-focus-trap"
@@ -46,7 +47,9 @@ export function MetaDjAiChat({
   onSend,
   onRefresh,
   onRegenerate,
-  onSwitchVersion,
+  messageBranches,
+  onSwitchBranch,
+  onEditMessage,
   onRetry,
   canRetry = false,
   onStop,
@@ -69,6 +72,7 @@ export function MetaDjAiChat({
   onSelectSession,
   onDeleteSession,
   onRefreshSessions,
+  condensedThroughMessageId,
 }: MetaDjAiChatComponentProps) {
   const isPanel = variant === "panel"
   const isFullscreenMobile = isMobileOverlay && variant === "overlay"
@@ -84,6 +88,8 @@ export function MetaDjAiChat({
   const [pendingDeleteSessionId, setPendingDeleteSessionId] = useState<string | null>(null)
   const [runwayHeight, setRunwayHeight] = useState<number | null>(null)
   const [restingRunwayPadding, setRestingRunwayPadding] = useState<number | null>(null)
+  const [pendingJumpMessageId, setPendingJumpMessageId] = useState<string | null>(null)
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null)
   const scrollRef = useRef<HTMLDivElement | null>(null)
   const messageListRef = useRef<HTMLDivElement | null>(null)
   const programmaticScrollRef = useRef(false)
@@ -184,6 +190,17 @@ export function MetaDjAiChat({
     onRefreshSessions?.()
   }, [onRefreshSessions])
 
+  // Search results: open the conversation (and the match's branch), then scroll to it once it renders
+  const handleJumpToMessage = useCallback((sessionId: string, messageId: string | null) => {
+    if (sessionId !== activeSessionId) {
+      onSelectSession?.(sessionId)
+    }
+    if (messageId) {
+      onSwitchBranch?.(messageId)
+    }
+    setPendingJumpMessageId(messageId)
+  }, [activeSessionId, onSelectSession, onSwitchBranch])
+
   useEffect(() => {
     if (!isOpen) {
       setConfirmReset(false)
@@ -485,6 +502,33 @@ export function MetaDjAiChat({
     return () => cancelAnimationFrame(frameId)
   }, [isOpen, latestUserMessageId, scrollToLatestUserMessage])
 
+  // Search jump: wait until the target message is loaded (after a session switch)
+  useEffect(() => {
+    if (!isOpen || !pendingJumpMessageId) return
+    if (!messages.some((message) => message.id === pendingJumpMessageId)) return
+
+    setHighlightedMessageId(pendingJumpMessageId)
+    setPendingJumpMessageId(null)
+  }, [isOpen, messages, pendingJumpMessageId])
+
+  // Runs after the latest-message pin so the jumped-to message wins
+  useEffect(() => {
+    if (!highlightedMessageId) return
+
+    let innerFrameId: number | null = null
+    const frameId = requestAnimationFrame(() => {
+      innerFrameId = requestAnimationFrame(() => {
+        scrollToMessageStart(highlightedMessageId, "smooth")
+      })
+    })
+    const timeoutId = window.setTimeout(() => setHighlightedMessageId(null), 2500)
+    return () => {
+      cancelAnimationFrame(frameId)
+      if (innerFrameId !== null) cancelAnimationFrame(innerFrameId)
+      window.clearTimeout(timeoutId)
+    }
+  }, [highlightedMessageId, scrollToMessageStart])
+
   useEffect(() => {
     if (!isOpen) return
 
@@ -876,6 +920,7 @@ export function MetaDjAiChat({
 
 
   const isRateLimited = rateLimit.isLimited
+  const quota = useMetaDjAiQuota(isStreaming)
   const isSubmitReady = Boolean(inputValue.trim()) && !isRateLimited && !isStreaming
 
   const isWelcomeState = messages.length === 0
@@ -1123,6 +1168,7 @@ export function MetaDjAiChat({
               onArchiveSession={handleArchiveSession}
               onUnarchiveSession={handleUnarchiveSession}
               onRefreshSessions={handleRefreshSessions}
+              onJumpToMessage={handleJumpToMessage}
             />
           )}
 
@@ -1171,8 +1217,12 @@ export function MetaDjAiChat({
                   restingRunwayPadding={restingRunwayPadding}
                   onCopy={handleCopyMessage}
                   onRegenerate={onRegenerate}
-                  onSwitchVersion={onSwitchVersion}
+                  messageBranches={messageBranches}
+                  onSwitchBranch={onSwitchBranch}
+                  onEditMessage={onEditMessage}
                   isConversationStreaming={isStreaming}
+                  condensedThroughMessageId={condensedThroughMessageId}
+                  highlightedMessageId={highlightedMessageId}
                 />
               )}
               {isWelcomeState && (
@@ -1199,6 +1249,7 @@ export function MetaDjAiChat({
               errorMessage={error}
               onRetry={onRetry}
               canRetry={canRetry}
+              quota={quota}
               leadingAccessory={(
                 <button
                   type="button"
@@ -6,7 +6,9 @@ import { SendHorizontal, Square, RotateCcw, Mic, Loader2 } from "lucide-react"
 import { usePlayer } from "@/contexts/PlayerContext"
 import { useToast } from "@/contexts/ToastContext"
 import { useCspStyle } from "@/hooks/use-csp-style"
+import { AI_QUOTA_LOW_FRACTION, AI_QUOTA_TIER_LABELS } from "@/lib/ai/quotas"
 import { logger } from "@/lib/logger"
+import type { MetaDjAiQuotaStatus } from "@/types/metadjai.types"
 
 interface MetaDjAiChatInputProps {
   value: string
@@ -22,6 +24,59 @@ interface MetaDjAiChatInputProps {
   canRetry?: boolean
   leadingAccessory?: React.ReactNode
   footerRight?: React.ReactNode
+  /** Signed-in user's AI quota (null for guests and while loading) */
+  quota?: MetaDjAiQuotaStatus | null
+}
+
+const formatQuotaReset = (resetsAt: number) =>
+  new Date(resetsAt).toLocaleString(undefined, { weekday: "short", hour: "numeric", minute: "2-digit" })
+
+/**
+ * Remaining-quota meter: percent left and tier, warning when low, reset time when used up
+ */
+function QuotaIndicator({ quota }: { quota: MetaDjAiQuotaStatus }) {
+  const tierLabel = AI_QUOTA_TIER_LABELS[quota.tier]
+
+  if (quota.exceeded) {
+    const resetsAt = quota.exceeded === "monthly" ? quota.monthly.resetsAt : quota.daily.resetsAt
+    const resetLabel = formatQuotaReset(resetsAt)
+    return (
+      <span
+        className="text-[10px] font-mono whitespace-nowrap text-red-300/90"
+        role="status"
+        aria-live="polite"
+        title={`${quota.exceeded === "monthly" ? "Monthly" : "Daily"} ${tierLabel} allowance used. Resets ${resetLabel}`}
+      >
+        Allowance used · resets {resetLabel}
+      </span>
+    )
+  }
+
+  if (quota.remainingFraction === null) {
+    return (
+      <span className="text-[10px] font-mono whitespace-nowrap text-muted-accessible" title={`${tierLabel} plan: no AI allowance limits`}>
+        {tierLabel}
+      </span>
+    )
+  }
+
+  const percentLeft = Math.floor(quota.remainingFraction * 100)
+  const isLow = quota.remainingFraction <= AI_QUOTA_LOW_FRACTION
+
+  return (
+    <span
+      className={clsx(
+        "text-[10px] font-mono whitespace-nowrap",
+        isLow ? "text-amber-300/80" : "text-muted-accessible"
+      )}
+      role={isLow ? "status" : undefined}
+      aria-live={isLow ? "polite" : undefined}
+      title={`${tierLabel} plan: ${percentLeft}% of your AI allowance left (daily resets ${formatQuotaReset(quota.daily.resetsAt)})`}
+      aria-label={`${tierLabel} plan, ${percentLeft} percent of your AI allowance left`}
+    >
+      {tierLabel} · {percentLeft}% left
+    </span>
+  )
 }
 
 /**
@@ -33,6 +88,7 @@ interface MetaDjAiChatInputProps {
  * - Mobile keyboard handling (scroll input into view)
  * - Streaming indicator with stop button
  * - Rate limit visual feedback
+ * - Remaining AI quota meter for signed-in users
  */
 export function MetaDjAiChatInput({
   value,
@@ -46,6 +102,7 @@ export function MetaDjAiChatInput({
   canRetry = false,
   leadingAccessory,
   footerRight,
+  quota = null,
 }: MetaDjAiChatInputProps) {
   const textareaRef = useRef<HTMLTextAreaElement | null>(null)
   const [isRecording, setIsRecording] = useState(false)
@@ -88,14 +145,17 @@ export function MetaDjAiChatInput({
     return ""
   }
 
-  const isSubmitReady = Boolean(value.trim()) && !isRateLimited && !isStreaming
+  const isQuotaExhausted = quota?.allowed === false
+  const isSubmitReady = Boolean(value.trim()) && !isRateLimited && !isQuotaExhausted && !isStreaming
   const statusMessage = isRateLimited
     ? "Rate limit active - try again in a moment."
-    : isTranscribing
-      ? "Transcribing audio..."
-      : isRecording
-        ? "Recording... tap to stop."
-        : null
+    : isQuotaExhausted
+      ? "AI allowance used for now."
+      : isTranscribing
+        ? "Transcribing audio..."
+        : isRecording
+          ? "Recording... tap to stop."
+          : null
 
   // Auto-resize textarea based on content
   // Properly handles both expansion and contraction
@@ -136,12 +196,12 @@ export function MetaDjAiChatInput({
     (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
       if (event.key === "Enter" && !event.shiftKey) {
         event.preventDefault()
-        if (!isRateLimited) {
+        if (!isRateLimited && !isQuotaExhausted) {
           onSubmit()
         }
       }
     },
-    [isRateLimited, onSubmit]
+    [isQuotaExhausted, isRateLimited, onSubmit]
   )
 
   const handleFormSubmit = useCallback(
@@ -391,7 +451,12 @@ export function MetaDjAiChatInput({
             {statusMessage}
           </span>
         ) : null}
-        {footerRight ? <div className="shrink-0">{footerRight}</div> : null}
+        {quota || footerRight ? (
+          <div className="flex shrink-0 items-center gap-2">
+            {quota ? <QuotaIndicator quota={quota} /> : null}
+            {footerRight}
+          </div>
+        ) : null}
       </div>
     </form>
   )
@@ -5,14 +5,27 @@
  *
  * Displays chat session history with the ability to switch between
  * sessions, create new ones, archive, unarchive, and delete conversations.
+ * Signed-in users can full-text search their conversations and jump to a
+ * matching message, download or share a conversation, and export or import
+ * all of them.
  */
 
 import { type RefObject, useState, useEffect, useCallback, useId } from "react"
 import clsx from "clsx"
-import { X, Plus, Trash2, AlertTriangle, Archive, ArchiveRestore, Loader2 } from "lucide-react"
+import { X, Plus, Trash2, AlertTriangle, Archive, ArchiveRestore, Loader2, Search, Download, Link2 } from "lucide-react"
+import { MetaDjAiHistoryTransfer } from "@/components/metadjai/MetaDjAiHistoryTransfer"
 import { Modal, ModalContent } from "@/components/ui"
+import { useAuth } from "@/contexts/AuthContext"
+import { useDebounce } from "@/hooks/use-debounce"
 import { logger } from "@/lib/logger"
-import type { MetaDjAiChatSessionSummary } from "@/types/metadjai.types"
+import {
+  downloadMetaDjAiConversations,
+  searchMetaDjAiConversations,
+  shareMetaDjAiConversation,
+  unshareMetaDjAiConversation,
+} from "@/lib/metadjai"
+import { CONVERSATION_SEARCH_MAX_QUERY_LENGTH, normalizeSearchQuery } from "@/lib/metadjai/conversation-search"
+import type { MetaDjAiChatSessionSummary, MetaDjAiConversationSearchResult } from "@/types/metadjai.types"
 
 type TabType = "active" | "archived"
 
@@ -40,8 +53,12 @@ interface MetaDjAiHistoryPopoverProps {
   onArchiveSession?: (sessionId: string) => void
   onUnarchiveSession?: (sessionId: string) => void
   onRefreshSessions?: () => void
+  /** Open a conversation and scroll to a message (null: just open it) */
+  onJumpToMessage?: (sessionId: string, messageId: string | null) => void
 }
 
+const SEARCH_DEBOUNCE_MS = 300
+
 const toErrorMessage = (error: unknown) =>
   error instanceof Error ? error.message : String(error)
 
@@ -60,14 +77,25 @@ export function MetaDjAiHistoryPopover({
   onArchiveSession,
   onUnarchiveSession,
   onRefreshSessions,
+  onJumpToMessage,
 }: MetaDjAiHistoryPopoverProps) {
+  const { isAuthenticated } = useAuth()
   const [activeTab, setActiveTab] = useState<TabType>("active")
+  const [searchQuery, setSearchQuery] = useState("")
+  const [searchResults, setSearchResults] = useState<MetaDjAiConversationSearchResult[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const [searchError, setSearchError] = useState<string | null>(null)
+  const debouncedSearchQuery = useDebounce(searchQuery, SEARCH_DEBOUNCE_MS)
+  const canSearch = isAuthenticated && Boolean(onJumpToMessage)
+  const isSearchActive = canSearch && activeTab === "active" && normalizeSearchQuery(searchQuery) !== null
   const [archivedConversations, setArchivedConversations] = useState<ArchivedConversation[]>([])
   const [isLoadingArchived, setIsLoadingArchived] = useState(false)
   const [archiveError, setArchiveError] = useState<string | null>(null)
   const [pendingArchiveId, setPendingArchiveId] = useState<string | null>(null)
   const [pendingUnarchiveId, setPendingUnarchiveId] = useState<string | null>(null)
   const [pendingHardDeleteId, setPendingHardDeleteId] = useState<string | null>(null)
+  const [pendingShareId, setPendingShareId] = useState<string | null>(null)
+  const [sharedLink, setSharedLink] = useState<{ sessionId: string; url: string | null } | null>(null)
   const deleteDialogTitleId = useId()
   const deleteDialogDescriptionId = useId()
   const hardDeleteTitleId = useId()
@@ -106,6 +134,33 @@ export function MetaDjAiHistoryPopover({
     }
   }, [activeTab, fetchArchivedConversations])
 
+  useEffect(() => {
+    const query = canSearch ? normalizeSearchQuery(debouncedSearchQuery) : null
+    if (!query) {
+      setSearchResults(null)
+      setSearchError(null)
+      setIsSearching(false)
+      return
+    }
+
+    const controller = new AbortController()
+    setIsSearching(true)
+    setSearchError(null)
+    searchMetaDjAiConversations(query, { signal: controller.signal }).then((results) => {
+      if (controller.signal.aborted) return
+      setSearchResults(results ?? [])
+      setSearchError(results ? null : "Search is unavailable right now")
+      setIsSearching(false)
+    })
+    return () => controller.abort()
+  }, [canSearch, debouncedSearchQuery])
+
+  const handleSelectSearchResult = (result: MetaDjAiConversationSearchResult) => {
+    onJumpToMessage?.(result.conversationId, result.messageId)
+    onClose()
+    onSetPendingDelete(null)
+  }
+
   const handleSelectSession = (sessionId: string) => {
     onSelectSession(sessionId)
     onClose()
@@ -164,6 +219,29 @@ export function MetaDjAiHistoryPopover({
     }
   }
 
+  // Share: create a fresh link and copy it (sharing again replaces the old link)
+  const handleShareSession = async (sessionId: string) => {
+    setPendingShareId(sessionId)
+    const share = await shareMetaDjAiConversation(sessionId)
+    if (share) {
+      await navigator.clipboard?.writeText(share.url).catch(() => undefined)
+    }
+    setSharedLink({ sessionId, url: share?.url ?? null })
+    setPendingShareId(null)
+  }
+
+  const handleStopSharing = async (sessionId: string) => {
+    setPendingShareId(sessionId)
+    const ok = await unshareMetaDjAiConversation(sessionId)
+    if (ok) setSharedLink(null)
+    setPendingShareId(null)
+  }
+
+  const handleImported = () => {
+    onRefreshSessions?.()
+    if (activeTab === "archived") fetchArchivedConversations()
+  }
+
   const handleConfirmHardDelete = async () => {
     if (!pendingHardDeleteId) return
 
@@ -257,7 +335,72 @@ export function MetaDjAiHistoryPopover({
           </button>
         </div>
 
-        {activeTab === "active" && (
+        {canSearch && activeTab === "active" && (
+          <label className="relative mb-3 block">
+            <span className="sr-only">Search conversations</span>
+            <Search className="pointer-events-none absolute left-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 text-muted-accessible" aria-hidden="true" />
+            <input
+              type="search"
+              value={searchQuery}
+              onChange={(event) => setSearchQuery(event.target.value)}
+              maxLength={CONVERSATION_SEARCH_MAX_QUERY_LENGTH}
+              placeholder="Search conversations"
+              className="w-full rounded-2xl border border-white/10 bg-black/30 py-2 pl-8 pr-3 text-sm text-white placeholder:text-muted-accessible focus-ring-light"
+            />
+          </label>
+        )}
+
+        {isSearchActive && (
+          <div className="max-h-[55vh] overflow-y-auto pr-1 scrollbar-on-hover" aria-live="polite">
+            {isSearching && !searchResults && (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-5 w-5 animate-spin text-white/50" />
+              </div>
+            )}
+
+            {searchError && (
+              <div className="text-center text-xs text-red-400 py-6">{searchError}</div>
+            )}
+
+            {!searchError && searchResults?.length === 0 && (
+              <div className="text-center text-xs text-white/70 py-6">No matches in your chats.</div>
+            )}
+
+            {!searchError && searchResults && searchResults.length > 0 && (
+              <ul className={clsx("space-y-2 transition-opacity", isSearching && "opacity-60")}>
+                {searchResults.map((result) => (
+                  <li key={`${result.conversationId}:${result.messageId ?? "title"}`}>
+                    <button
+                      type="button"
+                      onClick={() => handleSelectSearchResult(result)}
+                      className="w-full rounded-2xl border border-white/10 bg-white/5 px-3 py-2 text-left transition-all hover:border-white/20 hover:bg-white/8"
+                    >
+                      <p className="text-sm font-semibold text-white truncate">{result.conversationTitle}</p>
+                      <p className="text-[11px] text-white/70 truncate">
+                        {result.role === "user" ? "You" : result.role === "assistant" ? "MetaDJai" : "Title match"} · {new Date(result.createdAt).toLocaleString()}
+                      </p>
+                      {result.messageId && result.snippet.length > 0 && (
+                        <p className="mt-1 text-xs leading-relaxed text-white/80 line-clamp-3">
+                          {result.snippet.map((segment, index) =>
+                            segment.highlight ? (
+                              <mark key={index} className="rounded-sm bg-purple-400/30 px-0.5 text-white">
+                                {segment.text}
+                              </mark>
+                            ) : (
+                              <span key={index}>{segment.text}</span>
+                            )
+                          )}
+                        </p>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {activeTab === "active" && !isSearchActive && (
           <ul className="space-y-2 max-h-[55vh] overflow-y-auto pr-1 scrollbar-on-hover">
             {sessions.length === 0 && (
               <li className="text-center text-xs text-white/70 py-6">No saved chats yet.</li>
@@ -265,12 +408,14 @@ export function MetaDjAiHistoryPopover({
             {sessions.map((session) => {
               const isActive = activeSessionId === session.id
               const isArchiving = pendingArchiveId === session.id
+              const isSharing = pendingShareId === session.id
+              const shareNotice = sharedLink?.sessionId === session.id ? sharedLink : null
               const updatedLabel = new Date(session.updatedAt).toLocaleString()
               return (
                 <li
                   key={session.id}
                   className={clsx(
-                    "flex items-start gap-2 rounded-2xl border px-3 py-2 transition-all",
+                    "flex flex-wrap items-start gap-2 rounded-2xl border px-3 py-2 transition-all",
                     isActive
                       ? "border-purple-400/40 bg-purple-500/10"
                       : "border-white/10 bg-white/5 hover:border-white/20 hover:bg-white/8"
@@ -288,6 +433,32 @@ export function MetaDjAiHistoryPopover({
                   </button>
 
                   <div className="flex items-center gap-1">
+                    {isAuthenticated && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => downloadMetaDjAiConversations("markdown", session.id)}
+                          className="inline-flex h-7 w-7 items-center justify-center rounded-md text-muted-accessible hover:text-white hover:bg-white/10"
+                          aria-label="Download chat as Markdown"
+                        >
+                          <Download className="h-3.5 w-3.5" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleShareSession(session.id)}
+                          disabled={isSharing}
+                          className="inline-flex h-7 w-7 items-center justify-center rounded-md text-muted-accessible hover:text-cyan-200 hover:bg-cyan-500/10 disabled:opacity-50"
+                          aria-label="Share chat link"
+                        >
+                          {isSharing ? (
+                            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                          ) : (
+                            <Link2 className="h-3.5 w-3.5" />
+                          )}
+                        </button>
+                      </>
+                    )}
+
                     <button
                       type="button"
                       onClick={() => handleArchiveSession(session.id)}
@@ -313,6 +484,34 @@ export function MetaDjAiHistoryPopover({
                       </button>
                     )}
                   </div>
+
+                  {shareNotice && (
+                    <div className="basis-full flex flex-wrap items-center gap-x-2 gap-y-1 text-[11px]" aria-live="polite">
+                      {shareNotice.url ? (
+                        <>
+                          <span className="text-cyan-200">Link copied.</span>
+                          <a
+                            href={shareNotice.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="min-w-0 flex-1 truncate text-white/70 underline underline-offset-2 hover:text-white"
+                          >
+                            {shareNotice.url}
+                          </a>
+                          <button
+                            type="button"
+                            onClick={() => handleStopSharing(session.id)}
+                            disabled={isSharing}
+                            className="text-white/60 hover:text-red-200 disabled:opacity-50"
+                          >
+                            Stop sharing
+                          </button>
+                        </>
+                      ) : (
+                        <span className="text-red-400">Couldn&apos;t create a share link.</span>
+                      )}
+                    </div>
+                  )}
                 </li>
               )
             })}
@@ -385,6 +584,8 @@ export function MetaDjAiHistoryPopover({
             )}
           </div>
         )}
+
+        {isAuthenticated && !isSearchActive && <MetaDjAiHistoryTransfer onImported={handleImported} />}
       </div>
 
       {pendingDeleteSessionId && onDeleteSession && (
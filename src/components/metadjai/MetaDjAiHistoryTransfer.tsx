@@ -0,0 +1,114 @@
+"use client"
+
+/**
+ * MetaDJai History Transfer
+ *
+ * Footer of the History popover for signed-in users: export every
+ * conversation (JSON for re-import, Markdown for reading) and import a JSON
+ * export, which restores archived threads too.
+ */
+
+import { type ChangeEvent, useRef, useState } from "react"
+import { Download, Loader2, Upload } from "lucide-react"
+import {
+  downloadMetaDjAiConversations,
+  importMetaDjAiConversations,
+  type MetaDjAiExportFormat,
+} from "@/lib/metadjai"
+
+interface MetaDjAiHistoryTransferProps {
+  /** Called after a successful import so the lists can refresh */
+  onImported?: () => void
+}
+
+const buttonClassName =
+  "inline-flex items-center gap-1 rounded-md bg-white/5 px-2.5 py-1 text-[10px] font-heading font-medium uppercase tracking-[0.1em] text-white/60 hover:bg-white/10 hover:text-white transition disabled:opacity-50"
+
+export function MetaDjAiHistoryTransfer({ onImported }: MetaDjAiHistoryTransferProps) {
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const [pendingAction, setPendingAction] = useState<MetaDjAiExportFormat | "import" | null>(null)
+  const [status, setStatus] = useState<{ message: string; isError: boolean } | null>(null)
+
+  const handleExport = async (format: MetaDjAiExportFormat) => {
+    setPendingAction(format)
+    setStatus(null)
+    const ok = await downloadMetaDjAiConversations(format)
+    setStatus(ok ? null : { message: "Export failed. Try again.", isError: true })
+    setPendingAction(null)
+  }
+
+  const handleImportFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setPendingAction("import")
+    setStatus(null)
+    try {
+      const summary = await importMetaDjAiConversations(file)
+      const archivedLabel = summary.archived > 0 ? ` (${summary.archived} archived)` : ""
+      const skippedLabel = summary.skipped > 0 ? `, ${summary.skipped} already here` : ""
+      setStatus({
+        message: `Imported ${summary.imported} chat${summary.imported === 1 ? "" : "s"}${archivedLabel}${skippedLabel}.`,
+        isError: false,
+      })
+      if (summary.imported > 0) onImported?.()
+    } catch (error) {
+      setStatus({ message: error instanceof Error ? error.message : "Import failed.", isError: true })
+    } finally {
+      setPendingAction(null)
+    }
+  }
+
+  return (
+    <div className="mt-3 border-t border-white/10 pt-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-auto text-[10px] font-heading uppercase tracking-[0.15em] text-white/50">All chats</span>
+        <button
+          type="button"
+          onClick={() => handleExport("json")}
+          disabled={pendingAction !== null}
+          className={buttonClassName}
+          aria-label="Export all chats as JSON"
+        >
+          {pendingAction === "json" ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />}
+          JSON
+        </button>
+        <button
+          type="button"
+          onClick={() => handleExport("markdown")}
+          disabled={pendingAction !== null}
+          className={buttonClassName}
+          aria-label="Export all chats as Markdown"
+        >
+          {pendingAction === "markdown" ? <Loader2 className="h-3 w-3 animate-spin" /> : <Download className="h-3 w-3" />}
+          Markdown
+        </button>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={pendingAction !== null}
+          className={buttonClassName}
+        >
+          {pendingAction === "import" ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />}
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleImportFile}
+          className="hidden"
+          aria-hidden="true"
+          tabIndex={-1}
+        />
+      </div>
+      <p
+        aria-live="polite"
+        className={!status ? "sr-only" : status.isError ? "mt-2 text-[11px] text-red-400" : "mt-2 text-[11px] text-white/70"}
+      >
+        {status?.message}
+      </p>
+    </div>
+  )
+}
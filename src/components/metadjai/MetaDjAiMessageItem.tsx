@@ -1,19 +1,22 @@
 "use client"
 
-import React, { memo, useMemo, forwardRef, useCallback } from "react"
+import React, { memo, useMemo, forwardRef, useCallback, useState } from "react"
 import Image from "next/image"
 import clsx from "clsx"
-import { Copy, Search, HelpCircle, Sparkles, Library, RotateCcw, ChevronLeft, ChevronRight, Square, CheckSquare, Globe, Play, Pause, SkipForward, SkipBack, ListMusic, Check, X, Music } from "lucide-react"
+import { Copy, Search, HelpCircle, Sparkles, Library, RotateCcw, ChevronLeft, ChevronRight, Square, CheckSquare, Globe, Play, Pause, SkipForward, SkipBack, ListMusic, Check, X, Music, Pencil, Film, WandSparkles, BookOpen } from "lucide-react"
 import ReactMarkdown, { type Components } from "react-markdown"
 import remarkGfm from "remark-gfm"
+import { MetaDjAiSetPlanCard } from "@/components/metadjai/MetaDjAiSetPlanCard"
+import { MetaDjAiStreamingSkeleton } from "@/components/metadjai/MetaDjAiStreamingSkeleton"
+import { ApprovalBadge, resolveTracksFromIds, useMusicPanelOpener } from "@/components/metadjai/proposal-card-helpers"
 import { usePlayer } from "@/contexts/PlayerContext"
 import { usePlaylist } from "@/contexts/PlaylistContext"
 import { useQueue } from "@/contexts/QueueContext"
 import { useToast } from "@/contexts/ToastContext"
 import { useUI } from "@/contexts/UIContext"
-import { trackIndex } from "@/lib/music/data"
-import { MetaDjAiStreamingSkeleton } from "@/components/metadjai/MetaDjAiStreamingSkeleton"
-import type { MetaDjAiMessage, PlaybackProposal, QueueSetProposal, UiProposal, PlaylistProposal } from "@/types/metadjai.types"
+import { dispatchMetaDjAiCinema, dispatchMetaDjAiDream, dispatchMetaDjAiWisdom } from "@/lib/metadjai/proposal-events"
+import { buildWisdomDeepLinkPath } from "@/lib/wisdom"
+import type { MetaDjAiMessage, MetaDjAiMessageBranch, PlaybackProposal, QueueSetProposal, UiProposal, PlaylistProposal, CinemaProposal, DreamProposal, WisdomProposal } from "@/types/metadjai.types"
 
 /**
  * Tool display configuration for showing which tool is being used
@@ -28,6 +31,10 @@ const TOOL_DISPLAY: Record<string, { label: string; icon: typeof Search }> = {
   proposeQueueSet: { label: "Lining up the queue...", icon: ListMusic },
   proposePlaylist: { label: "Curating a playlist...", icon: Music },
   proposeSurface: { label: "Preparing a suggestion...", icon: Sparkles },
+  proposeCinema: { label: "Setting the scene...", icon: Film },
+  proposeDream: { label: "Shaping a Dream...", icon: WandSparkles },
+  proposeWisdom: { label: "Finding a Wisdom entry...", icon: BookOpen },
+  proposeSetPlan: { label: "Planning your set...", icon: ListMusic },
 }
 
 type MarkdownNode = {
@@ -40,9 +47,15 @@ interface MessageItemProps {
   message: MetaDjAiMessage
   onCopy?: (value: string) => void
   onRegenerate?: () => void
-  onSwitchVersion?: (messageId: string, versionIndex: number) => void
+  /** Position among sibling branches (set when the turn has alternatives) */
+  branch?: MetaDjAiMessageBranch
+  onSwitchBranch?: (messageId: string) => void
+  /** Edit a user message into a new branch */
+  onEdit?: (messageId: string, content: string) => void
   isLastAssistantMessage?: boolean
   isConversationStreaming?: boolean
+  /** Briefly ring the message (history search jump) */
+  isHighlighted?: boolean
 }
 
 /**
@@ -106,40 +119,13 @@ function sanitizeMarkdownHref(href: unknown): string | null {
   return null
 }
 
-function resolveTracksFromIds(trackIds: string[]) {
-  return trackIds
-    .map((id) => trackIndex.get(id))
-    .filter((track): track is NonNullable<typeof track> => Boolean(track))
-}
-
-function useMusicPanelOpener() {
-  const ui = useUI()
-
-  return useCallback(
-    (tab?: UiProposal["tab"]) => {
-      if (tab) {
-        ui.setLeftPanelTab(tab)
-      }
-      window.dispatchEvent(new CustomEvent("metadj:openMusicPanel"))
-    },
-    [ui]
-  )
-}
-
-function ApprovalBadge() {
-  return (
-    <span className="inline-flex items-center rounded-full border border-white/15 bg-white/5 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider text-white/70">
-      Approval required
-    </span>
-  )
-}
-
 /**
  * Interactive card for playback proposals (Active Control)
  */
 function PlaybackProposalCard({ proposal }: { proposal: PlaybackProposal }) {
   const { play, pause, currentTrack, currentIndex, setCurrentTrack, setCurrentIndex, setShouldPlay } = usePlayer()
-  const { queue, manualTrackIds, setQueue, setManualTrackIds } = useQueue()
+  const { queue, manualTrackIds, setQueue, setManualTrackIds, setPlaybackSource } = useQueue()
+  const { catalogTracks } = usePlaylist()
   const { showToast } = useToast()
   const openMusicPanel = useMusicPanelOpener()
   const [status, setStatus] = React.useState<'pending' | 'confirmed' | 'cancelled'>('pending')
@@ -169,13 +155,15 @@ function PlaybackProposalCard({ proposal }: { proposal: PlaybackProposal }) {
         }
 
         {
-          const track = trackIndex.get(proposal.trackId)
+          const track = catalogTracks.find((t) => t.id === proposal.trackId)
           if (!track) {
             showToast({ message: "Track not found", variant: "error" })
             setStatus('cancelled')
             break
           }
 
+          setPlaybackSource({ type: 'ai-proposal', id: 'playback' })
+
           // If already in the current queue, jump to it.
           const existingIndex = queue.findIndex(t => t.id === track.id)
           if (existingIndex !== -1) {
@@ -247,7 +235,7 @@ function PlaybackProposalCard({ proposal }: { proposal: PlaybackProposal }) {
         }
 
         {
-          const track = trackIndex.get(proposal.trackId)
+          const track = catalogTracks.find((t) => t.id === proposal.trackId)
           if (!track) {
             showToast({ message: "Track not found", variant: "error" })
             setStatus('cancelled')
@@ -446,12 +434,215 @@ function UiProposalCard({ proposal }: { proposal: UiProposal }) {
   )
 }
 
+/**
+ * Shared confirm/cancel card for single-step proposals (Cinema, Dream, Wisdom).
+ * `onConfirm` returns false when the action can't run, which marks the card cancelled.
+ */
+function ActionProposalCard({
+  proposal,
+  icon: Icon,
+  title,
+  description,
+  detail,
+  onConfirm,
+}: {
+  proposal: CinemaProposal | DreamProposal | WisdomProposal
+  icon: typeof Search
+  title: string
+  description: string
+  detail?: string
+  onConfirm: () => boolean
+}) {
+  const [status, setStatus] = React.useState<'pending' | 'confirmed' | 'cancelled'>('pending')
+
+  React.useEffect(() => {
+    setStatus('pending')
+  }, [proposal])
+
+  if (status !== 'pending') {
+    return (
+      <div className={clsx(
+        "mt-3 rounded-xl border px-4 py-3 text-sm",
+        status === 'confirmed' ? "border-green-500/30 bg-green-500/10 text-green-200" : "border-white/10 bg-white/5 text-muted-accessible"
+      )}>
+        <div className="flex items-center gap-2">
+          {status === 'confirmed' ? <Check className="h-4 w-4" /> : <X className="h-4 w-4" />}
+          <span>{status === 'confirmed' ? "Action confirmed" : "Action cancelled"}</span>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-3 overflow-hidden rounded-2xl border border-cyan-500/25 bg-cyan-950/15">
+      <div className="px-4 py-3">
+        <div className="flex items-start gap-3">
+          <div className="mt-1 rounded-full bg-cyan-500/20 p-1.5 text-cyan-300">
+            <Icon className="h-4 w-4" />
+          </div>
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <h4 className="font-heading text-sm font-semibold text-heading-solid">{title}</h4>
+              {proposal.approvalRequired !== false && <ApprovalBadge />}
+            </div>
+            <p className="text-xs text-white/70 mt-0.5">{description}</p>
+            {detail && <p className="mt-1 truncate text-[11px] text-white/50">{detail}</p>}
+          </div>
+        </div>
+      </div>
+      <div className="flex border-t border-white/10">
+        <button
+          onClick={() => setStatus('cancelled')}
+          className="flex-1 py-2.5 text-xs font-semibold uppercase tracking-wider text-white/60 hover:bg-white/5 transition"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => setStatus(onConfirm() ? 'confirmed' : 'cancelled')}
+          className="flex-1 border-l border-white/10 py-2.5 text-xs font-semibold uppercase tracking-wider text-cyan-400 hover:bg-cyan-500/10 transition"
+        >
+          Confirm
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Interactive card for Cinema proposals (Active Control)
+ */
+function CinemaProposalCard({ proposal }: { proposal: CinemaProposal }) {
+  const { showToast } = useToast()
+
+  const handleConfirm = () => {
+    if (proposal.action !== 'close' && proposal.sceneName && !proposal.sceneId) {
+      showToast({ message: "Scene not found", variant: "error" })
+      return false
+    }
+    dispatchMetaDjAiCinema({ action: proposal.action, sceneId: proposal.sceneId })
+    showToast({
+      message: proposal.action === 'close'
+        ? "Cinema closed"
+        : proposal.sceneName ? `Cinema: ${proposal.sceneName}` : "Cinema opened",
+    })
+    return true
+  }
+
+  const title =
+    proposal.action === 'close' ? 'Close Cinema?' :
+      proposal.action === 'scene' ? 'Switch Cinema scene?' :
+        'Open Cinema?'
+
+  const description =
+    proposal.context ||
+    (proposal.action === 'close'
+      ? 'Exit Cinema and return to the Hub.'
+      : proposal.sceneName
+        ? `Show "${proposal.sceneName}" in Cinema.`
+        : 'Open Cinema with your current scene.')
+
+  return (
+    <ActionProposalCard
+      proposal={proposal}
+      icon={Film}
+      title={title}
+      description={description}
+      onConfirm={handleConfirm}
+    />
+  )
+}
+
+/**
+ * Interactive card for Dream proposals (Active Control)
+ */
+function DreamProposalCard({ proposal }: { proposal: DreamProposal }) {
+  const { showToast } = useToast()
+
+  const handleConfirm = () => {
+    if (proposal.action === 'setPrompt' && !proposal.prompt) {
+      showToast({ message: "No Dream prompt to apply", variant: "error" })
+      return false
+    }
+    dispatchMetaDjAiDream({ action: proposal.action, prompt: proposal.prompt })
+    showToast({
+      message: proposal.action === 'stop'
+        ? "Dream stopped"
+        : proposal.action === 'setPrompt' ? "Dream prompt updated" : "Starting Dream",
+    })
+    return true
+  }
+
+  const title =
+    proposal.action === 'stop' ? 'Stop Dream?' :
+      proposal.action === 'setPrompt' ? 'Change Dream prompt?' :
+        'Start a Dream?'
+
+  const description =
+    proposal.context ||
+    (proposal.action === 'stop'
+      ? 'End the Dream overlay and return to the Cinema scene.'
+      : proposal.action === 'setPrompt'
+        ? 'Update the running Dream with a new prompt.'
+        : 'Open Cinema and start Dream with your camera.')
+
+  return (
+    <ActionProposalCard
+      proposal={proposal}
+      icon={WandSparkles}
+      title={title}
+      description={description}
+      detail={proposal.action !== 'stop' && proposal.prompt ? `Prompt: ${proposal.prompt}` : undefined}
+      onConfirm={handleConfirm}
+    />
+  )
+}
+
+const WISDOM_SECTION_LABELS: Record<WisdomProposal["section"], string> = {
+  thoughts: "Thoughts",
+  guides: "Guides",
+  reflections: "Reflections",
+}
+
+/**
+ * Interactive card for Wisdom entry proposals (Active Control)
+ */
+function WisdomProposalCard({ proposal }: { proposal: WisdomProposal }) {
+  const { showToast } = useToast()
+  const sectionLabel = WISDOM_SECTION_LABELS[proposal.section]
+
+  const handleConfirm = () => {
+    if (!proposal.id) {
+      showToast({ message: "Wisdom entry not found", variant: "error" })
+      return false
+    }
+    dispatchMetaDjAiWisdom({ section: proposal.section, slug: proposal.id })
+    showToast({ message: `${sectionLabel} opened` })
+    return true
+  }
+
+  const description =
+    proposal.context ||
+    (proposal.title ? `Open "${proposal.title}" in ${sectionLabel}.` : `Open ${sectionLabel}.`)
+
+  return (
+    <ActionProposalCard
+      proposal={proposal}
+      icon={BookOpen}
+      title={`Open ${sectionLabel} entry?`}
+      description={description}
+      detail={proposal.id ? buildWisdomDeepLinkPath(proposal.section, proposal.id) : undefined}
+      onConfirm={handleConfirm}
+    />
+  )
+}
+
 /**
  * Interactive card for multi-track queue proposals (Active Control)
  */
 function QueueSetProposalCard({ proposal }: { proposal: QueueSetProposal }) {
   const player = usePlayer()
   const queueState = useQueue()
+  const { catalogTracks } = usePlaylist()
   const { showToast } = useToast()
   const openMusicPanel = useMusicPanelOpener()
   const [status, setStatus] = React.useState<'pending' | 'confirmed' | 'cancelled'>('pending')
@@ -464,7 +655,10 @@ function QueueSetProposalCard({ proposal }: { proposal: QueueSetProposal }) {
     setAutoplay(Boolean(proposal.autoplay))
   }, [proposal])
 
-  const resolvedTracks = useMemo(() => resolveTracksFromIds(proposal.trackIds), [proposal.trackIds])
+  const resolvedTracks = useMemo(
+    () => resolveTracksFromIds(proposal.trackIds, catalogTracks),
+    [proposal.trackIds, catalogTracks]
+  )
   const previewTitles = resolvedTracks.slice(0, 3).map((track) => track.title)
   const totalTracks = resolvedTracks.length
 
@@ -502,6 +696,7 @@ function QueueSetProposalCard({ proposal }: { proposal: QueueSetProposal }) {
     queueState.setManualTrackIds(nextManualIds)
     queueState.setAutoQueue([])
     queueState.setQueueContext('playlist')
+    queueState.setPlaybackSource({ type: 'ai-proposal', id: 'queue-set' })
 
     if (autoplay && newTracks[0]) {
       const targetIndex = mode === 'append' ? queueState.queue.length : 0
@@ -621,7 +816,7 @@ function QueueSetProposalCard({ proposal }: { proposal: QueueSetProposal }) {
 function PlaylistProposalCard({ proposal }: { proposal: PlaylistProposal }) {
   const player = usePlayer()
   const queueState = useQueue()
-  const { createPlaylist, addTracksToPlaylist } = usePlaylist()
+  const { createPlaylist, addTracksToPlaylist, catalogTracks } = usePlaylist()
   const { showToast } = useToast()
   const openMusicPanel = useMusicPanelOpener()
   const [status, setStatus] = React.useState<'pending' | 'confirmed' | 'cancelled'>('pending')
@@ -634,7 +829,10 @@ function PlaylistProposalCard({ proposal }: { proposal: PlaylistProposal }) {
     setAutoplay(Boolean(proposal.autoplay))
   }, [proposal])
 
-  const resolvedTracks = useMemo(() => resolveTracksFromIds(proposal.trackIds ?? []), [proposal.trackIds])
+  const resolvedTracks = useMemo(
+    () => resolveTracksFromIds(proposal.trackIds ?? [], catalogTracks),
+    [proposal.trackIds, catalogTracks]
+  )
   const previewTitles = resolvedTracks.slice(0, 3).map((track) => track.title)
   const totalTracks = resolvedTracks.length
   const shouldQueue = queueMode !== 'none'
@@ -680,6 +878,7 @@ function PlaylistProposalCard({ proposal }: { proposal: PlaylistProposal }) {
         queueState.setManualTrackIds(nextManualIds)
         queueState.setAutoQueue([])
         queueState.setQueueContext('playlist')
+        queueState.setPlaybackSource({ type: 'ai-proposal', id: 'playlist' })
 
         if (autoplay && newTracks[0]) {
           const targetIndex = mode === 'append' ? queueState.queue.length : 0
@@ -860,14 +1059,57 @@ const CodeBlock = ({ children }: React.HTMLAttributes<HTMLPreElement>) => {
   )
 }
 
+/**
+ * "< 2/3 >" navigation between sibling branches (edits or regenerations)
+ */
+function BranchNavigator({
+  branch,
+  onSwitchBranch,
+  disabled,
+}: {
+  branch: MetaDjAiMessageBranch
+  onSwitchBranch: (messageId: string) => void
+  disabled?: boolean
+}) {
+  const previousId = branch.siblingIds[branch.index - 1]
+  const nextId = branch.siblingIds[branch.index + 1]
+
+  return (
+    <div className="flex items-center gap-0.5 rounded-full border border-white/15 px-1 py-0.5">
+      <button
+        type="button"
+        onClick={() => previousId && onSwitchBranch(previousId)}
+        disabled={disabled || !previousId}
+        className="p-0.5 text-muted-accessible transition hover:text-white/80 disabled:opacity-30 disabled:cursor-not-allowed"
+        title="Previous branch"
+        aria-label="Previous branch"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </button>
+      <span className="text-[0.6rem] text-white/60 min-w-[2rem] text-center" aria-label={`Branch ${branch.index + 1} of ${branch.total}`}>
+        {branch.index + 1}/{branch.total}
+      </span>
+      <button
+        type="button"
+        onClick={() => nextId && onSwitchBranch(nextId)}
+        disabled={disabled || !nextId}
+        className="p-0.5 text-muted-accessible transition hover:text-white/80 disabled:opacity-30 disabled:cursor-not-allowed"
+        title="Next branch"
+        aria-label="Next branch"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </button>
+    </div>
+  )
+}
+
 // Memoize MetaDjAiMessageItem to prevent unnecessary re-renders during chat streaming
 export const MetaDjAiMessageItem = memo(forwardRef<HTMLDivElement, MessageItemProps>(function MetaDjAiMessageItem(
-  { message, onCopy, onRegenerate, onSwitchVersion, isLastAssistantMessage, isConversationStreaming }: MessageItemProps,
+  { message, onCopy, onRegenerate, branch, onSwitchBranch, onEdit, isLastAssistantMessage, isConversationStreaming, isHighlighted }: MessageItemProps,
   ref,
 ) {
-  const totalVersions = (message.versions?.length || 0) + 1
-  const currentVersionDisplay = (message.currentVersionIndex ?? 0) + 1
-  const hasMultipleVersions = totalVersions > 1
+  const [isEditing, setIsEditing] = useState(false)
+  const [draft, setDraft] = useState("")
   const markdownComponents = useMemo<Components>(
     () => ({
       h1: ({ children }) => (
@@ -1054,18 +1296,92 @@ export const MetaDjAiMessageItem = memo(forwardRef<HTMLDivElement, MessageItemPr
   }
 
   if (isUserMessage) {
+    const canEdit = typeof onEdit === "function" && !isConversationStreaming
+    const saveEdit = () => {
+      const next = draft.trim()
+      setIsEditing(false)
+      if (next && next !== message.content.trim()) {
+        onEdit?.(message.id, next)
+      }
+    }
+
     return (
-      <div ref={ref} id={`metadjai-message-${message.id}`} className="flex justify-end">
-        <div className="max-w-[85%] rounded-3xl rounded-br-md bg-gradient-to-br from-white/12 via-white/8 to-purple-500/5 border border-white/8 px-4 py-3 text-sm text-white/95">
-          <p className="whitespace-pre-line leading-relaxed">{message.content}</p>
-        </div>
+      <div ref={ref} id={`metadjai-message-${message.id}`} className="group flex flex-col items-end gap-1">
+        {isEditing ? (
+          <div className="w-full max-w-[85%] rounded-3xl rounded-br-md border border-purple-400/40 bg-white/8 px-4 py-3">
+            <textarea
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === "Enter" && !event.shiftKey) {
+                  event.preventDefault()
+                  saveEdit()
+                } else if (event.key === "Escape") {
+                  setIsEditing(false)
+                }
+              }}
+              rows={3}
+              autoFocus
+              aria-label="Edit message"
+              className="w-full resize-none bg-transparent text-sm leading-relaxed text-white/95 focus:outline-none"
+            />
+            <div className="mt-2 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setIsEditing(false)}
+                className="rounded-full border border-white/15 px-3 py-1 text-[0.65rem] uppercase tracking-[0.15em] text-white/60 transition hover:border-white/40 hover:text-white/90"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={saveEdit}
+                disabled={!draft.trim()}
+                className="rounded-full border border-cyan-400/40 bg-cyan-500/10 px-3 py-1 text-[0.65rem] uppercase tracking-[0.15em] text-cyan-200 transition hover:bg-cyan-500/20 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                Send
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className={clsx(
+            "max-w-[85%] rounded-3xl rounded-br-md bg-gradient-to-br from-white/12 via-white/8 to-purple-500/5 border border-white/8 px-4 py-3 text-sm text-white/95 transition-shadow duration-500",
+            isHighlighted && "ring-2 ring-purple-400/60"
+          )}>
+            <p className="whitespace-pre-line leading-relaxed">{message.content}</p>
+          </div>
+        )}
+        {!isEditing && ((branch && onSwitchBranch) || canEdit) && (
+          <div className="flex items-center gap-1.5 pr-1">
+            {branch && onSwitchBranch && (
+              <BranchNavigator branch={branch} onSwitchBranch={onSwitchBranch} disabled={isConversationStreaming} />
+            )}
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => {
+                  setDraft(message.content)
+                  setIsEditing(true)
+                }}
+                className="p-1 text-muted-accessible opacity-0 transition hover:text-white/80 group-hover:opacity-100 focus-visible:opacity-100"
+                title="Edit message"
+                aria-label="Edit message"
+              >
+                <Pencil className="h-3 w-3" />
+              </button>
+            )}
+          </div>
+        )}
       </div>
     )
   }
 
   return (
     <div ref={ref} id={`metadjai-message-${message.id}`} className="flex justify-start">
-      <div className="w-full rounded-3xl bg-gradient-to-br from-blue-950/40 via-indigo-950/30 to-purple-950/20 border border-white/10 px-3.5 py-3 pb-4 space-y-2">
+      <div className={clsx(
+        "w-full rounded-3xl bg-gradient-to-br from-blue-950/40 via-indigo-950/30 to-purple-950/20 border border-white/10 px-3.5 py-3 pb-4 space-y-2 transition-shadow duration-500",
+        isHighlighted && "ring-2 ring-purple-400/60"
+      )}>
         <div className="flex items-center justify-between gap-1.5">
           <div className="flex items-center gap-2">
             <div className="w-6 h-6 rounded-full overflow-hidden border border-purple-400/40 shrink-0">
@@ -1081,31 +1397,9 @@ export const MetaDjAiMessageItem = memo(forwardRef<HTMLDivElement, MessageItemPr
           </div>
           {!isStreaming && (
             <div className="flex items-center gap-1.5">
-              {/* Version toggle - shown when there are multiple versions */}
-              {hasMultipleVersions && typeof onSwitchVersion === "function" && (
-                <div className="flex items-center gap-0.5 rounded-full border border-white/15 px-1 py-0.5">
-                  <button
-                    type="button"
-                    onClick={() => onSwitchVersion(message.id, (message.currentVersionIndex ?? 0) + 1)}
-                    disabled={(message.currentVersionIndex ?? 0) >= totalVersions - 1}
-                    className="p-0.5 text-muted-accessible transition hover:text-white/80 disabled:opacity-30 disabled:cursor-not-allowed"
-                    title="Previous version"
-                  >
-                    <ChevronLeft className="h-3 w-3" />
-                  </button>
-                  <span className="text-[0.6rem] text-white/60 min-w-[2rem] text-center">
-                    {currentVersionDisplay}/{totalVersions}
-                  </span>
-                  <button
-                    type="button"
-                    onClick={() => onSwitchVersion(message.id, (message.currentVersionIndex ?? 0) - 1)}
-                    disabled={(message.currentVersionIndex ?? 0) <= 0}
-                    className="p-0.5 text-muted-accessible transition hover:text-white/80 disabled:opacity-30 disabled:cursor-not-allowed"
-                    title="Newer version"
-                  >
-                    <ChevronRight className="h-3 w-3" />
-                  </button>
-                </div>
+              {/* Branch navigation - shown when this turn has alternatives */}
+              {branch && typeof onSwitchBranch === "function" && (
+                <BranchNavigator branch={branch} onSwitchBranch={onSwitchBranch} disabled={isConversationStreaming} />
               )}
               {/* Regenerate button - only shown on the last assistant message */}
               {isLastAssistantMessage && typeof onRegenerate === "function" && (
@@ -1157,7 +1451,15 @@ export const MetaDjAiMessageItem = memo(forwardRef<HTMLDivElement, MessageItemPr
                   ? <QueueSetProposalCard proposal={message.proposal} />
                   : message.proposal.type === 'playlist'
                     ? <PlaylistProposalCard proposal={message.proposal} />
-                    : null
+                    : message.proposal.type === 'cinema'
+                      ? <CinemaProposalCard proposal={message.proposal} />
+                      : message.proposal.type === 'dream'
+                        ? <DreamProposalCard proposal={message.proposal} />
+                        : message.proposal.type === 'wisdom'
+                          ? <WisdomProposalCard proposal={message.proposal} />
+                          : message.proposal.type === 'set-plan'
+                            ? <MetaDjAiSetPlanCard proposal={message.proposal} />
+                            : null
           )}
         </div>
 
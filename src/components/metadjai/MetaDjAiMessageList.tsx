@@ -1,10 +1,10 @@
 "use client"
 
-import { useRef, type Ref } from "react"
+import { Fragment, useRef, type Ref } from "react"
 import clsx from "clsx"
 import { MetaDjAiMessageItem } from "@/components/metadjai/MetaDjAiMessageItem"
 import { useCspStyle } from "@/hooks/use-csp-style"
-import type { MetaDjAiMessage } from "@/types/metadjai.types"
+import type { MetaDjAiMessage, MetaDjAiMessageBranch } from "@/types/metadjai.types"
 
 interface MetaDjAiMessageListProps {
   messages: MetaDjAiMessage[]
@@ -14,8 +14,15 @@ interface MetaDjAiMessageListProps {
   listRef?: Ref<HTMLDivElement>
   onCopy: (content: string) => void
   onRegenerate?: () => void
-  onSwitchVersion?: (messageId: string, versionIndex: number) => void
+  /** Branch positions keyed by message ID (turns with alternatives) */
+  messageBranches?: Record<string, MetaDjAiMessageBranch>
+  onSwitchBranch?: (messageId: string) => void
+  onEditMessage?: (messageId: string, content: string) => void
   isConversationStreaming?: boolean
+  /** Last message folded into the conversation summary; a divider follows it */
+  condensedThroughMessageId?: string | null
+  /** Message briefly highlighted after a history search jump */
+  highlightedMessageId?: string | null
 }
 
 /**
@@ -23,7 +30,8 @@ interface MetaDjAiMessageListProps {
  *
  * Displays all messages with proper role formatting (user/assistant),
  * handles copy functionality for assistant messages, and manages
- * scroll reference for latest user message.
+ * scroll reference for latest user message. Marks where earlier context
+ * was condensed into the conversation summary.
  */
 export function MetaDjAiMessageList({
   messages,
@@ -33,8 +41,12 @@ export function MetaDjAiMessageList({
   listRef,
   onCopy,
   onRegenerate,
-  onSwitchVersion,
+  messageBranches,
+  onSwitchBranch,
+  onEditMessage,
   isConversationStreaming = true,
+  condensedThroughMessageId,
+  highlightedMessageId,
 }: MetaDjAiMessageListProps) {
   const latestUserMessageRef = useRef<HTMLDivElement | null>(null)
   const basePadding = 24
@@ -85,17 +97,33 @@ export function MetaDjAiMessageList({
       {visibleMessages.map((message, index) => {
         const isLatestUserMessage = message.role === "user" && message.id === latestUserMessageId
         const isLastAssistantMessage = message.role === "assistant" && index === lastAssistantMessageIndex
+        const isCondensedBoundary = message.id === condensedThroughMessageId && index < visibleMessages.length - 1
         return (
-          <MetaDjAiMessageItem
-            key={message.id}
-            ref={isLatestUserMessage ? latestUserMessageRef : undefined}
-            message={message}
-            onCopy={message.role === "assistant" ? onCopy : undefined}
-            onRegenerate={isLastAssistantMessage ? onRegenerate : undefined}
-            onSwitchVersion={message.role === "assistant" ? onSwitchVersion : undefined}
-            isLastAssistantMessage={isLastAssistantMessage}
-            isConversationStreaming={isConversationStreaming}
-          />
+          <Fragment key={message.id}>
+            <MetaDjAiMessageItem
+              ref={isLatestUserMessage ? latestUserMessageRef : undefined}
+              message={message}
+              onCopy={message.role === "assistant" ? onCopy : undefined}
+              onRegenerate={isLastAssistantMessage ? onRegenerate : undefined}
+              branch={messageBranches?.[message.id]}
+              onSwitchBranch={onSwitchBranch}
+              onEdit={message.role === "user" ? onEditMessage : undefined}
+              isLastAssistantMessage={isLastAssistantMessage}
+              isConversationStreaming={isConversationStreaming}
+              isHighlighted={message.id === highlightedMessageId}
+            />
+            {isCondensedBoundary && (
+              <div
+                role="note"
+                className="flex items-center gap-3 px-2 text-xs font-heading font-medium uppercase tracking-[0.2em] text-muted-accessible"
+                title="MetaDJai keeps a summary of the messages above instead of the full text"
+              >
+                <span className="h-px flex-1 bg-gradient-to-r from-transparent via-white/15 to-transparent" aria-hidden="true" />
+                <span>Earlier context condensed</span>
+                <span className="h-px flex-1 bg-gradient-to-r from-transparent via-white/15 to-transparent" aria-hidden="true" />
+              </div>
+            )}
+          </Fragment>
         )
       })}
     </div>
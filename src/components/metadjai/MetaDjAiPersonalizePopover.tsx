@@ -4,20 +4,32 @@
  * MetaDJai Personalize Popover
  *
  * Settings panel for customizing MetaDJai response behavior.
- * Includes style profiles and detailed preference controls.
+ * Includes style profiles, detailed preference controls, and the
+ * "What MetaDJai remembers" view of long-term memories.
  */
 
-import { useState, type RefObject } from "react"
+import { useEffect, useState, type RefObject } from "react"
 import clsx from "clsx"
-import { X } from "lucide-react"
+import { Trash2, X } from "lucide-react"
+import { useAuth } from "@/contexts/AuthContext"
 import { MAX_PERSONALIZATION_LENGTH } from "@/lib/ai/limits"
+import { AI_MEMORY_CATEGORY_LABELS } from "@/lib/ai/memories"
 import {
   PERSONALIZATION_FORMAT_OPTIONS,
   PERSONALIZATION_LENGTH_OPTIONS,
   PERSONALIZATION_PROFILES,
   PERSONALIZATION_TONE_OPTIONS,
 } from "@/lib/ai/personalization"
-import type { MetaDjAiPersonalizationState } from "@/types/metadjai.types"
+import { deleteMetaDjAiMemory, fetchMetaDjAiMemories } from "@/lib/metadjai/memories-remote"
+import type { MetaDjAiMemory, MetaDjAiPersonalizationState } from "@/types/metadjai.types"
+
+type PersonalizeTab = "style" | "profile" | "memory"
+
+const PERSONALIZE_TABS: Array<{ id: PersonalizeTab; label: string }> = [
+  { id: "style", label: "Style" },
+  { id: "profile", label: "Profile" },
+  { id: "memory", label: "Memory" },
+]
 
 interface MetaDjAiPersonalizePopoverProps {
   /** Ref for focus trap */
@@ -42,7 +54,7 @@ export function MetaDjAiPersonalizePopover({
   onPersonalizationUpdate,
   onClose,
 }: MetaDjAiPersonalizePopoverProps) {
-  const [personalizeTab, setPersonalizeTab] = useState<"style" | "profile">("style")
+  const [personalizeTab, setPersonalizeTab] = useState<PersonalizeTab>("style")
 
   return (
     <div
@@ -72,52 +84,32 @@ export function MetaDjAiPersonalizePopover({
           aria-label="Personalize sections"
           className="flex w-full max-w-md items-center justify-center gap-1 rounded-full border border-white/10 bg-white/5 p-1"
         >
-          <button
-            type="button"
-            role="tab"
-            id="personalize-tab-style"
-            aria-selected={personalizeTab === "style"}
-            aria-controls="personalize-panel-style"
-            onClick={() => setPersonalizeTab("style")}
-            className={clsx(
-              "flex-1 rounded-full border border-transparent px-4 py-2 text-center text-sm font-heading font-semibold uppercase tracking-[0.2em] transition focus-ring-glow",
-              personalizeTab === "style" ? "bg-white/10 border-white/20" : "hover:bg-white/8"
-            )}
-          >
-            <span
-              className={clsx(
-                "block",
-                personalizeTab === "style"
-                  ? "text-heading-solid"
-                  : "text-white/60"
-              )}
-            >
-              Style
-            </span>
-          </button>
-          <button
-            type="button"
-            role="tab"
-            id="personalize-tab-profile"
-            aria-selected={personalizeTab === "profile"}
-            aria-controls="personalize-panel-profile"
-            onClick={() => setPersonalizeTab("profile")}
-            className={clsx(
-              "flex-1 rounded-full border border-transparent px-4 py-2 text-center text-sm font-heading font-semibold uppercase tracking-[0.2em] transition focus-ring-glow",
-              personalizeTab === "profile" ? "bg-white/10 border-white/20" : "hover:bg-white/8"
-            )}
-          >
-            <span
+          {PERSONALIZE_TABS.map((tab) => (
+            <button
+              key={tab.id}
+              type="button"
+              role="tab"
+              id={`personalize-tab-${tab.id}`}
+              aria-selected={personalizeTab === tab.id}
+              aria-controls={`personalize-panel-${tab.id}`}
+              onClick={() => setPersonalizeTab(tab.id)}
               className={clsx(
-                "block",
-                personalizeTab === "profile"
-                  ? "text-heading-solid"
-                  : "text-white/60"
+                "flex-1 rounded-full border border-transparent px-4 py-2 text-center text-sm font-heading font-semibold uppercase tracking-[0.2em] transition focus-ring-glow",
+                personalizeTab === tab.id ? "bg-white/10 border-white/20" : "hover:bg-white/8"
               )}
             >
-              Profile
-            </span>
-          </button>
+              <span
+                className={clsx(
+                  "block",
+                  personalizeTab === tab.id
+                    ? "text-heading-solid"
+                    : "text-white/60"
+                )}
+              >
+                {tab.label}
+              </span>
+            </button>
+          ))}
         </div>
       </div>
 
@@ -391,8 +383,103 @@ export function MetaDjAiPersonalizePopover({
             </div>
           </div>
         </div>
+
+        {/* Memory Tab Panel */}
+        <div
+          role="tabpanel"
+          id="personalize-panel-memory"
+          aria-labelledby="personalize-tab-memory"
+          hidden={personalizeTab !== "memory"}
+          className="h-full"
+        >
+          {personalizeTab === "memory" && <MetaDjAiMemoryPanel />}
+        </div>
       </div>
 
     </div>
   )
 }
+
+/**
+ * "What MetaDJai remembers" — long-term memories with per-item delete
+ */
+function MetaDjAiMemoryPanel() {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const [memories, setMemories] = useState<MetaDjAiMemory[] | null>(null)
+  const [status, setStatus] = useState<"loading" | "ready" | "error">("loading")
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    setStatus("loading")
+    void fetchMetaDjAiMemories().then((next) => {
+      if (cancelled) return
+      setMemories(next)
+      setStatus(next ? "ready" : "error")
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  const handleDelete = async (id: string) => {
+    setDeletingId(id)
+    const deleted = await deleteMetaDjAiMemory(id)
+    setDeletingId(null)
+    if (deleted) {
+      setMemories((prev) => prev?.filter((memory) => memory.id !== id) ?? prev)
+    }
+  }
+
+  return (
+    <div className="h-full overflow-y-auto rounded-2xl border border-white/10 bg-white/5 px-3 py-3 pr-1 scrollbar-on-hover">
+      <p className="font-heading text-xs font-semibold uppercase tracking-[0.18em] text-heading-solid">
+        What MetaDJai remembers
+      </p>
+      <p className="mt-1 text-[11px] text-white/60">
+        Lasting details picked up from your conversations — favorite music, projects, how you like to talk.
+        MetaDJai uses them to pick up where you left off. Delete anything you&apos;d rather it forget.
+      </p>
+
+      <div className="mt-3">
+        {!userId ? (
+          <p className="text-sm text-white/70">Sign in to let MetaDJai remember you across conversations.</p>
+        ) : status === "loading" ? (
+          <p className="text-sm text-white/70" role="status">Loading memories…</p>
+        ) : status === "error" ? (
+          <p className="text-sm text-white/70" role="alert">Couldn&apos;t load memories. Try again later.</p>
+        ) : !memories || memories.length === 0 ? (
+          <p className="text-sm text-white/70">Nothing yet. Keep chatting and MetaDJai will remember what matters.</p>
+        ) : (
+          <ul className="space-y-2" aria-label="MetaDJai memories">
+            {memories.map((memory) => (
+              <li
+                key={memory.id}
+                className="flex items-start gap-3 rounded-2xl border border-white/10 bg-black/20 px-3 py-2"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="text-[10px] font-semibold uppercase tracking-[0.18em] text-cyan-200/80">
+                    {AI_MEMORY_CATEGORY_LABELS[memory.category] ?? memory.category}
+                  </p>
+                  <p className="mt-0.5 text-sm text-white/90">{memory.content}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => void handleDelete(memory.id)}
+                  disabled={deletingId === memory.id}
+                  className="inline-flex h-7 w-7 shrink-0 items-center justify-center rounded-full text-white/50 transition hover:text-white hover:bg-white/10 disabled:opacity-50 focus-ring-glow"
+                  aria-label={`Forget: ${memory.content}`}
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
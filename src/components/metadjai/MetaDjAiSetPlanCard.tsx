@@ -0,0 +1,459 @@
+"use client"
+
+/**
+ * MetaDJai Set Plan Card (Active Control)
+ *
+ * Renders a `set-plan` proposal as an editable timeline. Each segment
+ * (opening → build → peak → cooldown) can be re-targeted, re-picked, and
+ * trimmed, then approved or skipped on its own. Once every segment is
+ * reviewed, the approved ones become a queue or a playlist.
+ */
+
+import React, { useMemo, useState } from "react"
+import clsx from "clsx"
+import { ArrowDown, ArrowUp, Check, ListMusic, Music, RotateCcw, Shuffle, Square, Undo2, X } from "lucide-react"
+import { ApprovalBadge, resolveTracksFromIds, useMusicPanelOpener } from "@/components/metadjai/proposal-card-helpers"
+import { usePlayer } from "@/contexts/PlayerContext"
+import { usePlaylist } from "@/contexts/PlaylistContext"
+import { useQueue } from "@/contexts/QueueContext"
+import { useToast } from "@/contexts/ToastContext"
+import {
+  SET_PLAN_PHASE_LABELS,
+  getSetPlanTrackIds,
+  getTracksMinutes,
+  pickSetSegmentTracks,
+} from "@/lib/music/set-builder"
+import type { SetPlanPhase, SetPlanProposal, SetPlanSegment } from "@/types/metadjai.types"
+
+type SegmentDecision = "approved" | "skipped"
+
+const PHASE_COLORS: Record<SetPlanPhase, string> = {
+  opening: "bg-sky-400/60",
+  build: "bg-cyan-400/70",
+  peak: "bg-fuchsia-400/80",
+  cooldown: "bg-indigo-400/60",
+}
+
+const clampNumber = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+function formatMinutes(minutes: number) {
+  return `${Math.round(minutes)} min`
+}
+
+export function MetaDjAiSetPlanCard({ proposal }: { proposal: SetPlanProposal }) {
+  const player = usePlayer()
+  const queueState = useQueue()
+  const { createPlaylist, addTracksToPlaylist, catalogTracks } = usePlaylist()
+  const { showToast } = useToast()
+  const openMusicPanel = useMusicPanelOpener()
+  const [segments, setSegments] = useState<SetPlanSegment[]>(proposal.segments)
+  const [decisions, setDecisions] = useState<Array<SegmentDecision | null>>(() => proposal.segments.map(() => null))
+  const [status, setStatus] = useState<"pending" | "queued" | "saved" | "cancelled">("pending")
+  const [mode, setMode] = useState<"replace" | "append">("replace")
+  const [autoplay, setAutoplay] = useState(true)
+  const [isSaving, setIsSaving] = useState(false)
+
+  React.useEffect(() => {
+    setSegments(proposal.segments)
+    setDecisions(proposal.segments.map(() => null))
+    setStatus("pending")
+  }, [proposal])
+
+  const segmentTracks = useMemo(
+    () => segments.map((segment) => resolveTracksFromIds(segment.trackIds, catalogTracks)),
+    [segments, catalogTracks]
+  )
+  const plannedMinutes = segments.reduce((total, segment) => total + segment.minutes, 0) || 1
+  const reviewedCount = decisions.filter(Boolean).length
+  const approvedIndexes = decisions.flatMap((decision, index) => (decision === "approved" ? [index] : []))
+  const isReviewed = reviewedCount === segments.length
+  const approvedTracks = resolveTracksFromIds(
+    getSetPlanTrackIds(approvedIndexes.map((index) => segments[index])),
+    catalogTracks
+  )
+
+  const updateSegment = (index: number, patch: Partial<SetPlanSegment>) => {
+    setSegments((prev) => prev.map((segment, i) => (i === index ? { ...segment, ...patch } : segment)))
+  }
+
+  const setTrackIds = (index: number, trackIds: string[]) => {
+    updateSegment(index, { trackIds, trackTitles: resolveTracksFromIds(trackIds, catalogTracks).map((track) => track.title) })
+  }
+
+  const moveTrack = (index: number, from: number, to: number) => {
+    const trackIds = [...segments[index].trackIds]
+    const [moved] = trackIds.splice(from, 1)
+    trackIds.splice(to, 0, moved)
+    setTrackIds(index, trackIds)
+  }
+
+  const repickSegment = (index: number) => {
+    const otherIds = segments.flatMap((segment, i) => (i === index ? [] : segment.trackIds))
+    const picked = pickSetSegmentTracks(catalogTracks, segments[index], { excludeTrackIds: otherIds })
+    if (picked.length === 0) {
+      showToast({ message: "No unused tracks left for this segment", variant: "info" })
+      return
+    }
+    setTrackIds(index, picked.map((track) => track.id))
+  }
+
+  const decide = (index: number, decision: SegmentDecision | null) => {
+    setDecisions((prev) => prev.map((value, i) => (i === index ? decision : value)))
+  }
+
+  const handleQueue = () => {
+    if (approvedTracks.length === 0) {
+      showToast({ message: "No tracks in the approved segments", variant: "error" })
+      return
+    }
+
+    const existingIds = new Set(queueState.queue.map((track) => track.id))
+    const newTracks = mode === "append"
+      ? approvedTracks.filter((track) => !existingIds.has(track.id))
+      : approvedTracks
+
+    if (mode === "append" && newTracks.length === 0) {
+      showToast({ message: "Everything is already in your queue", variant: "info" })
+      openMusicPanel("queue")
+      setStatus("queued")
+      return
+    }
+
+    queueState.setQueue(mode === "append" ? [...queueState.queue, ...newTracks] : newTracks)
+    queueState.setManualTrackIds(
+      mode === "append"
+        ? [
+            ...queueState.manualTrackIds,
+            ...newTracks.map((track) => track.id).filter((id) => !queueState.manualTrackIds.includes(id)),
+          ]
+        : newTracks.map((track) => track.id)
+    )
+    queueState.setAutoQueue([])
+    queueState.setQueueContext("playlist")
+    queueState.setPlaybackSource({ type: "ai-proposal", id: "set-plan" })
+
+    if (autoplay && newTracks[0]) {
+      const targetIndex = mode === "append" ? queueState.queue.length : 0
+      player.setCurrentIndex(targetIndex)
+      player.setCurrentTrack(newTracks[0])
+      player.setShouldPlay(true)
+      queueState.updatePersistenceMetadata({
+        currentIndex: targetIndex,
+        currentTrackId: newTracks[0].id,
+      })
+    }
+
+    showToast({
+      message: `Queued ${newTracks.length} track${newTracks.length === 1 ? "" : "s"} from "${proposal.name}"`,
+      variant: "success",
+    })
+    openMusicPanel("queue")
+    setStatus("queued")
+  }
+
+  const handleSavePlaylist = async () => {
+    if (approvedTracks.length === 0) {
+      showToast({ message: "No tracks in the approved segments", variant: "error" })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const playlist = await createPlaylist(proposal.name.trim() || "MetaDJai Set", "metadjai")
+      await addTracksToPlaylist(playlist.id, approvedTracks.map((track) => track.id))
+      window.dispatchEvent(new CustomEvent("metadj:openPlaylist", {
+        detail: { playlistId: playlist.id },
+      }))
+      openMusicPanel("playlists")
+      setStatus("saved")
+    } catch (error) {
+      showToast({ message: error instanceof Error ? error.message : "Playlist action failed", variant: "error" })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (status !== "pending") {
+    return (
+      <div className={clsx(
+        "mt-3 rounded-xl border px-4 py-3 text-sm",
+        status === "cancelled" ? "border-white/10 bg-white/5 text-muted-accessible" : "border-green-500/30 bg-green-500/10 text-green-200"
+      )}>
+        <div className="flex items-center gap-2">
+          {status === "cancelled" ? <X className="h-4 w-4" /> : <Check className="h-4 w-4" />}
+          <span>
+            {status === "queued" ? "Set queued" : status === "saved" ? "Set saved as a playlist" : "Set plan dismissed"}
+          </span>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="mt-3 overflow-hidden rounded-2xl border border-cyan-500/25 bg-cyan-950/15">
+      <div className="px-4 py-3">
+        <div className="flex items-start gap-3">
+          <div className="mt-1 rounded-full bg-cyan-500/20 p-1.5 text-cyan-300">
+            <ListMusic className="h-4 w-4" />
+          </div>
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <h4 className="font-heading text-sm font-semibold text-heading-solid">{proposal.name}</h4>
+              {proposal.approvalRequired !== false && <ApprovalBadge />}
+            </div>
+            <p className="text-xs text-white/70 mt-0.5">
+              {proposal.context || `${proposal.totalMinutes}-minute set in ${segments.length} segments. Approve or skip each one.`}
+            </p>
+          </div>
+        </div>
+
+        {/* Timeline: width follows minutes, height follows target energy */}
+        <div className="mt-3 flex h-10 items-end gap-0.5" role="img" aria-label="Set energy timeline">
+          {segments.map((segment, index) => (
+            <div
+              key={segment.phase}
+              className={clsx(
+                "rounded-t-sm transition-all",
+                PHASE_COLORS[segment.phase],
+                decisions[index] === "skipped" && "opacity-25"
+              )}
+              style={{
+                width: `${(segment.minutes / plannedMinutes) * 100}%`,
+                height: `${segment.targetEnergy * 10}%`,
+              }}
+              title={`${SET_PLAN_PHASE_LABELS[segment.phase]} · ${segment.targetBpm} BPM · energy ${segment.targetEnergy}`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <ol className="flex flex-col gap-2 px-4 pb-3">
+        {segments.map((segment, index) => {
+          const tracks = segmentTracks[index]
+          const decision = decisions[index]
+          const isLocked = decision !== null
+          const label = SET_PLAN_PHASE_LABELS[segment.phase]
+
+          return (
+            <li
+              key={segment.phase}
+              className={clsx(
+                "rounded-xl border px-3 py-2 text-xs",
+                decision === "approved" ? "border-green-500/30 bg-green-500/5" :
+                  decision === "skipped" ? "border-white/5 bg-white/2 text-muted-accessible" :
+                    "border-white/10 bg-white/5"
+              )}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <span className={clsx("h-2 w-2 rounded-full", PHASE_COLORS[segment.phase])} aria-hidden="true" />
+                  <span className="font-semibold text-white/90">{label}</span>
+                  <span className="text-white/50">
+                    {formatMinutes(getTracksMinutes(tracks))} / {formatMinutes(segment.minutes)}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-1 text-white/60">
+                    BPM
+                    <input
+                      type="number"
+                      min={60}
+                      max={200}
+                      value={segment.targetBpm}
+                      disabled={isLocked}
+                      onChange={(event) => updateSegment(index, { targetBpm: clampNumber(Number(event.target.value) || 60, 60, 200) })}
+                      className="w-14 rounded-md border border-white/10 bg-black/30 px-1.5 py-0.5 text-white/90 disabled:opacity-50"
+                    />
+                  </label>
+                  <label className="flex items-center gap-1 text-white/60">
+                    Energy
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={segment.targetEnergy}
+                      disabled={isLocked}
+                      onChange={(event) => updateSegment(index, { targetEnergy: clampNumber(Number(event.target.value) || 1, 1, 10) })}
+                      className="w-11 rounded-md border border-white/10 bg-black/30 px-1.5 py-0.5 text-white/90 disabled:opacity-50"
+                    />
+                  </label>
+                </div>
+              </div>
+
+              {tracks.length > 0 ? (
+                <ul className="mt-2 flex flex-col gap-1">
+                  {tracks.map((track, trackIndex) => (
+                    <li key={track.id} className="flex items-center justify-between gap-2 text-white/75">
+                      <span className="truncate">
+                        {track.title}
+                        {track.bpm ? <span className="text-white/40"> · {track.bpm} BPM</span> : null}
+                      </span>
+                      {!isLocked && (
+                        <span className="flex shrink-0 items-center gap-0.5">
+                          <button
+                            type="button"
+                            onClick={() => moveTrack(index, trackIndex, trackIndex - 1)}
+                            disabled={trackIndex === 0}
+                            className="rounded p-0.5 text-white/50 hover:text-white disabled:opacity-30"
+                            aria-label={`Move ${track.title} up`}
+                          >
+                            <ArrowUp className="h-3 w-3" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveTrack(index, trackIndex, trackIndex + 1)}
+                            disabled={trackIndex === tracks.length - 1}
+                            className="rounded p-0.5 text-white/50 hover:text-white disabled:opacity-30"
+                            aria-label={`Move ${track.title} down`}
+                          >
+                            <ArrowDown className="h-3 w-3" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setTrackIds(index, segment.trackIds.filter((id) => id !== track.id))}
+                            className="rounded p-0.5 text-white/50 hover:text-red-300"
+                            aria-label={`Remove ${track.title} from ${label}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="mt-2 text-white/50">No tracks yet. Re-pick to fill this segment.</p>
+              )}
+
+              <div className="mt-2 flex items-center justify-between gap-2">
+                {isLocked ? (
+                  <>
+                    <span className={clsx("flex items-center gap-1", decision === "approved" ? "text-green-200" : "text-white/50")}>
+                      {decision === "approved" ? <Check className="h-3.5 w-3.5" /> : <X className="h-3.5 w-3.5" />}
+                      {decision === "approved" ? "Approved" : "Skipped"}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => decide(index, null)}
+                      className="flex items-center gap-1 text-white/60 hover:text-white"
+                    >
+                      <Undo2 className="h-3 w-3" />
+                      Undo
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => repickSegment(index)}
+                      className="flex items-center gap-1 text-white/60 hover:text-white"
+                    >
+                      <Shuffle className="h-3 w-3" />
+                      Re-pick
+                    </button>
+                    <span className="flex items-center gap-1">
+                      <button
+                        type="button"
+                        onClick={() => decide(index, "skipped")}
+                        className="rounded-full bg-white/5 px-2 py-1 text-[0.65rem] font-semibold uppercase tracking-wider text-white/60 hover:text-white/80 transition"
+                      >
+                        Skip
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => decide(index, "approved")}
+                        disabled={tracks.length === 0}
+                        className="rounded-full bg-cyan-500/20 px-2 py-1 text-[0.65rem] font-semibold uppercase tracking-wider text-cyan-200 hover:bg-cyan-500/30 transition disabled:opacity-40"
+                      >
+                        Approve
+                      </button>
+                    </span>
+                  </>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ol>
+
+      {isReviewed && approvedIndexes.length > 0 ? (
+        <div className="px-4 pb-3 flex flex-col gap-2 text-xs text-white/70">
+          <div className="flex items-center justify-between gap-2">
+            <span>
+              {approvedTracks.length} track{approvedTracks.length === 1 ? "" : "s"} · {formatMinutes(getTracksMinutes(approvedTracks))}
+            </span>
+            <div className="flex items-center gap-1">
+              {(["replace", "append"] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={clsx(
+                    "rounded-full px-2 py-1 text-[0.65rem] font-semibold uppercase tracking-wider transition",
+                    mode === value ? "bg-cyan-500/20 text-cyan-200" : "bg-white/5 text-muted-accessible hover:text-white/80"
+                  )}
+                >
+                  {value === "replace" ? "Replace" : "Append"}
+                </button>
+              ))}
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={() => setAutoplay((prev) => !prev)}
+            className={clsx(
+              "flex items-center justify-between rounded-lg border px-3 py-2 text-xs transition",
+              autoplay ? "border-cyan-400/40 bg-cyan-500/10 text-cyan-200" : "border-white/10 bg-white/5 text-white/60 hover:text-white/80"
+            )}
+          >
+            <span>Start playback</span>
+            {autoplay ? <Check className="h-3.5 w-3.5" /> : <Square className="h-3.5 w-3.5" />}
+          </button>
+        </div>
+      ) : (
+        <p className="px-4 pb-3 text-xs text-white/50">
+          {isReviewed
+            ? "Every segment was skipped. Undo one to build the set."
+            : `${reviewedCount} of ${segments.length} segments reviewed.`}
+        </p>
+      )}
+
+      <div className="flex border-t border-white/10">
+        <button
+          onClick={() => setStatus("cancelled")}
+          className="flex-1 py-2.5 text-xs font-semibold uppercase tracking-wider text-white/60 hover:bg-white/5 transition"
+        >
+          Dismiss
+        </button>
+        {isReviewed && approvedIndexes.length > 0 ? (
+          <>
+            <button
+              onClick={handleSavePlaylist}
+              disabled={isSaving}
+              className="flex flex-1 items-center justify-center gap-1.5 border-l border-white/10 py-2.5 text-xs font-semibold uppercase tracking-wider text-cyan-300 hover:bg-cyan-500/10 transition disabled:opacity-50"
+            >
+              <Music className="h-3.5 w-3.5" />
+              Save playlist
+            </button>
+            <button
+              onClick={handleQueue}
+              className="flex flex-1 items-center justify-center gap-1.5 border-l border-white/10 py-2.5 text-xs font-semibold uppercase tracking-wider text-cyan-400 hover:bg-cyan-500/10 transition"
+            >
+              <ListMusic className="h-3.5 w-3.5" />
+              Queue set
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={() => setDecisions(segments.map(() => null))}
+            disabled={reviewedCount === 0}
+            className="flex flex-1 items-center justify-center gap-1.5 border-l border-white/10 py-2.5 text-xs font-semibold uppercase tracking-wider text-white/60 hover:bg-white/5 transition disabled:opacity-40"
+          >
+            <RotateCcw className="h-3.5 w-3.5" />
+            Reset review
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
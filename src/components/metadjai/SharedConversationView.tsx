@@ -0,0 +1,99 @@
+/**
+ * SharedConversationView Component
+ *
+ * Read-only page for a shared MetaDJai conversation (`/share/{token}`).
+ * Renders the snapshot's messages as Markdown; nothing about the owner's
+ * account is shown.
+ */
+
+import Link from "next/link"
+import ReactMarkdown, { type Components } from "react-markdown"
+import remarkGfm from "remark-gfm"
+import { cn } from "@/lib/utils"
+import type { MetaDjAiSharedConversation } from "@/types/metadjai.types"
+
+interface SharedConversationViewProps {
+  conversation: MetaDjAiSharedConversation
+}
+
+const markdownComponents: Components = {
+  p: ({ children }) => <p className="my-2 first:mt-0 last:mb-0">{children}</p>,
+  h1: ({ children }) => <h2 className="mt-4 mb-2 font-heading text-lg font-bold text-white">{children}</h2>,
+  h2: ({ children }) => <h3 className="mt-4 mb-2 font-heading text-base font-bold text-white">{children}</h3>,
+  h3: ({ children }) => <h4 className="mt-3 mb-1 font-heading text-sm font-bold text-white">{children}</h4>,
+  ul: ({ children }) => <ul className="my-2 list-disc space-y-1 pl-5">{children}</ul>,
+  ol: ({ children }) => <ol className="my-2 list-decimal space-y-1 pl-5">{children}</ol>,
+  blockquote: ({ children }) => (
+    <blockquote className="my-3 border-l-2 border-cyan-500/30 bg-white/5 px-4 py-2 italic text-white/75">{children}</blockquote>
+  ),
+  pre: ({ children }) => (
+    <pre className="my-3 overflow-x-auto rounded-xl border border-white/10 bg-black/40 p-3 text-xs">{children}</pre>
+  ),
+  code: ({ children }) => <code className="font-mono text-[0.85em] text-cyan-200">{children}</code>,
+  a: ({ href, children }) => (
+    <a href={href} target="_blank" rel="noopener noreferrer nofollow" className="font-medium text-cyan-400 underline underline-offset-4">
+      {children}
+    </a>
+  ),
+  // Shared text is user-controlled: never load remote images from it
+  img: ({ alt }) => <span className="text-white/50">[image{alt ? `: ${alt}` : ""}]</span>,
+}
+
+export function SharedConversationView({ conversation }: SharedConversationViewProps) {
+  const sharedLabel = new Date(conversation.sharedAt).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  })
+
+  return (
+    <main className="min-h-screen relative overflow-hidden px-4 py-10 sm:py-16 bg-[var(--bg-surface-base)]">
+      <div className="fixed inset-0 gradient-1 opacity-90 pointer-events-none" />
+      <div className="fixed inset-0 bg-(--bg-overlay)/80 backdrop-blur-sm pointer-events-none" />
+
+      <div className="relative z-10 mx-auto flex w-full max-w-3xl flex-col gap-8">
+        <header>
+          <p className="text-xs uppercase tracking-[0.2em] text-white/60">Shared MetaDJai Conversation</p>
+          <h1 className="mt-2 text-3xl sm:text-4xl font-heading font-black text-heading-solid leading-tight">
+            {conversation.title}
+          </h1>
+          <p className="mt-2 text-sm text-white/60">
+            Shared {sharedLabel} · {conversation.messages.length} message{conversation.messages.length !== 1 ? "s" : ""}
+          </p>
+        </header>
+
+        <ol className="flex flex-col gap-4">
+          {conversation.messages.map((message, index) => (
+            <li
+              key={index}
+              className={cn(
+                "rounded-2xl border px-4 py-3",
+                message.role === "user"
+                  ? "ml-auto max-w-[85%] border-purple-400/30 bg-purple-500/10"
+                  : "border-(--border-subtle) bg-black/30"
+              )}
+            >
+              <p className="mb-1 text-[11px] font-heading font-semibold uppercase tracking-[0.15em] text-white/50">
+                {message.role === "user" ? "Visitor" : "MetaDJai"}
+              </p>
+              <div className="text-sm leading-relaxed text-white/90 break-words">
+                <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+                  {message.content}
+                </ReactMarkdown>
+              </div>
+            </li>
+          ))}
+        </ol>
+
+        <footer className="flex justify-center">
+          <Link
+            href="/"
+            className="flex h-11 items-center gap-2 rounded-lg gradient-4 px-6 font-heading text-sm font-semibold text-white focus-ring-glow"
+          >
+            Chat with MetaDJai on MetaDJ Nexus
+          </Link>
+        </footer>
+      </div>
+    </main>
+  )
+}
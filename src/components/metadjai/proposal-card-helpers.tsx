@@ -0,0 +1,42 @@
+"use client"
+
+/**
+ * Shared pieces for MetaDJai proposal cards (Active Control)
+ */
+
+import { useCallback } from "react"
+import { useUI } from "@/contexts/UIContext"
+import type { Track } from "@/types"
+import type { UiProposal } from "@/types/metadjai.types"
+
+/**
+ * Resolve proposal track IDs against the served catalog (`usePlaylist().catalogTracks`)
+ */
+export function resolveTracksFromIds(trackIds: string[], catalogTracks: Track[]) {
+  const trackIndex = new Map(catalogTracks.map((track) => [track.id, track]))
+  return trackIds
+    .map((id) => trackIndex.get(id))
+    .filter((track): track is Track => Boolean(track))
+}
+
+export function useMusicPanelOpener() {
+  const ui = useUI()
+
+  return useCallback(
+    (tab?: UiProposal["tab"]) => {
+      if (tab) {
+        ui.setLeftPanelTab(tab)
+      }
+      window.dispatchEvent(new CustomEvent("metadj:openMusicPanel"))
+    },
+    [ui]
+  )
+}
+
+export function ApprovalBadge() {
+  return (
+    <span className="inline-flex items-center rounded-full border border-white/15 bg-white/5 px-2 py-0.5 text-[10px] font-semibold uppercase tracking-wider text-white/70">
+      Approval required
+    </span>
+  )
+}
@@ -5,13 +5,21 @@
  *
  * A horizontal rail of mood-based listening channels.
  * Each channel curates tracks for a specific mood/activity state.
+ * Live readiness counts show curators which channels still need tracks
+ * before they meet `MOOD_CHANNEL_MIN_TRACKS_PER_CHANNEL`.
  */
 
 import { useMemo } from "react"
 import { clsx } from "clsx"
 import { Play } from "lucide-react"
 import { getMoodChannelIcon } from "@/components/mood/MoodChannelIcons"
-import { MOOD_CHANNELS, getTracksForMoodChannel, sortTracksByMoodRelevance, getMoodChannelHoverStyles } from "@/data/moodChannels"
+import {
+  MOOD_CHANNELS,
+  getMoodChannelHoverStyles,
+  getMoodChannelReadiness,
+  getTracksForMoodChannel,
+  sortTracksByMoodRelevance,
+} from "@/data/moodChannels"
 import type { Track } from "@/types"
 
 interface MoodChannelRailProps {
@@ -32,6 +40,8 @@ export function MoodChannelRail({ tracks, onPlayChannel, className }: MoodChanne
     return map
   }, [tracks])
 
+  const readiness = useMemo(() => getMoodChannelReadiness(MOOD_CHANNELS, tracks), [tracks])
+
   const handleChannelClick = (channelId: string) => {
     const trackIds = channelTrackMap.get(channelId) || []
     if (trackIds.length > 0) {
@@ -49,12 +59,21 @@ export function MoodChannelRail({ tracks, onPlayChannel, className }: MoodChanne
           </h2>
           <p className="text-xs text-muted-accessible mt-0.5">Curated experiences for every state</p>
         </div>
+        <span
+          className={clsx(
+            "text-[10px] uppercase tracking-wider font-medium",
+            readiness.meetsCatalogMinimum ? "text-muted-accessible" : "text-amber-300"
+          )}
+        >
+          Catalog {readiness.totalTracks}/{readiness.minCatalogTracks}
+        </span>
       </div>
 
       {/* Channel Cards */}
       <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
         {MOOD_CHANNELS.map((channel) => {
-          const trackCount = channelTrackMap.get(channel.id)?.length || 0
+          const trackCount = readiness.channelCounts[channel.id] ?? 0
+          const tracksNeeded = Math.max(0, readiness.minTracksPerChannel - trackCount)
 
           return (
             <button
@@ -102,13 +121,18 @@ export function MoodChannelRail({ tracks, onPlayChannel, className }: MoodChanne
                   </p>
                   <div className="flex items-center gap-2">
                     <span className="text-[10px] uppercase tracking-wider text-muted-accessible font-medium">
-                      {trackCount} tracks
+                      {trackCount}/{readiness.minTracksPerChannel} tracks
                     </span>
                     <span className="text-muted-accessible">•</span>
                     <span className="text-[10px] uppercase tracking-wider text-muted-accessible font-medium">
                       Energy {channel.energyLevel}/10
                     </span>
                   </div>
+                  {tracksNeeded > 0 && (
+                    <span className="mt-1.5 inline-flex w-fit rounded-full border border-amber-300/40 bg-amber-300/10 px-2 py-0.5 text-[10px] uppercase tracking-wider text-amber-200 font-medium">
+                      Needs {tracksNeeded} more
+                    </span>
+                  )}
                 </div>
               </div>
             </button>
@@ -18,7 +18,7 @@
 import { memo, useCallback, useMemo, useState, useRef, useEffect } from "react"
 import Image from "next/image"
 import clsx from "clsx"
-import { Play, Pause, SkipBack, SkipForward, Shuffle, Repeat, Repeat1, Info, Settings } from "lucide-react"
+import { Play, Pause, SkipBack, SkipForward, Shuffle, Disc3, Repeat, Repeat1, Info, Settings } from "lucide-react"
 import { AudioSettingsModal } from "@/components/player/AudioSettingsModal"
 import { ShareButton } from "@/components/ui"
 import { usePlaybackTime } from "@/contexts/PlayerContext"
@@ -50,6 +50,9 @@ interface NowPlayingSectionProps {
   onShuffleToggle?: () => void
   onRepeatChange?: (mode: RepeatMode) => void
   isShuffleEnabled?: boolean
+  /** Toggles DJ order (harmonic/BPM sequencing); button hidden when omitted */
+  onDjOrderToggle?: () => void
+  isDjOrderEnabled?: boolean
   onShowDetails?: () => void
   /** Called when user clicks the track/collection info to open collection panel */
   onOpenCollection?: () => void
@@ -76,6 +79,8 @@ function NowPlayingSectionComponent({
   onShuffleToggle,
   onRepeatChange,
   isShuffleEnabled,
+  onDjOrderToggle,
+  isDjOrderEnabled = false,
   onShowDetails,
   onOpenCollection,
   compact = false,
@@ -87,7 +92,19 @@ function NowPlayingSectionComponent({
   const isLoading = externalIsLoading
 
   const [showAudioSettings, setShowAudioSettings] = useState(false)
-  const { crossfadeEnabled, setCrossfadeEnabled } = useAudioSettings()
+  const audioSettings = useAudioSettings()
+  const audioSettingsModalProps = {
+    crossfadeEnabled: audioSettings.crossfadeEnabled,
+    onCrossfadeChange: audioSettings.setCrossfadeEnabled,
+    crossfadeDuration: audioSettings.crossfadeDuration,
+    onCrossfadeDurationChange: audioSettings.setCrossfadeDuration,
+    crossfadeCurve: audioSettings.crossfadeCurve,
+    onCrossfadeCurveChange: audioSettings.setCrossfadeCurve,
+    gaplessEnabled: audioSettings.gaplessEnabled,
+    onGaplessChange: audioSettings.setGaplessEnabled,
+    loudnessNormalization: audioSettings.loudnessNormalization,
+    onLoudnessNormalizationChange: audioSettings.setLoudnessNormalization,
+  }
 
   // Scrubber state for drag handling
   const [isScrubbing, setIsScrubbing] = useState(false)
@@ -381,6 +398,21 @@ function NowPlayingSectionComponent({
                 >
                   <Shuffle className="h-5 w-5" aria-hidden="true" />
                 </button>
+                {onDjOrderToggle && (
+                  <button
+                    type="button"
+                    onClick={onDjOrderToggle}
+                    className={clsx(
+                      "h-9 w-9 min-h-[44px] min-w-[44px] rounded-full flex items-center justify-center transition focus-ring-glow touch-manipulation",
+                      isDjOrderEnabled ? "text-cyan-400" : "text-muted-accessible hover:text-white/80"
+                    )}
+                    aria-label="Toggle DJ order"
+                    aria-pressed={isDjOrderEnabled}
+                    title="DJ order: mix by key and BPM"
+                  >
+                    <Disc3 className="h-5 w-5" aria-hidden="true" />
+                  </button>
+                )}
                 <button
                   type="button"
                   onClick={handleRepeatToggle}
@@ -436,8 +468,7 @@ function NowPlayingSectionComponent({
         <AudioSettingsModal
           isOpen={showAudioSettings}
           onClose={() => setShowAudioSettings(false)}
-          crossfadeEnabled={crossfadeEnabled}
-          onCrossfadeChange={setCrossfadeEnabled}
+          {...audioSettingsModalProps}
         />
       </div>
     )
@@ -500,18 +531,35 @@ function NowPlayingSectionComponent({
             <div className="relative z-10">
               {/* Controls Row */}
               <div className="flex items-center justify-between mb-2 sm:mb-2.5 md:mb-3">
-                <button
-                  type="button"
-                  onClick={onShuffleToggle}
-                  className={clsx(
-                    "focus-ring-glow transition p-2 min-h-[44px] min-w-[44px] rounded-full hover:bg-white/5 touch-manipulation flex items-center justify-center",
-                    isShuffleEnabled ? "text-cyan-400" : "text-white/60 hover:text-white"
+                <div className="flex items-center">
+                  <button
+                    type="button"
+                    onClick={onShuffleToggle}
+                    className={clsx(
+                      "focus-ring-glow transition p-2 min-h-[44px] min-w-[44px] rounded-full hover:bg-white/5 touch-manipulation flex items-center justify-center",
+                      isShuffleEnabled ? "text-cyan-400" : "text-white/60 hover:text-white"
+                    )}
+                    aria-label="Toggle shuffle"
+                    aria-pressed={isShuffleEnabled}
+                  >
+                    <Shuffle className="h-5 w-5" aria-hidden="true" />
+                  </button>
+                  {onDjOrderToggle && (
+                    <button
+                      type="button"
+                      onClick={onDjOrderToggle}
+                      className={clsx(
+                        "focus-ring-glow transition p-2 min-h-[44px] min-w-[44px] rounded-full hover:bg-white/5 touch-manipulation flex items-center justify-center",
+                        isDjOrderEnabled ? "text-cyan-400" : "text-white/60 hover:text-white"
+                      )}
+                      aria-label="Toggle DJ order"
+                      aria-pressed={isDjOrderEnabled}
+                      title="DJ order: mix by key and BPM"
+                    >
+                      <Disc3 className="h-5 w-5" aria-hidden="true" />
+                    </button>
                   )}
-                  aria-label="Toggle shuffle"
-                  aria-pressed={isShuffleEnabled}
-                >
-                  <Shuffle className="h-5 w-5" aria-hidden="true" />
-                </button>
+                </div>
 
                 <div className="flex items-center gap-4">
                   <button
@@ -633,8 +681,7 @@ function NowPlayingSectionComponent({
         <AudioSettingsModal
           isOpen={showAudioSettings}
           onClose={() => setShowAudioSettings(false)}
-          crossfadeEnabled={crossfadeEnabled}
-          onCrossfadeChange={setCrossfadeEnabled}
+          {...audioSettingsModalProps}
         />
       </div>
     </div>
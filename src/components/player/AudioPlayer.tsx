@@ -6,12 +6,14 @@ import { useToast } from "@/contexts/ToastContext"
 import { useUI } from "@/contexts/UIContext"
 import { useAudioAnalyzer } from "@/hooks/audio/use-audio-analyzer"
 import { useAudioPlayback } from "@/hooks/audio/use-audio-playback"
+import { getCachedUrl } from "@/hooks/audio/use-audio-preloader"
 import { useAudioSettings } from "@/hooks/audio/use-audio-settings"
 import { useSwipeGesture } from "@/hooks/use-swipe-gesture"
 import {
   trackPlaybackControl,
 } from "@/lib/analytics"
 import { DEFAULT_ARTWORK_SRC, PANEL_POSITIONING } from "@/lib/app.constants"
+import { getNormalizationGain } from "@/lib/audio/loudness"
 import { logger } from "@/lib/logger"
 import { toasts } from "@/lib/toast-helpers"
 import { ControlPanelOverlay } from "./ControlPanelOverlay"
@@ -53,11 +55,13 @@ function AudioPlayer({
   const onQueueClear = queue?.onClear
   const onQueueTrackSelect = queue?.onTrackSelect
   const onQueueInsert = queue?.onInsert
+  const listeningSource = queue?.source
 
   const queueItemsRaw = queue?.items
   const queueItems = useMemo(() => queueItemsRaw ?? [], [queueItemsRaw])
 
-  const allTracks = search?.allTracks ?? []
+  const allTracksRaw = search?.allTracks
+  const allTracks = useMemo(() => allTracksRaw ?? [], [allTracksRaw])
   const onSearchTrackSelect = search?.onTrackSelect
   const onSearchTrackQueueAdd = search?.onTrackQueueAdd
 
@@ -66,7 +70,13 @@ function AudioPlayer({
   const playerContainerRef = useRef<HTMLDivElement>(null)
   const nextAudioRef = useRef<HTMLAudioElement>(null)
   const [isControlsOverlayOpen, setControlsOverlayOpen] = useState(false)
-  const { crossfadeEnabled } = useAudioSettings()
+  const {
+    crossfadeEnabled,
+    crossfadeDuration,
+    crossfadeCurve,
+    gaplessEnabled,
+    loudnessNormalization,
+  } = useAudioSettings()
   const { headerHeight } = useUI()
   const {
     audioRef: playerAudioRef,
@@ -84,7 +94,8 @@ function AudioPlayer({
     showToast(toasts.audioError(track?.title))
   }, [showToast, track])
 
-  const getNextTrackUrl = useCallback(() => {
+  // Prefer the preloader's blob URL so the secondary element starts from a buffered copy
+  const getNextTrackSource = useCallback(() => {
     if (queueItems.length === 0) return null
 
     const activeIndex = track
@@ -101,8 +112,18 @@ function AudioPlayer({
     const nextTrack = queueItems[nextIndex]
     if (!nextTrack) return null
 
-    return `/api/audio/${nextTrack.id}`
-  }, [queueItems, track, repeatMode])
+    return {
+      trackId: nextTrack.id,
+      url: getCachedUrl(nextTrack.id) ?? nextTrack.audioUrl,
+      normalizationGain: getNormalizationGain(nextTrack, loudnessNormalization, allTracks),
+    }
+  }, [queueItems, track, repeatMode, loudnessNormalization, allTracks])
+
+  // Album mode levels against the whole collection, so resolve from the full catalog
+  const normalizationGain = useMemo(
+    () => getNormalizationGain(track, loudnessNormalization, allTracks),
+    [track, loudnessNormalization, allTracks]
+  )
 
   // Use custom audio playback hook
   const {
@@ -139,9 +160,13 @@ function AudioPlayer({
     autoSkipOnError: true,
     onPlayWithNoTrack,
     crossfadeEnabled,
-    crossfadeDuration: 3000,
+    crossfadeDuration: crossfadeDuration * 1000,
+    crossfadeCurve,
+    gaplessEnabled,
     nextAudioRef,
-    getNextTrackUrl,
+    getNextTrackSource,
+    normalizationGain,
+    listeningSource,
   })
 
   // Keep the shared PlayerContext audioRef in sync so analyzers/panels can access the active element
@@ -312,7 +337,7 @@ function AudioPlayer({
         controls
         className="hidden"
       />
-      {/* Secondary audio element for crossfade */}
+      {/* Secondary audio element for crossfade and gapless handoff */}
       <audio
         ref={nextAudioRef}
         preload="metadata"
@@ -1,13 +1,77 @@
 "use client"
 
 import { useEffect } from "react"
+import clsx from "clsx"
 import { X } from "lucide-react"
+import {
+  CROSSFADE_CURVES,
+  CROSSFADE_CURVE_LABELS,
+  CROSSFADE_DURATION_MAX_SECONDS,
+  CROSSFADE_DURATION_MIN_SECONDS,
+  CROSSFADE_DURATION_STEP_SECONDS,
+  type CrossfadeCurve,
+} from "@/lib/audio/crossfade"
+import {
+  LOUDNESS_NORMALIZATION_LABELS,
+  LOUDNESS_NORMALIZATION_MODES,
+  type LoudnessNormalizationMode,
+} from "@/lib/audio/loudness"
 
 interface AudioSettingsModalProps {
   isOpen: boolean
   onClose: () => void
   crossfadeEnabled: boolean
   onCrossfadeChange: (enabled: boolean) => void
+  /** Crossfade length in seconds */
+  crossfadeDuration: number
+  onCrossfadeDurationChange: (seconds: number) => void
+  crossfadeCurve: CrossfadeCurve
+  onCrossfadeCurveChange: (curve: CrossfadeCurve) => void
+  gaplessEnabled: boolean
+  onGaplessChange: (enabled: boolean) => void
+  loudnessNormalization: LoudnessNormalizationMode
+  onLoudnessNormalizationChange: (mode: LoudnessNormalizationMode) => void
+}
+
+const LOUDNESS_NORMALIZATION_DESCRIPTIONS: Record<LoudnessNormalizationMode, string> = {
+  track: "Every track plays at the same perceived level",
+  album: "One level per collection, keeping its quiet and loud moments",
+  off: "Play tracks exactly as mastered",
+}
+
+interface SettingSwitchProps {
+  label: string
+  description: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+  ariaLabel: string
+}
+
+function SettingSwitch({ label, description, checked, onChange, ariaLabel }: SettingSwitchProps) {
+  return (
+    <div className="flex items-center justify-between gap-4">
+      <div className="space-y-0.5">
+        <p className="text-sm font-medium text-white">{label}</p>
+        <p className="text-xs text-muted-accessible">{description}</p>
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange(!checked)}
+        className={`relative w-11 h-6 shrink-0 rounded-full transition-colors duration-200 focus-ring-glow ${
+          checked ? "bg-cyan-500" : "bg-white/20"
+        }`}
+        role="switch"
+        aria-checked={checked}
+        aria-label={ariaLabel}
+      >
+        <span
+          className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow-md transition-transform duration-200 ${
+            checked ? "translate-x-5" : "translate-x-0"
+          }`}
+        />
+      </button>
+    </div>
+  )
 }
 
 export function AudioSettingsModal({
@@ -15,20 +79,30 @@ export function AudioSettingsModal({
   onClose,
   crossfadeEnabled,
   onCrossfadeChange,
+  crossfadeDuration,
+  onCrossfadeDurationChange,
+  crossfadeCurve,
+  onCrossfadeCurveChange,
+  gaplessEnabled,
+  onGaplessChange,
+  loudnessNormalization,
+  onLoudnessNormalizationChange,
 }: AudioSettingsModalProps) {
   useEffect(() => {
     if (!isOpen) return
-    
+
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === "Escape") onClose()
     }
-    
+
     document.addEventListener("keydown", handleEscape)
     return () => document.removeEventListener("keydown", handleEscape)
   }, [isOpen, onClose])
 
   if (!isOpen) return null
 
+  const isCrossfadeActive = crossfadeEnabled && crossfadeDuration > 0
+
   return (
     <div
       className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-sm"
@@ -51,27 +125,99 @@ export function AudioSettingsModal({
         </div>
 
         <div className="space-y-4">
-          <div className="flex items-center justify-between py-3 border-b border-white/10">
+          <div className="space-y-4 py-3 border-b border-white/10">
+            <SettingSwitch
+              label="Crossfade"
+              description={`Blend ${crossfadeDuration}s into the next track`}
+              checked={crossfadeEnabled}
+              onChange={onCrossfadeChange}
+              ariaLabel="Toggle crossfade"
+            />
+
+            {crossfadeEnabled && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between text-xs">
+                    <label htmlFor="crossfade-duration" className="text-white/80">Length</label>
+                    <span className="font-mono tabular-nums text-muted-accessible">{crossfadeDuration.toFixed(1)}s</span>
+                  </div>
+                  <input
+                    id="crossfade-duration"
+                    type="range"
+                    min={CROSSFADE_DURATION_MIN_SECONDS}
+                    max={CROSSFADE_DURATION_MAX_SECONDS}
+                    step={CROSSFADE_DURATION_STEP_SECONDS}
+                    value={crossfadeDuration}
+                    onChange={(e) => onCrossfadeDurationChange(Number(e.target.value))}
+                    className="w-full accent-cyan-500 focus-ring-glow"
+                    aria-valuetext={`${crossfadeDuration} seconds`}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <p className="text-xs text-white/80" id="crossfade-curve-label">Curve</p>
+                  <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-labelledby="crossfade-curve-label">
+                    {CROSSFADE_CURVES.map((curve) => (
+                      <button
+                        key={curve}
+                        type="button"
+                        role="radio"
+                        aria-checked={crossfadeCurve === curve}
+                        onClick={() => onCrossfadeCurveChange(curve)}
+                        className={clsx(
+                          "rounded-lg border px-2 py-1.5 text-xs transition focus-ring-glow",
+                          crossfadeCurve === curve
+                            ? "border-cyan-400/60 bg-cyan-500/15 text-cyan-200"
+                            : "border-white/15 text-muted-accessible hover:text-white hover:border-white/30"
+                        )}
+                      >
+                        {CROSSFADE_CURVE_LABELS[curve]}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="py-3 border-b border-white/10">
+            <SettingSwitch
+              label="Gapless playback"
+              description={
+                isCrossfadeActive
+                  ? "Applies when crossfade is off or set to 0s"
+                  : "No silence between tracks for continuous mixes"
+              }
+              checked={gaplessEnabled}
+              onChange={onGaplessChange}
+              ariaLabel="Toggle gapless playback"
+            />
+          </div>
+
+          <div className="space-y-2 py-3 border-b border-white/10">
             <div className="space-y-0.5">
-              <p className="text-sm font-medium text-white">Crossfade</p>
-              <p className="text-xs text-muted-accessible">Smooth 3-second transitions between tracks</p>
+              <p className="text-sm font-medium text-white" id="loudness-normalization-label">Volume normalization</p>
+              <p className="text-xs text-muted-accessible">{LOUDNESS_NORMALIZATION_DESCRIPTIONS[loudnessNormalization]}</p>
+            </div>
+            <div className="grid grid-cols-3 gap-2" role="radiogroup" aria-labelledby="loudness-normalization-label">
+              {LOUDNESS_NORMALIZATION_MODES.map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  role="radio"
+                  aria-checked={loudnessNormalization === mode}
+                  onClick={() => onLoudnessNormalizationChange(mode)}
+                  className={clsx(
+                    "rounded-lg border px-2 py-1.5 text-xs transition focus-ring-glow",
+                    loudnessNormalization === mode
+                      ? "border-cyan-400/60 bg-cyan-500/15 text-cyan-200"
+                      : "border-white/15 text-muted-accessible hover:text-white hover:border-white/30"
+                  )}
+                >
+                  {LOUDNESS_NORMALIZATION_LABELS[mode]}
+                </button>
+              ))}
             </div>
-            <button
-              type="button"
-              onClick={() => onCrossfadeChange(!crossfadeEnabled)}
-              className={`relative w-11 h-6 rounded-full transition-colors duration-200 focus-ring-glow ${
-                crossfadeEnabled ? "bg-cyan-500" : "bg-white/20"
-              }`}
-              role="switch"
-              aria-checked={crossfadeEnabled}
-              aria-label="Toggle crossfade"
-            >
-              <span
-                className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow-md transition-transform duration-200 ${
-                  crossfadeEnabled ? "translate-x-5" : "translate-x-0"
-                }`}
-              />
-            </button>
           </div>
         </div>
       </div>
@@ -5,24 +5,26 @@
  *
  * Full playlist detail view (replaces collection view when viewing a playlist).
  * Features:
- * - Track list with remove buttons and drag reordering
+ * - Track list with remove buttons and drag reordering (manual playlists)
+ * - Smart playlists: rule summary and inline rule editor; tracks follow the rules
  * - Play all button
  * - Rename, duplicate, and artwork selection
+ * - Publish toggle (public read-only link at /playlist/{publicSlug})
  * - Delete playlist with confirmation
  * - WCAG: Keyboard alternatives for all actions
  */
 
 import { useState, useCallback, useMemo, useEffect, useRef } from "react"
-import { Play, MoreVertical, ArrowLeft, Trash2, Music, X, GripVertical, Copy, PencilLine, Image as ImageIcon } from "lucide-react"
+import { Play, MoreVertical, ArrowLeft, Trash2, Music, X, GripVertical, Copy, PencilLine, Image as ImageIcon, Globe, Lock, Sparkles, SlidersHorizontal } from "lucide-react"
 import { ShareButton } from "@/components/ui/ShareButton"
 import { TrackArtwork } from "@/components/ui/TrackArtwork"
 import { TrackListItem } from "@/components/ui/TrackListItem"
 import { usePlayer } from "@/contexts/PlayerContext"
 import { usePlaylist } from "@/contexts/PlaylistContext"
 import { logger } from "@/lib/logger"
-import { tracks as allTracks } from "@/lib/music"
-import { resolvePlaylistArtwork } from "@/lib/playlists"
+import { describeSmartPlaylistRule, resolvePlaylistArtwork } from "@/lib/playlists"
 import { cn, formatDuration } from "@/lib/utils"
+import { SmartPlaylistEditor } from "./SmartPlaylistEditor"
 import type { Track } from "@/types"
 
 interface PlaylistDetailViewProps {
@@ -48,6 +50,8 @@ export function PlaylistDetailView({
     updatePlaylist,
     duplicatePlaylist,
     reorderTracks,
+    setPlaylistVisibility,
+    catalogTracks,
   } = usePlaylist()
   const { currentTrack, shouldPlay } = usePlayer()
   const [showMenu, setShowMenu] = useState(false)
@@ -59,6 +63,7 @@ export function PlaylistDetailView({
   const [showArtworkPicker, setShowArtworkPicker] = useState(false)
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null)
+  const [isEditingRules, setIsEditingRules] = useState(false)
 
   // Find playlist
   const playlist = useMemo(
@@ -75,18 +80,32 @@ export function PlaylistDetailView({
 
   const playlistArtwork = useMemo(() => {
     if (!playlist) return null
-    return resolvePlaylistArtwork(playlist)
-  }, [playlist])
+    return resolvePlaylistArtwork(playlist, catalogTracks)
+  }, [playlist, catalogTracks])
 
   const hasCustomArtwork = Boolean(playlist?.artworkUrl)
+  const isSmart = Boolean(playlist?.smartRules)
+
+  const ruleSummary = useMemo(() => {
+    if (!playlist?.smartRules) return null
+    const { operator, rules } = playlist.smartRules
+    if (rules.length === 0) return "All tracks"
+    return rules
+      .map((rule) =>
+        rule.type === "group"
+          ? `(${rule.rules.length} rule${rule.rules.length === 1 ? "" : "s"})`
+          : describeSmartPlaylistRule(rule)
+      )
+      .join(operator === "and" ? " · " : " or ")
+  }, [playlist])
 
   // Get playlist tracks
   const playlistTracks = useMemo(() => {
     if (!playlist) return []
     return playlist.trackIds
-      .map((id) => allTracks.find((t) => t.id === id))
+      .map((id) => catalogTracks.find((t) => t.id === id))
       .filter((t): t is Track => Boolean(t))
-  }, [playlist])
+  }, [playlist, catalogTracks])
 
   // Calculate total duration
   const totalDuration = useMemo(() => {
@@ -156,6 +175,15 @@ export function PlaylistDetailView({
     }
   }, [playlist, duplicatePlaylist])
 
+  const handleToggleVisibility = useCallback(async () => {
+    if (!playlist) return
+    try {
+      await setPlaylistVisibility(playlist.id, !playlist.isPublic)
+    } catch (err) {
+      logger.error("Failed to change playlist visibility", { error: String(err) })
+    }
+  }, [playlist, setPlaylistVisibility])
+
   const handleSetArtwork = useCallback(
     async (artworkUrl: string | null) => {
       if (!playlist) return
@@ -312,6 +340,24 @@ export function PlaylistDetailView({
                     <span>{formatDuration(totalDuration)}</span>
                   </>
                 )}
+                {isSmart && (
+                  <>
+                    <span>•</span>
+                    <span className="flex items-center gap-1 text-cyan-300">
+                      <Sparkles className="h-3.5 w-3.5" aria-hidden />
+                      Smart
+                    </span>
+                  </>
+                )}
+                {playlist.isPublic && (
+                  <>
+                    <span>•</span>
+                    <span className="flex items-center gap-1 text-cyan-300">
+                      <Globe className="h-3.5 w-3.5" aria-hidden />
+                      Public
+                    </span>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -344,6 +390,19 @@ export function PlaylistDetailView({
                     <PencilLine className="h-4 w-4" />
                     Rename Playlist
                   </button>
+                  {isSmart && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setShowMenu(false)
+                        setIsEditingRules(true)
+                      }}
+                      className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-white/80 transition-colors hover:bg-white/5"
+                    >
+                      <SlidersHorizontal className="h-4 w-4" />
+                      Edit Rules
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={() => {
@@ -366,6 +425,17 @@ export function PlaylistDetailView({
                     <ImageIcon className="h-4 w-4" />
                     Edit Artwork
                   </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setShowMenu(false)
+                      handleToggleVisibility()
+                    }}
+                    className="flex w-full items-center gap-2 px-4 py-2 text-left text-sm text-white/80 transition-colors hover:bg-white/5"
+                  >
+                    {playlist.isPublic ? <Lock className="h-4 w-4" /> : <Globe className="h-4 w-4" />}
+                    {playlist.isPublic ? "Make Private" : "Publish Playlist"}
+                  </button>
                   <button
                     type="button"
                     onClick={() => {
@@ -383,6 +453,23 @@ export function PlaylistDetailView({
           </div>
         </div>
 
+        {/* Smart playlist rules */}
+        {isSmart && (isEditingRules ? (
+          <SmartPlaylistEditor
+            playlist={playlist}
+            onClose={() => setIsEditingRules(false)}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={() => setIsEditingRules(true)}
+            className="flex items-center gap-2 self-start rounded-lg border border-(--border-subtle) bg-black/20 px-3 py-2 text-left text-xs text-white/70 transition-colors hover:bg-white/5 focus-ring"
+          >
+            <SlidersHorizontal className="h-3.5 w-3.5 shrink-0 text-cyan-300" aria-hidden />
+            <span className="line-clamp-2">{ruleSummary}</span>
+          </button>
+        ))}
+
         {/* Actions */}
         {playlistTracks.length > 0 && (
           <div className="flex items-center gap-2 overflow-visible">
@@ -411,10 +498,12 @@ export function PlaylistDetailView({
             <Music className="h-8 w-8 text-white/60" />
           </div>
           <p className="font-heading text-sm font-semibold text-heading-solid mb-1">
-            This playlist is empty
+            {isSmart ? "No tracks match these rules" : "This playlist is empty"}
           </p>
           <p className="text-xs text-white/60 text-center max-w-xs">
-            Browse collections and click &quot;Add to Playlist&quot; to start building your mix
+            {isSmart
+              ? "Loosen the rules to pull in more of the catalog"
+              : <>Browse collections and click &quot;Add to Playlist&quot; to start building your mix</>}
           </p>
         </div>
       ) : (
@@ -429,7 +518,7 @@ export function PlaylistDetailView({
               <div
                 key={track.id}
                 className="relative"
-                draggable={playlistTracks.length > 1}
+                draggable={!isSmart && playlistTracks.length > 1}
                 onDragStart={() => setDraggedIndex(index)}
                 onDragOver={(event) => {
                   event.preventDefault()
@@ -451,6 +540,7 @@ export function PlaylistDetailView({
                   isPlaying={isPlaying}
                   onPlay={() => onPlayTrack(track, playlistTracks)}
                   onKeyDown={(event) => {
+                    if (isSmart) return
                     if (event.key === "ArrowUp" && index > 0) {
                       event.preventDefault()
                       handleReorder(index, index - 1)
@@ -463,17 +553,17 @@ export function PlaylistDetailView({
                     }
                   }}
                   showDuration
-                  leadingElement={
+                  leadingElement={isSmart ? undefined : (
                     <GripVertical
                       className="h-3.5 w-3.5 text-muted-accessible group-hover:text-white/80 transition-colors"
                       aria-hidden
                     />
-                  }
+                  )}
                   className={cn(
                     isDragOver ? "border-white/30 bg-white/10" : "",
                     isDragging ? "opacity-60" : ""
                   )}
-                  actions={
+                  actions={isSmart ? undefined : (
                     <button
                       type="button"
                       onClick={() => handleRemoveTrack(track.id)}
@@ -482,7 +572,7 @@ export function PlaylistDetailView({
                     >
                       <X className="h-4 w-4" />
                     </button>
-                  }
+                  )}
                 />
               </div>
             )
@@ -5,7 +5,8 @@
  *
  * Left panel navigation component for playlists.
  * Features:
- * - List of all playlists
+ * - List of all playlists (smart playlists marked with a sparkle)
+ * - Create manual or smart (rule-based) playlists
  * - Click to view/play playlist
  * - Edit/delete actions
  * - Empty state for no playlists
@@ -18,7 +19,7 @@
  */
 
 import { useState, useCallback, memo, useMemo } from "react"
-import { Music, MoreVertical, Trash2, Plus, Search, X, Copy } from "lucide-react"
+import { Music, MoreVertical, Trash2, Plus, Search, X, Copy, Sparkles } from "lucide-react"
 import { BrandGradientIcon } from "@/components/icons/BrandGradientIcon"
 import { Button, IconButton } from "@/components/ui/Button"
 import { TrackArtwork } from "@/components/ui/TrackArtwork"
@@ -27,6 +28,7 @@ import { logger } from "@/lib/logger"
 import { resolvePlaylistArtwork } from "@/lib/playlists"
 import { cn } from "@/lib/utils"
 import { PlaylistCreator } from "./PlaylistCreator"
+import { SmartPlaylistEditor } from "./SmartPlaylistEditor"
 
 interface PlaylistListProps {
   onPlaylistSelect: (playlistId: string) => void
@@ -39,8 +41,9 @@ function PlaylistListComponent({
   selectedPlaylistId,
   className = "",
 }: PlaylistListProps) {
-  const { playlists, deletePlaylist, duplicatePlaylist } = usePlaylist()
+  const { playlists, deletePlaylist, duplicatePlaylist, catalogTracks } = usePlaylist()
   const [showCreator, setShowCreator] = useState(false)
+  const [showSmartEditor, setShowSmartEditor] = useState(false)
   const [activeMenu, setActiveMenu] = useState<string | null>(null)
   const [confirmDelete, setConfirmDelete] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
@@ -79,7 +82,7 @@ function PlaylistListComponent({
   )
 
   // Empty state
-  if (playlists.length === 0 && !showCreator) {
+  if (playlists.length === 0 && !showCreator && !showSmartEditor) {
     return (
       <div className={`flex flex-col gap-2 ${className}`}>
         {/* Search bar */}
@@ -159,17 +162,34 @@ function PlaylistListComponent({
           onClose={() => setShowCreator(false)}
           source="navigation"
         />
+      ) : showSmartEditor ? (
+        <SmartPlaylistEditor
+          onClose={() => setShowSmartEditor(false)}
+          onCreated={(playlist) => onPlaylistSelect(playlist.id)}
+        />
       ) : (
-        <Button
-          type="button"
-          onClick={() => setShowCreator(true)}
-          variant="secondary"
-          size="sm"
-          className="w-full font-heading border-dashed border-(--border-standard) text-white/60 hover:text-white/80 hover:bg-white/5"
-          leftIcon={<Plus className="h-3.5 w-3.5" />}
-        >
-          Create Playlist
-        </Button>
+        <div className="flex gap-2">
+          <Button
+            type="button"
+            onClick={() => setShowCreator(true)}
+            variant="secondary"
+            size="sm"
+            className="flex-1 font-heading border-dashed border-(--border-standard) text-white/60 hover:text-white/80 hover:bg-white/5"
+            leftIcon={<Plus className="h-3.5 w-3.5" />}
+          >
+            Create Playlist
+          </Button>
+          <Button
+            type="button"
+            onClick={() => setShowSmartEditor(true)}
+            variant="secondary"
+            size="sm"
+            className="flex-1 font-heading border-dashed border-(--border-standard) text-white/60 hover:text-white/80 hover:bg-white/5"
+            leftIcon={<Sparkles className="h-3.5 w-3.5" />}
+          >
+            Smart Playlist
+          </Button>
+        </div>
       )}
 
       {/* Playlist list */}
@@ -195,7 +215,7 @@ function PlaylistListComponent({
                   }`}
               >
                 <TrackArtwork
-                  artworkUrl={resolvePlaylistArtwork(playlist)}
+                  artworkUrl={resolvePlaylistArtwork(playlist, catalogTracks)}
                   title={playlist.name}
                   sizes="40px"
                   className="h-10 w-10 rounded-lg border border-(--border-standard) bg-black/40"
@@ -207,7 +227,10 @@ function PlaylistListComponent({
                   <p className="font-heading font-semibold text-heading-solid truncate">
                     {playlist.name}
                   </p>
-                  <p className="text-xs text-white/60">
+                  <p className="flex items-center gap-1 text-xs text-white/60">
+                    {playlist.smartRules && (
+                      <Sparkles className="h-3 w-3 text-cyan-300" aria-label="Smart playlist" />
+                    )}
                     {playlist.trackIds.length} track{playlist.trackIds.length !== 1 ? "s" : ""}
                   </p>
                 </div>
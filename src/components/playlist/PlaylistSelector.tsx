@@ -5,14 +5,14 @@
  *
  * Dropdown/popover for adding tracks to playlists.
  * Features:
- * - Shows all playlists (max 50)
+ * - Shows all manual playlists (max 50); smart playlists follow their rules
  * - "Create New Playlist" option at top
  * - Track addition confirmation with toast
  * - Analytics: track_added_to_playlist
  * - WCAG: Keyboard navigation, ARIA combobox pattern
  */
 
-import { useState, useCallback, useRef, useEffect, type KeyboardEvent } from "react"
+import { useState, useCallback, useMemo, useRef, useEffect, type KeyboardEvent } from "react"
 import { Plus, Check, Music, ArrowLeft } from "lucide-react"
 import { usePlaylist } from "@/contexts/PlaylistContext"
 import { useClickAway, useEscapeKey } from "@/hooks"
@@ -36,7 +36,11 @@ export function PlaylistSelector({
   onBack,
   className = "",
 }: PlaylistSelectorProps) {
-  const { playlists, addTrackToPlaylist } = usePlaylist()
+  const { playlists: allPlaylists, addTrackToPlaylist } = usePlaylist()
+  const playlists = useMemo(
+    () => allPlaylists.filter((playlist) => !playlist.smartRules),
+    [allPlaylists]
+  )
   const [showCreator, setShowCreator] = useState(false)
   const [selectedIndex, setSelectedIndex] = useState(-1)
   const containerRef = useRef<HTMLDivElement>(null)
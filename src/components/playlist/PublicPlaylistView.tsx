@@ -0,0 +1,232 @@
+"use client"
+
+/**
+ * PublicPlaylistView Component
+ *
+ * Read-only landing page for a published playlist (`/playlist/{slug}`).
+ * Features:
+ * - Play all / tap-to-play with a lightweight in-page player (works without an account)
+ * - Save a copy into the visitor's own playlists (signed-in visitors)
+ * - Sign-in prompt for visitors without a session
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { BookmarkPlus, Music, Pause, Play } from "lucide-react"
+import { TrackArtwork } from "@/components/ui/TrackArtwork"
+import { useAuth } from "@/contexts/AuthContext"
+import { usePlaylist } from "@/contexts/PlaylistContext"
+import { trackEvent } from "@/lib/analytics"
+import { logger } from "@/lib/logger"
+import { buildMusicDeepLinkPath } from "@/lib/music/deeplink"
+import { cn, formatDuration } from "@/lib/utils"
+import type { Track } from "@/types"
+import type { PublicPlaylist } from "@/types/playlist.types"
+
+interface PublicPlaylistViewProps {
+  playlist: PublicPlaylist
+  tracks: Track[]
+}
+
+export function PublicPlaylistView({ playlist, tracks }: PublicPlaylistViewProps) {
+  const router = useRouter()
+  const { isAuthenticated, isLoading: authLoading } = useAuth()
+  const { savePlaylistCopy } = usePlaylist()
+  const audioRef = useRef<HTMLAudioElement | null>(null)
+  const [currentIndex, setCurrentIndex] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const currentTrack = currentIndex !== null ? tracks[currentIndex] ?? null : null
+  const artworkUrl = playlist.artworkUrl || tracks[0]?.artworkUrl || null
+
+  const totalDuration = useMemo(
+    () => tracks.reduce((sum, track) => sum + track.duration, 0),
+    [tracks]
+  )
+
+  // Start playback whenever the selected track changes
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio || !currentTrack) return
+    audio.play().catch((error) => {
+      logger.warn("Public playlist playback blocked", { error: String(error) })
+      setIsPlaying(false)
+    })
+  }, [currentTrack])
+
+  const playFrom = useCallback(
+    (index: number) => {
+      if (index === currentIndex && audioRef.current) {
+        if (audioRef.current.paused) {
+          void audioRef.current.play()
+        } else {
+          audioRef.current.pause()
+        }
+        return
+      }
+      setCurrentIndex(index)
+    },
+    [currentIndex]
+  )
+
+  const handlePlayAll = useCallback(() => {
+    if (tracks.length === 0) return
+    trackEvent("public_playlist_played", {
+      playlistSlug: playlist.slug,
+      trackCount: tracks.length,
+    })
+    playFrom(currentIndex ?? 0)
+  }, [currentIndex, playFrom, playlist.slug, tracks.length])
+
+  const handleEnded = useCallback(() => {
+    setCurrentIndex((index) =>
+      index !== null && index + 1 < tracks.length ? index + 1 : null
+    )
+  }, [tracks.length])
+
+  const handleSaveCopy = useCallback(async () => {
+    setIsSaving(true)
+    try {
+      const copy = await savePlaylistCopy(playlist.name, playlist.trackIds)
+      router.push(buildMusicDeepLinkPath("playlist", copy.id))
+    } catch (err) {
+      logger.error("Failed to save public playlist copy", { error: String(err) })
+      setIsSaving(false)
+    }
+  }, [playlist.name, playlist.trackIds, router, savePlaylistCopy])
+
+  return (
+    <main className="min-h-screen relative overflow-hidden px-4 py-10 sm:py-16 bg-[var(--bg-surface-base)]">
+      <div className="fixed inset-0 gradient-1 opacity-90 pointer-events-none" />
+      <div className="fixed inset-0 bg-(--bg-overlay)/80 backdrop-blur-sm pointer-events-none" />
+
+      <div className="relative z-10 mx-auto flex w-full max-w-3xl flex-col gap-8">
+        <header className="flex flex-col items-center gap-5 text-center sm:flex-row sm:items-end sm:text-left">
+          <TrackArtwork
+            artworkUrl={artworkUrl}
+            title={playlist.name}
+            sizes="160px"
+            className="h-40 w-40 shrink-0 rounded-2xl border border-(--border-standard) bg-black/40"
+            imageClassName="rounded-2xl"
+            hoverScale={false}
+            showPlayOverlay={false}
+          />
+          <div className="min-w-0 flex-1">
+            <p className="text-xs uppercase tracking-[0.2em] text-white/60">Public Playlist</p>
+            <h1 className="mt-2 text-3xl sm:text-4xl md:text-5xl font-heading font-black text-heading-solid leading-tight">
+              {playlist.name}
+            </h1>
+            <div className="mt-2 flex items-center justify-center gap-2 text-sm text-white/60 sm:justify-start">
+              <span>{tracks.length} track{tracks.length !== 1 ? "s" : ""}</span>
+              {totalDuration > 0 && (
+                <>
+                  <span>•</span>
+                  <span>{formatDuration(totalDuration)}</span>
+                </>
+              )}
+            </div>
+          </div>
+        </header>
+
+        {/* Actions */}
+        <div className="flex flex-wrap items-center justify-center gap-2 sm:justify-start">
+          {tracks.length > 0 && (
+            <button
+              type="button"
+              onClick={handlePlayAll}
+              className="flex h-11 items-center gap-2 rounded-lg gradient-4 px-6 font-heading text-sm font-semibold text-white drop-shadow-[0_0_20px_rgba(95,108,255,0.4)] transition-all hover:drop-shadow-[0_0_30px_rgba(95,108,255,0.6)] focus-ring-glow"
+            >
+              {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+              {isPlaying ? "Pause" : "Play All"}
+            </button>
+          )}
+          {isAuthenticated ? (
+            <button
+              type="button"
+              onClick={handleSaveCopy}
+              disabled={isSaving || tracks.length === 0}
+              className="flex h-11 items-center gap-2 rounded-lg border border-(--border-standard) bg-white/5 px-5 text-sm font-semibold text-white/80 transition-colors hover:bg-white/10 focus-ring disabled:opacity-50"
+            >
+              <BookmarkPlus className="h-4 w-4" />
+              {isSaving ? "Saving..." : "Save a Copy"}
+            </button>
+          ) : (
+            !authLoading && (
+              <Link
+                href="/"
+                className="flex h-11 items-center gap-2 rounded-lg border border-(--border-standard) bg-white/5 px-5 text-sm font-semibold text-white/80 transition-colors hover:bg-white/10 focus-ring"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+                Sign in to Save a Copy
+              </Link>
+            )
+          )}
+        </div>
+
+        {/* Track list */}
+        {tracks.length === 0 ? (
+          <div className="flex flex-col items-center justify-center px-4 py-16 rounded-xl border border-(--border-subtle) bg-black/20">
+            <div className="flex h-16 w-16 items-center justify-center rounded-full border border-(--border-standard) bg-white/5 mb-4">
+              <Music className="h-8 w-8 text-white/60" />
+            </div>
+            <p className="font-heading text-sm font-semibold text-heading-solid">
+              This playlist is empty
+            </p>
+          </div>
+        ) : (
+          <ol className="flex flex-col gap-2">
+            {tracks.map((track, index) => {
+              const isCurrent = currentIndex === index
+              return (
+                <li key={track.id}>
+                  <button
+                    type="button"
+                    onClick={() => playFrom(index)}
+                    aria-current={isCurrent ? "true" : undefined}
+                    aria-label={`${isCurrent && isPlaying ? "Pause" : "Play"} ${track.title}`}
+                    className={cn(
+                      "flex w-full items-center gap-3 rounded-xl border px-3 py-2 text-left transition-colors focus-ring",
+                      isCurrent
+                        ? "border-white/30 bg-white/10"
+                        : "border-(--border-subtle) bg-black/20 hover:bg-white/5"
+                    )}
+                  >
+                    <span className="w-6 shrink-0 text-center text-xs text-white/60">
+                      {isCurrent && isPlaying ? <Pause className="mx-auto h-3.5 w-3.5" /> : index + 1}
+                    </span>
+                    <TrackArtwork
+                      artworkUrl={track.artworkUrl}
+                      title={track.title}
+                      sizes="40px"
+                      className="h-10 w-10 shrink-0 rounded-lg"
+                      imageClassName="rounded-lg"
+                      hoverScale={false}
+                      showPlayOverlay={false}
+                    />
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate text-sm font-semibold text-white">{track.title}</span>
+                      <span className="block truncate text-xs text-white/60">{track.collection}</span>
+                    </span>
+                    <span className="shrink-0 text-xs text-white/60">{formatDuration(track.duration)}</span>
+                  </button>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </div>
+
+      <audio
+        ref={audioRef}
+        src={currentTrack?.audioUrl}
+        preload="none"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={handleEnded}
+        className="hidden"
+      />
+    </main>
+  )
+}
@@ -0,0 +1,455 @@
+"use client"
+
+/**
+ * SmartPlaylistEditor Component
+ *
+ * Inline rule builder for smart playlists (create and edit).
+ * Features:
+ * - Match all (AND) / any (OR) of the top-level rules
+ * - BPM, genre, key, collection, length, and recently-played rules
+ * - Nested rule groups (synced from another device) are kept as-is
+ * - Live count of matching tracks
+ * - WCAG: 44px touch targets, labelled inputs, Escape to cancel
+ */
+
+import { useState, useCallback, useMemo, type KeyboardEvent } from "react"
+import { Plus, Sparkles, Trash2, X } from "lucide-react"
+import { usePlaylist } from "@/contexts/PlaylistContext"
+import {
+  createEmptySmartPlaylistRules,
+  describeSmartPlaylistRule,
+  evaluateSmartPlaylist,
+} from "@/lib/playlists"
+import { cn } from "@/lib/utils"
+import type { Playlist, SmartPlaylistNode, SmartPlaylistRule, SmartPlaylistRuleGroup } from "@/types"
+
+type RuleType = SmartPlaylistRule["type"]
+
+const RULE_OPTIONS: Array<{ type: RuleType; label: string }> = [
+  { type: "bpm", label: "BPM range" },
+  { type: "genre", label: "Genre" },
+  { type: "key", label: "Key" },
+  { type: "collection", label: "Collection" },
+  { type: "duration", label: "Length" },
+  { type: "recentlyPlayed", label: "Skip recently played" },
+]
+
+const inputClassName =
+  "h-11 w-full rounded-lg border border-(--border-standard) bg-black/30 px-3 font-sans text-sm text-white placeholder-white/40 transition-colors focus-ring-light"
+
+function createRule(type: RuleType): SmartPlaylistRule {
+  switch (type) {
+    case "bpm":
+      return { type, min: 120, max: 128 }
+    case "genre":
+      return { type, genres: [] }
+    case "key":
+      return { type, keys: [] }
+    case "collection":
+      return { type, collections: [] }
+    case "duration":
+      return { type, max: 360 }
+    case "recentlyPlayed":
+      return { type, count: 10 }
+  }
+}
+
+function parseBound(value: string, scale = 1): number | undefined {
+  if (value.trim() === "") return undefined
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? Math.round(parsed * scale) : undefined
+}
+
+function toggleValue(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((entry) => entry !== value) : [...values, value]
+}
+
+interface SmartPlaylistEditorProps {
+  onClose: () => void
+  /** Existing smart playlist to edit; omit to create a new one */
+  playlist?: Playlist
+  onCreated?: (playlist: Playlist) => void
+  className?: string
+}
+
+export function SmartPlaylistEditor({
+  onClose,
+  playlist,
+  onCreated,
+  className = "",
+}: SmartPlaylistEditorProps) {
+  const { createSmartPlaylist, updateSmartPlaylistRules, catalogTracks } = usePlaylist()
+  const isEditing = Boolean(playlist)
+  const [name, setName] = useState("")
+  const [rules, setRules] = useState<SmartPlaylistRuleGroup>(
+    () => playlist?.smartRules ?? createEmptySmartPlaylistRules()
+  )
+  const [newRuleType, setNewRuleType] = useState<RuleType>("bpm")
+  const [error, setError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
+
+  const genreOptions = useMemo(
+    () => Array.from(new Set(catalogTracks.flatMap((track) => track.genres))).sort(),
+    [catalogTracks]
+  )
+  const keyOptions = useMemo(
+    () =>
+      Array.from(
+        new Set(catalogTracks.map((track) => track.key).filter((key): key is string => Boolean(key)))
+      ).sort(),
+    [catalogTracks]
+  )
+  // Collection rules match on the track's collection title
+  const collectionOptions = useMemo(
+    () => Array.from(new Set(catalogTracks.map((track) => track.collection))),
+    [catalogTracks]
+  )
+
+  const matchCount = useMemo(
+    () => evaluateSmartPlaylist(rules, catalogTracks).length,
+    [rules, catalogTracks]
+  )
+
+  const updateRule = useCallback((index: number, rule: SmartPlaylistNode) => {
+    setRules((prev) => ({
+      ...prev,
+      rules: prev.rules.map((existing, i) => (i === index ? rule : existing)),
+    }))
+    setError(null)
+  }, [])
+
+  const removeRule = useCallback((index: number) => {
+    setRules((prev) => ({ ...prev, rules: prev.rules.filter((_, i) => i !== index) }))
+    setError(null)
+  }, [])
+
+  const addRule = useCallback(() => {
+    setRules((prev) => ({ ...prev, rules: [...prev.rules, createRule(newRuleType)] }))
+    setError(null)
+  }, [newRuleType])
+
+  const handleSave = useCallback(async () => {
+    const trimmed = name.trim()
+    if (!isEditing && trimmed.length === 0) {
+      setError("Playlist name cannot be empty")
+      return
+    }
+
+    setIsSaving(true)
+    setError(null)
+
+    try {
+      if (playlist) {
+        await updateSmartPlaylistRules(playlist.id, rules)
+      } else {
+        const created = await createSmartPlaylist(trimmed, rules)
+        onCreated?.(created)
+      }
+      onClose()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save smart playlist")
+    } finally {
+      setIsSaving(false)
+    }
+  }, [name, isEditing, playlist, rules, updateSmartPlaylistRules, createSmartPlaylist, onCreated, onClose])
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      if (e.key === "Escape") {
+        e.preventDefault()
+        onClose()
+      }
+    },
+    [onClose]
+  )
+
+  const renderChips = (
+    options: string[],
+    selected: string[],
+    onToggle: (value: string) => void,
+    label: string
+  ) => (
+    <div className="flex flex-wrap gap-1.5" role="group" aria-label={label}>
+      {options.map((option) => {
+        const isSelected = selected.includes(option)
+        return (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onToggle(option)}
+            aria-pressed={isSelected}
+            className={cn(
+              "rounded-full border px-3 py-1.5 text-xs font-semibold transition-colors focus-ring",
+              isSelected
+                ? "border-cyan-400/50 bg-cyan-500/20 text-cyan-200"
+                : "border-(--border-standard) bg-white/5 text-white/70 hover:bg-white/10"
+            )}
+          >
+            {option}
+          </button>
+        )
+      })}
+    </div>
+  )
+
+  const renderRuleFields = (rule: SmartPlaylistRule, index: number) => {
+    const fieldId = `smart-rule-${index}`
+
+    switch (rule.type) {
+      case "bpm":
+      case "duration": {
+        const scale = rule.type === "duration" ? 60 : 1
+        const unit = rule.type === "duration" ? "min" : "BPM"
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <label className="flex flex-col gap-1 text-xs text-white/60" htmlFor={`${fieldId}-min`}>
+              Min {unit}
+              <input
+                id={`${fieldId}-min`}
+                type="number"
+                min={0}
+                inputMode="decimal"
+                value={rule.min === undefined ? "" : rule.min / scale}
+                onChange={(e) => updateRule(index, { ...rule, min: parseBound(e.target.value, scale) })}
+                className={inputClassName}
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-white/60" htmlFor={`${fieldId}-max`}>
+              Max {unit}
+              <input
+                id={`${fieldId}-max`}
+                type="number"
+                min={0}
+                inputMode="decimal"
+                value={rule.max === undefined ? "" : rule.max / scale}
+                onChange={(e) => updateRule(index, { ...rule, max: parseBound(e.target.value, scale) })}
+                className={inputClassName}
+              />
+            </label>
+          </div>
+        )
+      }
+      case "genre":
+        return renderChips(
+          genreOptions,
+          rule.genres,
+          (genre) => updateRule(index, { ...rule, genres: toggleValue(rule.genres, genre) }),
+          "Genres"
+        )
+      case "collection":
+        return renderChips(
+          collectionOptions,
+          rule.collections,
+          (collection) => updateRule(index, { ...rule, collections: toggleValue(rule.collections, collection) }),
+          "Collections"
+        )
+      case "key":
+        return keyOptions.length > 0 ? (
+          renderChips(
+            keyOptions,
+            rule.keys,
+            (key) => updateRule(index, { ...rule, keys: toggleValue(rule.keys, key) }),
+            "Keys"
+          )
+        ) : (
+          <label className="flex flex-col gap-1 text-xs text-white/60" htmlFor={`${fieldId}-keys`}>
+            Keys (comma separated)
+            <input
+              id={`${fieldId}-keys`}
+              type="text"
+              value={rule.keys.join(", ")}
+              onChange={(e) =>
+                updateRule(index, {
+                  ...rule,
+                  keys: e.target.value.split(",").map((key) => key.trim()).filter(Boolean),
+                })
+              }
+              placeholder="A minor, 8A"
+              className={inputClassName}
+            />
+          </label>
+        )
+      case "recentlyPlayed":
+        return (
+          <label className="flex flex-col gap-1 text-xs text-white/60" htmlFor={`${fieldId}-count`}>
+            Skip tracks from your last plays
+            <input
+              id={`${fieldId}-count`}
+              type="number"
+              min={1}
+              max={50}
+              value={rule.count}
+              onChange={(e) => updateRule(index, { ...rule, count: Math.round(Number(e.target.value) || 0) })}
+              className={inputClassName}
+            />
+          </label>
+        )
+    }
+  }
+
+  return (
+    <div
+      className={`flex flex-col gap-3 rounded-xl border border-(--border-subtle) bg-(--bg-surface-elevated) p-4 ${className}`}
+      role="form"
+      aria-label={isEditing ? "Edit smart playlist rules" : "Create smart playlist"}
+      onKeyDown={handleKeyDown}
+      onClick={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-heading text-lg font-semibold text-heading-solid">
+          <Sparkles className="h-4 w-4 text-cyan-300" aria-hidden />
+          {isEditing ? "Edit Rules" : "Smart Playlist"}
+        </h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="flex h-11 w-11 items-center justify-center rounded-full transition-colors hover:bg-white/10 focus-ring"
+          aria-label="Close smart playlist editor"
+        >
+          <X className="h-5 w-5 text-white/80" />
+        </button>
+      </div>
+
+      {/* Name (create only) */}
+      {!isEditing && (
+        <div className="relative">
+          <label htmlFor="smart-playlist-name" className="sr-only">
+            Playlist name
+          </label>
+          <input
+            id="smart-playlist-name"
+            type="text"
+            value={name}
+            onChange={(e) => {
+              setName(e.target.value)
+              if (error) setError(null)
+            }}
+            placeholder="Enter playlist name"
+            maxLength={100}
+            autoFocus
+            disabled={isSaving}
+            className={`w-full rounded-lg border bg-black/30 px-4 py-3 font-sans text-sm text-white placeholder-white/40 transition-colors focus-ring-light disabled:cursor-not-allowed disabled:opacity-50 ${
+              error ? "border-red-500" : "border-(--border-standard)"
+            }`}
+          />
+          <div className="absolute right-3 top-3 text-xs text-white/60">
+            {name.length}/100
+          </div>
+        </div>
+      )}
+
+      {/* Match mode */}
+      <div className="flex items-center gap-2 text-xs text-white/60" role="radiogroup" aria-label="Match mode">
+        <span>Match</span>
+        {(["and", "or"] as const).map((operator) => (
+          <button
+            key={operator}
+            type="button"
+            role="radio"
+            aria-checked={rules.operator === operator}
+            onClick={() => setRules((prev) => ({ ...prev, operator }))}
+            className={cn(
+              "rounded-full border px-3 py-1.5 font-semibold transition-colors focus-ring",
+              rules.operator === operator
+                ? "border-purple-neon/50 gradient-2-tint text-white"
+                : "border-(--border-standard) bg-white/5 text-white/70 hover:bg-white/10"
+            )}
+          >
+            {operator === "and" ? "All rules" : "Any rule"}
+          </button>
+        ))}
+      </div>
+
+      {/* Rules */}
+      <ul className="flex flex-col gap-2" role="list">
+        {rules.rules.length === 0 && (
+          <li className="rounded-lg border border-dashed border-(--border-standard) px-3 py-4 text-center text-xs text-white/60">
+            No rules yet. Every track matches until you add one.
+          </li>
+        )}
+        {rules.rules.map((rule, index) => (
+          <li
+            key={`${rule.type}-${index}`}
+            className="flex flex-col gap-2 rounded-lg border border-(--border-subtle) bg-black/20 p-3"
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs font-semibold uppercase tracking-[0.15em] text-white/70">
+                {rule.type === "group"
+                  ? `${rule.operator === "and" ? "All" : "Any"} of ${rule.rules.length} rules`
+                  : describeSmartPlaylistRule(rule)}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeRule(index)}
+                className="flex h-11 w-11 items-center justify-center rounded-full text-white/60 transition-colors hover:bg-white/10 hover:text-red-400 focus-ring"
+                aria-label="Remove rule"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+            {rule.type !== "group" && renderRuleFields(rule, index)}
+          </li>
+        ))}
+      </ul>
+
+      {/* Add rule */}
+      <div className="flex gap-2">
+        <label htmlFor="smart-rule-type" className="sr-only">
+          Rule type
+        </label>
+        <select
+          id="smart-rule-type"
+          value={newRuleType}
+          onChange={(e) => setNewRuleType(e.target.value as RuleType)}
+          className={cn(inputClassName, "flex-1")}
+        >
+          {RULE_OPTIONS.map((option) => (
+            <option key={option.type} value={option.type}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={addRule}
+          className="flex h-11 items-center gap-2 rounded-lg border border-(--border-standard) bg-white/5 px-4 text-sm font-semibold text-white/80 transition-all hover:border-(--border-elevated) hover:bg-white/10 focus-ring"
+        >
+          <Plus className="h-4 w-4" />
+          Add Rule
+        </button>
+      </div>
+
+      <p className="text-xs text-white/60" aria-live="polite">
+        {matchCount} matching track{matchCount === 1 ? "" : "s"} · updates when the catalog changes
+      </p>
+
+      {error && (
+        <p className="text-xs text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={onClose}
+          disabled={isSaving}
+          className="flex h-11 flex-1 items-center justify-center rounded-lg border border-(--border-standard) bg-white/5 px-4 font-sans text-sm font-semibold text-white/80 transition-all hover:border-(--border-elevated) hover:bg-white/10 focus-ring disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={isSaving || (!isEditing && name.trim().length === 0)}
+          className="flex h-11 flex-1 items-center justify-center gap-2 rounded-lg gradient-4 px-4 font-heading text-sm font-semibold text-white shadow-[0_0_20px_rgba(95,108,255,0.3)] transition-all hover:shadow-[0_0_30px_rgba(95,108,255,0.5)] focus-ring-glow disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          <Sparkles className="h-4 w-4" />
+          {isSaving ? "Saving..." : isEditing ? "Save Rules" : "Create Smart Playlist"}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -9,3 +9,5 @@ export { PlaylistSelector } from "./PlaylistSelector"
 export { PlaylistList } from "./PlaylistList"
 export { PlaylistDetailView } from "./PlaylistDetailView"
 export { AddToPlaylistButton } from "./AddToPlaylistButton"
+export { PublicPlaylistView } from "./PublicPlaylistView"
+export { SmartPlaylistEditor } from "./SmartPlaylistEditor"
@@ -2,7 +2,7 @@
 
 import { useState, useEffect, useRef, useCallback } from "react"
 import { createPortal } from "react-dom"
-import { Share2, Link2, X as XIcon } from "lucide-react"
+import { Share2, Link2, Download, X as XIcon } from "lucide-react"
 import { useToast } from "@/contexts/ToastContext"
 import { useClickAway, useEscapeKey } from "@/hooks"
 import { useCspStyle } from "@/hooks/use-csp-style"
@@ -18,11 +18,18 @@ export interface WisdomItem {
   item: ThoughtPost | Guide | Reflection
 }
 
+/** Recorded media offered alongside the link (e.g. a Dream clip) */
+export interface ShareClip {
+  file: File
+  title: string
+}
+
 export interface ShareButtonProps {
   track?: Track
   collection?: Collection
   playlist?: Playlist
   wisdom?: WisdomItem
+  clip?: ShareClip
   size?: "sm" | "md" | "lg" | "xs" | "xxs"
   variant?: "icon" | "button"
   className?: string
@@ -39,6 +46,7 @@ export function ShareButton({
   collection,
   playlist,
   wisdom,
+  clip,
   size = "md",
   variant = "icon",
   className = ""
@@ -164,6 +172,10 @@ export function ShareButton({
       const title = `${playlist.name} — MetaDJ Playlist`
       const text = `Check out my playlist "${playlist.name}" on MetaDJ Nexus`
       const url = (() => {
+        // Published playlists share their public landing page
+        if (playlist.isPublic && playlist.publicSlug) {
+          return buildMusicDeepLinkUrl("playlist", playlist.publicSlug, baseUrl)
+        }
         const playlistUrl = new URL(buildMusicDeepLinkPath("playlist", playlist.id), baseUrl)
         playlistUrl.searchParams.set("name", playlist.name)
         playlistUrl.searchParams.set("count", playlist.trackIds.length.toString())
@@ -201,7 +213,7 @@ export function ShareButton({
     // Track share initiated
     trackEvent('share_initiated', {
       platform: 'clipboard',
-      content_type: track ? 'track' : collection ? 'collection' : playlist ? 'playlist' : wisdom ? wisdom.type : 'platform',
+      content_type: clip ? 'dream_clip' : track ? 'track' : collection ? 'collection' : playlist ? 'playlist' : wisdom ? wisdom.type : 'platform',
       ...(track && { track_id: track.id, track_title: track.title }),
       ...(collection && { collection_id: collection.id, collection_title: collection.title }),
       ...(playlist && { playlist_id: playlist.id, playlist_title: playlist.name }),
@@ -292,7 +304,7 @@ export function ShareButton({
     // Track share initiated
     trackEvent('share_initiated', {
       platform: 'x',
-      content_type: track ? 'track' : collection ? 'collection' : playlist ? 'playlist' : wisdom ? wisdom.type : 'platform',
+      content_type: clip ? 'dream_clip' : track ? 'track' : collection ? 'collection' : playlist ? 'playlist' : wisdom ? wisdom.type : 'platform',
       ...(track && { track_id: track.id, track_title: track.title }),
       ...(collection && { collection_id: collection.id, collection_title: collection.title }),
       ...(playlist && { playlist_id: playlist.id, playlist_title: playlist.name }),
@@ -326,7 +338,46 @@ export function ShareButton({
     })
   }
 
+  const handleDownloadClip = () => {
+    if (!clip) return
+    const url = window.URL.createObjectURL(clip.file)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = clip.file.name
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    window.URL.revokeObjectURL(url)
+    setShowMenu(false)
+
+    trackEvent('share_success', {
+      share_method: 'download',
+      item_type: 'dream_clip',
+      ...(track && { track_id: track.id }),
+    })
+  }
+
   const tryNativeShare = useCallback(async () => {
+    // Clips can't travel as links, so offer the file wherever the share sheet accepts files
+    if (clip && typeof navigator !== "undefined" && navigator.canShare?.({ files: [clip.file] })) {
+      const shareData = generateShareData()
+      try {
+        await navigator.share({ title: clip.title, text: shareData.text, files: [clip.file] })
+        trackEvent('share_success', {
+          share_method: 'web-share',
+          item_type: 'dream_clip',
+          ...(track && { track_id: track.id }),
+        })
+        return true
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") {
+          return true
+        }
+        // Fall through to the menu, which offers a download
+        return false
+      }
+    }
+
     // Only use native share on mobile devices
     const isMobile = /iPhone|iPad|iPod|Android/i.test(navigator.userAgent)
     
@@ -361,13 +412,13 @@ export function ShareButton({
       // Native share failed - non-critical, allow fallback to menu
       return false
     }
-  }, [generateShareData, track, collection, playlist, wisdom, trackPlaylistShare])
+  }, [generateShareData, clip, track, collection, playlist, wisdom, trackPlaylistShare])
 
   const handleButtonClick = async (event: React.MouseEvent) => {
     event.stopPropagation()
     
     trackEvent('share_button_clicked', {
-      item_type: track ? 'track' : collection ? 'collection' : playlist ? 'playlist' : wisdom ? wisdom.type : 'default',
+      item_type: clip ? 'dream_clip' : track ? 'track' : collection ? 'collection' : playlist ? 'playlist' : wisdom ? wisdom.type : 'default',
       ...(track && { track_id: track.id, track_title: track.title }),
       ...(collection && { collection_id: collection.id, collection_title: collection.title }),
       ...(playlist && { playlist_id: playlist.id, playlist_title: playlist.name }),
@@ -414,6 +465,8 @@ export function ShareButton({
 
     if (!showMenu || typeof document === 'undefined') return null
 
+    const clipItemCount = clip ? 1 : 0
+
     // Keyboard navigation handler for menu items
     const handleMenuKeyDown = (event: React.KeyboardEvent<HTMLButtonElement>, index: number) => {
       const buttons = menuRef.current?.querySelectorAll('button')
@@ -445,6 +498,25 @@ export function ShareButton({
         data-csp-style={menuStyleId}
       >
         <div className="p-1.5">
+          {clip && (
+            <button
+              type="button"
+              role="menuitem"
+              onClick={(e) => {
+                e.stopPropagation()
+                e.preventDefault()
+                handleDownloadClip()
+              }}
+              onPointerUp={(e) => e.stopPropagation()}
+              onPointerCancel={(e) => e.stopPropagation()}
+              onKeyDown={(e) => handleMenuKeyDown(e, 0)}
+              className="w-full flex items-center gap-3 px-3 min-h-[44px] rounded-lg text-sm text-white/80 hover:bg-white/10 hover:text-white transition duration-75 focus-ring"
+              aria-label={`Download clip "${clip.title}"`}
+            >
+              <Download className="h-4 w-4 shrink-0" aria-hidden="true" />
+              <span>Download Clip</span>
+            </button>
+          )}
           <button
             type="button"
             role="menuitem"
@@ -455,7 +527,7 @@ export function ShareButton({
             }}
             onPointerUp={(e) => e.stopPropagation()}
             onPointerCancel={(e) => e.stopPropagation()}
-            onKeyDown={(e) => handleMenuKeyDown(e, 0)}
+            onKeyDown={(e) => handleMenuKeyDown(e, clipItemCount)}
             className="w-full flex items-center gap-3 px-3 min-h-[44px] rounded-lg text-sm text-white/80 hover:bg-white/10 hover:text-white transition duration-75 focus-ring"
             aria-label={`Copy link to ${track ? `"${track.title}"` : collection ? collection.title : playlist ? playlist.name : wisdom ? `"${wisdom.item.title}"` : 'MetaDJ Nexus'}`}
           >
@@ -472,7 +544,7 @@ export function ShareButton({
             }}
             onPointerUp={(e) => e.stopPropagation()}
             onPointerCancel={(e) => e.stopPropagation()}
-            onKeyDown={(e) => handleMenuKeyDown(e, 1)}
+            onKeyDown={(e) => handleMenuKeyDown(e, clipItemCount + 1)}
             className="w-full flex items-center gap-3 px-3 min-h-[44px] rounded-lg text-sm text-white/80 hover:bg-white/10 hover:text-white transition duration-75 focus-ring"
             aria-label={`Share ${track ? `"${track.title}"` : collection ? collection.title : playlist ? playlist.name : wisdom ? `"${wisdom.item.title}"` : 'MetaDJ Nexus'} to X`}
           >
@@ -493,7 +565,7 @@ export function ShareButton({
           type="button"
           onClick={handleButtonClick}
           className={`inline-flex items-center justify-center gap-1.5 sm:gap-2 rounded-full border border-white/20 text-white/80 transition hover:bg-white/10 hover:border-white/30 hover:text-white focus-ring-glow touch-manipulation ${sizeClasses[size]} ${className}`}
-          aria-label={track ? `Share ${track.title}` : collection ? `Share ${collection.title}` : playlist ? `Share ${playlist.name}` : wisdom ? `Share ${wisdom.item.title}` : "Share MetaDJ Nexus"}
+          aria-label={clip ? "Share Dream clip" : track ? `Share ${track.title}` : collection ? `Share ${collection.title}` : playlist ? `Share ${playlist.name}` : wisdom ? `Share ${wisdom.item.title}` : "Share MetaDJ Nexus"}
           aria-expanded={showMenu}
           aria-haspopup="menu"
         >
@@ -513,7 +585,7 @@ export function ShareButton({
         type="button"
         onClick={handleButtonClick}
         className={`inline-flex items-center justify-center rounded-full text-white/60 transition hover:bg-white/10 hover:text-white focus-ring-glow touch-manipulation ${sizeClasses[size]} ${className}`}
-        aria-label={track ? `Share ${track.title}` : collection ? `Share ${collection.title}` : playlist ? `Share ${playlist.name}` : wisdom ? `Share ${wisdom.item.title}` : "Share MetaDJ Nexus"}
+        aria-label={clip ? "Share Dream clip" : track ? `Share ${track.title}` : collection ? `Share ${collection.title}` : playlist ? `Share ${playlist.name}` : wisdom ? `Share ${wisdom.item.title}` : "Share MetaDJ Nexus"}
         aria-expanded={showMenu}
         aria-haspopup="menu"
       >
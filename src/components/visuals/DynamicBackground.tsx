@@ -5,9 +5,13 @@
  *
  * Creates smooth gradient backgrounds derived from track artwork colors.
  * Transitions smoothly between tracks with WCAG-compliant contrast.
+ * While music plays, the gradient flashes briefly on each tracked beat
+ * (strongest on the downbeat).
  */
 
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState, useRef, useCallback } from 'react';
+import { usePlayer } from '@/contexts/PlayerContext';
+import { useBeatTracker } from '@/hooks/audio/use-beat-tracker';
 import { useCspStyle } from '@/hooks/use-csp-style';
 import { extractColorsWithCache, createGradientFromColors, type ExtractedColors } from '@/lib/color/color-extraction';
 import { logger } from '@/lib/logger';
@@ -26,6 +30,11 @@ interface DynamicBackgroundProps {
   transitionDuration?: number;
 }
 
+/** Peak opacity of the beat flash layer */
+const BEAT_FLASH_OPACITY = 0.35;
+/** How long a beat flash holds before releasing */
+const BEAT_FLASH_HOLD_MS = 90;
+
 export function DynamicBackground({
   artworkUrl,
   enabled = true,
@@ -42,6 +51,42 @@ export function DynamicBackground({
   const timeoutRef = useRef<number | null>(null);
   const requestIdRef = useRef(0);
   const effectiveTransitionDuration = prefersReducedMotion ? 0 : transitionDuration;
+  const { audioRef, isPlaying, currentTrack } = usePlayer();
+  const [beatFlash, setBeatFlash] = useState(0);
+  const beatFlashTimeoutRef = useRef<number | null>(null);
+  const isBeatReactive = enabled && isPlaying && !prefersReducedMotion;
+
+  const flashBeat = useCallback((level: number) => {
+    setBeatFlash(level);
+    if (beatFlashTimeoutRef.current !== null) {
+      window.clearTimeout(beatFlashTimeoutRef.current);
+    }
+    beatFlashTimeoutRef.current = window.setTimeout(() => {
+      setBeatFlash(0);
+      beatFlashTimeoutRef.current = null;
+    }, BEAT_FLASH_HOLD_MS);
+  }, []);
+
+  useBeatTracker({
+    audioRef,
+    enabled: isBeatReactive,
+    bpm: currentTrack?.bpm,
+    onBeat: (event) => flashBeat(Math.min(1, event.confidence * 1.5) * 0.5),
+    onDownbeat: (event) => flashBeat(Math.min(1, event.confidence * 1.5)),
+  });
+
+  useEffect(() => {
+    if (isBeatReactive) return;
+    setBeatFlash(0);
+  }, [isBeatReactive]);
+
+  useEffect(() => {
+    return () => {
+      if (beatFlashTimeoutRef.current !== null) {
+        window.clearTimeout(beatFlashTimeoutRef.current);
+      }
+    };
+  }, []);
 
   // Default fallback gradient (MetaDJ brand colors)
   const defaultGradient = `radial-gradient(circle at 20% 20%, oklch(0.646 0.222 264.376) / ${opacity}, transparent 60%), radial-gradient(circle at 80% 80%, oklch(0.627 0.265 303.9) / ${opacity * 0.8}, transparent 60%)`;
@@ -148,6 +193,13 @@ export function DynamicBackground({
     opacity: isTransitioning ? 1 : 0,
     transition,
   });
+  // Beat flash: fast attack on the hit, slower release
+  const beatFlashStyle = useCspStyle({
+    background: currentGradient || defaultGradient,
+    mixBlendMode: 'screen',
+    opacity: beatFlash * BEAT_FLASH_OPACITY,
+    transition: `opacity ${beatFlash > 0 ? 60 : 400}ms ease-out`,
+  });
   const noiseStyle = useCspStyle({
     backgroundImage: `url("data:image/svg+xml,%3Csvg viewBox='0 0 256 256' xmlns='http://www.w3.org/2000/svg'%3E%3Cfilter id='noise'%3E%3CfeTurbulence type='fractalNoise' baseFrequency='0.9' numOctaves='4' /%3E%3C/filter%3E%3Crect width='100%25' height='100%25' filter='url(%23noise)' opacity='0.03'/%3E%3C/svg%3E")`,
     backgroundRepeat: 'repeat',
@@ -179,6 +231,14 @@ export function DynamicBackground({
         />
       )}
 
+      {/* Beat flash layer */}
+      {isBeatReactive && (
+        <div
+          className="absolute inset-0"
+          data-csp-style={beatFlashStyle}
+        />
+      )}
+
       {/* Subtle noise texture overlay for depth */}
       <div
         className="absolute inset-0"
@@ -6,47 +6,116 @@
  * Manages user-created playlists with localStorage persistence.
  * Provides CRUD operations, track management, and playback integration.
  *
+ * ## Server Sync
+ *
+ * When a session exists, localStorage acts as a cache for `/api/playlists`:
+ * - On sign-in the local cache is reconciled via `/api/playlists/sync`
+ *   (first sign-in on a device migrates pre-account playlists)
+ * - Each mutation pushes the full playlist snapshot to the server
+ * - Conflicts resolve per playlist by `updatedAt`; when the server copy wins,
+ *   it replaces the local one
+ * - Publishing (`setPlaylistVisibility`) is server-only and needs a session
+ *
+ * ## Smart Playlists
+ *
+ * Smart playlists store a rule tree (`smartRules`) and keep `trackIds` as the
+ * latest evaluation against the catalog. `refreshSmartPlaylists()` supplies the
+ * current catalog (HomePageClient calls it whenever its tracks change); stale
+ * evaluations are refreshed locally without bumping `updatedAt` or syncing, so
+ * only rule changes propagate between devices. Manual track edits are rejected.
+ * Playback goes through `buildQueue` so `recentlyPlayed` exclusions use the
+ * listening history at the moment playback starts.
+ *
+ * The same catalog is exposed as `catalogTracks` (the bundled catalog until the
+ * app shell supplies one) so playlist views and MetaDJai cards resolve track IDs
+ * that only exist in the database catalog.
+ *
  * ## Context Dependencies
  *
  * This context depends on:
+ * - **AuthContext** (required): Used to decide when to sync with the server
  * - **QueueContext** (required): Used for `playPlaylist()` to set queue with playlist tracks
  * - **ToastContext** (required): Used for user feedback on playlist operations
  *
- * PlaylistProvider MUST be rendered inside QueueProvider and ToastProvider.
+ * PlaylistProvider MUST be rendered inside AuthProvider, QueueProvider and ToastProvider.
  * See `src/app/layout.tsx` for the correct provider nesting order.
  */
 
 import { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 import { trackActivationFirstPlaylist, trackEvent } from '@/lib/analytics';
 import { logger } from '@/lib/logger';
-import { tracks } from '@/lib/music';
+import { tracks as bundledTracks } from '@/lib/music';
+import { buildQueue } from '@/lib/music/queue-builder';
+import {
+  deleteRemotePlaylist,
+  fetchRemotePlaylists,
+  saveRemotePlaylist,
+  setRemotePlaylistVisibility,
+  syncRemotePlaylists,
+} from '@/lib/playlists/remote';
 import {
   getPlaylists,
+  savePlaylists,
   createPlaylist as createPlaylistRepo,
+  createSmartPlaylist as createSmartPlaylistRepo,
   duplicatePlaylist as duplicatePlaylistRepo,
+  copyPlaylist as copyPlaylistRepo,
   updatePlaylist as updatePlaylistRepo,
+  refreshSmartPlaylistTrackIds,
   deletePlaylist as deletePlaylistRepo,
   addTrackToPlaylist as addTrackRepo,
   removeTrackFromPlaylist as removeTrackRepo,
   reorderTracks as reorderTracksRepo,
   findPlaylistById,
 } from '@/lib/playlists/repository';
+import { evaluateSmartPlaylist, haveSameTrackIds, normalizeSmartPlaylistRules } from '@/lib/playlists/smart';
+import { getRawValue, setRawValue, STORAGE_KEYS } from '@/lib/storage/persistence';
 import { toasts } from '@/lib/toast-helpers';
 import { PlaylistErrors } from '@/types/playlist.types';
+import { useAuth } from './AuthContext';
 import { useQueue } from './QueueContext';
 import { useToast } from './ToastContext';
-import type { Track, PlaylistContextValue, Playlist } from '@/types';
+import type { Track, PlaylistContextValue, Playlist, SmartPlaylistRuleGroup } from '@/types';
 
 const PlaylistContext = createContext<PlaylistContextValue | null>(null);
 
+/**
+ * Recently played track IDs (most recent first) from the local history cache.
+ * `useRecentlyPlayed` mirrors server history into this key, so it is current
+ * for signed-in users too.
+ */
+function getRecentlyPlayedIds(): string[] {
+  try {
+    const stored = getRawValue(STORAGE_KEYS.RECENTLY_PLAYED);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((entry) => (entry && typeof entry === 'object' ? (entry as { trackId?: unknown }).trackId : null))
+      .filter((trackId): trackId is string => typeof trackId === 'string');
+  } catch {
+    return [];
+  }
+}
+
+function getSmartTrackIds(rules: SmartPlaylistRuleGroup, catalog: Track[]): string[] {
+  return evaluateSmartPlaylist(rules, catalog).map((track) => track.id);
+}
+
 export function PlaylistProvider({ children }: { children: React.ReactNode }) {
   const { showToast } = useToast();
   const queue = useQueue();
+  const { user, isLoading: authLoading } = useAuth();
+  const userId = user?.id ?? null;
 
   // Playlist state
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
   const [selectedPlaylist, setSelectedPlaylist] = useState<Playlist | null>(null);
   const [isLoading, setIsLoading] = useState(false);
+  // Catalog supplied by the app shell; null until provided (bundled catalog is the fallback)
+  const [catalogTracks, setCatalogTracks] = useState<Track[] | null>(null);
+  // Track IDs resolve against the served catalog (database tracks included)
+  const catalog = useMemo(() => catalogTracks ?? bundledTracks, [catalogTracks]);
 
   // Load playlists on mount
   useEffect(() => {
@@ -63,6 +132,91 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
     }
   }, [showToast]);
 
+  // Reconcile with the server once a session exists
+  useEffect(() => {
+    if (authLoading || !userId) return;
+
+    let isCancelled = false;
+
+    const syncWithServer = async () => {
+      // Only upload the local cache when it belongs to this user (or predates any
+      // sign-in on this device). A cache left by another account is replaced instead.
+      const syncedUserId = getRawValue(STORAGE_KEYS.PLAYLISTS_SYNCED_USER);
+      const canUploadLocal = !syncedUserId || syncedUserId === userId;
+      const localPlaylists = canUploadLocal ? getPlaylists() : [];
+
+      const remotePlaylists = canUploadLocal
+        ? await syncRemotePlaylists(localPlaylists)
+        : await fetchRemotePlaylists();
+
+      if (isCancelled || !remotePlaylists) return;
+
+      try {
+        savePlaylists(remotePlaylists);
+      } catch (error) {
+        logger.warn('Failed to cache synced playlists', { error });
+      }
+      setRawValue(STORAGE_KEYS.PLAYLISTS_SYNCED_USER, userId);
+
+      setPlaylists(remotePlaylists);
+      setSelectedPlaylist((prev) =>
+        prev ? remotePlaylists.find((p) => p.id === prev.id) ?? null : prev
+      );
+
+      logger.info('Playlists synced with server', {
+        count: remotePlaylists.length,
+        uploaded: localPlaylists.length,
+        migrated: !syncedUserId,
+      });
+    };
+
+    void syncWithServer();
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [authLoading, userId]);
+
+  /**
+   * Replace a local playlist with the server's winning copy (or drop it when
+   * it was deleted on another device)
+   */
+  const adoptServerPlaylist = useCallback((playlistId: string, serverPlaylist: Playlist | null) => {
+    const cached = getPlaylists();
+    const next = serverPlaylist
+      ? cached.map((p) => (p.id === playlistId ? serverPlaylist : p))
+      : cached.filter((p) => p.id !== playlistId);
+
+    try {
+      savePlaylists(next);
+    } catch (error) {
+      logger.warn('Failed to cache server playlist', { error, playlistId });
+    }
+
+    setPlaylists((prev) =>
+      serverPlaylist
+        ? prev.map((p) => (p.id === playlistId ? serverPlaylist : p))
+        : prev.filter((p) => p.id !== playlistId)
+    );
+    setSelectedPlaylist((prev) => (prev?.id === playlistId ? serverPlaylist : prev));
+  }, []);
+
+  /**
+   * Push a playlist snapshot to the server (signed-in users only, best effort)
+   */
+  const pushPlaylist = useCallback(
+    (playlist: Playlist) => {
+      if (!userId) return;
+
+      void saveRemotePlaylist(playlist).then((result) => {
+        if (result && !result.applied) {
+          adoptServerPlaylist(playlist.id, result.playlist);
+        }
+      });
+    },
+    [userId, adoptServerPlaylist]
+  );
+
   /**
    * Create a new playlist
    */
@@ -76,6 +230,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
       try {
         const newPlaylist = createPlaylistRepo(name);
         setPlaylists((prev) => [...prev, newPlaylist]);
+        pushPlaylist(newPlaylist);
 
         // Analytics
         trackEvent('playlist_created', {
@@ -107,7 +262,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
         setIsLoading(false);
       }
     },
-    [showToast]
+    [pushPlaylist, showToast]
   );
 
   /**
@@ -123,6 +278,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
       try {
         const duplicated = duplicatePlaylistRepo(playlistId);
         setPlaylists((prev) => [...prev, duplicated]);
+        pushPlaylist(duplicated);
 
         trackEvent('playlist_duplicated', {
           playlistId,
@@ -152,9 +308,147 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
         setIsLoading(false);
       }
     },
-    [showToast]
+    [pushPlaylist, showToast]
   );
 
+  /**
+   * Create a smart playlist from a rule tree
+   */
+  const createSmartPlaylist = useCallback(
+    async (name: string, rules: SmartPlaylistRuleGroup): Promise<Playlist> => {
+      setIsLoading(true);
+
+      try {
+        const normalized = normalizeSmartPlaylistRules(rules);
+        if (!normalized) {
+          throw new Error(PlaylistErrors.SMART_RULES_INVALID);
+        }
+
+        const newPlaylist = createSmartPlaylistRepo(
+          name,
+          normalized,
+          getSmartTrackIds(normalized, catalog)
+        );
+        setPlaylists((prev) => [...prev, newPlaylist]);
+        setSelectedPlaylist(newPlaylist);
+        pushPlaylist(newPlaylist);
+
+        trackEvent('smart_playlist_created', {
+          playlistId: newPlaylist.id,
+          ruleCount: normalized.rules.length,
+          trackCount: newPlaylist.trackIds.length,
+        });
+
+        showToast({
+          message: `Smart playlist "${newPlaylist.name}" created with ${newPlaylist.trackIds.length} track${newPlaylist.trackIds.length === 1 ? '' : 's'}`,
+          variant: 'success',
+        });
+
+        logger.info('Smart playlist created', { id: newPlaylist.id, trackCount: newPlaylist.trackIds.length });
+        return newPlaylist;
+      } catch (error) {
+        logger.error('Failed to create smart playlist', { error, name });
+        showToast({
+          message: error instanceof Error ? error.message : 'Failed to create smart playlist',
+          variant: 'error',
+        });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [catalog, pushPlaylist, showToast]
+  );
+
+  /**
+   * Replace a smart playlist's rules and re-evaluate it
+   */
+  const updateSmartPlaylistRules = useCallback(
+    async (playlistId: string, rules: SmartPlaylistRuleGroup): Promise<void> => {
+      setIsLoading(true);
+
+      try {
+        const normalized = normalizeSmartPlaylistRules(rules);
+        if (!normalized) {
+          throw new Error(PlaylistErrors.SMART_RULES_INVALID);
+        }
+
+        const updated = updatePlaylistRepo(playlistId, {
+          smartRules: normalized,
+          trackIds: getSmartTrackIds(normalized, catalog),
+        });
+        setPlaylists((prev) => prev.map((p) => (p.id === playlistId ? updated : p)));
+        setSelectedPlaylist((prev) => (prev?.id === playlistId ? updated : prev));
+        pushPlaylist(updated);
+
+        trackEvent('smart_playlist_rules_updated', {
+          playlistId,
+          ruleCount: normalized.rules.length,
+          trackCount: updated.trackIds.length,
+        });
+
+        showToast({
+          message: `Rules updated · ${updated.trackIds.length} matching track${updated.trackIds.length === 1 ? '' : 's'}`,
+          variant: 'success',
+        });
+
+        logger.info('Smart playlist rules updated', { playlistId, trackCount: updated.trackIds.length });
+      } catch (error) {
+        logger.error('Failed to update smart playlist rules', { error, playlistId });
+        showToast({
+          message: error instanceof Error ? error.message : 'Failed to update smart playlist',
+          variant: 'error',
+        });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [catalog, pushPlaylist, showToast]
+  );
+
+  /**
+   * Supply the current catalog so smart playlists re-evaluate against it
+   */
+  const refreshSmartPlaylists = useCallback((catalog: Track[]) => {
+    setCatalogTracks((prev) =>
+      prev && haveSameTrackIds(prev.map((track) => track.id), catalog.map((track) => track.id))
+        ? prev
+        : catalog
+    );
+  }, []);
+
+  // Re-evaluate smart playlists whose stored evaluation no longer matches the
+  // catalog (catalog edits, or a playlist synced from a device with an older
+  // catalog). The result is derived, so it stays local: no `updatedAt` bump and
+  // no push, otherwise devices would keep overwriting each other.
+  useEffect(() => {
+    if (!catalogTracks) return;
+
+    const stale = new Map<string, string[]>();
+    for (const playlist of playlists) {
+      if (!playlist.smartRules) continue;
+      const trackIds = getSmartTrackIds(playlist.smartRules, catalogTracks);
+      if (!haveSameTrackIds(playlist.trackIds, trackIds)) {
+        stale.set(playlist.id, trackIds);
+      }
+    }
+    if (stale.size === 0) return;
+
+    let refreshed: Map<string, Playlist>;
+    try {
+      refreshed = new Map(refreshSmartPlaylistTrackIds(stale).map((playlist) => [playlist.id, playlist]));
+    } catch (error) {
+      logger.warn('Failed to refresh smart playlists', { error });
+      return;
+    }
+    if (refreshed.size === 0) return;
+
+    setPlaylists((prev) => prev.map((p) => refreshed.get(p.id) ?? p));
+    setSelectedPlaylist((prev) => (prev ? refreshed.get(prev.id) ?? prev : prev));
+    logger.info('Smart playlists refreshed', { count: refreshed.size });
+  }, [catalogTracks, playlists]);
+
   /**
    * Update a playlist
    */
@@ -165,6 +459,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
       try {
         const updated = updatePlaylistRepo(id, updates);
         setPlaylists((prev) => prev.map((p) => (p.id === id ? updated : p)));
+        pushPlaylist(updated);
 
         if (selectedPlaylist?.id === id) {
           setSelectedPlaylist(updated);
@@ -209,7 +504,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
         setIsLoading(false);
       }
     },
-    [selectedPlaylist, showToast]
+    [pushPlaylist, selectedPlaylist, showToast]
   );
 
   /**
@@ -227,6 +522,9 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
 
         deletePlaylistRepo(id);
         setPlaylists((prev) => prev.filter((p) => p.id !== id));
+        if (userId) {
+          void deleteRemotePlaylist(id);
+        }
 
         if (selectedPlaylist?.id === id) {
           setSelectedPlaylist(null);
@@ -258,21 +556,23 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
         setIsLoading(false);
       }
     },
-    [selectedPlaylist, showToast]
+    [selectedPlaylist, showToast, userId]
   );
 
   /**
-   * Core track operation without toast (used internally to avoid circular dependencies)
+   * Core track operation without toast (used internally to avoid circular dependencies).
+   * Pass `push = false` when batching so the caller can push a single snapshot.
    */
   const addTrackCore = useCallback(
-    (playlistId: string, trackId: string): { updated: Playlist; track: Track | undefined } => {
+    (playlistId: string, trackId: string, push = true): { updated: Playlist; track: Track | undefined } => {
       const updated = addTrackRepo(playlistId, trackId);
       setPlaylists((prev) => prev.map((p) => (p.id === playlistId ? updated : p)));
       setSelectedPlaylist((prev) => (prev?.id === playlistId ? updated : prev));
-      const track = tracks.find((t) => t.id === trackId);
+      if (push) pushPlaylist(updated);
+      const track = catalog.find((t) => t.id === trackId);
       return { updated, track };
     },
-    []
+    [catalog, pushPlaylist]
   );
 
   const removeTrackCore = useCallback(
@@ -280,10 +580,11 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
       const updated = removeTrackRepo(playlistId, trackId);
       setPlaylists((prev) => prev.map((p) => (p.id === playlistId ? updated : p)));
       setSelectedPlaylist((prev) => (prev?.id === playlistId ? updated : prev));
-      const track = tracks.find((t) => t.id === trackId);
+      pushPlaylist(updated);
+      const track = catalog.find((t) => t.id === trackId);
       return { updated, track };
     },
-    []
+    [catalog, pushPlaylist]
   );
 
   /**
@@ -345,7 +646,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
 
         for (const trackId of uniqueIds) {
           try {
-            const { updated } = addTrackCore(playlistId, trackId);
+            const { updated } = addTrackCore(playlistId, trackId, false);
             updatedPlaylist = updated;
             added += 1;
           } catch (error) {
@@ -357,6 +658,8 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
         }
 
         if (updatedPlaylist) {
+          pushPlaylist(updatedPlaylist);
+
           trackEvent('playlist_tracks_added', {
             playlistId,
             addedCount: added,
@@ -388,7 +691,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
         setIsLoading(false);
       }
     },
-    [addTrackCore, showToast]
+    [addTrackCore, pushPlaylist, showToast]
   );
 
   /**
@@ -440,6 +743,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
       try {
         const updated = reorderTracksRepo(playlistId, fromIndex, toIndex);
         setPlaylists((prev) => prev.map((p) => (p.id === playlistId ? updated : p)));
+        pushPlaylist(updated);
 
         if (selectedPlaylist?.id === playlistId) {
           setSelectedPlaylist(updated);
@@ -463,7 +767,95 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
         setIsLoading(false);
       }
     },
-    [selectedPlaylist, showToast]
+    [pushPlaylist, selectedPlaylist, showToast]
+  );
+
+  /**
+   * Publish or unpublish a playlist (signed-in users only).
+   * The latest snapshot is pushed first so the server has the playlist to publish.
+   */
+  const setPlaylistVisibility = useCallback(
+    async (playlistId: string, isPublic: boolean): Promise<Playlist> => {
+      setIsLoading(true);
+
+      try {
+        if (!userId) {
+          throw new Error(PlaylistErrors.PUBLISH_REQUIRES_ACCOUNT);
+        }
+
+        const playlist = findPlaylistById(playlistId);
+        if (!playlist) {
+          throw new Error(PlaylistErrors.PLAYLIST_NOT_FOUND);
+        }
+
+        const saved = await saveRemotePlaylist(playlist);
+        if (!saved?.playlist) {
+          throw new Error(PlaylistErrors.PUBLISH_FAILED);
+        }
+
+        const published = await setRemotePlaylistVisibility(playlistId, isPublic);
+        if (!published) {
+          throw new Error(PlaylistErrors.PUBLISH_FAILED);
+        }
+
+        adoptServerPlaylist(playlistId, published);
+
+        trackEvent(isPublic ? 'playlist_published' : 'playlist_unpublished', {
+          playlistId,
+          trackCount: published.trackIds.length,
+        });
+
+        showToast(toasts.playlistVisibilityChanged(published.name, isPublic));
+
+        logger.info('Playlist visibility changed', { playlistId, isPublic });
+        return published;
+      } catch (error) {
+        logger.error('Failed to change playlist visibility', { error, playlistId, isPublic });
+        showToast({
+          message: error instanceof Error ? error.message : PlaylistErrors.PUBLISH_FAILED,
+          variant: 'error',
+        });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [adoptServerPlaylist, showToast, userId]
+  );
+
+  /**
+   * Save a copy of a published playlist into the user's playlists
+   */
+  const savePlaylistCopy = useCallback(
+    async (name: string, trackIds: string[]): Promise<Playlist> => {
+      setIsLoading(true);
+
+      try {
+        const copy = copyPlaylistRepo(name, trackIds);
+        setPlaylists((prev) => [...prev, copy]);
+        pushPlaylist(copy);
+
+        trackEvent('playlist_copied', {
+          playlistId: copy.id,
+          trackCount: copy.trackIds.length,
+        });
+
+        showToast(toasts.playlistCopied(copy.name));
+
+        logger.info('Playlist copy saved', { id: copy.id, trackCount: copy.trackIds.length });
+        return copy;
+      } catch (error) {
+        logger.error('Failed to save playlist copy', { error, name });
+        showToast({
+          message: error instanceof Error ? error.message : 'Failed to save playlist',
+          variant: 'error',
+        });
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [pushPlaylist, showToast]
   );
 
   /**
@@ -477,9 +869,46 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
         return;
       }
 
+      if (playlist.smartRules) {
+        // Re-evaluate at playback so history exclusions reflect recent listening
+        const result = buildQueue(catalog, [], null, {
+          smartPlaylist: {
+            rules: playlist.smartRules,
+            recentlyPlayedIds: getRecentlyPlayedIds(),
+          },
+        });
+
+        if (result.combinedQueue.length === 0) {
+          showToast({
+            message: 'No tracks match this smart playlist right now',
+            variant: 'info',
+          });
+          return;
+        }
+
+        queue.setQueue(result.combinedQueue);
+        queue.setAutoQueue(result.autoQueue);
+        queue.setQueueContext('smart-playlist');
+        queue.setPlaybackSource({ type: 'queue' });
+        queue.updatePersistenceMetadata({
+          playlistId,
+          currentIndex: 0,
+        });
+
+        trackEvent('playlist_played', {
+          playlistId,
+          trackCount: result.combinedQueue.length,
+          source: 'navigation',
+          smart: true,
+        });
+
+        logger.info('Playing smart playlist', { playlistId, trackCount: result.combinedQueue.length });
+        return;
+      }
+
       // Get track objects from IDs
       const playlistTracks = playlist.trackIds
-        .map((id) => tracks.find((t) => t.id === id))
+        .map((id) => catalog.find((t) => t.id === id))
         .filter((t): t is Track => Boolean(t));
 
       if (playlistTracks.length === 0) {
@@ -493,6 +922,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
       // Update queue with playlist tracks
       queue.setQueue(playlistTracks);
       queue.setQueueContext('playlist');
+      queue.setPlaybackSource({ type: 'queue' });
       queue.updatePersistenceMetadata({
         playlistId,
         currentIndex: 0,
@@ -507,7 +937,7 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
 
       logger.info('Playing playlist', { playlistId, trackCount: playlistTracks.length });
     },
-    [playlists, queue, showToast]
+    [catalog, playlists, queue, showToast]
   );
 
   /**
@@ -533,6 +963,8 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
 
     // Operations
     createPlaylist,
+    createSmartPlaylist,
+    updateSmartPlaylistRules,
     duplicatePlaylist,
     updatePlaylist,
     deletePlaylist,
@@ -543,9 +975,19 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
     removeTrackFromPlaylist,
     reorderTracks,
 
+    // Sharing
+    setPlaylistVisibility,
+    savePlaylistCopy,
+
     // Playback
     playPlaylist,
 
+    // Catalog
+    catalogTracks: catalog,
+
+    // Smart playlists
+    refreshSmartPlaylists,
+
     // Selection
     selectPlaylist,
     clearSelection,
@@ -554,6 +996,8 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
     selectedPlaylist,
     isLoading,
     createPlaylist,
+    createSmartPlaylist,
+    updateSmartPlaylistRules,
     duplicatePlaylist,
     updatePlaylist,
     deletePlaylist,
@@ -561,7 +1005,11 @@ export function PlaylistProvider({ children }: { children: React.ReactNode }) {
     addTracksToPlaylist,
     removeTrackFromPlaylist,
     reorderTracks,
+    setPlaylistVisibility,
+    savePlaylistCopy,
     playPlaylist,
+    catalog,
+    refreshSmartPlaylists,
     selectPlaylist,
     clearSelection,
   ]);
@@ -18,8 +18,11 @@ import type {
   QueueContext as QueueContextType,
   QueueContextValue,
   QueuePersistenceMetadata,
+  PlaybackSource,
 } from '@/types';
 
+const DEFAULT_PLAYBACK_SOURCE: PlaybackSource = { type: 'queue' };
+
 const QueueContext = createContext<QueueContextValue | null>(null);
 
 export function QueueProvider({ children }: { children: React.ReactNode }) {
@@ -28,6 +31,7 @@ export function QueueProvider({ children }: { children: React.ReactNode }) {
   const [autoQueue, setAutoQueue] = useState<Track[]>([]);
   const [manualTrackIds, setManualTrackIds] = useState<string[]>([]);
   const [queueContext, setQueueContext] = useState<QueueContextType>('collection');
+  const [playbackSource, setPlaybackSource] = useState<PlaybackSource>(DEFAULT_PLAYBACK_SOURCE);
   const [persistenceMetadata, setPersistenceMetadata] = useState<QueuePersistenceMetadata | null>(null);
   const [isHydrated, setIsHydrated] = useState(false);
   const hasPersistedOnceRef = useRef(false);
@@ -37,6 +41,7 @@ export function QueueProvider({ children }: { children: React.ReactNode }) {
   // Use server-safe defaults to prevent hydration mismatch
   // Actual values are hydrated in useEffect below
   const [isShuffleEnabled, setIsShuffleEnabled] = useState(false);
+  const [isDjOrderEnabled, setIsDjOrderEnabled] = useState(false);
   const [repeatMode, setRepeatModeState] = useState<RepeatMode>('queue');
   const [repeatModeUserSet, setRepeatModeUserSet] = useState<boolean>(false);
 
@@ -200,6 +205,7 @@ export function QueueProvider({ children }: { children: React.ReactNode }) {
 
     // Queue modes
     isShuffleEnabled,
+    isDjOrderEnabled,
     repeatMode,
 
     // Queue operations
@@ -208,11 +214,14 @@ export function QueueProvider({ children }: { children: React.ReactNode }) {
 
     // Context management
     setQueueContext,
+    playbackSource,
+    setPlaybackSource,
 
     // Internal state setters
     setManualTrackIds,
     setAutoQueue,
     setIsShuffleEnabled,
+    setIsDjOrderEnabled,
     setRepeatMode,
   }), [
     queue,
@@ -222,13 +231,17 @@ export function QueueProvider({ children }: { children: React.ReactNode }) {
     persistenceMetadata,
     isHydrated,
     isShuffleEnabled,
+    isDjOrderEnabled,
     repeatMode,
     setQueue,
     updatePersistenceMetadata,
     setQueueContext,
+    playbackSource,
+    setPlaybackSource,
     setManualTrackIds,
     setAutoQueue,
     setIsShuffleEnabled,
+    setIsDjOrderEnabled,
     setRepeatMode,
   ]);
 
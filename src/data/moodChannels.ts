@@ -26,10 +26,13 @@ export interface MoodChannel {
   preferredCollections?: string[]
   // Energy level 1-10 (1 = calm, 10 = high energy)
   energyLevel: number
+  // Tracks that must play before a track can repeat (defaults to MOOD_CHANNEL_REPLAY_WINDOW)
+  replayWindow?: number
 }
 
 export const MOOD_CHANNEL_MIN_CATALOG_TRACKS = 50
 export const MOOD_CHANNEL_MIN_TRACKS_PER_CHANNEL = 10
+export const MOOD_CHANNEL_REPLAY_WINDOW = 20
 
 export interface MoodChannelReadiness {
   totalTracks: number
@@ -92,57 +95,65 @@ export function getMoodChannelHoverStyles(channelId: string): string {
   return styles[channelId] || "hover:shadow-[var(--shadow-glow-purple)]"
 }
 
+type MoodChannelTrack = { id: string; bpm?: number; genres?: string[]; collection: string }
+
 /**
- * Get tracks matching a mood channel's criteria
+ * Score how well a track fits a mood channel (0 = no match)
  */
-export function getTracksForMoodChannel(
-  channel: MoodChannel,
-  allTracks: { id: string; bpm?: number; genres?: string[]; collection: string }[]
-): string[] {
-  const matchingTrackIds: string[] = []
-
-  for (const track of allTracks) {
-    let score = 0
-
-    // BPM matching (highest weight)
-    if (channel.bpmRange && track.bpm) {
-      if (track.bpm >= channel.bpmRange.min && track.bpm <= channel.bpmRange.max) {
-        score += 3
-      } else {
-        // Allow slight tolerance
-        const tolerance = 10
-        if (
-          track.bpm >= channel.bpmRange.min - tolerance &&
-          track.bpm <= channel.bpmRange.max + tolerance
-        ) {
-          score += 1
-        }
+export function scoreTrackForMoodChannel(channel: MoodChannel, track: MoodChannelTrack): number {
+  let score = 0
+
+  // BPM matching (highest weight)
+  if (channel.bpmRange && track.bpm) {
+    if (track.bpm >= channel.bpmRange.min && track.bpm <= channel.bpmRange.max) {
+      score += 3
+    } else {
+      // Allow slight tolerance
+      const tolerance = 10
+      if (
+        track.bpm >= channel.bpmRange.min - tolerance &&
+        track.bpm <= channel.bpmRange.max + tolerance
+      ) {
+        score += 1
       }
     }
+  }
 
-    // Genre matching
-    if (channel.preferredGenres && track.genres) {
-      const genreMatches = track.genres.filter((g) =>
-        channel.preferredGenres?.some((pg) => g.toLowerCase().includes(pg.toLowerCase()))
-      ).length
-      score += genreMatches * 2
-    }
-
-    // Collection matching (strong signal)
-    if (channel.preferredCollections) {
-      const trackCollectionSlug = track.collection.toLowerCase().replace(/\s+/g, "-")
-      if (channel.preferredCollections.includes(trackCollectionSlug)) {
-        score += 4
-      }
-    }
+  // Genre matching
+  if (channel.preferredGenres && track.genres) {
+    const genreMatches = track.genres.filter((g) =>
+      channel.preferredGenres?.some((pg) => g.toLowerCase().includes(pg.toLowerCase()))
+    ).length
+    score += genreMatches * 2
+  }
 
-    // Include tracks with positive scores
-    if (score > 0) {
-      matchingTrackIds.push(track.id)
-    }
+  // Collection matching (strong signal)
+  if (isPreferredMoodChannelCollection(channel, track.collection)) {
+    score += 4
   }
 
-  return matchingTrackIds
+  return score
+}
+
+/**
+ * Whether a collection (title or slug) is one of the channel's preferred collections
+ */
+export function isPreferredMoodChannelCollection(channel: MoodChannel, collection: string): boolean {
+  if (!channel.preferredCollections) return false
+  return channel.preferredCollections.includes(collection.toLowerCase().replace(/\s+/g, "-"))
+}
+
+/**
+ * Get tracks matching a mood channel's criteria
+ */
+export function getTracksForMoodChannel(
+  channel: MoodChannel,
+  allTracks: MoodChannelTrack[]
+): string[] {
+  // Include tracks with positive scores
+  return allTracks
+    .filter((track) => scoreTrackForMoodChannel(channel, track) > 0)
+    .map((track) => track.id)
 }
 
 /**
@@ -151,7 +162,7 @@ export function getTracksForMoodChannel(
 export function sortTracksByMoodRelevance(
   trackIds: string[],
   channel: MoodChannel,
-  allTracks: { id: string; bpm?: number; genres?: string[]; collection: string }[]
+  allTracks: MoodChannelTrack[]
 ): string[] {
   const trackMap = new Map(allTracks.map((t) => [t.id, t]))
 
@@ -188,7 +199,7 @@ export function sortTracksByMoodRelevance(
 
 export function getMoodChannelReadiness(
   channels: MoodChannel[],
-  allTracks: { id: string; bpm?: number; genres?: string[]; collection: string }[]
+  allTracks: MoodChannelTrack[]
 ): MoodChannelReadiness {
   const channelCounts: Record<string, number> = {}
 
@@ -6,6 +6,7 @@
 
 export { useAudioPlayback } from "./use-audio-playback"
 export { useAudioAnalyzer } from "./use-audio-analyzer"
+export { useBeatTracker } from "./use-beat-tracker"
 export { useAudioPreloader } from "./use-audio-preloader"
 export { useAudioSource } from "./use-audio-source"
 export { useAudioVolume } from "./use-audio-volume"
@@ -6,6 +6,7 @@
  * - Track completed events
  * - Track skipped events
  * - Playback control events (play, pause, seek, volume)
+ * - Listening history events (one per listen, sent when the listen ends)
  */
 
 import { useCallback, useEffect, useRef } from 'react'
@@ -17,15 +18,34 @@ import {
   trackPlaybackControl,
   calculatePercentagePlayed,
 } from '@/lib/analytics'
+import { buildListeningEvent } from '@/lib/listening/events'
+import { reportListeningEvent } from '@/lib/listening/remote'
 import { logger } from '@/lib/logger'
-import type { Track } from '@/types'
+import type { ListeningSource, Track } from '@/types'
 
 interface UseAudioAnalyticsOptions {
   track: Track | null
   currentTime: number
   duration: number
+  /** Queue context and playback source recorded with listening events */
+  source?: ListeningSource
 }
 
+interface ListenSession {
+  track: Track
+  startedAt: Date
+  source: ListeningSource
+  /** Seconds actually played (seeks don't count) */
+  listenedSeconds: number
+  lastPosition: number
+  duration: number
+}
+
+const DEFAULT_LISTENING_SOURCE: ListeningSource = { type: 'queue', queueContext: 'collection' }
+
+// Position jumps larger than this between time updates are seeks, not listening
+const MAX_LISTEN_STEP_SECONDS = 3
+
 interface UseAudioAnalyticsReturn {
   trackPlayedRef: React.MutableRefObject<boolean>
   trackCompletedRef: React.MutableRefObject<boolean>
@@ -49,6 +69,7 @@ export function useAudioAnalytics({
   track,
   currentTime,
   duration,
+  source = DEFAULT_LISTENING_SOURCE,
 }: UseAudioAnalyticsOptions): UseAudioAnalyticsReturn {
   // Analytics tracking refs
   const trackPlayedRef = useRef(false)
@@ -56,6 +77,31 @@ export function useAudioAnalytics({
   const previousTrackRef = useRef<Track | null>(null)
   const playbackStartTimeRef = useRef<number>(0)
   const volumeDebounceRef = useRef<NodeJS.Timeout | null>(null)
+  const listenRef = useRef<ListenSession | null>(null)
+  const sourceRef = useRef(source)
+
+  useEffect(() => {
+    sourceRef.current = source
+  }, [source])
+
+  // Send the current listen to the listening history and end the session
+  const flushListen = useCallback((outcome: { movedOn: boolean }) => {
+    const listen = listenRef.current
+    if (!listen) return
+    listenRef.current = null
+
+    const event = buildListeningEvent({
+      track: listen.track,
+      startedAt: listen.startedAt,
+      listenedSeconds: listen.listenedSeconds,
+      durationSeconds: listen.duration,
+      movedOn: outcome.movedOn,
+      source: listen.source,
+    })
+    if (event) {
+      void reportListeningEvent(event)
+    }
+  }, [])
 
   // Reset tracking refs when track changes
   const resetTrackingRefs = useCallback(() => {
@@ -68,6 +114,8 @@ export function useAudioAnalytics({
   useEffect(() => {
     if (previousTrackRef.current && track && previousTrackRef.current.id !== track.id) {
       const prevTrack = previousTrackRef.current
+      flushListen({ movedOn: true })
+
       const playedSeconds = currentTime
       const totalDuration = duration
 
@@ -88,8 +136,31 @@ export function useAudioAnalytics({
     }
 
     previousTrackRef.current = track
+  }, [track, currentTime, duration, flushListen])
+
+  // Accumulate listened time for the current listen
+  useEffect(() => {
+    const listen = listenRef.current
+    if (!listen || listen.track.id !== track?.id) return
+
+    const step = currentTime - listen.lastPosition
+    if (step > 0 && step <= MAX_LISTEN_STEP_SECONDS) {
+      listen.listenedSeconds += step
+    }
+    listen.lastPosition = currentTime
+    if (Number.isFinite(duration) && duration > 0) {
+      listen.duration = duration
+    }
   }, [track, currentTime, duration])
 
+  // Record the listen in progress when the page is closed
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const handlePageHide = () => flushListen({ movedOn: false })
+    window.addEventListener('pagehide', handlePageHide)
+    return () => window.removeEventListener('pagehide', handlePageHide)
+  }, [flushListen])
+
   // Cleanup volume debounce timer on unmount
   useEffect(() => {
     return () => {
@@ -103,6 +174,18 @@ export function useAudioAnalytics({
   // Using synchronous ref check-and-set to prevent double-fire race conditions
   const onTrackPlay = useCallback(() => {
     if (!track) return
+
+    // Start a listening history session (also after a repeat-track restart)
+    if (!listenRef.current || listenRef.current.track.id !== track.id) {
+      listenRef.current = {
+        track,
+        startedAt: new Date(),
+        source: sourceRef.current,
+        listenedSeconds: 0,
+        lastPosition: 0,
+        duration: 0,
+      }
+    }
     
     // Atomically check and set to prevent race conditions from rapid play events
     if (trackPlayedRef.current) return
@@ -127,6 +210,7 @@ export function useAudioAnalytics({
 
   // Track completion event
   const onTrackComplete = useCallback(() => {
+    flushListen({ movedOn: false })
     if (!trackCompletedRef.current && track) {
       try {
         trackTrackCompleted({
@@ -140,7 +224,7 @@ export function useAudioAnalytics({
         logger.warn('Analytics: Failed to track completion event', { error: String(error) })
       }
     }
-  }, [track, duration])
+  }, [track, duration, flushListen])
 
   // Track playback control events (debounced for volume)
   const onPlaybackControl = useCallback(
@@ -11,15 +11,9 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from "react"
+import { connectAudioElement } from "@/lib/audio/audio-graph"
 import { logger } from "@/lib/logger"
 
-// Global cache to prevent multiple AudioContexts/SourceNodes for the same audio element
-// This is critical because createMediaElementSource throws if called twice on the same element
-// Using WeakMap allows garbage collection when audio elements are removed from DOM,
-// preventing memory leaks during extended sessions with multiple track changes
-const audioContextCache = new WeakMap<HTMLAudioElement, AudioContext>()
-const sourceNodeCache = new WeakMap<HTMLAudioElement, MediaElementAudioSourceNode>()
-
 export interface AudioAnalyzerData {
   // Frequency data (0-255 values for each frequency bin)
   frequencyData: Uint8Array
@@ -207,33 +201,16 @@ export function useAudioAnalyzer({
     // Only creates audio graph once per audio element - never recreates to avoid audio cuts
     const initializeAudioContext = () => {
       try {
-        let audioContext = audioContextCache.get(audioElement)
-        let source = sourceNodeCache.get(audioElement)
-
-        // Create new context/source only if not cached
-        if (!audioContext || audioContext.state === "closed") {
-          audioContext = new AudioContext()
-          audioContextCache.set(audioElement, audioContext)
-        }
-
+        // Shared graph: source -> gain -> destination is wired once per element
+        // (createMediaElementSource throws if called twice on the same element)
+        const { context: audioContext, gain } = connectAudioElement(audioElement)
         audioContextRef.current = audioContext
 
-        // Create Source Node only once - this is the critical part
-        // createMediaElementSource MUST only be called once per element
-        if (!source) {
-          source = audioContext.createMediaElementSource(audioElement)
-          sourceNodeCache.set(audioElement, source)
-
-          // CRITICAL: Connect source to destination immediately
-          // This ensures audio always plays through
-          source.connect(audioContext.destination)
-        }
-
         // Resume context if suspended (do this AFTER source is connected)
         // Use a microtask to avoid sync blocking, with timeout for browser autoplay policies
         if (audioContext.state === "suspended") {
           queueMicrotask(() => {
-            const resumePromise = audioContext?.resume()
+            const resumePromise = audioContext.resume()
             const timeoutPromise = new Promise<void>((_, reject) =>
               setTimeout(() => reject(new Error("AudioContext resume timeout")), 5000)
             )
@@ -258,8 +235,8 @@ export function useAudioAnalyzer({
           analyzer = audioContext.createAnalyser()
           analyzerRef.current = analyzer
 
-          // Connect source to analyzer (source -> analyzer, source -> destination both exist)
-          source.connect(analyzer)
+          // Tap the post-gain signal so visuals follow what the listener hears
+          gain.connect(analyzer)
           audioGraphSetupRef.current = true
         }
 
@@ -6,6 +6,8 @@
  * - Play/pause/seek operations
  * - Loading states && buffering
  * - Time updates && duration tracking
+ * - Crossfade (configurable length/curve) && gapless handoff via the secondary element
+ * - Loudness normalization gain (GainNode in the shared Web Audio graph)
  * - Volume && mute state (via useAudioVolume)
  * - Analytics tracking (via useAudioAnalytics)
  * - Source resolution (via useAudioSource)
@@ -17,11 +19,13 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { connectAudioElement, getAudioElementGraph, setAudioElementGain } from '@/lib/audio/audio-graph'
+import { DEFAULT_CROSSFADE_CURVE, getCrossfadeGains, type CrossfadeCurve } from '@/lib/audio/crossfade'
 import { logger } from '@/lib/logger'
 import { useAudioAnalytics } from './use-audio-analytics'
 import { useAudioSource } from './use-audio-source'
 import { useAudioVolume } from './use-audio-volume'
-import type { Track, RepeatMode } from '@/types'
+import type { ListeningSource, Track, RepeatMode } from '@/types'
 
 interface UseAudioPlaybackOptions {
   track: Track | null
@@ -40,14 +44,40 @@ interface UseAudioPlaybackOptions {
   onPlayWithNoTrack?: () => void
   /** Enable crossfade between tracks */
   crossfadeEnabled?: boolean
-  /** Crossfade duration in milliseconds (default: 3000) */
+  /** Crossfade duration in milliseconds (default: 3000; 0 = no fade) */
   crossfadeDuration?: number
-  /** Secondary audio element ref for crossfade */
+  /** Gain curve applied during the crossfade */
+  crossfadeCurve?: CrossfadeCurve
+  /** Start the next track on the secondary element exactly at the boundary */
+  gaplessEnabled?: boolean
+  /** Secondary audio element ref for crossfade and gapless handoff */
   nextAudioRef?: React.RefObject<HTMLAudioElement | null>
-  /** Callback to get next track's audio URL for true crossfade */
-  getNextTrackUrl?: () => string | null
+  /** Next track's ID and audio URL (preloaded blob URL when cached) */
+  getNextTrackSource?: () => NextTrackSource | null
+  /** Loudness normalization gain (linear) for the current track */
+  normalizationGain?: number
+  /** Queue context and playback source recorded with listening events */
+  listeningSource?: ListeningSource
 }
 
+export interface NextTrackSource {
+  trackId: string
+  url: string
+  /** Loudness normalization gain (linear) for the next track */
+  normalizationGain?: number
+}
+
+/** Crossfade volume updates run at this interval */
+const CROSSFADE_TICK_MS = 50
+/** Load the next track on the secondary element this long before the boundary */
+const GAPLESS_PRIME_SECONDS = 10
+/** Schedule the gapless start with a timer once this close to the boundary */
+const GAPLESS_SCHEDULE_SECONDS = 0.5
+/** Overlap fade from the secondary to the primary element once the handoff is in sync */
+const HANDOFF_FADE_MS = 150
+/** Re-seek the primary element when it trails the secondary by more than this */
+const HANDOFF_SYNC_TOLERANCE_SECONDS = 0.02
+
 export function useAudioPlayback({
   track,
   shouldPlay = false,
@@ -64,8 +94,12 @@ export function useAudioPlayback({
   onPlayWithNoTrack,
   crossfadeEnabled = false,
   crossfadeDuration = 3000,
+  crossfadeCurve = DEFAULT_CROSSFADE_CURVE,
+  gaplessEnabled = false,
   nextAudioRef,
-  getNextTrackUrl,
+  getNextTrackSource,
+  normalizationGain = 1,
+  listeningSource,
 }: UseAudioPlaybackOptions) {
   const audioRef = useRef<HTMLAudioElement | null>(null)
   const [isPlaying, setIsPlaying] = useState(false)
@@ -100,12 +134,24 @@ export function useAudioPlayback({
   const crossfadeIntervalRef = useRef<number | null>(null)
   const isCrossfadingRef = useRef(false)
   const crossfadeStartVolumeRef = useRef<number>(1)
+
+  // Secondary element state: `primed` = next track loaded and waiting (gapless),
+  // `handoff` = next track already audible on the secondary element while the
+  // primary element loads it and catches up to the same position
+  const primedTrackIdRef = useRef<string | null>(null)
+  const handoffRef = useRef<{ trackId: string; audio: HTMLAudioElement } | null>(null)
+  const gaplessTimeoutRef = useRef<number | null>(null)
+  // The primary element stays silent while it catches up; restored to this volume after the overlap fade
+  const handoffVolumeRef = useRef<number | null>(null)
+  const handoffFadeRef = useRef<number | null>(null)
+  // Fallback timer for a crossfade whose next track never buffers
+  const crossfadeFallbackTimeoutRef = useRef<number | null>(null)
   
   // Track the last applied src to avoid redundant reloads
   const lastAppliedSrcRef = useRef<string | null>(null)
 
   // Compose sub-hooks
-  const analytics = useAudioAnalytics({ track, currentTime, duration })
+  const analytics = useAudioAnalytics({ track, currentTime, duration, source: listeningSource })
   const { audioSrc, audioUnlockedRef, markAudioUnlocked } = useAudioSource({
     track,
     onTrackChange: (_newTrackId: string) => {
@@ -120,12 +166,25 @@ export function useAudioPlayback({
       }
     },
   })
+  /**
+   * Set the primary element's volume. Mid-handoff the primary stays silent, so
+   * the level becomes the handoff fade (and release) target instead.
+   */
+  const applyPrimaryVolume = useCallback((audio: HTMLAudioElement, volume: number) => {
+    if (handoffRef.current) {
+      handoffVolumeRef.current = volume
+      return
+    }
+    audio.volume = volume
+  }, [])
+
   const volumeState = useAudioVolume({
     externalVolume,
     externalIsMuted,
     onVolumeChange,
     onMuteChange,
     audioRef,
+    applyVolume: applyPrimaryVolume,
   })
 
   // Keep refs in sync with state
@@ -142,107 +201,224 @@ export function useAudioPlayback({
       clearInterval(crossfadeIntervalRef.current)
       crossfadeIntervalRef.current = null
     }
+    if (gaplessTimeoutRef.current) {
+      clearTimeout(gaplessTimeoutRef.current)
+      gaplessTimeoutRef.current = null
+    }
+    if (crossfadeFallbackTimeoutRef.current) {
+      clearTimeout(crossfadeFallbackTimeoutRef.current)
+      crossfadeFallbackTimeoutRef.current = null
+    }
     isCrossfadingRef.current = false
   }, [])
 
+  /**
+   * Stop the secondary element and forget any primed/handoff track.
+   * A primary element still silenced for the handoff gets its volume back.
+   */
+  const releaseSecondary = useCallback(() => {
+    const nextAudio = handoffRef.current?.audio ?? nextAudioRef?.current
+    handoffRef.current = null
+    primedTrackIdRef.current = null
+    if (handoffFadeRef.current) {
+      clearInterval(handoffFadeRef.current)
+      handoffFadeRef.current = null
+    }
+    if (audioRef.current && handoffVolumeRef.current !== null) {
+      audioRef.current.volume = handoffVolumeRef.current
+    }
+    handoffVolumeRef.current = null
+    if (nextAudio) {
+      nextAudio.pause()
+      nextAudio.removeAttribute('src')
+      nextAudio.load()
+    }
+  }, [nextAudioRef])
+
+  /**
+   * Apply the next track's normalization gain to the secondary element.
+   * The element joins the shared graph only once the primary is wired (the
+   * context is running by then); before that a neutral gain needs no graph.
+   */
+  const applySecondaryGain = useCallback((nextAudio: HTMLAudioElement, gain: number) => {
+    const primary = audioRef.current
+    if (gain !== 1 && primary && getAudioElementGraph(primary) && !getAudioElementGraph(nextAudio)) {
+      try {
+        connectAudioElement(nextAudio)
+      } catch (error) {
+        logger.warn('Failed to route secondary audio through gain node', { error: String(error) })
+      }
+    }
+    setAudioElementGain(nextAudio, gain)
+  }, [])
+
+  /**
+   * Advance the queue while the next track keeps playing on the secondary
+   * element; the primary element picks it up at the same position.
+   */
+  const advanceWithHandoff = useCallback((trackId: string, nextAudio: HTMLAudioElement) => {
+    handoffRef.current = { trackId, audio: nextAudio }
+    primedTrackIdRef.current = null
+    if (onNext) {
+      isTransitioningRef.current = true
+      onNext()
+    } else {
+      releaseSecondary()
+    }
+  }, [onNext, releaseSecondary])
+
   const startCrossfade = useCallback(() => {
-    if (!crossfadeEnabled || !audioRef.current) {
+    if (!crossfadeEnabled || !audioRef.current || crossfadeDuration <= 0) {
       return false
     }
 
     const currentAudio = audioRef.current
     const nextAudio = nextAudioRef?.current
-    const fadeDuration = crossfadeDuration ?? 3000
-    const steps = 30
-    const stepDuration = fadeDuration / steps
+    const steps = Math.max(1, Math.round(crossfadeDuration / CROSSFADE_TICK_MS))
+    const stepDuration = crossfadeDuration / steps
 
     clearCrossfade()
     isCrossfadingRef.current = true
     const startVolume = externalVolume ?? currentAudio.volume
     crossfadeStartVolumeRef.current = startVolume
 
-    const nextUrl = getNextTrackUrl?.()
-    const hasNextTrack = nextAudio && nextUrl
+    const nextSource = getNextTrackSource?.() ?? null
+    let hasStartedFade = false
 
     // Helper to complete crossfade and advance queue
-    const completeCrossfade = () => {
+    const completeCrossfade = (handoffAudio: HTMLAudioElement | null) => {
       clearCrossfade()
+      if (onNext) {
+        isTransitioningRef.current = true
+      }
       currentAudio.pause()
       currentAudio.volume = startVolume
-      
-      // Pause secondary audio before advancing queue to prevent dual playback
-      if (nextAudio) {
-        nextAudio.pause()
-        nextAudio.src = ''
+
+      if (handoffAudio && nextSource) {
+        // Next track is already audible - hand it to the primary element without restarting
+        advanceWithHandoff(nextSource.trackId, handoffAudio)
+        return
       }
-      
+
+      // Pause secondary audio before advancing queue to prevent dual playback
+      releaseSecondary()
+
       // Advance queue after crossfade completes
       if (onNext) {
-        isTransitioningRef.current = true
         onNext()
       }
     }
 
-    if (hasNextTrack) {
-      nextAudio.src = nextUrl
+    const runFade = (incoming: HTMLAudioElement | null) => {
+      if (hasStartedFade) return
+      hasStartedFade = true
+
+      let step = 0
+      crossfadeIntervalRef.current = window.setInterval(() => {
+        step++
+        const { fadeOut, fadeIn } = getCrossfadeGains(crossfadeCurve, step / steps)
+
+        currentAudio.volume = Math.max(0, startVolume * fadeOut)
+        if (incoming) {
+          incoming.volume = Math.min(1, startVolume * fadeIn)
+        }
+
+        if (step >= steps) {
+          completeCrossfade(incoming)
+        }
+      }, stepDuration)
+    }
+
+    if (nextAudio && nextSource) {
+      if (primedTrackIdRef.current !== nextSource.trackId) {
+        nextAudio.src = nextSource.url
+        nextAudio.load()
+      }
+      primedTrackIdRef.current = nextSource.trackId
       nextAudio.volume = 0
-      nextAudio.load()
+      nextAudio.muted = currentAudio.muted
+      applySecondaryGain(nextAudio, nextSource.normalizationGain ?? 1)
 
       const handleCanPlay = () => {
-        if (!isCrossfadingRef.current) return
+        if (!isCrossfadingRef.current || hasStartedFade) return
 
         nextAudio.play().catch(() => {})
+        runFade(nextAudio)
+      }
 
-        let step = 0
-        crossfadeIntervalRef.current = window.setInterval(() => {
-          step++
-          const progress = step / steps
-
-          const fadeOut = Math.cos(progress * Math.PI / 2)
-          const fadeIn = Math.sin(progress * Math.PI / 2)
-
-          currentAudio.volume = startVolume * fadeOut
-          nextAudio.volume = startVolume * fadeIn
+      if (nextAudio.readyState >= 3) {
+        handleCanPlay()
+      } else {
+        nextAudio.addEventListener('canplay', handleCanPlay, { once: true })
 
-          if (step >= steps) {
-            completeCrossfade()
+        // Next track not buffered in time - fade the current track out on its own
+        crossfadeFallbackTimeoutRef.current = window.setTimeout(() => {
+          crossfadeFallbackTimeoutRef.current = null
+          if (isCrossfadingRef.current && nextAudio.readyState < 3) {
+            runFade(null)
           }
-        }, stepDuration)
+        }, 500)
       }
+    } else {
+      runFade(null)
+    }
 
-      nextAudio.addEventListener('canplay', handleCanPlay, { once: true })
+    return true
+  }, [crossfadeEnabled, crossfadeDuration, crossfadeCurve, clearCrossfade, nextAudioRef, getNextTrackSource, externalVolume, onNext, advanceWithHandoff, releaseSecondary, applySecondaryGain])
 
-      setTimeout(() => {
-        if (isCrossfadingRef.current && nextAudio.readyState < 3) {
-          let step = 0
-          crossfadeIntervalRef.current = window.setInterval(() => {
-            step++
-            const progress = step / steps
-            const newVolume = Math.max(0, startVolume * (1 - progress))
-            currentAudio.volume = newVolume
-
-            if (step >= steps) {
-              completeCrossfade()
-            }
-          }, stepDuration)
-        }
-      }, 500)
-    } else {
-      let step = 0
-      crossfadeIntervalRef.current = window.setInterval(() => {
-        step++
-        const progress = step / steps
-        const newVolume = Math.max(0, startVolume * (1 - progress))
-        currentAudio.volume = newVolume
+  /**
+   * Load the next track on the secondary element (paused) ahead of the boundary
+   */
+  const primeGapless = useCallback(() => {
+    const currentAudio = audioRef.current
+    const nextAudio = nextAudioRef?.current
+    const nextSource = getNextTrackSource?.() ?? null
+    if (!currentAudio || !nextAudio || !nextSource) return
+    if (primedTrackIdRef.current === nextSource.trackId) return
+
+    primedTrackIdRef.current = nextSource.trackId
+    nextAudio.preload = 'auto'
+    nextAudio.src = nextSource.url
+    nextAudio.volume = externalVolume ?? currentAudio.volume
+    nextAudio.muted = currentAudio.muted
+    applySecondaryGain(nextAudio, nextSource.normalizationGain ?? 1)
+    nextAudio.load()
+  }, [nextAudioRef, getNextTrackSource, externalVolume, applySecondaryGain])
 
-        if (step >= steps) {
-          completeCrossfade()
-        }
-      }, stepDuration)
+  /**
+   * Start the primed next track and stop the current one at the boundary.
+   * Returns false when nothing is primed (caller falls back to a normal advance).
+   */
+  const startGaplessHandoff = useCallback(() => {
+    const currentAudio = audioRef.current
+    const nextAudio = nextAudioRef?.current
+    const trackId = primedTrackIdRef.current
+    if (!currentAudio || !nextAudio || !trackId || handoffRef.current) return false
+    if (nextAudio.readyState < 2) return false
+
+    if (gaplessTimeoutRef.current) {
+      clearTimeout(gaplessTimeoutRef.current)
+      gaplessTimeoutRef.current = null
     }
 
+    nextAudio.volume = externalVolume ?? currentAudio.volume
+    nextAudio.play().catch((error) => {
+      // Secondary element not allowed to play (e.g. no gesture) - primary restarts the track instead
+      logger.warn('Gapless handoff failed to start', { error: String(error) })
+      if (handoffRef.current?.audio === nextAudio) {
+        releaseSecondary()
+      }
+    })
+
+    if (!currentAudio.paused && !currentAudio.ended) {
+      if (onNext) {
+        isTransitioningRef.current = true
+      }
+      currentAudio.pause()
+    }
+    advanceWithHandoff(trackId, nextAudio)
     return true
-  }, [crossfadeEnabled, crossfadeDuration, clearCrossfade, nextAudioRef, getNextTrackUrl, externalVolume, onNext])
+  }, [nextAudioRef, externalVolume, onNext, advanceWithHandoff, releaseSecondary])
 
   /**
    * Single unified play function - ALL play attempts go through here
@@ -282,7 +458,7 @@ export function useAudioPlayback({
     // Ensure volume is set to external volume before playing
     // (volume-sync effect handles ongoing changes, but we need it set for initial play)
     if (externalVolume !== undefined) {
-      audio.volume = externalVolume
+      applyPrimaryVolume(audio, externalVolume)
     }
 
     const playPromise = audio.play()
@@ -312,7 +488,7 @@ export function useAudioPlayback({
           logger.warn(`Play attempt failed (${source})`, { error: String(err) })
         }
       })
-  }, [markAudioUnlocked, externalVolume])
+  }, [markAudioUnlocked, externalVolume, applyPrimaryVolume])
 
   // Setup audio event listeners
   useEffect(() => {
@@ -361,7 +537,12 @@ export function useAudioPlayback({
 
         // If crossfade is active, skip onNext - crossfade already handles the transition
         // This prevents the glitch where ended event triggers a duplicate track change
-        if (isCrossfadingRef.current) {
+        if (isCrossfadingRef.current || handoffRef.current) {
+          return
+        }
+
+        // Gapless: the timer missed the boundary - start the primed track now
+        if (startGaplessHandoff()) {
           return
         }
 
@@ -501,7 +682,7 @@ export function useAudioPlayback({
         autoSkipTimeoutRef.current = null
       }
     }
-  }, [onNext, onPlayStateChange, onShouldPlayChange, onError, track, audioSrc, repeatMode, analytics, safePlay, autoSkipOnError])
+  }, [onNext, onPlayStateChange, onShouldPlayChange, onError, track, audioSrc, repeatMode, analytics, safePlay, autoSkipOnError, startGaplessHandoff])
 
   // Reset crossfade flag when track changes
   useEffect(() => {
@@ -510,12 +691,14 @@ export function useAudioPlayback({
 
   // Crossfade: Start crossfade when approaching track end
   useEffect(() => {
-    if (!crossfadeEnabled || !duration || duration <= 4 || repeatMode === 'track') return
+    const fadeOutDurationSec = crossfadeDuration / 1000
+    if (!crossfadeEnabled || fadeOutDurationSec <= 0 || repeatMode === 'track') return
+    // Skip tracks too short to hold a full fade in and out
+    if (!duration || duration <= Math.max(4, fadeOutDurationSec * 2)) return
 
     const audio = audioRef.current
     if (!audio || !isPlaying) return
 
-    const fadeOutDurationSec = crossfadeDuration / 1000
     const timeRemaining = duration - currentTime
 
     if (
@@ -528,6 +711,77 @@ export function useAudioPlayback({
     }
   }, [currentTime, duration, crossfadeEnabled, crossfadeDuration, repeatMode, isPlaying, startCrossfade])
 
+  // Gapless: prime the next track on the secondary element, then start it at the boundary.
+  // A crossfade with a non-zero length takes precedence.
+  useEffect(() => {
+    const isCrossfadeActive = crossfadeEnabled && crossfadeDuration > 0
+    if (!gaplessEnabled || isCrossfadeActive || repeatMode === 'track') return
+
+    const audio = audioRef.current
+    if (!audio || !isPlaying || !duration || !shouldPlayRef.current) return
+    if (handoffRef.current) return
+
+    const timeRemaining = duration - currentTime
+    if (timeRemaining <= GAPLESS_PRIME_SECONDS) {
+      primeGapless()
+    }
+
+    // timeupdate fires every ~250ms - use a timer to hit the boundary precisely
+    if (timeRemaining <= GAPLESS_SCHEDULE_SECONDS && timeRemaining > 0 && !gaplessTimeoutRef.current) {
+      const rate = audio.playbackRate || 1
+      gaplessTimeoutRef.current = window.setTimeout(() => {
+        gaplessTimeoutRef.current = null
+        startGaplessHandoff()
+      }, (timeRemaining * 1000) / rate)
+    }
+  }, [currentTime, duration, gaplessEnabled, crossfadeEnabled, crossfadeDuration, repeatMode, isPlaying, primeGapless, startGaplessHandoff])
+
+  // The primary element is playing the handoff track - re-sync it to the secondary element
+  // (which kept playing while the primary buffered), then fade the overlap across
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+
+    const fadeToPrimary = () => {
+      const handoff = handoffRef.current
+      if (!handoff || handoff.trackId !== trackIdRef.current || handoffFadeRef.current) return
+
+      const initialVolume = handoffVolumeRef.current ?? audio.volume
+      const outgoingVolume = handoff.audio.volume
+      const steps = Math.max(1, Math.round(HANDOFF_FADE_MS / CROSSFADE_TICK_MS))
+      let step = 0
+      handoffFadeRef.current = window.setInterval(() => {
+        step++
+        const { fadeOut, fadeIn } = getCrossfadeGains('equal-power', step / steps)
+        handoff.audio.volume = Math.max(0, outgoingVolume * fadeOut)
+        // Volume changes during the fade land in handoffVolumeRef
+        audio.volume = Math.min(1, (handoffVolumeRef.current ?? initialVolume) * fadeIn)
+
+        if (step >= steps) {
+          releaseSecondary()
+        }
+      }, CROSSFADE_TICK_MS)
+    }
+
+    const handlePlaying = () => {
+      const handoff = handoffRef.current
+      if (!handoff || handoff.trackId !== trackIdRef.current || handoffFadeRef.current) return
+
+      if (Math.abs(handoff.audio.currentTime - audio.currentTime) > HANDOFF_SYNC_TOLERANCE_SECONDS) {
+        audio.addEventListener('seeked', fadeToPrimary, { once: true })
+        audio.currentTime = handoff.audio.currentTime
+        return
+      }
+      fadeToPrimary()
+    }
+
+    audio.addEventListener('playing', handlePlaying)
+    return () => {
+      audio.removeEventListener('playing', handlePlaying)
+      audio.removeEventListener('seeked', fadeToPrimary)
+    }
+  }, [releaseSecondary])
+
   // Cleanup crossfade on unmount
   useEffect(() => {
     return () => {
@@ -535,6 +789,18 @@ export function useAudioPlayback({
         clearInterval(crossfadeIntervalRef.current)
         crossfadeIntervalRef.current = null
       }
+      if (gaplessTimeoutRef.current) {
+        clearTimeout(gaplessTimeoutRef.current)
+        gaplessTimeoutRef.current = null
+      }
+      if (handoffFadeRef.current) {
+        clearInterval(handoffFadeRef.current)
+        handoffFadeRef.current = null
+      }
+      if (crossfadeFallbackTimeoutRef.current) {
+        clearTimeout(crossfadeFallbackTimeoutRef.current)
+        crossfadeFallbackTimeoutRef.current = null
+      }
     }
   }, [])
 
@@ -553,6 +819,14 @@ export function useAudioPlayback({
       
       // Clear any running crossfade on track change
       clearCrossfade()
+
+      // A manual skip abandons whatever the secondary element had primed or playing
+      if (
+        (handoffRef.current && handoffRef.current.trackId !== track?.id) ||
+        (!handoffRef.current && primedTrackIdRef.current)
+      ) {
+        releaseSecondary()
+      }
       
       // Clear last applied src on track change to ensure new src gets loaded
       lastAppliedSrcRef.current = null
@@ -594,6 +868,21 @@ export function useAudioPlayback({
     audio.src = audioSrc
     lastAppliedSrcRef.current = audioSrc
     audio.load()
+
+    // Handoff: resume at the position the secondary element has reached, silent until
+    // the playing handler has it in sync (the secondary element carries the audio meanwhile)
+    const handoff = handoffRef.current
+    if (handoff && handoff.trackId === track?.id) {
+      if (handoffVolumeRef.current === null) {
+        handoffVolumeRef.current = audio.volume
+      }
+      audio.volume = 0
+      audio.addEventListener('loadedmetadata', () => {
+        if (handoffRef.current === handoff) {
+          audio.currentTime = handoff.audio.currentTime
+        }
+      }, { once: true })
+    }
     
     // Reset time
     setCurrentTime(0)
@@ -604,7 +893,7 @@ export function useAudioPlayback({
     } else {
       setIsPlaying(false)
     }
-  }, [audioSrc, track?.id, clearCrossfade])
+  }, [audioSrc, track?.id, clearCrossfade, releaseSecondary])
 
   // Handle shouldPlay prop changes - this drives play/pause intent
   useEffect(() => {
@@ -622,8 +911,12 @@ export function useAudioPlayback({
       if (!audio.paused) {
         audio.pause()
       }
+      // Pausing mid-handoff must silence the secondary element too
+      if (handoffRef.current) {
+        releaseSecondary()
+      }
     }
-  }, [shouldPlay, track, safePlay])
+  }, [shouldPlay, track, safePlay, releaseSecondary])
 
   // Playback controls
   const togglePlayback = useCallback(() => {
@@ -697,12 +990,19 @@ export function useAudioPlayback({
     if (!audio) return
 
     if (externalVolume !== undefined && audio.volume !== externalVolume) {
-      audio.volume = externalVolume
+      applyPrimaryVolume(audio, externalVolume)
     }
     if (externalIsMuted !== undefined && audio.muted !== externalIsMuted) {
       audio.muted = externalIsMuted
     }
-  }, [externalVolume, externalIsMuted])
+  }, [externalVolume, externalIsMuted, applyPrimaryVolume])
+
+  // Loudness normalization rides on the gain node, independent of user volume
+  useEffect(() => {
+    const audio = audioRef.current
+    if (!audio) return
+    setAudioElementGain(audio, normalizationGain)
+  }, [normalizationGain])
 
   // Seek controls - pause during drag, resume on release
   const beginSeek = useCallback(() => {
@@ -2,22 +2,61 @@
 
 import { useCallback, useEffect, useState, useRef } from "react"
 import { useAuth } from "@/contexts/AuthContext"
+import {
+  DEFAULT_CROSSFADE_CURVE,
+  DEFAULT_CROSSFADE_DURATION_SECONDS,
+  isCrossfadeCurve,
+  normalizeCrossfadeDuration,
+  type CrossfadeCurve,
+} from "@/lib/audio/crossfade"
+import {
+  DEFAULT_LOUDNESS_NORMALIZATION_MODE,
+  isLoudnessNormalizationMode,
+  type LoudnessNormalizationMode,
+} from "@/lib/audio/loudness"
 
 const STORAGE_KEY = "metadj-audio-settings"
+/** Broadcast so every mounted hook (player, settings modal) sees the same values */
+const SETTINGS_CHANGED_EVENT = "metadj:audioSettingsChanged"
+/** Debounce server/localStorage writes while the length slider is dragged */
+const SYNC_DEBOUNCE_MS = 400
 
-interface AudioSettings {
+export interface AudioSettings {
   crossfadeEnabled: boolean
+  /** Crossfade length in seconds (0–12) */
+  crossfadeDuration: number
+  crossfadeCurve: CrossfadeCurve
+  /** Gapless handoff to the preloaded next track */
+  gaplessEnabled: boolean
+  /** Track/Album/Off loudness levelling */
+  loudnessNormalization: LoudnessNormalizationMode
 }
 
 const defaultSettings: AudioSettings = {
   crossfadeEnabled: false,
+  crossfadeDuration: DEFAULT_CROSSFADE_DURATION_SECONDS,
+  crossfadeCurve: DEFAULT_CROSSFADE_CURVE,
+  gaplessEnabled: false,
+  loudnessNormalization: DEFAULT_LOUDNESS_NORMALIZATION_MODE,
+}
+
+function normalizeSettings(raw: Partial<Record<keyof AudioSettings, unknown>> | null | undefined): AudioSettings {
+  return {
+    crossfadeEnabled: typeof raw?.crossfadeEnabled === "boolean" ? raw.crossfadeEnabled : defaultSettings.crossfadeEnabled,
+    crossfadeDuration: normalizeCrossfadeDuration(raw?.crossfadeDuration) ?? defaultSettings.crossfadeDuration,
+    crossfadeCurve: isCrossfadeCurve(raw?.crossfadeCurve) ? raw.crossfadeCurve : defaultSettings.crossfadeCurve,
+    gaplessEnabled: typeof raw?.gaplessEnabled === "boolean" ? raw.gaplessEnabled : defaultSettings.gaplessEnabled,
+    loudnessNormalization: isLoudnessNormalizationMode(raw?.loudnessNormalization)
+      ? raw.loudnessNormalization
+      : defaultSettings.loudnessNormalization,
+  }
 }
 
 export function useAudioSettings() {
   const { user, isAuthenticated } = useAuth()
   const [settings, setSettings] = useState<AudioSettings>(defaultSettings)
   const [isLoaded, setIsLoaded] = useState(false)
-  const isSyncingRef = useRef(false)
+  const syncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
 
   useEffect(() => {
     async function loadSettings() {
@@ -27,9 +66,7 @@ export function useAudioSettings() {
           if (response.ok) {
             const data = await response.json()
             if (data.success && data.preferences?.audio) {
-              setSettings({
-                crossfadeEnabled: data.preferences.audio.crossfadeEnabled ?? false,
-              })
+              setSettings(normalizeSettings(data.preferences.audio))
             } else {
               setSettings(defaultSettings)
             }
@@ -47,8 +84,7 @@ export function useAudioSettings() {
       try {
         const stored = localStorage.getItem(STORAGE_KEY)
         if (stored) {
-          const parsed = JSON.parse(stored) as Partial<AudioSettings>
-          setSettings({ ...defaultSettings, ...parsed })
+          setSettings(normalizeSettings(JSON.parse(stored) as Partial<AudioSettings>))
         }
       } catch {
         // Ignore parse errors
@@ -58,10 +94,21 @@ export function useAudioSettings() {
     loadSettings()
   }, [isAuthenticated, user])
 
-  const syncSettings = useCallback(async (newSettings: AudioSettings) => {
-    if (isSyncingRef.current) return
-    isSyncingRef.current = true
+  // Follow changes made through other hook instances
+  useEffect(() => {
+    const handleSettingsChanged = (event: Event) => {
+      const detail = (event as CustomEvent<AudioSettings>).detail
+      if (detail) setSettings(detail)
+    }
+    window.addEventListener(SETTINGS_CHANGED_EVENT, handleSettingsChanged)
+    return () => window.removeEventListener(SETTINGS_CHANGED_EVENT, handleSettingsChanged)
+  }, [])
 
+  useEffect(() => () => {
+    if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current)
+  }, [])
+
+  const syncSettings = useCallback(async (newSettings: AudioSettings) => {
     try {
       if (isAuthenticated) {
         const response = await fetch('/api/auth/preferences', {
@@ -69,10 +116,10 @@ export function useAudioSettings() {
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
             category: 'audio',
-            updates: { crossfadeEnabled: newSettings.crossfadeEnabled },
+            updates: newSettings,
           }),
         })
-        
+
         if (!response.ok) {
           localStorage.setItem(STORAGE_KEY, JSON.stringify(newSettings))
         }
@@ -85,22 +132,56 @@ export function useAudioSettings() {
       } catch {
         // Ignore storage errors
       }
-    } finally {
-      isSyncingRef.current = false
     }
   }, [isAuthenticated])
 
-  const setCrossfadeEnabled = useCallback((enabled: boolean) => {
+  const updateSettings = useCallback((updates: Partial<AudioSettings>) => {
     setSettings((prev) => {
-      const next = { ...prev, crossfadeEnabled: enabled }
-      syncSettings(next)
+      const next = normalizeSettings({ ...prev, ...updates })
+      if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current)
+      syncTimeoutRef.current = setTimeout(() => {
+        syncTimeoutRef.current = null
+        syncSettings(next)
+      }, SYNC_DEBOUNCE_MS)
+      // Defer the broadcast so other instances don't update during this render
+      queueMicrotask(() => {
+        window.dispatchEvent(new CustomEvent(SETTINGS_CHANGED_EVENT, { detail: next }))
+      })
       return next
     })
   }, [syncSettings])
 
+  const setCrossfadeEnabled = useCallback((enabled: boolean) => {
+    updateSettings({ crossfadeEnabled: enabled })
+  }, [updateSettings])
+
+  const setCrossfadeDuration = useCallback((seconds: number) => {
+    updateSettings({ crossfadeDuration: seconds })
+  }, [updateSettings])
+
+  const setCrossfadeCurve = useCallback((curve: CrossfadeCurve) => {
+    updateSettings({ crossfadeCurve: curve })
+  }, [updateSettings])
+
+  const setGaplessEnabled = useCallback((enabled: boolean) => {
+    updateSettings({ gaplessEnabled: enabled })
+  }, [updateSettings])
+
+  const setLoudnessNormalization = useCallback((mode: LoudnessNormalizationMode) => {
+    updateSettings({ loudnessNormalization: mode })
+  }, [updateSettings])
+
   return {
     crossfadeEnabled: settings.crossfadeEnabled,
+    crossfadeDuration: settings.crossfadeDuration,
+    crossfadeCurve: settings.crossfadeCurve,
+    gaplessEnabled: settings.gaplessEnabled,
+    loudnessNormalization: settings.loudnessNormalization,
     setCrossfadeEnabled,
+    setCrossfadeDuration,
+    setCrossfadeCurve,
+    setGaplessEnabled,
+    setLoudnessNormalization,
     isLoaded,
   }
 }
@@ -24,6 +24,8 @@ interface UseAudioVolumeOptions {
   onMuteChange?: (muted: boolean) => void
   /** Audio element ref to apply volume changes */
   audioRef: React.RefObject<HTMLAudioElement | null>
+  /** Apply a volume level to the element (defaults to setting `audio.volume`) */
+  applyVolume?: (audio: HTMLAudioElement, volume: number) => void
 }
 
 interface UseAudioVolumeReturn {
@@ -70,6 +72,7 @@ export function useAudioVolume({
   onVolumeChange,
   onMuteChange,
   audioRef,
+  applyVolume,
 }: UseAudioVolumeOptions): UseAudioVolumeReturn {
   // Internal state (used when external state not provided)
   const [internalVolume, setInternalVolume] = useState(loadStoredVolume)
@@ -85,11 +88,15 @@ export function useAudioVolume({
   useEffect(() => {
     const audio = audioRef.current
     if (!audio) return
-    audio.volume = volume
+    if (applyVolume) {
+      applyVolume(audio, volume)
+    } else {
+      audio.volume = volume
+    }
 
     // Persist to localStorage
     saveStoredVolume(volume)
-  }, [volume, audioRef])
+  }, [volume, audioRef, applyVolume])
 
   // Apply mute state to audio element
   useEffect(() => {
@@ -0,0 +1,69 @@
+/**
+ * Beat Tracker Hook
+ *
+ * Subscribes to the player element's beat service and keeps the latest beat
+ * clock in a ref, so render loops (R3F `useFrame`, canvas animation frames)
+ * can read the phase every frame without re-rendering. `onBeat` and
+ * `onDownbeat` fire for components that react to discrete hits.
+ *
+ * `bpm` (usually `Track.bpm`) seeds the tempo estimate; tracking restarts
+ * when it changes.
+ */
+
+import { useEffect, useRef, type RefObject } from "react"
+import { setBeatTempoHint, subscribeToBeats } from "@/lib/audio/beat-service"
+import { EMPTY_BEAT_SNAPSHOT, type BeatEvent, type BeatSnapshot } from "@/lib/audio/beat-tracking"
+
+export type BeatHitEvent = Extract<BeatEvent, { type: "beat" }>
+export type DownbeatEvent = Extract<BeatEvent, { type: "downbeat" }>
+
+export interface UseBeatTrackerOptions {
+  // Player audio element (read when tracking starts)
+  audioRef: RefObject<HTMLAudioElement | null>
+  // Whether to track beats
+  enabled?: boolean
+  // Known tempo of the current track
+  bpm?: number | null
+  onBeat?: (event: BeatHitEvent) => void
+  onDownbeat?: (event: DownbeatEvent) => void
+}
+
+export function useBeatTracker({
+  audioRef,
+  enabled = true,
+  bpm,
+  onBeat,
+  onDownbeat,
+}: UseBeatTrackerOptions): RefObject<BeatSnapshot> {
+  const beatRef = useRef<BeatSnapshot>(EMPTY_BEAT_SNAPSHOT)
+  const onBeatRef = useRef(onBeat)
+  const onDownbeatRef = useRef(onDownbeat)
+
+  useEffect(() => {
+    onBeatRef.current = onBeat
+    onDownbeatRef.current = onDownbeat
+  }, [onBeat, onDownbeat])
+
+  useEffect(() => {
+    const element = audioRef.current
+    if (!enabled || !element) return
+
+    const unsubscribe = subscribeToBeats(element, (event) => {
+      if (event.type === "phase") beatRef.current = event
+      else if (event.type === "beat") onBeatRef.current?.(event)
+      else onDownbeatRef.current?.(event)
+    })
+
+    return () => {
+      unsubscribe()
+      beatRef.current = EMPTY_BEAT_SNAPSHOT
+    }
+  }, [audioRef, enabled])
+
+  useEffect(() => {
+    const element = audioRef.current
+    if (enabled && element) setBeatTempoHint(element, bpm)
+  }, [audioRef, enabled, bpm])
+
+  return beatRef
+}
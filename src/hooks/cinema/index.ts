@@ -16,4 +16,5 @@ export {
 } from "./use-cinema-performance"
 export { useWebcamCapture } from "./use-webcam-capture"
 export { useCinemaScene } from "./use-cinema-scene"
+export { useVisualizerPresets } from "./use-visualizer-presets"
 export { useCinemaFullscreen } from "./use-cinema-fullscreen"
@@ -151,6 +151,7 @@ export function useCinemaScene({
       try {
         window.localStorage.removeItem("metadj_cinema_scene")
         window.localStorage.removeItem("metadj_cinema_scene_mobile")
+        window.localStorage.removeItem("metadj_cinema_visualizer_preset")
         window.localStorage.removeItem("metadj_dream_presentation")
         window.localStorage.removeItem("metadj_dream_prompt_base")
         // Reset volume to ensure device-native volume control (always 1.0)
@@ -13,19 +13,24 @@
  * - Focus management for accessibility
  * - Fullscreen mode
  * - Scene selection with localStorage persistence
+ * - Scene and Dream requests from MetaDJai proposals
+ * - Dream prompt timeline and audio-reactive mode (use-dream-prompt-director.ts)
  * - Coordination with other UI features (Wisdom, MetaDJai)
  */
 
 import { useCallback, useEffect, useRef, useState } from 'react'
+import { useDreamPromptDirector } from '@/hooks/dream/use-dream-prompt-director'
 import { useBodyScrollLock } from '@/hooks/use-body-scroll-lock'
 import { DREAM_PROMPT_BASE, DREAM_PROMPT_DEFAULT_PRESENTATION, useDream } from '@/hooks/use-dream'
+import { composeDreamPrompt } from '@/lib/daydream/config'
 import { logger } from '@/lib/logger'
 import { STORAGE_KEYS, getBoolean, getString, setString } from '@/lib/storage/persistence'
 import { useCinemaAnalytics } from './use-cinema-analytics'
 import { useCinemaControls } from './use-cinema-controls'
 import { useCinemaVideo } from './use-cinema-video'
+import type { SceneId } from '@/data/scenes'
 import type { Track } from '@/types'
-import type { DaydreamPresentation } from '@/types/daydream.types'
+import type { DaydreamPresentation, DreamReactiveMix, DreamTimelineStep } from '@/types/daydream.types'
 
 interface UseCinemaOptions {
   currentTrack: Track | null
@@ -297,7 +302,9 @@ export function useCinema({
     return null
   }, [])
 
-  const composedPrompt = `${dreamPresentation} ${dreamPromptBase}`
+  const composedPrompt = composeDreamPrompt(dreamPresentation, dreamPromptBase)
+  // Reported by the prompt director while audio-reactive mode runs
+  const [dreamReactiveMix, setDreamReactiveMix] = useState<DreamReactiveMix | null>(null)
 
   const {
     status: dreamStatus,
@@ -311,9 +318,52 @@ export function useCinema({
   } = useDream({
     getCaptureStream: getDreamCaptureStream,
     prompt: composedPrompt,
+    reactiveMix: dreamReactiveMix,
     enabled: cinemaEnabled,
   })
 
+  // Timeline steps go through the same setters as manual prompt edits
+  const handleDreamTimelineStep = useCallback((step: DreamTimelineStep) => {
+    setDreamPresentation(step.presentation)
+    setDreamPromptBase(step.promptBase.trim() || DREAM_PROMPT_BASE)
+  }, [])
+
+  const dreamPromptDirector = useDreamPromptDirector({
+    isActive: dreamStatus.status === "streaming",
+    trackId: currentTrack?.id ?? null,
+    onStep: handleDreamTimelineStep,
+    onReactiveMix: setDreamReactiveMix,
+  })
+
+
+  // MetaDJai proposals: requests wait until Cinema is open.
+  // The overlay owns scene selection, so it consumes scene requests itself.
+  const [sceneRequest, setSceneRequest] = useState<SceneId | null>(null)
+  const [dreamStartRequested, setDreamStartRequested] = useState(false)
+
+  const requestScene = useCallback((sceneId: SceneId) => {
+    setSceneRequest(sceneId)
+  }, [])
+
+  const clearSceneRequest = useCallback(() => {
+    setSceneRequest(null)
+  }, [])
+
+  // Start Dream on the next render so the composed prompt is current
+  const requestDreamStart = useCallback((prompt?: string) => {
+    if (prompt?.trim()) {
+      handleDreamPromptBaseChange(prompt)
+    }
+    setDreamStartRequested(true)
+  }, [handleDreamPromptBaseChange])
+
+  useEffect(() => {
+    if (!dreamStartRequested || !cinemaEnabled) return
+    setDreamStartRequested(false)
+    if (dreamStatus.status === "idle" || dreamStatus.status === "error") {
+      void startDream()
+    }
+  }, [cinemaEnabled, dreamStartRequested, dreamStatus.status, startDream])
 
   // Wrap stopDream to also reset prompt state to defaults
   // This ensures a "fresh start" every time the user stops/restarts the stream
@@ -370,6 +420,10 @@ export function useCinema({
     isFullscreen,
     setIsFullscreen,
     posterOnly,
+    sceneRequest,
+    requestScene,
+    clearSceneRequest,
+    requestDreamStart,
     // Dream state
     dream: {
       status: dreamStatus,
@@ -385,6 +439,8 @@ export function useCinema({
       setPresentation: handleDreamPresentationChange,
       promptBase: dreamPromptBase,
       setPromptBase: handleDreamPromptBaseChange,
+      promptDirector: dreamPromptDirector,
+      prompt: composedPrompt,
       // null = unknown, true = PATCH works, false = PATCH failed (restart needed for changes)
       patchSupported: dreamPatchSupported,
     }
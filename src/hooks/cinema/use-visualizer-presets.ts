@@ -0,0 +1,228 @@
+"use client"
+
+/**
+ * Visualizer Presets Hook
+ *
+ * Loads the signed-in user's saved visualizer presets and tracks which one is
+ * applied, plus any unsaved edits from the Cinema preset editor. `params` is
+ * what the current visualizer should render with (undefined = built-in look).
+ *
+ * Presets load once Cinema is enabled; `presets` stays null for guests or when
+ * the list can't be loaded. The applied preset persists per browser and
+ * clears when the scene changes to something else.
+ *
+ * @module hooks/cinema/use-visualizer-presets
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { getDefaultVisualizerParams, resolveVisualizerParams } from "@/lib/visualizers/params"
+import { getVisualizerScene } from "@/lib/visualizers/presets"
+import {
+  deleteVisualizerPreset,
+  fetchVisualizerPresets,
+  saveVisualizerPreset,
+} from "@/lib/visualizers/presets-remote"
+import type { SceneId } from "@/data/scenes"
+import type { VisualizerParams } from "@/lib/visualizers/params"
+import type { VisualizerPreset } from "@/types/visualizer.types"
+
+export const VISUALIZER_PRESET_STORAGE_KEY = "metadj_cinema_visualizer_preset"
+
+interface UseVisualizerPresetsOptions {
+  /** Whether Cinema is enabled (presets load on first enable) */
+  enabled: boolean
+  /** Scene currently shown in Cinema */
+  selectedScene: SceneId
+}
+
+export interface UseVisualizerPresetsReturn {
+  /** Saved presets (null = signed out or unavailable) */
+  presets: VisualizerPreset[] | null
+  isLoading: boolean
+  /** Last save/delete error */
+  error: string | null
+  /** Applied preset, when it belongs to the current scene */
+  activePreset: VisualizerPreset | null
+  /** Values the current visualizer renders with (undefined = built-in look) */
+  params: VisualizerParams | undefined
+  /** Whether the editor has changes not saved to a preset */
+  isDirty: boolean
+  /** Apply a preset (the caller switches to its scene) */
+  applyPreset: (preset: VisualizerPreset) => void
+  /** Return to the scene's built-in look */
+  clearPreset: () => void
+  /** Change one parameter of the current visualizer */
+  setParam: (key: string, value: number | string) => void
+  /** Drop unsaved edits */
+  resetParams: () => void
+  /** Save the current visualizer and values as a new preset and apply it */
+  savePreset: (name: string) => Promise<boolean>
+  deletePreset: (id: string) => Promise<void>
+}
+
+interface VisualizerDraft {
+  sceneId: SceneId
+  params: VisualizerParams
+}
+
+function readStoredPresetId(): string | null {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage.getItem(VISUALIZER_PRESET_STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+function persistPresetId(id: string | null) {
+  try {
+    if (id) window.localStorage.setItem(VISUALIZER_PRESET_STORAGE_KEY, id)
+    else window.localStorage.removeItem(VISUALIZER_PRESET_STORAGE_KEY)
+  } catch {
+    // ignore
+  }
+}
+
+export function useVisualizerPresets({ enabled, selectedScene }: UseVisualizerPresetsOptions): UseVisualizerPresetsReturn {
+  const [presets, setPresets] = useState<VisualizerPreset[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [activePresetId, setActivePresetId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<VisualizerDraft | null>(null)
+  const loadedRef = useRef(false)
+  const mountedRef = useRef(true)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => {
+      mountedRef.current = false
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || loadedRef.current) return
+    loadedRef.current = true
+
+    setIsLoading(true)
+    void fetchVisualizerPresets().then((loaded) => {
+      if (!mountedRef.current) return
+      setPresets(loaded)
+      setIsLoading(false)
+      if (!loaded) {
+        // Allow a retry the next time Cinema opens
+        loadedRef.current = false
+        return
+      }
+      const storedId = readStoredPresetId()
+      if (storedId && loaded.some((preset) => preset.id === storedId)) {
+        setActivePresetId((current) => current ?? storedId)
+      }
+    })
+  }, [enabled])
+
+  const applied = presets?.find((preset) => preset.id === activePresetId) ?? null
+  const activePreset = applied?.sceneId === selectedScene ? applied : null
+
+  // Scene changed away from the applied preset (scene menu, MetaDJai, 2D fallback)
+  useEffect(() => {
+    if (applied && applied.sceneId !== selectedScene) {
+      setActivePresetId(null)
+      persistPresetId(null)
+    }
+  }, [applied, selectedScene])
+
+  const currentDraft = draft?.sceneId === selectedScene ? draft : null
+
+  const params = useMemo(
+    () => currentDraft?.params ?? activePreset?.params,
+    [currentDraft, activePreset],
+  )
+
+  const applyPreset = useCallback((preset: VisualizerPreset) => {
+    setDraft(null)
+    setActivePresetId(preset.id)
+    persistPresetId(preset.id)
+  }, [])
+
+  const clearPreset = useCallback(() => {
+    setDraft(null)
+    setActivePresetId(null)
+    persistPresetId(null)
+  }, [])
+
+  const setParam = useCallback(
+    (key: string, value: number | string) => {
+      const scene = getVisualizerScene(selectedScene)
+      if (!scene) return
+      const type = scene.visualizerStyle.type
+      setDraft((prev) => {
+        const base = prev?.sceneId === selectedScene
+          ? prev.params
+          : (activePreset?.params ?? getDefaultVisualizerParams(type))
+        return {
+          sceneId: selectedScene,
+          params: resolveVisualizerParams(type, { ...base, [key]: value }),
+        }
+      })
+    },
+    [selectedScene, activePreset],
+  )
+
+  const resetParams = useCallback(() => {
+    setDraft(null)
+  }, [])
+
+  const savePreset = useCallback(
+    async (name: string) => {
+      const scene = getVisualizerScene(selectedScene)
+      if (!scene) return false
+      setError(null)
+      const result = await saveVisualizerPreset({
+        name,
+        sceneId: scene.id,
+        params: params ?? getDefaultVisualizerParams(scene.visualizerStyle.type),
+      })
+      if ("error" in result) {
+        setError(result.error)
+        return false
+      }
+      setPresets((prev) => [...(prev ?? []), result.preset])
+      setDraft(null)
+      setActivePresetId(result.preset.id)
+      persistPresetId(result.preset.id)
+      return true
+    },
+    [selectedScene, params],
+  )
+
+  const deletePreset = useCallback(
+    async (id: string) => {
+      setError(null)
+      const deleted = await deleteVisualizerPreset(id)
+      if (!deleted) {
+        setError("Failed to delete preset")
+        return
+      }
+      setPresets((prev) => prev?.filter((preset) => preset.id !== id) ?? prev)
+      if (id === activePresetId) {
+        setActivePresetId(null)
+        persistPresetId(null)
+      }
+    },
+    [activePresetId],
+  )
+
+  return {
+    presets,
+    isLoading,
+    error,
+    activePreset,
+    params,
+    isDirty: currentDraft !== null,
+    applyPreset,
+    clearPreset,
+    setParam,
+    resetParams,
+    savePreset,
+    deletePreset,
+  }
+}
@@ -2,7 +2,9 @@
  * Dream Hooks
  *
  * Extracted hooks for Daydream AI video integration.
- * These hooks are composed by the main use-dream.ts hook.
+ * These hooks are composed by the main use-dream.ts hook, except the prompt
+ * director and presets hooks, which use-cinema.ts composes around it, and the
+ * clip recorder, which the Cinema overlay owns.
  *
  * @module hooks/dream
  */
@@ -15,3 +17,12 @@ export type { UseStatusPollOptions, UseStatusPollReturn } from "./use-dream-stat
 
 export { usePromptSync } from "./use-dream-prompt-sync"
 export type { UsePromptSyncOptions, UsePromptSyncReturn } from "./use-dream-prompt-sync"
+
+export { useDreamPromptDirector } from "./use-dream-prompt-director"
+export type { UseDreamPromptDirectorOptions, UseDreamPromptDirectorReturn } from "./use-dream-prompt-director"
+
+export { useDreamPromptPresets } from "./use-dream-prompt-presets"
+export type { UseDreamPromptPresetsReturn } from "./use-dream-prompt-presets"
+
+export { useDreamClipRecorder } from "./use-dream-clip-recorder"
+export type { DreamClip, UseDreamClipRecorderOptions, UseDreamClipRecorderReturn } from "./use-dream-clip-recorder"
@@ -0,0 +1,402 @@
+"use client"
+
+/**
+ * Dream Clip Recorder Hook
+ *
+ * Records the Dream output video plus the playing track's audio with
+ * MediaRecorder and turns the result into a downloadable/shareable WebM clip
+ * with a prompt-log sidecar.
+ *
+ * - Idle (the default) records nothing, so Dream sessions don't pay for
+ *   encoders nobody asked for
+ * - Rolling mode, once armed, keeps staggered recorder segments while Dream
+ *   streams, so "save" returns a clip covering at least the last `bufferSeconds`
+ * - Manual mode records between start and stop (capped at `DREAM_CLIP_MAX_SECONDS`)
+ *
+ * The player audio is taken from the shared audio graph; the element is wired
+ * into it on demand. A clip recorded without audio says so in `error`.
+ *
+ * Only `<video>` Dream outputs can be captured; the Livepeer iframe player is
+ * cross-origin, so `videoElement` is null there and `canRecord` stays false.
+ *
+ * @module hooks/dream/use-dream-clip-recorder
+ */
+
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import { connectAudioElement, getAudioElementGraph, getAudioElementStream } from "@/lib/audio/audio-graph"
+import {
+  DREAM_CLIP_DEFAULT_BUFFER_SECONDS,
+  DREAM_CLIP_MAX_SECONDS,
+  DREAM_CLIP_TIMESLICE_MS,
+  buildDreamClipBaseName,
+  buildDreamClipSidecar,
+  buildDreamClipTitle,
+  embedWebmTitle,
+  pickDreamClipMimeType,
+  pickRollingDreamClipSegment,
+} from "@/lib/daydream/clip-recording"
+import { logger } from "@/lib/logger"
+import type { Track } from "@/types"
+import type { DreamClipMode, DreamClipSidecar, DreamPromptLogEntry } from "@/types/daydream.types"
+
+/** Prompt changes older than this can't fall inside a clip (longest rolling segment or manual cap) */
+const PROMPT_LOG_RETENTION_MS = Math.max(DREAM_CLIP_MAX_SECONDS, DREAM_CLIP_DEFAULT_BUFFER_SECONDS * 4) * 1000
+
+export interface UseDreamClipRecorderOptions {
+  /** Dream output video (null when the output can't be captured) */
+  videoElement: HTMLVideoElement | null
+  /** Player audio element; its post-gain output is mixed into the clip */
+  audioElement: HTMLAudioElement | null
+  /** True while Dream is streaming */
+  isActive: boolean
+  /** Composed Dream prompt; changes are logged for the sidecar */
+  prompt: string
+  track: Track | null
+}
+
+export interface DreamClip {
+  file: File
+  /** Title embedded in the WebM header */
+  title: string
+  sidecar: DreamClipSidecar
+  sidecarFileName: string
+}
+
+export interface UseDreamClipRecorderReturn {
+  /** Browser can record WebM and the Dream output is a capturable video */
+  canRecord: boolean
+  mode: DreamClipMode
+  setMode: (mode: DreamClipMode) => void
+  bufferSeconds: number
+  setBufferSeconds: (seconds: number) => void
+  /** Manual recording in progress */
+  isRecording: boolean
+  startRecording: () => void
+  stopRecording: () => Promise<void>
+  /** Save the rolling buffer as a clip */
+  saveRollingClip: () => Promise<void>
+  /** Last finished clip */
+  clip: DreamClip | null
+  clearClip: () => void
+  downloadClip: () => void
+  downloadSidecar: () => void
+  error: string | null
+}
+
+interface RecorderSegment {
+  recorder: MediaRecorder
+  chunks: Blob[]
+  startedAt: number
+  /** The source stream carried the player audio */
+  hasAudio: boolean
+}
+
+interface SourceStream {
+  stream: MediaStream
+  hasAudio: boolean
+}
+
+type CapturableVideo = HTMLVideoElement & { captureStream?: () => MediaStream }
+
+function getVideoTracks(video: HTMLVideoElement): MediaStreamTrack[] {
+  // WebRTC/mock outputs already play a MediaStream; record its tracks directly
+  if (video.srcObject instanceof MediaStream) {
+    return video.srcObject.getVideoTracks()
+  }
+  const capture = (video as CapturableVideo).captureStream
+  if (typeof capture !== "function") return []
+  try {
+    return capture.call(video).getVideoTracks()
+  } catch {
+    // Cross-origin media without CORS can't be captured
+    return []
+  }
+}
+
+function getAudioTracks(audio: HTMLAudioElement): MediaStreamTrack[] {
+  try {
+    // Wire the player into the shared graph if playback hasn't yet (as the beat tracker does)
+    if (!getAudioElementGraph(audio)) connectAudioElement(audio)
+    return getAudioElementStream(audio)?.getAudioTracks() ?? []
+  } catch (err) {
+    logger.warn("[Dream] Clip recorder could not tap the player audio", { error: String(err) })
+    return []
+  }
+}
+
+/**
+ * Dream output video plus the player audio, or null when the video has no tracks yet
+ */
+function buildSourceStream(video: HTMLVideoElement, audio: HTMLAudioElement | null): SourceStream | null {
+  const videoTracks = getVideoTracks(video)
+  if (videoTracks.length === 0) return null
+  const audioTracks = audio ? getAudioTracks(audio) : []
+  return {
+    stream: new MediaStream([...videoTracks, ...audioTracks]),
+    hasAudio: audioTracks.length > 0,
+  }
+}
+
+function startSegment({ stream, hasAudio }: SourceStream, mimeType: string): RecorderSegment {
+  const recorder = new MediaRecorder(stream, { mimeType })
+  const segment: RecorderSegment = { recorder, chunks: [], startedAt: Date.now(), hasAudio }
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) segment.chunks.push(event.data)
+  }
+  recorder.start(DREAM_CLIP_TIMESLICE_MS)
+  return segment
+}
+
+function stopSegment(segment: RecorderSegment) {
+  if (segment.recorder.state !== "inactive") {
+    segment.recorder.stop()
+  }
+}
+
+/**
+ * Resolve once every chunk recorded so far has been delivered
+ */
+function flushSegment(segment: RecorderSegment, finish: boolean): Promise<void> {
+  const { recorder } = segment
+  if (recorder.state === "inactive") return Promise.resolve()
+  return new Promise((resolve) => {
+    // `stop` fires after the final dataavailable; requestData fires dataavailable once
+    recorder.addEventListener(finish ? "stop" : "dataavailable", () => resolve(), { once: true })
+    if (finish) {
+      recorder.stop()
+    } else {
+      recorder.requestData()
+    }
+  })
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = window.URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  window.URL.revokeObjectURL(url)
+}
+
+export function useDreamClipRecorder({
+  videoElement,
+  audioElement,
+  isActive,
+  prompt,
+  track,
+}: UseDreamClipRecorderOptions): UseDreamClipRecorderReturn {
+  const [mode, setMode] = useState<DreamClipMode>("idle")
+  const [bufferSeconds, setBufferSeconds] = useState(DREAM_CLIP_DEFAULT_BUFFER_SECONDS)
+  const [isRecording, setIsRecording] = useState(false)
+  const [clip, setClip] = useState<DreamClip | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // Bumped when the video loads new media, so capture restarts on the new source
+  const [sourceKey, setSourceKey] = useState(0)
+
+  const promptLogRef = useRef<DreamPromptLogEntry[]>([])
+  const rollingSegmentsRef = useRef<RecorderSegment[]>([])
+  const manualSegmentRef = useRef<RecorderSegment | null>(null)
+  const manualTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const trackRef = useRef(track)
+
+  useEffect(() => {
+    trackRef.current = track
+  }, [track])
+
+  const mimeType = useMemo(() => {
+    if (typeof MediaRecorder === "undefined") return null
+    return pickDreamClipMimeType((type) => MediaRecorder.isTypeSupported(type))
+  }, [])
+
+  const canRecord = Boolean(mimeType && videoElement)
+
+  // Log prompt changes while Dream runs (the entry before the retention window is
+  // kept: it is the prompt that was active when an older clip started)
+  useEffect(() => {
+    if (!isActive) return
+    const now = Date.now()
+    const log = promptLogRef.current
+    log.push({ at: now, prompt })
+    while (log.length > 1 && log[1].at <= now - PROMPT_LOG_RETENTION_MS) log.shift()
+  }, [isActive, prompt])
+
+  useEffect(() => {
+    if (!videoElement) return
+    const handleLoaded = () => setSourceKey((key) => key + 1)
+    videoElement.addEventListener("loadedmetadata", handleLoaded)
+    return () => videoElement.removeEventListener("loadedmetadata", handleLoaded)
+  }, [videoElement])
+
+  const finishClip = useCallback(async ({ chunks, startedAt, hasAudio }: RecorderSegment) => {
+    if (chunks.length === 0 || !mimeType) {
+      setError("Nothing was recorded yet")
+      return
+    }
+
+    const endedAt = Date.now()
+    const currentTrack = trackRef.current
+    const sidecarTrack = currentTrack
+      ? { id: currentTrack.id, title: currentTrack.title, artist: currentTrack.artist }
+      : null
+    const draft = buildDreamClipSidecar({
+      file: "",
+      startedAt,
+      endedAt,
+      track: sidecarTrack,
+      promptLog: promptLogRef.current,
+    })
+    const startPrompt = draft.prompts[0]?.prompt ?? prompt
+    const baseName = buildDreamClipBaseName({ trackTitle: currentTrack?.title, prompt: startPrompt, startedAt })
+    const title = buildDreamClipTitle(currentTrack?.title, startPrompt)
+
+    // The first chunk carries the WebM header; stamp the title into it
+    const header = embedWebmTitle(new Uint8Array(await chunks[0].arrayBuffer()), title)
+    const type = mimeType.split(";")[0]
+    const file = new File([header as BlobPart, ...chunks.slice(1)], `${baseName}.webm`, { type })
+
+    setClip({
+      file,
+      title,
+      sidecar: { ...draft, file: file.name },
+      sidecarFileName: `${baseName}.json`,
+    })
+    setError(hasAudio ? null : "Saved without audio: the player audio couldn't be captured")
+  }, [mimeType, prompt])
+
+  // Rolling capture (only once armed): a new segment every buffer length, keeping
+  // the last two. `sourceKey` restarts it on the video's new media.
+  useEffect(() => {
+    if (mode !== "rolling" || !isActive || !videoElement || !mimeType) return
+    const source = buildSourceStream(videoElement, audioElement)
+    if (!source) return
+
+    const segments = rollingSegmentsRef.current
+    const rotate = () => {
+      try {
+        segments.push(startSegment(source, mimeType))
+      } catch (err) {
+        logger.warn("[Dream] Clip recorder failed to start", { error: String(err) })
+        return
+      }
+      while (segments.length > 2) {
+        const dropped = segments.shift()
+        if (dropped) stopSegment(dropped)
+      }
+    }
+
+    rotate()
+    const interval = setInterval(rotate, bufferSeconds * 1000)
+    return () => {
+      clearInterval(interval)
+      segments.splice(0).forEach(stopSegment)
+    }
+  }, [audioElement, bufferSeconds, isActive, mimeType, mode, sourceKey, videoElement])
+
+  const saveRollingClip = useCallback(async () => {
+    const segments = rollingSegmentsRef.current
+    const index = pickRollingDreamClipSegment(
+      segments.map((segment) => segment.startedAt),
+      Date.now(),
+      bufferSeconds,
+    )
+    if (index === null) {
+      setError("Clip buffer is still filling")
+      return
+    }
+    const segment = segments[index]
+    await flushSegment(segment, false)
+    await finishClip({ ...segment, chunks: [...segment.chunks] })
+  }, [bufferSeconds, finishClip])
+
+  const stopRecording = useCallback(async () => {
+    const segment = manualSegmentRef.current
+    if (!segment) return
+    manualSegmentRef.current = null
+    if (manualTimeoutRef.current) {
+      clearTimeout(manualTimeoutRef.current)
+      manualTimeoutRef.current = null
+    }
+    setIsRecording(false)
+    await flushSegment(segment, true)
+    await finishClip(segment)
+  }, [finishClip])
+
+  const startRecording = useCallback(() => {
+    if (manualSegmentRef.current || !videoElement || !mimeType) return
+    const source = buildSourceStream(videoElement, audioElement)
+    if (!source) {
+      setError("Dream output isn't playing yet")
+      return
+    }
+    try {
+      manualSegmentRef.current = startSegment(source, mimeType)
+    } catch (err) {
+      logger.warn("[Dream] Clip recorder failed to start", { error: String(err) })
+      setError("Recording isn't available in this browser")
+      return
+    }
+    setError(null)
+    setIsRecording(true)
+    manualTimeoutRef.current = setTimeout(() => {
+      void stopRecording()
+    }, DREAM_CLIP_MAX_SECONDS * 1000)
+  }, [audioElement, mimeType, stopRecording, videoElement])
+
+  // Dream stopping (or the output changing) ends a manual recording with what was captured
+  useEffect(() => {
+    if (isActive && canRecord) return
+    if (manualSegmentRef.current) void stopRecording()
+  }, [canRecord, isActive, stopRecording])
+
+  // Switching modes discards an unfinished manual recording
+  useEffect(() => {
+    if (mode === "manual") return
+    const segment = manualSegmentRef.current
+    if (!segment) return
+    manualSegmentRef.current = null
+    if (manualTimeoutRef.current) clearTimeout(manualTimeoutRef.current)
+    stopSegment(segment)
+    setIsRecording(false)
+  }, [mode])
+
+  useEffect(() => {
+    return () => {
+      if (manualTimeoutRef.current) clearTimeout(manualTimeoutRef.current)
+      if (manualSegmentRef.current) stopSegment(manualSegmentRef.current)
+    }
+  }, [])
+
+  const clearClip = useCallback(() => {
+    setClip(null)
+  }, [])
+
+  const downloadClip = useCallback(() => {
+    if (clip) downloadBlob(clip.file, clip.file.name)
+  }, [clip])
+
+  const downloadSidecar = useCallback(() => {
+    if (!clip) return
+    const blob = new Blob([JSON.stringify(clip.sidecar, null, 2)], { type: "application/json" })
+    downloadBlob(blob, clip.sidecarFileName)
+  }, [clip])
+
+  return {
+    canRecord,
+    mode,
+    setMode,
+    bufferSeconds,
+    setBufferSeconds,
+    isRecording,
+    startRecording,
+    stopRecording,
+    saveRollingClip,
+    clip,
+    clearClip,
+    downloadClip,
+    downloadSidecar,
+    error,
+  }
+}
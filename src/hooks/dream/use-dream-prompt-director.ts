@@ -0,0 +1,265 @@
+"use client"
+
+/**
+ * Dream Prompt Director Hook
+ *
+ * Drives the Dream prompt while streaming:
+ * - Timeline: steps through prompts after each step's hold time or at each
+ *   track change, applying them through the regular prompt setters
+ * - Audio-reactive mode: averages analyzer band levels into a prompt mix
+ *   (accent weights + seed) and reports it for useDream to blend onto the prompt
+ *
+ * Both only change useDream inputs; useDream spaces the resulting PATCHes by
+ * `PATCH_CONFIG.MIN_INTERVAL_MS`.
+ *
+ * @module hooks/dream/use-dream-prompt-director
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  DREAM_REACTIVE_SAMPLE_MS,
+  DREAM_REACTIVE_WINDOW_MS,
+  averageDreamAudioLevels,
+  computeDreamReactiveMix,
+  getDreamReactiveMixKey,
+} from "@/lib/daydream/audio-reactive"
+import {
+  EMPTY_DREAM_TIMELINE,
+  addDreamTimelineStep,
+  clampDreamTimelineHold,
+  moveDreamTimelineStep,
+  resolveDreamTimelinePosition,
+} from "@/lib/daydream/prompt-timeline"
+import { logger } from "@/lib/logger"
+import type {
+  DaydreamPresentation,
+  DreamAudioLevels,
+  DreamReactiveMix,
+  DreamTimeline,
+  DreamTimelineMode,
+  DreamTimelineStep,
+} from "@/types/daydream.types"
+
+export interface UseDreamPromptDirectorOptions {
+  /** True while a Dream stream is running; the timeline stops and reactive mode idles otherwise */
+  isActive: boolean
+  /** Current track ID, for track-boundary timelines */
+  trackId: string | null
+  /** Apply a timeline step (sets the prompt base and presentation) */
+  onStep: (step: DreamTimelineStep) => void
+  /** Receives each new audio-reactive mix, and null when reactive mode is off or Dream is idle */
+  onReactiveMix: (mix: DreamReactiveMix | null) => void
+}
+
+export interface UseDreamPromptDirectorReturn {
+  timeline: DreamTimeline
+  setTimelineMode: (mode: DreamTimelineMode) => void
+  addTimelineStep: (promptBase: string, presentation: DaydreamPresentation) => void
+  removeTimelineStep: (stepId: string) => void
+  moveTimelineStep: (stepId: string, direction: -1 | 1) => void
+  setTimelineStepHold: (stepId: string, holdSeconds: number) => void
+  clearTimeline: () => void
+  isTimelineRunning: boolean
+  /** Index of the step currently applied (null when stopped) */
+  activeStepIndex: number | null
+  startTimeline: () => void
+  stopTimeline: () => void
+  isReactive: boolean
+  setReactive: (enabled: boolean) => void
+  /** Written by the Cinema overlay with the analyzer's band levels */
+  audioLevelsRef: React.RefObject<DreamAudioLevels | null>
+}
+
+function createStepId(): string {
+  if (typeof crypto !== "undefined" && typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID()
+  }
+  return `step-${Date.now()}-${Math.random().toString(16).slice(2)}`
+}
+
+export function useDreamPromptDirector({
+  isActive,
+  trackId,
+  onStep,
+  onReactiveMix,
+}: UseDreamPromptDirectorOptions): UseDreamPromptDirectorReturn {
+  const [timeline, setTimeline] = useState<DreamTimeline>(EMPTY_DREAM_TIMELINE)
+  const [isTimelineRunning, setIsTimelineRunning] = useState(false)
+  const [activeStepIndex, setActiveStepIndex] = useState<number | null>(null)
+  const [isReactive, setReactive] = useState(false)
+
+  const audioLevelsRef = useRef<DreamAudioLevels | null>(null)
+  const timelineRef = useRef(timeline)
+  const onStepRef = useRef(onStep)
+  const onReactiveMixRef = useRef(onReactiveMix)
+  const startedAtRef = useRef(0)
+  const trackChangesRef = useRef(0)
+  const lastTrackIdRef = useRef(trackId)
+  const activeStepIndexRef = useRef<number | null>(null)
+  const runningRef = useRef(false)
+  const stepTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  useEffect(() => {
+    timelineRef.current = timeline
+    onStepRef.current = onStep
+    onReactiveMixRef.current = onReactiveMix
+  }, [timeline, onStep, onReactiveMix])
+
+  const clearStepTimeout = useCallback(() => {
+    if (stepTimeoutRef.current) {
+      clearTimeout(stepTimeoutRef.current)
+      stepTimeoutRef.current = null
+    }
+  }, [])
+
+  // Apply the step for the current progress and schedule the next time-mode change
+  const advanceTimeline = useCallback(() => {
+    const advance = () => {
+      clearStepTimeout()
+      const position = resolveDreamTimelinePosition(timelineRef.current, {
+        elapsedSeconds: (Date.now() - startedAtRef.current) / 1000,
+        trackChanges: trackChangesRef.current,
+      })
+      if (!position) return
+
+      if (position.index !== activeStepIndexRef.current) {
+        activeStepIndexRef.current = position.index
+        setActiveStepIndex(position.index)
+        const step = timelineRef.current.steps[position.index]
+        logger.debug("[Dream] Timeline step", { index: position.index, promptBase: step.promptBase })
+        onStepRef.current(step)
+      }
+
+      if (position.secondsUntilNext !== null) {
+        stepTimeoutRef.current = setTimeout(advance, position.secondsUntilNext * 1000)
+      }
+    }
+    advance()
+  }, [clearStepTimeout])
+
+  const stopTimeline = useCallback(() => {
+    clearStepTimeout()
+    runningRef.current = false
+    activeStepIndexRef.current = null
+    setActiveStepIndex(null)
+    setIsTimelineRunning(false)
+  }, [clearStepTimeout])
+
+  const startTimeline = useCallback(() => {
+    if (timelineRef.current.steps.length === 0) return
+    startedAtRef.current = Date.now()
+    trackChangesRef.current = 0
+    runningRef.current = true
+    activeStepIndexRef.current = null
+    setIsTimelineRunning(true)
+    advanceTimeline()
+  }, [advanceTimeline])
+
+  // Editing restarts a running timeline from its first step so indexes stay meaningful
+  const editTimeline = useCallback((update: (current: DreamTimeline) => DreamTimeline) => {
+    const next = update(timelineRef.current)
+    timelineRef.current = next
+    setTimeline(next)
+    if (runningRef.current) {
+      if (next.steps.length === 0) {
+        stopTimeline()
+      } else {
+        startTimeline()
+      }
+    }
+  }, [startTimeline, stopTimeline])
+
+  const setTimelineMode = useCallback((mode: DreamTimelineMode) => {
+    editTimeline((current) => ({ ...current, mode }))
+  }, [editTimeline])
+
+  const addTimelineStep = useCallback((promptBase: string, presentation: DaydreamPresentation) => {
+    editTimeline((current) => addDreamTimelineStep(current, { id: createStepId(), promptBase, presentation }))
+  }, [editTimeline])
+
+  const removeTimelineStep = useCallback((stepId: string) => {
+    editTimeline((current) => ({ ...current, steps: current.steps.filter((step) => step.id !== stepId) }))
+  }, [editTimeline])
+
+  const moveTimelineStep = useCallback((stepId: string, direction: -1 | 1) => {
+    editTimeline((current) => moveDreamTimelineStep(current, stepId, direction))
+  }, [editTimeline])
+
+  const setTimelineStepHold = useCallback((stepId: string, holdSeconds: number) => {
+    editTimeline((current) => ({
+      ...current,
+      steps: current.steps.map((step) =>
+        step.id === stepId ? { ...step, holdSeconds: clampDreamTimelineHold(holdSeconds) } : step,
+      ),
+    }))
+  }, [editTimeline])
+
+  const clearTimeline = useCallback(() => {
+    stopTimeline()
+    timelineRef.current = EMPTY_DREAM_TIMELINE
+    setTimeline(EMPTY_DREAM_TIMELINE)
+  }, [stopTimeline])
+
+  // Track-boundary timelines advance on every track change
+  useEffect(() => {
+    if (lastTrackIdRef.current === trackId) return
+    lastTrackIdRef.current = trackId
+    if (!isTimelineRunning || timelineRef.current.mode !== "track" || !trackId) return
+    trackChangesRef.current += 1
+    advanceTimeline()
+  }, [trackId, isTimelineRunning, advanceTimeline])
+
+  // The timeline only runs while Dream does
+  useEffect(() => {
+    if (!isActive && isTimelineRunning) {
+      stopTimeline()
+    }
+  }, [isActive, isTimelineRunning, stopTimeline])
+
+  useEffect(() => clearStepTimeout, [clearStepTimeout])
+
+  // Audio-reactive sampling: average analyzer levels per window into a mix
+  useEffect(() => {
+    if (!isReactive || !isActive) {
+      onReactiveMixRef.current(null)
+      return
+    }
+
+    const samplesPerWindow = Math.max(1, Math.round(DREAM_REACTIVE_WINDOW_MS / DREAM_REACTIVE_SAMPLE_MS))
+    let samples: DreamAudioLevels[] = []
+    let lastKey: string | null = null
+
+    const interval = setInterval(() => {
+      const levels = audioLevelsRef.current
+      samples.push(levels ?? { bass: 0, mid: 0, high: 0 })
+      if (samples.length < samplesPerWindow) return
+
+      const mix = computeDreamReactiveMix(averageDreamAudioLevels(samples))
+      samples = []
+      const key = getDreamReactiveMixKey(mix)
+      if (key !== lastKey) {
+        lastKey = key
+        onReactiveMixRef.current(mix)
+      }
+    }, DREAM_REACTIVE_SAMPLE_MS)
+
+    return () => clearInterval(interval)
+  }, [isReactive, isActive])
+
+  return {
+    timeline,
+    setTimelineMode,
+    addTimelineStep,
+    removeTimelineStep,
+    moveTimelineStep,
+    setTimelineStepHold,
+    clearTimeline,
+    isTimelineRunning,
+    activeStepIndex,
+    startTimeline,
+    stopTimeline,
+    isReactive,
+    setReactive,
+    audioLevelsRef,
+  }
+}
@@ -0,0 +1,81 @@
+"use client"
+
+/**
+ * Dream Prompt Presets Hook
+ *
+ * Loads and edits the signed-in user's saved Dream prompts. Presets load the
+ * first time `enabled` turns true (the Dream prompt menu opens); `presets`
+ * stays null for guests or when the list can't be loaded.
+ *
+ * @module hooks/dream/use-dream-prompt-presets
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react"
+import {
+  deleteDreamPromptPreset,
+  fetchDreamPromptPresets,
+  saveDreamPromptPreset,
+} from "@/lib/daydream/presets-remote"
+import type { DaydreamPresentation, DreamPromptPreset } from "@/types/daydream.types"
+
+export interface UseDreamPromptPresetsReturn {
+  /** Saved presets (null = signed out or unavailable) */
+  presets: DreamPromptPreset[] | null
+  isLoading: boolean
+  /** Last save/delete error */
+  error: string | null
+  savePreset: (name: string, promptBase: string, presentation: DaydreamPresentation) => Promise<boolean>
+  deletePreset: (id: string) => Promise<void>
+}
+
+export function useDreamPromptPresets(enabled: boolean): UseDreamPromptPresetsReturn {
+  const [presets, setPresets] = useState<DreamPromptPreset[] | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const loadedRef = useRef(false)
+  const mountedRef = useRef(true)
+
+  useEffect(() => {
+    mountedRef.current = true
+    return () => {
+      mountedRef.current = false
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || loadedRef.current) return
+    loadedRef.current = true
+
+    setIsLoading(true)
+    void fetchDreamPromptPresets().then((loaded) => {
+      if (!mountedRef.current) return
+      setPresets(loaded)
+      setIsLoading(false)
+      // Allow a retry on the next open when loading failed
+      if (!loaded) loadedRef.current = false
+    })
+  }, [enabled])
+
+  const savePreset = useCallback(async (name: string, promptBase: string, presentation: DaydreamPresentation) => {
+    setError(null)
+    const result = await saveDreamPromptPreset({ name, promptBase, presentation })
+    if ("error" in result) {
+      setError(result.error)
+      return false
+    }
+    setPresets((prev) => [...(prev ?? []), result.preset])
+    return true
+  }, [])
+
+  const deletePreset = useCallback(async (id: string) => {
+    setError(null)
+    const deleted = await deleteDreamPromptPreset(id)
+    if (!deleted) {
+      setError("Failed to delete preset")
+      return
+    }
+    setPresets((prev) => prev?.filter((preset) => preset.id !== id) ?? prev)
+  }, [])
+
+  return { presets, isLoading, error, savePreset, deletePreset }
+}
@@ -19,3 +19,4 @@ export { useMetaDjAiChatProps } from "./use-metadjai-chat-props"
 export { useMetaDjAiPanelControls } from "./use-metadjai-panel-controls"
 export { usePlayerControls } from "./use-player-controls"
 export { useHubPlayback } from "./use-hub-playback"
+export { useMoodChannelStream } from "./use-mood-channel-stream"
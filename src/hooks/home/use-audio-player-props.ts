@@ -9,7 +9,7 @@
 
 import { useMemo } from "react"
 import type { JournalSearchEntry, WisdomSearchEntry } from "@/lib/search/search-results"
-import type { Track, RepeatMode, AudioPlayerProps } from "@/types"
+import type { Track, RepeatMode, AudioPlayerProps, PlaybackSource, QueueContext } from "@/types"
 
 interface UseAudioPlayerPropsParams {
   // Player state
@@ -26,6 +26,8 @@ interface UseAudioPlayerPropsParams {
   isShuffleEnabled: boolean
   repeatMode: RepeatMode
   allTracks: Track[]
+  queueContext: QueueContext
+  playbackSource: PlaybackSource
 
   // Queue handlers
   handleNext: () => void
@@ -71,6 +73,8 @@ export function useAudioPlayerProps({
   isShuffleEnabled,
   repeatMode,
   allTracks,
+  queueContext,
+  playbackSource,
   handleNext,
   handlePrevious,
   handleShuffleToggle,
@@ -116,7 +120,7 @@ export function useAudioPlayerProps({
         onTrackSelect: handleQueueTrackSelect,
         onShuffleToggle: queue.length > 0 ? handleShuffleToggle : undefined,
         onRepeatToggle: handleRepeatToggle,
-
+        source: { ...playbackSource, queueContext },
       },
       search: {
         allTracks,
@@ -144,6 +148,8 @@ export function useAudioPlayerProps({
       isShuffleEnabled,
       repeatMode,
       allTracks,
+      queueContext,
+      playbackSource,
       handleNext,
       handlePrevious,
       handleShuffleToggle,
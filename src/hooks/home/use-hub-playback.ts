@@ -1,7 +1,7 @@
 import { useCallback, useState } from "react"
 import { getTracksByCollection } from "@/lib/music"
 import { normalizeCollectionSlug } from "@/lib/music/utils"
-import type { Collection, Track } from "@/types"
+import type { Collection, PlaybackSource, Track } from "@/types"
 
 interface UseHubPlaybackOptions {
   tracks: Track[]
@@ -9,6 +9,9 @@ interface UseHubPlaybackOptions {
   setSelectedCollection: (collectionId: string, source?: 'default' | 'hydrate' | 'user' | 'system') => void
   handleTrackClick: (track: Track, tracksOverride?: Track[]) => void
   handleTrackQueueAdd: (track: Track) => void
+  setPlaybackSource: (source: PlaybackSource) => void
+  /** Starts the channel's endless stream and returns its first batch */
+  startMoodChannelStream: (channelId: string) => Track[]
   showToast: (options: { message: string }) => void
   shouldUseSidePanels: boolean
   panels: { left: { isOpen: boolean } }
@@ -34,6 +37,8 @@ export function useHubPlayback({
   setSelectedCollection,
   handleTrackClick,
   handleTrackQueueAdd,
+  setPlaybackSource,
+  startMoodChannelStream,
   showToast,
   shouldUseSidePanels,
   panels,
@@ -139,10 +144,13 @@ export function useHubPlayback({
         return
       }
 
-      // Convert track IDs to Track objects
-      const channelTracks = trackIds
-        .map((id) => tracks.find((t) => t.id === id))
-        .filter((t): t is Track => t !== undefined)
+      // Known channels play as an endless stream; otherwise fall back to the given IDs
+      const streamTracks = moodChannelId ? startMoodChannelStream(moodChannelId) : []
+      const channelTracks = streamTracks.length > 0
+        ? streamTracks
+        : trackIds
+          .map((id) => tracks.find((t) => t.id === id))
+          .filter((t): t is Track => t !== undefined)
 
       if (channelTracks.length === 0) {
         showToast({ message: "Unable to load mood channel" })
@@ -155,8 +163,14 @@ export function useHubPlayback({
         syncCollectionSelection(firstTrack)
         // Build queue from mood channel tracks so playback context matches the channel
         handleTrackClick(firstTrack, channelTracks)
+        // Recorded with listening events (after the click resets the source to the queue)
+        setPlaybackSource({ type: "mood-channel", id: moodChannelId ?? null })
 
-        showToast({ message: `Playing mood channel (${channelTracks.length} tracks)` })
+        showToast({
+          message: streamTracks.length > 0
+            ? "Playing mood channel"
+            : `Playing mood channel (${channelTracks.length} tracks)`,
+        })
 
         // Set active mood channel to sync with left panel
         if (moodChannelId) {
@@ -172,7 +186,7 @@ export function useHubPlayback({
         }
       }
     },
-    [tracks, syncCollectionSelection, handleTrackClick, showToast, shouldUseSidePanels, panels.left.isOpen, openLeftPanel],
+    [tracks, startMoodChannelStream, syncCollectionSelection, handleTrackClick, setPlaybackSource, showToast, shouldUseSidePanels, panels.left.isOpen, openLeftPanel],
   )
 
   return {
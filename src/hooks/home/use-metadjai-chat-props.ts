@@ -10,6 +10,7 @@ import type { Track } from "@/types"
 import type {
   MetaDjAiChatSessionSummary,
   MetaDjAiMessage,
+  MetaDjAiMessageBranch,
   MetaDjAiPersonalizationState,
   MetaDjAiProvider,
   MetaDjAiRateLimitState,
@@ -33,7 +34,9 @@ interface MetaDjAiSession {
   startNewSession: (seedMessages?: MetaDjAiMessage[]) => string
   regenerateLastResponse: () => Promise<void>
   retryLastMessage: () => Promise<void>
-  switchMessageVersion: (messageId: string, versionIndex: number) => void
+  messageBranches: Record<string, MetaDjAiMessageBranch>
+  switchBranch: (messageId: string) => void
+  editMessage: (messageId: string, content: string) => Promise<void>
   canRetry: boolean
   rateLimit: MetaDjAiRateLimitState
   modelPreference: MetaDjAiProvider
@@ -46,6 +49,7 @@ interface MetaDjAiSession {
   switchSession: (sessionId: string) => void
   deleteSession: (sessionId: string) => void
   refreshSessions: () => void
+  condensedThroughMessageId?: string | null
 }
 
 interface UseMetaDjAiChatPropsParams {
@@ -82,8 +86,11 @@ export function useMetaDjAiChatProps({
       onSelectSession: metaDjAiSession.switchSession,
       onDeleteSession: metaDjAiSession.deleteSession,
       onRefreshSessions: metaDjAiSession.refreshSessions,
+      condensedThroughMessageId: metaDjAiSession.condensedThroughMessageId,
       onRegenerate: metaDjAiSession.regenerateLastResponse,
-      onSwitchVersion: metaDjAiSession.switchMessageVersion,
+      messageBranches: metaDjAiSession.messageBranches,
+      onSwitchBranch: metaDjAiSession.switchBranch,
+      onEditMessage: metaDjAiSession.editMessage,
       onRetry: metaDjAiSession.retryLastMessage,
       canRetry: metaDjAiSession.canRetry,
       welcomeDetails: metaDjAiWelcomeDetails,
@@ -0,0 +1,108 @@
+/**
+ * @file use-mood-channel-stream.ts
+ * @description Keeps a mood channel playing as an endless radio stream.
+ * Starting a channel takes the first batch from the channel engine; while the
+ * channel is the playback source, the auto queue is topped up with the next
+ * batch before it runs out (already-played stream tracks are dropped).
+ */
+
+import { useCallback, useEffect, useRef } from "react"
+import { MOOD_CHANNELS } from "@/data/moodChannels"
+import {
+  createMoodChannelStream,
+  takeMoodChannelTracks,
+  type MoodChannelStream,
+} from "@/lib/music/mood-channel-engine"
+import type { PlayerContextValue, QueueContextValue, Track } from "@/types"
+
+/** Tracks added to the queue per refill */
+export const MOOD_CHANNEL_STREAM_BATCH_SIZE = 12
+/** Refill once this few tracks remain after the current one */
+const REFILL_THRESHOLD = 2
+
+export interface UseMoodChannelStreamOptions {
+  player: PlayerContextValue
+  queue: QueueContextValue
+  tracks: Track[]
+}
+
+export interface UseMoodChannelStreamResult {
+  /** Start a fresh stream for the channel and return its first batch ([] when unknown or empty) */
+  startMoodChannelStream: (channelId: string) => Track[]
+}
+
+export function useMoodChannelStream({
+  player,
+  queue,
+  tracks,
+}: UseMoodChannelStreamOptions): UseMoodChannelStreamResult {
+  const streamRef = useRef<MoodChannelStream | null>(null)
+
+  const startMoodChannelStream = useCallback(
+    (channelId: string) => {
+      const channel = MOOD_CHANNELS.find((candidate) => candidate.id === channelId)
+      if (!channel) {
+        streamRef.current = null
+        return []
+      }
+
+      const { stream, tracks: firstBatch } = takeMoodChannelTracks(
+        createMoodChannelStream(channel, tracks),
+        MOOD_CHANNEL_STREAM_BATCH_SIZE
+      )
+      streamRef.current = stream
+      return firstBatch
+    },
+    [tracks]
+  )
+
+  const { currentTrack, currentIndex, setCurrentIndex } = player
+  const {
+    playbackSource,
+    queue: queuedTracks,
+    autoQueue,
+    manualTrackIds,
+    setQueue,
+    setAutoQueue,
+  } = queue
+
+  useEffect(() => {
+    const stream = streamRef.current
+    if (!stream) return
+    if (playbackSource.type !== "mood-channel" || playbackSource.id !== stream.channelId) return
+    if (!currentTrack || currentIndex < 0) return
+    if (queuedTracks.length - 1 - currentIndex > REFILL_THRESHOLD) return
+
+    // Drop stream tracks that already played; priority tracks stay up front
+    const currentAutoIndex = autoQueue.findIndex((track) => track.id === currentTrack.id)
+    const keptAuto = currentAutoIndex >= 0 ? autoQueue.slice(currentAutoIndex) : autoQueue
+
+    const { stream: nextStream, tracks: batch } = takeMoodChannelTracks(
+      stream,
+      MOOD_CHANNEL_STREAM_BATCH_SIZE,
+      { excludeTrackIds: [...manualTrackIds, ...keptAuto.map((track) => track.id)] }
+    )
+    streamRef.current = nextStream
+    if (batch.length === 0) return
+
+    const manualSet = new Set(manualTrackIds)
+    const nextAuto = [...keptAuto, ...batch]
+    const nextQueue = [...queuedTracks.filter((track) => manualSet.has(track.id)), ...nextAuto]
+
+    setAutoQueue(nextAuto)
+    setQueue(nextQueue)
+    setCurrentIndex(nextQueue.findIndex((track) => track.id === currentTrack.id))
+  }, [
+    playbackSource,
+    currentTrack,
+    currentIndex,
+    queuedTracks,
+    autoQueue,
+    manualTrackIds,
+    setQueue,
+    setAutoQueue,
+    setCurrentIndex,
+  ])
+
+  return { startMoodChannelStream }
+}
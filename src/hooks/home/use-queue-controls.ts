@@ -54,6 +54,8 @@ export interface UseQueueControlsResult {
   toggleQueueVisibility: () => void;
   /** Toggle shuffle mode */
   handleShuffleToggle: () => void;
+  /** Toggle DJ order (harmonic/BPM sequencing of the auto queue) */
+  handleDjOrderToggle: () => void;
   /** Cycle through repeat modes */
   handleRepeatToggle: () => void;
 }
@@ -90,6 +92,7 @@ export function useQueueControls({
     queue,
     collectionTracks,
     searchResults,
+    allTracks,
   });
 
   // Queue synchronization effects
@@ -128,6 +131,7 @@ export function useQueueControls({
     handlePrevious,
     toggleQueueVisibility,
     handleShuffleToggle,
+    handleDjOrderToggle,
     handleRepeatToggle,
   } = useQueueNavigation({
     player,
@@ -154,6 +158,7 @@ export function useQueueControls({
     handlePrevious,
     toggleQueueVisibility,
     handleShuffleToggle,
+    handleDjOrderToggle,
     handleRepeatToggle,
   };
 }
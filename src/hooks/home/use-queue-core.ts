@@ -7,7 +7,12 @@
 
 import { useCallback, useMemo } from "react";
 import { flushSync } from "react-dom";
-import { buildQueue, buildShuffledQueue, filterTracksExcludingManual } from "@/lib/music/queue-builder";
+import {
+  buildQueue,
+  buildShuffledQueue,
+  filterTracksExcludingManual,
+  type SmartPlaylistQueueSource,
+} from "@/lib/music/queue-builder";
 import type { PlayerContextValue, QueueContextValue, Track } from "@/types";
 
 export interface UseQueueCoreOptions {
@@ -15,6 +20,8 @@ export interface UseQueueCoreOptions {
   queue: QueueContextValue;
   collectionTracks: Track[];
   searchResults: Track[];
+  /** Served catalog; manual track IDs resolve against it */
+  allTracks?: Track[];
 }
 
 export interface CommitQueueOptions {
@@ -23,6 +30,10 @@ export interface CommitQueueOptions {
   preserveCurrent?: boolean;
   /** Force synchronous state updates for mobile audio unlock */
   immediatePlay?: boolean;
+  /** Narrow base tracks to a smart playlist's rule matches */
+  smartPlaylist?: SmartPlaylistQueueSource;
+  /** Sequence the auto lane by Camelot key and BPM */
+  djOrder?: boolean;
 }
 
 export type CommitQueueFn = (
@@ -59,6 +70,7 @@ export function useQueueCore({
   queue,
   collectionTracks,
   searchResults,
+  allTracks,
 }: UseQueueCoreOptions): UseQueueCoreResult {
   /**
    * Central queue building and state commit function.
@@ -71,7 +83,10 @@ export function useQueueCore({
       manualIds: string[],
       options?: CommitQueueOptions
     ) => {
-      const result = buildQueue(baseTracks, manualIds, player.currentTrack, options);
+      const result = buildQueue(baseTracks, manualIds, player.currentTrack, {
+        ...options,
+        catalogTracks: allTracks,
+      });
 
       const updateStates = () => {
         // Use shallow array equality to detect order changes (beyond membership)
@@ -123,7 +138,7 @@ export function useQueueCore({
         updateStates();
       }
     },
-    [player, queue]
+    [player, queue, allTracks]
   );
 
   // Filtered collection tracks (excludes manually queued)
@@ -1,11 +1,16 @@
 /**
  * @file use-queue-navigation.ts
  * @description Queue navigation and playback control operations.
- * Handles track selection, next/previous, shuffle, repeat, and smart play.
+ * Handles track selection, next/previous, shuffle, DJ order, repeat, and smart play.
  */
 
 import { useCallback } from "react";
-import { trackQueueAction, trackShuffleToggled, trackRepeatModeChanged } from "@/lib/analytics";
+import {
+  trackDjOrderToggled,
+  trackQueueAction,
+  trackRepeatModeChanged,
+  trackShuffleToggled,
+} from "@/lib/analytics";
 import { logger } from "@/lib/logger";
 import { buildShuffledQueue } from "@/lib/music/queue-builder";
 import { reorderTracksFromAnchor } from "@/lib/music/utils";
@@ -39,6 +44,8 @@ export interface UseQueueNavigationResult {
   toggleQueueVisibility: () => void;
   /** Toggle shuffle mode */
   handleShuffleToggle: () => void;
+  /** Toggle DJ order (Camelot key + BPM sequencing of the auto queue) */
+  handleDjOrderToggle: () => void;
   /** Cycle through repeat modes */
   handleRepeatToggle: () => void;
 
@@ -50,7 +57,7 @@ export interface UseQueueNavigationResult {
  * This hook provides:
  * - Track selection handlers for different contexts (collection, search, queue)
  * - Next/previous navigation with repeat mode awareness
- * - Shuffle toggle with queue rebuild
+ * - Shuffle and DJ order toggles with queue rebuild (the two are mutually exclusive)
  * - Repeat mode cycling (none → track → queue)
  */
 export function useQueueNavigation({
@@ -79,6 +86,7 @@ export function useQueueNavigation({
       // Set queue context to "collection" (not "search")
       // This ensures queue management tracks the current collection view
       queue.setQueueContext("collection");
+      queue.setPlaybackSource({ type: "queue" });
 
       // Use tracksOverride if provided (for hub playback and collection view clicks),
       // otherwise fall back to collectionTracks
@@ -96,6 +104,7 @@ export function useQueueNavigation({
         autoplay: true,
         preserveCurrent: false,
         immediatePlay: true, // Force synchronous state updates for mobile
+        djOrder: queue.isDjOrderEnabled,
       });
     },
     [player, queue, collectionTracks, commitQueue]
@@ -114,11 +123,13 @@ export function useQueueNavigation({
         : reorderTracksFromAnchor(searchResults, track.id);
 
       queue.setQueueContext("search");
+      queue.setPlaybackSource({ type: "queue" });
       commitQueue(baseTracks, queue.manualTrackIds, {
         anchorTrackId: track.id,
         autoplay: true,
         preserveCurrent: false,
         immediatePlay: true, // Force synchronous state updates for mobile
+        djOrder: queue.isDjOrderEnabled,
       });
       try {
         trackQueueAction({ action: "add", trackId: track.id, queueSize: baseTracks.length });
@@ -219,6 +230,9 @@ export function useQueueNavigation({
   const handleShuffleToggle = useCallback(() => {
     const nextShuffleState = !queue.isShuffleEnabled;
     queue.setIsShuffleEnabled(nextShuffleState);
+    if (nextShuffleState && queue.isDjOrderEnabled) {
+      queue.setIsDjOrderEnabled(false);
+    }
 
     const canonical = queue.queueContext === "search" ? filteredSearchResults : collectionTracks;
     const base = nextShuffleState
@@ -238,6 +252,33 @@ export function useQueueNavigation({
     }
   }, [queue, filteredSearchResults, collectionTracks, player, commitQueue]);
 
+  /**
+   * Toggle DJ order and rebuild queue.
+   * Enabling it turns shuffle off; the manual lane is left as-is.
+   */
+  const handleDjOrderToggle = useCallback(() => {
+    const nextDjOrderState = !queue.isDjOrderEnabled;
+    queue.setIsDjOrderEnabled(nextDjOrderState);
+    if (nextDjOrderState && queue.isShuffleEnabled) {
+      queue.setIsShuffleEnabled(false);
+    }
+
+    const canonical = queue.queueContext === "search" ? filteredSearchResults : collectionTracks;
+
+    commitQueue(canonical, queue.manualTrackIds, {
+      anchorTrackId: player.currentTrack?.id,
+      preserveCurrent: true,
+      autoplay: player.shouldPlay,
+      djOrder: nextDjOrderState,
+    });
+
+    try {
+      trackDjOrderToggled(nextDjOrderState);
+    } catch (error) {
+      logger.debug('Analytics: trackDjOrderToggled failed', { error: String(error) })
+    }
+  }, [queue, filteredSearchResults, collectionTracks, player, commitQueue]);
+
   /**
    * Cycle repeat modes: none → track → queue → none
    */
@@ -265,6 +306,7 @@ export function useQueueNavigation({
     handlePrevious,
     toggleQueueVisibility,
     handleShuffleToggle,
+    handleDjOrderToggle,
     handleRepeatToggle,
   };
 }
@@ -66,7 +66,10 @@ export function useQueueSync({
       const base = queue.isShuffleEnabled
         ? buildShuffledQueue(filteredCollectionTracks, undefined, queue.manualTrackIds)
         : filteredCollectionTracks;
-      commitQueue(base, queue.manualTrackIds, { preserveCurrent: true });
+      commitQueue(base, queue.manualTrackIds, {
+        preserveCurrent: true,
+        djOrder: queue.isDjOrderEnabled,
+      });
     }
   }, [
     queue.queueContext,
@@ -74,6 +77,7 @@ export function useQueueSync({
     filteredCollectionIds,
     filteredCollectionTracks,
 	    queue.isShuffleEnabled,
+	    queue.isDjOrderEnabled,
 	    player.currentTrack,
 	    queue.persistenceMetadata?.currentTrackId,
 	    commitQueue,
@@ -100,7 +104,10 @@ export function useQueueSync({
       const base = queue.isShuffleEnabled
         ? buildShuffledQueue(filteredSearchResults, player.currentTrack?.id, queue.manualTrackIds)
         : filteredSearchResults;
-      commitQueue(base, queue.manualTrackIds, { preserveCurrent: true });
+      commitQueue(base, queue.manualTrackIds, {
+        preserveCurrent: true,
+        djOrder: queue.isDjOrderEnabled,
+      });
     }
   }, [
     queue.queueContext,
@@ -109,6 +116,7 @@ export function useQueueSync({
     filteredSearchIds,
     filteredSearchResults,
 	    queue.isShuffleEnabled,
+	    queue.isDjOrderEnabled,
 	    player.currentTrack,
 	    queue.persistenceMetadata?.currentTrackId,
 	    commitQueue,
@@ -1,12 +1,13 @@
 /**
  * MetaDJai Hooks Domain
  *
- * Hooks for AI companion integration, messaging, rate limiting, and streaming.
+ * Hooks for AI companion integration, messaging, rate limiting, quotas, and streaming.
  */
 
 export { useMetaDjAi } from "./use-metadjai"
 export { useMetaDjAiMessages, createMessageId } from "./use-metadjai-messages"
 export { useMetaDjAiRateLimit } from "./use-metadjai-rate-limit"
+export { useMetaDjAiQuota } from "./use-metadjai-quota"
 export { useChatScroll } from "./use-chat-scroll"
 export type { UseChatScrollOptions, UseChatScrollReturn } from "./use-chat-scroll"
 // Stream utilities (not hooks) - import directly if needed:
@@ -5,20 +5,42 @@
  *
  * Manages message state plus session history using server persistence when authenticated,
  * with localStorage fallback + best-effort migration.
+ *
+ * Messages form a tree (edits and regenerations are sibling branches). State
+ * holds every branch; `activePath` is the selected branch, which is what the
+ * chat shows and sends to the model.
  */
 
-import { useCallback, useEffect, useRef, useState } from 'react'
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { logger } from '@/lib/logger'
+import {
+  findBranchLeaf,
+  getActivePath,
+  getMessageBranches,
+  normalizeMessageTree,
+} from '@/lib/metadjai/conversation-tree'
 import { metadjAiHistoryStorage, type MetaDjAiChatSession } from '@/lib/storage/metadjai-history-storage'
 import { metadjAiSessionStorage } from '@/lib/storage/metadjai-session-storage'
-import type { MetaDjAiChatSessionSummary, MetaDjAiMessage } from '@/types/metadjai.types'
+import type { MetaDjAiChatSessionSummary, MetaDjAiMessage, MetaDjAiMessageBranch } from '@/types/metadjai.types'
 
 interface UseMetaDjAiMessagesReturn {
-  /** Current messages array */
+  /** All messages of the session, every branch (creation order) */
   messages: MetaDjAiMessage[]
   /** Ref to current messages (avoids stale closures) */
   messagesRef: React.MutableRefObject<MetaDjAiMessage[]>
+  /** Messages on the selected branch, root first */
+  activePath: MetaDjAiMessage[]
+  /** Branch positions of active-path messages that have siblings */
+  messageBranches: Record<string, MetaDjAiMessageBranch>
+  /** Active path read from refs (for use inside callbacks) */
+  readActivePath: () => MetaDjAiMessage[]
+  /** Select the leaf of the active branch (not persisted) */
+  setActiveLeafId: (messageId: string | null) => void
+  /** Store the selected branch on the server */
+  persistActiveLeaf: (sessionId: string, leafId: string | null) => Promise<void>
+  /** Show the branch containing a message (waits for it if the session is still loading) */
+  switchBranch: (messageId: string) => void
   /** Whether session storage has been loaded */
   hasHydrated: boolean
   /** All stored chat sessions (most recent first) */
@@ -47,6 +69,16 @@ interface UseMetaDjAiMessagesReturn {
   persistMessageUpdate: (sessionId: string, message: MetaDjAiMessage) => Promise<void>
   /** Clear messages for the active session on the server */
   clearSessionMessages: (sessionId: string) => Promise<void>
+  /** Last message of the active session condensed into its summary (null when none) */
+  condensedThroughMessageId: string | null
+  /** Record the summary boundary reported by the chat API */
+  setCondensedThroughMessageId: (sessionId: string, messageId: string | null) => void
+}
+
+interface LoadedSessionMessages {
+  messages: MetaDjAiMessage[]
+  summaryThroughMessageId: string | null
+  activeLeafId: string | null
 }
 
 const DEFAULT_TITLE = 'New conversation'
@@ -75,6 +107,7 @@ const isDefaultTitle = (title: string | null | undefined): boolean => {
 
 const mapMessagePayload = (message: MetaDjAiMessage) => ({
   id: message.id,
+  parentId: message.parentId,
   role: message.role,
   content: message.content,
   createdAt: message.createdAt,
@@ -83,6 +116,8 @@ const mapMessagePayload = (message: MetaDjAiMessage) => ({
   mode: message.mode,
   sources: message.sources,
   toolsUsed: message.toolsUsed,
+  provider: message.provider,
+  model: message.model,
   versions: message.versions,
   currentVersionIndex: message.currentVersionIndex,
   proposal: message.proposal,
@@ -102,13 +137,17 @@ async function fetchSessionsFromApi(): Promise<MetaDjAiChatSessionSummary[] | nu
   }
 }
 
-async function fetchMessagesFromApi(sessionId: string): Promise<MetaDjAiMessage[] | null> {
+async function fetchMessagesFromApi(sessionId: string): Promise<LoadedSessionMessages | null> {
   try {
     const response = await fetch(`/api/metadjai/conversations/${sessionId}/messages?limit=1000`, { cache: 'no-store' })
     if (!response.ok) return null
     const data = await response.json()
     if (data.success && Array.isArray(data.messages)) {
-      return data.messages as MetaDjAiMessage[]
+      return {
+        messages: data.messages as MetaDjAiMessage[],
+        summaryThroughMessageId: typeof data.summaryThroughMessageId === 'string' ? data.summaryThroughMessageId : null,
+        activeLeafId: typeof data.activeLeafId === 'string' ? data.activeLeafId : null,
+      }
     }
     return null
   } catch {
@@ -176,6 +215,19 @@ async function clearMessagesOnApi(sessionId: string): Promise<boolean> {
   }
 }
 
+async function updateActiveLeafOnApi(sessionId: string, activeLeafId: string | null): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/metadjai/conversations/${sessionId}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ activeLeafId }),
+    })
+    return response.ok
+  } catch {
+    return false
+  }
+}
+
 async function updateConversationTitle(sessionId: string, title: string): Promise<boolean> {
   try {
     const response = await fetch(`/api/metadjai/conversations/${sessionId}`, {
@@ -196,7 +248,11 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
   const [sessions, setSessions] = useState<MetaDjAiChatSessionSummary[]>([])
   const [activeSessionId, setActiveSessionId] = useState<string>('')
   const [storageMode, setStorageMode] = useState<'server' | 'local'>('local')
+  const [condensedThrough, setCondensedThrough] = useState<{ sessionId: string; messageId: string } | null>(null)
+  const [activeLeafId, setActiveLeafIdState] = useState<string | null>(null)
   const messagesRef = useRef<MetaDjAiMessage[]>([])
+  const activeLeafIdRef = useRef<string | null>(null)
+  const pendingRevealRef = useRef<string | null>(null)
   const sessionsRef = useRef<MetaDjAiChatSessionSummary[]>([])
   const localSessionsRef = useRef<MetaDjAiChatSession[]>([])
   const pendingCreateRef = useRef<Map<string, Promise<void>>>(new Map())
@@ -215,6 +271,28 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
     activeSessionIdRef.current = id
   }, [])
 
+  const setCondensedThroughMessageId = useCallback((sessionId: string, messageId: string | null) => {
+    setCondensedThrough(messageId ? { sessionId, messageId } : null)
+  }, [])
+
+  const setActiveLeafId = useCallback((messageId: string | null) => {
+    activeLeafIdRef.current = messageId
+    setActiveLeafIdState(messageId)
+  }, [])
+
+  // Replace the session's messages (linking legacy history) and its selected branch
+  const replaceMessages = useCallback((next: MetaDjAiMessage[], leafId: string | null = null) => {
+    const normalized = normalizeMessageTree(next)
+    setMessages(normalized)
+    messagesRef.current = normalized
+    setActiveLeafId(leafId)
+  }, [setActiveLeafId])
+
+  const applyLoadedMessages = useCallback((sessionId: string, loaded: LoadedSessionMessages) => {
+    replaceMessages(loaded.messages, loaded.activeLeafId)
+    setCondensedThroughMessageId(sessionId, loaded.summaryThroughMessageId)
+  }, [replaceMessages, setCondensedThroughMessageId])
+
   const persistActiveSessionId = useCallback((id: string) => {
     if (!id) return
     metadjAiHistoryStorage.saveActiveSessionId(id)
@@ -242,8 +320,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
       setActiveSession(initialSession.id)
       persistActiveSessionId(initialSession.id)
       metadjAiHistoryStorage.saveSessions(nextSessions)
-      setMessages(initialSession.messages)
-      messagesRef.current = initialSession.messages
+      replaceMessages(initialSession.messages)
       setHasHydrated(true)
       return
     }
@@ -260,10 +337,9 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
 
     const activeSession = storedSessions.find((s) => s.id === resolvedActiveId)
     const activeMessages = activeSession?.messages ?? []
-    setMessages(activeMessages)
-    messagesRef.current = activeMessages
+    replaceMessages(activeMessages, activeSession?.activeLeafId ?? null)
     setHasHydrated(true)
-  }, [persistActiveSessionId])
+  }, [persistActiveSessionId, replaceMessages])
 
   const refreshSessions = useCallback(async () => {
     if (!isAuthenticated) {
@@ -278,8 +354,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
       logger.warn('[MetaDJai] Failed to fetch sessions from server')
       setSessions([])
       sessionsRef.current = []
-      setMessages([])
-      messagesRef.current = []
+      replaceMessages([])
       return
     }
     setSessions(apiSessions)
@@ -290,11 +365,10 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
     if (resolvedActiveId) {
       const loadedMessages = await fetchMessagesFromApi(resolvedActiveId)
       if (loadedMessages) {
-        setMessages(loadedMessages)
-        messagesRef.current = loadedMessages
+        applyLoadedMessages(resolvedActiveId, loadedMessages)
       }
     }
-  }, [isAuthenticated, loadLocalSessions, persistActiveSessionId, resolveActiveSessionId])
+  }, [applyLoadedMessages, isAuthenticated, loadLocalSessions, persistActiveSessionId, replaceMessages, resolveActiveSessionId])
 
   const migrateLocalHistory = useCallback(async () => {
     const storedSessions = metadjAiHistoryStorage.loadSessions()
@@ -357,12 +431,10 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
           if (resolvedActiveId) {
             const loadedMessages = await fetchMessagesFromApi(resolvedActiveId)
             if (loadedMessages && !isCancelled) {
-              setMessages(loadedMessages)
-              messagesRef.current = loadedMessages
+              applyLoadedMessages(resolvedActiveId, loadedMessages)
             }
           } else {
-            setMessages([])
-            messagesRef.current = []
+            replaceMessages([])
           }
           setHasHydrated(true)
 
@@ -373,8 +445,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
             if (refreshedActiveId) {
               const refreshedMessages = await fetchMessagesFromApi(refreshedActiveId)
               if (refreshedMessages && !isCancelled) {
-                setMessages(refreshedMessages)
-                messagesRef.current = refreshedMessages
+                applyLoadedMessages(refreshedActiveId, refreshedMessages)
               }
             }
           }
@@ -383,8 +454,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
           logger.warn('[MetaDJai] Failed to load sessions from server for authenticated user')
           setSessions([])
           sessionsRef.current = []
-          setMessages([])
-          messagesRef.current = []
+          replaceMessages([])
           setHasHydrated(true)
         }
         return
@@ -402,12 +472,14 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
       isCancelled = true
     }
   }, [
+    applyLoadedMessages,
     authLoading,
     isAuthenticated,
     loadLocalSessions,
     migrateLocalHistory,
     persistActiveSessionId,
     refreshSessions,
+    replaceMessages,
     resolveActiveSessionId,
   ])
 
@@ -424,6 +496,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
       return {
         ...session,
         messages: nextMessages,
+        activeLeafId: activeLeafId ?? undefined,
         updatedAt: now,
         title: isDefaultTitle(session.title) ? metadjAiHistoryStorage.deriveTitle(nextMessages) : session.title,
       }
@@ -432,7 +505,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
     localSessionsRef.current = nextLocalSessions
     metadjAiHistoryStorage.saveSessions(nextLocalSessions)
     setSessions(nextLocalSessions.map(toLocalSummary))
-  }, [activeSessionId, hasHydrated, messages, storageMode])
+  }, [activeLeafId, activeSessionId, hasHydrated, messages, storageMode])
 
   useEffect(() => {
     if (!hasHydrated || !activeSessionId) return
@@ -451,9 +524,8 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
   )
 
   const clearMessages = useCallback(() => {
-    setMessages([])
-    messagesRef.current = []
-  }, [])
+    replaceMessages([])
+  }, [replaceMessages])
 
   const startNewSession = useCallback((seedMessages: MetaDjAiMessage[] = []) => {
     const now = Date.now()
@@ -469,8 +541,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
 
     setSessions((prev) => [summary, ...prev])
     setActiveSession(id)
-    setMessages(seedMessages)
-    messagesRef.current = seedMessages
+    replaceMessages(seedMessages)
     persistActiveSessionId(id)
 
     if (storageMode === 'local') {
@@ -510,7 +581,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
     pendingCreateRef.current.set(id, creationPromise)
 
     return id
-  }, [persistActiveSessionId, storageMode])
+  }, [persistActiveSessionId, replaceMessages, storageMode])
 
   const ensureSession = useCallback(async (seedMessages: MetaDjAiMessage[] = []) => {
     // Read from ref to avoid stale closures (e.g. when called from
@@ -543,8 +614,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
       const target = localSessionsRef.current.find((s) => s.id === sessionId)
       if (!target) return
       setActiveSession(sessionId)
-      setMessages(target.messages)
-      messagesRef.current = target.messages
+      replaceMessages(target.messages, target.activeLeafId ?? null)
       persistActiveSessionId(sessionId)
       return
     }
@@ -555,10 +625,9 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
     persistActiveSessionId(sessionId)
     fetchMessagesFromApi(sessionId).then((loaded) => {
       if (!loaded) return
-      setMessages(loaded)
-      messagesRef.current = loaded
+      applyLoadedMessages(sessionId, loaded)
     })
-  }, [persistActiveSessionId, storageMode])
+  }, [applyLoadedMessages, persistActiveSessionId, replaceMessages, storageMode])
 
   const deleteSession = useCallback((sessionId: string) => {
     if (storageMode === 'local') {
@@ -570,8 +639,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
         metadjAiHistoryStorage.saveActiveSessionId(fresh.id)
         setSessions([toLocalSummary(fresh)])
         setActiveSession(fresh.id)
-        setMessages([])
-        messagesRef.current = []
+        replaceMessages([])
         return
       }
 
@@ -582,8 +650,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
       if (activeSessionId === sessionId) {
         const fallback = nextLocalSessions[0]
         setActiveSession(fallback.id)
-        setMessages(fallback.messages)
-        messagesRef.current = fallback.messages
+        replaceMessages(fallback.messages, fallback.activeLeafId ?? null)
         metadjAiHistoryStorage.saveActiveSessionId(fallback.id)
       }
 
@@ -601,19 +668,17 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
           if (fallbackId) {
             fetchMessagesFromApi(fallbackId).then((loaded) => {
               if (!loaded) return
-              setMessages(loaded)
-              messagesRef.current = loaded
+              applyLoadedMessages(fallbackId, loaded)
             })
           } else {
-            setMessages([])
-            messagesRef.current = []
+            replaceMessages([])
           }
         }
       })
       .catch((error) => {
         logger.error('[MetaDJai] Failed to delete session', { error: String(error) })
       })
-  }, [activeSessionId, persistActiveSessionId, storageMode])
+  }, [activeSessionId, applyLoadedMessages, persistActiveSessionId, replaceMessages, storageMode])
 
   const persistMessages = useCallback(async (sessionId: string, payload: MetaDjAiMessage[]) => {
     if (storageMode !== 'server' || !isAuthenticated) return
@@ -665,6 +730,44 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
     }
   }, [ensureSession, isAuthenticated, storageMode])
 
+  const persistActiveLeaf = useCallback(async (sessionId: string, leafId: string | null) => {
+    if (storageMode !== 'server' || !isAuthenticated) return
+    const ok = await updateActiveLeafOnApi(sessionId, leafId)
+    if (!ok) {
+      logger.warn('[MetaDJai] Failed to save selected branch')
+    }
+  }, [isAuthenticated, storageMode])
+
+  const switchBranch = useCallback((messageId: string) => {
+    const current = messagesRef.current
+    if (!current.some((message) => message.id === messageId)) {
+      // e.g. a search result in a session that is still loading
+      pendingRevealRef.current = messageId
+      return
+    }
+    pendingRevealRef.current = null
+    if (getActivePath(current, activeLeafIdRef.current).some((message) => message.id === messageId)) return
+
+    const leafId = findBranchLeaf(current, messageId)
+    setActiveLeafId(leafId)
+    const sessionId = activeSessionIdRef.current
+    if (sessionId) {
+      void persistActiveLeaf(sessionId, leafId)
+    }
+  }, [persistActiveLeaf, setActiveLeafId])
+
+  useEffect(() => {
+    const pendingId = pendingRevealRef.current
+    if (pendingId && messages.some((message) => message.id === pendingId)) {
+      switchBranch(pendingId)
+    }
+  }, [messages, switchBranch])
+
+  const readActivePath = useCallback(
+    () => getActivePath(messagesRef.current, activeLeafIdRef.current),
+    []
+  )
+
   const clearSessionMessages = useCallback(async (sessionId: string) => {
     if (storageMode !== 'server' || !isAuthenticated) return
     const ok = await clearMessagesOnApi(sessionId)
@@ -672,6 +775,7 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
       logger.warn('[MetaDJai] Failed to clear messages')
       return
     }
+    setCondensedThroughMessageId(sessionId, null)
     setSessions((prev) =>
       prev.map((session) =>
         session.id === sessionId
@@ -679,11 +783,23 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
           : session
       )
     )
-  }, [isAuthenticated, storageMode])
+  }, [isAuthenticated, setCondensedThroughMessageId, storageMode])
+
+  const condensedThroughMessageId =
+    condensedThrough && condensedThrough.sessionId === activeSessionId ? condensedThrough.messageId : null
+
+  const activePath = useMemo(() => getActivePath(messages, activeLeafId), [messages, activeLeafId])
+  const messageBranches = useMemo(() => getMessageBranches(messages, activePath), [messages, activePath])
 
   return {
     messages,
     messagesRef,
+    activePath,
+    messageBranches,
+    readActivePath,
+    setActiveLeafId,
+    persistActiveLeaf,
+    switchBranch,
     hasHydrated,
     sessions,
     activeSessionId,
@@ -698,6 +814,8 @@ export function useMetaDjAiMessages(): UseMetaDjAiMessagesReturn {
     persistMessages,
     persistMessageUpdate,
     clearSessionMessages,
+    condensedThroughMessageId,
+    setCondensedThroughMessageId,
   }
 }
 
@@ -0,0 +1,47 @@
+"use client"
+
+/**
+ * MetaDJai Quota Hook
+ *
+ * Loads the signed-in user's AI tier and remaining daily/monthly quota for
+ * the chat input meter. Refetches whenever a response finishes streaming so
+ * the meter reflects the usage it just recorded. Guests get null.
+ */
+
+import { useEffect, useRef, useState } from "react"
+import { useAuth } from "@/contexts/AuthContext"
+import { fetchMetaDjAiQuota } from "@/lib/metadjai/quota-remote"
+import type { MetaDjAiQuotaStatus } from "@/types/metadjai.types"
+
+export function useMetaDjAiQuota(isStreaming: boolean): MetaDjAiQuotaStatus | null {
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const [quota, setQuota] = useState<MetaDjAiQuotaStatus | null>(null)
+  const [refreshKey, setRefreshKey] = useState(0)
+  const wasStreamingRef = useRef(isStreaming)
+
+  // Usage is recorded when a response finishes, so refresh on streaming → idle
+  useEffect(() => {
+    if (wasStreamingRef.current && !isStreaming) {
+      setRefreshKey((key) => key + 1)
+    }
+    wasStreamingRef.current = isStreaming
+  }, [isStreaming])
+
+  useEffect(() => {
+    if (!userId) {
+      setQuota(null)
+      return
+    }
+
+    let cancelled = false
+    void fetchMetaDjAiQuota().then((next) => {
+      if (!cancelled) setQuota(next)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [userId, refreshKey])
+
+  return quota
+}
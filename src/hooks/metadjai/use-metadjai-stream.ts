@@ -83,6 +83,10 @@ const KNOWN_TOOL_NAMES = new Set([
   'proposeQueueSet',
   'proposePlaylist',
   'proposeSurface',
+  'proposeCinema',
+  'proposeDream',
+  'proposeWisdom',
+  'proposeSetPlan',
   'web_search',
 ])
 
@@ -14,11 +14,14 @@
  * - Sending messages to MetaDJai API
  * - Streaming responses with fallback
  * - Conversation management (reset, stop)
+ * - Branching: edits and regenerations add sibling branches; only the active
+ *   path is shown and sent to the model
  * - Rate limiting integration
  */
 
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import { mapErrorToUserMessage } from '@/lib/ai/errors'
+import { MAX_MESSAGES_PER_REQUEST } from '@/lib/ai/limits'
 import { MODEL_LABELS } from '@/lib/ai/model-preferences'
 import {
   buildPersonalizationPayload,
@@ -27,6 +30,7 @@ import {
 } from '@/lib/ai/personalization'
 import { OPEN_FEEDBACK_EVENT, type OpenFeedbackEventDetail } from '@/lib/ai/tools/feedback'
 import { logger } from '@/lib/logger'
+import { getMessagePath, removeMessageBranch } from '@/lib/metadjai/conversation-tree'
 import { parseProposal } from '@/lib/metadjai/proposal-schema'
 import { getString, getValue, setString, setValue, STORAGE_KEYS } from '@/lib/storage'
 import { useMetaDjAiMessages, createMessageId } from './use-metadjai-messages'
@@ -68,6 +72,32 @@ interface StreamRequestResult {
   provider?: MetaDjAiProvider
   model?: string
   usedFallback?: boolean
+  /** Summary boundary reported by the server (context compaction) */
+  contextCondensedThroughMessageId?: string
+}
+
+/**
+ * API message history: the condensed boundary turn and the turns after it (the
+ * server holds the summary of everything before), capped at the per-request
+ * limit. The boundary is kept so the server can tell its summary belongs to
+ * this branch.
+ */
+function buildApiMessages(
+  history: MetaDjAiMessage[],
+  condensedThroughMessageId: string | null
+): MetaDjAiApiRequestBody['messages'] {
+  const boundaryIndex = condensedThroughMessageId
+    ? history.findIndex((message) => message.id === condensedThroughMessageId)
+    : -1
+  const recent = boundaryIndex === -1
+    ? history.slice(-MAX_MESSAGES_PER_REQUEST)
+    : [history[boundaryIndex], ...history.slice(boundaryIndex + 1).slice(-(MAX_MESSAGES_PER_REQUEST - 1))]
+  return recent
+    .map((message) => ({
+      id: message.id,
+      role: message.role,
+      content: message.content,
+    }))
 }
 
 function dispatchFeedbackOpen(result?: unknown) {
@@ -86,7 +116,7 @@ function dispatchFeedbackOpen(result?: unknown) {
 
 /**
  * Execute a streaming request to the MetaDJai API
- * This is the shared logic used by both sendMessage and regenerateLastResponse
+ * This is the shared logic used by both submitUserMessage and regenerateLastResponse
  */
 async function executeStreamRequest(config: StreamRequestConfig): Promise<StreamRequestResult> {
   const {
@@ -126,6 +156,7 @@ async function executeStreamRequest(config: StreamRequestConfig): Promise<Stream
     const modelHeader = response.headers.get('X-MetaDJai-Model') ?? undefined
     const usedFallbackHeader = response.headers.get('X-MetaDJai-Used-Fallback')
     const usedFallback = usedFallbackHeader === 'true'
+    const condensedThroughHeader = response.headers.get('X-MetaDJai-Context-Condensed-Through') ?? undefined
     const provider =
       providerHeader === 'openai' ||
       providerHeader === 'anthropic' ||
@@ -168,6 +199,7 @@ async function executeStreamRequest(config: StreamRequestConfig): Promise<Stream
       provider,
       model: modelHeader,
       usedFallback,
+      contextCondensedThroughMessageId: condensedThroughHeader,
     }
   } catch (error) {
     if (controller.signal.aborted) {
@@ -188,7 +220,7 @@ async function executeFallbackRequest(
   extractSources: (text: string) => MetaDjAiMessage['sources'],
   handleToolCall?: (toolName: string) => void,
   handleToolResult?: (toolName: string, result: unknown) => void,
-): Promise<{ provider?: MetaDjAiProvider; model?: string; usedFallback?: boolean }> {
+): Promise<Omit<StreamRequestResult, 'success' | 'hadStreamError'>> {
   const response = await fetch('/api/metadjai', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
@@ -239,6 +271,7 @@ async function executeFallbackRequest(
     provider: data.provider,
     model: data.model,
     usedFallback: data.usedFallback,
+    contextCondensedThroughMessageId: data.contextCondensedThroughMessageId,
   }
 }
 
@@ -275,8 +308,13 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
 
   // Compose sub-hooks
   const {
-    messages,
     messagesRef,
+    activePath,
+    messageBranches,
+    readActivePath,
+    setActiveLeafId,
+    persistActiveLeaf,
+    switchBranch,
     setMessages,
     updateMessages,
     clearMessages,
@@ -287,19 +325,20 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     deleteSession,
     ensureSession,
     persistMessages,
-    persistMessageUpdate,
     clearSessionMessages,
     refreshSessions,
+    condensedThroughMessageId,
+    setCondensedThroughMessageId,
   } = useMetaDjAiMessages()
   const { rateLimit, canSend, recordSend } = useMetaDjAiRateLimit()
 
   // Derive session start time from first message
   const sessionStartedAt = useMemo(() => {
-    const firstMessage = messages.find(
+    const firstMessage = activePath.find(
       (m) => m.kind !== 'mode-switch' && m.kind !== 'model-switch'
     )
     return firstMessage?.createdAt ?? undefined
-  }, [messages])
+  }, [activePath])
 
   const mergedContext: MetaDjAiContext | null = useMemo(
     () => ({
@@ -383,17 +422,19 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       if (!hasConversation) return
 
       const label = options?.labelOverride ?? (MODEL_LABELS[nextProvider] ?? 'GPT')
+      const currentPath = readActivePath()
       const message: MetaDjAiMessage = {
         id: createMessageId(),
         role: 'assistant',
         content: `Model: ${label}`,
         createdAt: Date.now(),
+        parentId: currentPath[currentPath.length - 1]?.id ?? null,
         status: 'complete',
         kind: 'model-switch',
       }
       updateMessages((prev) => [...prev, message])
     },
-    [messagesRef, updateMessages]
+    [messagesRef, readActivePath, updateMessages]
   )
 
   const announceProviderUsage = useCallback(
@@ -418,6 +459,30 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     [appendModelSwitchMessage]
   )
 
+  // Keep the provider/model that answered on the message (shown in exports)
+  const recordResponseModel = useCallback(
+    (messageId: string, info: { provider?: MetaDjAiProvider; model?: string }) => {
+      if (!info.provider && !info.model) return
+      updateMessages((prev) =>
+        prev.map((message) =>
+          message.id === messageId
+            ? { ...message, provider: info.provider, model: info.model }
+            : message
+        )
+      )
+    },
+    [updateMessages]
+  )
+
+  // Remember where the server's conversation summary ends so later requests skip those turns
+  const recordCondensedBoundary = useCallback(
+    (conversationId: string | undefined, messageId: string | undefined) => {
+      if (!conversationId || !messageId) return
+      setCondensedThroughMessageId(conversationId, messageId)
+    },
+    [setCondensedThroughMessageId]
+  )
+
   useEffect(() => {
     if (previousModelPreferenceRef.current === null) {
       previousModelPreferenceRef.current = modelPreference
@@ -429,8 +494,13 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     }
   }, [appendModelSwitchMessage, modelPreference])
 
-  const sendMessage = useCallback(
-    async (input: string) => {
+  /**
+   * Send a user message and stream the reply.
+   * `branchFromId` starts a sibling branch under that parent (edits, retries;
+   * null = a new first turn); by default the message continues the active path.
+   */
+  const submitUserMessage = useCallback(
+    async (input: string, branchFromId?: string | null) => {
       const trimmed = input.trim()
       if (!trimmed || isStreaming) {
         return
@@ -444,19 +514,25 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       // Record the send (increment rate limit counter)
       recordSend()
 
+      // Capture current messages before ensureSession, which may call
+      // startNewSession and overwrite messagesRef.current with seed data
+      const currentMessages = messagesRef.current
+      const currentPath = readActivePath()
+      const isNewBranch = branchFromId !== undefined
+      const history = isNewBranch
+        ? (branchFromId ? getMessagePath(currentMessages, branchFromId) : [])
+        : currentPath
+
       // Create user message
       const userMessage: MetaDjAiMessage = {
         id: createMessageId(),
         role: 'user',
         content: trimmed,
         createdAt: Date.now(),
+        parentId: history[history.length - 1]?.id ?? null,
         status: 'complete',
       }
 
-      // Capture current messages before ensureSession, which may call
-      // startNewSession and overwrite messagesRef.current with seed data
-      const currentMessages = messagesRef.current
-
       const sessionPromise = ensureSession([userMessage])
 
       // Create assistant placeholder
@@ -466,6 +542,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
         role: 'assistant',
         content: '',
         createdAt: Date.now(),
+        parentId: userMessage.id,
         status: 'streaming',
       }
 
@@ -473,6 +550,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       const draftMessages = [...currentMessages, userMessage, assistantPlaceholder]
       setMessages(draftMessages)
       messagesRef.current = draftMessages
+      setActiveLeafId(assistantMessageId)
       setError(null)
       setIsStreaming(true)
 
@@ -485,8 +563,8 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       // Prevents state leakage if previous request was aborted mid-stream
       resetToolCallAccumulator()
 
-      // Sanitize history (remove empty assistant messages)
-      const sanitizedHistory = draftMessages.filter((message) => {
+      // Sanitize the active path (remove empty assistant messages)
+      const sanitizedHistory = [...history, userMessage].filter((message) => {
         if (message.kind === 'mode-switch' || message.kind === 'model-switch') return false
         if (message.role === 'assistant') {
           return message.content.trim().length > 0
@@ -497,10 +575,8 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       // Build API payload
       const requestedProvider = modelPreference
       const payload: MetaDjAiApiRequestBody = {
-        messages: sanitizedHistory.map((message) => ({
-          role: message.role,
-          content: message.content,
-        })),
+        messages: buildApiMessages(sanitizedHistory, condensedThroughMessageId),
+        conversationId: activeSessionId || undefined,
         context: mergedContext,
         modelPreference,
         personalization: personalizationPayload ?? undefined,
@@ -575,6 +651,8 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
           setError,
         })
         announceProviderUsage(streamResult, requestedProvider)
+        recordResponseModel(assistantMessageId, streamResult)
+        recordCondensedBoundary(payload.conversationId, streamResult.contextCondensedThroughMessageId)
 
         const currentMessage = messagesRef.current.find((m) => m.id === assistantMessageId)
         const currentContent = currentMessage?.content ?? ''
@@ -649,6 +727,8 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
             handleToolResult
           )
           announceProviderUsage(fallbackInfo, requestedProvider)
+          recordResponseModel(assistantMessageId, fallbackInfo)
+          recordCondensedBoundary(payload.conversationId, fallbackInfo.contextCondensedThroughMessageId)
           setError(null)
         } catch (fallbackErr) {
           // Check abort again - user may have stopped during fallback
@@ -676,6 +756,10 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
           if (latestAssistant) payload.push(latestAssistant)
           if (sessionId && payload.length > 0) {
             await persistMessages(sessionId, payload)
+            // Continuing the path is found again on load; a new branch is not
+            if (isNewBranch) {
+              await persistActiveLeaf(sessionId, assistantMessageId)
+            }
           }
         } catch (persistError) {
           logger.warn('[MetaDJai] Failed to persist messages', {
@@ -692,14 +776,40 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       canSend,
       recordSend,
       messagesRef,
+      readActivePath,
+      setActiveLeafId,
       setMessages,
       updateMessages,
       announceProviderUsage,
+      recordResponseModel,
+      recordCondensedBoundary,
+      activeSessionId,
+      condensedThroughMessageId,
       ensureSession,
       persistMessages,
+      persistActiveLeaf,
     ]
   )
 
+  const sendMessage = useCallback(
+    (input: string) => submitUserMessage(input),
+    [submitUserMessage]
+  )
+
+  /**
+   * Edit a user message: the edited text and a new reply become a sibling
+   * branch, so the original exchange stays reachable.
+   */
+  const editMessage = useCallback(
+    async (messageId: string, content: string) => {
+      const original = messagesRef.current.find((message) => message.id === messageId)
+      if (!original || original.role !== 'user') return
+      if (!content.trim() || content.trim() === original.content.trim()) return
+      await submitUserMessage(content, original.parentId ?? null)
+    },
+    [messagesRef, submitUserMessage]
+  )
+
   const resetConversation = useCallback(() => {
     requestControllerRef.current?.abort()
     requestControllerRef.current = null
@@ -723,22 +833,23 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
   /**
    * Regenerate the last assistant response
    *
-   * Stores the current response as a version and generates a new one.
-   * Previous versions can be accessed via the version toggle.
+   * The new response is a sibling branch of the current one, so earlier
+   * responses stay reachable through branch navigation.
    */
   const regenerateLastResponse = useCallback(async () => {
     if (isStreaming) return
 
     const currentMessages = messagesRef.current
-    if (currentMessages.length < 2) return
+    const currentPath = readActivePath()
+    if (currentPath.length < 2) return
 
-    // Find the last assistant message
+    // Find the last assistant message on the active path
     let lastAssistantIndex = -1
-    for (let i = currentMessages.length - 1; i >= 0; i--) {
+    for (let i = currentPath.length - 1; i >= 0; i--) {
       if (
-        currentMessages[i]?.role === 'assistant' &&
-        currentMessages[i]?.kind !== 'mode-switch' &&
-        currentMessages[i]?.kind !== 'model-switch'
+        currentPath[i]?.role === 'assistant' &&
+        currentPath[i]?.kind !== 'mode-switch' &&
+        currentPath[i]?.kind !== 'model-switch'
       ) {
         lastAssistantIndex = i
         break
@@ -747,48 +858,29 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
 
     if (lastAssistantIndex === -1) return
 
-    const lastAssistantMessage = currentMessages[lastAssistantIndex]
+    const lastAssistantMessage = currentPath[lastAssistantIndex]
     if (!lastAssistantMessage || !lastAssistantMessage.content.trim()) return
 
-    // Find the last user message
-    let lastUserMessageIndex = -1
-    for (let i = currentMessages.length - 1; i >= 0; i--) {
-      if (currentMessages[i]?.role === 'user') {
-        lastUserMessageIndex = i
-        break
-      }
+    // The new response answers the same turn
+    const parentId = lastAssistantMessage.parentId
+    if (!parentId) return
+    const history = getMessagePath(currentMessages, parentId)
+    if (!history.some((message) => message.role === 'user')) return
+
+    const assistantMessageId = createMessageId()
+    const assistantPlaceholder: MetaDjAiMessage = {
+      id: assistantMessageId,
+      role: 'assistant',
+      content: '',
+      createdAt: Date.now(),
+      parentId,
+      status: 'streaming',
     }
 
-    if (lastUserMessageIndex === -1) return
-
-    const lastUserMessage = currentMessages[lastUserMessageIndex]
-    if (!lastUserMessage) return
-
-    // Store current response as a version
-    const currentVersion = {
-      content: lastAssistantMessage.content,
-      createdAt: lastAssistantMessage.createdAt,
-      toolsUsed: lastAssistantMessage.toolsUsed,
-    }
-    const existingVersions = lastAssistantMessage.versions || []
-    const updatedVersions = [currentVersion, ...existingVersions]
-
-    // Update the assistant message to show it's regenerating
-    const updatedMessages = currentMessages.map((msg, idx) => {
-      if (idx === lastAssistantIndex) {
-        return {
-          ...msg,
-          content: '',
-          status: 'streaming' as const,
-          versions: updatedVersions,
-          currentVersionIndex: 0,
-          toolsUsed: undefined,
-          sources: undefined,
-        }
-      }
-      return msg
-    })
+    const updatedMessages = [...currentMessages, assistantPlaceholder]
     setMessages(updatedMessages)
+    messagesRef.current = updatedMessages
+    setActiveLeafId(assistantMessageId)
     setError(null)
     setIsStreaming(true)
     const sessionPromise = ensureSession()
@@ -796,10 +888,10 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     // Setup abort controller
     const controller = new AbortController()
     requestControllerRef.current = controller
-    streamingMessageIdRef.current = lastAssistantMessage.id
+    streamingMessageIdRef.current = assistantMessageId
 
     // Sanitize history (remove empty assistant + non-chat meta messages)
-    const sanitizedHistory = updatedMessages.filter((message) => {
+    const sanitizedHistory = history.filter((message) => {
       if (message.kind === 'mode-switch' || message.kind === 'model-switch') return false
       if (message.role === 'assistant') {
         return message.content.trim().length > 0
@@ -810,10 +902,8 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     // Build API payload
     const requestedProvider = modelPreference
     const payload: MetaDjAiApiRequestBody = {
-      messages: sanitizedHistory.map((message) => ({
-        role: message.role,
-        content: message.content,
-      })),
+      messages: buildApiMessages(sanitizedHistory, condensedThroughMessageId),
+      conversationId: activeSessionId || undefined,
       context: mergedContext,
       modelPreference,
       personalization: personalizationPayload ?? undefined,
@@ -826,7 +916,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     const appendToAssistant = (chunk: string) => {
       updateMessages((prev) =>
         prev.map((message) =>
-          message.id === lastAssistantMessage.id
+          message.id === assistantMessageId
             ? { ...message, content: message.content + chunk }
             : message
         )
@@ -837,7 +927,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     const markAssistantStatus = (status: MetaDjAiMessage['status']) => {
       updateMessages((prev) =>
         prev.map((message) =>
-          message.id === lastAssistantMessage.id
+          message.id === assistantMessageId
             ? { ...message, status, toolsUsed: toolsUsedSet.size > 0 ? Array.from(toolsUsedSet) : undefined }
             : message
         )
@@ -849,7 +939,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       toolsUsedSet.add(toolName)
       updateMessages((prev) =>
         prev.map((message) =>
-          message.id === lastAssistantMessage.id
+          message.id === assistantMessageId
             ? { ...message, toolsUsed: Array.from(toolsUsedSet) }
             : message
         )
@@ -867,7 +957,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
 
       updateMessages((prev) =>
         prev.map((message) =>
-          message.id === lastAssistantMessage.id
+          message.id === assistantMessageId
             ? { ...message, proposal }
             : message
         )
@@ -879,7 +969,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       const streamResult = await executeStreamRequest({
         payload,
         controller,
-        assistantMessageId: lastAssistantMessage.id,
+        assistantMessageId: assistantMessageId,
         appendToAssistant,
         markAssistantStatus,
         handleToolCall,
@@ -887,8 +977,10 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
         setError,
       })
       announceProviderUsage(streamResult, requestedProvider)
+      recordResponseModel(assistantMessageId, streamResult)
+      recordCondensedBoundary(payload.conversationId, streamResult.contextCondensedThroughMessageId)
 
-      const currentMessage = messagesRef.current.find((m) => m.id === lastAssistantMessage.id)
+      const currentMessage = messagesRef.current.find((m) => m.id === assistantMessageId)
       const currentContent = currentMessage?.content ?? ''
       const normalizedContent = unwrapGeminiStructuredResponse(currentContent)
       const finalContent = normalizedContent ?? currentContent
@@ -897,7 +989,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       if (normalizedContent !== null && normalizedContent !== currentContent) {
         updateMessages((prev) =>
           prev.map((message) =>
-            message.id === lastAssistantMessage.id
+            message.id === assistantMessageId
               ? { ...message, content: finalContent }
               : message
           )
@@ -914,7 +1006,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
         if (!hasMarkdownLinks && !finalContent.includes('Web search was used')) {
           updateMessages((prev) =>
             prev.map((message) =>
-              message.id === lastAssistantMessage.id
+              message.id === assistantMessageId
                 ? {
                     ...message,
                     content:
@@ -940,13 +1032,15 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
         const fallbackInfo = await executeFallbackRequest(
           payload,
           controller,
-          lastAssistantMessage.id,
+          assistantMessageId,
           updateMessages,
           extractSourcesFromMarkdown,
           handleToolCall,
           handleToolResult
         )
         announceProviderUsage(fallbackInfo, requestedProvider)
+        recordResponseModel(assistantMessageId, fallbackInfo)
+        recordCondensedBoundary(payload.conversationId, fallbackInfo.contextCondensedThroughMessageId)
         setError(null)
       } catch (fallbackErr) {
         const userFriendlyError = mapErrorToUserMessage(fallbackErr)
@@ -961,9 +1055,10 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
 
       try {
         const sessionId = await sessionPromise
-        const latestMessage = messagesRef.current.find((m) => m.id === lastAssistantMessage.id)
+        const latestMessage = messagesRef.current.find((m) => m.id === assistantMessageId)
         if (sessionId && latestMessage) {
-          await persistMessageUpdate(sessionId, latestMessage)
+          await persistMessages(sessionId, [latestMessage])
+          await persistActiveLeaf(sessionId, assistantMessageId)
         }
       } catch (persistError) {
         logger.warn('[MetaDJai] Failed to persist regenerated message', {
@@ -977,57 +1072,20 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     personalizationPayload,
     isStreaming,
     messagesRef,
+    readActivePath,
+    setActiveLeafId,
     setMessages,
     updateMessages,
     announceProviderUsage,
+    recordResponseModel,
+    recordCondensedBoundary,
+    activeSessionId,
+    condensedThroughMessageId,
     ensureSession,
-    persistMessageUpdate,
+    persistMessages,
+    persistActiveLeaf,
   ])
 
-  /**
-   * Switch to a different version of a message
-   */
-  const switchMessageVersion = useCallback((messageId: string, versionIndex: number) => {
-    updateMessages((prev) =>
-      prev.map((message) => {
-        if (message.id !== messageId) return message
-
-        const versions = message.versions || []
-        const totalVersions = versions.length + 1 // +1 for current
-
-        if (versionIndex < 0 || versionIndex >= totalVersions) return message
-
-        if (versionIndex === 0) {
-          // Show current (newest) version - already in content
-          return { ...message, currentVersionIndex: 0 }
-        } else {
-          // Show older version from versions array
-          const version = versions[versionIndex - 1]
-          if (!version) return message
-
-          // Swap current content with version content
-          const currentAsVersion = {
-            content: message.content,
-            createdAt: message.createdAt,
-            toolsUsed: message.toolsUsed,
-          }
-
-          const newVersions = [...versions]
-          newVersions[versionIndex - 1] = currentAsVersion
-
-          return {
-            ...message,
-            content: version.content,
-            createdAt: version.createdAt,
-            toolsUsed: version.toolsUsed,
-            versions: newVersions,
-            currentVersionIndex: versionIndex,
-          }
-        }
-      })
-    )
-  }, [updateMessages])
-
   /**
    * Retry the last failed message
    *
@@ -1037,7 +1095,7 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
   const retryLastMessage = useCallback(async () => {
     if (isStreaming) return
 
-    const currentMessages = messagesRef.current
+    const currentMessages = readActivePath()
     if (currentMessages.length === 0) return
 
     // Find last real assistant message (skip mode switch separators)
@@ -1067,22 +1125,21 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     const lastUserMessage = currentMessages[lastUserMessageIndex]
     if (!lastUserMessage) return
 
-    // Remove everything from the last user message onward (failed assistant + any separators after)
-    const messagesBeforeLastUser = currentMessages.slice(0, lastUserMessageIndex)
-    setMessages(messagesBeforeLastUser)
+    // Remove the failed exchange (user message, failed assistant, any separators after)
+    updateMessages((prev) => removeMessageBranch(prev, lastUserMessage.id))
 
     // Clear the error
     setError(null)
 
-    // Re-send the user's message
-    await sendMessage(lastUserMessage.content)
-  }, [isStreaming, messagesRef, setMessages, sendMessage])
+    // Re-send the user's message in the same place
+    await submitUserMessage(lastUserMessage.content, lastUserMessage.parentId ?? null)
+  }, [isStreaming, readActivePath, updateMessages, submitUserMessage])
 
   /**
    * Check if retry is available (last message failed)
    */
   const canRetry = useCallback(() => {
-    const currentMessages = messagesRef.current
+    const currentMessages = readActivePath()
     if (currentMessages.length === 0) return false
     for (let i = currentMessages.length - 1; i >= 0; i--) {
       const msg = currentMessages[i]
@@ -1090,10 +1147,11 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
       return msg.status === 'error'
     }
     return false
-  }, [messagesRef])
+  }, [readActivePath])
 
   return {
-    messages,
+    messages: activePath,
+    messageBranches,
     isLoading: isStreaming,
     isStreaming,
     error,
@@ -1103,7 +1161,8 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     stopStreaming,
     regenerateLastResponse,
     retryLastMessage,
-    switchMessageVersion,
+    switchBranch,
+    editMessage,
     canRetry: canRetry(),
     rateLimit,
     modelPreference,
@@ -1116,5 +1175,6 @@ export function useMetaDjAi(options: UseMetaDjAiOptions = {}) {
     switchSession,
     deleteSession,
     refreshSessions,
+    condensedThroughMessageId,
   }
 }
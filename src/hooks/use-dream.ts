@@ -24,6 +24,7 @@
  * - Warm-up countdown (DREAM_COUNTDOWN_SECONDS) before showing playback
  * - PATCH support detection: automatically disables prompt sync if backend doesn't support it
  * - WHIP retry with exponential backoff on connection failures
+ * - Mock backend support: `mock-whip:` URLs connect to the in-page mock WHIP server
  * - Graceful cleanup on component unmount or explicit stop
  *
  * @module hooks/use-dream
@@ -32,6 +33,7 @@
  */
 
 import { useCallback, useEffect, useRef, useState } from "react"
+import { buildDreamReactivePrompt, getDreamReactiveMixKey } from "@/lib/daydream/audio-reactive"
 import {
   DREAM_COUNTDOWN_SECONDS,
   DREAM_PROMPT_BASE,
@@ -43,6 +45,7 @@ import {
   createStreamPayload,
   createPromptUpdatePayload,
 } from "@/lib/daydream/config"
+import { isMockWhipUrl } from "@/lib/daydream/mock-stream"
 import {
   getErrorMessage,
   getWhipErrorStatus,
@@ -52,12 +55,25 @@ import {
   STARTUP_CONFIG,
 } from "@/lib/daydream/utils"
 import { logger } from "@/lib/logger"
+import { getMockWhipServer } from "@/lib/streaming/mock-whip-server"
 import { WHIPClient } from "@/lib/streaming/whip-client"
-import type { DaydreamStatus, DaydreamStreamCreateRequest, DaydreamStreamResponse } from "@/types/daydream.types"
+import type {
+  DaydreamStatus,
+  DaydreamStreamCreateRequest,
+  DaydreamStreamResponse,
+  DreamReactiveMix,
+} from "@/types/daydream.types"
 
 // Re-export prompt constants
 export { DREAM_PROMPT_BASE, DREAM_PROMPT_DEFAULT, DREAM_PROMPT_DEFAULT_PRESENTATION }
 
+/**
+ * Key identifying a prompt update, so unchanged prompt + reactive mix pairs skip the PATCH.
+ */
+function getDesiredUpdateKey(prompt: string, mix: DreamReactiveMix | null): string {
+  return mix ? `${prompt}\n${getDreamReactiveMixKey(mix)}` : prompt
+}
+
 /**
  * Configuration options for the useDream hook.
  */
@@ -66,6 +82,8 @@ interface UseDreamOptions {
   getCaptureStream: () => Promise<MediaStream | null>
   /** AI generation prompt. Falls back to DREAM_PROMPT_DEFAULT if empty. */
   prompt?: string
+  /** Audio-reactive mix blended onto the prompt (weighted accents + seed). Null = plain prompt. */
+  reactiveMix?: DreamReactiveMix | null
   /** Callback invoked when the WebGL context is lost (e.g., tab backgrounded). */
   onContextLost?: () => void
   /** Master enable flag. When false, the hook remains idle. */
@@ -96,8 +114,9 @@ interface UseDreamOptions {
  * })
  * ```
  */
-export function useDream({ getCaptureStream, prompt, onContextLost, enabled = false }: UseDreamOptions) {
+export function useDream({ getCaptureStream, prompt, reactiveMix = null, onContextLost, enabled = false }: UseDreamOptions) {
   const resolvedPrompt = prompt?.trim() || DREAM_PROMPT_DEFAULT
+  const reactiveMixKey = reactiveMix ? getDreamReactiveMixKey(reactiveMix) : null
 
   const resolvedPromptRef = useRef(resolvedPrompt)
   const [status, setStatus] = useState<DaydreamStatus>({ status: "idle" })
@@ -117,7 +136,13 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
   const whipRetryAttemptRef = useRef(0)
   // Guard to suppress noisy WHIP close/failed events during intentional stop
   const stoppingRef = useRef(false)
+  // Key of the last applied update: the prompt, plus the reactive mix key when one was sent
   const appliedPromptRef = useRef<string | null>(null)
+  const reactiveMixRef = useRef<DreamReactiveMix | null>(reactiveMix)
+  // Whether the applied update carried a reactive seed (restored to the stream seed when reactive stops)
+  const reactiveAppliedRef = useRef(false)
+  // When the last PATCH was sent, for PATCH_CONFIG.MIN_INTERVAL_MS spacing
+  const lastPatchAtRef = useRef(0)
   // When the user explicitly requests a re-sync (e.g. re-roll same prompt),
   // store the prompt string to bypass equality checks until a successful PATCH.
   const forcedPromptRef = useRef<string | null>(null)
@@ -377,9 +402,11 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
         return
       }
 
-      const proxiedWhip = `/api/daydream/streams/${encodeURIComponent(streamId)}/whip?resource=${encodeURIComponent(
-        whipUrl,
-      )}`
+      // Mock streams (DAYDREAM_BACKEND=mock) are answered by the in-page mock WHIP server
+      const isMockWhip = isMockWhipUrl(whipUrl)
+      const proxiedWhip = isMockWhip
+        ? whipUrl
+        : `/api/daydream/streams/${encodeURIComponent(streamId)}/whip?resource=${encodeURIComponent(whipUrl)}`
 
       // Log stream details to help debug WHIP issues
       const videoTracks = captureStream.getVideoTracks()
@@ -470,13 +497,14 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
       const client = new WHIPClient({
         whipUrl: proxiedWhip,
         stream: captureStream,
-        iceServers: [{ urls: "stun:stun.l.google.com:19302" }],
+        iceServers: isMockWhip ? [] : [{ urls: "stun:stun.l.google.com:19302" }],
         iceTransportPolicy: "all",
         connectionTimeout: 45000,
         iceGatheringTimeout: 20000,
         // Livepeer's WHIP endpoint may return 405 to trickle ICE PATCH requests.
         // Daydream docs work without trickle ICE, so we default to a single full offer.
         enableTrickleICE: false,
+        fetch: isMockWhip ? getMockWhipServer().handle : undefined,
       })
 
       client.onConnectionStateChange((state) => {
@@ -700,6 +728,7 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
     // New sessions should start with a clean prompt-sync state.
     clearPromptSync()
     appliedPromptRef.current = null
+    reactiveAppliedRef.current = false
     setPatchSupported(null) // Reset - we'll find out if PATCH works after the stream starts
     patchSupportedRef.current = null
 
@@ -926,15 +955,32 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
         logger.debug("[Dream] syncPrompt: no desired prompt")
         return
       }
+      const desiredMix = reactiveMixRef.current
+      const desiredKey = getDesiredUpdateKey(desiredPrompt, desiredMix)
       // Skip equality check when force is true or a force-sync is queued for this prompt.
       const shouldForce = force || forcedPromptRef.current === desiredPrompt
-      if (!shouldForce && appliedPromptRef.current === desiredPrompt) {
-        logger.debug("[Dream] syncPrompt: already applied", { desiredPrompt })
+      if (!shouldForce && appliedPromptRef.current === desiredKey) {
+        logger.debug("[Dream] syncPrompt: already applied", { desiredKey })
         return
       }
 
-      logger.debug("[Dream] syncPrompt: sending PATCH", { desiredPrompt, appliedPrompt: appliedPromptRef.current })
+      // Space PATCHes by MIN_INTERVAL_MS; the deferred call sends whatever is current then.
+      const throttleRemainingMs = lastPatchAtRef.current + PATCH_CONFIG.MIN_INTERVAL_MS - Date.now()
+      if (throttleRemainingMs > 0) {
+        logger.debug("[Dream] syncPrompt: throttled", { throttleRemainingMs })
+        if (promptSyncTimeoutRef.current) {
+          clearTimeout(promptSyncTimeoutRef.current)
+        }
+        promptSyncTimeoutRef.current = setTimeout(() => {
+          promptSyncTimeoutRef.current = null
+          void syncPrompt(streamId, force)
+        }, throttleRemainingMs)
+        return
+      }
+
+      logger.debug("[Dream] syncPrompt: sending PATCH", { desiredKey, appliedPrompt: appliedPromptRef.current })
       promptSyncInFlightRef.current = true
+      lastPatchAtRef.current = Date.now()
       let shouldRetry = false
       let retryDelayMs: number | null = null
       let isWarmupRetry = false // Track "not ready" 404s separately - they're expected, not failures
@@ -943,11 +989,19 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
       try {
         // Send only dynamic parameters to avoid triggering pipeline reload (~30s).
         // Per Daydream docs, prompt/guidance_scale/delta can be updated without reload.
-        const paramsPayload = createPromptUpdatePayload(
-          desiredPrompt,
-          undefined,
-          streamModelIdRef.current,
-        )
+        // Reactive mixes send a weighted prompt list and their seed; after reactive
+        // stops, the stream seed is sent once to undo the last reactive seed.
+        const paramsPayload = desiredMix
+          ? createPromptUpdatePayload(
+            buildDreamReactivePrompt(desiredPrompt, desiredMix),
+            desiredMix.seed,
+            streamModelIdRef.current,
+          )
+          : createPromptUpdatePayload(
+            desiredPrompt,
+            reactiveAppliedRef.current ? DEFAULT_STREAM_PAYLOAD.params.seed : undefined,
+            streamModelIdRef.current,
+          )
 
         const controller = new AbortController()
         timeoutId = setTimeout(() => controller.abort(), PATCH_CONFIG.TIMEOUT_MS)
@@ -964,12 +1018,16 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
           if (stoppingRef.current || latestStatus.streamId !== streamId) {
             return
           }
-          appliedPromptRef.current = desiredPrompt
+          appliedPromptRef.current = desiredKey
+          reactiveAppliedRef.current = desiredMix !== null
           setPatchSupported(true) // PATCH is working!
           clearPromptSync()
 
-          const latestDesired = resolvedPromptRef.current.trim() || DREAM_PROMPT_DEFAULT
-          if (latestDesired !== desiredPrompt) {
+          const latestDesired = getDesiredUpdateKey(
+            resolvedPromptRef.current.trim() || DREAM_PROMPT_DEFAULT,
+            reactiveMixRef.current,
+          )
+          if (latestDesired !== desiredKey) {
             // Prompt changed while PATCH was in-flight; immediately sync again
             promptSyncAttemptRef.current = 0
             queueMicrotask(() => {
@@ -1101,6 +1159,7 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
     // UPDATE REFS FIRST - eliminates race condition with syncPrompt reading stale values
     // Both refs must be current before syncPrompt reads them
     resolvedPromptRef.current = resolvedPrompt
+    reactiveMixRef.current = reactiveMix
     statusRef.current = status
     if (lastResolvedPromptRef.current !== resolvedPrompt) {
       lastResolvedPromptRef.current = resolvedPrompt
@@ -1113,6 +1172,7 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
     if (status.status !== "connecting" && status.status !== "streaming") {
       clearPromptSync()
       appliedPromptRef.current = null
+      reactiveAppliedRef.current = false
       return
     }
 
@@ -1128,7 +1188,7 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
       void syncPrompt(streamId)
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [resolvedPrompt, status.status, status.streamId, overlayReady, clearPromptSync, syncPrompt])
+  }, [resolvedPrompt, reactiveMixKey, status.status, status.streamId, overlayReady, clearPromptSync, syncPrompt])
 
   const stopDream = useCallback(async () => {
     logger.debug('[Dream] stopDream called')
@@ -1142,6 +1202,7 @@ export function useDream({ getCaptureStream, prompt, onContextLost, enabled = fa
     clearPromptSync()
     appliedPromptRef.current = null
     forcedPromptRef.current = null
+    reactiveAppliedRef.current = false
 
     // Immediately reset status to idle FIRST to hide the iframe
     // This ensures the UI updates even if cleanup takes time
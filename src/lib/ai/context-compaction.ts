@@ -0,0 +1,130 @@
+/**
+ * Conversation Context Compaction
+ *
+ * Pure core of long-chat compaction: decides when a conversation's history
+ * has outgrown its budget, splits it into older turns (to summarize) and
+ * recent turns (sent verbatim), and builds the summarization prompt.
+ *
+ * The running summary lives in `conversations.summary`; the last summarized
+ * message is `conversations.summary_through_message_id`. Orchestration is in
+ * `conversation-summary.ts` (server-only).
+ *
+ * @module lib/ai/context-compaction
+ */
+
+import { MAX_CONVERSATION_SUMMARY_LENGTH, MAX_MESSAGE_HISTORY } from '@/lib/ai/limits'
+import { SYSTEM_PROMPT_TOKEN_BUDGET, estimateTokenCount } from '@/lib/ai/meta-dj-ai-prompt'
+import type { MetaDjAiApiMessage } from '@/types/metadjai.types'
+
+/** Token budget for verbatim message history (twice the system prompt budget) */
+export const CONVERSATION_HISTORY_TOKEN_BUDGET = SYSTEM_PROMPT_TOKEN_BUDGET.TARGET_MAX_TOKENS * 2
+/** Messages kept verbatim after compaction (3 turns) */
+export const COMPACTION_KEEP_RECENT_MESSAGES = 6
+/** Per-message character budget in the summarization transcript */
+const TRANSCRIPT_MESSAGE_MAX_CHARS = 2000
+
+export interface CompactionSplit {
+  /** Turns to fold into the summary */
+  older: MetaDjAiApiMessage[]
+  /** Turns still sent verbatim */
+  recent: MetaDjAiApiMessage[]
+  /** ID of the last summarized message (the new boundary) */
+  throughMessageId: string
+}
+
+export function estimateMessagesTokens(messages: MetaDjAiApiMessage[]): number {
+  return messages.reduce((total, message) => total + estimateTokenCount(message.content), 0)
+}
+
+/**
+ * Messages after the summary boundary.
+ * When the boundary isn't in the list, the client already dropped the
+ * summarized turns, so every message is still pending.
+ */
+export function dropSummarizedMessages(
+  messages: MetaDjAiApiMessage[],
+  summaryThroughMessageId: string | null | undefined
+): MetaDjAiApiMessage[] {
+  if (!summaryThroughMessageId) return messages
+  const boundaryIndex = messages.findIndex((message) => message.id === summaryThroughMessageId)
+  return boundaryIndex >= 0 ? messages.slice(boundaryIndex + 1) : messages
+}
+
+/**
+ * True once history would be truncated (more than MAX_MESSAGE_HISTORY
+ * messages) or nears the token budget.
+ */
+export function shouldCompactConversation(
+  messages: MetaDjAiApiMessage[],
+  budget: number = CONVERSATION_HISTORY_TOKEN_BUDGET
+): boolean {
+  if (messages.length > MAX_MESSAGE_HISTORY) return true
+  return estimateMessagesTokens(messages) >= budget * SYSTEM_PROMPT_TOKEN_BUDGET.WARNING_THRESHOLD
+}
+
+/**
+ * Split history into turns to summarize and turns to keep.
+ * Keeps up to `keepRecent` messages within half the budget (always at least
+ * the latest message). Returns null when there is nothing to summarize or
+ * the boundary message has no ID.
+ */
+export function splitForCompaction(
+  messages: MetaDjAiApiMessage[],
+  options: { keepRecent?: number; budget?: number } = {}
+): CompactionSplit | null {
+  const keepRecent = Math.max(1, options.keepRecent ?? COMPACTION_KEEP_RECENT_MESSAGES)
+  const recentBudget = (options.budget ?? CONVERSATION_HISTORY_TOKEN_BUDGET) / 2
+
+  let splitIndex = Math.max(0, messages.length - keepRecent)
+  while (
+    splitIndex < messages.length - 1 &&
+    estimateMessagesTokens(messages.slice(splitIndex)) > recentBudget
+  ) {
+    splitIndex += 1
+  }
+
+  // Start the kept window on a user turn so it doesn't open mid-exchange
+  while (splitIndex < messages.length - 1 && messages[splitIndex].role !== 'user') {
+    splitIndex += 1
+  }
+
+  const older = messages.slice(0, splitIndex)
+  const throughMessageId = older[older.length - 1]?.id
+  if (older.length === 0 || !throughMessageId) return null
+
+  return { older, recent: messages.slice(splitIndex), throughMessageId }
+}
+
+/**
+ * System prompt for the summarization model
+ */
+export function buildCompactionInstructions(): string {
+  return `You condense the earlier part of a conversation between a user and MetaDJai (an AI creative companion with DJ instincts) so it can continue without the full transcript.
+Write a compact running summary in plain prose or short bullets, max ${MAX_CONVERSATION_SUMMARY_LENGTH} characters:
+- The user's goals, projects, and open questions
+- Decisions made, recommendations given, and music or content discussed (keep names exact)
+- Preferences or constraints the user stated
+- Anything MetaDJai promised to follow up on
+Fold the previous summary in; drop small talk and anything superseded. Output only the summary.`
+}
+
+/**
+ * Prompt with the previous summary and the turns to fold in
+ */
+export function buildCompactionPrompt(previousSummary: string | null, older: MetaDjAiApiMessage[]): string {
+  const transcript = older
+    .map((message) => {
+      const speaker = message.role === 'user' ? 'User' : 'MetaDJai'
+      return `${speaker}: ${message.content.trim().slice(0, TRANSCRIPT_MESSAGE_MAX_CHARS)}`
+    })
+    .join('\n\n')
+
+  return `Previous summary:\n${previousSummary?.trim() || '(none)'}\n\nNew turns to fold in:\n${transcript}`
+}
+
+export function normalizeConversationSummary(summary: string): string {
+  const trimmed = summary.trim()
+  return trimmed.length > MAX_CONVERSATION_SUMMARY_LENGTH
+    ? `${trimmed.slice(0, MAX_CONVERSATION_SUMMARY_LENGTH - 1).trimEnd()}…`
+    : trimmed
+}
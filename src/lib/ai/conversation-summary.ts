@@ -0,0 +1,139 @@
+/**
+ * MetaDJai Conversation Summary
+ *
+ * Compacts long conversations before a chat request. Turns before the stored
+ * boundary are replaced by `conversations.summary`; once the remaining
+ * history nears its budget, the older turns are folded into a fresh summary
+ * and only the recent turns are sent verbatim.
+ *
+ * Compaction is best-effort: guests, unknown conversations, and failures fall
+ * back to the history as sent (which `sanitizeMessages` then truncates).
+ *
+ * @module lib/ai/conversation-summary
+ */
+
+import 'server-only'
+import { generateText } from 'ai'
+import { getAIRequestTimeout } from '@/lib/ai/config'
+import {
+  buildCompactionInstructions,
+  buildCompactionPrompt,
+  dropSummarizedMessages,
+  normalizeConversationSummary,
+  shouldCompactConversation,
+  splitForCompaction,
+} from '@/lib/ai/context-compaction'
+import { estimateCost, getModel, getModelInfo } from '@/lib/ai/providers'
+import { recordUserAiUsage } from '@/lib/ai/quota-tracking'
+import { isSpendingAllowed, recordSpending } from '@/lib/ai/spending-alerts'
+import { recordBackgroundAiRequest } from '@/lib/ai/usage-recording'
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth'
+import { logger } from '@/lib/logger'
+import { getConversationById, setConversationSummary } from '../../../server/storage'
+import type { MetaDjAiApiMessage } from '@/types/metadjai.types'
+
+export interface CompactedHistory {
+  /** Messages to send verbatim */
+  messages: MetaDjAiApiMessage[]
+  /** Summary of everything before `messages` (null when nothing was condensed) */
+  summary: string | null
+  /** Last message folded into `summary` */
+  summaryThroughMessageId: string | null
+  /** True when this request produced a new summary */
+  compacted: boolean
+}
+
+function passthrough(messages: MetaDjAiApiMessage[]): CompactedHistory {
+  return { messages, summary: null, summaryThroughMessageId: null, compacted: false }
+}
+
+/**
+ * Apply the stored summary to `messages` and compact further when needed.
+ * Never throws.
+ */
+export async function compactConversationHistory(
+  conversationId: string | undefined,
+  messages: MetaDjAiApiMessage[]
+): Promise<CompactedHistory> {
+  if (!conversationId || isE2EAuthBypassEnabled()) return passthrough(messages)
+
+  let current: CompactedHistory = passthrough(messages)
+
+  try {
+    const session = await getSession()
+    if (!session) return current
+
+    const conversation = await getConversationById(conversationId)
+    if (!conversation || conversation.userId !== session.id || conversation.deletedAt) return current
+
+    // The summary covers one branch: apply it only when this history runs through its boundary
+    const boundaryId = conversation.summaryThroughMessageId
+    if (conversation.summary && boundaryId && messages.some((message) => message.id === boundaryId)) {
+      current = {
+        messages: dropSummarizedMessages(messages, boundaryId),
+        summary: conversation.summary,
+        summaryThroughMessageId: boundaryId,
+        compacted: false,
+      }
+    }
+
+    if (!shouldCompactConversation(current.messages)) return current
+    const split = splitForCompaction(current.messages)
+    if (!split || !(await isSpendingAllowed())) return current
+
+    const modelInfo = getModelInfo()
+    const ledgerCall = {
+      userId: session.id,
+      provider: modelInfo.provider,
+      model: modelInfo.model,
+      startedAt: Date.now(),
+    }
+    const result = await generateText({
+      model: getModel(),
+      system: buildCompactionInstructions(),
+      prompt: buildCompactionPrompt(current.summary, split.older),
+      temperature: 0,
+      abortSignal: AbortSignal.timeout(getAIRequestTimeout('summary')),
+    }).catch(async (error: unknown) => {
+      await recordBackgroundAiRequest('compaction', { ...ledgerCall, error })
+      throw error
+    })
+
+    // Tokens are spent whether or not the summary is usable; they count
+    // against the requesting user's quota like their chat turns
+    const { inputTokens, outputTokens } = result.usage
+    let costUsd: number | undefined
+    if (inputTokens !== undefined && outputTokens !== undefined) {
+      costUsd = estimateCost(modelInfo.model, inputTokens, outputTokens)
+      if (costUsd > 0) {
+        await recordSpending({ costUsd, provider: modelInfo.provider, model: modelInfo.model })
+      }
+      await recordUserAiUsage(session.id, { inputTokens, outputTokens, costUsd })
+    }
+    await recordBackgroundAiRequest('compaction', { ...ledgerCall, usage: result.usage, costUsd })
+
+    const summary = normalizeConversationSummary(result.text)
+    if (!summary) return current
+
+    await setConversationSummary(conversationId, summary, split.throughMessageId)
+
+    logger.info('[Compaction] Conversation condensed', {
+      conversationId,
+      condensed: split.older.length,
+      kept: split.recent.length,
+    })
+
+    return {
+      messages: split.recent,
+      summary,
+      summaryThroughMessageId: split.throughMessageId,
+      compacted: true,
+    }
+  } catch (error) {
+    logger.warn('[Compaction] Failed to compact conversation', {
+      conversationId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return current
+  }
+}
@@ -24,6 +24,12 @@ const ERROR_MAPPINGS: ErrorMapping[] = [
     userMessage: "Request took too long. Hit send again to retry—your message wasn't lost.",
   },
 
+  // Per-user quota (checked before rate limiting so the reset hint isn't lost)
+  {
+    pattern: /allowance/i,
+    userMessage: "You've used your MetaDJai allowance for now. The meter under the input shows when it resets.",
+  },
+
   // Rate limiting
   {
     pattern: /rate limit|too many requests|429/i,
@@ -0,0 +1,160 @@
+/**
+ * Knowledge Vector Index
+ *
+ * Persists knowledge chunk embeddings in Postgres (`knowledge_chunks`).
+ * On sync, only chunks whose content hash changed (or that are new) are
+ * re-embedded; chunks removed from the source content are deleted. The
+ * stored vectors are then held in memory for query-time cosine similarity.
+ *
+ * Without an OpenAI key or database, vector scores are empty and retrieval
+ * falls back to BM25 alone.
+ *
+ * @module lib/ai/knowledge-index
+ */
+
+import 'server-only'
+import { createOpenAI } from '@ai-sdk/openai'
+import { cosineSimilarity, embed, embedMany } from 'ai'
+import { getServerEnv } from '@/lib/env'
+import { logger } from '@/lib/logger'
+import {
+  deleteKnowledgeChunksExcept,
+  getKnowledgeChunkEmbeddings,
+  getKnowledgeChunkHashes,
+  upsertKnowledgeChunks,
+} from '../../../server/storage'
+import type { KnowledgeChunk } from '@/lib/ai/knowledge-retrieval'
+
+export const KNOWLEDGE_EMBEDDING_MODEL_ID = 'text-embedding-3-small'
+/** Chunks per embedding request */
+const EMBED_BATCH_SIZE = 64
+/** Wait before retrying a failed sync (embedding API or database outage) */
+const SYNC_RETRY_BACKOFF_MS = 60_000
+
+let vectorCache: Map<string, number[]> | null = null
+let syncPromise: Promise<Map<string, number[]>> | null = null
+/** Until this time, a failed sync is not retried and callers get no vectors */
+let syncRetryAt = 0
+
+function createEmbeddingsOpenAIClient(): ReturnType<typeof createOpenAI> | null {
+  try {
+    const env = getServerEnv()
+    if (env.OPENAI_API_KEY) {
+      return createOpenAI({ apiKey: env.OPENAI_API_KEY })
+    }
+  } catch {
+    // ignore
+  }
+
+  return null
+}
+
+function buildEmbeddingText(chunk: KnowledgeChunk): string {
+  return `${chunk.title}\n\n${chunk.text}`
+}
+
+async function runSync(chunks: KnowledgeChunk[]): Promise<Map<string, number[]>> {
+  const openaiClient = createEmbeddingsOpenAIClient()
+  if (!openaiClient) return new Map()
+
+  const model = openaiClient.embedding(KNOWLEDGE_EMBEDDING_MODEL_ID)
+  const storedHashes = new Map(
+    (await getKnowledgeChunkHashes(KNOWLEDGE_EMBEDDING_MODEL_ID)).map((row) => [row.id, row.contentHash])
+  )
+  const changed = chunks.filter((chunk) => storedHashes.get(chunk.id) !== chunk.contentHash)
+
+  for (let start = 0; start < changed.length; start += EMBED_BATCH_SIZE) {
+    const batch = changed.slice(start, start + EMBED_BATCH_SIZE)
+    const { embeddings } = await embedMany({ model, values: batch.map(buildEmbeddingText) })
+    await upsertKnowledgeChunks(
+      batch.map((chunk, index) => ({
+        id: chunk.id,
+        sourceType: chunk.sourceType,
+        category: chunk.category,
+        entryId: chunk.citation.entryId,
+        title: chunk.title,
+        content: chunk.text,
+        contentHash: chunk.contentHash,
+        embeddingModel: KNOWLEDGE_EMBEDDING_MODEL_ID,
+        embedding: embeddings[index] ?? [],
+      }))
+    )
+  }
+
+  const removed = await deleteKnowledgeChunksExcept(chunks.map((chunk) => chunk.id))
+  const stored = await getKnowledgeChunkEmbeddings(KNOWLEDGE_EMBEDDING_MODEL_ID)
+
+  logger.info('[Knowledge] Vector index synced', {
+    chunks: chunks.length,
+    embedded: changed.length,
+    removed,
+  })
+
+  return new Map(stored.map((row) => [row.id, row.embedding]))
+}
+
+/**
+ * Bring the stored index in line with `chunks` and load its vectors.
+ * Idempotent: later calls reuse the loaded vectors. A failed sync is not
+ * cached; callers get an empty map (BM25 only) and the sync is retried once
+ * the backoff has passed.
+ */
+export async function syncKnowledgeIndex(chunks: KnowledgeChunk[]): Promise<Map<string, number[]>> {
+  if (vectorCache) return vectorCache
+  if (syncPromise) return syncPromise
+  if (Date.now() < syncRetryAt) return new Map()
+
+  syncPromise = (async () => {
+    try {
+      vectorCache = await runSync(chunks)
+      syncRetryAt = 0
+      return vectorCache
+    } catch (error) {
+      syncRetryAt = Date.now() + SYNC_RETRY_BACKOFF_MS
+      logger.warn('[Knowledge] Vector index unavailable; falling back to BM25', {
+        error: error instanceof Error ? error.message : String(error),
+        retryInMs: SYNC_RETRY_BACKOFF_MS,
+      })
+      return new Map<string, number[]>()
+    } finally {
+      syncPromise = null
+    }
+  })()
+
+  return syncPromise
+}
+
+/**
+ * Cosine similarity between the query and each of `chunks` that has a vector
+ * (from `syncKnowledgeIndex`, which must see the full chunk set).
+ * Empty when no vectors are available or the query can't be embedded.
+ */
+export async function getKnowledgeVectorScores(
+  vectors: Map<string, number[]>,
+  chunks: KnowledgeChunk[],
+  query: string
+): Promise<Map<string, number>> {
+  const scores = new Map<string, number>()
+  if (vectors.size === 0) return scores
+
+  const openaiClient = createEmbeddingsOpenAIClient()
+  if (!openaiClient) return scores
+
+  try {
+    const { embedding: queryEmbedding } = await embed({
+      model: openaiClient.embedding(KNOWLEDGE_EMBEDDING_MODEL_ID),
+      value: query,
+    })
+    for (const chunk of chunks) {
+      const vector = vectors.get(chunk.id)
+      if (!vector || vector.length === 0) continue
+      scores.set(chunk.id, cosineSimilarity(queryEmbedding, vector))
+    }
+  } catch (error) {
+    logger.warn('[Knowledge] Query embedding failed; using BM25 only', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+
+  return scores
+}
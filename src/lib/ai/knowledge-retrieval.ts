@@ -0,0 +1,363 @@
+/**
+ * Knowledge Retrieval
+ *
+ * Pure retrieval core behind `getZuberantContext`: chunks the knowledge base
+ * and Wisdom content, ranks chunks with BM25, and fuses BM25 with vector
+ * similarity into one hybrid score. Results carry citations back to entry IDs
+ * (and Wisdom deep links).
+ *
+ * Embedding storage lives in `knowledge-index.ts` (server-only).
+ *
+ * @module lib/ai/knowledge-retrieval
+ */
+
+import { createHash } from 'crypto'
+import { buildWisdomDeepLinkPath, type WisdomSection } from '@/lib/wisdom/deeplink'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TYPES
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface KnowledgeEntry {
+  id: string
+  title: string
+  content: string
+  keywords: string[]
+  synonyms?: string[]
+}
+
+export interface KnowledgeCategory {
+  category: string
+  title: string
+  description: string
+  entries: KnowledgeEntry[]
+}
+
+/** Wisdom content in the shape of `wisdom-content.json` */
+export interface WisdomKnowledgeSource {
+  thoughtsPosts: Array<{ id: string; title: string; excerpt: string; topics?: string[]; content: string[] }>
+  guides: Array<{ id: string; title: string; excerpt: string; topics?: string[]; sections: WisdomKnowledgeSection[] }>
+  reflections: Array<{ id: string; title: string; excerpt: string; topics?: string[]; sections: WisdomKnowledgeSection[] }>
+}
+
+interface WisdomKnowledgeSection {
+  heading: string
+  paragraphs: string[]
+}
+
+export interface KnowledgeCitation {
+  /** Knowledge entry ID or Wisdom item ID */
+  entryId: string
+  title: string
+  category: string
+  /** Wisdom deep link (Wisdom content only) */
+  href?: string
+}
+
+export interface KnowledgeChunk {
+  /** Stable chunk ID: `<category>:<entryId>:<n>` */
+  id: string
+  sourceType: 'knowledge' | 'wisdom'
+  category: string
+  title: string
+  text: string
+  /** Extra search terms (keywords, synonyms, topics) */
+  terms: string[]
+  citation: KnowledgeCitation
+  /** Hash of everything that feeds the embedding; changes trigger re-embedding */
+  contentHash: string
+}
+
+export interface RankedKnowledgeChunk {
+  chunk: KnowledgeChunk
+  score: number
+  bm25: number
+  vector: number
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CHUNKING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Upper bound on chunk text; longer entries split on paragraph boundaries */
+export const KNOWLEDGE_CHUNK_MAX_CHARS = 1200
+
+/**
+ * Pack paragraphs into chunks of at most `maxChars`.
+ * A single oversized paragraph is split on sentence boundaries.
+ */
+export function splitIntoChunks(paragraphs: string[], maxChars: number = KNOWLEDGE_CHUNK_MAX_CHARS): string[] {
+  const pieces = paragraphs
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) =>
+      paragraph.length <= maxChars ? [paragraph] : paragraph.split(/(?<=[.!?])\s+/)
+    )
+
+  const chunks: string[] = []
+  let current = ''
+  for (const piece of pieces) {
+    const next = current ? `${current}\n\n${piece}` : piece
+    if (current && next.length > maxChars) {
+      chunks.push(current)
+      current = piece
+    } else {
+      current = next
+    }
+  }
+  if (current) chunks.push(current)
+
+  // Sentences longer than the limit are hard-wrapped
+  return chunks.flatMap((chunk) => {
+    if (chunk.length <= maxChars) return [chunk]
+    const parts: string[] = []
+    for (let start = 0; start < chunk.length; start += maxChars) {
+      parts.push(chunk.slice(start, start + maxChars))
+    }
+    return parts
+  })
+}
+
+export function hashKnowledgeContent(title: string, text: string): string {
+  return createHash('sha256').update(`${title}\n\n${text}`).digest('hex').slice(0, 32)
+}
+
+function createChunks(
+  base: Omit<KnowledgeChunk, 'id' | 'text' | 'contentHash'>,
+  paragraphs: string[]
+): KnowledgeChunk[] {
+  return splitIntoChunks(paragraphs).map((text, index) => ({
+    ...base,
+    id: `${base.category}:${base.citation.entryId}:${index}`,
+    text,
+    contentHash: hashKnowledgeContent(base.title, text),
+  }))
+}
+
+function sectionParagraphs(sections: WisdomKnowledgeSection[]): string[] {
+  return sections.flatMap((section) =>
+    section.paragraphs.map((paragraph, index) => (index === 0 ? `${section.heading}: ${paragraph}` : paragraph))
+  )
+}
+
+/**
+ * Chunk knowledge categories and Wisdom content into retrievable units
+ */
+export function buildKnowledgeChunks(
+  categories: KnowledgeCategory[],
+  wisdom?: WisdomKnowledgeSource
+): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = []
+
+  for (const category of categories) {
+    for (const entry of category.entries) {
+      chunks.push(
+        ...createChunks(
+          {
+            sourceType: 'knowledge',
+            category: category.category,
+            title: entry.title,
+            terms: [...entry.keywords, ...(entry.synonyms ?? [])],
+            citation: { entryId: entry.id, title: entry.title, category: category.category },
+          },
+          entry.content.split(/\n{2,}/)
+        )
+      )
+    }
+  }
+
+  if (!wisdom) return chunks
+
+  const wisdomItems: Array<{
+    section: WisdomSection
+    id: string
+    title: string
+    topics?: string[]
+    paragraphs: string[]
+  }> = [
+    ...wisdom.thoughtsPosts.map((post) => ({
+      section: 'thoughts' as const,
+      id: post.id,
+      title: post.title,
+      topics: post.topics,
+      paragraphs: [post.excerpt, ...post.content],
+    })),
+    ...wisdom.guides.map((guide) => ({
+      section: 'guides' as const,
+      id: guide.id,
+      title: guide.title,
+      topics: guide.topics,
+      paragraphs: [guide.excerpt, ...sectionParagraphs(guide.sections)],
+    })),
+    ...wisdom.reflections.map((reflection) => ({
+      section: 'reflections' as const,
+      id: reflection.id,
+      title: reflection.title,
+      topics: reflection.topics,
+      paragraphs: [reflection.excerpt, ...sectionParagraphs(reflection.sections)],
+    })),
+  ]
+
+  for (const item of wisdomItems) {
+    chunks.push(
+      ...createChunks(
+        {
+          sourceType: 'wisdom',
+          category: 'wisdom',
+          title: item.title,
+          terms: item.topics ?? [],
+          citation: {
+            entryId: item.id,
+            title: item.title,
+            category: 'wisdom',
+            href: buildWisdomDeepLinkPath(item.section, item.id),
+          },
+        },
+        item.paragraphs
+      )
+    )
+  }
+
+  return chunks
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// BM25
+// ─────────────────────────────────────────────────────────────────────────────
+
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+/** Titles and terms count this many times in the indexed text */
+const TITLE_BOOST = 3
+const TERM_BOOST = 2
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'with', 'this', 'that', 'from',
+  'what', 'who', 'how', 'why', 'when', 'where', 'which', 'does', 'did', 'was', 'were', 'has',
+  'have', 'had', 'about', 'into', 'can', 'tell', 'its', 'their', 'they', 'them', 'our', 'out',
+])
+
+/**
+ * Lowercase word tokens (3+ characters, stopwords removed)
+ */
+export function tokenizeForSearch(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 2 && !STOPWORDS.has(token))
+}
+
+export interface Bm25Index {
+  termFrequencies: Map<string, Map<string, number>>
+  documentFrequencies: Map<string, number>
+  lengths: Map<string, number>
+  averageLength: number
+  documentCount: number
+}
+
+function repeat<T>(values: T[], times: number): T[] {
+  return Array.from({ length: times }, () => values).flat()
+}
+
+export function buildBm25Index(chunks: KnowledgeChunk[]): Bm25Index {
+  const termFrequencies = new Map<string, Map<string, number>>()
+  const documentFrequencies = new Map<string, number>()
+  const lengths = new Map<string, number>()
+  let totalLength = 0
+
+  for (const chunk of chunks) {
+    const tokens = [
+      ...repeat(tokenizeForSearch(chunk.title), TITLE_BOOST),
+      ...repeat(tokenizeForSearch(chunk.terms.join(' ')), TERM_BOOST),
+      ...tokenizeForSearch(chunk.text),
+    ]
+    const frequencies = new Map<string, number>()
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1)
+    }
+    for (const token of frequencies.keys()) {
+      documentFrequencies.set(token, (documentFrequencies.get(token) ?? 0) + 1)
+    }
+    termFrequencies.set(chunk.id, frequencies)
+    lengths.set(chunk.id, tokens.length)
+    totalLength += tokens.length
+  }
+
+  return {
+    termFrequencies,
+    documentFrequencies,
+    lengths,
+    averageLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+    documentCount: chunks.length,
+  }
+}
+
+/**
+ * BM25 score per chunk ID (only chunks that share a query term)
+ */
+export function scoreBm25(index: Bm25Index, query: string): Map<string, number> {
+  const scores = new Map<string, number>()
+  const queryTerms = [...new Set(tokenizeForSearch(query))]
+  if (queryTerms.length === 0 || index.documentCount === 0) return scores
+
+  for (const term of queryTerms) {
+    const documentFrequency = index.documentFrequencies.get(term)
+    if (!documentFrequency) continue
+    const idf = Math.log(1 + (index.documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5))
+
+    for (const [chunkId, frequencies] of index.termFrequencies) {
+      const frequency = frequencies.get(term)
+      if (!frequency) continue
+      const length = index.lengths.get(chunkId) ?? 0
+      const normalization = BM25_K1 * (1 - BM25_B + BM25_B * (length / (index.averageLength || 1)))
+      const termScore = idf * ((frequency * (BM25_K1 + 1)) / (frequency + normalization))
+      scores.set(chunkId, (scores.get(chunkId) ?? 0) + termScore)
+    }
+  }
+
+  return scores
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// HYBRID RANKING
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Share of the hybrid score taken by vector similarity (when vectors exist) */
+export const HYBRID_VECTOR_WEIGHT = 0.5
+/** Vector-only matches need at least this cosine similarity */
+export const VECTOR_MIN_SIMILARITY = 0.3
+
+/**
+ * Fuse BM25 (normalized to the best hit) with cosine similarity.
+ * Keeps the best chunk per cited entry so results map 1:1 to citations.
+ */
+export function rankKnowledgeChunks(
+  chunks: KnowledgeChunk[],
+  bm25Scores: Map<string, number>,
+  vectorScores: Map<string, number>,
+  options: { limit?: number; vectorWeight?: number } = {}
+): RankedKnowledgeChunk[] {
+  const vectorWeight = vectorScores.size > 0 ? options.vectorWeight ?? HYBRID_VECTOR_WEIGHT : 0
+  const maxBm25 = Math.max(0, ...bm25Scores.values())
+  const bestByEntry = new Map<string, RankedKnowledgeChunk>()
+
+  for (const chunk of chunks) {
+    const bm25 = bm25Scores.get(chunk.id) ?? 0
+    const vector = Math.max(0, vectorScores.get(chunk.id) ?? 0)
+    if (bm25 <= 0 && vector < VECTOR_MIN_SIMILARITY) continue
+
+    const normalizedBm25 = maxBm25 > 0 ? bm25 / maxBm25 : 0
+    const score = (1 - vectorWeight) * normalizedBm25 + vectorWeight * vector
+    const entryKey = `${chunk.category}:${chunk.citation.entryId}`
+    const existing = bestByEntry.get(entryKey)
+    if (!existing || score > existing.score) {
+      bestByEntry.set(entryKey, { chunk, score, bm25, vector })
+    }
+  }
+
+  return [...bestByEntry.values()]
+    .sort((a, b) => b.score - a.score || a.chunk.id.localeCompare(b.chunk.id))
+    .slice(0, Math.max(0, options.limit ?? 5))
+}
@@ -52,6 +52,14 @@ export const MAX_MESSAGE_CONTENT_LENGTH = 16000;
  */
 export const MAX_MESSAGE_HISTORY = 12;
 
+/**
+ * Maximum length of a conversation's compacted summary (characters)
+ *
+ * Rationale: ~600 tokens keeps the gist of long chats (goals, decisions,
+ * music discussed) without crowding out the recent turns sent verbatim.
+ */
+export const MAX_CONVERSATION_SUMMARY_LENGTH = 2400;
+
 // ─────────────────────────────────────────────────────────────────────────────
 // PERSONALIZATION LIMITS
 // ─────────────────────────────────────────────────────────────────────────────
@@ -0,0 +1,200 @@
+/**
+ * MetaDJai Long-Term Memory
+ *
+ * Pure core of cross-conversation memory: the extraction schema and prompt,
+ * merging extracted candidates into a user's stored memories, and picking
+ * which memories to recall into the system instructions.
+ *
+ * Extraction and storage live in `memory-extraction.ts` (server-only).
+ *
+ * @module lib/ai/memories
+ */
+
+import { z } from 'zod'
+import type { MetaDjAiMemory, MetaDjAiMemoryCategory } from '@/types/metadjai.types'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CONSTANTS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const AI_MEMORY_CATEGORIES = [
+  'favorite-music',
+  'creative-project',
+  'preferred-tone',
+  'interest',
+  'background',
+] as const satisfies readonly MetaDjAiMemoryCategory[]
+
+export const AI_MEMORY_CATEGORY_LABELS: Record<MetaDjAiMemoryCategory, string> = {
+  'favorite-music': 'Favorite music',
+  'creative-project': 'Creative project',
+  'preferred-tone': 'Preferred tone',
+  interest: 'Interest',
+  background: 'About you',
+}
+
+/** Only one memory per category is kept for these (newer replaces older) */
+const SINGLE_MEMORY_CATEGORIES = new Set<MetaDjAiMemoryCategory>(['preferred-tone'])
+
+/** Stored memories per user; the least recently updated are dropped beyond this */
+export const MAX_AI_MEMORIES_PER_USER = 40
+/** Memories recalled into one conversation */
+export const MAX_RECALLED_AI_MEMORIES = 20
+export const MAX_AI_MEMORY_LENGTH = 200
+/** New messages a conversation needs before extraction runs */
+export const MEMORY_EXTRACTION_MIN_MESSAGES = 4
+/** Most recent messages read per extraction */
+export const MEMORY_EXTRACTION_MAX_MESSAGES = 30
+/** Per-message character budget in the extraction transcript */
+const TRANSCRIPT_MESSAGE_MAX_CHARS = 1000
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EXTRACTION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const memoryExtractionSchema = z.object({
+  memories: z
+    .array(
+      z.object({
+        category: z.enum(AI_MEMORY_CATEGORIES),
+        content: z.string().min(1),
+        /** ID of an existing memory this one corrects or supersedes */
+        replacesId: z.string().nullable(),
+      })
+    )
+    .max(10),
+})
+
+export type MemoryCandidate = z.infer<typeof memoryExtractionSchema>['memories'][number]
+
+export interface MemoryTranscriptMessage {
+  role: string
+  content: string
+}
+
+/**
+ * System prompt for the extraction model
+ */
+export function buildMemoryExtractionInstructions(existing: Pick<MetaDjAiMemory, 'id' | 'category' | 'content'>[]): string {
+  const known = existing.length > 0
+    ? existing.map((memory) => `- [${memory.id}] (${memory.category}) ${memory.content}`).join('\n')
+    : '- (none yet)'
+
+  return `You maintain MetaDJai's long-term memory of one user.
+Read the conversation and return only NEW durable facts about the user that will still matter in future conversations:
+- favorite-music: collections, tracks, genres, or artists they love
+- creative-project: what they're making or working towards
+- preferred-tone: how they like MetaDJai to talk to them
+- interest: lasting interests and topics they care about
+- background: stable facts about them (role, craft, setup)
+
+Rules:
+- Write each memory as one short third-person statement ("Loves the Majestic Ascent collection"), max ${MAX_AI_MEMORY_LENGTH} characters.
+- Only use what the USER said or clearly confirmed. Ignore the assistant's suggestions, one-off requests, and moods of the moment.
+- Never store secrets, contact details, health, or other sensitive personal data.
+- Skip anything already known. If a fact corrects or updates a known memory, set replacesId to that memory's ID; otherwise null.
+- Return an empty list when nothing is worth remembering.
+
+Known memories:
+${known}`
+}
+
+/**
+ * Plain-text transcript of the latest messages for the extraction model
+ */
+export function buildMemoryTranscript(messages: MemoryTranscriptMessage[]): string {
+  return messages
+    .filter((message) => (message.role === 'user' || message.role === 'assistant') && message.content.trim())
+    .slice(-MEMORY_EXTRACTION_MAX_MESSAGES)
+    .map((message) => {
+      const speaker = message.role === 'user' ? 'User' : 'MetaDJai'
+      return `${speaker}: ${message.content.trim().slice(0, TRANSCRIPT_MESSAGE_MAX_CHARS)}`
+    })
+    .join('\n\n')
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// MERGING
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface MemoryChangePlan {
+  create: Array<{ category: MetaDjAiMemoryCategory; content: string }>
+  update: Array<{ id: string; category: MetaDjAiMemoryCategory; content: string }>
+  deleteIds: string[]
+}
+
+export function normalizeMemoryContent(content: string): string {
+  const collapsed = content.replace(/\s+/g, ' ').trim()
+  return collapsed.length > MAX_AI_MEMORY_LENGTH
+    ? `${collapsed.slice(0, MAX_AI_MEMORY_LENGTH - 1).trimEnd()}…`
+    : collapsed
+}
+
+function memoryKey(content: string): string {
+  return content.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Decide how extracted candidates change the stored memories:
+ * duplicates are dropped, `replacesId` (and single-memory categories) update
+ * in place, and the least recently updated memories are deleted once the
+ * user is over `maxMemories`.
+ */
+export function planMemoryChanges(
+  existing: Pick<MetaDjAiMemory, 'id' | 'category' | 'content' | 'updatedAt'>[],
+  candidates: MemoryCandidate[],
+  maxMemories: number = MAX_AI_MEMORIES_PER_USER
+): MemoryChangePlan {
+  const plan: MemoryChangePlan = { create: [], update: [], deleteIds: [] }
+  const existingById = new Map(existing.map((memory) => [memory.id, memory]))
+  const seenKeys = new Set(existing.map((memory) => memoryKey(memory.content)))
+  const updatedIds = new Set<string>()
+
+  for (const candidate of candidates) {
+    const content = normalizeMemoryContent(candidate.content)
+    const key = memoryKey(content)
+    if (!key || seenKeys.has(key)) continue
+
+    const target =
+      (candidate.replacesId ? existingById.get(candidate.replacesId) : undefined) ??
+      (SINGLE_MEMORY_CATEGORIES.has(candidate.category)
+        ? existing.find((memory) => memory.category === candidate.category)
+        : undefined)
+
+    if (target) {
+      if (updatedIds.has(target.id)) continue
+      updatedIds.add(target.id)
+      plan.update.push({ id: target.id, category: candidate.category, content })
+    } else {
+      const isSingle = SINGLE_MEMORY_CATEGORIES.has(candidate.category)
+      if (isSingle && plan.create.some((memory) => memory.category === candidate.category)) continue
+      plan.create.push({ category: candidate.category, content })
+    }
+    seenKeys.add(key)
+  }
+
+  const overflow = existing.length + plan.create.length - maxMemories
+  if (overflow > 0) {
+    plan.deleteIds = existing
+      .filter((memory) => !updatedIds.has(memory.id))
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, overflow)
+      .map((memory) => memory.id)
+  }
+
+  return plan
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// RECALL
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Memories to recall into a conversation: most recently updated first
+ */
+export function selectMemoriesForRecall<T extends Pick<MetaDjAiMemory, 'updatedAt'>>(
+  memories: T[],
+  limit: number = MAX_RECALLED_AI_MEMORIES
+): T[] {
+  return [...memories].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, Math.max(0, limit))
+}
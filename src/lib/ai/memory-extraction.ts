@@ -0,0 +1,163 @@
+/**
+ * MetaDJai Memory Extraction
+ *
+ * Turns finished conversation turns into long-term memories. Once a
+ * conversation has collected `MEMORY_EXTRACTION_MIN_MESSAGES` new messages,
+ * the default model reads them (plus what it already knows) and returns new
+ * durable facts, which are merged into `ai_memories`.
+ *
+ * Recall is best-effort: guests and database failures simply get no memories.
+ *
+ * @module lib/ai/memory-extraction
+ */
+
+import 'server-only'
+import { generateText, Output } from 'ai'
+import { getAIRequestTimeout } from '@/lib/ai/config'
+import {
+  MEMORY_EXTRACTION_MAX_MESSAGES,
+  MEMORY_EXTRACTION_MIN_MESSAGES,
+  buildMemoryExtractionInstructions,
+  buildMemoryTranscript,
+  memoryExtractionSchema,
+  planMemoryChanges,
+  selectMemoriesForRecall,
+} from '@/lib/ai/memories'
+import { estimateCost, getModel, getModelInfo } from '@/lib/ai/providers'
+import { recordUserAiUsage } from '@/lib/ai/quota-tracking'
+import { isSpendingAllowed, recordSpending } from '@/lib/ai/spending-alerts'
+import { recordBackgroundAiRequest } from '@/lib/ai/usage-recording'
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth'
+import { logger } from '@/lib/logger'
+import {
+  applyAiMemoryChanges,
+  getConversationById,
+  getMessagesSince,
+  getUserAiMemories,
+  markConversationMemoriesExtracted,
+} from '../../../server/storage'
+import type { AiMemoryRecord } from '../../../shared/schema'
+import type { MetaDjAiMemory, MetaDjAiMemoryCategory } from '@/types/metadjai.types'
+
+/** Conversations with an extraction in flight (one at a time per conversation) */
+const inFlight = new Set<string>()
+
+function toMemory(record: AiMemoryRecord): MetaDjAiMemory {
+  return {
+    id: record.id,
+    category: record.category as MetaDjAiMemoryCategory,
+    content: record.content,
+    sourceConversationId: record.sourceConversationId,
+    createdAt: record.createdAt.getTime(),
+    updatedAt: record.updatedAt.getTime(),
+  }
+}
+
+export async function getUserMemories(userId: string): Promise<MetaDjAiMemory[]> {
+  const records = await getUserAiMemories(userId)
+  return records.map(toMemory)
+}
+
+/**
+ * Memories to recall for the signed-in user, or null for guests.
+ * Database failures resolve to null so chat is never blocked.
+ */
+export async function getSessionMemoriesForRecall(): Promise<MetaDjAiMemory[] | null> {
+  if (isE2EAuthBypassEnabled()) return null
+
+  try {
+    const session = await getSession()
+    if (!session) return null
+    return selectMemoriesForRecall(await getUserMemories(session.id))
+  } catch (error) {
+    logger.warn('[Memory] Failed to load memories', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return null
+  }
+}
+
+/**
+ * Extract memories from a conversation's messages since the last extraction.
+ * Returns the number of memories created or updated.
+ */
+export async function extractConversationMemories(conversationId: string, userId: string): Promise<number> {
+  const conversation = await getConversationById(conversationId)
+  if (!conversation || conversation.userId !== userId || conversation.deletedAt) return 0
+
+  const newMessages = await getMessagesSince(
+    conversationId,
+    conversation.memoriesExtractedAt,
+    MEMORY_EXTRACTION_MAX_MESSAGES
+  )
+  const hasReply = newMessages.some((message) => message.role === 'assistant')
+  if (newMessages.length < MEMORY_EXTRACTION_MIN_MESSAGES || !hasReply) return 0
+  if (!(await isSpendingAllowed())) return 0
+
+  const extractedAt = newMessages[newMessages.length - 1].createdAt
+  const existing = await getUserMemories(userId)
+  const modelInfo = getModelInfo()
+  const ledgerCall = {
+    userId,
+    provider: modelInfo.provider,
+    model: modelInfo.model,
+    startedAt: Date.now(),
+  }
+
+  const result = await generateText({
+    model: getModel(),
+    system: buildMemoryExtractionInstructions(existing),
+    prompt: buildMemoryTranscript(newMessages),
+    output: Output.object({ schema: memoryExtractionSchema }),
+    temperature: 0,
+    abortSignal: AbortSignal.timeout(getAIRequestTimeout('memory')),
+  }).catch(async (error: unknown) => {
+    await recordBackgroundAiRequest('memory', { ...ledgerCall, error })
+    throw error
+  })
+
+  // Extraction runs on the user's behalf, so it is billed to their quota
+  const { inputTokens, outputTokens } = result.usage
+  let costUsd: number | undefined
+  if (inputTokens !== undefined && outputTokens !== undefined) {
+    costUsd = estimateCost(modelInfo.model, inputTokens, outputTokens)
+    if (costUsd > 0) {
+      await recordSpending({ costUsd, provider: modelInfo.provider, model: modelInfo.model })
+    }
+    await recordUserAiUsage(userId, { inputTokens, outputTokens, costUsd })
+  }
+  await recordBackgroundAiRequest('memory', { ...ledgerCall, usage: result.usage, costUsd })
+
+  const plan = planMemoryChanges(existing, result.output.memories)
+  await applyAiMemoryChanges(userId, conversationId, plan)
+  await markConversationMemoriesExtracted(conversationId, extractedAt)
+
+  const changed = plan.create.length + plan.update.length
+  logger.info('[Memory] Extracted memories', {
+    conversationId,
+    created: plan.create.length,
+    updated: plan.update.length,
+    pruned: plan.deleteIds.length,
+  })
+  return changed
+}
+
+/**
+ * Run extraction in the background; never throws.
+ * Calls while the same conversation is already being processed are skipped.
+ */
+export function scheduleMemoryExtraction(conversationId: string, userId: string): void {
+  if (inFlight.has(conversationId)) return
+  inFlight.add(conversationId)
+
+  void extractConversationMemories(conversationId, userId)
+    .catch((error) => {
+      logger.warn('[Memory] Extraction failed', {
+        conversationId,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    })
+    .finally(() => {
+      inFlight.delete(conversationId)
+    })
+}
@@ -0,0 +1,100 @@
+/**
+ * MetaDJai Quota Tracking
+ *
+ * Loads a signed-in user's entitlement and usage, enforces their quota
+ * before AI requests, and rolls token/cost usage into `ai_usage_daily`.
+ *
+ * Enforcement fails open: database errors are logged and the request runs,
+ * with the global spending caps in `spending-alerts.ts` as the backstop.
+ *
+ * @module lib/ai/quota-tracking
+ */
+
+import 'server-only'
+import {
+  evaluateAiQuota,
+  getAiQuotaDayKey,
+  getAiQuotaMonthStartKey,
+  resolveAiQuotaLimits,
+  summarizeAiUsage,
+  type AiQuotaOverride,
+} from '@/lib/ai/quotas'
+import { getSession, isE2EAuthBypassEnabled } from '@/lib/auth'
+import { logger } from '@/lib/logger'
+import {
+  getAiEntitlement,
+  getAiUsageDaysSince,
+  incrementAiUsageDaily,
+} from '../../../server/storage'
+import type { AiEntitlementRecord } from '../../../shared/schema'
+import type { MetaDjAiQuotaStatus, MetaDjAiQuotaTier } from '@/types/metadjai.types'
+
+export function toAiQuotaOverride(record: AiEntitlementRecord | null): AiQuotaOverride | null {
+  if (!record) return null
+  return {
+    tier: record.tier as MetaDjAiQuotaTier,
+    limits: {
+      dailyTokens: record.dailyTokenLimit,
+      monthlyTokens: record.monthlyTokenLimit,
+      dailyCostUsd: record.dailyCostLimitUsd,
+      monthlyCostUsd: record.monthlyCostLimitUsd,
+    },
+  }
+}
+
+/**
+ * A user's current quota status
+ */
+export async function getUserAiQuotaStatus(userId: string, isAdmin: boolean): Promise<MetaDjAiQuotaStatus> {
+  const now = new Date()
+  const [entitlement, days] = await Promise.all([
+    getAiEntitlement(userId),
+    getAiUsageDaysSince(userId, getAiQuotaMonthStartKey(now)),
+  ])
+  const override = toAiQuotaOverride(entitlement)
+  const { tier, limits } = resolveAiQuotaLimits(isAdmin, override)
+
+  return evaluateAiQuota(tier, limits, summarizeAiUsage(days, now), {
+    hasOverride: Boolean(override),
+    now,
+  })
+}
+
+/**
+ * Quota for the signed-in user, or null for guests (and when quota lookup fails)
+ */
+export async function getSessionAiQuota(): Promise<{ userId: string; status: MetaDjAiQuotaStatus } | null> {
+  if (isE2EAuthBypassEnabled()) return null
+
+  try {
+    const session = await getSession()
+    if (!session) return null
+    return { userId: session.id, status: await getUserAiQuotaStatus(session.id, session.isAdmin) }
+  } catch (error) {
+    logger.warn('[AI Quota] Failed to load quota', {
+      error: error instanceof Error ? error.message : String(error),
+    })
+    return null
+  }
+}
+
+/**
+ * Add a finished request's usage to the user's daily total; never throws
+ */
+export async function recordUserAiUsage(
+  userId: string,
+  usage: { inputTokens?: number; outputTokens?: number; costUsd?: number }
+): Promise<void> {
+  try {
+    await incrementAiUsageDaily(userId, getAiQuotaDayKey(), {
+      inputTokens: usage.inputTokens ?? 0,
+      outputTokens: usage.outputTokens ?? 0,
+      costUsd: usage.costUsd ?? 0,
+    })
+  } catch (error) {
+    logger.warn('[AI Quota] Failed to record usage', {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
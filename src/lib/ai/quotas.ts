@@ -0,0 +1,262 @@
+/**
+ * MetaDJai Per-User Quotas
+ *
+ * Pure core of per-user AI entitlements: plan tiers and their daily/monthly
+ * token and cost limits, admin overrides, and evaluating a user's usage
+ * against them. Windows are UTC days and UTC months.
+ *
+ * Storage and enforcement live in `quota-tracking.ts` (server-only). Guests
+ * are not covered here; they stay on the session/IP rate limiter.
+ *
+ * @module lib/ai/quotas
+ */
+
+import { z } from 'zod'
+import type {
+  MetaDjAiQuotaLimits,
+  MetaDjAiQuotaStatus,
+  MetaDjAiQuotaTier,
+  MetaDjAiQuotaWindow,
+} from '@/types/metadjai.types'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// TIERS
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const AI_QUOTA_TIERS = ['free', 'supporter', 'unlimited'] as const satisfies readonly MetaDjAiQuotaTier[]
+
+export const AI_QUOTA_TIER_LABELS: Record<MetaDjAiQuotaTier, string> = {
+  free: 'Free',
+  supporter: 'Supporter',
+  unlimited: 'Unlimited',
+}
+
+export const AI_QUOTA_TIER_LIMITS: Record<MetaDjAiQuotaTier, MetaDjAiQuotaLimits> = {
+  free: {
+    dailyTokens: 60_000,
+    monthlyTokens: 600_000,
+    dailyCostUsd: 0.1,
+    monthlyCostUsd: 1,
+  },
+  supporter: {
+    dailyTokens: 300_000,
+    monthlyTokens: 4_000_000,
+    dailyCostUsd: 0.5,
+    monthlyCostUsd: 6,
+  },
+  unlimited: {
+    dailyTokens: null,
+    monthlyTokens: null,
+    dailyCostUsd: null,
+    monthlyCostUsd: null,
+  },
+}
+
+/** Share of a quota left when the chat input starts warning */
+export const AI_QUOTA_LOW_FRACTION = 0.2
+
+// ─────────────────────────────────────────────────────────────────────────────
+// OVERRIDES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * An admin override: a tier plus optional custom limits.
+ * A null custom limit falls back to the tier's limit.
+ */
+export interface AiQuotaOverride {
+  tier: MetaDjAiQuotaTier
+  limits: MetaDjAiQuotaLimits
+}
+
+const tokenLimitSchema = z.number().int().min(0).max(1_000_000_000).nullable()
+const costLimitSchema = z.number().min(0).max(10_000).nullable()
+
+export const aiQuotaOverrideSchema = z.object({
+  tier: z.enum(AI_QUOTA_TIERS),
+  limits: z
+    .object({
+      dailyTokens: tokenLimitSchema.default(null),
+      monthlyTokens: tokenLimitSchema.default(null),
+      dailyCostUsd: costLimitSchema.default(null),
+      monthlyCostUsd: costLimitSchema.default(null),
+    })
+    .default({ dailyTokens: null, monthlyTokens: null, dailyCostUsd: null, monthlyCostUsd: null }),
+})
+
+/**
+ * Validate an admin override request body
+ */
+export function parseAiQuotaOverride(
+  body: unknown
+): { success: true; data: AiQuotaOverride } | { success: false; error: string } {
+  const parsed = aiQuotaOverrideSchema.safeParse(body)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? 'Invalid quota override' }
+  }
+  return { success: true, data: parsed.data }
+}
+
+/**
+ * Effective tier and limits for a user. Admins are always unlimited.
+ */
+export function resolveAiQuotaLimits(
+  isAdmin: boolean,
+  override: AiQuotaOverride | null
+): { tier: MetaDjAiQuotaTier; limits: MetaDjAiQuotaLimits } {
+  if (isAdmin) return { tier: 'unlimited', limits: AI_QUOTA_TIER_LIMITS.unlimited }
+
+  const tier = override?.tier ?? 'free'
+  const tierLimits = AI_QUOTA_TIER_LIMITS[tier]
+  if (tier === 'unlimited' || !override) return { tier, limits: tierLimits }
+
+  return {
+    tier,
+    limits: {
+      dailyTokens: override.limits.dailyTokens ?? tierLimits.dailyTokens,
+      monthlyTokens: override.limits.monthlyTokens ?? tierLimits.monthlyTokens,
+      dailyCostUsd: override.limits.dailyCostUsd ?? tierLimits.dailyCostUsd,
+      monthlyCostUsd: override.limits.monthlyCostUsd ?? tierLimits.monthlyCostUsd,
+    },
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// WINDOWS
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * UTC day key (`YYYY-MM-DD`) that usage is rolled up under
+ */
+export function getAiQuotaDayKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * First day key of the UTC month containing `date`
+ */
+export function getAiQuotaMonthStartKey(date: Date = new Date()): string {
+  return `${date.toISOString().slice(0, 7)}-01`
+}
+
+function getDayResetAt(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1)
+}
+
+function getMonthResetAt(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1)
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// EVALUATION
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface AiUsageTotals {
+  tokens: number
+  costUsd: number
+}
+
+export interface AiUsageDay extends AiUsageTotals {
+  /** UTC day key */
+  day: string
+}
+
+/**
+ * Sum per-day usage into today's and this month's totals
+ */
+export function summarizeAiUsage(
+  days: AiUsageDay[],
+  now: Date = new Date()
+): { daily: AiUsageTotals; monthly: AiUsageTotals } {
+  const today = getAiQuotaDayKey(now)
+  const monthStart = getAiQuotaMonthStartKey(now)
+  const daily = { tokens: 0, costUsd: 0 }
+  const monthly = { tokens: 0, costUsd: 0 }
+
+  for (const usage of days) {
+    if (usage.day < monthStart || usage.day > today) continue
+    monthly.tokens += usage.tokens
+    monthly.costUsd += usage.costUsd
+    if (usage.day === today) {
+      daily.tokens += usage.tokens
+      daily.costUsd += usage.costUsd
+    }
+  }
+
+  return { daily, monthly }
+}
+
+function buildWindow(
+  usage: AiUsageTotals,
+  tokenLimit: number | null,
+  costLimitUsd: number | null,
+  resetsAt: number
+): MetaDjAiQuotaWindow {
+  return {
+    tokensUsed: usage.tokens,
+    tokenLimit,
+    costUsedUsd: usage.costUsd,
+    costLimitUsd,
+    resetsAt,
+  }
+}
+
+/** Remaining share of each limited meter in a window */
+function getRemainingFractions(window: MetaDjAiQuotaWindow): number[] {
+  const fractions: number[] = []
+  if (window.tokenLimit !== null) {
+    fractions.push(window.tokenLimit > 0 ? Math.max(0, 1 - window.tokensUsed / window.tokenLimit) : 0)
+  }
+  if (window.costLimitUsd !== null) {
+    fractions.push(window.costLimitUsd > 0 ? Math.max(0, 1 - window.costUsedUsd / window.costLimitUsd) : 0)
+  }
+  return fractions
+}
+
+/**
+ * Evaluate a user's usage against their limits
+ */
+export function evaluateAiQuota(
+  tier: MetaDjAiQuotaTier,
+  limits: MetaDjAiQuotaLimits,
+  usage: { daily: AiUsageTotals; monthly: AiUsageTotals },
+  options: { hasOverride?: boolean; now?: Date } = {}
+): MetaDjAiQuotaStatus {
+  const now = options.now ?? new Date()
+  const daily = buildWindow(usage.daily, limits.dailyTokens, limits.dailyCostUsd, getDayResetAt(now))
+  const monthly = buildWindow(usage.monthly, limits.monthlyTokens, limits.monthlyCostUsd, getMonthResetAt(now))
+
+  const dailyFractions = getRemainingFractions(daily)
+  const monthlyFractions = getRemainingFractions(monthly)
+  const fractions = [...dailyFractions, ...monthlyFractions]
+  const exceeded = monthlyFractions.some((fraction) => fraction <= 0)
+    ? 'monthly'
+    : dailyFractions.some((fraction) => fraction <= 0)
+      ? 'daily'
+      : null
+
+  return {
+    tier,
+    allowed: exceeded === null,
+    exceeded,
+    remainingFraction: fractions.length > 0 ? Math.min(...fractions) : null,
+    daily,
+    monthly,
+    hasOverride: options.hasOverride ?? false,
+  }
+}
+
+/**
+ * User-facing message for a request blocked by quota
+ */
+export function buildAiQuotaExceededMessage(status: MetaDjAiQuotaStatus): string {
+  const resetsAt = status.exceeded === 'monthly' ? status.monthly.resetsAt : status.daily.resetsAt
+  const when = new Date(resetsAt).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  })
+  return `You've used your ${status.exceeded === 'monthly' ? 'monthly' : 'daily'} MetaDJai allowance. It resets ${when}.`
+}
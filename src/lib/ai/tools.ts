@@ -28,6 +28,8 @@ export {
   findTrackByTitle,
   findCollectionByName,
   resolveTracksForProposal,
+  loadMusicCatalog,
+  type MusicCatalog,
   // Tools
   searchCatalog,
   getCatalogSummary,
@@ -40,6 +42,10 @@ export {
   proposeQueueSet,
   proposePlaylist,
   proposeSurface,
+  proposeCinema,
+  proposeDream,
+  proposeWisdom,
+  proposeSetPlan,
   openFeedback,
   OPEN_FEEDBACK_EVENT,
   type OpenFeedbackEventDetail,
@@ -13,12 +13,12 @@
 
 import { z } from 'zod'
 import { COLLECTION_NARRATIVES } from '@/data/collection-narratives'
+import { loadMusicCatalog } from '@/lib/ai/tools/music-helpers'
 import {
   fuzzyMatch,
   MAX_SEARCH_RESULTS,
   sanitizeAndValidateToolResult,
 } from '@/lib/ai/tools/utils'
-import { trackList, collectionList } from '@/lib/music/data'
 import type { Track, Collection } from '@/types'
 
 type CatalogSearchResult =
@@ -57,10 +57,11 @@ export const searchCatalog = {
     const q = normalizeSearchToken(query).slice(0, 200)
     const searchType = type ?? 'all'
     const results: CatalogSearchResult[] = []
+    const { tracks, collections } = await loadMusicCatalog()
 
     if (searchType === 'all' || searchType === 'collection') {
       // Use fuzzy matching for typo tolerance (e.g., "calmn" → "calm")
-      const matchedCollections = collectionList.filter(
+      const matchedCollections = collections.filter(
         (c) =>
           fuzzyMatch(q, c.title) ||
           (c.description && fuzzyMatch(q, c.description))
@@ -72,7 +73,7 @@ export const searchCatalog = {
 
     if (searchType === 'all' || searchType === 'track') {
       // Use fuzzy matching for typo tolerance
-      const matchedTracks = trackList.filter(
+      const matchedTracks = tracks.filter(
         (t) =>
           fuzzyMatch(q, t.title) ||
           (t.description && fuzzyMatch(q, t.description)) ||
@@ -139,11 +140,12 @@ export const getCatalogSummary = {
   }) => {
     // Cap to prevent oversized responses
     const cappedMax = Math.min(maxCollections, 50)
-    const cappedCollections = collectionList.slice(0, cappedMax)
+    const { tracks, collections: catalogCollections } = await loadMusicCatalog()
+    const cappedCollections = catalogCollections.slice(0, cappedMax)
 
     const collections = cappedCollections.map((collection) => {
       const narrative = COLLECTION_NARRATIVES[collection.id] ?? COLLECTION_NARRATIVES.featured
-      const collectionTracks = trackList.filter(
+      const collectionTracks = tracks.filter(
         (track) => track.collection === collection.title
       )
 
@@ -181,8 +183,8 @@ export const getCatalogSummary = {
     })
 
     const summary = {
-      totalCollections: collectionList.length,
-      totalTracks: trackList.length,
+      totalCollections: catalogCollections.length,
+      totalTracks: tracks.length,
       collectionTitles: cappedCollections.map((c) => c.title),
       collections,
     }
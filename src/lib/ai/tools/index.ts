@@ -37,6 +37,8 @@ export {
   findTrackByTitle,
   findCollectionByName,
   resolveTracksForProposal,
+  loadMusicCatalog,
+  type MusicCatalog,
 } from "./music-helpers"
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -46,7 +48,7 @@ export {
 export { searchCatalog, getCatalogSummary } from "./catalog"
 export { openFeedback, OPEN_FEEDBACK_EVENT, type OpenFeedbackEventDetail } from "./feedback"
 export { getPlatformHelp } from "./platform-help"
-export { getRecommendations } from "./recommendations"
+export { getRecommendations, createGetRecommendationsTool } from "./recommendations"
 export { getZuberantContext, warmupKnowledgeEmbeddings } from "./knowledge"
 export { getWisdomContent } from "./wisdom"
 export {
@@ -54,6 +56,10 @@ export {
   proposeQueueSet,
   proposePlaylist,
   proposeSurface,
+  proposeCinema,
+  proposeDream,
+  proposeWisdom,
+  proposeSetPlan,
 } from "./proposals"
 
 // ─────────────────────────────────────────────────────────────────────────────
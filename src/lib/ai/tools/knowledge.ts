@@ -1,16 +1,16 @@
 /**
  * Zuberant Context Tool
  *
- * Searches the Zuberant knowledge base for information about MetaDJ, Zuberant studio,
- * and the broader ecosystem vision. Uses keyword matching and optional semantic
- * embeddings to find relevant entries.
+ * Searches the Zuberant knowledge base and Wisdom content for information about
+ * MetaDJ, Zuberant studio, and the broader ecosystem vision. Content is chunked
+ * and ranked with hybrid BM25 + vector retrieval (`lib/ai/knowledge-retrieval`);
+ * vectors persist in Postgres (`lib/ai/knowledge-index`). Results cite their
+ * source entry IDs and Wisdom deep links.
  *
  * @module lib/ai/tools/knowledge
  */
 
 import 'server-only';
-import { createOpenAI } from '@ai-sdk/openai'
-import { cosineSimilarity, embed, embedMany } from 'ai'
 import { z } from 'zod'
 import ecosystemKnowledge from '@/data/knowledge/ecosystem.json'
 import identityKnowledge from '@/data/knowledge/identity.json'
@@ -19,29 +19,18 @@ import philosophyKnowledge from '@/data/knowledge/philosophy.json'
 import platformKnowledge from '@/data/knowledge/platform-features.json'
 import workflowsKnowledge from '@/data/knowledge/workflows.json'
 import zuberantKnowledge from '@/data/knowledge/zuberant.json'
+import wisdomContent from '@/data/wisdom-content.json'
+import { getKnowledgeVectorScores, syncKnowledgeIndex } from '@/lib/ai/knowledge-index'
+import {
+  buildBm25Index,
+  buildKnowledgeChunks,
+  rankKnowledgeChunks,
+  scoreBm25,
+  type KnowledgeCategory,
+} from '@/lib/ai/knowledge-retrieval'
 import { sanitizeAndValidateToolResult } from '@/lib/ai/tools/utils'
-import { getServerEnv } from '@/lib/env'
 import { logger } from '@/lib/logger'
 
-// ─────────────────────────────────────────────────────────────────────────────
-// KNOWLEDGE BASE TYPES
-// ─────────────────────────────────────────────────────────────────────────────
-
-interface KnowledgeEntry {
-  id: string
-  title: string
-  content: string
-  keywords: string[]
-  synonyms?: string[]
-}
-
-interface KnowledgeCategory {
-  category: string
-  title: string
-  description: string
-  entries: KnowledgeEntry[]
-}
-
 // ─────────────────────────────────────────────────────────────────────────────
 // KNOWLEDGE BASE CONFIGURATION
 // ─────────────────────────────────────────────────────────────────────────────
@@ -183,123 +172,18 @@ function checkKnowledgeStaleness(): void {
 checkKnowledgeStaleness()
 
 // ─────────────────────────────────────────────────────────────────────────────
-// EMBEDDINGS
+// RETRIEVAL INDEX
 // ─────────────────────────────────────────────────────────────────────────────
 
-type FlatKnowledgeEntry = { entry: KnowledgeEntry; category: string }
-type EmbeddedKnowledgeEntry = FlatKnowledgeEntry & { embedding: number[] }
-
-const FLAT_KNOWLEDGE_ENTRIES: FlatKnowledgeEntry[] = KNOWLEDGE_BASE.flatMap(
-  (kb) => kb.entries.map((entry) => ({ entry, category: kb.category }))
-)
-
-let knowledgeEmbeddingsCache: EmbeddedKnowledgeEntry[] | null = null
-let knowledgeEmbeddingsPromise: Promise<EmbeddedKnowledgeEntry[]> | null = null
+/** Knowledge entries and Wisdom content, chunked for retrieval */
+const KNOWLEDGE_CHUNKS = buildKnowledgeChunks(KNOWLEDGE_BASE, wisdomContent)
+const KNOWLEDGE_BM25_INDEX = buildBm25Index(KNOWLEDGE_CHUNKS)
 
-const EMBEDDING_MODEL_ID = 'text-embedding-3-small'
-const MAX_EMBED_TEXT_LENGTH = 2000
 type SemanticSearchMode = 'auto' | 'on' | 'off'
 
 const DEFAULT_SEMANTIC_SEARCH_MODE: SemanticSearchMode = 'auto'
-const SEMANTIC_SCORE_WEIGHT = 8
 const SEMANTIC_MIN_QUERY_LENGTH = 12
 const SEMANTIC_MIN_QUERY_WORDS = 3
-const SEMANTIC_MAX_BASE_SCORE = 9
-
-/** Check if running on server (Node.js environment) */
-const isServer = typeof window === 'undefined'
-
-interface CachedEmbeddings {
-  hash: string
-  model: string
-  embeddings: { id: string; embedding: number[] }[]
-}
-
-/** Compute content hash for cache invalidation (server-only) */
-async function computeKnowledgeHash(): Promise<string> {
-  if (!isServer) return ''
-  try {
-    const { createHash } = await import('crypto')
-    const content = FLAT_KNOWLEDGE_ENTRIES.map(({ entry }) =>
-      `${entry.id}:${entry.title}:${entry.content}`
-    ).join('|')
-    return createHash('sha256').update(content).digest('hex').slice(0, 16)
-  } catch {
-    return ''
-  }
-}
-
-/** Get cache file path (server-only) */
-async function getCacheFilePath(): Promise<string | null> {
-  if (!isServer) return null
-  try {
-    const { join } = await import('path')
-    return join(process.cwd(), 'node_modules', '.cache', 'metadj-embeddings', 'knowledge-embeddings.json')
-  } catch {
-    return null
-  }
-}
-
-/** Load embeddings from file cache (server-only) */
-async function loadCachedEmbeddings(): Promise<CachedEmbeddings | null> {
-  if (!isServer) return null
-  try {
-    const cacheFile = await getCacheFilePath()
-    if (!cacheFile) return null
-    const { existsSync, readFileSync } = await import('fs')
-    if (!existsSync(cacheFile)) return null
-    const data = readFileSync(cacheFile, 'utf-8')
-    return JSON.parse(data) as CachedEmbeddings
-  } catch {
-    return null
-  }
-}
-
-/** Save embeddings to file cache (server-only) */
-async function saveCachedEmbeddings(embeddings: EmbeddedKnowledgeEntry[]): Promise<void> {
-  if (!isServer) return
-  try {
-    const cacheFile = await getCacheFilePath()
-    if (!cacheFile) return
-    const { mkdirSync, writeFileSync } = await import('fs')
-    const { dirname } = await import('path')
-    const hash = await computeKnowledgeHash()
-    mkdirSync(dirname(cacheFile), { recursive: true })
-    const cache: CachedEmbeddings = {
-      hash,
-      model: EMBEDDING_MODEL_ID,
-      embeddings: embeddings.map((e) => ({
-        id: e.entry.id,
-        embedding: e.embedding,
-      })),
-    }
-    writeFileSync(cacheFile, JSON.stringify(cache), 'utf-8')
-    logger.info('Knowledge embeddings cached to disk', {
-      entriesCount: embeddings.length,
-      cacheFile,
-    })
-  } catch (error) {
-    logger.warn('Failed to cache embeddings to disk', { error: String(error) })
-  }
-}
-
-function buildEmbeddingText(entry: KnowledgeEntry): string {
-  const text = `${entry.title}\n\n${entry.content}`
-  return text.slice(0, MAX_EMBED_TEXT_LENGTH)
-}
-
-function createEmbeddingsOpenAIClient(): ReturnType<typeof createOpenAI> | null {
-  try {
-    const env = getServerEnv()
-    if (env.OPENAI_API_KEY) {
-      return createOpenAI({ apiKey: env.OPENAI_API_KEY })
-    }
-  } catch {
-    // ignore
-  }
-
-  return null
-}
 
 function resolveSemanticSearchMode(): SemanticSearchMode {
   const raw = process.env.AI_SEMANTIC_SEARCH_MODE?.trim().toLowerCase()
@@ -309,78 +193,14 @@ function resolveSemanticSearchMode(): SemanticSearchMode {
   return DEFAULT_SEMANTIC_SEARCH_MODE
 }
 
-async function loadKnowledgeEmbeddings(): Promise<EmbeddedKnowledgeEntry[]> {
-  if (knowledgeEmbeddingsCache) return knowledgeEmbeddingsCache
-  if (knowledgeEmbeddingsPromise) return knowledgeEmbeddingsPromise
-
-  knowledgeEmbeddingsPromise = (async () => {
-    const currentHash = await computeKnowledgeHash()
-
-    // Try to load from file cache first (server-only)
-    const cached = await loadCachedEmbeddings()
-    if (cached && cached.hash === currentHash && cached.model === EMBEDDING_MODEL_ID) {
-      // Cache hit - reconstruct embedded entries from cache
-      const embeddingMap = new Map(cached.embeddings.map((e) => [e.id, e.embedding]))
-      knowledgeEmbeddingsCache = FLAT_KNOWLEDGE_ENTRIES.map((item) => ({
-        ...item,
-        embedding: embeddingMap.get(item.entry.id) ?? [],
-      }))
-      logger.info('Knowledge embeddings loaded from disk cache', {
-        entriesCount: knowledgeEmbeddingsCache.length,
-        hash: currentHash,
-      })
-      return knowledgeEmbeddingsCache
-    }
-
-    const openaiClient = createEmbeddingsOpenAIClient()
-
-    if (!openaiClient) {
-      knowledgeEmbeddingsCache = []
-      return knowledgeEmbeddingsCache
-    }
-
-    try {
-      logger.info('Generating new knowledge embeddings (cache miss or content changed)', {
-        cacheExists: !!cached,
-        hashMatch: cached?.hash === currentHash,
-      })
-
-      const model = openaiClient.embedding(EMBEDDING_MODEL_ID)
-      const values = FLAT_KNOWLEDGE_ENTRIES.map(({ entry }) =>
-        buildEmbeddingText(entry)
-      )
-      const { embeddings } = await embedMany({ model, values })
-
-      knowledgeEmbeddingsCache = FLAT_KNOWLEDGE_ENTRIES.map((item, index) => ({
-        ...item,
-        embedding: embeddings[index] ?? [],
-      }))
-
-      // Save to file cache for next startup (server-only)
-      await saveCachedEmbeddings(knowledgeEmbeddingsCache)
-
-      return knowledgeEmbeddingsCache
-    } catch (error) {
-      logger.warn('Semantic knowledge embeddings failed; falling back to keywords', {
-        error: String(error),
-      })
-      knowledgeEmbeddingsCache = []
-      return knowledgeEmbeddingsCache
-    } finally {
-      knowledgeEmbeddingsPromise = null
-    }
-  })()
-
-  return knowledgeEmbeddingsPromise
-}
-
 /**
- * Pre-warm knowledge embeddings on server startup
+ * Pre-warm the knowledge vector index on server startup
  *
- * Call this during server initialization to avoid cold-start latency
- * on the first user query. Safe to call multiple times (idempotent).
+ * Embeds only new or changed chunks (by content hash), stores them in
+ * Postgres, and loads the vectors into memory so the first query doesn't
+ * pay for it. Safe to call multiple times (idempotent).
  *
- * @returns Promise that resolves when embeddings are loaded
+ * @returns Promise that resolves when the index is loaded
  *
  * @example
  * ```typescript
@@ -392,16 +212,16 @@ async function loadKnowledgeEmbeddings(): Promise<EmbeddedKnowledgeEntry[]> {
 export async function warmupKnowledgeEmbeddings(): Promise<void> {
   const startTime = Date.now()
   try {
-    const embeddings = await loadKnowledgeEmbeddings()
+    const vectors = await syncKnowledgeIndex(KNOWLEDGE_CHUNKS)
     const durationMs = Date.now() - startTime
-    if (embeddings.length > 0) {
-      logger.info('Knowledge embeddings pre-warmed successfully', {
-        entriesLoaded: embeddings.length,
+    if (vectors.size > 0) {
+      logger.info('Knowledge vector index pre-warmed successfully', {
+        chunksLoaded: vectors.size,
         durationMs,
       })
     } else {
       logger.info(
-        'Knowledge embeddings warmup skipped (no OpenAI key or empty)',
+        'Knowledge vector index warmup skipped (no OpenAI key or database)',
         {
           durationMs,
         }
@@ -409,7 +229,7 @@ export async function warmupKnowledgeEmbeddings(): Promise<void> {
     }
   } catch (error) {
     const durationMs = Date.now() - startTime
-    logger.warn('Failed to pre-warm knowledge embeddings, will load on first query', {
+    logger.warn('Failed to pre-warm knowledge vector index, will load on first query', {
       error: error instanceof Error ? error.message : String(error),
       durationMs,
     })
@@ -423,6 +243,20 @@ export async function warmupKnowledgeEmbeddings(): Promise<void> {
 // Maximum number of knowledge results
 const MAX_KNOWLEDGE_RESULTS = 5
 
+const KNOWLEDGE_TOPICS = [
+  'metadj',
+  'zuberant',
+  'ecosystem',
+  'philosophy',
+  'identity',
+  'platform',
+  'workflows',
+  'wisdom',
+  'all',
+] as const
+
+type KnowledgeTopic = (typeof KNOWLEDGE_TOPICS)[number]
+
 const zuberantContextSchema = z.object({
   query: z
     .string()
@@ -430,198 +264,98 @@ const zuberantContextSchema = z.object({
       'What the user wants to know about MetaDJ, Zuberant, the broader ecosystem vision, or platform features'
     ),
   topic: z
-    .enum([
-      'metadj',
-      'zuberant',
-      'ecosystem',
-      'philosophy',
-      'identity',
-      'platform',
-      'workflows',
-      'all',
-    ])
+    .enum(KNOWLEDGE_TOPICS)
     .optional()
-    .describe('Narrow search to specific topic area'),
+    .describe('Narrow search to specific topic area ("wisdom" searches Thoughts, Guides, and Reflections)'),
 })
 
 export const getZuberantContext = {
   description:
-    'Search the Zuberant knowledge base for information about MetaDJ (artist/DJ), Zuberant (studio), the broader ecosystem vision, philosophy, identity, platform features, and creative workflows. Use this to answer "who is...", "what is...", "how do I...", or to find creative protocols like "deep work" or "brainstorming".',
+    'Search the Zuberant knowledge base and Wisdom articles for information about MetaDJ (artist/DJ), Zuberant (studio), the broader ecosystem vision, philosophy, identity, platform features, and creative workflows. Use this to answer "who is...", "what is...", "how do I...", or to find creative protocols like "deep work" or "brainstorming". Each result includes a citation; name the source title and share Wisdom links when you rely on them.',
   inputSchema: zuberantContextSchema,
   execute: async ({
     query,
     topic,
   }: {
     query: string
-    topic?:
-      | 'metadj'
-      | 'zuberant'
-      | 'ecosystem'
-      | 'philosophy'
-      | 'identity'
-      | 'platform'
-      | 'workflows'
-      | 'all'
+    topic?: KnowledgeTopic
   }) => {
     // SECURITY: Sanitize and limit query length
-    const normalizeSearchToken = (value: string) => value.toLowerCase()
-    const q = normalizeSearchToken(query).slice(0, 200)
+    const q = query.toLowerCase().slice(0, 200)
     const searchTopic = topic ?? 'all'
 
-    // Determine which categories to search
-    const categoriesToSearch =
+    // Determine which chunks to search
+    const chunksToSearch =
       searchTopic === 'all'
-        ? KNOWLEDGE_BASE
-        : KNOWLEDGE_BASE.filter((kb) => kb.category === searchTopic)
-
-    const queryWords = q.split(/\s+/).filter((w) => w.length > 2)
-    const baseScoredEntries: Array<{
-      entry: KnowledgeEntry
-      category: string
-      baseScore: number
-    }> = []
-    let maxBaseScore = 0
-    let baseMatchCount = 0
-
-    for (const kb of categoriesToSearch) {
-      for (const entry of kb.entries) {
-        let score = 0
-
-        // Check title match (highest weight)
-        if (entry.title.toLowerCase().includes(q)) {
-          score += 10
-        }
-
-        // Check keyword matches
-        for (const keyword of entry.keywords) {
-          const normalizedKeyword = normalizeSearchToken(keyword)
-          if (q.includes(normalizedKeyword)) {
-            score += 5
-          }
-          // Partial keyword match
-          for (const word of queryWords) {
-            if (
-              normalizedKeyword.includes(word) ||
-              word.includes(normalizedKeyword)
-            ) {
-              score += 2
-            }
-          }
-        }
+        ? KNOWLEDGE_CHUNKS
+        : KNOWLEDGE_CHUNKS.filter((chunk) => chunk.category === searchTopic)
 
-        // Check synonyms
-        if (entry.synonyms) {
-          for (const synonym of entry.synonyms) {
-            const normalizedSynonym = normalizeSearchToken(synonym)
-            if (q.includes(normalizedSynonym)) {
-              score += 4
-            }
-          }
-        }
-
-        // Check content match (lower weight)
-        if (entry.content.toLowerCase().includes(q)) {
-          score += 3
-        }
-
-        // Partial content match for individual query words
-        for (const word of queryWords) {
-          if (entry.content.toLowerCase().includes(word)) {
-            score += 1
-          }
-        }
-
-        if (score > 0) {
-          baseMatchCount += 1
-        }
-        if (score > maxBaseScore) {
-          maxBaseScore = score
-        }
-        baseScoredEntries.push({ entry, category: kb.category, baseScore: score })
-      }
-    }
+    const allowedChunkIds = new Set(chunksToSearch.map((chunk) => chunk.id))
+    const bm25Scores = new Map(
+      [...scoreBm25(KNOWLEDGE_BM25_INDEX, q)].filter(([chunkId]) => allowedChunkIds.has(chunkId))
+    )
 
-    // Optional semantic similarity scores (in-memory embeddings, no vector DB)
-    const semanticScores = new Map<string, number>()
+    // Vector similarity from the persisted index (skipped for short lookups)
     const semanticMode = resolveSemanticSearchMode()
+    const queryWords = q.split(/\s+/).filter((w) => w.length > 2)
     const queryLooksRich =
       q.length >= SEMANTIC_MIN_QUERY_LENGTH ||
       queryWords.length >= SEMANTIC_MIN_QUERY_WORDS
-    const lowKeywordConfidence =
-      baseMatchCount === 0 || maxBaseScore < SEMANTIC_MAX_BASE_SCORE
     const shouldUseSemantic =
-      semanticMode === 'on' ||
-      (semanticMode === 'auto' && queryLooksRich && lowKeywordConfidence)
+      semanticMode === 'on' || (semanticMode === 'auto' && queryLooksRich)
 
+    let vectorScores = new Map<string, number>()
     if (shouldUseSemantic) {
       try {
-        const embeddedEntries = await loadKnowledgeEmbeddings()
-        if (embeddedEntries.length > 0) {
-          const openaiClient = createEmbeddingsOpenAIClient()
-          if (openaiClient) {
-            const model = openaiClient.embedding(EMBEDDING_MODEL_ID)
-            const { embedding: queryEmbedding } = await embed({ model, value: q })
-            const allowedCategories = new Set(
-              categoriesToSearch.map((kb) => kb.category)
-            )
-
-            for (const item of embeddedEntries) {
-              if (
-                !allowedCategories.has(item.category) ||
-                item.embedding.length === 0
-              )
-                continue
-              const similarity = cosineSimilarity(queryEmbedding, item.embedding)
-              semanticScores.set(item.entry.id, similarity)
-            }
-          }
-        }
+        const vectors = await syncKnowledgeIndex(KNOWLEDGE_CHUNKS)
+        vectorScores = await getKnowledgeVectorScores(vectors, chunksToSearch, q)
       } catch {
-        // ignore semantic failures; keyword search will still work
+        // ignore semantic failures; BM25 will still work
       }
     }
 
-    const scoredEntries = baseScoredEntries
-      .map(({ entry, category, baseScore }) => {
-        const semanticScore = semanticScores.get(entry.id) ?? 0
-        const combinedScore = baseScore + semanticScore * SEMANTIC_SCORE_WEIGHT
-        if (combinedScore <= 0) return null
-        return { entry, category, score: combinedScore }
-      })
-      .filter(
-        (entry): entry is { entry: KnowledgeEntry; category: string; score: number } =>
-          Boolean(entry)
-      )
-
-    // Sort by score and take top results
-    const topResults = scoredEntries
-      .sort((a, b) => b.score - a.score)
-      .slice(0, MAX_KNOWLEDGE_RESULTS)
-      .map(({ entry, category }) => ({
-        category,
-        title: entry.title,
-        content: entry.content,
-      }))
+    const ranked = rankKnowledgeChunks(chunksToSearch, bm25Scores, vectorScores, {
+      limit: MAX_KNOWLEDGE_RESULTS,
+    })
 
     let result
 
-    if (topResults.length === 0) {
+    if (ranked.length === 0) {
       // Return a helpful fallback
       result = {
         found: false,
         suggestion:
           'No specific matches found. Try asking about: who MetaDJ is, what Zuberant does, the broader ecosystem vision, platform features, music collections, the Synthetic Orchaistra method, Digital Jockey, AI philosophy, purest vibes, or creative principles.',
-        availableTopics: KNOWLEDGE_BASE.map((kb) => ({
-          topic: kb.category,
-          title: kb.title,
-          description: kb.description,
-        })),
+        availableTopics: [
+          ...KNOWLEDGE_BASE.map((kb) => ({
+            topic: kb.category,
+            title: kb.title,
+            description: kb.description,
+          })),
+          {
+            topic: 'wisdom',
+            title: 'Wisdom',
+            description: 'Thoughts, Guides, and Reflections articles',
+          },
+        ],
       }
     } else {
       result = {
         found: true,
-        results: topResults,
-        totalMatches: scoredEntries.length,
+        results: ranked.map(({ chunk }, index) => ({
+          citation: index + 1,
+          category: chunk.category,
+          title: chunk.title,
+          content: chunk.text,
+        })),
+        citations: ranked.map(({ chunk }, index) => ({
+          citation: index + 1,
+          entryId: chunk.citation.entryId,
+          title: chunk.citation.title,
+          category: chunk.citation.category,
+          ...(chunk.citation.href ? { href: chunk.citation.href } : {}),
+        })),
+        retrieval: vectorScores.size > 0 ? 'hybrid' : 'bm25',
       }
     }
 
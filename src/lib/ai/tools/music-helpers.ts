@@ -2,7 +2,9 @@
  * Music Data Helpers
  *
  * Shared utilities for finding tracks and collections by title/name
- * and resolving track lists for playback proposals.
+ * and resolving track lists for playback proposals. Tools load the catalog
+ * from the server MusicRepository, so tracks added through the admin catalog
+ * editor resolve the same as bundled ones.
  *
  * @module lib/ai/tools/music-helpers
  */
@@ -12,23 +14,37 @@ import {
   MAX_ACTIVE_CONTROL_TRACKS,
   normalizeCatalogText,
 } from '@/lib/ai/tools/utils'
-import { trackList, collectionList, trackIndex } from '@/lib/music/data'
+import { getServerMusicRepository } from '@/lib/music/server'
 import type { Track, Collection } from '@/types'
 
+export interface MusicCatalog {
+  tracks: Track[]
+  collections: Collection[]
+}
+
+/**
+ * Load the catalog selected by `MUSIC_CATALOG_SOURCE` (bundled JSON or database).
+ */
+export async function loadMusicCatalog(): Promise<MusicCatalog> {
+  const repo = getServerMusicRepository()
+  const [tracks, collections] = await Promise.all([repo.listTracks(), repo.listCollections()])
+  return { tracks, collections }
+}
+
 /**
  * Find a track by title using normalized text matching.
  * Tries exact match first, then partial match.
  */
-export function findTrackByTitle(title: string): Track | undefined {
+export function findTrackByTitle(tracks: Track[], title: string): Track | undefined {
   const normalized = normalizeCatalogText(title)
   if (!normalized) return undefined
 
-  const exactMatch = trackList.find(
+  const exactMatch = tracks.find(
     (track) => normalizeCatalogText(track.title) === normalized
   )
   if (exactMatch) return exactMatch
 
-  return trackList.find((track) =>
+  return tracks.find((track) =>
     normalizeCatalogText(track.title).includes(normalized)
   )
 }
@@ -37,16 +53,16 @@ export function findTrackByTitle(title: string): Track | undefined {
  * Find a collection by name using normalized text matching.
  * Tries exact match first, then partial match.
  */
-export function findCollectionByName(name: string): Collection | undefined {
+export function findCollectionByName(collections: Collection[], name: string): Collection | undefined {
   const normalized = normalizeCatalogText(name)
   if (!normalized) return undefined
 
-  const exactMatch = collectionList.find(
+  const exactMatch = collections.find(
     (collection) => normalizeCatalogText(collection.title) === normalized
   )
   if (exactMatch) return exactMatch
 
-  return collectionList.find((collection) =>
+  return collections.find((collection) =>
     normalizeCatalogText(collection.title).includes(normalized)
   )
 }
@@ -55,7 +71,7 @@ export function findCollectionByName(name: string): Collection | undefined {
  * Resolve track IDs and titles for playback proposals.
  * Supports resolution by ID, title, or collection name.
  */
-export function resolveTracksForProposal(input: {
+export function resolveTracksForProposal(catalog: MusicCatalog, input: {
   trackIds?: string[]
   trackTitles?: string[]
   collection?: string
@@ -69,6 +85,7 @@ export function resolveTracksForProposal(input: {
   const trackTitles: string[] = []
   const seen = new Set<string>()
   let collectionTitle: string | undefined
+  const trackIndex = new Map(catalog.tracks.map((track) => [track.id, track]))
 
   const addTrack = (track?: Track) => {
     if (!track || trackIds.length >= max || seen.has(track.id)) return
@@ -86,16 +103,16 @@ export function resolveTracksForProposal(input: {
 
   if (input.trackTitles?.length) {
     for (const title of input.trackTitles) {
-      addTrack(findTrackByTitle(title))
+      addTrack(findTrackByTitle(catalog.tracks, title))
       if (trackIds.length >= max) break
     }
   }
 
   if (input.collection && trackIds.length < max) {
-    const matchedCollection = findCollectionByName(input.collection)
+    const matchedCollection = findCollectionByName(catalog.collections, input.collection)
     if (matchedCollection) {
       collectionTitle = matchedCollection.title
-      for (const track of trackList) {
+      for (const track of catalog.tracks) {
         if (track.collection !== matchedCollection.title) continue
         addTrack(track)
         if (trackIds.length >= max) break
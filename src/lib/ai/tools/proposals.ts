@@ -6,14 +6,21 @@
  * - proposeQueueSet: Multi-track queue operations
  * - proposePlaylist: Playlist creation
  * - proposeSurface: UI navigation actions
+ * - proposeCinema: Cinema open/close and scene switching
+ * - proposeDream: Dream start, prompt changes, and stop
+ * - proposeWisdom: Opening a specific Thought, Guide, or Reflection
+ * - proposeSetPlan: Timed DJ set plans (opening/build/peak/cooldown)
  *
  * @module lib/ai/tools/proposals
  */
 
 import { z } from 'zod'
+import { SCENES } from '@/data/scenes'
+import wisdomContent from '@/data/wisdom-content.json'
 import {
   findTrackByTitle,
   findCollectionByName,
+  loadMusicCatalog,
   resolveTracksForProposal,
 } from '@/lib/ai/tools/music-helpers'
 import {
@@ -21,7 +28,14 @@ import {
   sanitizeAndValidateToolResult,
   sanitizeInputQuery,
 } from '@/lib/ai/tools/utils'
-import { trackList, collectionList } from '@/lib/music/data'
+import {
+  DEFAULT_SET_PLAN_MINUTES,
+  MAX_SET_PLAN_MINUTES,
+  MIN_SET_PLAN_MINUTES,
+  buildSetPlan,
+  type SetPlanOptions,
+} from '@/lib/music/set-builder'
+import type { SetPlanPhase } from '@/types'
 
 // ─────────────────────────────────────────────────────────────────────────────
 // PROPOSE PLAYBACK
@@ -79,9 +93,10 @@ export const proposePlayback = {
       // Sanitize input to prevent indirect prompt injection
       const rawQuery = sanitizeInputQuery(searchQuery)
       const q = rawQuery.toLowerCase()
+      const { tracks, collections } = await loadMusicCatalog()
 
       // Find best match in tracks
-      const bestTrack = trackList
+      const bestTrack = tracks
         .filter(
           (t) =>
             t.title.toLowerCase().includes(q) ||
@@ -102,12 +117,12 @@ export const proposePlayback = {
         proposal.trackArtist = bestTrack.artist // though artist is always MetaDJ
       } else {
         // Fallback: search collections if no track found
-        const bestCollection = collectionList.find((c) =>
+        const bestCollection = collections.find((c) =>
           c.title.toLowerCase().includes(q)
         )
         if (bestCollection) {
           // Play first track of this collection
-          const firstCollectionTrack = trackList.find(
+          const firstCollectionTrack = tracks.find(
             (t) => t.collection === bestCollection.title
           )
 
@@ -203,7 +218,7 @@ export const proposeQueueSet = {
     autoplay?: boolean
     context?: string
   }) => {
-    const resolved = resolveTracksForProposal({
+    const resolved = resolveTracksForProposal(await loadMusicCatalog(), {
       trackIds,
       trackTitles,
       collection,
@@ -299,7 +314,7 @@ export const proposePlaylist = {
     context?: string
   }) => {
     const safeName = name.trim().slice(0, 100)
-    const resolved = resolveTracksForProposal({
+    const resolved = resolveTracksForProposal(await loadMusicCatalog(), {
       trackIds,
       trackTitles,
       collection,
@@ -380,3 +395,361 @@ export const proposeSurface = {
     return sanitizeAndValidateToolResult(proposal, 'proposeSurface')
   },
 }
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PROPOSE CINEMA
+// ─────────────────────────────────────────────────────────────────────────────
+
+const cinemaSchema = z.object({
+  action: z
+    .enum(['open', 'scene', 'close'])
+    .describe('Open Cinema, switch its scene, or close it'),
+  scene: z
+    .string()
+    .optional()
+    .describe('Scene name or ID (e.g. "Synthwave Horizon") for open/scene'),
+  context: z
+    .string()
+    .optional()
+    .describe('Reasoning or context for the action'),
+})
+
+/**
+ * Propose Cinema Tool (Active Control)
+ *
+ * Allows the AI to propose opening Cinema, switching its scene, or closing it.
+ * Scene names are resolved against the scene catalog before the card renders.
+ */
+export const proposeCinema = {
+  description:
+    'Propose a Cinema action: open Cinema, switch to a scene (e.g. "switch Cinema to Synthwave Horizon"), or close Cinema. The user will see a confirmation card before it happens.',
+  inputSchema: cinemaSchema,
+  needsApproval: true,
+  execute: async ({
+    action,
+    scene,
+    context,
+  }: {
+    action: 'open' | 'scene' | 'close'
+    scene?: string
+    context?: string
+  }) => {
+    const proposal: {
+      type: 'cinema'
+      approvalRequired: boolean
+      action: typeof action
+      sceneId?: string
+      sceneName?: string
+      context?: string
+    } = {
+      type: 'cinema',
+      approvalRequired: true,
+      action,
+      context,
+    }
+
+    const rawQuery = scene && action !== 'close' ? sanitizeInputQuery(scene, 100) : ''
+    if (rawQuery) {
+      const q = rawQuery.toLowerCase()
+      const match =
+        SCENES.find((s) => s.id === q || s.name.toLowerCase() === q) ??
+        SCENES.find(
+          (s) => s.name.toLowerCase().includes(q) || s.id.includes(q.replace(/\s+/g, '-'))
+        )
+
+      if (match) {
+        proposal.sceneId = match.id
+        proposal.sceneName = match.name
+      } else {
+        const notFoundMessage = `I couldn't find a "${rawQuery}" scene in Cinema.`
+        proposal.sceneName = rawQuery
+        proposal.context = proposal.context
+          ? `${proposal.context} ${notFoundMessage}`
+          : notFoundMessage
+      }
+    }
+
+    return sanitizeAndValidateToolResult(proposal, 'proposeCinema')
+  },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PROPOSE DREAM
+// ─────────────────────────────────────────────────────────────────────────────
+
+const dreamSchema = z.object({
+  action: z
+    .enum(['start', 'setPrompt', 'stop'])
+    .describe('Start Dream, change the prompt of a running Dream, or stop it'),
+  prompt: z
+    .string()
+    .optional()
+    .describe('Short visual prompt for the Dream (e.g. "neon ocean waves")'),
+  context: z
+    .string()
+    .optional()
+    .describe('Reasoning or context for the action'),
+})
+
+/**
+ * Propose Dream Tool (Active Control)
+ *
+ * Allows the AI to propose starting Dream (optionally with a prompt), changing
+ * the prompt of a running Dream, or stopping it. Dream runs inside Cinema, so
+ * starting it also opens Cinema.
+ */
+export const proposeDream = {
+  description:
+    'Propose a Dream action: start the Dream AI video overlay (optionally with a visual prompt like "neon ocean"), change the prompt of a running Dream, or stop it. The user will see a confirmation card before it happens.',
+  inputSchema: dreamSchema,
+  needsApproval: true,
+  execute: async ({
+    action,
+    prompt,
+    context,
+  }: {
+    action: 'start' | 'setPrompt' | 'stop'
+    prompt?: string
+    context?: string
+  }) => {
+    const safePrompt = action === 'stop' || !prompt ? '' : sanitizeInputQuery(prompt, 200)
+
+    let nextContext = context
+    if (!nextContext && action === 'setPrompt' && !safePrompt) {
+      nextContext = 'No prompt was provided, so the current Dream prompt stays.'
+    }
+
+    const proposal = {
+      type: 'dream' as const,
+      approvalRequired: true,
+      action,
+      prompt: safePrompt || undefined,
+      context: nextContext,
+    }
+
+    return sanitizeAndValidateToolResult(proposal, 'proposeDream')
+  },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PROPOSE WISDOM
+// ─────────────────────────────────────────────────────────────────────────────
+
+type WisdomSection = 'thoughts' | 'guides' | 'reflections'
+
+const WISDOM_ENTRIES: Record<WisdomSection, Array<{ id: string; title: string; excerpt?: string }>> = {
+  thoughts: wisdomContent.thoughtsPosts,
+  guides: wisdomContent.guides,
+  reflections: wisdomContent.reflections,
+}
+
+const WISDOM_SECTION_LABELS: Record<WisdomSection, string> = {
+  thoughts: 'Thoughts',
+  guides: 'Guides',
+  reflections: 'Reflections',
+}
+
+/**
+ * Resolve a Wisdom entry by ID, then title, then excerpt (optionally within one section)
+ */
+function findWisdomEntry(query: string, section?: WisdomSection) {
+  const q = query.toLowerCase()
+  const sections = section ? [section] : (Object.keys(WISDOM_ENTRIES) as WisdomSection[])
+  const candidates = sections.flatMap((entrySection) =>
+    WISDOM_ENTRIES[entrySection].map((entry) => ({ section: entrySection, entry }))
+  )
+
+  return (
+    candidates.find(({ entry }) => entry.id === q || entry.title.toLowerCase() === q) ??
+    candidates.find(({ entry }) => entry.title.toLowerCase().includes(q)) ??
+    candidates.find(({ entry }) => entry.excerpt?.toLowerCase().includes(q)) ??
+    null
+  )
+}
+
+const wisdomSchema = z.object({
+  query: z
+    .string()
+    .min(1)
+    .describe('Entry ID, title, or topic to open (e.g. "flow state")'),
+  section: z
+    .enum(['thoughts', 'guides', 'reflections'])
+    .optional()
+    .describe('Limit the lookup to one Wisdom section'),
+  context: z
+    .string()
+    .optional()
+    .describe('Reasoning or context for the action'),
+})
+
+/**
+ * Propose Wisdom Tool (Active Control)
+ *
+ * Allows the AI to propose opening a specific Wisdom entry. The entry is
+ * resolved from Wisdom content so the card can deep link straight to it.
+ */
+export const proposeWisdom = {
+  description:
+    'Propose opening a specific Wisdom entry (Thought, Guide, or Reflection), e.g. "open the Guides entry on flow state". Use proposeSurface to open Wisdom without a specific entry. The user will see a confirmation card before it happens.',
+  inputSchema: wisdomSchema,
+  needsApproval: true,
+  execute: async ({
+    query,
+    section,
+    context,
+  }: {
+    query: string
+    section?: WisdomSection
+    context?: string
+  }) => {
+    const rawQuery = sanitizeInputQuery(query, 120)
+    const match = rawQuery ? findWisdomEntry(rawQuery, section) : null
+
+    const proposal: {
+      type: 'wisdom'
+      approvalRequired: boolean
+      action: 'open'
+      section: WisdomSection
+      id?: string
+      title?: string
+      context?: string
+    } = {
+      type: 'wisdom',
+      approvalRequired: true,
+      action: 'open',
+      section: match?.section ?? section ?? 'thoughts',
+      context,
+    }
+
+    if (match) {
+      proposal.id = match.entry.id
+      proposal.title = match.entry.title
+    } else {
+      const where = section ? ` in ${WISDOM_SECTION_LABELS[section]}` : ' in Wisdom'
+      const notFoundMessage = `I couldn't find "${rawQuery}"${where}.`
+      proposal.title = rawQuery
+      proposal.context = proposal.context
+        ? `${proposal.context} ${notFoundMessage}`
+        : notFoundMessage
+    }
+
+    return sanitizeAndValidateToolResult(proposal, 'proposeWisdom')
+  },
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// PROPOSE SET PLAN
+// ─────────────────────────────────────────────────────────────────────────────
+
+const setPlanSegmentInputSchema = z.object({
+  phase: z.enum(['opening', 'build', 'peak', 'cooldown']),
+  minutes: z.number().min(1).max(MAX_SET_PLAN_MINUTES).optional().describe('Segment length in minutes'),
+  targetBpm: z.number().min(60).max(200).optional().describe('Target tempo'),
+  targetEnergy: z.number().min(1).max(10).optional().describe('Target energy, 1 (calm) to 10 (peak)'),
+  trackTitles: z
+    .array(z.string())
+    .optional()
+    .describe('Tracks that must open this segment'),
+})
+
+const setPlanSchema = z.object({
+  name: z.string().max(100).optional().describe('Set name (used if saved as a playlist)'),
+  totalMinutes: z
+    .number()
+    .min(MIN_SET_PLAN_MINUTES)
+    .max(MAX_SET_PLAN_MINUTES)
+    .optional()
+    .describe(`Total set length in minutes (default ${DEFAULT_SET_PLAN_MINUTES})`),
+  collection: z
+    .string()
+    .optional()
+    .describe('Collection name to draw the set from'),
+  segments: z
+    .array(setPlanSegmentInputSchema)
+    .max(4)
+    .optional()
+    .describe('Optional per-segment overrides; omitted segments use the default arc'),
+  context: z
+    .string()
+    .optional()
+    .describe('Reasoning or context for the set'),
+})
+
+/**
+ * Propose Set Plan Tool (Active Control)
+ *
+ * Drafts a timed DJ set (opening → build → peak → cooldown) with target BPM
+ * and energy per segment, picked from the catalog. The UI renders an editable
+ * timeline; the user approves each segment before it becomes a queue or playlist.
+ */
+export const proposeSetPlan = {
+  description:
+    'Propose a timed DJ set plan with an opening, build, peak, and cooldown, each with target BPM and energy, picked from the catalog. Use this when the user asks to "plan a set", "build a 45-minute set", or wants an energy arc rather than a flat queue. The user reviews and approves each segment before anything is queued.',
+  inputSchema: setPlanSchema,
+  needsApproval: true,
+  execute: async ({
+    name,
+    totalMinutes,
+    collection,
+    segments,
+    context,
+  }: {
+    name?: string
+    totalMinutes?: number
+    collection?: string
+    segments?: Array<{
+      phase: SetPlanPhase
+      minutes?: number
+      targetBpm?: number
+      targetEnergy?: number
+      trackTitles?: string[]
+    }>
+    context?: string
+  }) => {
+    const { tracks, collections } = await loadMusicCatalog()
+    const matchedCollection = collection
+      ? findCollectionByName(collections, sanitizeInputQuery(collection, 100))
+      : undefined
+    const collectionTracks = matchedCollection
+      ? tracks.filter((track) => track.collection === matchedCollection.title)
+      : []
+    const pool = collectionTracks.length > 0 ? collectionTracks : tracks
+
+    const overrides: SetPlanOptions['segments'] = {}
+    for (const segment of segments ?? []) {
+      overrides[segment.phase] = {
+        minutes: segment.minutes,
+        targetBpm: segment.targetBpm,
+        targetEnergy: segment.targetEnergy,
+        trackIds: segment.trackTitles
+          ?.map((title) => findTrackByTitle(tracks, sanitizeInputQuery(title))?.id)
+          .filter((id): id is string => Boolean(id)),
+      }
+    }
+
+    const plan = buildSetPlan(pool, { totalMinutes, segments: overrides })
+    const safeName =
+      name?.trim().slice(0, 100) ||
+      `${plan.totalMinutes}-minute ${matchedCollection ? `${matchedCollection.title} ` : ''}set`
+
+    const notes: string[] = []
+    if (collection && !matchedCollection) {
+      notes.push(`I couldn't find a "${collection.slice(0, 100)}" collection, so this draws from the full catalog.`)
+    }
+    if (plan.shortfallMinutes > 0) {
+      notes.push(`The catalog fills about ${plan.totalMinutes - plan.shortfallMinutes} of ${plan.totalMinutes} minutes.`)
+    }
+
+    const proposal = {
+      type: 'set-plan' as const,
+      approvalRequired: true,
+      action: 'build' as const,
+      name: safeName,
+      totalMinutes: plan.totalMinutes,
+      segments: plan.segments,
+      context: [context, ...notes].filter(Boolean).join(' ') || undefined,
+    }
+
+    return sanitizeAndValidateToolResult(proposal, 'proposeSetPlan')
+  },
+}
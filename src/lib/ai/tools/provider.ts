@@ -17,14 +17,19 @@ import {
   proposeQueueSet,
   proposePlaylist,
   proposeSurface,
+  proposeCinema,
+  proposeDream,
+  proposeWisdom,
+  proposeSetPlan,
 } from '@/lib/ai/tools/proposals'
-import { getRecommendations } from '@/lib/ai/tools/recommendations'
+import { createGetRecommendationsTool } from '@/lib/ai/tools/recommendations'
 import {
   wrapToolsWithErrorHandling,
   safeToolExecute,
   sanitizeAndValidateToolResult,
 } from '@/lib/ai/tools/utils'
 import { getWisdomContent } from '@/lib/ai/tools/wisdom'
+import type { TrackListeningHistory } from '@/lib/music/recommendations'
 
 type ToolSet = Record<string, unknown>
 
@@ -62,12 +67,13 @@ function wrapToolsWithOutputSanitization(tools: ToolSet): ToolSet {
  * Includes web_search tool only when explicitly enabled (native OpenAI web search).
  *
  * @param provider 'openai' | 'anthropic' | 'google' | 'xai' | 'moonshotai'
- * @param options Provider capabilities override
+ * @param options Provider capabilities override and the signed-in listener's
+ *   history (personalizes `getRecommendations`)
  * @returns Tools object with provider-appropriate tools
  */
 export async function getTools(
   provider: 'openai' | 'anthropic' | 'google' | 'xai' | 'moonshotai',
-  options?: { webSearchAvailable?: boolean }
+  options?: { webSearchAvailable?: boolean; listeningHistory?: TrackListeningHistory[] | null }
 ) {
   // Base tools available to all providers
   // Wrapped with error handling for graceful degradation
@@ -76,13 +82,17 @@ export async function getTools(
     getCatalogSummary,
     getPlatformHelp,
     getWisdomContent,
-    getRecommendations,
+    getRecommendations: createGetRecommendationsTool(options?.listeningHistory),
     getZuberantContext,
     openFeedback,
     proposePlayback,
     proposeQueueSet,
     proposePlaylist,
     proposeSurface,
+    proposeCinema,
+    proposeDream,
+    proposeWisdom,
+    proposeSetPlan,
   })
   const mcpTools = wrapToolsWithOutputSanitization(await getMcpTools())
 
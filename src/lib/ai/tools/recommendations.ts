@@ -2,17 +2,25 @@
  * Track Recommendations Tool
  *
  * Suggests tracks based on mood, energy level, or similarity to a reference track.
+ * When the server passes the signed-in listener's history, results are blended
+ * with the personal recommendation engine (`@/lib/music/recommendations`).
  *
  * @module lib/ai/tools/recommendations
  */
 
 import { z } from 'zod'
+import { loadMusicCatalog } from '@/lib/ai/tools/music-helpers'
 import {
   MAX_RECOMMENDATIONS,
   sanitizeAndValidateToolResult,
 } from '@/lib/ai/tools/utils'
 import { shuffleTracks } from '@/lib/music'
-import { trackList } from '@/lib/music/data'
+import {
+  buildListenerTasteProfile,
+  scoreTrackForListener,
+  type ListenerScore,
+  type TrackListeningHistory,
+} from '@/lib/music/recommendations'
 import type { Track } from '@/types'
 
 // Mood to genre mapping for recommendations
@@ -25,6 +33,9 @@ const MOOD_GENRES: Record<string, string[]> = {
   ambient: ['ambient', 'atmospheric', 'drone'],
 }
 
+// Personal score weight when explicit criteria (mood, energy, similarity) also apply
+const PERSONAL_BLEND_WEIGHT = 0.5
+
 const recommendationsSchema = z.object({
   mood: z
     .enum(['focus', 'energy', 'relaxation', 'epic', 'creative', 'ambient'])
@@ -49,128 +60,157 @@ const recommendationsSchema = z.object({
 })
 
 /**
- * Track Recommendations Tool
+ * Create the recommendations tool.
  *
- * Suggests tracks based on mood, energy level, or similarity to a reference track.
+ * @param listeningHistory - Signed-in listener's per-track history; when it
+ *   holds a positive signal, results are personalized for that listener
  */
-export const getRecommendations = {
-  description:
-    'Get track recommendations based on mood, energy level, or similarity. Use when users want music suggestions or ask "what should I listen to?"',
-  inputSchema: recommendationsSchema,
-  execute: async ({
-    mood,
-    energyLevel,
-    similarTo,
-    collection,
-    limit = 5,
-  }: {
-    mood?: keyof typeof MOOD_GENRES
-    energyLevel?: 'low' | 'medium' | 'high'
-    similarTo?: string
-    collection?: string
-    limit?: number
-  }) => {
-    // SECURITY: Enforce maximum limit
-    const effectiveLimit = Math.min(limit, MAX_RECOMMENDATIONS)
-
-    // SECURITY: Sanitize string inputs
-    const sanitizedSimilarTo = similarTo?.slice(0, 200)
-    const sanitizedCollection = collection?.slice(0, 100)
-
-    let candidates: Track[] = [...trackList]
-
-    // Filter by collection if specified
-    if (sanitizedCollection) {
-      const collectionLower = sanitizedCollection.toLowerCase()
-      candidates = candidates.filter((t) =>
-        t.collection?.toLowerCase().includes(collectionLower)
-      )
-    }
-
-    // Score tracks based on criteria
-    const scored = candidates.map((track) => {
-      let score = 0
-
-      // Mood matching
-      if (mood && MOOD_GENRES[mood]) {
-        const moodGenres = MOOD_GENRES[mood]
-        const matchingGenres = track.genres.filter((g) =>
-          moodGenres.some((mg) => g.toLowerCase().includes(mg.toLowerCase()))
+export function createGetRecommendationsTool(listeningHistory?: TrackListeningHistory[] | null) {
+  return {
+    description:
+      'Get track recommendations based on mood, energy level, or similarity. Use when users want music suggestions or ask "what should I listen to?" For signed-in listeners, results are personalized from their listening history.',
+    inputSchema: recommendationsSchema,
+    execute: async ({
+      mood,
+      energyLevel,
+      similarTo,
+      collection,
+      limit = 5,
+    }: {
+      mood?: keyof typeof MOOD_GENRES
+      energyLevel?: 'low' | 'medium' | 'high'
+      similarTo?: string
+      collection?: string
+      limit?: number
+    }) => {
+      // SECURITY: Enforce maximum limit
+      const effectiveLimit = Math.min(limit, MAX_RECOMMENDATIONS)
+
+      // SECURITY: Sanitize string inputs
+      const sanitizedSimilarTo = similarTo?.slice(0, 200)
+      const sanitizedCollection = collection?.slice(0, 100)
+
+      const { tracks } = await loadMusicCatalog()
+      const profile = listeningHistory && listeningHistory.length > 0
+        ? buildListenerTasteProfile(tracks, listeningHistory)
+        : null
+      const personalProfile = profile?.hasSignal ? profile : null
+
+      let candidates: Track[] = [...tracks]
+
+      // Filter by collection if specified
+      if (sanitizedCollection) {
+        const collectionLower = sanitizedCollection.toLowerCase()
+        candidates = candidates.filter((t) =>
+          t.collection?.toLowerCase().includes(collectionLower)
         )
-        score += matchingGenres.length * 2
       }
 
-      // Energy level matching (using BPM as proxy)
-      if (energyLevel && track.bpm) {
-        const bpm = track.bpm
-        if (energyLevel === 'low' && bpm < 100) score += 3
-        else if (energyLevel === 'medium' && bpm >= 100 && bpm <= 130) score += 3
-        else if (energyLevel === 'high' && bpm > 130) score += 3
-      }
+      const hasCriteria = Boolean(mood || energyLevel || sanitizedSimilarTo)
 
-      // Similarity matching
-      if (sanitizedSimilarTo) {
-        const refTrack = trackList.find((t) =>
-          t.title.toLowerCase().includes(sanitizedSimilarTo.toLowerCase())
-        )
-        if (refTrack && track.id !== refTrack.id) {
-          // Same collection bonus
-          if (track.collection === refTrack.collection) score += 2
-          // Shared genres bonus
-          const sharedGenres = track.genres.filter((g) =>
-            refTrack.genres.includes(g)
+      // Score tracks based on criteria
+      const scored = candidates.map((track) => {
+        let score = 0
+        const personal: ListenerScore | null = personalProfile
+          ? scoreTrackForListener(track, personalProfile)
+          : null
+
+        // Mood matching
+        if (mood && MOOD_GENRES[mood]) {
+          const moodGenres = MOOD_GENRES[mood]
+          const matchingGenres = track.genres.filter((g) =>
+            moodGenres.some((mg) => g.toLowerCase().includes(mg.toLowerCase()))
           )
-          score += sharedGenres.length
-          // Similar BPM bonus
-          if (
-            track.bpm &&
-            refTrack.bpm &&
-            Math.abs(track.bpm - refTrack.bpm) <= 10
-          ) {
-            score += 1
+          score += matchingGenres.length * 2
+        }
+
+        // Energy level matching (using BPM as proxy)
+        if (energyLevel && track.bpm) {
+          const bpm = track.bpm
+          if (energyLevel === 'low' && bpm < 100) score += 3
+          else if (energyLevel === 'medium' && bpm >= 100 && bpm <= 130) score += 3
+          else if (energyLevel === 'high' && bpm > 130) score += 3
+        }
+
+        // Similarity matching
+        if (sanitizedSimilarTo) {
+          const refTrack = tracks.find((t) =>
+            t.title.toLowerCase().includes(sanitizedSimilarTo.toLowerCase())
+          )
+          if (refTrack && track.id !== refTrack.id) {
+            // Same collection bonus
+            if (track.collection === refTrack.collection) score += 2
+            // Shared genres bonus
+            const sharedGenres = track.genres.filter((g) =>
+              refTrack.genres.includes(g)
+            )
+            score += sharedGenres.length
+            // Similar BPM bonus
+            if (
+              track.bpm &&
+              refTrack.bpm &&
+              Math.abs(track.bpm - refTrack.bpm) <= 10
+            ) {
+              score += 1
+            }
           }
         }
-      }
 
-      return { track, score }
-    })
-
-    // Sort by score and return top results
-    const recommendations = scored
-      .filter((s) => s.score > 0)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, effectiveLimit)
-      .map((s) => ({
-        id: s.track.id,
-        title: s.track.title,
-        collection: s.track.collection,
-        genres: s.track.genres,
-        bpm: s.track.bpm,
-        key: s.track.key,
-        matchScore: s.score,
-      }))
-
-    let result
-
-    // If no matches, return random selection from candidates
-    if (recommendations.length === 0) {
-      const shuffled = shuffleTracks(candidates).slice(0, effectiveLimit)
-      result = {
-        recommendations: shuffled.map((t) => ({
-          id: t.id,
-          title: t.title,
-          collection: t.collection,
-          genres: t.genres,
-          bpm: t.bpm,
-          key: t.key,
-        })),
-        note: 'No exact matches found. Here are some suggestions to explore.',
+        return { track, score, personal }
+      })
+
+      // Criteria narrow the candidates; the listener's taste orders them.
+      // Without criteria, the personal score alone ranks the catalog.
+      const ranked = scored
+        .filter((s) => (hasCriteria ? s.score > 0 : s.personal !== null))
+        .map((s) => ({
+          ...s,
+          rankScore: hasCriteria
+            ? s.score + (s.personal?.score ?? 0) * PERSONAL_BLEND_WEIGHT
+            : s.personal?.score ?? 0,
+        }))
+        .sort((a, b) => b.rankScore - a.rankScore)
+
+      const recommendations = ranked
+        .slice(0, effectiveLimit)
+        .map((s) => ({
+          id: s.track.id,
+          title: s.track.title,
+          collection: s.track.collection,
+          genres: s.track.genres,
+          bpm: s.track.bpm,
+          key: s.track.key,
+          matchScore: Math.round(s.rankScore * 100) / 100,
+          ...(s.personal ? { personalReasons: s.personal.reasons } : {}),
+        }))
+
+      let result
+
+      // If no matches, return random selection from candidates
+      if (recommendations.length === 0) {
+        const shuffled = shuffleTracks(candidates).slice(0, effectiveLimit)
+        result = {
+          recommendations: shuffled.map((t) => ({
+            id: t.id,
+            title: t.title,
+            collection: t.collection,
+            genres: t.genres,
+            bpm: t.bpm,
+            key: t.key,
+          })),
+          note: 'No exact matches found. Here are some suggestions to explore.',
+        }
+      } else {
+        result = personalProfile ? { recommendations, personalized: true } : { recommendations }
       }
-    } else {
-      result = { recommendations }
-    }
 
-    // SECURITY: Validate result size before returning
-    return sanitizeAndValidateToolResult(result, 'getRecommendations')
-  },
+      // SECURITY: Validate result size before returning
+      return sanitizeAndValidateToolResult(result, 'getRecommendations')
+    },
+  }
 }
+
+/**
+ * Track Recommendations Tool (catalog metadata only, no listener history)
+ */
+export const getRecommendations = createGetRecommendationsTool()
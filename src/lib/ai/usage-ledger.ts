@@ -0,0 +1,219 @@
+/**
+ * MetaDJai Usage Ledger
+ *
+ * Pure core of the per-request AI usage ledger (`ai_usage`): the entry shape,
+ * the admin dashboard summary (cost per day/provider/model, p95 latency,
+ * failover rate, top tool calls), and CSV export.
+ *
+ * The summary is built from SQL aggregates, not raw rows; recording and
+ * loading live in `usage-recording.ts` (server-only).
+ *
+ * @module lib/ai/usage-ledger
+ */
+
+import { getAiQuotaDayKey } from '@/lib/ai/quotas'
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ENTRIES
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Chat routes, plus the background calls made for a conversation */
+export const AI_USAGE_ROUTES = ['stream', 'chat', 'compaction', 'memory'] as const
+
+export type AiUsageRoute = (typeof AI_USAGE_ROUTES)[number]
+
+/** Longest window the admin dashboard and export cover */
+export const AI_USAGE_MAX_DAYS = 90
+/** Ledger rows read per page while streaming the CSV export */
+export const AI_USAGE_EXPORT_PAGE_SIZE = 1_000
+/** Tool call names shown in the dashboard */
+export const AI_USAGE_TOP_TOOLS = 10
+
+export interface AiUsageLedgerEntry {
+  requestId: string | null
+  route: AiUsageRoute
+  userId: string | null
+  provider: string
+  model: string
+  inputTokens: number | null
+  outputTokens: number | null
+  totalTokens: number | null
+  costUsd: number | null
+  toolCalls: string[]
+  latencyMs: number
+  usedFallback: boolean
+  success: boolean
+  error: string | null
+  createdAt: Date
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// SUMMARY
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface AiUsageBreakdownRow {
+  requests: number
+  costUsd: number
+  tokens: number
+}
+
+export interface AiUsageSummary {
+  days: number
+  totals: AiUsageBreakdownRow & {
+    failedRequests: number
+    fallbackRequests: number
+    /** Share of requests answered by the fallback provider (null with no requests) */
+    failoverRate: number | null
+    /** 95th percentile latency of successful requests */
+    p95LatencyMs: number | null
+  }
+  costByDay: Array<AiUsageBreakdownRow & { day: string }>
+  costByProvider: Array<AiUsageBreakdownRow & { provider: string; failoverRate: number }>
+  costByModel: Array<AiUsageBreakdownRow & { provider: string; model: string; p95LatencyMs: number | null }>
+  topToolCalls: Array<{ name: string; count: number }>
+}
+
+/** Ledger totals grouped in SQL (`getAiUsageAggregatesSince`) */
+export interface AiUsageAggregates {
+  byDay: Array<AiUsageBreakdownRow & { day: string }>
+  byModel: Array<AiUsageBreakdownRow & {
+    provider: string
+    model: string
+    failedRequests: number
+    fallbackRequests: number
+    /** 95th percentile latency of successful requests */
+    p95LatencyMs: number | null
+  }>
+  p95LatencyMs: number | null
+  /** Most used tools, already ranked and limited */
+  toolCalls: Array<{ name: string; count: number }>
+}
+
+const emptyRow = (): AiUsageBreakdownRow => ({ requests: 0, costUsd: 0, tokens: 0 })
+
+function addToRow(row: AiUsageBreakdownRow, source: AiUsageBreakdownRow) {
+  row.requests += source.requests
+  row.costUsd += source.costUsd
+  row.tokens += source.tokens
+}
+
+const roundLatency = (value: number | null) => (value === null ? null : Math.round(value))
+
+/**
+ * UTC day keys for the last `days` days, oldest first
+ */
+function getWindowDays(days: number, now: Date): string[] {
+  return Array.from({ length: days }, (_, index) => {
+    const date = new Date(now)
+    date.setUTCDate(date.getUTCDate() - (days - 1 - index))
+    return getAiQuotaDayKey(date)
+  })
+}
+
+/**
+ * Shape ledger aggregates into the admin AI dashboard summary: every day in
+ * the window, providers rolled up from their models, most expensive first
+ */
+export function summarizeAiUsageAggregates(
+  aggregates: AiUsageAggregates,
+  options: { days: number; now?: Date }
+): AiUsageSummary {
+  const now = options.now ?? new Date()
+  const byDay = new Map(getWindowDays(options.days, now).map((day) => [day, emptyRow()]))
+  const byProvider = new Map<string, AiUsageBreakdownRow & { fallbackRequests: number }>()
+  const totals = emptyRow()
+  let failedRequests = 0
+  let fallbackRequests = 0
+
+  for (const { day, ...row } of aggregates.byDay) {
+    const dayRow = byDay.get(day)
+    if (dayRow) addToRow(dayRow, row)
+  }
+
+  for (const row of aggregates.byModel) {
+    addToRow(totals, row)
+    failedRequests += row.failedRequests
+    fallbackRequests += row.fallbackRequests
+
+    const providerRow = byProvider.get(row.provider) ?? { ...emptyRow(), fallbackRequests: 0 }
+    addToRow(providerRow, row)
+    providerRow.fallbackRequests += row.fallbackRequests
+    byProvider.set(row.provider, providerRow)
+  }
+
+  const byCost = <T extends AiUsageBreakdownRow>(a: T, b: T) => b.costUsd - a.costUsd || b.requests - a.requests
+
+  return {
+    days: options.days,
+    totals: {
+      ...totals,
+      failedRequests,
+      fallbackRequests,
+      failoverRate: totals.requests > 0 ? fallbackRequests / totals.requests : null,
+      p95LatencyMs: roundLatency(aggregates.p95LatencyMs),
+    },
+    costByDay: Array.from(byDay, ([day, row]) => ({ day, ...row })),
+    costByProvider: Array.from(byProvider, ([provider, { fallbackRequests: fallbacks, ...row }]) => ({
+      provider,
+      ...row,
+      failoverRate: row.requests > 0 ? fallbacks / row.requests : 0,
+    })).sort(byCost),
+    costByModel: aggregates.byModel
+      .map(({ provider, model, requests, costUsd, tokens, p95LatencyMs }) => ({
+        provider,
+        model,
+        requests,
+        costUsd,
+        tokens,
+        p95LatencyMs: roundLatency(p95LatencyMs),
+      }))
+      .sort(byCost),
+    topToolCalls: aggregates.toolCalls.slice(0, AI_USAGE_TOP_TOOLS),
+  }
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// CSV
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CSV_COLUMNS: Array<[string, (entry: AiUsageLedgerEntry) => string | number | boolean | null]> = [
+  ['created_at', (entry) => entry.createdAt.toISOString()],
+  ['request_id', (entry) => entry.requestId],
+  ['route', (entry) => entry.route],
+  ['user_id', (entry) => entry.userId],
+  ['provider', (entry) => entry.provider],
+  ['model', (entry) => entry.model],
+  ['input_tokens', (entry) => entry.inputTokens],
+  ['output_tokens', (entry) => entry.outputTokens],
+  ['total_tokens', (entry) => entry.totalTokens],
+  ['cost_usd', (entry) => entry.costUsd],
+  ['latency_ms', (entry) => entry.latencyMs],
+  ['used_fallback', (entry) => entry.usedFallback],
+  ['success', (entry) => entry.success],
+  ['tool_calls', (entry) => entry.toolCalls.join(';')],
+  ['error', (entry) => entry.error],
+]
+
+/**
+ * Quote a CSV field when needed. Leading formula characters are prefixed so
+ * spreadsheets don't evaluate provider error text.
+ */
+export function escapeCsvField(value: string | number | boolean | null): string {
+  if (value === null) return ''
+  let text = String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** CSV header line for the ledger export */
+export const AI_USAGE_CSV_HEADER = `${CSV_COLUMNS.map(([name]) => name).join(',')}\n`
+
+/**
+ * Ledger entries as CSV lines, one per request (no header; the export
+ * streams the header once, then a batch of rows per page)
+ */
+export function buildAiUsageCsvRows(entries: AiUsageLedgerEntry[]): string {
+  return entries
+    .map((entry) => `${CSV_COLUMNS.map(([, read]) => escapeCsvField(read(entry))).join(',')}\n`)
+    .join('')
+}
@@ -0,0 +1,153 @@
+/**
+ * MetaDJai Usage Recording
+ *
+ * Writes each chat request and background model call to the `ai_usage` ledger and loads ledger windows
+ * for the admin AI dashboard. Recording never throws: a failed insert is
+ * logged and the request carries on.
+ *
+ * @module lib/ai/usage-recording
+ */
+
+import 'server-only'
+import {
+  AI_USAGE_CSV_HEADER,
+  AI_USAGE_EXPORT_PAGE_SIZE,
+  AI_USAGE_TOP_TOOLS,
+  buildAiUsageCsvRows,
+  type AiUsageAggregates,
+  type AiUsageLedgerEntry,
+  type AiUsageRoute,
+} from '@/lib/ai/usage-ledger'
+import { logger } from '@/lib/logger'
+import { getAiUsageAggregatesSince, getAiUsagePage, recordAiUsage } from '../../../server/storage'
+import type { AiUsageRecord } from '../../../shared/schema'
+
+/** Longest error text kept per ledger row */
+const MAX_ERROR_LENGTH = 500
+
+/**
+ * Add one finished (or failed) chat request to the ledger; never throws
+ */
+export async function recordAiRequest(entry: Omit<AiUsageLedgerEntry, 'createdAt'>): Promise<void> {
+  try {
+    await recordAiUsage({
+      ...entry,
+      error: entry.error ? entry.error.slice(0, MAX_ERROR_LENGTH) : null,
+      latencyMs: Math.max(0, Math.round(entry.latencyMs)),
+    })
+  } catch (error) {
+    logger.warn('[AI Usage] Failed to record usage', {
+      requestId: entry.requestId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/**
+ * Add one background model call (conversation compaction, memory extraction)
+ * to the ledger. These run for a signed-in user without a client request ID,
+ * tools, or failover. Never throws.
+ */
+export async function recordBackgroundAiRequest(
+  route: Extract<AiUsageRoute, 'compaction' | 'memory'>,
+  call: {
+    userId: string
+    provider: string
+    model: string
+    startedAt: number
+    usage?: { inputTokens?: number; outputTokens?: number; totalTokens?: number }
+    costUsd?: number
+    error?: unknown
+  }
+): Promise<void> {
+  await recordAiRequest({
+    requestId: null,
+    route,
+    userId: call.userId,
+    provider: call.provider,
+    model: call.model,
+    inputTokens: call.usage?.inputTokens ?? null,
+    outputTokens: call.usage?.outputTokens ?? null,
+    totalTokens: call.usage?.totalTokens ?? null,
+    costUsd: call.costUsd ?? null,
+    toolCalls: [],
+    latencyMs: Date.now() - call.startedAt,
+    usedFallback: false,
+    success: call.error === undefined,
+    error: call.error === undefined
+      ? null
+      : call.error instanceof Error ? call.error.message : String(call.error),
+  })
+}
+
+/**
+ * Start of the window covering the last `days` UTC days, today included
+ */
+function getWindowStart(days: number): Date {
+  const now = new Date()
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() - (days - 1)))
+}
+
+function toLedgerEntry(row: AiUsageRecord): AiUsageLedgerEntry {
+  return {
+    requestId: row.requestId,
+    route: row.route as AiUsageRoute,
+    userId: row.userId,
+    provider: row.provider,
+    model: row.model,
+    inputTokens: row.inputTokens,
+    outputTokens: row.outputTokens,
+    totalTokens: row.totalTokens,
+    costUsd: row.costUsd,
+    toolCalls: row.toolCalls,
+    latencyMs: row.latencyMs,
+    usedFallback: row.usedFallback,
+    success: row.success,
+    error: row.error,
+    createdAt: row.createdAt,
+  }
+}
+
+/**
+ * Ledger aggregates for the last `days` UTC days, today included
+ */
+export async function loadAiUsageAggregates(days: number): Promise<AiUsageAggregates> {
+  return getAiUsageAggregatesSince(getWindowStart(days), AI_USAGE_TOP_TOOLS)
+}
+
+/**
+ * The ledger for the last `days` UTC days as a CSV stream (newest first).
+ * Rows are read a page at a time, so the whole window is exported without
+ * holding it in memory.
+ */
+export function createAiUsageCsvStream(days: number): ReadableStream<Uint8Array> {
+  const since = getWindowStart(days)
+  const encoder = new TextEncoder()
+  let after: AiUsageRecord | null = null
+  let headerSent = false
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (!headerSent) {
+        headerSent = true
+        controller.enqueue(encoder.encode(AI_USAGE_CSV_HEADER))
+        return
+      }
+
+      try {
+        const rows = await getAiUsagePage(since, after, AI_USAGE_EXPORT_PAGE_SIZE)
+        if (rows.length > 0) {
+          controller.enqueue(encoder.encode(buildAiUsageCsvRows(rows.map(toLedgerEntry))))
+          after = rows[rows.length - 1]
+        }
+        if (rows.length < AI_USAGE_EXPORT_PAGE_SIZE) controller.close()
+      } catch (error) {
+        // Headers are already sent; failing the stream aborts the download
+        logger.error('[AI Usage] Export failed mid-stream', {
+          error: error instanceof Error ? error.message : String(error),
+        })
+        controller.error(error)
+      }
+    },
+  })
+}
@@ -41,6 +41,7 @@ const roleSchema = z.enum(['user', 'assistant'] as const)
  * Single message schema with content validation
  */
 const messageSchema = z.object({
+  id: z.string().max(64).optional(),
   role: roleSchema,
   content: z.string()
     .min(1, 'Message content cannot be empty')
@@ -175,6 +176,7 @@ export const metaDjAiRequestSchema = z.object({
   context: contextSchema.optional(),
   modelPreference: providerSchema.optional(),
   personalization: personalizationSchema.optional(),
+  conversationId: z.string().min(1).max(64).optional(),
 })
 
 export type MetaDjAiRequestPayload = z.infer<typeof metaDjAiRequestSchema>
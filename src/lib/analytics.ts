@@ -252,6 +252,10 @@ export function trackShuffleToggled(enabled: boolean): void {
   trackEvent('shuffle_toggled', { enabled })
 }
 
+export function trackDjOrderToggled(enabled: boolean): void {
+  trackEvent('dj_order_toggled', { enabled })
+}
+
 export function trackResumeQueue(): void {
   trackEvent('resume_queue')
 }
@@ -551,7 +555,7 @@ export function trackQueueAction(props: QueueActionProps): void {
 export interface QueueRestoredProps {
   queueSize: number
   ageMinutes: number
-  context: 'collection' | 'search' | 'playlist'
+  context: 'collection' | 'search' | 'playlist' | 'smart-playlist'
 }
 
 export function trackQueueRestored(props: QueueRestoredProps): void {
@@ -0,0 +1,95 @@
+/**
+ * Shared Web Audio Graph
+ *
+ * One AudioContext for the app and, per media element, a single
+ * `MediaElementSource -> GainNode -> destination` chain. The analyzer taps the
+ * gain node's output and loudness normalization drives its gain.
+ *
+ * `createMediaElementSource` throws if called twice on the same element, so
+ * every consumer must go through `connectAudioElement` instead of building its
+ * own source. WeakMaps let detached elements be garbage collected.
+ */
+
+export interface AudioElementGraph {
+  context: AudioContext
+  source: MediaElementAudioSourceNode
+  gain: GainNode
+}
+
+/** Time constant for gain changes; short enough to land before audio is heard */
+const GAIN_SMOOTHING_SECONDS = 0.05
+
+let sharedContext: AudioContext | null = null
+const graphCache = new WeakMap<HTMLAudioElement, AudioElementGraph>()
+// Gains requested before the element was wired; applied when the graph is built
+const pendingGain = new WeakMap<HTMLAudioElement, number>()
+
+function getSharedAudioContext(): AudioContext {
+  if (!sharedContext || sharedContext.state === "closed") {
+    sharedContext = new AudioContext()
+  }
+  return sharedContext
+}
+
+/**
+ * Existing graph for an element, if it has been wired
+ */
+export function getAudioElementGraph(element: HTMLAudioElement): AudioElementGraph | null {
+  const graph = graphCache.get(element)
+  if (!graph || graph.context.state === "closed") return null
+  return graph
+}
+
+/**
+ * Route an element through the shared graph (idempotent).
+ * Call from a playback path (e.g. the `play` event) so the context isn't
+ * created before a user gesture; a suspended context silences the element.
+ */
+export function connectAudioElement(element: HTMLAudioElement): AudioElementGraph {
+  const existing = getAudioElementGraph(element)
+  if (existing) return existing
+
+  const context = getSharedAudioContext()
+  const source = context.createMediaElementSource(element)
+  const gain = context.createGain()
+  gain.gain.value = pendingGain.get(element) ?? 1
+
+  source.connect(gain)
+  gain.connect(context.destination)
+
+  const graph = { context, source, gain }
+  graphCache.set(element, graph)
+  return graph
+}
+
+/**
+ * Set the element's normalization gain (linear).
+ * Remembered until the element is wired when its graph doesn't exist yet.
+ */
+export function setAudioElementGain(element: HTMLAudioElement, value: number): void {
+  const gainValue = Number.isFinite(value) && value >= 0 ? value : 1
+  pendingGain.set(element, gainValue)
+
+  const graph = getAudioElementGraph(element)
+  if (!graph) return
+  graph.gain.gain.setTargetAtTime(gainValue, graph.context.currentTime, GAIN_SMOOTHING_SECONDS)
+}
+
+const streamDestinations = new WeakMap<HTMLAudioElement, MediaStreamAudioDestinationNode>()
+
+/**
+ * MediaStream of the element's post-gain output (for recording).
+ * Null until the element has been wired; the tap is created once per element.
+ */
+export function getAudioElementStream(element: HTMLAudioElement): MediaStream | null {
+  const graph = getAudioElementGraph(element)
+  if (!graph) return null
+
+  let destination = streamDestinations.get(element)
+  if (!destination || destination.context !== graph.context) {
+    destination = graph.context.createMediaStreamDestination()
+    graph.gain.connect(destination)
+    streamDestinations.set(element, destination)
+  }
+  return destination.stream
+}
@@ -0,0 +1,179 @@
+/**
+ * Beat Service
+ *
+ * Live beat tracking for a player element. A dedicated unsmoothed analyser
+ * taps the shared graph's post-gain output (see `audio-graph.ts`); each
+ * animation frame feeds its low-band spectral flux into the pure tracker in
+ * `beat-tracking.ts` and fans the resulting beat, downbeat, and phase events
+ * out to subscribers.
+ *
+ * One tracker runs per element no matter how many subscribers it has, and
+ * analysis only runs while something is subscribed and the element is
+ * playing. The analyser is only created once the element plays, so the
+ * AudioContext never starts before a user gesture.
+ */
+
+import { connectAudioElement, getAudioElementGraph } from "@/lib/audio/audio-graph"
+import {
+  BEAT_FLUX_MAX_HZ,
+  BEAT_FRAME_SIZE,
+  EMPTY_BEAT_SNAPSHOT,
+  computeSpectralFlux,
+  createBeatTracker,
+  stepBeatTracker,
+  type BeatEvent,
+  type BeatTrackerState,
+} from "@/lib/audio/beat-tracking"
+
+export type BeatListener = (event: BeatEvent) => void
+
+interface BeatChannel {
+  listeners: Set<BeatListener>
+  analyser: AnalyserNode | null
+  spectrum: Uint8Array<ArrayBuffer>
+  previousSpectrum: Uint8Array<ArrayBuffer> | null
+  tracker: BeatTrackerState
+  tempoHint: number | null
+  frame: number | null
+  detach: () => void
+}
+
+const channels = new WeakMap<HTMLAudioElement, BeatChannel>()
+// Analysers outlive channels; disconnecting can click on some browsers
+const analysers = new WeakMap<HTMLAudioElement, AnalyserNode>()
+
+function emit(channel: BeatChannel, event: BeatEvent) {
+  for (const listener of channel.listeners) listener(event)
+}
+
+/** Start over (new track, seek, tempo hint) and tell subscribers the clock stopped */
+function resetChannel(channel: BeatChannel) {
+  channel.tracker = createBeatTracker({ bpm: channel.tempoHint })
+  channel.previousSpectrum = null
+  emit(channel, { type: "phase", time: performance.now() / 1000, ...EMPTY_BEAT_SNAPSHOT })
+}
+
+function ensureAnalyser(element: HTMLAudioElement, channel: BeatChannel): AnalyserNode | null {
+  if (channel.analyser) return channel.analyser
+  try {
+    const { context, gain } = getAudioElementGraph(element) ?? connectAudioElement(element)
+    let analyser = analysers.get(element)
+    if (!analyser || analyser.context !== context) {
+      analyser = context.createAnalyser()
+      analyser.fftSize = BEAT_FRAME_SIZE
+      // Onsets need raw frames; the visual analyser's smoothing would blur them
+      analyser.smoothingTimeConstant = 0
+      gain.connect(analyser)
+      analysers.set(element, analyser)
+    }
+    channel.analyser = analyser
+    channel.spectrum = new Uint8Array(analyser.frequencyBinCount)
+    return analyser
+  } catch {
+    return null
+  }
+}
+
+function stopLoop(channel: BeatChannel) {
+  if (channel.frame !== null) {
+    cancelAnimationFrame(channel.frame)
+    channel.frame = null
+  }
+}
+
+function startLoop(element: HTMLAudioElement, channel: BeatChannel) {
+  if (channel.frame !== null || element.paused || channel.listeners.size === 0) return
+  const analyser = ensureAnalyser(element, channel)
+  if (!analyser) return
+
+  const fluxBins = Math.ceil((BEAT_FLUX_MAX_HZ / analyser.context.sampleRate) * analyser.fftSize)
+
+  const tick = () => {
+    analyser.getByteFrequencyData(channel.spectrum)
+    const previous = channel.previousSpectrum
+    const flux = previous ? computeSpectralFlux(previous, channel.spectrum, fluxBins) : 0
+
+    if (previous) previous.set(channel.spectrum)
+    else channel.previousSpectrum = channel.spectrum.slice()
+
+    const step = stepBeatTracker(channel.tracker, flux, performance.now() / 1000)
+    channel.tracker = step.state
+    for (const event of step.events) emit(channel, event)
+
+    channel.frame = requestAnimationFrame(tick)
+  }
+
+  channel.frame = requestAnimationFrame(tick)
+}
+
+function getChannel(element: HTMLAudioElement): BeatChannel {
+  const existing = channels.get(element)
+  if (existing) return existing
+
+  const channel: BeatChannel = {
+    listeners: new Set(),
+    analyser: null,
+    spectrum: new Uint8Array(BEAT_FRAME_SIZE / 2),
+    previousSpectrum: null,
+    tracker: createBeatTracker(),
+    tempoHint: null,
+    frame: null,
+    detach: () => {},
+  }
+
+  const handlePlay = () => startLoop(element, channel)
+  const handleStop = () => {
+    stopLoop(channel)
+    resetChannel(channel)
+  }
+
+  element.addEventListener("play", handlePlay)
+  element.addEventListener("pause", handleStop)
+  element.addEventListener("ended", handleStop)
+  element.addEventListener("seeking", handleStop)
+  element.addEventListener("seeked", handlePlay)
+  element.addEventListener("emptied", handleStop)
+
+  channel.detach = () => {
+    element.removeEventListener("play", handlePlay)
+    element.removeEventListener("pause", handleStop)
+    element.removeEventListener("ended", handleStop)
+    element.removeEventListener("seeking", handleStop)
+    element.removeEventListener("seeked", handlePlay)
+    element.removeEventListener("emptied", handleStop)
+  }
+
+  channels.set(element, channel)
+  return channel
+}
+
+/**
+ * Subscribe to beat, downbeat, and phase events for an element.
+ * Returns an unsubscribe function; analysis stops with the last subscriber.
+ */
+export function subscribeToBeats(element: HTMLAudioElement, listener: BeatListener): () => void {
+  const channel = getChannel(element)
+  channel.listeners.add(listener)
+  startLoop(element, channel)
+
+  return () => {
+    channel.listeners.delete(listener)
+    if (channel.listeners.size > 0) return
+    stopLoop(channel)
+    channel.detach()
+    channels.delete(element)
+  }
+}
+
+/**
+ * Seed the element's tracker with a known tempo (e.g. `Track.bpm`).
+ * Restarts tracking when the hint changes.
+ */
+export function setBeatTempoHint(element: HTMLAudioElement, bpm: number | null | undefined): void {
+  const channel = channels.get(element)
+  if (!channel) return
+  const hint = typeof bpm === "number" && bpm > 0 ? bpm : null
+  if (hint === channel.tempoHint) return
+  channel.tempoHint = hint
+  resetChannel(channel)
+}
@@ -0,0 +1,603 @@
+/**
+ * Beat Tracking
+ *
+ * Pure beat/onset tracker shared by the live beat service and offline PCM
+ * analysis. Each analysis frame contributes one spectral-flux value:
+ *
+ * - **Onsets**: flux rising above an adaptive threshold (recent mean plus
+ *   deviation, and a share of the recent peak so quiet passages stay quiet).
+ * - **Tempo**: intervals between recent onsets fill a histogram. Each
+ *   candidate period in 70–180 BPM is scored by the intervals at its
+ *   multiples (and half), so off-beat hats and three-beat gaps don't win. A
+ *   known track BPM adds a prior that settles half/double-time ambiguity.
+ * - **Beats**: a beat clock runs at the estimated period and is nudged toward
+ *   onsets that land near a predicted beat (phase locking). Onset strength is
+ *   also accumulated per position within the beat, so a clock anchored off
+ *   the beat (e.g. on intro noise) moves to where the onsets actually land.
+ * - **Downbeats**: onset strength is accumulated per beat position in the bar;
+ *   the strongest position is beat one.
+ *
+ * The step function never mutates its input state, so recorded fixtures
+ * replay identically.
+ *
+ * @module lib/audio/beat-tracking
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+export const BEAT_MIN_BPM = 70
+export const BEAT_MAX_BPM = 180
+export const BEATS_PER_BAR = 4
+/** FFT size for beat analysis (live analyser and offline frames) */
+export const BEAT_FRAME_SIZE = 1024
+/** Offline hop between analysis frames, in samples */
+export const BEAT_HOP_SIZE = 512
+/**
+ * Flux only looks below this frequency, so kicks and snares drive onsets
+ * rather than hats and cymbal wash
+ */
+export const BEAT_FLUX_MAX_HZ = 4000
+
+/** Seconds of flux history behind the adaptive onset threshold */
+const FLUX_WINDOW_SECONDS = 1
+/** Deviations above the recent mean an onset must reach */
+const ONSET_DEVIATIONS = 1.5
+/** Share of the recent peak flux an onset must reach */
+const ONSET_PEAK_SHARE = 0.2
+/** Time constant for the recent-peak decay */
+const PEAK_DECAY_SECONDS = 4
+/** Short enough that a swung hat just before the kick doesn't mask it */
+const MIN_ONSET_INTERVAL_SECONDS = 0.08
+
+/** Onsets kept for interval voting (also the longest interval) */
+const ONSET_MEMORY_SECONDS = 4
+/** Interval histogram resolution */
+const INTERVAL_BIN_SECONDS = 0.01
+/** Time constant for forgetting old interval votes */
+const TEMPO_MEMORY_SECONDS = 8
+/** Weights for the intervals at 1–4 periods and half a period */
+const TEMPO_HARMONIC_WEIGHTS = [1, 0.8, 0.5, 0.6] as const
+const TEMPO_HALF_WEIGHT = 0.4
+/** Score boost at the track BPM and its width (log-tempo) */
+const TEMPO_SEED_PRIOR = 1.5
+const TEMPO_SEED_WIDTH = 0.04
+/** Score needed before an unseeded tempo is trusted */
+const TEMPO_MIN_SCORE = 3
+/** Relative period change treated as a new tempo rather than drift */
+const TEMPO_JUMP_RATIO = 0.08
+
+/** Onsets within this share of a period count as on the beat */
+const PHASE_TOLERANCE = 0.15
+/** How far an on-beat onset pulls the beat clock toward it */
+const PHASE_CORRECTION = 0.35
+/** How far the beat period follows a nearby tempo estimate per onset */
+const PERIOD_CORRECTION = 0.2
+/** Confidence smoothing per onset */
+const CONFIDENCE_RATE = 0.15
+/** Per-beat decay of the downbeat accents (about eight bars of memory) */
+const BAR_ACCENT_DECAY = 0.97
+/** Lead another beat position needs before it becomes the downbeat */
+const BAR_ACCENT_MARGIN = 1.1
+/** Positions within a beat that onsets are credited to for phase recovery */
+const PHASE_BINS = 8
+/** Per-onset decay of the phase accents */
+const PHASE_ACCENT_DECAY = 0.9
+/** Lead another phase needs before the beat clock moves there */
+const PHASE_ACCENT_MARGIN = 1.5
+/** Confidence at which renderers trust the beat clock over level-based detection */
+const BEAT_LOCK_CONFIDENCE = 0.4
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Where the beat clock is; what render loops read each frame */
+export interface BeatSnapshot {
+  /** Estimated tempo (null until the tracker has one) */
+  bpm: number | null
+  /** Progress through the current beat (0 at the beat, approaching 1) */
+  phase: number
+  /** Progress through the current bar */
+  barPhase: number
+  /** Beat position in the bar (0 = downbeat) */
+  beatInBar: number
+  /** How well recent onsets agree with the beat clock (0–1) */
+  confidence: number
+}
+
+export type BeatEvent =
+  | { type: "beat"; time: number; beatIndex: number; beatInBar: number; bpm: number; confidence: number }
+  | { type: "downbeat"; time: number; bar: number; bpm: number; confidence: number }
+  | ({ type: "phase"; time: number } & BeatSnapshot)
+
+export interface BeatTrackerOptions {
+  /** Known tempo (e.g. `Track.bpm`); seeds the estimate */
+  bpm?: number | null
+}
+
+export interface BeatTrackerState {
+  seedBpm: number | null
+  lastTime: number | null
+  // Onset detection
+  fluxHistory: { time: number; flux: number }[]
+  previousFlux: number
+  peakFlux: number
+  lastOnsetTime: number | null
+  // Tempo
+  onsetTimes: number[]
+  intervalHistogram: number[]
+  lastVoteTime: number | null
+  period: number | null
+  // Beat clock
+  lastBeatTime: number | null
+  nextBeatTime: number | null
+  beatIndex: number
+  confidence: number
+  /** Onset strength by position within the beat (bin 0 = on the clock) */
+  phaseAccents: number[]
+  // Downbeats
+  barAccents: number[]
+  downbeatOffset: number
+}
+
+export interface BeatTrackerStep {
+  state: BeatTrackerState
+  /** Whether this frame was an onset */
+  onset: boolean
+  events: BeatEvent[]
+}
+
+export const EMPTY_BEAT_SNAPSHOT: BeatSnapshot = {
+  bpm: null,
+  phase: 0,
+  barPhase: 0,
+  beatInBar: 0,
+  confidence: 0,
+}
+
+// =============================================================================
+// Spectral Flux
+// =============================================================================
+
+/**
+ * Average positive change between two magnitude spectra (half-wave rectified),
+ * over the first `binCount` bins
+ */
+export function computeSpectralFlux(
+  previous: ArrayLike<number>,
+  current: ArrayLike<number>,
+  binCount = Math.min(previous.length, current.length),
+): number {
+  const count = Math.min(binCount, previous.length, current.length)
+  if (count === 0) return 0
+
+  let flux = 0
+  for (let i = 0; i < count; i++) {
+    const rise = current[i] - previous[i]
+    if (rise > 0) flux += rise
+  }
+  return flux / count
+}
+
+/**
+ * Log-compressed magnitude spectrum of one frame (Hann window, radix-2 FFT).
+ * The frame length must be a power of two; returns `length / 2` bins.
+ */
+export function computeMagnitudeSpectrum(frame: ArrayLike<number>): Float32Array {
+  const size = frame.length
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error("Frame length must be a power of two")
+  }
+
+  const re = new Float64Array(size)
+  const im = new Float64Array(size)
+  for (let i = 0; i < size; i++) {
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1))
+    re[i] = frame[i] * window
+  }
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < size; i++) {
+    let bit = size >> 1
+    for (; j & bit; bit >>= 1) j ^= bit
+    j ^= bit
+    if (i < j) {
+      ;[re[i], re[j]] = [re[j], re[i]]
+    }
+  }
+
+  // Butterflies
+  for (let length = 2; length <= size; length <<= 1) {
+    const angle = (-2 * Math.PI) / length
+    const stepRe = Math.cos(angle)
+    const stepIm = Math.sin(angle)
+    for (let start = 0; start < size; start += length) {
+      let wRe = 1
+      let wIm = 0
+      for (let k = 0; k < length / 2; k++) {
+        const a = start + k
+        const b = a + length / 2
+        const tRe = re[b] * wRe - im[b] * wIm
+        const tIm = re[b] * wIm + im[b] * wRe
+        re[b] = re[a] - tRe
+        im[b] = im[a] - tIm
+        re[a] += tRe
+        im[a] += tIm
+        const nextRe = wRe * stepRe - wIm * stepIm
+        wIm = wRe * stepIm + wIm * stepRe
+        wRe = nextRe
+      }
+    }
+  }
+
+  const bins = new Float32Array(size / 2)
+  for (let i = 0; i < bins.length; i++) {
+    bins[i] = Math.log1p(100 * Math.hypot(re[i], im[i]))
+  }
+  return bins
+}
+
+// =============================================================================
+// Tracker
+// =============================================================================
+
+const HISTOGRAM_SIZE = Math.ceil(ONSET_MEMORY_SECONDS / INTERVAL_BIN_SECONDS) + 1
+
+/**
+ * Fold a tempo into the tracked range by halving/doubling (null if invalid)
+ */
+export function foldBpm(bpm: number): number | null {
+  if (!Number.isFinite(bpm) || bpm <= 0) return null
+  let folded = bpm
+  while (folded < BEAT_MIN_BPM) folded *= 2
+  while (folded >= BEAT_MAX_BPM) folded /= 2
+  return folded
+}
+
+function voteInterval(histogram: number[], interval: number) {
+  const bin = Math.round(interval / INTERVAL_BIN_SECONDS)
+  if (bin > 0 && bin < histogram.length) histogram[bin] += 1
+}
+
+/** Histogram weight near an interval (±2 bins, triangular) */
+function readInterval(histogram: number[], interval: number) {
+  const center = interval / INTERVAL_BIN_SECONDS
+  let total = 0
+  for (let bin = Math.floor(center) - 2; bin <= Math.ceil(center) + 2; bin++) {
+    if (bin <= 0 || bin >= histogram.length) continue
+    total += histogram[bin] * Math.max(0, 1 - Math.abs(bin - center) / 3)
+  }
+  return total
+}
+
+/**
+ * Best-scoring tempo for the interval histogram (null when nothing scores)
+ */
+function estimateTempo(histogram: number[], seedBpm: number | null): { bpm: number; score: number } | null {
+  let best: { bpm: number; score: number } | null = null
+
+  for (let bpm = BEAT_MIN_BPM; bpm < BEAT_MAX_BPM; bpm += 0.25) {
+    const period = 60 / bpm
+    let score = readInterval(histogram, period / 2) * TEMPO_HALF_WEIGHT
+    TEMPO_HARMONIC_WEIGHTS.forEach((weight, index) => {
+      score += readInterval(histogram, period * (index + 1)) * weight
+    })
+    if (seedBpm) {
+      const distance = Math.log(bpm / seedBpm) / TEMPO_SEED_WIDTH
+      score *= 1 + TEMPO_SEED_PRIOR * Math.exp(-(distance * distance) / 2)
+    }
+    if (!best || score > best.score) best = { bpm, score }
+  }
+
+  return best && best.score > 0 ? best : null
+}
+
+/**
+ * Fresh tracker state; a valid `bpm` starts the beat clock at that tempo
+ */
+export function createBeatTracker(options: BeatTrackerOptions = {}): BeatTrackerState {
+  const seedBpm = options.bpm ? foldBpm(options.bpm) : null
+
+  return {
+    seedBpm,
+    lastTime: null,
+    fluxHistory: [],
+    previousFlux: 0,
+    peakFlux: 0,
+    lastOnsetTime: null,
+    onsetTimes: [],
+    intervalHistogram: new Array<number>(HISTOGRAM_SIZE).fill(0),
+    lastVoteTime: null,
+    period: seedBpm ? 60 / seedBpm : null,
+    lastBeatTime: null,
+    nextBeatTime: null,
+    beatIndex: -1,
+    confidence: seedBpm ? 0.5 : 0,
+    phaseAccents: new Array<number>(PHASE_BINS).fill(0),
+    barAccents: new Array<number>(BEATS_PER_BAR).fill(0),
+    downbeatOffset: 0,
+  }
+}
+
+function mod(value: number, divisor: number) {
+  return ((value % divisor) + divisor) % divisor
+}
+
+function strongestPosition(accents: number[], current: number, margin = BAR_ACCENT_MARGIN) {
+  let best = current
+  for (let i = 0; i < accents.length; i++) {
+    if (accents[i] > accents[best]) best = i
+  }
+  return accents[best] > accents[current] * margin ? best : current
+}
+
+/**
+ * Advance the tracker by one analysis frame
+ *
+ * @param flux Spectral flux for the frame (any consistent scale)
+ * @param time Frame time in seconds (monotonic)
+ */
+export function stepBeatTracker(state: BeatTrackerState, flux: number, time: number): BeatTrackerStep {
+  const dt = state.lastTime === null ? 0 : Math.max(0, time - state.lastTime)
+  const value = Number.isFinite(flux) && flux > 0 ? flux : 0
+
+  // === Onset detection ===
+  // Threshold from the frames before this one
+  const recent = state.fluxHistory.filter((entry) => time - entry.time <= FLUX_WINDOW_SECONDS)
+  const mean = recent.length ? recent.reduce((sum, entry) => sum + entry.flux, 0) / recent.length : 0
+  const variance = recent.length ? recent.reduce((sum, entry) => sum + (entry.flux - mean) ** 2, 0) / recent.length : 0
+  const threshold = Math.max(mean + ONSET_DEVIATIONS * Math.sqrt(variance), state.peakFlux * ONSET_PEAK_SHARE)
+  const peakFlux = Math.max(value, state.peakFlux * Math.exp(-dt / PEAK_DECAY_SECONDS))
+
+  const onset =
+    value > 0 &&
+    value > threshold &&
+    state.previousFlux <= value &&
+    (state.lastOnsetTime === null || time - state.lastOnsetTime >= MIN_ONSET_INTERVAL_SECONDS)
+
+  let onsetTimes = state.onsetTimes
+  let intervalHistogram = state.intervalHistogram
+  let lastVoteTime = state.lastVoteTime
+  let period = state.period
+
+  // === Tempo (inter-onset intervals) ===
+  if (onset) {
+    intervalHistogram = [...state.intervalHistogram]
+    if (lastVoteTime !== null) {
+      const decay = Math.exp(-(time - lastVoteTime) / TEMPO_MEMORY_SECONDS)
+      for (let i = 0; i < intervalHistogram.length; i++) intervalHistogram[i] *= decay
+    }
+    lastVoteTime = time
+
+    onsetTimes = state.onsetTimes.filter((previous) => time - previous <= ONSET_MEMORY_SECONDS)
+    for (const previous of onsetTimes) voteInterval(intervalHistogram, time - previous)
+    onsetTimes = [...onsetTimes, time]
+
+    const tempo = estimateTempo(intervalHistogram, state.seedBpm)
+    if (tempo && tempo.score >= TEMPO_MIN_SCORE) {
+      const target = 60 / tempo.bpm
+      period =
+        period === null || Math.abs(target / period - 1) > TEMPO_JUMP_RATIO
+          ? target
+          : period + (target - period) * PERIOD_CORRECTION
+    }
+  }
+
+  const events: BeatEvent[] = []
+  let lastBeatTime = state.lastBeatTime
+  let nextBeatTime = state.nextBeatTime
+  let beatIndex = state.beatIndex
+  let confidence = state.confidence
+  let phaseAccents = state.phaseAccents
+  let barAccents = state.barAccents
+  let downbeatOffset = state.downbeatOffset
+
+  // === Beat clock ===
+  if (period !== null) {
+    if (nextBeatTime === null) {
+      // Anchor the clock on the first onset
+      if (onset) nextBeatTime = time
+    } else {
+      // Resume after a long gap without replaying missed beats
+      if (time - nextBeatTime > period * BEATS_PER_BAR) {
+        const skipped = Math.floor((time - nextBeatTime) / period)
+        beatIndex += skipped
+        nextBeatTime += skipped * period
+      }
+
+      if (onset && lastBeatTime !== null) {
+        const sinceBeat = time - lastBeatTime
+        const untilBeat = nextBeatTime - time
+        const error = sinceBeat < untilBeat ? sinceBeat : -untilBeat
+        const aligned = Math.abs(error) <= period * PHASE_TOLERANCE
+
+        if (aligned) {
+          if (error < 0) {
+            // Onset just ahead of the predicted beat: land the beat on it
+            nextBeatTime = time
+          } else {
+            nextBeatTime += error * PHASE_CORRECTION
+          }
+        }
+        confidence += ((aligned ? 1 : 0) - confidence) * CONFIDENCE_RATE
+      }
+    }
+
+    while (nextBeatTime !== null && nextBeatTime <= time) {
+      beatIndex += 1
+      lastBeatTime = nextBeatTime
+      nextBeatTime += period
+
+      barAccents = barAccents.map((accent) => accent * BAR_ACCENT_DECAY)
+
+      const bpm = 60 / period
+      const beatInBar = mod(beatIndex - downbeatOffset, BEATS_PER_BAR)
+      events.push({ type: "beat", time: lastBeatTime, beatIndex, beatInBar, bpm, confidence })
+      if (beatInBar === 0) {
+        events.push({
+          type: "downbeat",
+          time: lastBeatTime,
+          bar: Math.floor((beatIndex - downbeatOffset) / BEATS_PER_BAR),
+          bpm,
+          confidence,
+        })
+      }
+    }
+
+    // Credit every onset to its position within the beat. When another
+    // position clearly dominates, the clock is off the beat (for example
+    // anchored on intro noise) and only follows small errors, so move it there
+    if (onset && lastBeatTime !== null && nextBeatTime !== null && peakFlux > 0) {
+      const bin = mod(Math.round(((time - lastBeatTime) / period) * PHASE_BINS), PHASE_BINS)
+      phaseAccents = phaseAccents.map((accent) => accent * PHASE_ACCENT_DECAY)
+      phaseAccents[bin] += value / peakFlux
+
+      const shift = strongestPosition(phaseAccents, 0, PHASE_ACCENT_MARGIN)
+      if (shift !== 0) {
+        nextBeatTime = lastBeatTime + (shift / PHASE_BINS) * period
+        if (nextBeatTime <= time) nextBeatTime += period
+        phaseAccents = phaseAccents.map((_, index) => phaseAccents[(index + shift) % PHASE_BINS])
+      }
+    }
+
+    // Credit on-beat onsets to their beat position in the bar
+    if (onset && lastBeatTime !== null && nextBeatTime !== null && peakFlux > 0) {
+      const sinceBeat = time - lastBeatTime
+      const untilBeat = nextBeatTime - time
+      const nearest = sinceBeat <= untilBeat ? beatIndex : beatIndex + 1
+      if (Math.min(sinceBeat, untilBeat) > period * PHASE_TOLERANCE) {
+        // Off-beat onset (hats, syncopation)
+      } else {
+        if (barAccents === state.barAccents) barAccents = [...barAccents]
+        barAccents[mod(nearest, BEATS_PER_BAR)] += value / peakFlux
+        downbeatOffset = strongestPosition(barAccents, downbeatOffset)
+      }
+    }
+  }
+
+  if (period !== null && lastBeatTime !== null && nextBeatTime !== null) {
+    const phase = Math.min(1, Math.max(0, (time - lastBeatTime) / (nextBeatTime - lastBeatTime)))
+    const beatInBar = mod(beatIndex - downbeatOffset, BEATS_PER_BAR)
+    events.push({
+      type: "phase",
+      time,
+      bpm: 60 / period,
+      phase,
+      barPhase: (beatInBar + phase) / BEATS_PER_BAR,
+      beatInBar,
+      confidence,
+    })
+  }
+
+  return {
+    onset,
+    events,
+    state: {
+      seedBpm: state.seedBpm,
+      lastTime: time,
+      fluxHistory: [...recent, { time, flux: value }],
+      previousFlux: value,
+      peakFlux,
+      lastOnsetTime: onset ? time : state.lastOnsetTime,
+      onsetTimes,
+      intervalHistogram,
+      lastVoteTime,
+      period,
+      lastBeatTime,
+      nextBeatTime,
+      beatIndex,
+      confidence,
+      phaseAccents,
+      barAccents,
+      downbeatOffset,
+    },
+  }
+}
+
+// =============================================================================
+// Rendering Helpers
+// =============================================================================
+
+/**
+ * Beat accent for render loops: 1 on the beat, decaying through the beat and
+ * scaled by confidence (0 while the tracker has no tempo)
+ */
+export function getBeatPulse(snapshot: BeatSnapshot | null | undefined, sharpness = 4): number {
+  if (!snapshot || snapshot.bpm === null) return 0
+  return Math.pow(1 - snapshot.phase, sharpness) * Math.min(1, snapshot.confidence * 1.5)
+}
+
+/**
+ * Like `getBeatPulse`, but only on beat one of the bar
+ */
+export function getDownbeatPulse(snapshot: BeatSnapshot | null | undefined, sharpness = 3): number {
+  if (!snapshot || snapshot.beatInBar !== 0) return 0
+  return getBeatPulse(snapshot, sharpness)
+}
+
+/**
+ * Whether the beat clock is confident enough to replace level-based beat
+ * detection in a renderer
+ */
+export function isBeatLocked(snapshot: BeatSnapshot | null | undefined): snapshot is BeatSnapshot {
+  return !!snapshot && snapshot.bpm !== null && snapshot.confidence >= BEAT_LOCK_CONFIDENCE
+}
+
+/**
+ * Whether a beat landed since the frame that saw `previousPhase` (the phase
+ * wrapped). For render loops that trigger one-shot effects from the snapshot.
+ */
+export function crossedBeat(previousPhase: number, snapshot: BeatSnapshot | null | undefined): boolean {
+  return !!snapshot && snapshot.bpm !== null && snapshot.phase < previousPhase
+}
+
+// =============================================================================
+// Offline Analysis
+// =============================================================================
+
+export interface BeatAnalysis {
+  /** Final tempo estimate */
+  bpm: number | null
+  onsets: number[]
+  beats: number[]
+  downbeats: number[]
+}
+
+/**
+ * Run the tracker over mono PCM (e.g. a recorded fixture), frame by frame
+ */
+export function analyzeBeats(
+  samples: Float32Array,
+  sampleRate: number,
+  options: BeatTrackerOptions & { frameSize?: number; hopSize?: number } = {},
+): BeatAnalysis {
+  const frameSize = options.frameSize ?? BEAT_FRAME_SIZE
+  const hopSize = options.hopSize ?? BEAT_HOP_SIZE
+  const result: BeatAnalysis = { bpm: null, onsets: [], beats: [], downbeats: [] }
+
+  const fluxBins = Math.ceil((BEAT_FLUX_MAX_HZ / sampleRate) * frameSize)
+
+  let state = createBeatTracker(options)
+  let previous: Float32Array | null = null
+
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    const spectrum = computeMagnitudeSpectrum(samples.subarray(start, start + frameSize))
+    const flux = previous ? computeSpectralFlux(previous, spectrum, fluxBins) : 0
+    previous = spectrum
+
+    const time = (start + frameSize / 2) / sampleRate
+    const step = stepBeatTracker(state, flux, time)
+    state = step.state
+
+    if (step.onset) result.onsets.push(time)
+    for (const event of step.events) {
+      if (event.type === "beat") result.beats.push(event.time)
+      else if (event.type === "downbeat") result.downbeats.push(event.time)
+    }
+  }
+
+  result.bpm = state.period === null ? null : 60 / state.period
+  return result
+}
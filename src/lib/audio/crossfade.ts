@@ -0,0 +1,68 @@
+/**
+ * Crossfade Settings
+ *
+ * Pure helpers shared by the audio settings hook, the preferences API, and
+ * `useAudioPlayback`: crossfade length bounds, curve validation, and the
+ * per-element gains at a point in a transition.
+ */
+
+export type CrossfadeCurve = "linear" | "equal-power" | "s-curve"
+
+export const CROSSFADE_CURVES: readonly CrossfadeCurve[] = ["linear", "equal-power", "s-curve"]
+
+export const CROSSFADE_DURATION_MIN_SECONDS = 0
+export const CROSSFADE_DURATION_MAX_SECONDS = 12
+/** Slider step; durations are stored rounded to this */
+export const CROSSFADE_DURATION_STEP_SECONDS = 0.5
+
+export const DEFAULT_CROSSFADE_DURATION_SECONDS = 3
+export const DEFAULT_CROSSFADE_CURVE: CrossfadeCurve = "equal-power"
+
+export const CROSSFADE_CURVE_LABELS: Record<CrossfadeCurve, string> = {
+  linear: "Linear",
+  "equal-power": "Equal power",
+  "s-curve": "S-curve",
+}
+
+export function isCrossfadeCurve(value: unknown): value is CrossfadeCurve {
+  return typeof value === "string" && (CROSSFADE_CURVES as readonly string[]).includes(value)
+}
+
+/**
+ * Clamp a crossfade length to 0–12s on the slider step.
+ * Returns null for non-numeric input so callers can keep their current value.
+ */
+export function normalizeCrossfadeDuration(value: unknown): number | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) return null
+  const clamped = Math.min(
+    CROSSFADE_DURATION_MAX_SECONDS,
+    Math.max(CROSSFADE_DURATION_MIN_SECONDS, value)
+  )
+  return Math.round(clamped / CROSSFADE_DURATION_STEP_SECONDS) * CROSSFADE_DURATION_STEP_SECONDS
+}
+
+/**
+ * Gains for the outgoing and incoming tracks at `progress` (0–1) through a fade.
+ *
+ * - `linear`: straight ramps (audible dip in the middle for uncorrelated material)
+ * - `equal-power`: sine/cosine ramps that keep perceived loudness constant
+ * - `s-curve`: smoothstep ramps; holds each track longer, swaps quickly mid-fade
+ */
+export function getCrossfadeGains(
+  curve: CrossfadeCurve,
+  progress: number
+): { fadeOut: number; fadeIn: number } {
+  const t = Math.min(1, Math.max(0, progress))
+
+  switch (curve) {
+    case "linear":
+      return { fadeOut: 1 - t, fadeIn: t }
+    case "s-curve": {
+      const fadeIn = t * t * (3 - 2 * t)
+      return { fadeOut: 1 - fadeIn, fadeIn }
+    }
+    case "equal-power":
+    default:
+      return { fadeOut: Math.cos((t * Math.PI) / 2), fadeIn: Math.sin((t * Math.PI) / 2) }
+  }
+}
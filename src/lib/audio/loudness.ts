@@ -0,0 +1,113 @@
+/**
+ * Loudness Normalization
+ *
+ * Pure helpers that turn the offline loudness analysis stored on each track
+ * (`loudnessLufs` / `peakDb`, written by `scripts/analyze-loudness.js`) into a
+ * playback gain. Track mode levels every track to the target; album mode
+ * applies one gain per collection so the dynamics between its tracks survive.
+ */
+
+import type { Track } from "@/types"
+
+export type LoudnessNormalizationMode = "track" | "album" | "off"
+
+export const LOUDNESS_NORMALIZATION_MODES: readonly LoudnessNormalizationMode[] = ["track", "album", "off"]
+
+export const DEFAULT_LOUDNESS_NORMALIZATION_MODE: LoudnessNormalizationMode = "track"
+
+export const LOUDNESS_NORMALIZATION_LABELS: Record<LoudnessNormalizationMode, string> = {
+  track: "Track",
+  album: "Album",
+  off: "Off",
+}
+
+/** Integrated loudness every track (or collection) is levelled to */
+export const LOUDNESS_TARGET_LUFS = -14
+/** Boosts never push the measured peak above this ceiling */
+export const LOUDNESS_PEAK_CEILING_DB = -1
+/** Hard bounds so bad metadata can't produce extreme gains */
+export const MAX_NORMALIZATION_BOOST_DB = 12
+export const MAX_NORMALIZATION_CUT_DB = -24
+
+export interface CollectionLoudness {
+  /** Energy-averaged integrated loudness of the collection's analysed tracks */
+  loudnessLufs: number
+  /** Loudest peak across the collection (null when no track has a peak) */
+  peakDb: number | null
+}
+
+export function isLoudnessNormalizationMode(value: unknown): value is LoudnessNormalizationMode {
+  return typeof value === "string" && (LOUDNESS_NORMALIZATION_MODES as readonly string[]).includes(value)
+}
+
+export function dbToGain(db: number): number {
+  return Math.pow(10, db / 20)
+}
+
+/**
+ * Collection-level loudness for album mode.
+ * Averages in the energy domain (like measuring the album as one programme)
+ * and keeps the loudest peak. Returns null when no track was analysed.
+ */
+export function getCollectionLoudness(tracks: Track[]): CollectionLoudness | null {
+  let energySum = 0
+  let count = 0
+  let peakDb: number | null = null
+
+  for (const track of tracks) {
+    if (typeof track.loudnessLufs !== "number") continue
+    energySum += Math.pow(10, track.loudnessLufs / 10)
+    count++
+    if (typeof track.peakDb === "number") {
+      peakDb = peakDb === null ? track.peakDb : Math.max(peakDb, track.peakDb)
+    }
+  }
+
+  if (count === 0) return null
+  return { loudnessLufs: 10 * Math.log10(energySum / count), peakDb }
+}
+
+function computeGainDb(loudnessLufs: number, peakDb: number | null | undefined): number {
+  let gainDb = LOUDNESS_TARGET_LUFS - loudnessLufs
+  if (typeof peakDb === "number") {
+    gainDb = Math.min(gainDb, LOUDNESS_PEAK_CEILING_DB - peakDb)
+  }
+  return Math.min(MAX_NORMALIZATION_BOOST_DB, Math.max(MAX_NORMALIZATION_CUT_DB, gainDb))
+}
+
+/**
+ * Normalization gain in dB for a track.
+ *
+ * - `off`, or a track without analysis: 0 dB
+ * - `track`: level the track itself to the target
+ * - `album`: level the track's collection as a whole; falls back to track
+ *   mode when no collection loudness is available
+ */
+export function getNormalizationGainDb(
+  track: Pick<Track, "loudnessLufs" | "peakDb"> | null | undefined,
+  mode: LoudnessNormalizationMode,
+  collection?: CollectionLoudness | null
+): number {
+  if (mode === "off" || !track || typeof track.loudnessLufs !== "number") return 0
+
+  if (mode === "album" && collection) {
+    return computeGainDb(collection.loudnessLufs, collection.peakDb)
+  }
+  return computeGainDb(track.loudnessLufs, track.peakDb)
+}
+
+/**
+ * Linear gain for a GainNode, resolving album loudness from `catalog`
+ * (all known tracks) when album mode is on.
+ */
+export function getNormalizationGain(
+  track: Track | null | undefined,
+  mode: LoudnessNormalizationMode,
+  catalog: Track[] = []
+): number {
+  if (!track) return 1
+  const collection = mode === "album"
+    ? getCollectionLoudness(catalog.filter((candidate) => candidate.collection === track.collection))
+    : null
+  return dbToGain(getNormalizationGainDb(track, mode, collection))
+}
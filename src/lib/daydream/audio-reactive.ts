@@ -0,0 +1,110 @@
+/**
+ * Dream Audio-Reactive Prompts
+ *
+ * Pure mapping from audio analyzer band levels (bass/mid/high, 0-1) to a
+ * Dream prompt mix: each band adds an accent prompt whose weight follows its
+ * level, and overall energy picks one of a few seeds near the stream seed.
+ *
+ * Weights are quantized so small level wobbles don't produce new PATCHes;
+ * useDream still spaces whatever changes remain by `PATCH_CONFIG.MIN_INTERVAL_MS`.
+ *
+ * @module lib/daydream/audio-reactive
+ */
+
+import { DEFAULT_STREAM_PAYLOAD, type DreamWeightedPrompt } from "@/lib/daydream/config"
+import { PATCH_CONFIG } from "@/lib/daydream/utils"
+import type { DreamAudioLevels, DreamReactiveMix } from "@/types/daydream.types"
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Accent prompt blended in for each band */
+export const DREAM_REACTIVE_ACCENTS: Record<keyof DreamAudioLevels, string> = {
+  bass: "pulsing bass shockwaves",
+  mid: "flowing vivid color",
+  high: "glittering light particles",
+}
+
+/** Weight of an accent at full level (the base prompt is always 1) */
+export const DREAM_REACTIVE_MAX_ACCENT_WEIGHT = 0.6
+
+/** Accent weights snap to multiples of this */
+export const DREAM_REACTIVE_WEIGHT_STEP = 0.1
+
+/** Number of energy buckets; each maps to a seed offset from the stream seed */
+export const DREAM_REACTIVE_SEED_BUCKETS = 4
+
+/** How often analyzer levels are averaged into a new mix */
+export const DREAM_REACTIVE_WINDOW_MS = PATCH_CONFIG.MIN_INTERVAL_MS
+
+/** How often analyzer levels are sampled within a window */
+export const DREAM_REACTIVE_SAMPLE_MS = 250
+
+const BANDS = ["bass", "mid", "high"] as const
+
+const clampLevel = (value: number) => (Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0)
+
+// =============================================================================
+// Mixing
+// =============================================================================
+
+/**
+ * Average a window of analyzer samples (silence for an empty window)
+ */
+export function averageDreamAudioLevels(samples: DreamAudioLevels[]): DreamAudioLevels {
+  if (samples.length === 0) return { bass: 0, mid: 0, high: 0 }
+  const totals = { bass: 0, mid: 0, high: 0 }
+  for (const sample of samples) {
+    for (const band of BANDS) totals[band] += clampLevel(sample[band])
+  }
+  return {
+    bass: totals.bass / samples.length,
+    mid: totals.mid / samples.length,
+    high: totals.high / samples.length,
+  }
+}
+
+function quantizeWeight(level: number): number {
+  const steps = Math.round((clampLevel(level) * DREAM_REACTIVE_MAX_ACCENT_WEIGHT) / DREAM_REACTIVE_WEIGHT_STEP)
+  return Number((steps * DREAM_REACTIVE_WEIGHT_STEP).toFixed(2))
+}
+
+/**
+ * Build the prompt mix for a set of band levels.
+ * Bass drives energy (and so the seed) most, matching how the visualizers react.
+ */
+export function computeDreamReactiveMix(
+  levels: DreamAudioLevels,
+  baseSeed: number = DEFAULT_STREAM_PAYLOAD.params.seed,
+): DreamReactiveMix {
+  const energy = 0.5 * clampLevel(levels.bass) + 0.3 * clampLevel(levels.mid) + 0.2 * clampLevel(levels.high)
+  const bucket = Math.min(DREAM_REACTIVE_SEED_BUCKETS - 1, Math.floor(energy * DREAM_REACTIVE_SEED_BUCKETS))
+
+  return {
+    weights: {
+      bass: quantizeWeight(levels.bass),
+      mid: quantizeWeight(levels.mid),
+      high: quantizeWeight(levels.high),
+    },
+    seed: baseSeed + bucket,
+  }
+}
+
+/**
+ * Stable key for a mix; equal keys mean no PATCH is needed
+ */
+export function getDreamReactiveMixKey(mix: DreamReactiveMix): string {
+  return `${mix.weights.bass}:${mix.weights.mid}:${mix.weights.high}:${mix.seed}`
+}
+
+/**
+ * Weighted prompt list for a mix: the composed prompt at full weight plus
+ * every accent with a non-zero weight
+ */
+export function buildDreamReactivePrompt(prompt: string, mix: DreamReactiveMix): DreamWeightedPrompt[] {
+  const accents = BANDS.filter((band) => mix.weights[band] > 0).map(
+    (band): DreamWeightedPrompt => [DREAM_REACTIVE_ACCENTS[band], mix.weights[band]],
+  )
+  return [[prompt, 1], ...accents]
+}
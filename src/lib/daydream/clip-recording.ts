@@ -0,0 +1,250 @@
+/**
+ * Dream Clip Recording
+ *
+ * Pure helpers behind Dream clip capture:
+ * - Rolling capture: staggered recorder segments, so one complete WebM always
+ *   covers the last N seconds without cutting a file mid-stream
+ * - File names and the prompt-log sidecar JSON
+ * - Embedding a title in the WebM header (Segment Info → Title)
+ *
+ * @module lib/daydream/clip-recording
+ */
+
+import type { DreamClipSidecar, DreamPromptLogEntry } from "@/types/daydream.types"
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** Rolling buffer lengths offered in the clip menu */
+export const DREAM_CLIP_BUFFER_OPTIONS = [15, 30, 60] as const
+
+export const DREAM_CLIP_DEFAULT_BUFFER_SECONDS = 30
+
+/** Manual recordings stop on their own after this long */
+export const DREAM_CLIP_MAX_SECONDS = 120
+
+/** MediaRecorder timeslice; chunks arrive this often */
+export const DREAM_CLIP_TIMESLICE_MS = 1000
+
+/** Container/codec candidates, best first */
+export const DREAM_CLIP_MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+] as const
+
+const TRACK_SLUG_MAX_LENGTH = 40
+const PROMPT_SLUG_MAX_LENGTH = 60
+
+// =============================================================================
+// Recorder Setup
+// =============================================================================
+
+/**
+ * First supported clip MIME type (null when the browser can't record WebM)
+ */
+export function pickDreamClipMimeType(isTypeSupported: (type: string) => boolean): string | null {
+  return DREAM_CLIP_MIME_TYPES.find((type) => isTypeSupported(type)) ?? null
+}
+
+/**
+ * Index of the rolling segment to save: the newest one that already covers
+ * the buffer, or the oldest when none does yet.
+ *
+ * A new segment starts every `bufferSeconds` and each is kept for two buffer
+ * lengths, so a full-length segment exists once capture has run that long.
+ *
+ * @param segmentStarts - Start times (ms) of the live segments, oldest first
+ */
+export function pickRollingDreamClipSegment(segmentStarts: number[], now: number, bufferSeconds: number): number | null {
+  if (segmentStarts.length === 0) return null
+  const bufferMs = bufferSeconds * 1000
+  for (let index = segmentStarts.length - 1; index >= 0; index -= 1) {
+    if (now - segmentStarts[index] >= bufferMs) return index
+  }
+  return 0
+}
+
+// =============================================================================
+// Naming & Sidecar
+// =============================================================================
+
+function slugify(value: string, maxLength: number): string {
+  return value
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, maxLength)
+    .replace(/-+$/g, "")
+}
+
+function formatStamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`
+}
+
+/**
+ * Clip file name stem: `metadj-dream_<track>_<prompt>_<YYYYMMDD-HHMMSS>`
+ * (empty parts are skipped)
+ */
+export function buildDreamClipBaseName(input: { trackTitle?: string | null; prompt: string; startedAt: number }): string {
+  const parts = [
+    "metadj-dream",
+    input.trackTitle ? slugify(input.trackTitle, TRACK_SLUG_MAX_LENGTH) : "",
+    slugify(input.prompt, PROMPT_SLUG_MAX_LENGTH),
+    formatStamp(new Date(input.startedAt)),
+  ]
+  return parts.filter(Boolean).join("_")
+}
+
+/**
+ * Title written into the clip's WebM header
+ */
+export function buildDreamClipTitle(trackTitle: string | null | undefined, prompt: string): string {
+  return trackTitle ? `${trackTitle} — ${prompt}` : prompt
+}
+
+/**
+ * Sidecar JSON for a clip: the prompt active at the start plus every change
+ * made during the clip, as offsets from the clip start
+ */
+export function buildDreamClipSidecar(input: {
+  file: string
+  startedAt: number
+  endedAt: number
+  track: DreamClipSidecar["track"]
+  promptLog: DreamPromptLogEntry[]
+}): DreamClipSidecar {
+  const { startedAt, endedAt } = input
+  const ordered = [...input.promptLog].sort((a, b) => a.at - b.at)
+  const activeAtStart = ordered.filter((entry) => entry.at <= startedAt).pop()
+  const during = ordered.filter((entry) => entry.at > startedAt && entry.at <= endedAt)
+
+  const prompts = [
+    ...(activeAtStart ? [{ offsetSeconds: 0, prompt: activeAtStart.prompt }] : []),
+    ...during.map((entry) => ({
+      offsetSeconds: Math.round((entry.at - startedAt) / 100) / 10,
+      prompt: entry.prompt,
+    })),
+  ]
+
+  return {
+    version: 1,
+    app: "MetaDJ Nexus",
+    file: input.file,
+    startedAt: new Date(startedAt).toISOString(),
+    durationSeconds: Math.max(0, Math.round((endedAt - startedAt) / 100) / 10),
+    track: input.track,
+    prompts,
+  }
+}
+
+// =============================================================================
+// WebM Title
+// =============================================================================
+
+const EBML_ID = 0x1a45dfa3
+const SEGMENT_ID = 0x18538067
+const SEEK_HEAD_ID = 0x114d9b74
+const INFO_ID = 0x1549a966
+const TITLE_ID_BYTES = [0x7b, 0xa9]
+const INFO_ID_BYTES = [0x15, 0x49, 0xa9, 0x66]
+
+interface EbmlHeader {
+  id: number
+  /** Payload size (null = unknown size) */
+  size: number | null
+  /** Bytes used by the ID and size fields */
+  headerLength: number
+}
+
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number; allOnes: boolean } | null {
+  const first = bytes[offset]
+  if (first === undefined || first === 0) return null
+  let length = 1
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length += 1
+  if (length > 8 || offset + length > bytes.length) return null
+
+  let value = keepMarker ? first : first & (0xff >> length)
+  let allOnes = (first & (0xff >> length)) === 0xff >> length
+  for (let index = 1; index < length; index += 1) {
+    value = value * 256 + bytes[offset + index]
+    if (bytes[offset + index] !== 0xff) allOnes = false
+  }
+  return { value, length, allOnes }
+}
+
+function readElementHeader(bytes: Uint8Array, offset: number): EbmlHeader | null {
+  const id = readVint(bytes, offset, true)
+  if (!id) return null
+  const size = readVint(bytes, offset + id.length, false)
+  if (!size) return null
+  return {
+    id: id.value,
+    size: size.allOnes ? null : size.value,
+    headerLength: id.length + size.length,
+  }
+}
+
+function encodeSize(value: number): number[] {
+  let length = 1
+  while (length < 8 && value > 2 ** (7 * length) - 2) length += 1
+  const bytes: number[] = []
+  let remaining = value
+  for (let index = 0; index < length; index += 1) {
+    bytes.unshift(remaining % 256)
+    remaining = Math.floor(remaining / 256)
+  }
+  bytes[0] |= 0x80 >> (length - 1)
+  return bytes
+}
+
+/**
+ * Insert a Title element into the Segment Info of a WebM header chunk.
+ * Returns the input unchanged when the header isn't in the expected live
+ * MediaRecorder shape (EBML, Segment, Info; no SeekHead whose offsets would move).
+ */
+export function embedWebmTitle(header: Uint8Array, title: string): Uint8Array {
+  const ebml = readElementHeader(header, 0)
+  if (!ebml || ebml.id !== EBML_ID || ebml.size === null) return header
+
+  const segmentOffset = ebml.headerLength + ebml.size
+  const segment = readElementHeader(header, segmentOffset)
+  if (!segment || segment.id !== SEGMENT_ID) return header
+
+  let offset = segmentOffset + segment.headerLength
+  while (offset < header.length) {
+    const element = readElementHeader(header, offset)
+    if (!element || element.size === null || element.id === SEEK_HEAD_ID) return header
+
+    const end = offset + element.headerLength + element.size
+    if (element.id === INFO_ID) {
+      if (end > header.length) return header
+      const titleBytes = new TextEncoder().encode(title)
+      const titleElement = [...TITLE_ID_BYTES, ...encodeSize(titleBytes.length), ...titleBytes]
+      const payload = header.subarray(offset + element.headerLength, end)
+      const newInfoSize = payload.length + titleElement.length
+
+      const result = new Uint8Array(
+        offset + INFO_ID_BYTES.length + encodeSize(newInfoSize).length + newInfoSize + (header.length - end),
+      )
+      let cursor = 0
+      const write = (chunk: ArrayLike<number>) => {
+        result.set(chunk, cursor)
+        cursor += chunk.length
+      }
+      write(header.subarray(0, offset))
+      write(INFO_ID_BYTES)
+      write(encodeSize(newInfoSize))
+      write(payload)
+      write(titleElement)
+      write(header.subarray(end))
+      return result
+    }
+    offset = end
+  }
+  return header
+}
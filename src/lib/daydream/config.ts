@@ -16,6 +16,13 @@ export const DREAM_PROMPT_BASE = "cartoon magical dj blue sparkle"
 export const DREAM_PROMPT_DEFAULT_PRESENTATION: DaydreamPresentation = "androgynous"
 export const DREAM_PROMPT_DEFAULT = `${DREAM_PROMPT_DEFAULT_PRESENTATION} ${DREAM_PROMPT_BASE}`
 
+/**
+ * Compose the prompt sent to Daydream from a presentation word and prompt base.
+ */
+export function composeDreamPrompt(presentation: DaydreamPresentation, promptBase: string): string {
+  return `${presentation} ${promptBase.trim()}`
+}
+
 /** Negative prompt to avoid common artifacts */
 export const DREAM_NEGATIVE_PROMPT = "blurry, low quality, flat, 2d"
 
@@ -157,12 +164,17 @@ export function createStreamPayload(prompt: string): DaydreamStreamCreateRequest
  * - controlnets.conditioning_scale
  *
  * All other parameters trigger a full pipeline reload.
+ *
+ * `prompt` may also be a weighted list of `[prompt, weight]` pairs, which
+ * StreamDiffusion blends (weights are normalized by `normalize_prompt_weights`).
  */
+export type DreamWeightedPrompt = [prompt: string, weight: number]
+
 export interface DynamicStreamParams {
   pipeline: "streamdiffusion"
   params: {
     model_id: string // REQUIRED by Daydream API
-    prompt: string
+    prompt: string | DreamWeightedPrompt[]
     guidance_scale?: number
     delta?: number
     num_inference_steps?: number
@@ -179,7 +191,11 @@ export interface DynamicStreamParams {
  * even when only updating dynamic parameters like prompt.
  * Pass an explicit modelId to mirror the stream's active model.
  */
-export function createPromptUpdatePayload(prompt: string, seed?: number, modelId?: string): DynamicStreamParams {
+export function createPromptUpdatePayload(
+  prompt: DynamicStreamParams["params"]["prompt"],
+  seed?: number,
+  modelId?: string,
+): DynamicStreamParams {
   // Per Daydream API: PATCH /v1/streams/{id} expects { pipeline, params }.
   // Per Daydream guidance: send only the params you want to update.
   // `model_id` is required even for simple prompt updates.
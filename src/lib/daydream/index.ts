@@ -18,9 +18,77 @@ export {
   DEFAULT_STREAM_PAYLOAD,
   createStreamPayload,
   createPromptUpdatePayload,
+  composeDreamPrompt,
   type DynamicStreamParams,
+  type DreamWeightedPrompt,
 } from './config';
 
+// Prompt presets - Per-user saved prompts
+export {
+  DREAM_PROMPT_PRESET_MAX,
+  DREAM_PROMPT_PRESET_NAME_MAX_LENGTH,
+  DREAM_PROMPT_BASE_MAX_LENGTH,
+  DREAM_PRESENTATIONS,
+  parseDreamPromptPresetInput,
+  toDreamPromptPreset,
+  type DreamPromptPresetInput,
+} from './prompt-presets';
+
+// Prompt timeline - Time and track-boundary prompt steps
+export {
+  DREAM_TIMELINE_MAX_STEPS,
+  DREAM_TIMELINE_MIN_HOLD_SECONDS,
+  DREAM_TIMELINE_MAX_HOLD_SECONDS,
+  DREAM_TIMELINE_DEFAULT_HOLD_SECONDS,
+  EMPTY_DREAM_TIMELINE,
+  clampDreamTimelineHold,
+  getDreamTimelineCycleSeconds,
+  resolveDreamTimelinePosition,
+  addDreamTimelineStep,
+  moveDreamTimelineStep,
+  type DreamTimelinePosition,
+} from './prompt-timeline';
+
+// Audio-reactive prompts - Band levels to prompt weights and seed
+export {
+  DREAM_REACTIVE_ACCENTS,
+  DREAM_REACTIVE_MAX_ACCENT_WEIGHT,
+  DREAM_REACTIVE_WINDOW_MS,
+  DREAM_REACTIVE_SAMPLE_MS,
+  averageDreamAudioLevels,
+  computeDreamReactiveMix,
+  getDreamReactiveMixKey,
+  buildDreamReactivePrompt,
+} from './audio-reactive';
+
+// Mock Stream - Shared helpers for the local mock backend
+export {
+  MOCK_WHIP_PROTOCOL,
+  MOCK_STREAM_WARMUP_MS,
+  MOCK_FRAME_SIZE,
+  MOCK_FRAME_RATE,
+  MOCK_POSTERIZE_LEVELS,
+  buildMockWhipUrl,
+  isMockWhipUrl,
+  getMockWhipStreamId,
+  transformMockDreamFrame,
+} from './mock-stream';
+
+// Clip Recording - Rolling segments, clip names, prompt sidecar, WebM title
+export {
+  DREAM_CLIP_BUFFER_OPTIONS,
+  DREAM_CLIP_DEFAULT_BUFFER_SECONDS,
+  DREAM_CLIP_MAX_SECONDS,
+  DREAM_CLIP_TIMESLICE_MS,
+  DREAM_CLIP_MIME_TYPES,
+  pickDreamClipMimeType,
+  pickRollingDreamClipSegment,
+  buildDreamClipBaseName,
+  buildDreamClipTitle,
+  buildDreamClipSidecar,
+  embedWebmTitle,
+} from './clip-recording';
+
 // Schemas - Validation schemas and utilities
 export {
   CreateStreamSchema,
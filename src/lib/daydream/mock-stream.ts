@@ -0,0 +1,92 @@
+/**
+ * Mock Dream Stream Helpers
+ *
+ * Shared pieces of the local mock Dream backend (`DAYDREAM_BACKEND=mock`):
+ * mock WHIP URLs, the warm-up the mock status reports, and the deterministic
+ * frame transform the in-page mock WHIP server applies to the ingest video.
+ *
+ * Pure and dependency-free so the server backend, the browser, and tests
+ * share one definition.
+ *
+ * @module lib/daydream/mock-stream
+ */
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+/** URL scheme for WHIP endpoints answered by the in-page mock server */
+export const MOCK_WHIP_PROTOCOL = "mock-whip:"
+
+/** Time after creation before the mock status reports the stream as active */
+export const MOCK_STREAM_WARMUP_MS = 3000
+
+/** Edge length of the square mock output frame (matches the 512x512 stream) */
+export const MOCK_FRAME_SIZE = 512
+
+/** Output frame rate of the mock transform loop */
+export const MOCK_FRAME_RATE = 30
+
+/** Color levels per channel after posterizing */
+export const MOCK_POSTERIZE_LEVELS = 4
+
+// =============================================================================
+// Mock WHIP URLs
+// =============================================================================
+
+/**
+ * WHIP URL handed out for a mock stream
+ */
+export function buildMockWhipUrl(streamId: string): string {
+  return `${MOCK_WHIP_PROTOCOL}//local/${encodeURIComponent(streamId)}`
+}
+
+/**
+ * Check whether a WHIP or playback URL points at the mock server
+ */
+export function isMockWhipUrl(url: string | null | undefined): url is string {
+  return typeof url === "string" && url.startsWith(MOCK_WHIP_PROTOCOL)
+}
+
+/**
+ * Stream ID from a mock WHIP URL (or a session URL below it)
+ */
+export function getMockWhipStreamId(url: string): string | null {
+  if (!isMockWhipUrl(url)) return null
+  try {
+    const [streamId] = new URL(url).pathname.split("/").filter(Boolean)
+    return streamId ? decodeURIComponent(streamId) : null
+  } catch {
+    return null
+  }
+}
+
+// =============================================================================
+// Frame Transform
+// =============================================================================
+
+/**
+ * Deterministic "dream" transform for one RGBA frame: mirrors horizontally,
+ * posterizes each channel, and rotates the channels (R→G→B→R).
+ * The same input always yields the same output, so tests can assert on pixels.
+ *
+ * @param source - Input RGBA pixels
+ * @param target - Output RGBA pixels (same length as source)
+ * @param width - Frame width in pixels
+ */
+export function transformMockDreamFrame(source: Uint8ClampedArray, target: Uint8ClampedArray, width: number): void {
+  const rowLength = width * 4
+  const step = 255 / (MOCK_POSTERIZE_LEVELS - 1)
+  const posterize = (value: number) => Math.round(Math.round(value / step) * step)
+
+  for (let offset = 0; offset + 3 < source.length; offset += 4) {
+    const rowStart = offset - (offset % rowLength)
+    const column = (offset - rowStart) / 4
+    const mirrored = rowStart + (width - 1 - column) * 4
+
+    target[offset] = posterize(source[mirrored + 2])
+    target[offset + 1] = posterize(source[mirrored])
+    target[offset + 2] = posterize(source[mirrored + 1])
+    target[offset + 3] = 255
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Dream Prompt Presets Remote Client
+ *
+ * Fetch helpers for `/api/daydream/presets` (see `@/lib/presets/remote`).
+ * Reads resolve to null on failure so the Dream prompt menu can show its
+ * signed-out state.
+ */
+
+import { deleteUserPreset, fetchUserPresets, saveUserPreset } from "@/lib/presets/remote"
+import type { DaydreamPresentation, DreamPromptPreset } from "@/types/daydream.types"
+
+const PRESETS_ENDPOINT = "/api/daydream/presets"
+
+/**
+ * Fetch the signed-in user's saved Dream prompts
+ */
+export function fetchDreamPromptPresets(): Promise<DreamPromptPreset[] | null> {
+  return fetchUserPresets<DreamPromptPreset>(PRESETS_ENDPOINT)
+}
+
+/**
+ * Save a Dream prompt preset
+ */
+export function saveDreamPromptPreset(input: {
+  name: string
+  promptBase: string
+  presentation: DaydreamPresentation
+}): Promise<{ preset: DreamPromptPreset } | { error: string }> {
+  return saveUserPreset<DreamPromptPreset>(PRESETS_ENDPOINT, input)
+}
+
+/**
+ * Delete a Dream prompt preset
+ */
+export function deleteDreamPromptPreset(id: string): Promise<boolean> {
+  return deleteUserPreset(PRESETS_ENDPOINT, id)
+}
@@ -0,0 +1,84 @@
+/**
+ * Dream Prompt Presets
+ *
+ * Validation and mapping for per-user saved Dream prompts
+ * (`dream_prompt_presets`). A preset stores a presentation word and prompt
+ * base; `composeDreamPrompt` turns it into the prompt sent to Daydream.
+ *
+ * @module lib/daydream/prompt-presets
+ */
+
+import { z } from "zod"
+import { DREAM_PROMPT_DEFAULT_PRESENTATION } from "@/lib/daydream/config"
+import type { DaydreamPresentation, DreamPromptPreset } from "@/types/daydream.types"
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+/** Most presets a user can save */
+export const DREAM_PROMPT_PRESET_MAX = 24
+export const DREAM_PROMPT_PRESET_NAME_MAX_LENGTH = 60
+export const DREAM_PROMPT_BASE_MAX_LENGTH = 300
+
+export const DREAM_PRESENTATIONS = ["androgynous", "female", "male"] as const satisfies readonly DaydreamPresentation[]
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+export const dreamPromptPresetInputSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Preset name is required")
+    .max(DREAM_PROMPT_PRESET_NAME_MAX_LENGTH, `Preset name must be ${DREAM_PROMPT_PRESET_NAME_MAX_LENGTH} characters or fewer`),
+  promptBase: z
+    .string()
+    .trim()
+    .min(1, "Prompt is required")
+    .max(DREAM_PROMPT_BASE_MAX_LENGTH, `Prompt must be ${DREAM_PROMPT_BASE_MAX_LENGTH} characters or fewer`),
+  presentation: z.enum(DREAM_PRESENTATIONS),
+})
+
+export type DreamPromptPresetInput = z.infer<typeof dreamPromptPresetInputSchema>
+
+/**
+ * Validate a create-preset request body
+ */
+export function parseDreamPromptPresetInput(
+  body: unknown,
+): { success: true; data: DreamPromptPresetInput } | { success: false; error: string } {
+  const parsed = dreamPromptPresetInputSchema.safeParse(body)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? "Invalid preset" }
+  }
+  return { success: true, data: parsed.data }
+}
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+/**
+ * Map a stored preset row to the client shape
+ */
+export function toDreamPromptPreset(record: {
+  id: string
+  name: string
+  promptBase: string
+  presentation: string
+  createdAt: Date
+}): DreamPromptPreset {
+  const presentation = (DREAM_PRESENTATIONS as readonly string[]).includes(record.presentation)
+    ? (record.presentation as DaydreamPresentation)
+    : DREAM_PROMPT_DEFAULT_PRESENTATION
+
+  return {
+    id: record.id,
+    name: record.name,
+    promptBase: record.promptBase,
+    presentation,
+    createdAt: record.createdAt.toISOString(),
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Dream Prompt Timeline
+ *
+ * Pure step resolution for Dream prompt timelines. A timeline advances either
+ * after each step's hold time ("time") or at every track change ("track"),
+ * and wraps back to the first step after the last.
+ *
+ * Hold times are clamped well above `PATCH_CONFIG.MIN_INTERVAL_MS`, so a
+ * running timeline never asks for PATCHes faster than useDream sends them.
+ *
+ * @module lib/daydream/prompt-timeline
+ */
+
+import type { DreamTimeline, DreamTimelineStep } from "@/types/daydream.types"
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+export const DREAM_TIMELINE_MAX_STEPS = 12
+export const DREAM_TIMELINE_MIN_HOLD_SECONDS = 10
+export const DREAM_TIMELINE_MAX_HOLD_SECONDS = 600
+export const DREAM_TIMELINE_DEFAULT_HOLD_SECONDS = 30
+
+export const EMPTY_DREAM_TIMELINE: DreamTimeline = { mode: "time", steps: [] }
+
+/**
+ * Clamp a hold time to whole seconds within the timeline limits
+ */
+export function clampDreamTimelineHold(seconds: number): number {
+  if (!Number.isFinite(seconds)) return DREAM_TIMELINE_DEFAULT_HOLD_SECONDS
+  return Math.min(DREAM_TIMELINE_MAX_HOLD_SECONDS, Math.max(DREAM_TIMELINE_MIN_HOLD_SECONDS, Math.round(seconds)))
+}
+
+/**
+ * Total length of one pass through a time-mode timeline
+ */
+export function getDreamTimelineCycleSeconds(steps: DreamTimelineStep[]): number {
+  return steps.reduce((total, step) => total + clampDreamTimelineHold(step.holdSeconds), 0)
+}
+
+// =============================================================================
+// Resolution
+// =============================================================================
+
+export interface DreamTimelinePosition {
+  /** Index of the active step */
+  index: number
+  /** Seconds until the next step (null in track mode or with a single step) */
+  secondsUntilNext: number | null
+}
+
+/**
+ * Active step for a running timeline.
+ *
+ * @param elapsedSeconds - Time since the timeline started (time mode)
+ * @param trackChanges - Track changes since the timeline started (track mode)
+ */
+export function resolveDreamTimelinePosition(
+  timeline: DreamTimeline,
+  progress: { elapsedSeconds: number; trackChanges: number },
+): DreamTimelinePosition | null {
+  const { steps } = timeline
+  if (steps.length === 0) return null
+
+  if (timeline.mode === "track") {
+    return { index: Math.max(0, progress.trackChanges) % steps.length, secondsUntilNext: null }
+  }
+
+  if (steps.length === 1) return { index: 0, secondsUntilNext: null }
+
+  const cycle = getDreamTimelineCycleSeconds(steps)
+  let offset = Math.max(0, progress.elapsedSeconds) % cycle
+  for (let index = 0; index < steps.length; index += 1) {
+    const hold = clampDreamTimelineHold(steps[index].holdSeconds)
+    if (offset < hold) {
+      return { index, secondsUntilNext: hold - offset }
+    }
+    offset -= hold
+  }
+
+  // Floating point remainder at the very end of the cycle
+  return { index: 0, secondsUntilNext: clampDreamTimelineHold(steps[0].holdSeconds) }
+}
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+/**
+ * Append a step; returns the timeline unchanged when it is full
+ */
+export function addDreamTimelineStep(
+  timeline: DreamTimeline,
+  step: Omit<DreamTimelineStep, "holdSeconds"> & { holdSeconds?: number },
+): DreamTimeline {
+  if (timeline.steps.length >= DREAM_TIMELINE_MAX_STEPS) return timeline
+  return {
+    ...timeline,
+    steps: [
+      ...timeline.steps,
+      { ...step, holdSeconds: clampDreamTimelineHold(step.holdSeconds ?? DREAM_TIMELINE_DEFAULT_HOLD_SECONDS) },
+    ],
+  }
+}
+
+/**
+ * Move a step up (-1) or down (+1); out-of-range moves are ignored
+ */
+export function moveDreamTimelineStep(timeline: DreamTimeline, stepId: string, direction: -1 | 1): DreamTimeline {
+  const index = timeline.steps.findIndex((step) => step.id === stepId)
+  const target = index + direction
+  if (index === -1 || target < 0 || target >= timeline.steps.length) return timeline
+
+  const steps = [...timeline.steps]
+  ;[steps[index], steps[target]] = [steps[target], steps[index]]
+  return { ...timeline, steps }
+}
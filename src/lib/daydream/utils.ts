@@ -95,11 +95,16 @@ export const WHIP_RETRY_CONFIG = {
 
 /**
  * PATCH configuration constants
+ *
+ * MIN_INTERVAL_MS spaces consecutive prompt PATCHes; changes made sooner
+ * (timeline steps, audio-reactive mixes, rapid edits) are coalesced into
+ * the next allowed request.
  */
 export const PATCH_CONFIG = {
   TIMEOUT_MS: 12000,
   WARMUP_GRACE_MS: 60000,
   MAX_FAILURES: 5,
+  MIN_INTERVAL_MS: 2000,
 } as const
 
 /**
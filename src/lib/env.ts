@@ -93,6 +93,7 @@ const serverEnvSchema = z.object({
   DAYDREAM_API_GATEWAY: z.string().url().optional(),
   DAYDREAM_WHIP_ALLOWED_HOSTS: z.string().optional(),
   DAYDREAM_WHIP_ALLOW_DEV: z.enum(['true', 'false']).optional(),
+  DAYDREAM_BACKEND: z.enum(['daydream', 'mock']).optional(),
 
   // Optional: Scalable Rate Limiting via Upstash Redis
   UPSTASH_REDIS_REST_URL: z.string().url().optional(),
@@ -107,6 +108,9 @@ const serverEnvSchema = z.object({
   R2_ACCESS_KEY_ID: z.string().min(1).optional(),
   R2_SECRET_ACCESS_KEY: z.string().min(1).optional(),
   R2_BUCKET: z.string().min(1).optional(),
+
+  // Music catalog source: bundled JSON (default) or Postgres tracks/collections tables
+  MUSIC_CATALOG_SOURCE: z.enum(['static', 'database']).optional(),
 });
 
 /**
@@ -301,6 +305,7 @@ export function getServerEnv() {
     DAYDREAM_API_GATEWAY: env.DAYDREAM_API_GATEWAY,
     DAYDREAM_WHIP_ALLOWED_HOSTS: env.DAYDREAM_WHIP_ALLOWED_HOSTS,
     DAYDREAM_WHIP_ALLOW_DEV: env.DAYDREAM_WHIP_ALLOW_DEV,
+    DAYDREAM_BACKEND: env.DAYDREAM_BACKEND,
     RATE_LIMIT_FAIL_CLOSED: env.RATE_LIMIT_FAIL_CLOSED,
     R2_ACCOUNT_ID: env.R2_ACCOUNT_ID,
     R2_ACCESS_KEY_ID: env.R2_ACCESS_KEY_ID,
@@ -0,0 +1,95 @@
+/**
+ * Listening Events
+ *
+ * Pure helpers for per-play listening history: turn a finished listen into a
+ * `ListeningEventInput` on the client and validate it on the server.
+ */
+
+import { z } from 'zod';
+import type { ListeningEventInput, ListeningSource, QueueContext, Track } from '@/types';
+
+/** A listen counts as a play (top tracks, play counts) from this many seconds */
+export const PLAY_THRESHOLD_SECONDS = 30;
+/** Listens that reach this share of the track count as completed */
+export const COMPLETION_THRESHOLD_PERCENT = 90;
+/** Listens shorter than this are not recorded at all */
+export const MIN_RECORDED_LISTEN_SECONDS = 1;
+
+const QUEUE_CONTEXTS = ['collection', 'search', 'playlist', 'smart-playlist'] as const satisfies readonly QueueContext[];
+
+export const listeningEventInputSchema = z.object({
+  trackId: z.string().min(1).max(64),
+  collection: z.string().max(200).nullish(),
+  startedAt: z.iso.datetime(),
+  durationSeconds: z.number().int().min(0).max(24 * 60 * 60),
+  listenedSeconds: z.number().int().min(0).max(24 * 60 * 60),
+  completionPercent: z.number().int().min(0).max(100),
+  completed: z.boolean(),
+  skipped: z.boolean(),
+  queueContext: z.enum(QUEUE_CONTEXTS),
+  sourceType: z.enum(['queue', 'mood-channel', 'ai-proposal']),
+  sourceId: z.string().max(64).nullish(),
+});
+
+/**
+ * Validate a listening event payload from the client
+ */
+export function parseListeningEventInput(
+  value: unknown
+): { success: true; data: ListeningEventInput } | { success: false; error: string } {
+  const result = listeningEventInputSchema.safeParse(value);
+  if (!result.success) {
+    return { success: false, error: result.error.issues[0]?.message ?? 'Invalid listening event' };
+  }
+  return { success: true, data: result.data };
+}
+
+export interface FinishedListen {
+  track: Pick<Track, 'id' | 'collection' | 'duration'>;
+  startedAt: Date;
+  /** Seconds actually played (seeks excluded) */
+  listenedSeconds: number;
+  /** Element duration when known; falls back to the catalog duration */
+  durationSeconds?: number;
+  /** The listener moved to another track */
+  movedOn: boolean;
+  source: ListeningSource;
+}
+
+/**
+ * Build the event for a finished listen.
+ * Returns null when the listen is too short to record.
+ *
+ * A listen is completed once the time played reaches 90% of the track, so a
+ * track that was seeked to its end is not; it is skipped when the listener
+ * moved on before that. Listens cut off by closing the page are neither.
+ */
+export function buildListeningEvent(listen: FinishedListen): ListeningEventInput | null {
+  const duration = listen.durationSeconds && Number.isFinite(listen.durationSeconds)
+    ? listen.durationSeconds
+    : listen.track.duration;
+  const listenedSeconds = Math.max(0, Math.floor(
+    Math.min(listen.listenedSeconds, duration > 0 ? duration : listen.listenedSeconds)
+  ));
+
+  if (listenedSeconds < MIN_RECORDED_LISTEN_SECONDS) return null;
+
+  const completionPercent = duration > 0
+    ? Math.min(100, Math.round((listenedSeconds / duration) * 100))
+    : 0;
+  const completed = completionPercent >= COMPLETION_THRESHOLD_PERCENT;
+
+  return {
+    trackId: listen.track.id,
+    collection: listen.track.collection || null,
+    startedAt: listen.startedAt.toISOString(),
+    durationSeconds: Math.max(0, Math.round(duration)),
+    listenedSeconds,
+    completionPercent,
+    completed,
+    skipped: listen.movedOn && !completed,
+    queueContext: listen.source.queueContext,
+    sourceType: listen.source.type,
+    sourceId: listen.source.id ?? null,
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Listening History Remote Client
+ *
+ * Best-effort fetch helpers for `/api/auth/listening-events` and the
+ * history-based `/api/auth/recommendations`. Reporting never throws (guests
+ * get a 401 that is ignored); reads resolve to null on failure so the UI can
+ * show its error state or hide itself.
+ */
+
+import type { RecommendationReason } from '@/lib/music/recommendations';
+import type { ListeningEventInput, ListeningStats } from '@/types';
+
+export interface RemoteRecommendation {
+  trackId: string;
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+export interface RemoteRecommendations {
+  /** False until the listener has enough history (cold start) */
+  personalized: boolean;
+  recommendations: RemoteRecommendation[];
+}
+
+/**
+ * Record one finished listen.
+ * Uses `keepalive` so events flushed during page unload still reach the server.
+ */
+export async function reportListeningEvent(event: ListeningEventInput): Promise<boolean> {
+  try {
+    const response = await fetch('/api/auth/listening-events', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(event),
+      keepalive: true,
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Fetch the signed-in user's "Your stats" summary.
+ * Streak days are computed in the browser's timezone.
+ */
+export async function fetchListeningStats(): Promise<ListeningStats | null> {
+  try {
+    const tz = new Date().getTimezoneOffset();
+    const response = await fetch(`/api/auth/listening-events/stats?tz=${tz}`, { cache: 'no-store' });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.success && data.stats ? (data.stats as ListeningStats) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fetch tracks ranked for the signed-in listener
+ */
+export async function fetchRecommendations(limit?: number): Promise<RemoteRecommendations | null> {
+  try {
+    const query = limit ? `?limit=${limit}` : '';
+    const response = await fetch(`/api/auth/recommendations${query}`, { cache: 'no-store' });
+    if (!response.ok) return null;
+    const data = await response.json();
+    if (!data.success || !Array.isArray(data.recommendations)) return null;
+    return {
+      personalized: Boolean(data.personalized),
+      recommendations: data.recommendations as RemoteRecommendation[],
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,39 @@
+import "server-only";
+
+import { getSession, isE2EAuthBypassEnabled } from "@/lib/auth";
+import { logger } from "@/lib/logger";
+import { PLAY_THRESHOLD_SECONDS } from "./events";
+import { getListeningTrackHistory } from "../../../server/storage";
+import type { TrackListeningHistory } from "@/lib/music/recommendations";
+
+/**
+ * Per-track listening history for a user, in the shape the recommendation
+ * engine expects.
+ */
+export async function getUserListeningHistory(userId: string): Promise<TrackListeningHistory[]> {
+  const rows = await getListeningTrackHistory(userId, { playThresholdSeconds: PLAY_THRESHOLD_SECONDS });
+  return rows.map((row) => ({
+    ...row,
+    lastListenedAt: row.lastListenedAt ? row.lastListenedAt.toISOString() : null,
+  }));
+}
+
+/**
+ * Listening history of the signed-in user, or null for guests.
+ * Best-effort: personalization never blocks the caller (e.g. a MetaDJai
+ * request), so database failures resolve to null.
+ */
+export async function getSessionListeningHistory(): Promise<TrackListeningHistory[] | null> {
+  if (isE2EAuthBypassEnabled()) return null;
+
+  try {
+    const session = await getSession();
+    if (!session) return null;
+    return await getUserListeningHistory(session.id);
+  } catch (error) {
+    logger.warn("[Listening] Failed to load listening history", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Listening Stats
+ *
+ * Pure helpers for the "Your stats" view: calendar days in the listener's
+ * timezone and listening streaks over those days.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+/** Real-world UTC offsets span -12h to +14h */
+const MAX_TIMEZONE_OFFSET_MINUTES = 14 * 60;
+
+/**
+ * Clamp a `Date#getTimezoneOffset()` value (minutes behind UTC).
+ * Returns 0 for anything non-numeric.
+ */
+export function normalizeTimezoneOffset(value: unknown): number {
+  const offset = typeof value === 'string' ? Number(value) : value;
+  if (typeof offset !== 'number' || !Number.isFinite(offset)) return 0;
+  return Math.max(-MAX_TIMEZONE_OFFSET_MINUTES, Math.min(MAX_TIMEZONE_OFFSET_MINUTES, Math.round(offset)));
+}
+
+/**
+ * Local calendar day (YYYY-MM-DD) of `date` for a `getTimezoneOffset()` value
+ */
+export function toListeningDay(date: Date, timezoneOffsetMinutes: number): string {
+  return new Date(date.getTime() - timezoneOffsetMinutes * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function dayNumber(day: string): number {
+  return Math.floor(Date.parse(`${day}T00:00:00Z`) / MS_PER_DAY);
+}
+
+/**
+ * Current and longest runs of consecutive listening days.
+ *
+ * `days` are YYYY-MM-DD strings in any order (duplicates allowed). The current
+ * streak stays alive through `today` until a full day is missed, so a streak
+ * that ended yesterday still counts.
+ */
+export function computeListeningStreaks(
+  days: string[],
+  today: string
+): { currentStreakDays: number; longestStreakDays: number } {
+  const sorted = Array.from(new Set(days.map(dayNumber).filter(Number.isFinite))).sort((a, b) => a - b);
+  if (sorted.length === 0) return { currentStreakDays: 0, longestStreakDays: 0 };
+
+  let longest = 1;
+  let run = 1;
+  for (let i = 1; i < sorted.length; i++) {
+    run = sorted[i] === sorted[i - 1] + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  }
+
+  const todayNumber = dayNumber(today);
+  const last = sorted[sorted.length - 1];
+  // `run` now holds the streak ending on the most recent listening day
+  const current = todayNumber - last <= 1 ? run : 0;
+
+  return { currentStreakDays: current, longestStreakDays: longest };
+}
@@ -0,0 +1,31 @@
+/**
+ * MetaDJai Conversation Search Remote Client
+ *
+ * Best-effort fetch helper for `/api/metadjai/conversations/search`.
+ * Resolves to null on failure (including guests) so the history popover can
+ * show its error state.
+ */
+
+import type { MetaDjAiConversationSearchResult } from "@/types/metadjai.types"
+
+/**
+ * Search the signed-in user's conversation history
+ */
+export async function searchMetaDjAiConversations(
+  query: string,
+  options: { signal?: AbortSignal } = {}
+): Promise<MetaDjAiConversationSearchResult[] | null> {
+  try {
+    const response = await fetch(
+      `/api/metadjai/conversations/search?q=${encodeURIComponent(query)}`,
+      { cache: "no-store", signal: options.signal }
+    )
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.success && Array.isArray(data.results)
+      ? (data.results as MetaDjAiConversationSearchResult[])
+      : null
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * MetaDJai Conversation Search
+ *
+ * Pure helpers behind `/api/metadjai/conversations/search`: query
+ * normalization, turning Postgres `ts_headline` output into highlighted
+ * segments, and merging message and title hits into one ranked list.
+ *
+ * @module lib/metadjai/conversation-search
+ */
+
+import type {
+  MetaDjAiConversationSearchResult,
+  MetaDjAiSearchSnippetSegment,
+} from "@/types/metadjai.types"
+
+/** Private-use markers passed to `ts_headline` (never present in chat text) */
+export const SEARCH_HIGHLIGHT_START = "\uE000"
+export const SEARCH_HIGHLIGHT_STOP = "\uE001"
+
+export const CONVERSATION_SEARCH_MIN_QUERY_LENGTH = 2
+export const CONVERSATION_SEARCH_MAX_QUERY_LENGTH = 200
+export const CONVERSATION_SEARCH_DEFAULT_LIMIT = 20
+export const CONVERSATION_SEARCH_MAX_LIMIT = 50
+
+/** Extra rank for messages whose conversation title also matched */
+const TITLE_MATCH_BOOST = 0.5
+
+/**
+ * `ts_headline` options: short excerpts around the best matches
+ */
+export const SEARCH_HEADLINE_OPTIONS = [
+  `StartSel=${SEARCH_HIGHLIGHT_START}`,
+  `StopSel=${SEARCH_HIGHLIGHT_STOP}`,
+  "MaxWords=24",
+  "MinWords=8",
+  "MaxFragments=2",
+  'FragmentDelimiter=" … "',
+].join(", ")
+
+export interface ConversationSearchHit {
+  conversationId: string
+  conversationTitle: string | null
+  messageId: string | null
+  role: string | null
+  /** `ts_headline` output with highlight markers */
+  headline: string
+  rank: number
+  /** Whether the conversation title matched too */
+  titleMatched: boolean
+  createdAt: Date
+}
+
+/**
+ * Trim, collapse whitespace, and cap a search query.
+ * Returns null when the query is too short to search.
+ */
+export function normalizeSearchQuery(query: string | null | undefined): string | null {
+  const normalized = (query ?? "")
+    .replace(/[\uE000\uE001]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, CONVERSATION_SEARCH_MAX_QUERY_LENGTH)
+  return normalized.length >= CONVERSATION_SEARCH_MIN_QUERY_LENGTH ? normalized : null
+}
+
+/**
+ * Split `ts_headline` output into plain and highlighted segments.
+ * Adjacent segments of the same kind are merged; whitespace is collapsed.
+ */
+export function parseHighlightedSnippet(headline: string): MetaDjAiSearchSnippetSegment[] {
+  const segments: MetaDjAiSearchSnippetSegment[] = []
+  let highlight = false
+  let buffer = ""
+
+  const flush = () => {
+    const text = buffer.replace(/\s+/g, " ")
+    buffer = ""
+    if (!text) return
+    const previous = segments[segments.length - 1]
+    if (previous && previous.highlight === highlight) {
+      previous.text += text
+    } else {
+      segments.push({ text, highlight })
+    }
+  }
+
+  for (const char of headline) {
+    if (char === SEARCH_HIGHLIGHT_START || char === SEARCH_HIGHLIGHT_STOP) {
+      flush()
+      highlight = char === SEARCH_HIGHLIGHT_START
+      continue
+    }
+    buffer += char
+  }
+  flush()
+
+  if (segments.length > 0) {
+    segments[0].text = segments[0].text.trimStart()
+    const last = segments[segments.length - 1]
+    last.text = last.text.trimEnd()
+  }
+  return segments.filter((segment) => segment.text.length > 0)
+}
+
+/**
+ * Merge message hits and title-only hits into one list, best first.
+ * Title-only hits are dropped for conversations that already have a
+ * message hit.
+ */
+export function mergeConversationSearchHits(
+  messageHits: ConversationSearchHit[],
+  titleHits: ConversationSearchHit[],
+  limit: number = CONVERSATION_SEARCH_DEFAULT_LIMIT
+): MetaDjAiConversationSearchResult[] {
+  const conversationsWithMessages = new Set(messageHits.map((hit) => hit.conversationId))
+  const scored = [
+    ...messageHits.map((hit) => ({ hit, score: hit.rank + (hit.titleMatched ? TITLE_MATCH_BOOST : 0) })),
+    ...titleHits
+      .filter((hit) => !conversationsWithMessages.has(hit.conversationId))
+      .map((hit) => ({ hit, score: hit.rank + TITLE_MATCH_BOOST })),
+  ]
+
+  return scored
+    .sort((a, b) => b.score - a.score || b.hit.createdAt.getTime() - a.hit.createdAt.getTime())
+    .slice(0, Math.max(0, limit))
+    .map(({ hit }) => ({
+      conversationId: hit.conversationId,
+      conversationTitle: hit.conversationTitle || "New conversation",
+      messageId: hit.messageId,
+      role: hit.role === "user" || hit.role === "assistant" ? hit.role : null,
+      snippet: parseHighlightedSnippet(hit.headline),
+      createdAt: hit.createdAt.getTime(),
+    }))
+}
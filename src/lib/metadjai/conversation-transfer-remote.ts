@@ -0,0 +1,90 @@
+/**
+ * MetaDJai Conversation Transfer Remote Client
+ *
+ * Fetch helpers for conversation export, import, and share links
+ * (`/api/metadjai/conversations/export`, `/import`, `/{id}/share`).
+ * Failures resolve to null/false so the history popover can show a message.
+ */
+
+import type { MetaDjAiConversationShare } from "@/types/metadjai.types"
+
+export type MetaDjAiExportFormat = "json" | "markdown"
+
+export interface MetaDjAiImportSummary {
+  imported: number
+  archived: number
+  skipped: number
+}
+
+const FILE_NAME_PATTERN = /filename="([^"]+)"/
+
+/**
+ * Download one conversation (`id`) or all of them as a file
+ */
+export async function downloadMetaDjAiConversations(
+  format: MetaDjAiExportFormat,
+  id?: string
+): Promise<boolean> {
+  try {
+    const params = new URLSearchParams({ format })
+    if (id) params.set("id", id)
+    const response = await fetch(`/api/metadjai/conversations/export?${params.toString()}`, { cache: "no-store" })
+    if (!response.ok) return false
+
+    const blob = await response.blob()
+    const fileName = response.headers.get("Content-Disposition")?.match(FILE_NAME_PATTERN)?.[1]
+    const url = window.URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = fileName ?? `metadjai-conversations.${format === "json" ? "json" : "md"}`
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    window.URL.revokeObjectURL(url)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Import a JSON export file. Rejects with the server's message on invalid files.
+ */
+export async function importMetaDjAiConversations(file: File): Promise<MetaDjAiImportSummary> {
+  const response = await fetch("/api/metadjai/conversations/import", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: await file.text(),
+  })
+  const data = await response.json().catch(() => null)
+  if (!response.ok || !data?.success) {
+    throw new Error(typeof data?.message === "string" ? data.message : "Unable to import conversations")
+  }
+  return { imported: data.imported ?? 0, archived: data.archived ?? 0, skipped: data.skipped ?? 0 }
+}
+
+/**
+ * Create a public read-only link for a conversation (replaces any earlier link)
+ */
+export async function shareMetaDjAiConversation(id: string): Promise<MetaDjAiConversationShare | null> {
+  try {
+    const response = await fetch(`/api/metadjai/conversations/${encodeURIComponent(id)}/share`, { method: "POST" })
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.success && data.share ? (data.share as MetaDjAiConversationShare) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Revoke a conversation's public link
+ */
+export async function unshareMetaDjAiConversation(id: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/metadjai/conversations/${encodeURIComponent(id)}/share`, { method: "DELETE" })
+    return response.ok
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * MetaDJai Conversation Transfer
+ *
+ * Export and import for MetaDJai conversations: a versioned JSON format that
+ * round-trips every branch, proposal, and model detail, a Markdown rendering
+ * of the selected branch for reading, and the read-only snapshot behind
+ * public share links.
+ *
+ * @module lib/metadjai/conversation-transfer
+ */
+
+import { getActivePath, normalizeMessageTree } from "./conversation-tree"
+import {
+  isMessageKind,
+  isMessageMode,
+  isMessageProvider,
+  isMessageStatus,
+  normalizeSources,
+  normalizeVersions,
+} from "./message-records"
+import { parseProposal } from "./proposal-schema"
+import type {
+  MetaDjAiMessage,
+  MetaDjAiProposal,
+  MetaDjAiSharedConversation,
+} from "@/types/metadjai.types"
+
+const CONVERSATION_EXPORT_TYPE = "metadj-nexus-metadjai-conversations"
+const CONVERSATION_EXPORT_VERSION = 1
+
+export const CONVERSATION_IMPORT_MAX_CONVERSATIONS = 100
+export const CONVERSATION_IMPORT_MAX_MESSAGES = 1000
+
+const MAX_ID_LENGTH = 64
+const MAX_TITLE_LENGTH = 255
+const MAX_MODEL_LENGTH = 100
+
+const PROVIDER_LABELS: Record<NonNullable<MetaDjAiMessage["provider"]>, string> = {
+  openai: "OpenAI",
+  anthropic: "Anthropic",
+  google: "Google",
+  xai: "xAI",
+  moonshotai: "Moonshot AI",
+}
+
+export interface MetaDjAiExportedConversation {
+  id: string
+  title: string
+  createdAt: number
+  updatedAt: number
+  /** Archive time, or null for active conversations */
+  archivedAt: number | null
+  /** Leaf of the selected branch (null = most recent message) */
+  activeLeafId: string | null
+  /** Every message, including inactive branches */
+  messages: MetaDjAiMessage[]
+}
+
+export interface MetaDjAiConversationExport {
+  type: typeof CONVERSATION_EXPORT_TYPE
+  version: typeof CONVERSATION_EXPORT_VERSION
+  createdAt: string
+  conversations: MetaDjAiExportedConversation[]
+}
+
+export function createConversationExport(
+  conversations: MetaDjAiExportedConversation[],
+  options?: { now?: Date },
+): MetaDjAiConversationExport {
+  return {
+    type: CONVERSATION_EXPORT_TYPE,
+    version: CONVERSATION_EXPORT_VERSION,
+    createdAt: (options?.now ?? new Date()).toISOString(),
+    conversations,
+  }
+}
+
+const toTimestamp = (value: unknown): number | null => {
+  const timestamp = typeof value === "string" ? Date.parse(value) : Number(value)
+  return Number.isFinite(timestamp) ? timestamp : null
+}
+
+const toId = (value: unknown): string | null =>
+  typeof value === "string" && value.length > 0 && value.length <= MAX_ID_LENGTH ? value : null
+
+function parseMessage(candidate: unknown): MetaDjAiMessage | null {
+  if (!candidate || typeof candidate !== "object") return null
+  const record = candidate as Record<string, unknown>
+
+  const id = toId(record.id)
+  const role = record.role === "user" || record.role === "assistant" ? record.role : null
+  const content = typeof record.content === "string" ? record.content : null
+  const createdAt = toTimestamp(record.createdAt)
+  if (!id || !role || content === null || createdAt === null) return null
+
+  const toolsUsed = Array.isArray(record.toolsUsed)
+    ? record.toolsUsed.filter((tool): tool is string => typeof tool === "string")
+    : []
+
+  return {
+    id,
+    role,
+    content,
+    createdAt,
+    parentId: toId(record.parentId),
+    status: isMessageStatus(record.status) && record.status !== "streaming" ? record.status : "complete",
+    kind: isMessageKind(record.kind) ? record.kind : undefined,
+    mode: isMessageMode(record.mode) ? record.mode : undefined,
+    sources: normalizeSources(record.sources),
+    toolsUsed: toolsUsed.length > 0 ? toolsUsed : undefined,
+    provider: isMessageProvider(record.provider) ? record.provider : undefined,
+    model: typeof record.model === "string" ? record.model.slice(0, MAX_MODEL_LENGTH) : undefined,
+    versions: normalizeVersions(record.versions),
+    currentVersionIndex: typeof record.currentVersionIndex === "number" ? record.currentVersionIndex : undefined,
+    proposal: parseProposal(record.proposal) ?? undefined,
+  }
+}
+
+function parseConversation(candidate: unknown): MetaDjAiExportedConversation | null {
+  if (!candidate || typeof candidate !== "object") return null
+  const record = candidate as Record<string, unknown>
+  if (!Array.isArray(record.messages)) return null
+
+  const seen = new Set<string>()
+  const messages = record.messages
+    .slice(0, CONVERSATION_IMPORT_MAX_MESSAGES)
+    .map(parseMessage)
+    .filter((message): message is MetaDjAiMessage => {
+      if (!message || seen.has(message.id)) return false
+      seen.add(message.id)
+      return true
+    })
+  if (messages.length === 0) return null
+
+  const createdAt = toTimestamp(record.createdAt) ?? messages[0].createdAt
+  const title = typeof record.title === "string" ? record.title.trim().slice(0, MAX_TITLE_LENGTH) : ""
+  const activeLeafId = toId(record.activeLeafId)
+
+  return {
+    id: toId(record.id) ?? "",
+    title: title || "Imported conversation",
+    createdAt,
+    updatedAt: toTimestamp(record.updatedAt) ?? createdAt,
+    archivedAt: record.archivedAt === null || record.archivedAt === undefined ? null : toTimestamp(record.archivedAt),
+    activeLeafId: activeLeafId && seen.has(activeLeafId) ? activeLeafId : null,
+    messages,
+  }
+}
+
+/**
+ * Parse a conversation export (file text or parsed JSON).
+ * Invalid messages are dropped; conversations left without messages are skipped.
+ * Conversations without a valid ID come back with an empty `id`.
+ */
+export function parseConversationImport(raw: unknown): MetaDjAiExportedConversation[] {
+  let parsed = raw
+  if (typeof raw === "string") {
+    try {
+      parsed = JSON.parse(raw)
+    } catch {
+      throw new Error("Conversation import file is not valid JSON.")
+    }
+  }
+
+  const payload = parsed as Partial<MetaDjAiConversationExport> | null
+  if (!payload || typeof payload !== "object" || payload.type !== CONVERSATION_EXPORT_TYPE) {
+    throw new Error("Unsupported conversation import format.")
+  }
+
+  if (payload.version !== CONVERSATION_EXPORT_VERSION) {
+    throw new Error("Unsupported conversation export version.")
+  }
+
+  if (!Array.isArray(payload.conversations)) {
+    throw new Error("Conversation export is missing conversations.")
+  }
+
+  return payload.conversations
+    .slice(0, CONVERSATION_IMPORT_MAX_CONVERSATIONS)
+    .map(parseConversation)
+    .filter((conversation): conversation is MetaDjAiExportedConversation => Boolean(conversation))
+}
+
+/**
+ * Give a conversation's messages new IDs (message IDs are globally unique),
+ * rewriting parent links and the selected branch to match.
+ */
+export function remapConversationMessageIds(
+  conversation: MetaDjAiExportedConversation,
+  createId: () => string,
+): MetaDjAiExportedConversation {
+  const ids = new Map(conversation.messages.map((message) => [message.id, createId()]))
+  const remap = (id: string | null | undefined) => (id ? ids.get(id) ?? null : null)
+
+  return {
+    ...conversation,
+    activeLeafId: remap(conversation.activeLeafId),
+    messages: conversation.messages.map((message) => ({
+      ...message,
+      id: ids.get(message.id) as string,
+      parentId: remap(message.parentId),
+    })),
+  }
+}
+
+const formatTimestamp = (timestamp: number) =>
+  `${new Date(timestamp).toISOString().slice(0, 16).replace("T", " ")} UTC`
+
+function describeProposal(proposal: MetaDjAiProposal): string {
+  switch (proposal.type) {
+    case "playback": {
+      const track = proposal.trackTitle
+        ? ` "${proposal.trackTitle}"${proposal.trackArtist ? ` by ${proposal.trackArtist}` : ""}`
+        : ""
+      return `Playback: ${proposal.action}${track}`
+    }
+    case "ui":
+      return `Navigation: ${proposal.action}${proposal.tab ? ` (${proposal.tab})` : ""}`
+    case "queue-set":
+      return `Queue (${proposal.mode ?? "replace"}): ${proposal.trackIds.length} tracks`
+    case "playlist":
+      return `Playlist "${proposal.name}": ${proposal.trackIds?.length ?? 0} tracks`
+    case "cinema":
+      return `Cinema: ${proposal.action}${proposal.sceneName ? ` "${proposal.sceneName}"` : ""}`
+    case "dream":
+      return `Dream: ${proposal.action}${proposal.prompt ? ` "${proposal.prompt}"` : ""}`
+    case "wisdom":
+      return `Wisdom (${proposal.section}): ${proposal.title ? `"${proposal.title}"` : "open"}`
+    case "set-plan":
+      return `Set plan "${proposal.name}": ${proposal.totalMinutes} minutes in ${proposal.segments.length} segments`
+  }
+}
+
+function formatProposal(proposal: MetaDjAiProposal): string[] {
+  const lines = [`> **Proposed action**: ${describeProposal(proposal)}`]
+  if (proposal.context) lines.push(`> ${proposal.context}`)
+  const titles = "trackTitles" in proposal ? proposal.trackTitles : undefined
+  titles?.forEach((title, index) => lines.push(`> ${index + 1}. ${title}`))
+  if (proposal.type === "set-plan") {
+    proposal.segments.forEach((segment) => {
+      lines.push(
+        `> - ${segment.phase} (${segment.minutes} min, ${segment.targetBpm} BPM, energy ${segment.targetEnergy}): ${
+          segment.trackTitles?.join(", ") || `${segment.trackIds.length} tracks`
+        }`
+      )
+    })
+  }
+  return lines
+}
+
+function formatMessage(message: MetaDjAiMessage): string {
+  if (message.kind) {
+    return `_${message.content}_`
+  }
+
+  const details = [message.role === "user" ? "**You**" : "**MetaDJai**", formatTimestamp(message.createdAt)]
+  if (message.provider || message.model) {
+    const provider = message.provider ? PROVIDER_LABELS[message.provider] : null
+    details.push([provider, message.model].filter(Boolean).join(" / "))
+  }
+  if (message.toolsUsed?.length) {
+    details.push(`Tools: ${message.toolsUsed.join(", ")}`)
+  }
+
+  const lines = [details.join(" · "), "", message.content.trim() || "_(no text)_"]
+  if (message.sources?.length) {
+    lines.push("", "Sources:", ...message.sources.map((source) => `- [${source.title}](${source.url})`))
+  }
+  if (message.proposal) {
+    lines.push("", ...formatProposal(message.proposal))
+  }
+  return lines.join("\n")
+}
+
+function formatConversation(conversation: MetaDjAiExportedConversation, heading: string): string {
+  const messages = normalizeMessageTree(conversation.messages)
+  const path = getActivePath(messages, conversation.activeLeafId)
+
+  const meta = [`Started ${formatTimestamp(conversation.createdAt)}`, `Updated ${formatTimestamp(conversation.updatedAt)}`]
+  if (conversation.archivedAt !== null) meta.push("Archived")
+  const lines = [`${heading} ${conversation.title}`, "", `_${meta.join(" · ")}_`]
+  if (path.length < messages.length) {
+    lines.push("", `_Selected branch: ${path.length} of ${messages.length} messages. The JSON export keeps every branch._`)
+  }
+
+  return [...lines, ...path.map((message) => `\n${formatMessage(message)}`)].join("\n")
+}
+
+/**
+ * Render conversations as Markdown (the selected branch of each)
+ */
+export function formatConversationsMarkdown(
+  conversations: MetaDjAiExportedConversation[],
+  options?: { now?: Date },
+): string {
+  if (conversations.length === 1) {
+    return `${formatConversation(conversations[0], "#")}\n`
+  }
+
+  const header = [
+    "# MetaDJai Conversations",
+    "",
+    `_Exported ${formatTimestamp((options?.now ?? new Date()).getTime())} · ${conversations.length} conversations_`,
+  ].join("\n")
+  const sections = conversations.map((conversation) => formatConversation(conversation, "##"))
+  return `${[header, ...sections].join("\n\n---\n\n")}\n`
+}
+
+/**
+ * Read-only snapshot for a public share link: the selected branch's chat
+ * messages only (no IDs, proposals, or account details).
+ */
+export function createConversationSnapshot(
+  conversation: Pick<MetaDjAiExportedConversation, "title" | "messages" | "activeLeafId">,
+  options?: { now?: Date },
+): MetaDjAiSharedConversation {
+  const path = getActivePath(normalizeMessageTree(conversation.messages), conversation.activeLeafId)
+  return {
+    title: conversation.title,
+    sharedAt: (options?.now ?? new Date()).getTime(),
+    messages: path
+      .filter((message) => !message.kind && message.status !== "error" && message.content.trim())
+      .map((message) => ({ role: message.role, content: message.content, createdAt: message.createdAt })),
+  }
+}
+
+const SHARE_TOKEN_BYTES = 16
+const SHARE_TOKEN_PATTERN = /^[A-Za-z0-9_-]{22}$/
+
+/**
+ * Random URL-safe share token (128 bits, 22 characters)
+ */
+export function createConversationShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SHARE_TOKEN_BYTES))
+  let binary = ""
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+/**
+ * Check whether a value has the shape of a share token.
+ * Used to skip database lookups for junk paths.
+ */
+export function isConversationShareToken(value: string): boolean {
+  return SHARE_TOKEN_PATTERN.test(value)
+}
+
+/**
+ * Validate a stored snapshot before rendering it
+ */
+export function parseConversationSnapshot(value: unknown): MetaDjAiSharedConversation | null {
+  if (!value || typeof value !== "object") return null
+  const record = value as Record<string, unknown>
+  if (typeof record.title !== "string" || !Array.isArray(record.messages)) return null
+  const sharedAt = toTimestamp(record.sharedAt)
+  if (sharedAt === null) return null
+
+  const messages = record.messages.flatMap<MetaDjAiSharedConversation["messages"][number]>((entry) => {
+    if (!entry || typeof entry !== "object") return []
+    const message = entry as Record<string, unknown>
+    const role = message.role === "user" || message.role === "assistant" ? message.role : null
+    const createdAt = toTimestamp(message.createdAt)
+    if (!role || typeof message.content !== "string" || createdAt === null) return []
+    return [{ role, content: message.content, createdAt }]
+  })
+
+  return { title: record.title, sharedAt, messages }
+}
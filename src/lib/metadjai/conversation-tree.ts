@@ -0,0 +1,166 @@
+/**
+ * MetaDJai Conversation Tree
+ *
+ * Conversations are trees: each message points at the message it follows
+ * (`parentId`), and edits or regenerations of a turn are siblings. The UI
+ * shows one path from the root to the active leaf, and only that path is
+ * sent to the model.
+ *
+ * @module lib/metadjai/conversation-tree
+ */
+
+import type { MetaDjAiMessage, MetaDjAiMessageBranch } from "@/types/metadjai.types"
+
+interface TreeIndex {
+  byId: Map<string, MetaDjAiMessage>
+  /** Children in array (creation) order; `null` holds the roots */
+  children: Map<string | null, MetaDjAiMessage[]>
+}
+
+/** Parent key for a message; missing parents (trimmed history) count as roots */
+function parentKey(message: MetaDjAiMessage, byId: Map<string, MetaDjAiMessage>): string | null {
+  return message.parentId && byId.has(message.parentId) ? message.parentId : null
+}
+
+function indexTree(messages: MetaDjAiMessage[]): TreeIndex {
+  const byId = new Map(messages.map((message) => [message.id, message]))
+  const children = new Map<string | null, MetaDjAiMessage[]>()
+  for (const message of messages) {
+    const key = parentKey(message, byId)
+    const siblings = children.get(key)
+    if (siblings) {
+      siblings.push(message)
+    } else {
+      children.set(key, [message])
+    }
+  }
+  return { byId, children }
+}
+
+/** Mode/model markers sit on the path but are not branch alternatives */
+const isBranchable = (message: MetaDjAiMessage) => !message.kind
+
+/**
+ * Link messages saved before branching and expand legacy regenerated versions.
+ *
+ * A conversation without any parent links is a single thread, so each message
+ * follows the previous one. Stored `versions` become older siblings of their
+ * message (IDs `<id>:v<n>`) so they stay reachable through branch navigation.
+ */
+export function normalizeMessageTree(messages: MetaDjAiMessage[]): MetaDjAiMessage[] {
+  const isLinked = messages.some((message) => typeof message.parentId === "string")
+  const linked = isLinked
+    ? messages.map((message) => (message.parentId === undefined ? { ...message, parentId: null } : message))
+    : messages.map((message, index) => ({ ...message, parentId: index === 0 ? null : messages[index - 1].id }))
+
+  if (!linked.some((message) => message.versions?.length)) return linked
+
+  const ids = new Set(linked.map((message) => message.id))
+  const expanded: MetaDjAiMessage[] = []
+  for (const message of linked) {
+    // Versions are stored newest first; siblings are listed oldest first
+    const versions = message.versions ?? []
+    for (let index = versions.length - 1; index >= 0; index--) {
+      const version = versions[index]
+      const id = `${message.id}:v${index + 1}`
+      if (ids.has(id)) continue
+      ids.add(id)
+      expanded.push({
+        id,
+        role: message.role,
+        content: version.content,
+        createdAt: version.createdAt,
+        parentId: message.parentId,
+        status: "complete",
+        toolsUsed: version.toolsUsed,
+      })
+    }
+    expanded.push(message)
+  }
+  return expanded
+}
+
+/**
+ * Follow the most recent child from `messageId` down to a leaf.
+ * Returns null when the message is unknown.
+ */
+export function findBranchLeaf(messages: MetaDjAiMessage[], messageId: string): string | null {
+  const { byId, children } = indexTree(messages)
+  if (!byId.has(messageId)) return null
+
+  const visited = new Set<string>()
+  let current = messageId
+  while (!visited.has(current)) {
+    visited.add(current)
+    const next = children.get(current)
+    if (!next?.length) break
+    current = next[next.length - 1].id
+  }
+  return current
+}
+
+/**
+ * Messages from the root down to `messageId` (inclusive)
+ */
+export function getMessagePath(messages: MetaDjAiMessage[], messageId: string): MetaDjAiMessage[] {
+  const byId = new Map(messages.map((message) => [message.id, message]))
+  const path: MetaDjAiMessage[] = []
+  const visited = new Set<string>()
+  let current = byId.get(messageId)
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id)
+    path.push(current)
+    current = current.parentId ? byId.get(current.parentId) : undefined
+  }
+  return path.reverse()
+}
+
+/**
+ * The displayed path: from the root to the latest leaf under `leafId`
+ * (messages added after the selection stay visible), or to the most recent
+ * message when no branch was selected.
+ */
+export function getActivePath(messages: MetaDjAiMessage[], leafId: string | null): MetaDjAiMessage[] {
+  if (messages.length === 0) return []
+  const leaf = (leafId && findBranchLeaf(messages, leafId)) || messages[messages.length - 1].id
+  return getMessagePath(messages, leaf)
+}
+
+/**
+ * Branch positions for path messages that have siblings, keyed by message ID
+ */
+export function getMessageBranches(
+  messages: MetaDjAiMessage[],
+  path: MetaDjAiMessage[]
+): Record<string, MetaDjAiMessageBranch> {
+  const { byId, children } = indexTree(messages)
+  const branches: Record<string, MetaDjAiMessageBranch> = {}
+
+  for (const message of path) {
+    if (!isBranchable(message)) continue
+    const siblings = (children.get(parentKey(message, byId)) ?? []).filter(isBranchable)
+    if (siblings.length < 2) continue
+    branches[message.id] = {
+      index: siblings.findIndex((sibling) => sibling.id === message.id),
+      total: siblings.length,
+      siblingIds: siblings.map((sibling) => sibling.id),
+    }
+  }
+  return branches
+}
+
+/**
+ * Remove a message and everything that follows it
+ */
+export function removeMessageBranch(messages: MetaDjAiMessage[], messageId: string): MetaDjAiMessage[] {
+  const { children } = indexTree(messages)
+  const removed = new Set<string>()
+  const pending = [messageId]
+  while (pending.length > 0) {
+    const id = pending.pop() as string
+    if (removed.has(id)) continue
+    removed.add(id)
+    children.get(id)?.forEach((child) => pending.push(child.id))
+  }
+  return messages.filter((message) => !removed.has(message.id))
+}
@@ -12,8 +12,35 @@ export {
   type MetaDjAiExternalPromptDetail,
 } from "./external-prompts"
 
+export { searchMetaDjAiConversations } from "./conversation-search-remote"
+
+export {
+  downloadMetaDjAiConversations,
+  importMetaDjAiConversations,
+  shareMetaDjAiConversation,
+  unshareMetaDjAiConversation,
+  type MetaDjAiExportFormat,
+  type MetaDjAiImportSummary,
+} from "./conversation-transfer-remote"
+
+export { deleteMetaDjAiMemory, fetchMetaDjAiMemories } from "./memories-remote"
+
 export { parseProposal } from "./proposal-schema"
 
+export { fetchMetaDjAiQuota } from "./quota-remote"
+
+export {
+  META_DJAI_CINEMA_EVENT,
+  META_DJAI_DREAM_EVENT,
+  META_DJAI_WISDOM_EVENT,
+  dispatchMetaDjAiCinema,
+  dispatchMetaDjAiDream,
+  dispatchMetaDjAiWisdom,
+  type MetaDjAiCinemaEventDetail,
+  type MetaDjAiDreamEventDetail,
+  type MetaDjAiWisdomEventDetail,
+} from "./proposal-events"
+
 export {
   metaDjAiResponseSchema,
   type MetaDjAiStructuredReply,
@@ -0,0 +1,35 @@
+/**
+ * MetaDJai Memories Remote Client
+ *
+ * Best-effort fetch helpers for `/api/metadjai/memories`. Reads resolve to
+ * null on failure (including guests) so the Personalize panel can show its
+ * signed-out or error state.
+ */
+
+import type { MetaDjAiMemory } from "@/types/metadjai.types"
+
+/**
+ * Fetch what MetaDJai remembers about the signed-in user
+ */
+export async function fetchMetaDjAiMemories(): Promise<MetaDjAiMemory[] | null> {
+  try {
+    const response = await fetch("/api/metadjai/memories", { cache: "no-store" })
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.success && Array.isArray(data.memories) ? (data.memories as MetaDjAiMemory[]) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Forget one memory
+ */
+export async function deleteMetaDjAiMemory(id: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/metadjai/memories/${encodeURIComponent(id)}`, { method: "DELETE" })
+    return response.ok
+  } catch {
+    return false
+  }
+}
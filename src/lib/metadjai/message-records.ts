@@ -0,0 +1,129 @@
+/**
+ * MetaDJai Message Records
+ *
+ * Conversion between client messages and stored `messages` rows. Everything
+ * beyond role and content lives in the row's `metadata` JSON, so the
+ * messages, migrate, export, and import routes share these helpers.
+ *
+ * @module lib/metadjai/message-records
+ */
+
+import type { MetaDjAiMessage, MetaDjAiProvider } from "@/types/metadjai.types"
+
+/** Stored message row (subset of the `messages` table) */
+export interface MetaDjAiMessageRecord {
+  id: string
+  parentId: string | null
+  role: string
+  content: string
+  createdAt: Date
+  metadata: unknown
+}
+
+export const isMessageStatus = (value: unknown): value is MetaDjAiMessage["status"] =>
+  value === "streaming" || value === "complete" || value === "error"
+
+export const isMessageKind = (value: unknown): value is NonNullable<MetaDjAiMessage["kind"]> =>
+  value === "mode-switch" || value === "model-switch"
+
+export const isMessageMode = (value: unknown): value is NonNullable<MetaDjAiMessage["mode"]> =>
+  value === "adaptive" || value === "explorer" || value === "dj"
+
+export const isMessageProvider = (value: unknown): value is MetaDjAiProvider =>
+  value === "openai" ||
+  value === "anthropic" ||
+  value === "google" ||
+  value === "xai" ||
+  value === "moonshotai"
+
+const toStringList = (value: unknown): string[] | undefined => {
+  if (!Array.isArray(value)) return undefined
+  const list = value.filter((entry): entry is string => typeof entry === "string")
+  return list.length > 0 ? list : undefined
+}
+
+export function normalizeSources(sources: unknown): MetaDjAiMessage["sources"] | undefined {
+  if (!Array.isArray(sources)) return undefined
+  const normalized = sources
+    .map((entry) => {
+      if (!entry || typeof entry !== "object") return null
+      const record = entry as Record<string, unknown>
+      const title = typeof record.title === "string" ? record.title : null
+      const url = typeof record.url === "string" ? record.url : null
+      if (!title || !url) return null
+      return { title, url }
+    })
+    .filter((entry): entry is { title: string; url: string } => Boolean(entry))
+  return normalized.length > 0 ? normalized : undefined
+}
+
+export function normalizeVersions(versions: unknown): MetaDjAiMessage["versions"] | undefined {
+  if (!Array.isArray(versions)) return undefined
+  const normalized = versions
+    .map((entry) => {
+      if (!entry || typeof entry !== "object") return null
+      const record = entry as Record<string, unknown>
+      const content = typeof record.content === "string" ? record.content : null
+      const createdAtValue = typeof record.createdAt === "number" ? record.createdAt : null
+      if (!content || createdAtValue === null) return null
+      return {
+        content,
+        createdAt: createdAtValue,
+        toolsUsed: toStringList(record.toolsUsed),
+      }
+    })
+    .filter(
+      (entry): entry is { content: string; createdAt: number; toolsUsed: string[] | undefined } =>
+        Boolean(entry)
+    )
+  return normalized.length > 0 ? normalized : undefined
+}
+
+/**
+ * Metadata JSON for a message row (null when there is nothing beyond role/content)
+ */
+export function buildMessageMetadata(message: MetaDjAiMessage): Record<string, unknown> | null {
+  const metadata: Record<string, unknown> = {}
+  if (message.status) metadata.status = message.status
+  if (message.kind) metadata.kind = message.kind
+  if (message.mode) metadata.mode = message.mode
+  if (message.sources) metadata.sources = message.sources
+  if (message.toolsUsed) metadata.toolsUsed = message.toolsUsed
+  if (message.provider) metadata.provider = message.provider
+  if (message.model) metadata.model = message.model
+  if (message.versions) metadata.versions = message.versions
+  if (typeof message.currentVersionIndex === "number") {
+    metadata.currentVersionIndex = message.currentVersionIndex
+  }
+  if (message.proposal) metadata.proposal = message.proposal
+  return Object.keys(metadata).length > 0 ? metadata : null
+}
+
+/**
+ * Client message from a stored row
+ */
+export function mapMessageRecord(record: MetaDjAiMessageRecord): MetaDjAiMessage {
+  const metadata = record.metadata && typeof record.metadata === "object"
+    ? (record.metadata as Record<string, unknown>)
+    : null
+
+  return {
+    id: record.id,
+    role: record.role === "user" ? "user" : "assistant",
+    content: record.content,
+    createdAt: record.createdAt.getTime(),
+    parentId: record.parentId,
+    status: metadata && isMessageStatus(metadata.status) ? metadata.status : "complete",
+    kind: metadata && isMessageKind(metadata.kind) ? metadata.kind : undefined,
+    mode: metadata && isMessageMode(metadata.mode) ? metadata.mode : undefined,
+    sources: metadata ? normalizeSources(metadata.sources) : undefined,
+    toolsUsed: metadata ? toStringList(metadata.toolsUsed) : undefined,
+    provider: metadata && isMessageProvider(metadata.provider) ? metadata.provider : undefined,
+    model: metadata && typeof metadata.model === "string" ? metadata.model : undefined,
+    versions: metadata ? normalizeVersions(metadata.versions) : undefined,
+    currentVersionIndex: metadata && typeof metadata.currentVersionIndex === "number"
+      ? metadata.currentVersionIndex
+      : undefined,
+    proposal: metadata ? metadata.proposal as MetaDjAiMessage["proposal"] : undefined,
+  }
+}
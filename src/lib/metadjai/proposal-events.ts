@@ -0,0 +1,52 @@
+/**
+ * MetaDJai Proposal Events
+ *
+ * Confirmed Cinema, Dream, and Wisdom proposals are dispatched as window events.
+ * HomePageClient listens for them and routes each into `useCinema` or the
+ * Wisdom deep link state, since those live above the chat panel.
+ */
+
+import type { WisdomDeepLink } from "@/lib/wisdom"
+import type { CinemaProposal, DreamProposal } from "@/types/metadjai.types"
+
+export interface MetaDjAiCinemaEventDetail {
+  action: CinemaProposal["action"]
+  sceneId?: string
+}
+
+export interface MetaDjAiDreamEventDetail {
+  action: DreamProposal["action"]
+  prompt?: string
+}
+
+export type MetaDjAiWisdomEventDetail = WisdomDeepLink
+
+export const META_DJAI_CINEMA_EVENT = "metadjai:cinema"
+export const META_DJAI_DREAM_EVENT = "metadjai:dream"
+export const META_DJAI_WISDOM_EVENT = "metadjai:wisdom"
+
+function dispatch<T>(name: string, detail: T) {
+  if (typeof window === "undefined") return
+  window.dispatchEvent(new CustomEvent<T>(name, { detail }))
+}
+
+/**
+ * Open/close Cinema or switch its scene (opens Cinema when needed)
+ */
+export function dispatchMetaDjAiCinema(detail: MetaDjAiCinemaEventDetail) {
+  dispatch(META_DJAI_CINEMA_EVENT, detail)
+}
+
+/**
+ * Start, re-prompt, or stop Dream (starting opens Cinema when needed)
+ */
+export function dispatchMetaDjAiDream(detail: MetaDjAiDreamEventDetail) {
+  dispatch(META_DJAI_DREAM_EVENT, detail)
+}
+
+/**
+ * Open a Wisdom entry through its deep link
+ */
+export function dispatchMetaDjAiWisdom(detail: MetaDjAiWisdomEventDetail) {
+  dispatch(META_DJAI_WISDOM_EVENT, detail)
+}
@@ -50,11 +50,61 @@ const playlistSchema = z.object({
   approvalRequired,
 })
 
+const cinemaSchema = z.object({
+  type: z.literal("cinema"),
+  action: z.enum(["open", "scene", "close"]),
+  sceneId: z.string().optional(),
+  sceneName: z.string().optional(),
+  context: z.string().optional(),
+  approvalRequired,
+})
+
+const dreamSchema = z.object({
+  type: z.literal("dream"),
+  action: z.enum(["start", "setPrompt", "stop"]),
+  prompt: z.string().max(200).optional(),
+  context: z.string().optional(),
+  approvalRequired,
+})
+
+const wisdomSchema = z.object({
+  type: z.literal("wisdom"),
+  action: z.literal("open"),
+  section: z.enum(["thoughts", "guides", "reflections"]),
+  id: z.string().optional(),
+  title: z.string().optional(),
+  context: z.string().optional(),
+  approvalRequired,
+})
+
+const setPlanSegmentSchema = z.object({
+  phase: z.enum(["opening", "build", "peak", "cooldown"]),
+  minutes: z.number().positive(),
+  targetBpm: z.number().positive(),
+  targetEnergy: z.number().min(1).max(10),
+  trackIds: z.array(z.string()),
+  trackTitles: z.array(z.string()).optional(),
+})
+
+const setPlanSchema = z.object({
+  type: z.literal("set-plan"),
+  action: z.literal("build"),
+  name: z.string(),
+  totalMinutes: z.number().positive(),
+  segments: z.array(setPlanSegmentSchema).min(1).max(4),
+  context: z.string().optional(),
+  approvalRequired,
+})
+
 const proposalSchema = z.discriminatedUnion("type", [
   playbackSchema,
   uiSchema,
   queueSetSchema,
   playlistSchema,
+  cinemaSchema,
+  dreamSchema,
+  wisdomSchema,
+  setPlanSchema,
 ])
 
 export function parseProposal(result: unknown): MetaDjAiProposal | null {
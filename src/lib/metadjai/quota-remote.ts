@@ -0,0 +1,23 @@
+/**
+ * MetaDJai Quota Remote Client
+ *
+ * Best-effort fetch for `/api/metadjai/quota`. Resolves to null on failure
+ * (including guests and unlimited test sessions) so the chat input simply
+ * hides its quota meter.
+ */
+
+import type { MetaDjAiQuotaStatus } from "@/types/metadjai.types"
+
+/**
+ * Fetch the signed-in user's AI tier and remaining quota
+ */
+export async function fetchMetaDjAiQuota(): Promise<MetaDjAiQuotaStatus | null> {
+  try {
+    const response = await fetch("/api/metadjai/quota", { cache: "no-store" })
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.success && data.quota ? (data.quota as MetaDjAiQuotaStatus) : null
+  } catch {
+    return null
+  }
+}
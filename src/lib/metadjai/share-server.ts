@@ -0,0 +1,26 @@
+import "server-only";
+
+import { cache } from "react";
+import { logger } from "@/lib/logger";
+import { isConversationShareToken, parseConversationSnapshot } from "./conversation-transfer";
+import { getPublicConversationShare } from "../../../server/storage";
+import type { MetaDjAiSharedConversation } from "@/types/metadjai.types";
+
+/**
+ * Load a shared conversation snapshot for the public page.
+ * Resolves to null for unknown or revoked links, deleted conversations, and on
+ * DB errors (the page then shows "not found").
+ */
+export const getSharedConversation = cache(async (token: string): Promise<MetaDjAiSharedConversation | null> => {
+  if (!isConversationShareToken(token)) return null;
+
+  try {
+    const share = await getPublicConversationShare(token);
+    return share ? parseConversationSnapshot(share.snapshot) : null;
+  } catch (error) {
+    logger.error("[MetaDJai] Shared conversation lookup error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+});
@@ -0,0 +1,48 @@
+import "server-only";
+
+import { logger } from "@/lib/logger";
+import { sanitizePathSegments } from "@/lib/media/streaming";
+import { getAudioBucket } from "@/lib/media-storage";
+import { getAudioObjectPath, type CatalogAudioValidation } from "./catalog";
+
+const AUDIO_EXTENSIONS = new Set([".mp3"]);
+const AUDIO_CONTENT_TYPE = /audio\/(mpeg|mp3)/i;
+
+/**
+ * Check that a catalog `audioUrl` points at an MP3 that exists in the R2 music bucket.
+ * Applies the same path rules as `/api/audio/[...path]`.
+ */
+export async function validateCatalogAudioUrl(audioUrl: string): Promise<CatalogAudioValidation> {
+  const objectPath = getAudioObjectPath(audioUrl);
+  const path = objectPath ? sanitizePathSegments(objectPath.split("/"), AUDIO_EXTENSIONS) : null;
+  if (!path) {
+    return {
+      valid: false,
+      reason: "invalid_path",
+      message: "Audio URL must be an /api/audio/... path to an .mp3 file",
+    };
+  }
+
+  const bucket = await getAudioBucket();
+  if (!bucket) {
+    return { valid: false, reason: "storage_unavailable", message: "Audio storage bucket unavailable" };
+  }
+
+  try {
+    const [metadata] = await bucket.file(path).getMetadata();
+    const contentType = typeof metadata.contentType === "string" ? metadata.contentType : null;
+    const size = typeof metadata.size === "number" ? metadata.size : null;
+
+    if (contentType && !AUDIO_CONTENT_TYPE.test(contentType)) {
+      return { valid: false, reason: "not_audio", message: `Object is ${contentType}, expected audio/mpeg` };
+    }
+
+    return { valid: true, path, size, contentType };
+  } catch (error) {
+    logger.warn("[Catalog] Audio object lookup failed", {
+      path,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { valid: false, reason: "not_found", message: "Audio file not found in storage" };
+  }
+}
@@ -0,0 +1,256 @@
+/**
+ * Music Catalog Helpers
+ *
+ * Pure helpers shared by the database-backed MusicRepository and the admin
+ * catalog routes: source selection, row → domain mapping, and admin input
+ * validation. No database access happens here.
+ */
+
+import { z } from "zod";
+import { formatZodErrorString } from "@/lib/validation/format";
+import { safeValidateCollection, safeValidateTrack, trackSchema } from "@/lib/validation/schemas";
+import type {
+  CatalogCollectionRecord,
+  CatalogTrackRecord,
+  NewCatalogCollectionRecord,
+  NewCatalogTrackRecord,
+} from "../../../shared/schema";
+import type { Collection, Track } from "@/types";
+
+export type MusicCatalogSource = "static" | "database";
+
+export interface MusicCatalogSnapshot {
+  collections: Collection[];
+  tracks: Track[];
+  /** Rows skipped because they no longer pass the Track/Collection schema */
+  invalid: string[];
+}
+
+/**
+ * Result of checking a catalog `audioUrl` against the R2 music bucket
+ */
+export type CatalogAudioValidation =
+  | { valid: true; path: string; size: number | null; contentType: string | null }
+  | { valid: false; reason: "invalid_path" | "storage_unavailable" | "not_found" | "not_audio"; message: string };
+
+/**
+ * Resolve which catalog backs the MusicRepository (`MUSIC_CATALOG_SOURCE`).
+ * Anything other than "database" keeps the bundled JSON catalog.
+ */
+export function resolveMusicCatalogSource(
+  value: string | undefined = process.env.MUSIC_CATALOG_SOURCE
+): MusicCatalogSource {
+  return value === "database" ? "database" : "static";
+}
+
+/**
+ * Build the served catalog from database rows.
+ *
+ * - Disabled collections hide all of their tracks
+ * - Disabled tracks are skipped
+ * - Collections with no enabled tracks are skipped (trackCount must be positive)
+ * - Order follows collection `position`, then track `position`
+ */
+export function buildCatalogSnapshot(
+  collectionRows: CatalogCollectionRecord[],
+  trackRows: CatalogTrackRecord[]
+): MusicCatalogSnapshot {
+  const invalid: string[] = [];
+  const orderedCollections = [...collectionRows]
+    .filter((row) => row.enabled)
+    .sort((a, b) => a.position - b.position);
+
+  const tracksByCollection = new Map<string, CatalogTrackRecord[]>();
+  for (const row of trackRows) {
+    if (!row.enabled) continue;
+    const list = tracksByCollection.get(row.collectionId) ?? [];
+    list.push(row);
+    tracksByCollection.set(row.collectionId, list);
+  }
+
+  const collections: Collection[] = [];
+  const tracks: Track[] = [];
+
+  for (const collectionRow of orderedCollections) {
+    const collectionTracks: Track[] = [];
+    const rows = (tracksByCollection.get(collectionRow.id) ?? []).sort((a, b) => a.position - b.position);
+
+    for (const row of rows) {
+      const result = safeValidateTrack(toTrack(row, collectionRow.title));
+      if (result.success) {
+        collectionTracks.push(result.data);
+      } else {
+        invalid.push(`track:${row.id}`);
+      }
+    }
+
+    if (collectionTracks.length === 0) continue;
+
+    const result = safeValidateCollection(toCollection(collectionRow, collectionTracks.length));
+    if (!result.success) {
+      invalid.push(`collection:${collectionRow.id}`);
+      continue;
+    }
+
+    collections.push(result.data);
+    tracks.push(...collectionTracks);
+  }
+
+  return { collections, tracks, invalid };
+}
+
+function toTrack(row: CatalogTrackRecord, collectionTitle: string): Track {
+  const track: Track = {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    collection: collectionTitle,
+    duration: row.duration,
+    releaseDate: row.releaseDate,
+    audioUrl: row.audioUrl,
+    genres: row.genres,
+  };
+  if (row.artworkUrl) track.artworkUrl = row.artworkUrl;
+  if (row.description) track.description = row.description;
+  if (row.bpm) track.bpm = row.bpm;
+  if (row.key) track.key = row.key;
+  if (typeof row.loudnessLufs === "number") track.loudnessLufs = row.loudnessLufs;
+  if (typeof row.peakDb === "number") track.peakDb = row.peakDb;
+  return track;
+}
+
+function toCollection(row: CatalogCollectionRecord, trackCount: number): Collection {
+  const collection: Collection = {
+    id: row.id,
+    title: row.title,
+    artist: row.artist,
+    type: "collection",
+    releaseDate: row.releaseDate,
+    trackCount,
+    enabled: true,
+  };
+  if (row.artworkUrl) collection.artworkUrl = row.artworkUrl;
+  if (row.description) collection.description = row.description;
+  return collection;
+}
+
+/**
+ * Convert the bundled JSON catalog into insertable rows (seeding).
+ * Tracks whose collection title has no matching collection are skipped.
+ */
+export function toCatalogSeedRows(
+  collections: Collection[],
+  tracks: Track[]
+): { collections: NewCatalogCollectionRecord[]; tracks: NewCatalogTrackRecord[] } {
+  const collectionIdByTitle = new Map(collections.map((collection) => [collection.title, collection.id]));
+  const positionByCollection = new Map<string, number>();
+
+  const trackRows: NewCatalogTrackRecord[] = [];
+  for (const track of tracks) {
+    const collectionId = collectionIdByTitle.get(track.collection);
+    if (!collectionId) continue;
+    const position = positionByCollection.get(collectionId) ?? 0;
+    positionByCollection.set(collectionId, position + 1);
+
+    trackRows.push({
+      id: track.id,
+      collectionId,
+      title: track.title,
+      artist: track.artist,
+      duration: track.duration,
+      releaseDate: track.releaseDate,
+      audioUrl: track.audioUrl,
+      artworkUrl: track.artworkUrl ?? null,
+      description: track.description ?? null,
+      genres: track.genres,
+      bpm: track.bpm ?? null,
+      key: track.key ?? null,
+      loudnessLufs: track.loudnessLufs ?? null,
+      peakDb: track.peakDb ?? null,
+      enabled: true,
+      position,
+    });
+  }
+
+  return {
+    collections: collections.map((collection, position) => ({
+      id: collection.id,
+      title: collection.title,
+      artist: collection.artist,
+      type: collection.type,
+      releaseDate: collection.releaseDate,
+      artworkUrl: collection.artworkUrl ?? null,
+      description: collection.description ?? null,
+      enabled: collection.enabled !== false,
+      position,
+    })),
+    tracks: trackRows,
+  };
+}
+
+// ============================================================================
+// Admin input validation
+// ============================================================================
+
+const catalogIdSchema = z
+  .string()
+  .min(1, "ID is required")
+  .max(64, "ID too long")
+  .regex(/^[a-z0-9][a-z0-9-]*$/, "ID must use lowercase letters, numbers, and hyphens");
+
+/**
+ * Admin track input: the track schema with `collectionId` instead of the
+ * collection title, plus the `enabled` flag.
+ */
+export const catalogTrackInputSchema = trackSchema
+  .omit({ collection: true })
+  .extend({
+    id: catalogIdSchema,
+    collectionId: catalogIdSchema,
+    enabled: z.boolean().optional(),
+  });
+
+export const catalogTrackUpdateSchema = catalogTrackInputSchema.omit({ id: true }).partial();
+
+export type CatalogTrackInput = z.infer<typeof catalogTrackInputSchema>;
+export type CatalogTrackUpdate = z.infer<typeof catalogTrackUpdateSchema>;
+
+/**
+ * Validate an admin "create track" payload
+ */
+export function parseCatalogTrackInput(
+  value: unknown
+): { success: true; data: CatalogTrackInput } | { success: false; error: string } {
+  const result = catalogTrackInputSchema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: formatZodErrorString(result.error) };
+}
+
+/**
+ * Validate an admin "edit track" payload (all fields optional)
+ */
+export function parseCatalogTrackUpdate(
+  value: unknown
+): { success: true; data: CatalogTrackUpdate } | { success: false; error: string } {
+  const result = catalogTrackUpdateSchema.safeParse(value);
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, error: formatZodErrorString(result.error) };
+}
+
+/**
+ * Convert an `/api/audio/...` URL into the R2 object path (relative to the
+ * music prefix). Returns null for URLs outside the audio proxy.
+ */
+export function getAudioObjectPath(audioUrl: string): string | null {
+  const prefix = "/api/audio/";
+  if (!audioUrl.startsWith(prefix)) return null;
+
+  const segments = audioUrl.slice(prefix.length).split("/");
+  try {
+    return segments.map((segment) => decodeURIComponent(segment)).join("/");
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,119 @@
+import "server-only";
+
+import { logger } from "@/lib/logger";
+import { buildCatalogSnapshot, type MusicCatalogSnapshot } from "./catalog";
+import { collectionList, trackList } from "./data";
+import { normalizeCollectionSlug } from "./utils";
+import { getCatalogCollections, getCatalogTracks } from "../../../server/storage";
+import type { MusicRepository } from "./repository";
+import type { Collection, Track } from "@/types";
+
+/**
+ * How long a loaded catalog is served before re-reading Postgres.
+ * Admin writes call `invalidateMusicCatalogCache()` so edits show up immediately
+ * on the instance that handled them.
+ */
+const CATALOG_CACHE_TTL_MS = 30_000;
+
+let cachedSnapshot: { snapshot: MusicCatalogSnapshot; loadedAt: number } | null = null;
+let pendingLoad: Promise<MusicCatalogSnapshot> | null = null;
+
+/**
+ * Drop the cached catalog so the next read comes from the database.
+ */
+export function invalidateMusicCatalogCache(): void {
+  cachedSnapshot = null;
+  pendingLoad = null;
+}
+
+async function loadSnapshot(): Promise<MusicCatalogSnapshot> {
+  try {
+    const [collectionRows, trackRows] = await Promise.all([getCatalogCollections(), getCatalogTracks()]);
+    const snapshot = buildCatalogSnapshot(collectionRows, trackRows);
+
+    if (snapshot.invalid.length > 0) {
+      logger.warn("[Music] Skipped invalid catalog rows", { rows: snapshot.invalid });
+    }
+
+    if (snapshot.tracks.length === 0) {
+      // Unseeded (or fully disabled) catalog: keep the app playable
+      logger.warn("[Music] Database catalog is empty, serving bundled catalog");
+      return { collections: collectionList, tracks: trackList, invalid: [] };
+    }
+
+    return snapshot;
+  } catch (error) {
+    logger.error("[Music] Database catalog load error, serving bundled catalog", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return { collections: collectionList, tracks: trackList, invalid: [] };
+  }
+}
+
+async function getSnapshot(): Promise<MusicCatalogSnapshot> {
+  if (cachedSnapshot && Date.now() - cachedSnapshot.loadedAt < CATALOG_CACHE_TTL_MS) {
+    return cachedSnapshot.snapshot;
+  }
+
+  if (!pendingLoad) {
+    const load = loadSnapshot();
+    pendingLoad = load;
+    load
+      .then((snapshot) => {
+        if (pendingLoad === load) {
+          cachedSnapshot = { snapshot, loadedAt: Date.now() };
+          pendingLoad = null;
+        }
+      })
+      .catch(() => {
+        if (pendingLoad === load) pendingLoad = null;
+      });
+  }
+
+  return pendingLoad;
+}
+
+class DatabaseMusicRepository implements MusicRepository {
+  async listCollections(): Promise<Collection[]> {
+    return (await getSnapshot()).collections;
+  }
+
+  async listTracks(): Promise<Track[]> {
+    return (await getSnapshot()).tracks;
+  }
+
+  async findTrackById(id: string): Promise<Track | undefined> {
+    return (await getSnapshot()).tracks.find((track) => track.id === id);
+  }
+
+  async listTracksByCollection(collectionIdOrName: string): Promise<Track[]> {
+    const normalized = normalizeCollectionSlug(collectionIdOrName);
+
+    return (await getSnapshot()).tracks.filter((track) => {
+      const matchesSlug = normalizeCollectionSlug(track.collection) === normalized;
+      return track.collection === collectionIdOrName || matchesSlug;
+    });
+  }
+
+  async findCollectionById(id: string): Promise<Collection | undefined> {
+    const { collections } = await getSnapshot();
+    const normalized = normalizeCollectionSlug(id);
+
+    return collections.find(
+      (collection) =>
+        collection.id === id ||
+        normalizeCollectionSlug(collection.title) === normalized ||
+        normalizeCollectionSlug(collection.id) === normalized,
+    );
+  }
+}
+
+let repository: MusicRepository | null = null;
+
+export function getDatabaseMusicRepository(): MusicRepository {
+  if (!repository) {
+    repository = new DatabaseMusicRepository();
+  }
+
+  return repository;
+}
@@ -0,0 +1,184 @@
+/**
+ * Harmonic Sequencing
+ *
+ * Pure helpers for DJ-style track ordering: parses `key` metadata into
+ * Camelot wheel notation and sequences tracks so neighbours mix harmonically
+ * and tempo moves in small steps. Used by `buildQueue` when DJ order is on.
+ */
+
+import type { Track } from "@/types"
+
+export type CamelotMode = "A" | "B"
+
+/**
+ * Camelot wheel position (1-12; A = minor, B = major)
+ */
+export interface CamelotKey {
+  number: number
+  mode: CamelotMode
+}
+
+const PITCH_CLASSES: Record<string, number> = {
+  c: 0,
+  d: 2,
+  e: 4,
+  f: 5,
+  g: 7,
+  a: 9,
+  b: 11,
+}
+
+/** One Camelot step is weighted like this many BPM of tempo change */
+const HARMONIC_STEP_COST = 8
+/** Harmonic distance assumed when either key is unknown */
+const UNKNOWN_KEY_DISTANCE = 2
+/** Tempo distance (BPM) assumed when either BPM is unknown */
+const UNKNOWN_BPM_DISTANCE = 8
+
+/**
+ * Parse a musical key into Camelot notation.
+ *
+ * Accepts Camelot codes ("8A", "12B") and note names with an optional
+ * accidental and mode ("C major", "A minor", "F#m", "Bb min", "Ebmaj").
+ * A bare note name is treated as major. Returns null when the key is missing
+ * or unrecognised.
+ */
+export function parseCamelotKey(key: string | null | undefined): CamelotKey | null {
+  if (!key) return null
+  const value = key.trim().replace(/♯/g, "#").replace(/♭/g, "b")
+  if (!value) return null
+
+  const camelot = /^0?(\d{1,2})\s*([ab])$/i.exec(value)
+  if (camelot) {
+    const number = Number(camelot[1])
+    if (number < 1 || number > 12) return null
+    return { number, mode: camelot[2].toUpperCase() as CamelotMode }
+  }
+
+  const note = /^([a-g])([#b]?)\s*(m|min|minor|maj|major)?$/i.exec(value)
+  if (!note) return null
+
+  const accidental = note[2] === "#" ? 1 : note[2] === "b" ? -1 : 0
+  const pitchClass = (PITCH_CLASSES[note[1].toLowerCase()] + accidental + 12) % 12
+  const isMinor = /^m(in(or)?)?$/i.test(note[3] ?? "")
+
+  // Minor keys share a wheel number with their relative major (three semitones up)
+  const majorPitchClass = isMinor ? (pitchClass + 3) % 12 : pitchClass
+  // Each fifth moves one step around the wheel; C major sits at 8B
+  const number = ((majorPitchClass * 7 + 7) % 12) + 1
+
+  return { number, mode: isMinor ? "A" : "B" }
+}
+
+/**
+ * Format a Camelot key for display (e.g. "8A")
+ */
+export function formatCamelotKey(key: CamelotKey): string {
+  return `${key.number}${key.mode}`
+}
+
+/**
+ * Steps between two Camelot keys.
+ * Same key = 0; ±1 on the wheel or the relative major/minor = 1.
+ */
+export function getCamelotDistance(a: CamelotKey, b: CamelotKey): number {
+  const offset = Math.abs(a.number - b.number)
+  const wheelSteps = Math.min(offset, 12 - offset)
+  return wheelSteps + (a.mode === b.mode ? 0 : 1)
+}
+
+/**
+ * Whether two keys mix cleanly (same key, adjacent on the wheel, or relative)
+ */
+export function areCamelotKeysCompatible(a: CamelotKey, b: CamelotKey): boolean {
+  return getCamelotDistance(a, b) <= 1
+}
+
+/**
+ * Tempo distance in BPM, allowing half/double-time mixes
+ */
+function getBpmDistance(a: number | undefined, b: number | undefined): number {
+  if (!a || !b) return UNKNOWN_BPM_DISTANCE
+  return Math.min(Math.abs(a - b), Math.abs(a - b * 2), Math.abs(a * 2 - b))
+}
+
+interface SequencedTrack {
+  track: Track
+  camelot: CamelotKey | null
+}
+
+function getTransitionCost(from: SequencedTrack, to: SequencedTrack): number {
+  const harmonic = from.camelot && to.camelot
+    ? getCamelotDistance(from.camelot, to.camelot)
+    : UNKNOWN_KEY_DISTANCE
+  return harmonic * HARMONIC_STEP_COST + getBpmDistance(from.track.bpm, to.track.bpm)
+}
+
+/**
+ * Order tracks for a DJ set.
+ *
+ * Greedy nearest-neighbour walk: each next track is the cheapest transition
+ * from the previous one, weighing Camelot distance above BPM change. Ties keep
+ * the input order, so the result is deterministic.
+ *
+ * - When `anchor` is in `tracks` it leads the set.
+ * - When `anchor` is outside `tracks` (e.g. the track playing before this lane)
+ *   the walk continues from it.
+ * - Without an anchor the set starts from the slowest track.
+ * - Tracks with neither `key` nor `bpm` cannot be placed and keep their
+ *   original order at the end.
+ */
+export function orderTracksForDjSet(tracks: Track[], anchor?: Track | null): Track[] {
+  if (tracks.length <= 1) return [...tracks]
+
+  const remaining: SequencedTrack[] = []
+  const unplaceable: Track[] = []
+  let lead: Track | null = null
+
+  for (const track of tracks) {
+    if (anchor && track.id === anchor.id) {
+      lead = track
+      continue
+    }
+    const camelot = parseCamelotKey(track.key)
+    if (!camelot && !track.bpm) {
+      unplaceable.push(track)
+      continue
+    }
+    remaining.push({ track, camelot })
+  }
+
+  const ordered: Track[] = []
+  let previous: SequencedTrack | null = null
+
+  if (lead) {
+    ordered.push(lead)
+    previous = { track: lead, camelot: parseCamelotKey(lead.key) }
+  } else if (anchor) {
+    previous = { track: anchor, camelot: parseCamelotKey(anchor.key) }
+  } else if (remaining.length > 0) {
+    let slowestIndex = 0
+    remaining.forEach((candidate, index) => {
+      const slowestBpm = remaining[slowestIndex].track.bpm ?? Infinity
+      if ((candidate.track.bpm ?? Infinity) < slowestBpm) slowestIndex = index
+    })
+    previous = remaining.splice(slowestIndex, 1)[0]
+    ordered.push(previous.track)
+  }
+
+  while (remaining.length > 0 && previous) {
+    let bestIndex = 0
+    let bestCost = Infinity
+    remaining.forEach((candidate, index) => {
+      const cost = getTransitionCost(previous as SequencedTrack, candidate)
+      if (cost < bestCost) {
+        bestCost = cost
+        bestIndex = index
+      }
+    })
+    previous = remaining.splice(bestIndex, 1)[0]
+    ordered.push(previous.track)
+  }
+
+  return [...ordered, ...unplaceable]
+}
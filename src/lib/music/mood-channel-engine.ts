@@ -0,0 +1,199 @@
+/**
+ * Mood Channel Engine
+ *
+ * Builds an endless radio stream for a mood channel. Tracks are drawn from
+ * the channel's matches (`scoreTrackForMoodChannel`), weighted towards its
+ * preferred collections, and picked to follow an energy curve that rises and
+ * settles across each session. A track can't return until the replay window
+ * of other tracks has played.
+ *
+ * The stream is plain data: `takeMoodChannelTracks` returns the next stream
+ * state alongside the picked tracks.
+ */
+
+import {
+  MOOD_CHANNEL_REPLAY_WINDOW,
+  isPreferredMoodChannelCollection,
+  scoreTrackForMoodChannel,
+  type MoodChannel,
+} from "@/data/moodChannels"
+import type { Track } from "@/types"
+
+/** Tracks per energy arc (warm-up → peak → settle) */
+export const MOOD_CHANNEL_SESSION_LENGTH = 16
+/** How far the energy curve swings above and below the channel's level */
+const ENERGY_CURVE_AMPLITUDE = 1.5
+/** Relevance multiplier for tracks from preferred collections */
+const PREFERRED_COLLECTION_WEIGHT = 1.5
+/** Each pick is sampled from this many best-fitting candidates */
+const SAMPLE_SIZE = 4
+/** BPM mapped to energy 1 and 10 */
+const ENERGY_BPM_FLOOR = 70
+const ENERGY_BPM_CEILING = 160
+
+export interface MoodChannelCandidate {
+  track: Track
+  /** Channel match strength, boosted for preferred collections */
+  relevance: number
+  /** Estimated energy 1-10 */
+  energy: number
+}
+
+export interface MoodChannelStream {
+  channelId: string
+  /** Base energy level of the channel */
+  energyLevel: number
+  candidates: MoodChannelCandidate[]
+  /** Effective replay window (never larger than the pool allows) */
+  replayWindow: number
+  sessionLength: number
+  /** Track IDs in play order, trimmed to the replay window */
+  recentTrackIds: string[]
+  /** Tracks emitted so far (drives the energy curve) */
+  position: number
+}
+
+export interface MoodChannelStreamOptions {
+  /** Tracks that must play before one repeats (defaults to the channel's, then MOOD_CHANNEL_REPLAY_WINDOW) */
+  replayWindow?: number
+  /** Tracks per energy arc */
+  sessionLength?: number
+}
+
+export interface TakeMoodChannelTracksOptions {
+  /** Tracks that must not be picked (e.g. already upcoming in the queue) */
+  excludeTrackIds?: Iterable<string>
+  /** Random source in [0, 1); injectable for tests */
+  random?: () => number
+}
+
+export interface MoodChannelTake {
+  stream: MoodChannelStream
+  tracks: Track[]
+}
+
+/**
+ * Estimate a track's energy (1-10) from its BPM; tracks without BPM sit at `fallback`
+ */
+export function estimateTrackEnergy(track: Pick<Track, "bpm">, fallback: number): number {
+  if (!track.bpm) return fallback
+  const ratio = (track.bpm - ENERGY_BPM_FLOOR) / (ENERGY_BPM_CEILING - ENERGY_BPM_FLOOR)
+  return Math.max(1, Math.min(10, 1 + ratio * 9))
+}
+
+/**
+ * Target energy at a stream position.
+ * Each session starts below the channel's level, peaks halfway, and settles back.
+ */
+export function getMoodChannelTargetEnergy(
+  energyLevel: number,
+  position: number,
+  sessionLength: number = MOOD_CHANNEL_SESSION_LENGTH
+): number {
+  const length = Math.max(1, sessionLength)
+  const phase = (position % length) / length
+  const target = energyLevel - ENERGY_CURVE_AMPLITUDE * Math.cos(2 * Math.PI * phase)
+  return Math.max(1, Math.min(10, target))
+}
+
+/**
+ * Create a stream for a channel from the full catalog
+ */
+export function createMoodChannelStream(
+  channel: MoodChannel,
+  tracks: Track[],
+  options: MoodChannelStreamOptions = {}
+): MoodChannelStream {
+  const candidates: MoodChannelCandidate[] = []
+  for (const track of tracks) {
+    const score = scoreTrackForMoodChannel(channel, track)
+    if (score <= 0) continue
+    const relevance = isPreferredMoodChannelCollection(channel, track.collection)
+      ? score * PREFERRED_COLLECTION_WEIGHT
+      : score
+    candidates.push({ track, relevance, energy: estimateTrackEnergy(track, channel.energyLevel) })
+  }
+
+  const requestedWindow = options.replayWindow ?? channel.replayWindow ?? MOOD_CHANNEL_REPLAY_WINDOW
+
+  return {
+    channelId: channel.id,
+    energyLevel: channel.energyLevel,
+    candidates,
+    replayWindow: Math.max(0, Math.min(requestedWindow, candidates.length - 1)),
+    sessionLength: Math.max(1, options.sessionLength ?? MOOD_CHANNEL_SESSION_LENGTH),
+    recentTrackIds: [],
+    position: 0,
+  }
+}
+
+function pickCandidate(
+  stream: MoodChannelStream,
+  excluded: Set<string>,
+  random: () => number
+): MoodChannelCandidate | null {
+  const blocked = new Set(stream.replayWindow > 0 ? stream.recentTrackIds.slice(-stream.replayWindow) : [])
+  let pool = stream.candidates.filter(
+    (candidate) => !excluded.has(candidate.track.id) && !blocked.has(candidate.track.id)
+  )
+
+  // Excluded tracks can crowd out the whole pool; fall back to the least recently played
+  if (pool.length === 0) {
+    const leastRecent = stream.candidates
+      .filter((candidate) => !excluded.has(candidate.track.id))
+      .sort(
+        (a, b) =>
+          stream.recentTrackIds.lastIndexOf(a.track.id) - stream.recentTrackIds.lastIndexOf(b.track.id)
+      )
+    pool = leastRecent.slice(0, 1)
+  }
+  if (pool.length === 0) return null
+
+  const target = getMoodChannelTargetEnergy(stream.energyLevel, stream.position, stream.sessionLength)
+  const ranked = pool
+    .map((candidate) => ({
+      candidate,
+      weight: candidate.relevance / (1 + Math.abs(candidate.energy - target)),
+    }))
+    .sort((a, b) => b.weight - a.weight || a.candidate.track.id.localeCompare(b.candidate.track.id))
+    .slice(0, SAMPLE_SIZE)
+
+  const total = ranked.reduce((sum, entry) => sum + entry.weight, 0)
+  let roll = random() * total
+  for (const entry of ranked) {
+    roll -= entry.weight
+    if (roll < 0) return entry.candidate
+  }
+  return ranked[0].candidate
+}
+
+/**
+ * Take the next `count` tracks from the stream.
+ * Returns fewer when the channel has no playable tracks left after exclusions.
+ */
+export function takeMoodChannelTracks(
+  stream: MoodChannelStream,
+  count: number,
+  options: TakeMoodChannelTracksOptions = {}
+): MoodChannelTake {
+  const excluded = new Set(options.excludeTrackIds ?? [])
+  const random = options.random ?? Math.random
+  const picked: Track[] = []
+  let next = stream
+
+  for (let i = 0; i < count; i++) {
+    const candidate = pickCandidate(next, excluded, random)
+    if (!candidate) break
+
+    picked.push(candidate.track)
+    // Tracks in this batch can't reappear within it
+    excluded.add(candidate.track.id)
+    next = {
+      ...next,
+      recentTrackIds: [...next.recentTrackIds, candidate.track.id].slice(-Math.max(1, next.replayWindow)),
+      position: next.position + 1,
+    }
+  }
+
+  return { stream: next, tracks: picked }
+}
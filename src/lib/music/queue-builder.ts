@@ -10,9 +10,21 @@
  * - Easier to unit test queue logic independently
  */
 
+import { evaluateSmartPlaylist } from '@/lib/playlists/smart'
 import { trackList as allTracks } from './data'
+import { orderTracksForDjSet } from './harmonic'
 import { shuffleTracks } from './utils'
-import type { Track } from "@/types"
+import type { SmartPlaylistRuleGroup, Track } from "@/types"
+
+/**
+ * Smart playlist source for the auto queue ('smart-playlist' queue context)
+ */
+export interface SmartPlaylistQueueSource {
+  /** Rule tree the base tracks must satisfy */
+  rules: SmartPlaylistRuleGroup
+  /** Most recent first; applied by `recentlyPlayed` exclusion rules */
+  recentlyPlayedIds?: string[]
+}
 
 /**
  * Queue building options
@@ -24,6 +36,18 @@ export interface QueueBuildOptions {
   autoplay?: boolean
   /** Whether to preserve the current track if it exists in the new queue */
   preserveCurrent?: boolean
+  /** When set, base tracks are narrowed to the smart playlist's rule matches */
+  smartPlaylist?: SmartPlaylistQueueSource
+  /**
+   * Sequence the auto lane by Camelot key and BPM (DJ order).
+   * The manual lane keeps its order.
+   */
+  djOrder?: boolean
+  /**
+   * Catalog that manual track IDs resolve against (the served catalog, which
+   * may be database-backed). Defaults to the bundled catalog.
+   */
+  catalogTracks?: Track[]
 }
 
 /**
@@ -45,10 +69,11 @@ export interface QueueBuildResult {
 /**
  * Build a queue from base tracks and manual track IDs
  *
- * @param baseTracks - Base tracks to include in the queue (will be filtered to exclude manual tracks)
+ * @param baseTracks - Base tracks to include in the queue (will be filtered to exclude manual tracks,
+ *   and to the smart playlist rules when `options.smartPlaylist` is set)
  * @param manualIds - Array of track IDs to prioritize at the front of the queue
  * @param currentTrack - Currently playing track (if any)
- * @param options - Queue building options
+ * @param options - Queue building options (`djOrder` re-sequences the auto lane only)
  * @returns QueueBuildResult with combined queue and metadata
  *
  * @example
@@ -71,10 +96,11 @@ export function buildQueue(
   const manualTracks: Track[] = []
   const sanitizedManualIds: string[] = []
   const seenManual = new Set<string>()
+  const catalog = options?.catalogTracks ?? allTracks
 
   for (const id of manualIds) {
     if (seenManual.has(id)) continue
-    const track = allTracks.find((candidate: Track) => candidate?.id === id)
+    const track = catalog.find((candidate: Track) => candidate?.id === id)
     if (track) {
       manualTracks.push(track)
       sanitizedManualIds.push(track.id)
@@ -82,9 +108,35 @@ export function buildQueue(
     }
   }
 
+  // Smart playlists evaluate their rules here so history exclusions reflect this play
+  const sourceTracks = options?.smartPlaylist
+    ? evaluateSmartPlaylist(options.smartPlaylist.rules, baseTracks, {
+        recentlyPlayedIds: options.smartPlaylist.recentlyPlayedIds,
+      })
+    : baseTracks
+
   // Filter base tracks to exclude manual tracks
   const manualSet = new Set(sanitizedManualIds)
-  const filteredBase = baseTracks.filter((track) => !manualSet.has(track.id))
+  const unorderedBase = sourceTracks.filter((track) => !manualSet.has(track.id))
+
+  // Determine target track
+  const preserveCurrent = options?.preserveCurrent ?? true
+  let targetTrackId = options?.anchorTrackId ?? null
+
+  if (!targetTrackId && preserveCurrent && currentTrack) {
+    targetTrackId = currentTrack.id
+  }
+
+  // DJ order: the target leads the auto lane when it lives there; otherwise the
+  // set continues from the last priority track (or whatever is playing now)
+  let filteredBase = unorderedBase
+  if (options?.djOrder) {
+    const djAnchor =
+      unorderedBase.find((track) => track.id === targetTrackId) ??
+      manualTracks[manualTracks.length - 1] ??
+      currentTrack
+    filteredBase = orderTracksForDjSet(unorderedBase, djAnchor)
+  }
 
   // Combine manual and auto tracks
   const combined = [...manualTracks, ...filteredBase]
@@ -100,14 +152,6 @@ export function buildQueue(
     }
   }
 
-  // Determine target track
-  const preserveCurrent = options?.preserveCurrent ?? true
-  let targetTrackId = options?.anchorTrackId ?? null
-
-  if (!targetTrackId && preserveCurrent && currentTrack) {
-    targetTrackId = currentTrack.id
-  }
-
   // If no target track and no current track (initial load), don't auto-select
   let targetIndex = -1
   if (targetTrackId || currentTrack) {
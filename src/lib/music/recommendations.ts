@@ -0,0 +1,215 @@
+/**
+ * Personalized Recommendations
+ *
+ * Pure scoring engine behind the "For You" rail and MetaDJai's
+ * `getRecommendations` tool. A listener's per-track history (plays, skips,
+ * completions) becomes a taste profile (genre weights, tempo centre, liked
+ * keys); candidate tracks are scored by how well their metadata matches it.
+ */
+
+import { areCamelotKeysCompatible, parseCamelotKey, type CamelotKey } from "./harmonic"
+import type { Track } from "@/types"
+
+/**
+ * Listening history aggregated per track (see `listening_events`)
+ */
+export interface TrackListeningHistory {
+  trackId: string
+  /** Every recorded listen, however short */
+  listens: number
+  /** Listens that counted as plays (30s+ or completed) */
+  plays: number
+  completions: number
+  skips: number
+  /** ISO timestamp of the most recent listen */
+  lastListenedAt: string | null
+}
+
+export type RecommendationReason =
+  | "listened-before"
+  | "similar-genre"
+  | "similar-tempo"
+  | "harmonic-key"
+  | "new-to-you"
+
+export interface ListenerTasteProfile {
+  /** Per-track affinity (-1 = always skipped, 1 = always completed) */
+  affinities: Map<string, number>
+  /** Genre preference, scaled so the favourite genre is 1 (can go negative) */
+  genreWeights: Map<string, number>
+  /** Affinity-weighted average BPM of liked tracks */
+  bpm: number | null
+  /** Keys of liked tracks */
+  keys: CamelotKey[]
+  /** Tracks heard within the recent window; pushed down to keep things fresh */
+  recentTrackIds: Set<string>
+  /** Whether any listen produced a positive signal */
+  hasSignal: boolean
+}
+
+export interface ListenerScore {
+  score: number
+  reasons: RecommendationReason[]
+}
+
+export interface PersonalRecommendation extends ListenerScore {
+  track: Track
+}
+
+/** Tracks heard this recently are pushed down the list */
+export const RECENT_LISTEN_WINDOW_HOURS = 12
+/** BPM difference at which tempo similarity reaches zero */
+const BPM_SIMILARITY_WINDOW = 30
+/** Skipped tracks count against their genres at this fraction of a like */
+const NEGATIVE_GENRE_FACTOR = 0.5
+
+const WEIGHTS = {
+  affinity: 3,
+  genre: 2,
+  bpm: 1,
+  key: 0.75,
+  novelty: 0.5,
+  recent: -2,
+}
+
+/**
+ * How much the listener likes a track they have heard, from -1 to 1.
+ * Completions count fully, partial plays by half, skips against.
+ */
+export function getTrackAffinity(history: TrackListeningHistory): number {
+  if (history.listens <= 0) return 0
+  const partialPlays = Math.max(0, history.plays - history.completions)
+  const raw = (history.completions + partialPlays * 0.5 - history.skips) / (history.listens + 1)
+  return Math.max(-1, Math.min(1, raw))
+}
+
+/**
+ * Build a taste profile from per-track history.
+ * History for tracks missing from `tracks` only contributes its affinity.
+ */
+export function buildListenerTasteProfile(
+  tracks: Track[],
+  history: TrackListeningHistory[],
+  now: Date = new Date()
+): ListenerTasteProfile {
+  const trackById = new Map(tracks.map((track) => [track.id, track]))
+  const affinities = new Map<string, number>()
+  const genreTotals = new Map<string, number>()
+  const keys: CamelotKey[] = []
+  const recentTrackIds = new Set<string>()
+  const recentCutoff = now.getTime() - RECENT_LISTEN_WINDOW_HOURS * 60 * 60 * 1000
+  let bpmSum = 0
+  let bpmWeight = 0
+  let hasSignal = false
+
+  for (const entry of history) {
+    const affinity = getTrackAffinity(entry)
+    affinities.set(entry.trackId, affinity)
+
+    const lastListened = entry.lastListenedAt ? Date.parse(entry.lastListenedAt) : NaN
+    if (Number.isFinite(lastListened) && lastListened >= recentCutoff) {
+      recentTrackIds.add(entry.trackId)
+    }
+
+    const track = trackById.get(entry.trackId)
+    if (!track || affinity === 0) continue
+
+    // Repeat plays strengthen the signal with diminishing returns
+    const weight = affinity * (1 + Math.log2(1 + entry.plays))
+    const genreWeight = affinity > 0 ? weight : weight * NEGATIVE_GENRE_FACTOR
+    for (const genre of track.genres) {
+      const key = genre.toLowerCase()
+      genreTotals.set(key, (genreTotals.get(key) ?? 0) + genreWeight)
+    }
+
+    if (affinity > 0) {
+      hasSignal = true
+      if (track.bpm) {
+        bpmSum += track.bpm * weight
+        bpmWeight += weight
+      }
+      const camelot = parseCamelotKey(track.key)
+      if (camelot) keys.push(camelot)
+    }
+  }
+
+  const maxGenre = Math.max(0, ...genreTotals.values())
+  const genreWeights = new Map<string, number>()
+  for (const [genre, total] of genreTotals) {
+    genreWeights.set(genre, maxGenre > 0 ? Math.max(-1, total / maxGenre) : Math.max(-1, total))
+  }
+
+  return {
+    affinities,
+    genreWeights,
+    bpm: bpmWeight > 0 ? bpmSum / bpmWeight : null,
+    keys,
+    recentTrackIds,
+    hasSignal,
+  }
+}
+
+/**
+ * Score one track against a taste profile
+ */
+export function scoreTrackForListener(track: Track, profile: ListenerTasteProfile): ListenerScore {
+  const reasons: RecommendationReason[] = []
+  let score = 0
+
+  const affinity = profile.affinities.get(track.id)
+  if (affinity === undefined) {
+    score += WEIGHTS.novelty
+    reasons.push("new-to-you")
+  } else {
+    score += affinity * WEIGHTS.affinity
+    if (affinity >= 0.3) reasons.push("listened-before")
+  }
+
+  if (track.genres.length > 0) {
+    const genreScore = track.genres.reduce(
+      (total, genre) => total + (profile.genreWeights.get(genre.toLowerCase()) ?? 0),
+      0
+    ) / track.genres.length
+    score += genreScore * WEIGHTS.genre
+    if (genreScore >= 0.5) reasons.push("similar-genre")
+  }
+
+  if (profile.bpm !== null && track.bpm) {
+    const closeness = Math.max(0, 1 - Math.abs(track.bpm - profile.bpm) / BPM_SIMILARITY_WINDOW)
+    score += closeness * WEIGHTS.bpm
+    if (closeness >= 0.6) reasons.push("similar-tempo")
+  }
+
+  const camelot = parseCamelotKey(track.key)
+  if (camelot && profile.keys.some((liked) => areCamelotKeysCompatible(camelot, liked))) {
+    score += WEIGHTS.key
+    reasons.push("harmonic-key")
+  }
+
+  if (profile.recentTrackIds.has(track.id)) {
+    score += WEIGHTS.recent
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons }
+}
+
+/**
+ * Rank tracks for a listener.
+ * Returns an empty list when the history holds no positive signal (cold start),
+ * so callers can fall back to non-personal suggestions.
+ */
+export function recommendTracksForListener(
+  tracks: Track[],
+  history: TrackListeningHistory[],
+  options: { limit?: number; excludeTrackIds?: Iterable<string>; now?: Date } = {}
+): PersonalRecommendation[] {
+  const profile = buildListenerTasteProfile(tracks, history, options.now)
+  if (!profile.hasSignal) return []
+
+  const excluded = new Set(options.excludeTrackIds ?? [])
+  return tracks
+    .filter((track) => !excluded.has(track.id))
+    .map((track) => ({ track, ...scoreTrackForListener(track, profile) }))
+    .sort((a, b) => b.score - a.score || a.track.id.localeCompare(b.track.id))
+    .slice(0, Math.max(0, options.limit ?? 10))
+}
@@ -1,7 +1,10 @@
 import "server-only";
 
 import { cache } from "react";
-import { preloadMusic } from "./static-repository";
+import { resolveMusicCatalogSource } from "./catalog";
+import { getDatabaseMusicRepository } from "./db-repository";
+import { getMusicRepository } from "./static-repository";
+import type { MusicRepository } from "./repository";
 import type { Collection, Track } from "@/types";
 
 export interface MusicSnapshot {
@@ -9,7 +12,18 @@ export interface MusicSnapshot {
   tracks: Track[];
 }
 
+/**
+ * Server-side MusicRepository selected by `MUSIC_CATALOG_SOURCE`.
+ * The bundled JSON catalog stays the default (and the client-side source).
+ */
+export function getServerMusicRepository(): MusicRepository {
+  return resolveMusicCatalogSource() === "database"
+    ? getDatabaseMusicRepository()
+    : getMusicRepository();
+}
+
 export const getMusicSnapshot = cache(async (): Promise<MusicSnapshot> => {
-  const { collections, tracks } = await preloadMusic();
+  const repo = getServerMusicRepository();
+  const [collections, tracks] = await Promise.all([repo.listCollections(), repo.listTracks()]);
   return { collections, tracks };
 });
@@ -0,0 +1,210 @@
+/**
+ * DJ Set Builder
+ *
+ * Plans a timed DJ set in four segments (opening → build → peak → cooldown),
+ * each with a target BPM and energy. Tracks are picked from the catalog by how
+ * closely they fit the segment's targets until its minutes are filled, and a
+ * track is used at most once per set.
+ *
+ * Only some tracks carry a BPM, so energy is estimated from BPM when known and
+ * from genre/description cues otherwise. Everything here is pure so the
+ * MetaDJai tool (server) and the editable timeline card (client) share it.
+ */
+
+import { estimateTrackEnergy } from "./mood-channel-engine"
+import type { SetPlanPhase, SetPlanSegment, Track } from "@/types"
+
+/** Segments in play order */
+export const SET_PLAN_PHASES: readonly SetPlanPhase[] = ["opening", "build", "peak", "cooldown"]
+
+export const DEFAULT_SET_PLAN_MINUTES = 60
+export const MIN_SET_PLAN_MINUTES = 10
+export const MAX_SET_PLAN_MINUTES = 240
+/** Upper bound on tracks per segment */
+export const MAX_SET_SEGMENT_TRACKS = 50
+
+export const SET_PLAN_PHASE_LABELS: Record<SetPlanPhase, string> = {
+  opening: "Opening",
+  build: "Build",
+  peak: "Peak",
+  cooldown: "Cooldown",
+}
+
+/** Share of the set's minutes and default targets per segment */
+const PHASE_DEFAULTS: Record<SetPlanPhase, { share: number; targetBpm: number; targetEnergy: number }> = {
+  opening: { share: 0.2, targetBpm: 112, targetEnergy: 4 },
+  build: { share: 0.3, targetBpm: 120, targetEnergy: 6 },
+  peak: { share: 0.3, targetBpm: 128, targetEnergy: 9 },
+  cooldown: { share: 0.2, targetBpm: 108, targetEnergy: 3 },
+}
+
+/** Energy of a track with no BPM and no cues */
+const NEUTRAL_ENERGY = 5
+/** Energy nudges from genre and description words */
+const ENERGY_CUES: Array<[RegExp, number]> = [
+  [/\bpeak\b/, 2],
+  [/\b(epic|anthem\w*|driving|euphoric|power)\b/, 1],
+  [/\b(edm|progressive house|electronic dance)\b/, 1],
+  [/\b(techno|nu disco|dance|pulsing)\b/, 0.5],
+  [/\b(orchestral|melodic|elegant|expansive)\b/, -0.5],
+  [/\b(relaxed|leisurely|blissful|smooth|carefree)\b/, -1.5],
+  [/\b(ambient|chill|downtempo|calm|meditative|drone)\b/, -2],
+]
+/** Energy gap that costs as much as this many BPM off target */
+const BPM_PER_ENERGY_POINT = 8
+/** Fit cost added for tracks without a BPM */
+const UNKNOWN_BPM_COST = 0.5
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+export interface SetPlanSegmentOverride {
+  minutes?: number
+  targetBpm?: number
+  targetEnergy?: number
+  /** Tracks that must open the segment (unknown or already-used IDs are dropped) */
+  trackIds?: string[]
+}
+
+export interface SetPlanOptions {
+  /** Total set length (clamped to MIN/MAX_SET_PLAN_MINUTES) */
+  totalMinutes?: number
+  /** Per-segment overrides of minutes, targets, and pinned tracks */
+  segments?: Partial<Record<SetPlanPhase, SetPlanSegmentOverride>>
+}
+
+export interface SetPlan {
+  totalMinutes: number
+  segments: SetPlanSegment[]
+  /** Minutes the catalog couldn't fill (0 when every segment is full) */
+  shortfallMinutes: number
+}
+
+/**
+ * Estimate a track's energy (1-10) from its BPM, or from genre/description cues
+ */
+export function estimateSetTrackEnergy(track: Pick<Track, "bpm" | "genres" | "description">): number {
+  if (track.bpm) return estimateTrackEnergy(track, NEUTRAL_ENERGY)
+
+  const text = [...(track.genres ?? []), track.description ?? ""].join(" ").toLowerCase()
+  const energy = ENERGY_CUES.reduce(
+    (total, [pattern, weight]) => (pattern.test(text) ? total + weight : total),
+    NEUTRAL_ENERGY
+  )
+  return clamp(energy, 1, 10)
+}
+
+/**
+ * How far a track sits from a segment's targets (lower fits better)
+ */
+function getSegmentFitCost(track: Track, targetBpm: number, targetEnergy: number): number {
+  const energyCost = Math.abs(estimateSetTrackEnergy(track) - targetEnergy)
+  const bpmCost = track.bpm ? Math.abs(track.bpm - targetBpm) / BPM_PER_ENERGY_POINT : UNKNOWN_BPM_COST
+  return energyCost + bpmCost
+}
+
+/**
+ * Order a segment's tracks along its arc: rising into the peak, falling in the cooldown
+ */
+function orderSegmentTracks(phase: SetPlanPhase, tracks: Track[]): Track[] {
+  const direction = phase === "cooldown" ? -1 : 1
+  return tracks
+    .map((track, index) => ({ track, index, energy: estimateSetTrackEnergy(track) }))
+    .sort((a, b) => (a.energy - b.energy) * direction || a.index - b.index)
+    .map(({ track }) => track)
+}
+
+/**
+ * Pick tracks for one segment.
+ *
+ * Pinned tracks come first; the best-fitting remaining tracks are added until
+ * the segment's minutes are covered. Excluded tracks are never picked.
+ */
+export function pickSetSegmentTracks(
+  tracks: Track[],
+  segment: Pick<SetPlanSegment, "phase" | "minutes" | "targetBpm" | "targetEnergy">,
+  options: { excludeTrackIds?: Iterable<string>; pinnedTrackIds?: string[] } = {}
+): Track[] {
+  const excluded = new Set(options.excludeTrackIds ?? [])
+  const byId = new Map(tracks.map((track) => [track.id, track]))
+  const targetSeconds = Math.max(0, segment.minutes) * 60
+
+  const pinned: Track[] = []
+  for (const id of options.pinnedTrackIds ?? []) {
+    const track = byId.get(id)
+    if (!track || excluded.has(id)) continue
+    excluded.add(id)
+    pinned.push(track)
+  }
+
+  const picked = [...pinned]
+  let seconds = pinned.reduce((total, track) => total + track.duration, 0)
+
+  const candidates = tracks
+    .filter((track) => !excluded.has(track.id))
+    .map((track, index) => ({ track, index, cost: getSegmentFitCost(track, segment.targetBpm, segment.targetEnergy) }))
+    .sort((a, b) => a.cost - b.cost || a.index - b.index)
+
+  for (const { track } of candidates) {
+    if (seconds >= targetSeconds || picked.length >= MAX_SET_SEGMENT_TRACKS) break
+    picked.push(track)
+    seconds += track.duration
+  }
+
+  // Pinned tracks keep their place at the start; picks follow the segment arc
+  return [...pinned, ...orderSegmentTracks(segment.phase, picked.slice(pinned.length))]
+}
+
+/**
+ * Length of a list of tracks in minutes
+ */
+export function getTracksMinutes(tracks: Pick<Track, "duration">[]): number {
+  return tracks.reduce((total, track) => total + track.duration, 0) / 60
+}
+
+/**
+ * Plan a full set from a track pool
+ */
+export function buildSetPlan(tracks: Track[], options: SetPlanOptions = {}): SetPlan {
+  const totalMinutes = Math.round(
+    clamp(options.totalMinutes ?? DEFAULT_SET_PLAN_MINUTES, MIN_SET_PLAN_MINUTES, MAX_SET_PLAN_MINUTES)
+  )
+  const used = new Set<string>()
+  let shortfallMinutes = 0
+
+  const segments = SET_PLAN_PHASES.map((phase): SetPlanSegment => {
+    const defaults = PHASE_DEFAULTS[phase]
+    const override = options.segments?.[phase] ?? {}
+    const segment = {
+      phase,
+      minutes: Math.round(clamp(override.minutes ?? totalMinutes * defaults.share, 1, MAX_SET_PLAN_MINUTES)),
+      targetBpm: Math.round(clamp(override.targetBpm ?? defaults.targetBpm, 60, 200)),
+      targetEnergy: Math.round(clamp(override.targetEnergy ?? defaults.targetEnergy, 1, 10)),
+    }
+
+    // Tracks pinned to other segments stay reserved for them
+    const reserved = SET_PLAN_PHASES.filter((other) => other !== phase).flatMap(
+      (other) => options.segments?.[other]?.trackIds ?? []
+    )
+    const picked = pickSetSegmentTracks(tracks, segment, {
+      excludeTrackIds: [...used, ...reserved],
+      pinnedTrackIds: override.trackIds,
+    })
+    picked.forEach((track) => used.add(track.id))
+    shortfallMinutes += Math.max(0, segment.minutes - getTracksMinutes(picked))
+
+    return {
+      ...segment,
+      trackIds: picked.map((track) => track.id),
+      trackTitles: picked.map((track) => track.title),
+    }
+  })
+
+  return { totalMinutes, segments, shortfallMinutes: Math.round(shortfallMinutes) }
+}
+
+/**
+ * Track IDs of the given segments, in set order
+ */
+export function getSetPlanTrackIds(segments: Pick<SetPlanSegment, "trackIds">[]): string[] {
+  return segments.flatMap((segment) => segment.trackIds)
+}
@@ -5,9 +5,13 @@
  */
 
 import { getTrackById } from '@/lib/music';
-import type { Playlist } from '@/types';
+import type { Playlist, Track } from '@/types';
 
-export function resolvePlaylistArtwork(playlist: Playlist): string | null {
+/**
+ * @param catalogTracks - Served catalog to resolve the first track against
+ *   (defaults to the bundled catalog)
+ */
+export function resolvePlaylistArtwork(playlist: Playlist, catalogTracks?: Track[]): string | null {
   if (playlist.artworkUrl) {
     return playlist.artworkUrl;
   }
@@ -17,5 +21,5 @@ export function resolvePlaylistArtwork(playlist: Playlist): string | null {
     return null;
   }
 
-  return getTrackById(firstTrackId)?.artworkUrl ?? null;
+  return getTrackById(firstTrackId, catalogTracks)?.artworkUrl ?? null;
 }
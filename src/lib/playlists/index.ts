@@ -10,8 +10,11 @@ export {
   getPlaylists,
   savePlaylists,
   createPlaylist,
+  createSmartPlaylist,
   duplicatePlaylist,
+  copyPlaylist,
   updatePlaylist,
+  refreshSmartPlaylistTrackIds,
   deletePlaylist,
   findPlaylistById,
 
@@ -29,3 +32,32 @@ export {
 } from './repository'
 
 export { resolvePlaylistArtwork } from './artwork'
+
+export {
+  getPlaylistTimestamp,
+  normalizePlaylistPayload,
+  resolvePlaylistConflict,
+} from './sync'
+
+export {
+  fetchRemotePlaylists,
+  syncRemotePlaylists,
+  saveRemotePlaylist,
+  deleteRemotePlaylist,
+  setRemotePlaylistVisibility,
+} from './remote'
+
+export {
+  createPublicPlaylistSlug,
+  isPublicPlaylistSlug,
+  slugifyPlaylistName,
+} from './public'
+
+export {
+  createEmptySmartPlaylistRules,
+  describeSmartPlaylistRule,
+  evaluateSmartPlaylist,
+  haveSameTrackIds,
+  matchesSmartPlaylistRules,
+  normalizeSmartPlaylistRules,
+} from './smart'
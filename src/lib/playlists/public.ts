@@ -0,0 +1,53 @@
+/**
+ * Public Playlist Helpers
+ *
+ * Slug generation and validation for published playlists. A slug is assigned
+ * once (`{name}-{suffix}`) and never changes, so renaming a playlist keeps its
+ * shared link working.
+ */
+
+const MAX_SLUG_BASE_LENGTH = 60;
+const SLUG_SUFFIX_LENGTH = 6;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Convert a playlist name into a URL-safe slug base
+ */
+export function slugifyPlaylistName(name: string): string {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, MAX_SLUG_BASE_LENGTH)
+    .replace(/-+$/g, '');
+
+  return slug || 'playlist';
+}
+
+/**
+ * Generate a random lowercase alphanumeric suffix
+ */
+function generateSlugSuffix(): string {
+  let suffix = '';
+  while (suffix.length < SLUG_SUFFIX_LENGTH) {
+    suffix += Math.random().toString(36).slice(2);
+  }
+  return suffix.slice(0, SLUG_SUFFIX_LENGTH);
+}
+
+/**
+ * Build a public slug for a playlist (`night-drive-k3x9qa`)
+ */
+export function createPublicPlaylistSlug(name: string, suffix: string = generateSlugSuffix()): string {
+  return `${slugifyPlaylistName(name)}-${suffix}`;
+}
+
+/**
+ * Check whether a value has the shape of a public slug.
+ * Used to skip database lookups for ordinary playlist IDs and junk paths.
+ */
+export function isPublicPlaylistSlug(value: string): boolean {
+  return value.length <= MAX_SLUG_BASE_LENGTH + SLUG_SUFFIX_LENGTH + 1 && SLUG_PATTERN.test(value);
+}
@@ -0,0 +1,105 @@
+/**
+ * Playlist Remote Client
+ *
+ * Best-effort fetch helpers for `/api/playlists`. Every helper resolves to
+ * null on network or server failure so callers can keep working from the
+ * localStorage cache.
+ */
+
+import type { Playlist } from '@/types/playlist.types';
+
+export interface RemotePlaylistSaveResult {
+  /** Whether the server accepted the snapshot (false when the server copy was newer) */
+  applied: boolean;
+  /** Winning server copy, or null when the playlist was deleted on another device */
+  playlist: Playlist | null;
+}
+
+/**
+ * Fetch the signed-in user's playlists
+ */
+export async function fetchRemotePlaylists(): Promise<Playlist[] | null> {
+  try {
+    const response = await fetch('/api/playlists', { cache: 'no-store' });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.success && Array.isArray(data.playlists) ? (data.playlists as Playlist[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Send local playlists to the server and receive the merged list
+ */
+export async function syncRemotePlaylists(playlists: Playlist[]): Promise<Playlist[] | null> {
+  try {
+    const response = await fetch('/api/playlists/sync', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ playlists }),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.success && Array.isArray(data.playlists) ? (data.playlists as Playlist[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Push a full playlist snapshot to the server
+ */
+export async function saveRemotePlaylist(playlist: Playlist): Promise<RemotePlaylistSaveResult | null> {
+  try {
+    const response = await fetch(`/api/playlists/${encodeURIComponent(playlist.id)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(playlist),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    if (!data.success) return null;
+    return {
+      applied: Boolean(data.applied),
+      playlist: data.deleted ? null : (data.playlist as Playlist),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete a playlist on the server
+ */
+export async function deleteRemotePlaylist(playlistId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/playlists/${encodeURIComponent(playlistId)}`, {
+      method: 'DELETE',
+    });
+    return response.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Publish or unpublish a playlist; resolves to the updated server copy
+ */
+export async function setRemotePlaylistVisibility(
+  playlistId: string,
+  isPublic: boolean
+): Promise<Playlist | null> {
+  try {
+    const response = await fetch(`/api/playlists/${encodeURIComponent(playlistId)}/publish`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ isPublic }),
+    });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data.success && data.playlist ? (data.playlist as Playlist) : null;
+  } catch {
+    return null;
+  }
+}
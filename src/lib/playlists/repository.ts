@@ -2,20 +2,21 @@
  * Playlist Repository
  *
  * Storage layer for playlist management using localStorage.
- * Handles CRUD operations, validation, and migration to future backend.
+ * Handles CRUD operations and validation. For signed-in users this acts as the
+ * local cache; PlaylistContext reconciles it with `/api/playlists`.
  */
 
 import { logger } from '@/lib/logger';
 import { isStorageAvailable, STORAGE_KEYS, getRawValue, setRawValue } from '@/lib/storage/persistence';
 import { PlaylistErrors } from '@/types/playlist.types';
-import type { Playlist, PlaylistStorage } from '@/types/playlist.types';
+import type { Playlist, PlaylistStorage, SmartPlaylistRuleGroup } from '@/types/playlist.types';
 
 const STORAGE_VERSION = 'v1';
 
-// Playlist limits
-const MAX_PLAYLISTS = 50;
-const MAX_TRACKS_PER_PLAYLIST = 200;
-const MAX_NAME_LENGTH = 100;
+// Playlist limits (shared with the server sync routes)
+export const MAX_PLAYLISTS = 50;
+export const MAX_TRACKS_PER_PLAYLIST = 200;
+export const MAX_NAME_LENGTH = 100;
 const DUPLICATE_SUFFIX = " (Copy)";
 
 /**
@@ -171,6 +172,42 @@ export function createPlaylist(name: string): Playlist {
   return newPlaylist;
 }
 
+/**
+ * Create a smart playlist.
+ * `trackIds` is the caller's current evaluation of `rules` against the catalog.
+ */
+export function createSmartPlaylist(
+  name: string,
+  rules: SmartPlaylistRuleGroup,
+  trackIds: string[]
+): Playlist {
+  const playlists = getPlaylists();
+
+  if (playlists.length >= MAX_PLAYLISTS) {
+    throw new Error(PlaylistErrors.PLAYLIST_LIMIT_REACHED);
+  }
+
+  validatePlaylistName(name, playlists);
+
+  const trimmedName = name.trim();
+  const now = new Date().toISOString();
+
+  const newPlaylist: Playlist = {
+    id: generateId(),
+    name: trimmedName,
+    trackIds: Array.from(new Set(trackIds)).slice(0, MAX_TRACKS_PER_PLAYLIST),
+    createdAt: now,
+    updatedAt: now,
+    smartRules: rules,
+  };
+
+  playlists.push(newPlaylist);
+  savePlaylists(playlists);
+
+  logger.info('Smart playlist created', { id: newPlaylist.id, name: trimmedName });
+  return newPlaylist;
+}
+
 /**
  * Duplicate a playlist
  */
@@ -197,6 +234,9 @@ export function duplicatePlaylist(id: string): Playlist {
     createdAt: now,
     updatedAt: now,
   };
+  // Publishing is per playlist; a duplicate starts private
+  delete duplicate.isPublic;
+  delete duplicate.publicSlug;
 
   playlists.push(duplicate);
   savePlaylists(playlists);
@@ -205,6 +245,38 @@ export function duplicatePlaylist(id: string): Playlist {
   return duplicate;
 }
 
+/**
+ * Save a copy of someone else's playlist (e.g. a published playlist).
+ * Keeps the original name when free, otherwise appends a copy suffix.
+ */
+export function copyPlaylist(name: string, trackIds: string[]): Playlist {
+  const playlists = getPlaylists();
+
+  if (playlists.length >= MAX_PLAYLISTS) {
+    throw new Error(PlaylistErrors.PLAYLIST_LIMIT_REACHED);
+  }
+
+  const trimmedName = name.trim().slice(0, MAX_NAME_LENGTH) || "Untitled Playlist";
+  const copyName = isDuplicateName(trimmedName, playlists)
+    ? generateDuplicateName(trimmedName, playlists)
+    : trimmedName;
+  const now = new Date().toISOString();
+
+  const copy: Playlist = {
+    id: generateId(),
+    name: copyName,
+    trackIds: Array.from(new Set(trackIds)).slice(0, MAX_TRACKS_PER_PLAYLIST),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  playlists.push(copy);
+  savePlaylists(playlists);
+
+  logger.info('Playlist copied', { id: copy.id, trackCount: copy.trackIds.length });
+  return copy;
+}
+
 /**
  * Update a playlist
  */
@@ -236,6 +308,28 @@ export function updatePlaylist(id: string, updates: Partial<Playlist>): Playlist
   return updated;
 }
 
+/**
+ * Store re-evaluated smart playlist track IDs.
+ * Smart `trackIds` are derived from the rules, so this leaves `updatedAt`
+ * alone; only rule edits (via `updatePlaylist`) count as changes to sync.
+ */
+export function refreshSmartPlaylistTrackIds(trackIdsById: Map<string, string[]>): Playlist[] {
+  const refreshed: Playlist[] = [];
+  const playlists = getPlaylists().map((playlist) => {
+    const trackIds = trackIdsById.get(playlist.id);
+    if (!trackIds || !playlist.smartRules) return playlist;
+
+    const updated: Playlist = { ...playlist, trackIds };
+    refreshed.push(updated);
+    return updated;
+  });
+
+  if (refreshed.length > 0) {
+    savePlaylists(playlists);
+  }
+  return refreshed;
+}
+
 /**
  * Delete a playlist
  */
@@ -262,6 +356,11 @@ export function addTrackToPlaylist(playlistId: string, trackId: string): Playlis
     throw new Error(PlaylistErrors.PLAYLIST_NOT_FOUND);
   }
 
+  // Smart playlist tracks come from their rules
+  if (playlist.smartRules) {
+    throw new Error(PlaylistErrors.SMART_PLAYLIST_READ_ONLY);
+  }
+
   // Check if track already exists
   if (playlist.trackIds.includes(trackId)) {
     throw new Error(
@@ -294,6 +393,11 @@ export function removeTrackFromPlaylist(playlistId: string, trackId: string): Pl
     throw new Error(PlaylistErrors.PLAYLIST_NOT_FOUND);
   }
 
+  // Smart playlist tracks come from their rules
+  if (playlist.smartRules) {
+    throw new Error(PlaylistErrors.SMART_PLAYLIST_READ_ONLY);
+  }
+
   playlist.trackIds = playlist.trackIds.filter((id) => id !== trackId);
   playlist.updatedAt = new Date().toISOString();
 
@@ -318,6 +422,11 @@ export function reorderTracks(
     throw new Error(PlaylistErrors.PLAYLIST_NOT_FOUND);
   }
 
+  // Smart playlist tracks come from their rules
+  if (playlist.smartRules) {
+    throw new Error(PlaylistErrors.SMART_PLAYLIST_READ_ONLY);
+  }
+
   const { trackIds } = playlist;
 
   // Validate indices
@@ -0,0 +1,34 @@
+import "server-only";
+
+import { cache } from "react";
+import { logger } from "@/lib/logger";
+import { isPublicPlaylistSlug } from "./public";
+import { getPublicPlaylistBySlug } from "../../../server/storage";
+import type { PublicPlaylist } from "@/types/playlist.types";
+
+/**
+ * Load a published playlist for the public landing page.
+ * Resolves to null for unknown, unpublished, or deleted playlists (and on DB errors,
+ * so the page can fall back to the regular deep link).
+ */
+export const getPublicPlaylist = cache(async (slug: string): Promise<PublicPlaylist | null> => {
+  if (!isPublicPlaylistSlug(slug)) return null;
+
+  try {
+    const record = await getPublicPlaylistBySlug(slug);
+    if (!record?.publicSlug) return null;
+
+    return {
+      slug: record.publicSlug,
+      name: record.name,
+      trackIds: record.trackIds,
+      artworkUrl: record.artworkUrl,
+      updatedAt: record.updatedAt.toISOString(),
+    };
+  } catch (error) {
+    logger.error("[Playlists] Public lookup error", {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+});
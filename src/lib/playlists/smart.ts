@@ -0,0 +1,233 @@
+/**
+ * Smart Playlist Rules
+ *
+ * Pure helpers for rule-based playlists: rule validation, evaluation against
+ * the catalog, and short labels for the rule editor. Shared by PlaylistContext,
+ * the queue builder, and the `/api/playlists` routes.
+ */
+
+import { normalizeCollectionSlug } from '@/lib/collection-utils';
+import { MAX_TRACKS_PER_PLAYLIST } from './repository';
+import type { Track } from '@/types';
+import type {
+  SmartPlaylistNode,
+  SmartPlaylistRule,
+  SmartPlaylistRuleGroup,
+} from '@/types/playlist.types';
+
+/** Maximum nesting depth for rule groups (root group is depth 1) */
+export const SMART_PLAYLIST_MAX_DEPTH = 3;
+/** Maximum number of rules (including groups) in one tree */
+export const SMART_PLAYLIST_MAX_RULES = 24;
+
+const MAX_RULE_VALUES = 20;
+const MAX_RULE_VALUE_LENGTH = 100;
+const MAX_RECENT_EXCLUSION = 50;
+
+export interface SmartPlaylistEvaluationContext {
+  /** Most recent first; used by `recentlyPlayed` rules */
+  recentlyPlayedIds?: string[];
+}
+
+/**
+ * Empty rule tree (matches the whole catalog)
+ */
+export function createEmptySmartPlaylistRules(): SmartPlaylistRuleGroup {
+  return { type: 'group', operator: 'and', rules: [] };
+}
+
+function normalizeBound(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : undefined;
+}
+
+function normalizeValues(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(
+    new Set(
+      value
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map((entry) => entry.trim())
+        .filter((entry) => entry.length > 0 && entry.length <= MAX_RULE_VALUE_LENGTH)
+    )
+  ).slice(0, MAX_RULE_VALUES);
+}
+
+function normalizeRange(
+  type: 'bpm' | 'duration',
+  raw: Record<string, unknown>
+): SmartPlaylistRule | null {
+  const min = normalizeBound(raw.min);
+  const max = normalizeBound(raw.max);
+  if (min === undefined && max === undefined) return null;
+  if (min !== undefined && max !== undefined && min > max) return null;
+
+  const rule: { type: 'bpm' | 'duration'; min?: number; max?: number } = { type };
+  if (min !== undefined) rule.min = min;
+  if (max !== undefined) rule.max = max;
+  return rule;
+}
+
+function normalizeRule(raw: Record<string, unknown>): SmartPlaylistRule | null {
+  switch (raw.type) {
+    case 'bpm':
+    case 'duration':
+      return normalizeRange(raw.type, raw);
+    case 'genre': {
+      const genres = normalizeValues(raw.genres);
+      return genres.length > 0 ? { type: 'genre', genres } : null;
+    }
+    case 'key': {
+      const keys = normalizeValues(raw.keys);
+      return keys.length > 0 ? { type: 'key', keys } : null;
+    }
+    case 'collection': {
+      const collections = normalizeValues(raw.collections);
+      return collections.length > 0 ? { type: 'collection', collections } : null;
+    }
+    case 'recentlyPlayed': {
+      const count = typeof raw.count === 'number' && Number.isInteger(raw.count) ? raw.count : 0;
+      return count > 0 && count <= MAX_RECENT_EXCLUSION ? { type: 'recentlyPlayed', count } : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validate and normalize an untrusted rule tree.
+ * Returns null when any rule is malformed or the tree exceeds the depth/size limits.
+ */
+export function normalizeSmartPlaylistRules(value: unknown): SmartPlaylistRuleGroup | null {
+  let ruleCount = 0;
+
+  const normalizeGroup = (raw: unknown, depth: number): SmartPlaylistRuleGroup | null => {
+    if (!raw || typeof raw !== 'object') return null;
+    const group = raw as Record<string, unknown>;
+    if (group.type !== 'group' || depth > SMART_PLAYLIST_MAX_DEPTH) return null;
+    if (group.operator !== 'and' && group.operator !== 'or') return null;
+    if (!Array.isArray(group.rules)) return null;
+
+    const rules: SmartPlaylistNode[] = [];
+    for (const entry of group.rules) {
+      ruleCount += 1;
+      if (ruleCount > SMART_PLAYLIST_MAX_RULES) return null;
+      if (!entry || typeof entry !== 'object') return null;
+
+      const node = (entry as Record<string, unknown>).type === 'group'
+        ? normalizeGroup(entry, depth + 1)
+        : normalizeRule(entry as Record<string, unknown>);
+      if (!node) return null;
+      rules.push(node);
+    }
+
+    return { type: 'group', operator: group.operator, rules };
+  };
+
+  return normalizeGroup(value, 1);
+}
+
+function inRange(value: number | undefined, min?: number, max?: number): boolean {
+  if (value === undefined) return false;
+  if (min !== undefined && value < min) return false;
+  if (max !== undefined && value > max) return false;
+  return true;
+}
+
+function matchesRule(
+  track: Track,
+  rule: SmartPlaylistRule,
+  recentIds: string[]
+): boolean {
+  switch (rule.type) {
+    case 'bpm':
+      return inRange(track.bpm, rule.min, rule.max);
+    case 'duration':
+      return inRange(track.duration, rule.min, rule.max);
+    case 'genre': {
+      const genres = new Set(track.genres.map((genre) => genre.toLowerCase()));
+      return rule.genres.some((genre) => genres.has(genre.toLowerCase()));
+    }
+    case 'key': {
+      const key = track.key?.trim().toLowerCase();
+      return Boolean(key) && rule.keys.some((candidate) => candidate.trim().toLowerCase() === key);
+    }
+    case 'collection': {
+      const slug = normalizeCollectionSlug(track.collection);
+      return rule.collections.some((collection) => normalizeCollectionSlug(collection) === slug);
+    }
+    case 'recentlyPlayed':
+      return !recentIds.slice(0, rule.count).includes(track.id);
+  }
+}
+
+function matchesNode(track: Track, node: SmartPlaylistNode, recentIds: string[]): boolean {
+  if (node.type !== 'group') return matchesRule(track, node, recentIds);
+  // Empty groups are neutral so a new rule tree starts with the full catalog
+  if (node.rules.length === 0) return true;
+  return node.operator === 'and'
+    ? node.rules.every((child) => matchesNode(track, child, recentIds))
+    : node.rules.some((child) => matchesNode(track, child, recentIds));
+}
+
+/**
+ * Check whether a track satisfies a rule tree
+ */
+export function matchesSmartPlaylistRules(
+  track: Track,
+  rules: SmartPlaylistRuleGroup,
+  context: SmartPlaylistEvaluationContext = {}
+): boolean {
+  return matchesNode(track, rules, context.recentlyPlayedIds ?? []);
+}
+
+/**
+ * Evaluate a rule tree against the catalog.
+ * Keeps catalog order and caps the result at the playlist track limit.
+ */
+export function evaluateSmartPlaylist(
+  rules: SmartPlaylistRuleGroup,
+  tracks: Track[],
+  context: SmartPlaylistEvaluationContext = {}
+): Track[] {
+  const recentIds = context.recentlyPlayedIds ?? [];
+  return tracks
+    .filter((track) => matchesNode(track, rules, recentIds))
+    .slice(0, MAX_TRACKS_PER_PLAYLIST);
+}
+
+/**
+ * Compare a stored evaluation with a fresh one (order-sensitive)
+ */
+export function haveSameTrackIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, index) => id === b[index]);
+}
+
+function formatRange(min: number | undefined, max: number | undefined, unit: string): string {
+  if (min !== undefined && max !== undefined) return `${min}–${max} ${unit}`;
+  if (min !== undefined) return `${min}+ ${unit}`;
+  if (max !== undefined) return `up to ${max} ${unit}`;
+  return `any ${unit}`;
+}
+
+/**
+ * Short human label for a rule (rule editor chips and summaries)
+ */
+export function describeSmartPlaylistRule(rule: SmartPlaylistRule): string {
+  switch (rule.type) {
+    case 'bpm':
+      return formatRange(rule.min, rule.max, 'BPM');
+    case 'duration': {
+      const toMinutes = (seconds?: number) =>
+        seconds === undefined ? undefined : Math.round((seconds / 60) * 10) / 10;
+      return `Length ${formatRange(toMinutes(rule.min), toMinutes(rule.max), 'min')}`;
+    }
+    case 'genre':
+      return `Genre: ${rule.genres.join(', ')}`;
+    case 'key':
+      return `Key: ${rule.keys.join(', ')}`;
+    case 'collection':
+      return `Collection: ${rule.collections.join(', ')}`;
+    case 'recentlyPlayed':
+      return `Skip last ${rule.count} played`;
+  }
+}
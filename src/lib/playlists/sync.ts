@@ -0,0 +1,83 @@
+/**
+ * Playlist Sync Helpers
+ *
+ * Pure helpers shared by PlaylistContext and the `/api/playlists` routes:
+ * payload normalization and the per-playlist `updatedAt` conflict rule.
+ */
+
+import { MAX_NAME_LENGTH, MAX_TRACKS_PER_PLAYLIST } from './repository';
+import { normalizeSmartPlaylistRules } from './smart';
+import type { Playlist } from '@/types/playlist.types';
+
+const MAX_ID_LENGTH = 64;
+const MAX_ARTWORK_URL_LENGTH = 500;
+
+export type PlaylistConflictWinner = 'local' | 'remote';
+
+/**
+ * Convert an ISO string or Date to epoch ms (0 when missing or invalid)
+ */
+export function getPlaylistTimestamp(value: string | Date | null | undefined): number {
+  if (!value) return 0;
+  const time = value instanceof Date ? value.getTime() : Date.parse(value);
+  return Number.isFinite(time) ? time : 0;
+}
+
+/**
+ * Decide which copy of a playlist wins.
+ * The most recent `updatedAt` wins; ties keep the remote (server) copy so
+ * every device converges on the same version.
+ */
+export function resolvePlaylistConflict(
+  local: Pick<Playlist, 'updatedAt'>,
+  remote: Pick<Playlist, 'updatedAt'>
+): PlaylistConflictWinner {
+  return getPlaylistTimestamp(local.updatedAt) > getPlaylistTimestamp(remote.updatedAt)
+    ? 'local'
+    : 'remote';
+}
+
+/**
+ * Validate and normalize an untrusted playlist payload.
+ * Returns null when the payload cannot be represented as a playlist.
+ */
+export function normalizePlaylistPayload(value: unknown): Playlist | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+
+  const id = typeof raw.id === 'string' ? raw.id.trim() : '';
+  if (!id || id.length > MAX_ID_LENGTH) return null;
+
+  const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) return null;
+
+  const trackIds = Array.isArray(raw.trackIds)
+    ? Array.from(
+        new Set(
+          raw.trackIds.filter(
+            (trackId): trackId is string =>
+              typeof trackId === 'string' && trackId.length > 0 && trackId.length <= MAX_ID_LENGTH
+          )
+        )
+      ).slice(0, MAX_TRACKS_PER_PLAYLIST)
+    : [];
+
+  const now = new Date().toISOString();
+  const createdAt = typeof raw.createdAt === 'string' && getPlaylistTimestamp(raw.createdAt) > 0
+    ? new Date(raw.createdAt).toISOString()
+    : now;
+  const updatedAt = typeof raw.updatedAt === 'string' && getPlaylistTimestamp(raw.updatedAt) > 0
+    ? new Date(raw.updatedAt).toISOString()
+    : createdAt;
+
+  const artworkUrl = typeof raw.artworkUrl === 'string' && raw.artworkUrl.length <= MAX_ARTWORK_URL_LENGTH
+    ? raw.artworkUrl
+    : null;
+
+  const playlist: Playlist = { id, name, trackIds, createdAt, updatedAt, artworkUrl };
+  if (raw.isDefault === true) playlist.isDefault = true;
+  // Malformed rules drop the smart flag; the last evaluated trackIds remain
+  const smartRules = raw.smartRules ? normalizeSmartPlaylistRules(raw.smartRules) : null;
+  if (smartRules) playlist.smartRules = smartRules;
+  return playlist;
+}
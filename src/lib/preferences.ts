@@ -7,6 +7,18 @@
 import 'server-only';
 
 import { eq } from 'drizzle-orm';
+import {
+  DEFAULT_CROSSFADE_CURVE,
+  DEFAULT_CROSSFADE_DURATION_SECONDS,
+  isCrossfadeCurve,
+  normalizeCrossfadeDuration,
+  type CrossfadeCurve,
+} from '@/lib/audio/crossfade';
+import {
+  DEFAULT_LOUDNESS_NORMALIZATION_MODE,
+  isLoudnessNormalizationMode,
+  type LoudnessNormalizationMode,
+} from '@/lib/audio/loudness';
 import { db } from '../../server/db';
 import { userPreferences } from '../../shared/schema';
 
@@ -14,6 +26,13 @@ export interface AudioPreferences {
   volume: number;
   autoplay: boolean;
   crossfadeEnabled: boolean;
+  /** Crossfade length in seconds (0–12) */
+  crossfadeDuration: number;
+  crossfadeCurve: CrossfadeCurve;
+  /** Hand off to the preloaded next track with no silence at boundaries */
+  gaplessEnabled: boolean;
+  /** Per-track or per-collection loudness levelling */
+  loudnessNormalization: LoudnessNormalizationMode;
   muted: boolean;
 }
 
@@ -45,6 +64,10 @@ const DEFAULT_AUDIO_PREFERENCES: AudioPreferences = {
   volume: 0.8,
   autoplay: false,
   crossfadeEnabled: false,
+  crossfadeDuration: DEFAULT_CROSSFADE_DURATION_SECONDS,
+  crossfadeCurve: DEFAULT_CROSSFADE_CURVE,
+  gaplessEnabled: false,
+  loudnessNormalization: DEFAULT_LOUDNESS_NORMALIZATION_MODE,
   muted: false,
 };
 
@@ -74,6 +97,32 @@ export function getDefaultPreferences(): AllPreferences {
   };
 }
 
+/**
+ * Keep only known audio preference keys with valid values.
+ * Crossfade length is clamped to 0–12s; unknown curves and normalization
+ * modes are dropped.
+ */
+export function sanitizeAudioPreferenceUpdates(updates: unknown): Partial<AudioPreferences> {
+  if (!updates || typeof updates !== 'object') return {};
+  const raw = updates as Record<string, unknown>;
+  const sanitized: Partial<AudioPreferences> = {};
+
+  if (typeof raw.volume === 'number' && raw.volume >= 0 && raw.volume <= 1) {
+    sanitized.volume = raw.volume;
+  }
+  for (const key of ['autoplay', 'crossfadeEnabled', 'gaplessEnabled', 'muted'] as const) {
+    if (typeof raw[key] === 'boolean') sanitized[key] = raw[key];
+  }
+  const crossfadeDuration = normalizeCrossfadeDuration(raw.crossfadeDuration);
+  if (crossfadeDuration !== null) sanitized.crossfadeDuration = crossfadeDuration;
+  if (isCrossfadeCurve(raw.crossfadeCurve)) sanitized.crossfadeCurve = raw.crossfadeCurve;
+  if (isLoudnessNormalizationMode(raw.loudnessNormalization)) {
+    sanitized.loudnessNormalization = raw.loudnessNormalization;
+  }
+
+  return sanitized;
+}
+
 /**
  * Get user preferences by user ID
  */
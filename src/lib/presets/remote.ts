@@ -0,0 +1,56 @@
+/**
+ * Per-User Preset Remote Client
+ *
+ * Best-effort fetch helpers shared by the saved-preset clients. Reads resolve
+ * to null on failure (including guests) so menus can show their signed-out
+ * state; saves return the server's message on failure.
+ */
+
+/**
+ * Fetch the signed-in user's presets from a collection endpoint
+ */
+export async function fetchUserPresets<TPreset>(endpoint: string): Promise<TPreset[] | null> {
+  try {
+    const response = await fetch(endpoint, { cache: "no-store" })
+    if (!response.ok) return null
+    const data = await response.json()
+    return data.success && Array.isArray(data.presets) ? (data.presets as TPreset[]) : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Save a preset to a collection endpoint
+ */
+export async function saveUserPreset<TPreset>(
+  endpoint: string,
+  input: unknown,
+): Promise<{ preset: TPreset } | { error: string }> {
+  try {
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+    const data = await response.json().catch(() => null)
+    if (response.ok && data?.success && data.preset) {
+      return { preset: data.preset as TPreset }
+    }
+    return { error: typeof data?.message === "string" ? data.message : "Failed to save preset" }
+  } catch {
+    return { error: "Failed to save preset" }
+  }
+}
+
+/**
+ * Delete one preset from a collection endpoint
+ */
+export async function deleteUserPreset(endpoint: string, id: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${endpoint}/${encodeURIComponent(id)}`, { method: "DELETE" })
+    return response.ok
+  } catch {
+    return false
+  }
+}
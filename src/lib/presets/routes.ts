@@ -0,0 +1,164 @@
+/**
+ * Per-User Preset Route Handlers
+ *
+ * Shared handlers behind the saved-preset routes (`/api/daydream/presets`,
+ * `/api/cinema/presets`). Each feature supplies its input parser, response
+ * shape and storage calls; sign-in, E2E mode, body limits, the preset cap
+ * response and error logging are handled here.
+ */
+
+import { NextResponse } from "next/server"
+import { getSession, isE2EAuthBypassEnabled } from "@/lib/auth"
+import { logger } from "@/lib/logger"
+import { withOriginValidation } from "@/lib/validation/origin-validation"
+import { getMaxRequestSize, readJsonBodyWithLimit } from "@/lib/validation/request-size"
+import type { NextRequest } from "next/server"
+
+export interface UserPresetCollectionConfig<TInput, TRecord, TPreset> {
+  /** Log prefix, e.g. "Dream Presets" */
+  label: string
+  maxPresets: number
+  parseInput: (body: unknown) => { success: true; data: TInput } | { success: false; error: string }
+  toPreset: (record: TRecord) => TPreset
+  list: (userId: string) => Promise<TRecord[]>
+  /** Resolves null when the user already has `maxPresets` */
+  create: (userId: string, input: TInput, maxPresets: number) => Promise<TRecord | null>
+}
+
+export interface UserPresetItemConfig {
+  /** Log prefix, e.g. "Dream Presets" */
+  label: string
+  remove: (id: string, userId: string) => Promise<boolean>
+}
+
+function notAuthenticated() {
+  return NextResponse.json(
+    { success: false, message: "Not authenticated" },
+    { status: 401 },
+  )
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * GET (list) and POST (save) handlers for a preset collection route
+ */
+export function createUserPresetCollectionHandlers<TInput, TRecord, TPreset>(
+  config: UserPresetCollectionConfig<TInput, TRecord, TPreset>,
+) {
+  async function GET() {
+    try {
+      const session = await getSession()
+      if (!session) return notAuthenticated()
+
+      if (isE2EAuthBypassEnabled()) {
+        return NextResponse.json({ success: true, presets: [] })
+      }
+
+      const records = await config.list(session.id)
+
+      return NextResponse.json(
+        { success: true, presets: records.map(config.toPreset) },
+        { headers: { "Cache-Control": "no-store" } },
+      )
+    } catch (error) {
+      logger.error(`[${config.label}] List error`, { error: errorMessage(error) })
+      return NextResponse.json(
+        { success: false, message: "Failed to fetch presets" },
+        { status: 500 },
+      )
+    }
+  }
+
+  const POST = withOriginValidation(async (request: NextRequest) => {
+    try {
+      const session = await getSession()
+      if (!session) return notAuthenticated()
+
+      const bodyResult = await readJsonBodyWithLimit(request, getMaxRequestSize(request.nextUrl.pathname))
+      if (!bodyResult.ok) {
+        return bodyResult.response
+      }
+
+      const parsed = config.parseInput(bodyResult.data)
+      if (!parsed.success) {
+        return NextResponse.json(
+          { success: false, message: parsed.error },
+          { status: 400 },
+        )
+      }
+
+      if (isE2EAuthBypassEnabled()) {
+        return NextResponse.json(
+          { success: false, message: "Presets are not saved in E2E mode" },
+          { status: 503 },
+        )
+      }
+
+      const created = await config.create(session.id, parsed.data, config.maxPresets)
+      if (!created) {
+        return NextResponse.json(
+          { success: false, message: `You can save up to ${config.maxPresets} presets. Delete one to save another.` },
+          { status: 409 },
+        )
+      }
+
+      return NextResponse.json({ success: true, preset: config.toPreset(created) }, { status: 201 })
+    } catch (error) {
+      logger.error(`[${config.label}] Create error`, { error: errorMessage(error) })
+      return NextResponse.json(
+        { success: false, message: "Failed to save preset" },
+        { status: 500 },
+      )
+    }
+  })
+
+  return { GET, POST }
+}
+
+/**
+ * DELETE handler for a single preset route (`.../presets/{id}`)
+ */
+export function createUserPresetItemHandlers(config: UserPresetItemConfig) {
+  const DELETE = withOriginValidation(async (
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> },
+  ) => {
+    try {
+      const session = await getSession()
+      if (!session) return notAuthenticated()
+
+      if (isE2EAuthBypassEnabled()) {
+        return NextResponse.json({ success: true })
+      }
+
+      const { id } = await params
+      if (!id) {
+        return NextResponse.json(
+          { success: false, message: "Preset ID is required" },
+          { status: 400 },
+        )
+      }
+
+      const deleted = await config.remove(id, session.id)
+      if (!deleted) {
+        return NextResponse.json(
+          { success: false, message: "Preset not found" },
+          { status: 404 },
+        )
+      }
+
+      return NextResponse.json({ success: true })
+    } catch (error) {
+      logger.error(`[${config.label}] Delete error`, { error: errorMessage(error) })
+      return NextResponse.json(
+        { success: false, message: "Failed to delete preset" },
+        { status: 500 },
+      )
+    }
+  })
+
+  return { DELETE }
+}
@@ -6,6 +6,8 @@ export interface MetaDjAiChatSession {
   createdAt: number
   updatedAt: number
   messages: MetaDjAiMessage[]
+  /** Leaf of the selected branch (unset = most recent message) */
+  activeLeafId?: string
 }
 
 const STORAGE_KEYS = {
@@ -52,6 +54,7 @@ function normalizeSession(candidate: unknown): MetaDjAiChatSession | null {
     createdAt,
     updatedAt,
     messages: obj.messages as MetaDjAiMessage[],
+    activeLeafId: typeof obj.activeLeafId === "string" ? obj.activeLeafId : undefined,
   }
 }
 
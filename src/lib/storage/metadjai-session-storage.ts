@@ -1,3 +1,4 @@
+import { isMessageProvider } from '@/lib/metadjai/message-records'
 import type { MetaDjAiMessage } from '@/types/metadjai.types'
 
 const STORAGE_KEYS = {
@@ -139,11 +140,14 @@ function normalizeMessage(candidate: unknown): MetaDjAiMessage | null {
     return null
   }
 
+  const parentId = (candidate as { parentId?: unknown }).parentId
   const status = (candidate as { status?: MetaDjAiMessage['status'] }).status
   const kind = (candidate as { kind?: MetaDjAiMessage['kind'] }).kind
   const mode = (candidate as { mode?: MetaDjAiMessage['mode'] }).mode
   const sources = (candidate as { sources?: MetaDjAiMessage['sources'] }).sources
   const toolsUsed = (candidate as { toolsUsed?: MetaDjAiMessage['toolsUsed'] }).toolsUsed
+  const provider = (candidate as { provider?: unknown }).provider
+  const model = (candidate as { model?: unknown }).model
   const versions = (candidate as { versions?: MetaDjAiMessage['versions'] }).versions
   const currentVersionIndex = (candidate as { currentVersionIndex?: MetaDjAiMessage['currentVersionIndex'] }).currentVersionIndex
   const proposal = (candidate as { proposal?: MetaDjAiMessage['proposal'] }).proposal
@@ -155,11 +159,14 @@ function normalizeMessage(candidate: unknown): MetaDjAiMessage | null {
     role,
     content,
     createdAt,
+    parentId: typeof parentId === 'string' || parentId === null ? parentId : undefined,
     status: status ?? 'complete',
     kind: normalizedKind,
     mode: mode === 'adaptive' || mode === 'explorer' || mode === 'dj' ? mode : undefined,
     sources,
     toolsUsed,
+    provider: isMessageProvider(provider) ? provider : undefined,
+    model: typeof model === 'string' ? model : undefined,
     versions,
     currentVersionIndex,
     proposal,
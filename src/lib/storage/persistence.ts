@@ -63,6 +63,7 @@ export const STORAGE_KEYS = {
 
   // Playlists
   PLAYLISTS: "metadj-nexus-playlists",
+  PLAYLISTS_SYNCED_USER: "metadj-nexus-playlists-synced-user",
 
   // Analytics
   VISITED: "metadj_visited",
@@ -1,7 +1,8 @@
 /**
  * Streaming Utilities
  *
- * WHIP client for WebRTC streaming to Livepeer/Daydream.
+ * WHIP client for WebRTC streaming to Livepeer/Daydream, plus the in-page
+ * mock WHIP server used by the mock Dream backend.
  *
  * @module lib/streaming
  */
@@ -11,3 +12,5 @@ export {
   type WHIPConnectionOptions,
   type WHIPConnectionState,
 } from "./whip-client"
+
+export { MockWHIPServer, getMockWhipServer } from "./mock-whip-server"
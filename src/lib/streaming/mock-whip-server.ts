@@ -0,0 +1,233 @@
+"use client"
+
+/**
+ * Mock WHIP Server
+ *
+ * In-page WHIP endpoint for the mock Dream backend (`DAYDREAM_BACKEND=mock`).
+ * `handle` is fetch-compatible; WHIPClient uses it as its signalling transport
+ * for `mock-whip:` URLs:
+ * - POST (SDP offer): answers with a local RTCPeerConnection and returns the
+ *   answer SDP plus a session `Location`
+ * - PATCH (trickle ICE fragment): adds the candidates
+ * - DELETE: closes the session
+ *
+ * The received ingest video is redrawn through `transformMockDreamFrame` onto
+ * a canvas whose capture stream is the synthetic Dream output.
+ *
+ * @module lib/streaming/mock-whip-server
+ */
+
+import {
+  MOCK_FRAME_RATE,
+  MOCK_FRAME_SIZE,
+  buildMockWhipUrl,
+  getMockWhipStreamId,
+  transformMockDreamFrame,
+} from "@/lib/daydream/mock-stream"
+import { logger } from "@/lib/logger"
+
+/** Local-only peers gather host candidates quickly; don't wait longer than this */
+const MOCK_ICE_GATHERING_TIMEOUT_MS = 2000
+
+interface MockWhipSession {
+  peerConnection: RTCPeerConnection
+  output: MediaStream | null
+  stopTransform: (() => void) | null
+}
+
+function waitForIceGathering(peerConnection: RTCPeerConnection, timeoutMs: number): Promise<void> {
+  if (peerConnection.iceGatheringState === "complete") return Promise.resolve()
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timeout)
+      peerConnection.removeEventListener("icegatheringstatechange", onChange)
+      resolve()
+    }
+    const onChange = () => {
+      if (peerConnection.iceGatheringState === "complete") done()
+    }
+    const timeout = setTimeout(done, timeoutMs)
+    peerConnection.addEventListener("icegatheringstatechange", onChange)
+  })
+}
+
+/**
+ * Redraw a video track through the mock transform; returns the output stream
+ */
+function startMockDreamTransform(track: MediaStreamTrack): { output: MediaStream; stop: () => void } {
+  const video = document.createElement("video")
+  video.muted = true
+  video.playsInline = true
+  video.srcObject = new MediaStream([track])
+  void video.play().catch(() => {
+    // Autoplay of a muted local stream can still be refused; frames are skipped until it plays
+  })
+
+  const canvas = document.createElement("canvas")
+  canvas.width = MOCK_FRAME_SIZE
+  canvas.height = MOCK_FRAME_SIZE
+  const context = canvas.getContext("2d", { willReadFrequently: true })
+  const output = canvas.captureStream(MOCK_FRAME_RATE)
+  const frame = context?.createImageData(MOCK_FRAME_SIZE, MOCK_FRAME_SIZE) ?? null
+
+  const interval = setInterval(() => {
+    if (!context || !frame || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return
+    // Center-crop the ingest to the square output
+    const side = Math.min(video.videoWidth, video.videoHeight)
+    if (!side) return
+    const sx = (video.videoWidth - side) / 2
+    const sy = (video.videoHeight - side) / 2
+    context.drawImage(video, sx, sy, side, side, 0, 0, MOCK_FRAME_SIZE, MOCK_FRAME_SIZE)
+    const source = context.getImageData(0, 0, MOCK_FRAME_SIZE, MOCK_FRAME_SIZE)
+    transformMockDreamFrame(source.data, frame.data, MOCK_FRAME_SIZE)
+    context.putImageData(frame, 0, 0)
+  }, 1000 / MOCK_FRAME_RATE)
+
+  return {
+    output,
+    stop: () => {
+      clearInterval(interval)
+      output.getTracks().forEach((outputTrack) => outputTrack.stop())
+      video.pause()
+      video.srcObject = null
+    },
+  }
+}
+
+export class MockWHIPServer {
+  private sessions = new Map<string, MockWhipSession>()
+  private listeners = new Set<() => void>()
+
+  /**
+   * Fetch-compatible WHIP handler for `mock-whip:` URLs
+   */
+  handle = async (input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> => {
+    if (init.signal?.aborted) {
+      throw new DOMException("The operation was aborted.", "AbortError")
+    }
+
+    const url = typeof input === "string" ? input : input instanceof URL ? input.toString() : input.url
+    const streamId = getMockWhipStreamId(url)
+    if (!streamId) {
+      return new Response("Unknown mock WHIP URL", { status: 404 })
+    }
+
+    const method = (init.method ?? "GET").toUpperCase()
+    const body = typeof init.body === "string" ? init.body : ""
+    switch (method) {
+      case "POST":
+        return this.acceptOffer(streamId, body)
+      case "PATCH":
+        return this.addCandidates(streamId, body)
+      case "DELETE":
+        this.closeSession(streamId)
+        return new Response(null, { status: 200 })
+      default:
+        return new Response(null, { status: 405 })
+    }
+  }
+
+  /**
+   * Synthetic Dream output for a stream (null until ingest video arrives)
+   */
+  getOutputStream(streamId: string): MediaStream | null {
+    return this.sessions.get(streamId)?.output ?? null
+  }
+
+  /**
+   * Listen for output streams starting or stopping
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener())
+  }
+
+  private async acceptOffer(streamId: string, offerSdp: string): Promise<Response> {
+    if (!offerSdp.includes("m=video")) {
+      return new Response("Offer has no video section", { status: 400 })
+    }
+
+    // A new offer replaces any previous session (WHIP retries reuse the stream)
+    this.closeSession(streamId)
+
+    const peerConnection = new RTCPeerConnection({ iceServers: [] })
+    const session: MockWhipSession = { peerConnection, output: null, stopTransform: null }
+    this.sessions.set(streamId, session)
+
+    peerConnection.ontrack = (event) => {
+      if (event.track.kind !== "video" || session.stopTransform) return
+      const { output, stop } = startMockDreamTransform(event.track)
+      session.output = output
+      session.stopTransform = stop
+      logger.debug("[Dream] Mock WHIP output started", { streamId })
+      this.notify()
+    }
+
+    try {
+      await peerConnection.setRemoteDescription({ type: "offer", sdp: offerSdp })
+      const answer = await peerConnection.createAnswer()
+      await peerConnection.setLocalDescription(answer)
+      await waitForIceGathering(peerConnection, MOCK_ICE_GATHERING_TIMEOUT_MS)
+    } catch (error) {
+      this.closeSession(streamId)
+      const message = error instanceof Error ? error.message : "Invalid offer"
+      return new Response(message, { status: 400 })
+    }
+
+    return new Response(peerConnection.localDescription?.sdp ?? "", {
+      status: 201,
+      headers: {
+        "Content-Type": "application/sdp",
+        Location: `${buildMockWhipUrl(streamId)}/session`,
+      },
+    })
+  }
+
+  private async addCandidates(streamId: string, fragment: string): Promise<Response> {
+    const session = this.sessions.get(streamId)
+    if (!session) {
+      return new Response("Session not found", { status: 404 })
+    }
+
+    const candidates = fragment
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .filter((line) => line.startsWith("a=candidate:"))
+      .map((line) => line.slice(2))
+
+    for (const candidate of candidates) {
+      await session.peerConnection.addIceCandidate({ candidate, sdpMLineIndex: 0 }).catch(() => {
+        // Candidates for transports the answer didn't keep are safe to drop
+      })
+    }
+    return new Response(null, { status: 204 })
+  }
+
+  private closeSession(streamId: string) {
+    const session = this.sessions.get(streamId)
+    if (!session) return
+    this.sessions.delete(streamId)
+    session.stopTransform?.()
+    session.peerConnection.ontrack = null
+    session.peerConnection.close()
+    this.notify()
+  }
+}
+
+let mockWhipServer: MockWHIPServer | null = null
+
+/**
+ * Shared in-page mock WHIP server
+ */
+export function getMockWhipServer(): MockWHIPServer {
+  if (!mockWhipServer) {
+    mockWhipServer = new MockWHIPServer()
+  }
+  return mockWhipServer
+}
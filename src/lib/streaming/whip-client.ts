@@ -10,6 +10,8 @@ export interface WHIPConnectionOptions {
   connectionTimeout?: number
   iceGatheringTimeout?: number
   enableTrickleICE?: boolean
+  /** Signalling transport (defaults to global fetch; the mock Dream backend answers in-page) */
+  fetch?: typeof fetch
 }
 
 export interface WHIPConnectionState {
@@ -57,12 +59,16 @@ export class WHIPClient {
     return this.peerConnection
   }
 
+  private sendSignalling(input: RequestInfo | URL, init: RequestInit) {
+    return (this.options.fetch ?? fetch)(input, init)
+  }
+
   private async fetchWithTimeout(input: RequestInfo | URL, init: RequestInit, timeout: number) {
     const controller = new AbortController()
     const timeoutId = setTimeout(() => controller.abort(), timeout)
     this.abortController = controller
     try {
-      return await fetch(input, { ...init, signal: controller.signal })
+      return await this.sendSignalling(input, { ...init, signal: controller.signal })
     } finally {
       clearTimeout(timeoutId)
       this.abortController = null
@@ -197,7 +203,7 @@ export class WHIPClient {
 
     if (this.whipResourceUrl) {
       try {
-        await fetch(this.whipResourceUrl, { method: "DELETE" })
+        await this.sendSignalling(this.whipResourceUrl, { method: "DELETE" })
       } catch {
         // ignore upstream cleanup errors
       }
@@ -1,5 +1,7 @@
 import { getAppBaseUrl } from '@/lib/app-url';
+import { buildMusicDeepLinkPath } from '@/lib/music/deeplink';
 import type { Track } from '@/types';
+import type { PublicPlaylist } from '@/types/playlist.types';
 
 /**
  * Generate JSON-LD structured data for MetaDJ Nexus
@@ -158,6 +160,33 @@ export function generateFeaturedPlaylistSchema(featuredTracks: Track[]) {
   };
 }
 
+/**
+ * Generate MusicPlaylist structured data for a published (user-created) playlist.
+ * The public landing page also derives its Open Graph title, description, and
+ * image from this schema so both stay in sync.
+ */
+export function generatePublicPlaylistSchema(
+  playlist: Pick<PublicPlaylist, 'slug' | 'name' | 'artworkUrl'>,
+  tracks: Track[]
+) {
+  const baseUrl = getAppBaseUrl();
+  const url = `${baseUrl}${buildMusicDeepLinkPath('playlist', playlist.slug)}`;
+  const artworkUrl = playlist.artworkUrl || tracks[0]?.artworkUrl;
+  const trackLabel = `${tracks.length} track${tracks.length === 1 ? '' : 's'}`;
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'MusicPlaylist',
+    '@id': url,
+    name: playlist.name,
+    description: `Playlist "${playlist.name}" on MetaDJ Nexus · ${trackLabel} by MetaDJ.`,
+    url,
+    image: artworkUrl ? new URL(artworkUrl, baseUrl).toString() : undefined,
+    numTracks: tracks.length,
+    track: tracks.map((track, index) => generateTrackSchema(track, index + 1)),
+  };
+}
+
 /**
  * Combine multiple schema objects into a single JSON-LD script
  */
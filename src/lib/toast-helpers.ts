@@ -67,6 +67,19 @@ export const toasts = {
     action: onView ? { label: 'View Playlist', onClick: onView } : undefined,
   }),
 
+  playlistCopied: (name: string, onView?: () => void): ToastConfig => ({
+    message: `Saved "${name}" to your playlists`,
+    variant: 'success',
+    action: onView ? { label: 'View Playlist', onClick: onView } : undefined,
+  }),
+
+  playlistVisibilityChanged: (name: string, isPublic: boolean): ToastConfig => ({
+    message: isPublic
+      ? `"${name}" is public. Share the link to let anyone listen`
+      : `"${name}" is private again`,
+    variant: 'success',
+  }),
+
   trackAddedToPlaylist: (trackTitle: string, playlistName: string, onUndo?: () => void): ToastConfig => ({
     message: `Added "${trackTitle}" to "${playlistName}"`,
     variant: 'success',
@@ -15,8 +15,10 @@ export const MAX_REQUEST_SIZE = {
   '/api/log': 10 * KB,
   '/api/health': 1 * KB,
   '/api/metadjai/transcribe': 12 * MB,
+  '/api/metadjai/conversations/import': 10 * MB,
   '/api/metadjai/stream': 600 * KB,
   '/api/metadjai': 600 * KB,
+  '/api/playlists': 600 * KB,
   default: 100 * KB,
 } as const;
 
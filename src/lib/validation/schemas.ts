@@ -33,6 +33,10 @@ export const trackSchema = z.object({
     ),
   bpm: z.number().positive('BPM must be positive').int('BPM must be integer').optional(),
   key: z.string().optional(),
+  /** Integrated loudness (LUFS) from scripts/analyze-loudness.js */
+  loudnessLufs: z.number().min(-70, 'Loudness below measurable range').max(0, 'Loudness must be at most 0 LUFS').optional(),
+  /** Peak level (dBFS) from scripts/analyze-loudness.js */
+  peakDb: z.number().max(6, 'Peak level out of range').optional(),
 });
 
 /**
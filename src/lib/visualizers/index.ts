@@ -1,13 +1,49 @@
 /**
  * Visualizer Utilities
  *
- * Seed generation, helpers, and draw utilities for visualizers.
+ * Seed generation, parameter schemas, presets, helpers, and draw utilities
+ * for visualizers.
  *
  * @module lib/visualizers
  */
 
 export { hashSeed, combineSeeds, type SeedInput } from "./seed"
 
+// Parameters - Per-visualizer typed parameter schema
+export {
+  VISUALIZER_PALETTES,
+  VISUALIZER_BAND_SOURCES,
+  VISUALIZER_PARAM_SCHEMAS,
+  getDefaultVisualizerParams,
+  resolveVisualizerParams,
+  getVisualizerParamsValidator,
+  mapVisualizerBands,
+  getVisualizerPaletteFilter,
+  scaleVisualizerCount,
+  type VisualizerType,
+  type VisualizerParamGroup,
+  type VisualizerNumberParam,
+  type VisualizerSelectParam,
+  type VisualizerParamDef,
+  type VisualizerPalette,
+  type VisualizerBandSource,
+  type VisualizerParamSchemas,
+  type VisualizerParamsFor,
+  type VisualizerParams,
+  type VisualizerBandLevels,
+} from "./params"
+
+// Presets - Per-user saved visualizer tunings
+export {
+  VISUALIZER_PRESET_MAX,
+  VISUALIZER_PRESET_NAME_MAX_LENGTH,
+  getVisualizerScene,
+  parseVisualizerPresetInput,
+  toVisualizerPreset,
+  type VisualizerScene,
+  type VisualizerPresetInput,
+} from "./presets"
+
 // EightBitAdventure helpers - re-exported for convenience
 export {
   // Types
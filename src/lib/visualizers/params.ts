@@ -0,0 +1,283 @@
+/**
+ * Visualizer Parameters
+ *
+ * Typed parameter schema for each Cinema visualizer. Every visualizer shares
+ * the palette, reactivity, and band-mapping parameters (applied in
+ * `VisualizerCinema`), and adds the counts and speeds its renderer reads.
+ * The schema drives the Cinema preset editor and validates saved presets.
+ *
+ * @module lib/visualizers/params
+ */
+
+import { z } from "zod"
+import type { VisualizerStyle } from "@/data/scenes"
+
+// =============================================================================
+// Parameter Definitions
+// =============================================================================
+
+export type VisualizerType = VisualizerStyle["type"]
+
+/** Editor section a parameter is shown in */
+export type VisualizerParamGroup = "look" | "motion" | "bands"
+
+export interface VisualizerNumberParam {
+  kind: "number"
+  label: string
+  group: VisualizerParamGroup
+  min: number
+  max: number
+  step: number
+  default: number
+  /** "%" for counts relative to the renderer's quality tier, "×" for multipliers */
+  unit: "%" | "×"
+}
+
+export interface VisualizerSelectParam<V extends string = string> {
+  kind: "select"
+  label: string
+  group: VisualizerParamGroup
+  options: readonly { value: V; label: string }[]
+  default: V
+}
+
+export type VisualizerParamDef = VisualizerNumberParam | VisualizerSelectParam
+
+/** Color treatments; "original" keeps the visualizer's own palette */
+export const VISUALIZER_PALETTES = ["original", "warm", "cool", "monochrome"] as const
+export type VisualizerPalette = (typeof VISUALIZER_PALETTES)[number]
+
+/** Audio bands a visualizer input can follow ("off" holds the input at zero) */
+export const VISUALIZER_BAND_SOURCES = ["bass", "mid", "high", "off"] as const
+export type VisualizerBandSource = (typeof VISUALIZER_BAND_SOURCES)[number]
+
+const PALETTE_PARAM: VisualizerSelectParam<VisualizerPalette> = {
+  kind: "select",
+  label: "Palette",
+  group: "look",
+  options: [
+    { value: "original", label: "Original" },
+    { value: "warm", label: "Warm" },
+    { value: "cool", label: "Cool" },
+    { value: "monochrome", label: "Monochrome" },
+  ],
+  default: "original",
+}
+
+const REACTIVITY_PARAM: VisualizerNumberParam = {
+  kind: "number",
+  label: "Reactivity",
+  group: "motion",
+  min: 0.25,
+  max: 2,
+  step: 0.05,
+  default: 1,
+  unit: "×",
+}
+
+const BAND_SOURCE_OPTIONS = [
+  { value: "bass", label: "Bass" },
+  { value: "mid", label: "Mids" },
+  { value: "high", label: "Highs" },
+  { value: "off", label: "Off" },
+] as const satisfies readonly { value: VisualizerBandSource; label: string }[]
+
+function bandParam(label: string, source: VisualizerBandSource): VisualizerSelectParam<VisualizerBandSource> {
+  return { kind: "select", label, group: "bands", options: BAND_SOURCE_OPTIONS, default: source }
+}
+
+function countParam(label: string, min: number, max: number): VisualizerNumberParam {
+  return { kind: "number", label, group: "look", min, max, step: 5, default: 100, unit: "%" }
+}
+
+function speedParam(label: string, min = 0, max = 3): VisualizerNumberParam {
+  return { kind: "number", label, group: "motion", min, max, step: 0.05, default: 1, unit: "×" }
+}
+
+/**
+ * Shared parameters; the band labels name what each input drives in that
+ * visualizer
+ */
+function sharedParams(drives: { bass: string; mid: string; high: string }) {
+  return {
+    palette: PALETTE_PARAM,
+    reactivity: REACTIVITY_PARAM,
+    bassSource: bandParam(drives.bass, "bass"),
+    midSource: bandParam(drives.mid, "mid"),
+    highSource: bandParam(drives.high, "high"),
+  }
+}
+
+export const VISUALIZER_PARAM_SCHEMAS = {
+  "explosion": {
+    ...sharedParams({ bass: "Pulse & spin", mid: "Swirl", high: "Sparkle" }),
+    particleCount: countParam("Particle count", 20, 100),
+    rotationSpeed: speedParam("Rotation speed"),
+  },
+  "black-hole": {
+    ...sharedParams({ bass: "Disk surge", mid: "Lensing", high: "Glints" }),
+    particleCount: countParam("Particle count", 20, 100),
+    rotationSpeed: speedParam("Rotation speed"),
+  },
+  "space-travel": {
+    ...sharedParams({ bass: "Warp thrust", mid: "Cruise", high: "Star streaks" }),
+    particleCount: countParam("Star count", 20, 100),
+    warpSpeed: speedParam("Warp speed", 0.25),
+    cameraDrift: speedParam("Camera drift"),
+  },
+  "disco-ball": {
+    ...sharedParams({ bass: "Shockwaves", mid: "Facet flow", high: "Glitter" }),
+    particleCount: countParam("Facet count", 20, 100),
+    rotationSpeed: speedParam("Rotation speed"),
+  },
+  "pixel-paradise": {
+    ...sharedParams({ bass: "Portal pulse", mid: "Block flow", high: "Sparks" }),
+    blockCount: countParam("Block count", 50, 150),
+    flowSpeed: speedParam("Flow speed", 0.25),
+  },
+  "eight-bit-adventure": {
+    ...sharedParams({ bass: "Jumps", mid: "Walk pace", high: "Twinkle" }),
+    starCount: countParam("Star count", 50, 150),
+    walkSpeed: speedParam("Walk speed", 0.25, 2.5),
+  },
+  "synthwave-horizon": {
+    ...sharedParams({ bass: "Grid bounce", mid: "Sun glow", high: "Comets" }),
+    starCount: countParam("Star count", 50, 150),
+    scrollSpeed: speedParam("Grid speed"),
+  },
+  "spectrum-ring": {
+    ...sharedParams({ bass: "Ring pulse", mid: "Wobble", high: "Bursts" }),
+    segmentCount: countParam("Segments", 50, 150),
+    rotationSpeed: speedParam("Rotation speed"),
+  },
+  "starlight-drift": {
+    ...sharedParams({ bass: "Brightness", mid: "Nebula", high: "Twinkle" }),
+    starCount: countParam("Star count", 50, 200),
+    driftSpeed: speedParam("Drift speed"),
+    twinkleSpeed: speedParam("Twinkle speed"),
+  },
+} as const satisfies Record<VisualizerType, Record<string, VisualizerParamDef>>
+
+export type VisualizerParamSchemas = typeof VISUALIZER_PARAM_SCHEMAS
+
+type ParamValue<D> = D extends VisualizerSelectParam<infer V> ? V : number
+
+/** Parameter values for one visualizer type (distributes over unions) */
+export type VisualizerParamsFor<T extends VisualizerType> = T extends VisualizerType
+  ? { [K in keyof VisualizerParamSchemas[T]]: ParamValue<VisualizerParamSchemas[T][K]> }
+  : never
+
+/** Parameter values for any visualizer type */
+export type VisualizerParams = VisualizerParamsFor<VisualizerType>
+
+// =============================================================================
+// Defaults & Validation
+// =============================================================================
+
+function getSchemaEntries(type: VisualizerType): [string, VisualizerParamDef][] {
+  return Object.entries(VISUALIZER_PARAM_SCHEMAS[type]) as [string, VisualizerParamDef][]
+}
+
+/**
+ * Default parameter values for a visualizer (matches the built-in scene)
+ */
+export function getDefaultVisualizerParams<T extends VisualizerType>(type: T): VisualizerParamsFor<T> {
+  return Object.fromEntries(
+    getSchemaEntries(type).map(([key, def]) => [key, def.default]),
+  ) as VisualizerParamsFor<T>
+}
+
+function clampToStep(value: number, def: VisualizerNumberParam): number {
+  const stepped = Math.round((value - def.min) / def.step) * def.step + def.min
+  return Math.min(def.max, Math.max(def.min, Math.round(stepped * 1000) / 1000))
+}
+
+/**
+ * Resolve stored or partial values into a full parameter set: known keys are
+ * kept (numbers clamped to range), unknown keys dropped, missing keys defaulted
+ */
+export function resolveVisualizerParams<T extends VisualizerType>(type: T, raw: unknown): VisualizerParamsFor<T> {
+  const source = raw && typeof raw === "object" ? (raw as Record<string, unknown>) : {}
+  return Object.fromEntries(
+    getSchemaEntries(type).map(([key, def]) => {
+      const value = source[key]
+      if (def.kind === "number") {
+        return [key, typeof value === "number" && Number.isFinite(value) ? clampToStep(value, def) : def.default]
+      }
+      return [key, def.options.some((option) => option.value === value) ? value : def.default]
+    }),
+  ) as VisualizerParamsFor<T>
+}
+
+/**
+ * Strict zod schema for one visualizer's parameters (used when saving presets)
+ */
+export function getVisualizerParamsValidator(type: VisualizerType) {
+  const shape = Object.fromEntries(
+    getSchemaEntries(type).map(([key, def]) => [
+      key,
+      def.kind === "number"
+        ? z
+            .number({ error: `${def.label} must be a number` })
+            .min(def.min, `${def.label} must be at least ${def.min}${def.unit === "%" ? "%" : ""}`)
+            .max(def.max, `${def.label} must be at most ${def.max}${def.unit === "%" ? "%" : ""}`)
+        : z.enum(def.options.map((option) => option.value) as [string, ...string[]], {
+            error: `${def.label} has an unknown option`,
+          }),
+    ]),
+  )
+  return z.object(shape).strict()
+}
+
+// =============================================================================
+// Rendering Helpers
+// =============================================================================
+
+export interface VisualizerBandLevels {
+  bass: number
+  mid: number
+  high: number
+}
+
+/**
+ * Route the analyser bands into a visualizer's bass/mid/high inputs and apply
+ * reactivity (results stay within 0–1)
+ */
+export function mapVisualizerBands(
+  levels: VisualizerBandLevels,
+  params: Pick<VisualizerParamsFor<VisualizerType>, "reactivity" | "bassSource" | "midSource" | "highSource">,
+): VisualizerBandLevels {
+  const read = (source: VisualizerBandSource) =>
+    source === "off" ? 0 : Math.min(1, Math.max(0, levels[source] * params.reactivity))
+
+  return {
+    bass: read(params.bassSource),
+    mid: read(params.midSource),
+    high: read(params.highSource),
+  }
+}
+
+/**
+ * CSS filter for a palette. Hue rotations move the brand purple/cyan toward
+ * orange/magenta (warm) or blue/teal (cool). Applied to the visualizer
+ * container, so Dream captures of the raw canvas keep the original colors.
+ */
+export function getVisualizerPaletteFilter(palette: VisualizerPalette): string {
+  switch (palette) {
+    case "warm":
+      return "hue-rotate(110deg) saturate(1.1)"
+    case "cool":
+      return "hue-rotate(-40deg)"
+    case "monochrome":
+      return "grayscale(1) contrast(1.1)"
+    default:
+      return "none"
+  }
+}
+
+/**
+ * Scale a count by a percentage parameter, never below one
+ */
+export function scaleVisualizerCount(count: number, percent: number): number {
+  return Math.max(1, Math.round((count * percent) / 100))
+}
@@ -0,0 +1,39 @@
+/**
+ * Visualizer Presets Remote Client
+ *
+ * Fetch helpers for `/api/cinema/presets` (see `@/lib/presets/remote`).
+ * Reads resolve to null on failure so the Cinema scene menu can hide the
+ * saved presets section.
+ */
+
+import { deleteUserPreset, fetchUserPresets, saveUserPreset } from "@/lib/presets/remote"
+import type { VisualizerId } from "@/data/scenes"
+import type { VisualizerParams } from "@/lib/visualizers/params"
+import type { VisualizerPreset } from "@/types/visualizer.types"
+
+const PRESETS_ENDPOINT = "/api/cinema/presets"
+
+/**
+ * Fetch the signed-in user's saved visualizer presets
+ */
+export function fetchVisualizerPresets(): Promise<VisualizerPreset[] | null> {
+  return fetchUserPresets<VisualizerPreset>(PRESETS_ENDPOINT)
+}
+
+/**
+ * Save a visualizer preset
+ */
+export function saveVisualizerPreset(input: {
+  name: string
+  sceneId: VisualizerId
+  params: VisualizerParams
+}): Promise<{ preset: VisualizerPreset } | { error: string }> {
+  return saveUserPreset<VisualizerPreset>(PRESETS_ENDPOINT, input)
+}
+
+/**
+ * Delete a visualizer preset
+ */
+export function deleteVisualizerPreset(id: string): Promise<boolean> {
+  return deleteUserPreset(PRESETS_ENDPOINT, id)
+}
@@ -0,0 +1,115 @@
+/**
+ * Visualizer Presets
+ *
+ * Validation and mapping for per-user saved visualizer tunings
+ * (`visualizer_presets`). A preset names a built-in visualizer scene and
+ * holds values for that visualizer's parameter schema.
+ *
+ * @module lib/visualizers/presets
+ */
+
+import { z } from "zod"
+import { DEFAULT_SCENE_ID, VISUALIZER_SCENES, type Scene, type VisualizerId, type VisualizerStyle } from "@/data/scenes"
+import { getVisualizerParamsValidator, resolveVisualizerParams } from "@/lib/visualizers/params"
+import type { VisualizerParams } from "@/lib/visualizers/params"
+import type { VisualizerPreset } from "@/types/visualizer.types"
+
+// =============================================================================
+// Limits
+// =============================================================================
+
+/** Most presets a user can save */
+export const VISUALIZER_PRESET_MAX = 24
+export const VISUALIZER_PRESET_NAME_MAX_LENGTH = 60
+
+// =============================================================================
+// Scene Lookup
+// =============================================================================
+
+export type VisualizerScene = Scene & { id: VisualizerId; visualizerStyle: VisualizerStyle }
+
+/**
+ * Built-in visualizer scene for an id (undefined for video or unknown ids)
+ */
+export function getVisualizerScene(sceneId: string): VisualizerScene | undefined {
+  const scene = VISUALIZER_SCENES.find((candidate) => candidate.id === sceneId)
+  return scene?.visualizerStyle ? (scene as VisualizerScene) : undefined
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+const visualizerPresetBaseSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Preset name is required")
+    .max(VISUALIZER_PRESET_NAME_MAX_LENGTH, `Preset name must be ${VISUALIZER_PRESET_NAME_MAX_LENGTH} characters or fewer`),
+  sceneId: z.string().refine((sceneId) => Boolean(getVisualizerScene(sceneId)), "Unknown visualizer"),
+  params: z.unknown(),
+})
+
+export interface VisualizerPresetInput {
+  name: string
+  sceneId: VisualizerId
+  params: VisualizerParams
+}
+
+/**
+ * Validate a create-preset request body; `params` must match the scene's
+ * visualizer schema exactly
+ */
+export function parseVisualizerPresetInput(
+  body: unknown,
+): { success: true; data: VisualizerPresetInput } | { success: false; error: string } {
+  const parsed = visualizerPresetBaseSchema.safeParse(body)
+  if (!parsed.success) {
+    return { success: false, error: parsed.error.issues[0]?.message ?? "Invalid preset" }
+  }
+
+  const scene = getVisualizerScene(parsed.data.sceneId)
+  if (!scene) {
+    return { success: false, error: "Unknown visualizer" }
+  }
+
+  const params = getVisualizerParamsValidator(scene.visualizerStyle.type).safeParse(parsed.data.params)
+  if (!params.success) {
+    return { success: false, error: params.error.issues[0]?.message ?? "Invalid visualizer settings" }
+  }
+
+  return {
+    success: true,
+    data: {
+      name: parsed.data.name,
+      sceneId: scene.id,
+      params: params.data as VisualizerParams,
+    },
+  }
+}
+
+// =============================================================================
+// Mapping
+// =============================================================================
+
+/**
+ * Map a stored preset row to the client shape. Params are resolved against
+ * the current schema, so presets saved before a parameter changed still load.
+ */
+export function toVisualizerPreset(record: {
+  id: string
+  name: string
+  sceneId: string
+  params: unknown
+  createdAt: Date
+}): VisualizerPreset {
+  const scene = getVisualizerScene(record.sceneId) ?? (getVisualizerScene(DEFAULT_SCENE_ID) as VisualizerScene)
+
+  return {
+    id: record.id,
+    name: record.name,
+    sceneId: scene.id,
+    params: resolveVisualizerParams(scene.visualizerStyle.type, record.params),
+    createdAt: record.createdAt.toISOString(),
+  }
+}
@@ -7,6 +7,7 @@
  */
 
 import type { RepeatMode, Track } from './index';
+import type { ListeningSource } from './listening.types';
 
 /**
  * Playback control callbacks
@@ -44,6 +45,8 @@ export interface QueueControls {
   onInsert?: (tracks: Track[], index: number) => void;
   onShuffleToggle?: () => void;
   onRepeatToggle?: () => void;
+  /** Queue context and playback source recorded with listening events */
+  source?: ListeningSource;
 }
 
 /**
@@ -149,3 +149,82 @@ export interface DaydreamStatus {
   /** Seconds remaining in warm-up countdown */
   countdownRemaining?: number
 }
+
+/**
+ * A saved Dream prompt (per signed-in user).
+ * Stores the editable parts of the prompt; the sent prompt is `${presentation} ${promptBase}`.
+ */
+export interface DreamPromptPreset {
+  id: string
+  /** Display name */
+  name: string
+  /** Prompt text after the presentation word */
+  promptBase: string
+  presentation: DaydreamPresentation
+  /** ISO timestamp */
+  createdAt: string
+}
+
+/** How a Dream prompt timeline advances: after each step's hold time, or at each track change */
+export type DreamTimelineMode = "time" | "track"
+
+/** One prompt in a Dream prompt timeline */
+export interface DreamTimelineStep {
+  id: string
+  promptBase: string
+  presentation: DaydreamPresentation
+  /** Seconds the step holds before the next one (time mode only) */
+  holdSeconds: number
+}
+
+/** Prompts Dream steps through while streaming; wraps after the last step */
+export interface DreamTimeline {
+  mode: DreamTimelineMode
+  steps: DreamTimelineStep[]
+}
+
+/** Audio band levels (0-1) sampled from the audio analyzer */
+export interface DreamAudioLevels {
+  bass: number
+  mid: number
+  high: number
+}
+
+/**
+ * Audio-reactive prompt mix: per-band accent weights and the seed to send.
+ * Applied on top of the composed prompt as a weighted prompt list.
+ */
+export interface DreamReactiveMix {
+  weights: DreamAudioLevels
+  seed: number
+}
+
+/**
+ * Dream clip capture: off (default, nothing records), keep the last N seconds,
+ * or record between start and stop
+ */
+export type DreamClipMode = "idle" | "rolling" | "manual"
+
+/** A prompt sent to Dream, logged for clip sidecars */
+export interface DreamPromptLogEntry {
+  /** Epoch milliseconds when the prompt was applied */
+  at: number
+  prompt: string
+}
+
+/**
+ * Sidecar JSON saved next to a Dream clip.
+ * Prompt offsets are seconds from the clip start; the first entry is the prompt
+ * active when the clip began.
+ */
+export interface DreamClipSidecar {
+  version: 1
+  app: "MetaDJ Nexus"
+  /** Clip file name */
+  file: string
+  /** ISO timestamp of the clip start */
+  startedAt: string
+  durationSeconds: number
+  track: { id: string; title: string; artist: string } | null
+  prompts: Array<{ offsetSeconds: number; prompt: string }>
+}
@@ -19,6 +19,7 @@
  *
  * @see lib/validation/schemas.ts for the schema definitions and validation rules
  */
+import type { PlaybackSource } from './listening.types';
 import type {
   Track as TrackType,
   Collection as CollectionType_,
@@ -35,7 +36,7 @@ export type CollectionType = CollectionTypeEnum;
 // ============================================================================
 
 export type RepeatMode = 'none' | 'track' | 'queue';
-export type QueueContext = 'collection' | 'search' | 'playlist';
+export type QueueContext = 'collection' | 'search' | 'playlist' | 'smart-playlist';
 export type ActiveView = 'hub' | 'cinema' | 'wisdom' | 'journal';
 export type WisdomSection = 'thoughts' | 'guides' | 'reflections' | 'journal' | null;
 
@@ -141,6 +142,8 @@ export interface QueueContextValue {
 
   // Queue modes
   isShuffleEnabled: boolean;
+  /** Auto queue sequenced by Camelot key and BPM (mutually exclusive with shuffle) */
+  isDjOrderEnabled: boolean;
   repeatMode: RepeatMode;
 
   // Queue operations
@@ -149,11 +152,15 @@ export interface QueueContextValue {
 
   // Context management
   setQueueContext: (context: QueueContext) => void;
+  /** How playback of the current queue was started (recorded with listening events) */
+  playbackSource: PlaybackSource;
+  setPlaybackSource: (source: PlaybackSource) => void;
 
   // Internal state
   setManualTrackIds: (ids: string[]) => void;
   setAutoQueue: (tracks: Track[]) => void;
   setIsShuffleEnabled: (enabled: boolean) => void;
+  setIsDjOrderEnabled: (enabled: boolean) => void;
   setRepeatMode: (mode: RepeatMode) => void;
 }
 
@@ -263,12 +270,24 @@ export interface UIContextValue {
 
 export * from './playlist.types';
 
+// ============================================================================
+// Listening History Types
+// ============================================================================
+
+export * from './listening.types';
+
 // ============================================================================
 // Daydream Types
 // ============================================================================
 
 export * from './daydream.types';
 
+// ============================================================================
+// Visualizer Types
+// ============================================================================
+
+export * from './visualizer.types';
+
 // ============================================================================
 // Audio Player Types
 // ============================================================================
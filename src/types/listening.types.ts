@@ -0,0 +1,65 @@
+/**
+ * Listening History Types
+ *
+ * Type definitions for per-play listening events and the stats derived from them.
+ */
+
+import type { QueueContext } from './index';
+
+/**
+ * How playback of the current queue was started
+ */
+export type ListeningSourceType = 'queue' | 'mood-channel' | 'ai-proposal';
+
+/**
+ * Playback source kept in QueueContext.
+ * `id` is the mood channel ID or the AI proposal kind.
+ */
+export interface PlaybackSource {
+  type: ListeningSourceType;
+  id?: string | null;
+}
+
+/**
+ * Full source context recorded with each listening event
+ */
+export interface ListeningSource extends PlaybackSource {
+  queueContext: QueueContext;
+}
+
+/**
+ * One listen of one track, sent when the listen ends
+ */
+export interface ListeningEventInput {
+  trackId: string;
+  collection?: string | null;
+  startedAt: string;             // ISO 8601 timestamp
+  durationSeconds: number;
+  listenedSeconds: number;
+  completionPercent: number;     // 0-100
+  completed: boolean;
+  skipped: boolean;
+  queueContext: QueueContext;
+  sourceType: ListeningSourceType;
+  sourceId?: string | null;
+}
+
+export interface ListeningStatsTrack {
+  trackId: string;
+  title: string | null;          // null when the track is no longer in the catalog
+  collection: string | null;
+  plays: number;
+  minutes: number;
+}
+
+/**
+ * "Your stats" summary for the account panel
+ */
+export interface ListeningStats {
+  totalMinutes: number;
+  totalPlays: number;
+  topTracks: ListeningStatsTrack[];
+  mostPlayedCollection: { title: string; plays: number } | null;
+  currentStreakDays: number;
+  longestStreakDays: number;
+}
@@ -76,8 +76,9 @@ export interface MetaDjAiPersonalization {
 }
 
 /**
- * Archived version of a regenerated message.
- * Allows cycling through previous response variants.
+ * Archived version of a regenerated message (legacy).
+ * Regenerations are now sibling branches; stored versions are expanded into
+ * siblings when a conversation loads.
  */
 export interface MetaDjAiMessageVersion {
   /** Message content for this version */
@@ -93,6 +94,11 @@ export interface MetaDjAiMessage {
   role: MetaDjAiRole;
   content: string;
   createdAt: number;
+  /**
+   * Message this one follows (null for a first turn). Edits and regenerations
+   * share a parent, forming branches. Undefined on messages saved before branching.
+   */
+  parentId?: string | null;
   status?: 'streaming' | 'complete' | 'error';
   /** Optional message kind for non-chat events (mode/model markers) */
   kind?: 'mode-switch' | 'model-switch';
@@ -104,14 +110,30 @@ export interface MetaDjAiMessage {
   }>;
   /** Tools that were called during this response (e.g., 'searchCatalog', 'getRecommendations') */
   toolsUsed?: string[];
-  /** Previous versions of this message (for regenerated responses) */
+  /** Provider that generated this response (assistant messages) */
+  provider?: MetaDjAiProvider;
+  /** Model ID reported by the server for this response */
+  model?: string;
+  /** Previous versions of this message (legacy regenerations, see MetaDjAiMessageVersion) */
   versions?: MetaDjAiMessageVersion[];
-  /** Currently displayed version index (0 = current, 1+ = older versions) */
+  /** Currently displayed version index (legacy) */
   currentVersionIndex?: number;
   /** Active player control proposal awaiting user confirmation */
   proposal?: MetaDjAiProposal;
 }
 
+/**
+ * Position of a message among its siblings (edits or regenerations of the same turn).
+ */
+export interface MetaDjAiMessageBranch {
+  /** 0-based position, oldest first */
+  index: number;
+  /** Number of siblings, including this message */
+  total: number;
+  /** Sibling message IDs, oldest first */
+  siblingIds: string[];
+}
+
 /**
  * Playback control proposal from MetaDJai.
  * Requires user confirmation before execution.
@@ -192,14 +214,117 @@ export interface PlaylistProposal {
   context?: string;
 }
 
+/**
+ * Cinema proposal from MetaDJai.
+ * Opens or closes Cinema, or switches its scene, with user confirmation.
+ */
+export interface CinemaProposal {
+  type: 'cinema';
+  /** Requires explicit approval before execution */
+  approvalRequired?: boolean;
+  /** Open Cinema (optionally on a scene), switch scene, or close Cinema */
+  action: 'open' | 'scene' | 'close';
+  /** Resolved scene ID (absent when the requested scene wasn't found) */
+  sceneId?: string;
+  /** Display name for confirmation UI */
+  sceneName?: string;
+  /** Reasoning shown in confirmation card */
+  context?: string;
+}
+
+/**
+ * Dream proposal from MetaDJai.
+ * Starts, re-prompts, or stops the Dream overlay with user confirmation.
+ */
+export interface DreamProposal {
+  type: 'dream';
+  /** Requires explicit approval before execution */
+  approvalRequired?: boolean;
+  /** Start Dream, change its prompt, or stop it */
+  action: 'start' | 'setPrompt' | 'stop';
+  /** Prompt for the Dream (replaces the base prompt; presentation stays) */
+  prompt?: string;
+  /** Reasoning shown in confirmation card */
+  context?: string;
+}
+
+/**
+ * Wisdom proposal from MetaDJai.
+ * Opens a specific Thought, Guide, or Reflection with user confirmation.
+ */
+export interface WisdomProposal {
+  type: 'wisdom';
+  /** Requires explicit approval before execution */
+  approvalRequired?: boolean;
+  action: 'open';
+  /** Wisdom section of the entry */
+  section: 'thoughts' | 'guides' | 'reflections';
+  /** Entry ID (absent when the requested entry wasn't found) */
+  id?: string;
+  /** Display title for confirmation UI */
+  title?: string;
+  /** Reasoning shown in confirmation card */
+  context?: string;
+}
+
+/** Phase of a planned DJ set, in play order */
+export type SetPlanPhase = 'opening' | 'build' | 'peak' | 'cooldown';
+
+/**
+ * One segment of a planned DJ set.
+ */
+export interface SetPlanSegment {
+  phase: SetPlanPhase;
+  /** Planned length in minutes */
+  minutes: number;
+  /** Target tempo for the segment */
+  targetBpm: number;
+  /** Target energy, 1 (calm) to 10 (peak) */
+  targetEnergy: number;
+  /** Ordered track IDs picked for the segment */
+  trackIds: string[];
+  /** Display titles for confirmation UI */
+  trackTitles?: string[];
+}
+
+/**
+ * DJ set plan proposal from MetaDJai.
+ * Rendered as an editable timeline; each segment is approved (or skipped)
+ * before the approved tracks become a queue or playlist.
+ */
+export interface SetPlanProposal {
+  type: 'set-plan';
+  /** Requires explicit approval before execution */
+  approvalRequired?: boolean;
+  action: 'build';
+  /** Set name (used when saving as a playlist) */
+  name: string;
+  /** Requested set length in minutes */
+  totalMinutes: number;
+  /** Segments in play order (opening → build → peak → cooldown) */
+  segments: SetPlanSegment[];
+  /** Reasoning shown in confirmation card */
+  context?: string;
+}
+
 /** Union of all proposal types MetaDJai can generate */
-export type MetaDjAiProposal = PlaybackProposal | UiProposal | QueueSetProposal | PlaylistProposal;
+export type MetaDjAiProposal =
+  | PlaybackProposal
+  | UiProposal
+  | QueueSetProposal
+  | PlaylistProposal
+  | CinemaProposal
+  | DreamProposal
+  | WisdomProposal
+  | SetPlanProposal;
 
 /**
  * Simplified message format for API requests.
  * Subset of MetaDjAiMessage with only role and content.
  */
 export interface MetaDjAiApiMessage {
+  /** Client message ID (lets the server track which turns were summarized) */
+  id?: string;
   /** Message author role */
   role: MetaDjAiRole;
   /** Message text content */
@@ -259,6 +384,8 @@ export interface MetaDjAiApiRequestBody {
   modelPreference?: MetaDjAiProvider;
   /** User personalization settings */
   personalization?: MetaDjAiPersonalization;
+  /** Stored conversation ID (signed-in users); enables context compaction */
+  conversationId?: string;
 }
 
 /**
@@ -289,6 +416,8 @@ export interface MetaDjAiApiResponseBody {
     name: string;
     result: unknown;
   }>;
+  /** Last message condensed into the conversation summary (when compaction is active) */
+  contextCondensedThroughMessageId?: string;
 }
 
 /**
@@ -308,6 +437,128 @@ export interface MetaDjAiChatSessionSummary {
   messageCount: number;
 }
 
+/**
+ * Piece of a search snippet; `highlight` marks text that matched the query
+ */
+export interface MetaDjAiSearchSnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+/**
+ * Conversation history search hit: a matching message, or a conversation
+ * whose title matched (then `messageId` is null)
+ */
+export interface MetaDjAiConversationSearchResult {
+  conversationId: string;
+  conversationTitle: string;
+  /** Matching message, or null for a title-only match */
+  messageId: string | null;
+  role: 'user' | 'assistant' | null;
+  /** Highlighted excerpt of the message (or title) */
+  snippet: MetaDjAiSearchSnippetSegment[];
+  /** Unix timestamp of the message (or conversation update) */
+  createdAt: number;
+}
+
+/**
+ * Read-only conversation snapshot behind a public share link.
+ * Holds only the shared branch's chat text, never account details.
+ */
+export interface MetaDjAiSharedConversation {
+  title: string;
+  /** Unix timestamp when the snapshot was taken */
+  sharedAt: number;
+  messages: Array<{
+    role: MetaDjAiRole;
+    content: string;
+    createdAt: number;
+  }>;
+}
+
+/**
+ * Current public share link for a conversation
+ */
+export interface MetaDjAiConversationShare {
+  /** Share token (the `/share/{token}` path segment) */
+  token: string;
+  /** Absolute URL of the read-only page */
+  url: string;
+  /** Unix timestamp when the snapshot was taken */
+  sharedAt: number;
+}
+
+/**
+ * Kinds of durable facts MetaDJai remembers across conversations
+ */
+export type MetaDjAiMemoryCategory =
+  | 'favorite-music'
+  | 'creative-project'
+  | 'preferred-tone'
+  | 'interest'
+  | 'background';
+
+/**
+ * A long-term memory extracted from past conversations.
+ * Shown (and deletable) in the Personalize panel; recalled into new chats.
+ */
+export interface MetaDjAiMemory {
+  id: string;
+  category: MetaDjAiMemoryCategory;
+  /** One short, self-contained statement about the user */
+  content: string;
+  /** Conversation the memory was learned from (null once that conversation is deleted) */
+  sourceConversationId: string | null;
+  /** Unix timestamp of creation */
+  createdAt: number;
+  /** Unix timestamp of the last update */
+  updatedAt: number;
+}
+
+/**
+ * AI plan tiers. Admins are always `unlimited`.
+ */
+export type MetaDjAiQuotaTier = 'free' | 'supporter' | 'unlimited';
+
+/**
+ * Per-user AI limits (null = no limit on that meter)
+ */
+export interface MetaDjAiQuotaLimits {
+  dailyTokens: number | null;
+  monthlyTokens: number | null;
+  dailyCostUsd: number | null;
+  monthlyCostUsd: number | null;
+}
+
+/**
+ * Usage against one quota window (UTC day or UTC month)
+ */
+export interface MetaDjAiQuotaWindow {
+  tokensUsed: number;
+  tokenLimit: number | null;
+  costUsedUsd: number;
+  costLimitUsd: number | null;
+  /** Unix timestamp when the window resets */
+  resetsAt: number;
+}
+
+/**
+ * A signed-in user's AI quota, as shown in the chat input and AdminDashboard
+ */
+export interface MetaDjAiQuotaStatus {
+  tier: MetaDjAiQuotaTier;
+  /** Whether the next request may run */
+  allowed: boolean;
+  /** Window that ran out first (null while allowed) */
+  exceeded: 'daily' | 'monthly' | null;
+  /** Smallest remaining share (0-1) across limited meters; null when unlimited */
+  remainingFraction: number | null;
+  daily: MetaDjAiQuotaWindow;
+  monthly: MetaDjAiQuotaWindow;
+  /** Whether an admin set a tier or custom limits for this user */
+  hasOverride: boolean;
+}
+
 export interface MetaDjAiChatProps {
   isOpen: boolean;
   onClose: () => void;
@@ -330,9 +581,15 @@ export interface MetaDjAiChatProps {
   onDeleteSession?: (sessionId: string) => void;
   /** Refresh session list from server */
   onRefreshSessions?: () => void | Promise<void>;
+  /** Last message condensed into the conversation summary (shows a divider after it) */
+  condensedThroughMessageId?: string | null;
   onRegenerate?: () => Promise<void> | void;
-  /** Callback to switch between message versions */
-  onSwitchVersion?: (messageId: string, versionIndex: number) => void;
+  /** Branch position of active-path messages that have siblings, keyed by message ID */
+  messageBranches?: Record<string, MetaDjAiMessageBranch>;
+  /** Show the branch containing a message (branch navigation, search jumps) */
+  onSwitchBranch?: (messageId: string) => void;
+  /** Edit a user message; the edit and a new reply become a sibling branch */
+  onEditMessage?: (messageId: string, content: string) => Promise<void> | void;
   /** Callback to retry the last failed message */
   onRetry?: () => Promise<void> | void;
   /** Whether a retry is available (last message failed) */
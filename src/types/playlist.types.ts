@@ -4,6 +4,8 @@
  * Type definitions for the playlist management system.
  */
 
+import type { Track } from '@/lib/validation/schemas';
+
 /**
  * User-created playlist
  */
@@ -15,6 +17,43 @@ export interface Playlist {
   updatedAt: string;             // ISO 8601 timestamp
   artworkUrl?: string | null;    // Optional custom artwork
   isDefault?: boolean;           // System-generated playlists (Favorites)
+  isPublic?: boolean;            // Published at /playlist/{publicSlug} (server-controlled)
+  publicSlug?: string | null;    // Stable public slug, assigned on first publish
+  smartRules?: SmartPlaylistRuleGroup | null; // Present on smart playlists; trackIds holds the last evaluation
+}
+
+/**
+ * Smart playlist rule over track metadata.
+ * Ranges are inclusive; omit a bound to leave that side open.
+ */
+export type SmartPlaylistRule =
+  | { type: 'bpm'; min?: number; max?: number }
+  | { type: 'genre'; genres: string[] }            // Matches any listed genre
+  | { type: 'key'; keys: string[] }                // Matches any listed key (case-insensitive)
+  | { type: 'collection'; collections: string[] }  // Collection titles or slugs
+  | { type: 'duration'; min?: number; max?: number } // Seconds
+  | { type: 'recentlyPlayed'; count: number };     // Excludes the last N plays (applied at playback)
+
+/**
+ * AND/OR group of rules (groups can nest)
+ */
+export interface SmartPlaylistRuleGroup {
+  type: 'group';
+  operator: 'and' | 'or';
+  rules: SmartPlaylistNode[];
+}
+
+export type SmartPlaylistNode = SmartPlaylistRule | SmartPlaylistRuleGroup;
+
+/**
+ * Read-only view of a published playlist (public landing page)
+ */
+export interface PublicPlaylist {
+  slug: string;
+  name: string;
+  trackIds: string[];
+  artworkUrl?: string | null;
+  updatedAt: string;             // ISO 8601 timestamp
 }
 
 /**
@@ -31,6 +70,8 @@ export interface PlaylistContextValue {
     name: string,
     source?: "navigation" | "track_card" | "collection_header" | "metadjai"
   ) => Promise<Playlist>;
+  createSmartPlaylist: (name: string, rules: SmartPlaylistRuleGroup) => Promise<Playlist>;
+  updateSmartPlaylistRules: (playlistId: string, rules: SmartPlaylistRuleGroup) => Promise<void>;
   duplicatePlaylist: (
     playlistId: string,
     source?: "playlist_list" | "detail_view"
@@ -47,9 +88,20 @@ export interface PlaylistContextValue {
   removeTrackFromPlaylist: (playlistId: string, trackId: string) => Promise<void>;
   reorderTracks: (playlistId: string, fromIndex: number, toIndex: number) => Promise<void>;
 
+  // Sharing
+  setPlaylistVisibility: (playlistId: string, isPublic: boolean) => Promise<Playlist>;
+  savePlaylistCopy: (name: string, trackIds: string[]) => Promise<Playlist>;
+
   // Playback
   playPlaylist: (playlistId: string) => void;
 
+  // Catalog
+  /** Served catalog (database-backed when configured); resolve track IDs against it */
+  catalogTracks: Track[];
+
+  // Smart playlists
+  refreshSmartPlaylists: (catalogTracks: Track[]) => void;
+
   // Selection
   selectPlaylist: (playlistId: string) => void;
   clearSelection: () => void;
@@ -76,4 +128,8 @@ export const PlaylistErrors = {
   PLAYLIST_NOT_FOUND: "Playlist not found",
   TRACK_ALREADY_IN_PLAYLIST: "This track is already in '{playlistName}'",
   STORAGE_ERROR: "Unable to save playlist. Please try again.",
+  PUBLISH_REQUIRES_ACCOUNT: "Sign in to publish playlists",
+  PUBLISH_FAILED: "Unable to update playlist sharing. Please try again.",
+  SMART_PLAYLIST_READ_ONLY: "Smart playlists update from their rules. Edit the rules to change tracks.",
+  SMART_RULES_INVALID: "Smart playlist rules are invalid",
 } as const;
@@ -7,6 +7,8 @@
  * @module types/shell.types
  */
 
+import type { SceneId } from "@/data/scenes"
+import type { UseDreamPromptDirectorReturn } from "@/hooks/dream/use-dream-prompt-director"
 import type { DaydreamPresentation, DaydreamStatus } from "@/types/daydream.types"
 import type { RefObject } from "react"
 
@@ -35,6 +37,9 @@ export interface CinemaState {
   retryVideo: () => void
   resetControlsTimer: () => void
   hideControlsImmediately: () => void
+  /** Scene requested by a confirmed MetaDJai proposal (consumed by the overlay) */
+  sceneRequest: SceneId | null
+  onSceneRequestHandled: () => void
   // Dream state
   dream: {
     status: DaydreamStatus
@@ -50,6 +55,9 @@ export interface CinemaState {
     setPresentation: (next: DaydreamPresentation) => void
     promptBase: string
     setPromptBase: (next: string) => void
+    promptDirector: UseDreamPromptDirectorReturn
+    /** Composed prompt currently requested (logged for clip sidecars) */
+    prompt: string
     // null = unknown, true = PATCH works, false = changes require restart
     patchSupported: boolean | null
   }
@@ -0,0 +1,24 @@
+/**
+ * Cinema Visualizer Type Definitions
+ *
+ * Types for user-authored visualizer presets. Parameter value types are
+ * derived from the per-visualizer schema in lib/visualizers/params.
+ */
+
+import type { VisualizerId } from "@/data/scenes"
+import type { VisualizerParams } from "@/lib/visualizers/params"
+
+/**
+ * A saved visualizer tuning: a built-in visualizer scene plus parameter values
+ */
+export interface VisualizerPreset {
+  id: string
+  /** Display name */
+  name: string
+  /** Built-in visualizer scene the preset starts from */
+  sceneId: VisualizerId
+  /** Values for the scene's visualizer (resolved against its schema) */
+  params: VisualizerParams
+  /** ISO timestamp */
+  createdAt: string
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { getStreamBackend } from "@/app/api/daydream/backends"
+import { daydreamBackend } from "@/app/api/daydream/backends/daydream"
+import { mockBackend, resetMockStreams } from "@/app/api/daydream/backends/mock"
+import { MOCK_STREAM_WARMUP_MS, buildMockWhipUrl } from "@/lib/daydream/mock-stream"
+import type { CreateStreamPayload } from "@/lib/daydream/schemas"
+
+const originalEnv = { ...process.env }
+
+const createPayload = {
+  pipeline: "streamdiffusion",
+  params: { model_id: "stabilityai/sd-turbo", prompt: "androgynous cartoon magical dj", seed: 42 },
+} as unknown as CreateStreamPayload
+
+describe("getStreamBackend", () => {
+  afterEach(() => {
+    process.env = { ...originalEnv }
+  })
+
+  it("defaults to Daydream", () => {
+    delete process.env.DAYDREAM_BACKEND
+    expect(getStreamBackend()).toBe(daydreamBackend)
+  })
+
+  it("selects the mock backend outside production", () => {
+    process.env.DAYDREAM_BACKEND = "mock"
+    expect(getStreamBackend()).toBe(mockBackend)
+  })
+
+  it("never uses the mock backend in production", () => {
+    process.env.DAYDREAM_BACKEND = "mock"
+    ;(process.env as Record<string, string>).NODE_ENV = "production"
+    expect(getStreamBackend()).toBe(daydreamBackend)
+  })
+})
+
+describe("mock stream backend", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    resetMockStreams()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("creates streams with mock WHIP and playback URLs", async () => {
+    const response = await mockBackend.createStream(createPayload)
+    const body = await response.json()
+
+    expect(response.ok).toBe(true)
+    expect(body.id).toMatch(/^mock_/)
+    expect(body.whip_url).toBe(buildMockWhipUrl(body.id))
+    expect(body.playback_url).toBe(body.whip_url)
+  })
+
+  it("reports initializing during warm-up, then active", async () => {
+    const { id } = await (await mockBackend.createStream(createPayload)).json()
+
+    const warming = await (await mockBackend.getStreamStatus(id)).json()
+    expect(warming.data.status).toBe("initializing")
+
+    vi.advanceTimersByTime(MOCK_STREAM_WARMUP_MS)
+    const active = await (await mockBackend.getStreamStatus(id)).json()
+    expect(active.data.status).toBe("active")
+    expect(active.data.prompt).toBe("androgynous cartoon magical dj")
+  })
+
+  it("rejects parameter updates until the stream is ready", async () => {
+    const { id } = await (await mockBackend.createStream(createPayload)).json()
+    const update = { pipeline: "streamdiffusion", params: { prompt: "female neon dj", seed: 43 } }
+
+    const early = await mockBackend.updateStreamParameters(id, update)
+    expect(early.status).toBe(404)
+    await expect(early.text()).resolves.toContain("not ready")
+
+    vi.advanceTimersByTime(MOCK_STREAM_WARMUP_MS)
+    const applied = await mockBackend.updateStreamParameters(id, update)
+    expect(applied.status).toBe(200)
+
+    const status = await (await mockBackend.getStreamStatus(id)).json()
+    expect(status.data).toMatchObject({ prompt: "female neon dj", seed: 43, updates: 1 })
+  })
+
+  it("forgets ended streams", async () => {
+    const { id } = await (await mockBackend.createStream(createPayload)).json()
+
+    expect((await mockBackend.endStream(id)).status).toBe(200)
+    expect((await mockBackend.getStreamStatus(id)).status).toBe(404)
+    expect((await mockBackend.endStream(id)).status).toBe(404)
+  })
+
+  it("leaves WHIP offers to the in-page mock server", async () => {
+    const response = await mockBackend.forwardWhip({
+      method: "POST",
+      streamId: "mock_1",
+      resource: buildMockWhipUrl("mock_1"),
+      body: "v=0",
+      origin: "http://localhost",
+    })
+    expect(response.status).toBe(501)
+  })
+})
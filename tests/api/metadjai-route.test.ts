@@ -25,6 +25,15 @@ vi.mock("@/lib/ai/rate-limiter", () => ({
   RATE_LIMIT_WINDOW_MS: 300_000,
 }))
 
+vi.mock("@/lib/ai/quota-tracking", () => ({
+  getSessionAiQuota: vi.fn().mockResolvedValue(null),
+  recordUserAiUsage: vi.fn(),
+}))
+
+vi.mock("@/lib/ai/usage-recording", () => ({
+  recordAiRequest: vi.fn(),
+}))
+
 vi.mock("@/lib/logger", () => ({
   logger: {
     info: vi.fn(),
@@ -74,6 +74,11 @@ vi.mock('@/lib/playlists/repository', () => ({
   findPlaylistById: vi.fn(),
 }));
 
+// Mock auth (signed out, so PlaylistProvider stays local-only)
+vi.mock('@/contexts/AuthContext', () => ({
+  useAuth: () => ({ user: null, isAuthenticated: false, isLoading: false }),
+}));
+
 // Mock tracks
 vi.mock('@/lib/music', () => ({
   tracks: [],
@@ -0,0 +1,47 @@
+import { test, expect, type Page } from '@playwright/test';
+import { seedDefaultUiState, waitForMainContent } from './test-helpers';
+
+// Runs the full Dream flow (idle → countdown → connecting → streaming → idle)
+// against the mock backend (DAYDREAM_BACKEND=mock) and the in-page WHIP server.
+test.skip(
+  ({ browserName, isMobile }) => browserName !== 'chromium' || isMobile,
+  'Needs the fake camera flags configured for desktop Chromium'
+);
+
+async function openCinema(page: Page) {
+  const desktopToggle = page.locator('#tour-nav-cinema:visible');
+  if (await desktopToggle.count()) {
+    await desktopToggle.first().click({ force: true });
+  } else {
+    const viewDropdown = page.getByRole('button', { name: /Current view:/i });
+    await viewDropdown.first().click({ force: true });
+    await page.getByRole('option', { name: 'Cinema' }).click({ force: true });
+  }
+  await expect(page.locator('[aria-labelledby="cinema-console-heading"]:visible')).toBeVisible();
+}
+
+test('dream streams through the mock backend', async ({ page }) => {
+  test.setTimeout(120_000);
+
+  const config = await (await page.request.get('/api/daydream/config')).json();
+  test.skip(config.backend !== 'mock', 'Dev server is not running the mock Dream backend');
+
+  await seedDefaultUiState(page);
+  await page.goto('/');
+  await waitForMainContent(page);
+  await openCinema(page);
+
+  await page.getByRole('button', { name: /^Dream$/ }).first().click({ force: true });
+  await expect(page.getByRole('button', { name: /^Stop$/ }).first()).toBeVisible();
+
+  // The overlay appears once the warm-up countdown ends and the stream is active
+  const dreamVisual = page.locator('video[aria-label="Dream Visual"]');
+  await expect(dreamVisual).toBeVisible({ timeout: 60_000 });
+  await expect
+    .poll(() => dreamVisual.evaluate((video: HTMLVideoElement) => video.videoWidth), { timeout: 20_000 })
+    .toBeGreaterThan(0);
+
+  await page.getByRole('button', { name: /^Stop$/ }).first().click({ force: true });
+  await expect(page.getByRole('button', { name: /^Dream$/ }).first()).toBeVisible();
+  await expect(dreamVisual).toHaveCount(0);
+});
@@ -71,13 +71,17 @@ const createMockQueueContext = (overrides?: Partial<QueueContextValue>): QueueCo
   persistenceMetadata: null,
   isHydrated: true,
   isShuffleEnabled: false,
+  isDjOrderEnabled: false,
   repeatMode: 'none',
   setQueue: vi.fn(),
   updatePersistenceMetadata: vi.fn(),
   setQueueContext: vi.fn(),
+  playbackSource: { type: 'queue' },
+  setPlaybackSource: vi.fn(),
   setManualTrackIds: vi.fn(),
   setAutoQueue: vi.fn(),
   setIsShuffleEnabled: vi.fn(),
+  setIsDjOrderEnabled: vi.fn(),
   setRepeatMode: vi.fn(),
   ...overrides,
 });
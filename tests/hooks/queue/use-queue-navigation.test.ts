@@ -119,13 +119,17 @@ const createMockQueueContext = (overrides?: Partial<QueueContextValue>): QueueCo
   persistenceMetadata: null,
   isHydrated: true,
   isShuffleEnabled: false,
+  isDjOrderEnabled: false,
   repeatMode: 'none',
   setQueue: vi.fn(),
   updatePersistenceMetadata: vi.fn(),
   setQueueContext: vi.fn(),
+  playbackSource: { type: 'queue' },
+  setPlaybackSource: vi.fn(),
   setManualTrackIds: vi.fn(),
   setAutoQueue: vi.fn(),
   setIsShuffleEnabled: vi.fn(),
+  setIsDjOrderEnabled: vi.fn(),
   setRepeatMode: vi.fn(),
   ...overrides,
 });
@@ -743,6 +747,68 @@ describe('useQueueNavigation Hook', () => {
     });
   });
 
+  describe('handleDjOrderToggle', () => {
+    it('enables DJ order, turns shuffle off, and rebuilds the queue', () => {
+      mockQueue.isDjOrderEnabled = false;
+      mockQueue.isShuffleEnabled = true;
+      mockPlayer.currentTrack = mockTracks[1];
+
+      const { result } = renderHook(() =>
+        useQueueNavigation({
+          player: mockPlayer,
+          queue: mockQueue,
+          ui: mockUI,
+          collectionTracks: mockTracks,
+          searchResults: [],
+          allTracks: mockTracks,
+          filteredSearchResults: [],
+          commitQueue: mockCommitQueue,
+        })
+      );
+
+      act(() => {
+        result.current.handleDjOrderToggle();
+      });
+
+      expect(mockQueue.setIsDjOrderEnabled).toHaveBeenCalledWith(true);
+      expect(mockQueue.setIsShuffleEnabled).toHaveBeenCalledWith(false);
+      expect(mockCommitQueue).toHaveBeenCalledWith(
+        mockTracks,
+        mockQueue.manualTrackIds,
+        expect.objectContaining({ anchorTrackId: 'track-2', preserveCurrent: true, djOrder: true })
+      );
+    });
+
+    it('disables DJ order and restores canonical order', () => {
+      mockQueue.isDjOrderEnabled = true;
+
+      const { result } = renderHook(() =>
+        useQueueNavigation({
+          player: mockPlayer,
+          queue: mockQueue,
+          ui: mockUI,
+          collectionTracks: mockTracks,
+          searchResults: [],
+          allTracks: mockTracks,
+          filteredSearchResults: [],
+          commitQueue: mockCommitQueue,
+        })
+      );
+
+      act(() => {
+        result.current.handleDjOrderToggle();
+      });
+
+      expect(mockQueue.setIsDjOrderEnabled).toHaveBeenCalledWith(false);
+      expect(mockQueue.setIsShuffleEnabled).not.toHaveBeenCalled();
+      expect(mockCommitQueue).toHaveBeenCalledWith(
+        mockTracks,
+        expect.any(Array),
+        expect.objectContaining({ djOrder: false })
+      );
+    });
+  });
+
   describe('handleRepeatToggle', () => {
     it('cycles from none to track', () => {
       mockQueue.repeatMode = 'none';
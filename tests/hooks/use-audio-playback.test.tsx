@@ -0,0 +1,149 @@
+/**
+ * Audio Playback Hook Tests
+ *
+ * Covers the gapless handoff: the primary element picks up the next track
+ * from the secondary element silently, and only fades in once it is in sync.
+ */
+
+import { useState } from 'react'
+import { act, render } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { useAudioPlayback } from '@/hooks/audio/use-audio-playback'
+import type { Track } from '@/types'
+
+vi.mock('@/lib/analytics', () => ({
+  trackActivationFirstPlay: vi.fn(),
+  trackTrackPlayed: vi.fn(),
+  trackTrackCompleted: vi.fn(),
+  trackTrackSkipped: vi.fn(),
+  trackPlaybackControl: vi.fn(),
+  calculatePercentagePlayed: vi.fn(() => 0),
+}))
+
+vi.mock('@/lib/listening/remote', () => ({
+  reportListeningEvent: vi.fn(),
+}))
+
+interface MediaState {
+  paused: boolean
+  currentTime: number
+}
+
+const mediaState = new WeakMap<HTMLMediaElement, MediaState>()
+
+function getMediaState(element: HTMLMediaElement) {
+  let state = mediaState.get(element)
+  if (!state) {
+    state = { paused: true, currentTime: 0 }
+    mediaState.set(element, state)
+  }
+  return state
+}
+
+function createTrack(id: string): Track {
+  return {
+    id,
+    title: `Track ${id}`,
+    artist: 'MetaDJ',
+    collection: 'Test Collection',
+    duration: 200,
+    releaseDate: '2025-01-01',
+    audioUrl: `/api/audio/test/${id}.mp3`,
+    genres: ['Electronic'],
+  }
+}
+
+const firstTrack = createTrack('first')
+const secondTrack = createTrack('second')
+
+function fire(element: HTMLMediaElement, type: string) {
+  act(() => {
+    element.dispatchEvent(new Event(type))
+  })
+}
+
+describe('useAudioPlayback gapless handoff', () => {
+  const secondary = document.createElement('audio')
+
+  function Harness() {
+    const [track, setTrack] = useState<Track>(firstTrack)
+    const playback = useAudioPlayback({
+      track,
+      shouldPlay: true,
+      onNext: () => setTrack(secondTrack),
+      externalVolume: 0.8,
+      gaplessEnabled: true,
+      nextAudioRef: { current: secondary },
+      getNextTrackSource: () => ({ trackId: secondTrack.id, url: secondTrack.audioUrl }),
+    })
+    return <audio ref={playback.audioRef} />
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    const prototype = window.HTMLMediaElement.prototype
+    vi.spyOn(prototype, 'paused', 'get').mockImplementation(function (this: HTMLMediaElement) {
+      return getMediaState(this).paused
+    })
+    vi.spyOn(prototype, 'currentTime', 'get').mockImplementation(function (this: HTMLMediaElement) {
+      return getMediaState(this).currentTime
+    })
+    vi.spyOn(prototype, 'currentTime', 'set').mockImplementation(function (this: HTMLMediaElement, value: number) {
+      getMediaState(this).currentTime = value
+    })
+    vi.spyOn(prototype, 'readyState', 'get').mockReturnValue(4)
+    vi.spyOn(prototype, 'duration', 'get').mockReturnValue(200)
+    vi.spyOn(prototype, 'play').mockImplementation(function (this: HTMLMediaElement) {
+      getMediaState(this).paused = false
+      return Promise.resolve()
+    })
+    vi.spyOn(prototype, 'pause').mockImplementation(function (this: HTMLMediaElement) {
+      getMediaState(this).paused = true
+    })
+    vi.spyOn(prototype, 'load').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('keeps the primary element silent until the playing re-sync, then fades it in', async () => {
+    const { container } = render(<Harness />)
+    const audio = container.querySelector('audio') as HTMLAudioElement
+    expect(audio.paused).toBe(false)
+
+    // Playing near the end of the first track: the next track is primed on the secondary element
+    fire(audio, 'play')
+    fire(audio, 'durationchange')
+    audio.currentTime = 195
+    fire(audio, 'timeupdate')
+    expect(secondary.getAttribute('src')).toBe(secondTrack.audioUrl)
+
+    // Boundary: the secondary element carries the audio while the primary reloads the track
+    fire(audio, 'ended')
+    await act(async () => {})
+    expect(secondary.paused).toBe(false)
+    expect(audio.volume).toBe(0)
+
+    // The primary becoming playable (safePlay) must not un-silence it
+    audio.pause()
+    fire(audio, 'canplay')
+    expect(audio.paused).toBe(false)
+    expect(audio.volume).toBe(0)
+
+    // Re-sync on `playing`, then the overlap fade hands the audio to the primary
+    secondary.currentTime = 0.4
+    fire(audio, 'playing')
+    expect(audio.currentTime).toBe(0.4)
+    expect(audio.volume).toBe(0)
+
+    fire(audio, 'seeked')
+    act(() => {
+      vi.advanceTimersByTime(200)
+    })
+    expect(audio.volume).toBeCloseTo(0.8, 5)
+    expect(secondary.paused).toBe(true)
+    expect(secondary.getAttribute('src')).toBeNull()
+  })
+})
@@ -0,0 +1,91 @@
+/**
+ * Conversation context compaction tests
+ *
+ * Covers the summary boundary, when compaction triggers, how history is split, and summary prompts.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildCompactionPrompt,
+  dropSummarizedMessages,
+  normalizeConversationSummary,
+  shouldCompactConversation,
+  splitForCompaction,
+} from '@/lib/ai/context-compaction'
+import { MAX_CONVERSATION_SUMMARY_LENGTH, MAX_MESSAGE_HISTORY } from '@/lib/ai/limits'
+import type { MetaDjAiApiMessage } from '@/types/metadjai.types'
+
+function conversation(count: number, contentLength = 20): MetaDjAiApiMessage[] {
+  return Array.from({ length: count }, (_, index) => ({
+    id: `m${index}`,
+    role: index % 2 === 0 ? 'user' : 'assistant',
+    content: `${index}:`.padEnd(contentLength, 'x'),
+  }))
+}
+
+describe('dropSummarizedMessages', () => {
+  it('keeps only messages after the boundary', () => {
+    const messages = conversation(6)
+    expect(dropSummarizedMessages(messages, 'm3').map((message) => message.id)).toEqual(['m4', 'm5'])
+  })
+
+  it('keeps everything when the boundary is missing or unset', () => {
+    const messages = conversation(4)
+    expect(dropSummarizedMessages(messages, 'elsewhere')).toHaveLength(4)
+    expect(dropSummarizedMessages(messages, null)).toHaveLength(4)
+  })
+})
+
+describe('shouldCompactConversation', () => {
+  it('triggers once history would be truncated', () => {
+    expect(shouldCompactConversation(conversation(MAX_MESSAGE_HISTORY))).toBe(false)
+    expect(shouldCompactConversation(conversation(MAX_MESSAGE_HISTORY + 1))).toBe(true)
+  })
+
+  it('triggers when messages near the token budget', () => {
+    // 4 messages × 400 chars ≈ 400 tokens, budget 500 → warning at 400
+    expect(shouldCompactConversation(conversation(4, 400), 500)).toBe(true)
+    expect(shouldCompactConversation(conversation(4, 400), 1000)).toBe(false)
+  })
+})
+
+describe('splitForCompaction', () => {
+  it('keeps the most recent turns starting on a user message', () => {
+    const split = splitForCompaction(conversation(14), { keepRecent: 5 })
+
+    expect(split?.throughMessageId).toBe('m9')
+    expect(split?.older).toHaveLength(10)
+    expect(split?.recent.map((message) => message.id)).toEqual(['m10', 'm11', 'm12', 'm13'])
+  })
+
+  it('shrinks the kept window to half the budget', () => {
+    const split = splitForCompaction(conversation(8, 400), { keepRecent: 6, budget: 400 })
+
+    expect(split?.recent.map((message) => message.id)).toEqual(['m6', 'm7'])
+  })
+
+  it('returns null when there is nothing to summarize or no boundary ID', () => {
+    expect(splitForCompaction(conversation(2), { keepRecent: 6 })).toBeNull()
+
+    const withoutIds = conversation(10).map(({ role, content }) => ({ role, content }))
+    expect(splitForCompaction(withoutIds, { keepRecent: 2 })).toBeNull()
+  })
+})
+
+describe('compaction prompt', () => {
+  it('folds the previous summary in with labelled turns', () => {
+    const prompt = buildCompactionPrompt('Planning a sunrise set.', conversation(2))
+
+    expect(prompt).toContain('Previous summary:\nPlanning a sunrise set.')
+    expect(prompt).toContain('User: 0:')
+    expect(prompt).toContain('MetaDJai: 1:')
+    expect(buildCompactionPrompt(null, [])).toContain('(none)')
+  })
+
+  it('caps the stored summary length', () => {
+    const summary = normalizeConversationSummary(`  ${'a'.repeat(MAX_CONVERSATION_SUMMARY_LENGTH + 50)}  `)
+
+    expect(summary).toHaveLength(MAX_CONVERSATION_SUMMARY_LENGTH)
+    expect(summary.endsWith('…')).toBe(true)
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Knowledge vector index tests
+ *
+ * Covers sync caching: successful syncs are reused, failed syncs are not
+ * cached and are retried after the backoff.
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { KnowledgeChunk } from '@/lib/ai/knowledge-retrieval'
+
+vi.mock('server-only', () => ({}))
+
+vi.mock('@/lib/env', () => ({
+  getServerEnv: () => ({ OPENAI_API_KEY: 'test-key' }),
+}))
+
+vi.mock('@ai-sdk/openai', () => ({
+  createOpenAI: vi.fn(() => ({
+    embedding: (modelId: string) => ({ provider: 'openai', modelId }),
+  })),
+}))
+
+vi.mock('ai', () => ({
+  embed: vi.fn(async () => ({ embedding: [0.1, 0.2, 0.3] })),
+  embedMany: vi.fn(async ({ values }: { values: string[] }) => ({
+    embeddings: values.map(() => [0.1, 0.2, 0.3]),
+  })),
+  cosineSimilarity: vi.fn(() => 0.8),
+}))
+
+const storage = vi.hoisted(() => ({
+  getKnowledgeChunkHashes: vi.fn(),
+  upsertKnowledgeChunks: vi.fn(async () => undefined),
+  deleteKnowledgeChunksExcept: vi.fn(async () => 0),
+  getKnowledgeChunkEmbeddings: vi.fn(),
+}))
+
+vi.mock('../../../server/storage', () => storage)
+
+vi.mock('@/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}))
+
+const chunks = [
+  {
+    id: 'metadj:digital-jockey:0',
+    sourceType: 'knowledge',
+    category: 'metadj',
+    title: 'Digital Jockey',
+    text: 'MetaDJ is a Digital Jockey.',
+    contentHash: 'hash-1',
+    citation: { entryId: 'digital-jockey' },
+  },
+] as unknown as KnowledgeChunk[]
+
+async function loadIndex() {
+  vi.resetModules()
+  return import('@/lib/ai/knowledge-index')
+}
+
+describe('syncKnowledgeIndex', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    storage.getKnowledgeChunkHashes.mockReset().mockResolvedValue([])
+    storage.getKnowledgeChunkEmbeddings
+      .mockReset()
+      .mockResolvedValue([{ id: 'metadj:digital-jockey:0', embedding: [0.1, 0.2, 0.3] }])
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('reuses the vectors from a successful sync', async () => {
+    const { syncKnowledgeIndex } = await loadIndex()
+
+    const first = await syncKnowledgeIndex(chunks)
+    const second = await syncKnowledgeIndex(chunks)
+
+    expect(first.size).toBe(1)
+    expect(second).toBe(first)
+    expect(storage.getKnowledgeChunkHashes).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not cache a failed sync and retries after the backoff', async () => {
+    const { syncKnowledgeIndex } = await loadIndex()
+    storage.getKnowledgeChunkHashes.mockRejectedValueOnce(new Error('database unavailable'))
+
+    expect((await syncKnowledgeIndex(chunks)).size).toBe(0)
+
+    // Within the backoff: no retry, still BM25 only
+    expect((await syncKnowledgeIndex(chunks)).size).toBe(0)
+    expect(storage.getKnowledgeChunkHashes).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(60_000)
+    expect((await syncKnowledgeIndex(chunks)).size).toBe(1)
+    expect(storage.getKnowledgeChunkHashes).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Knowledge retrieval tests
+ *
+ * Covers chunking, content hashes, BM25 scoring, and hybrid ranking with citations.
+ */
+
+import { describe, expect, it } from 'vitest'
+import metadjKnowledge from '@/data/knowledge/metadj.json'
+import wisdomContent from '@/data/wisdom-content.json'
+import {
+  buildBm25Index,
+  buildKnowledgeChunks,
+  hashKnowledgeContent,
+  rankKnowledgeChunks,
+  scoreBm25,
+  splitIntoChunks,
+  tokenizeForSearch,
+  type KnowledgeCategory,
+} from '@/lib/ai/knowledge-retrieval'
+
+const categories: KnowledgeCategory[] = [
+  {
+    category: 'metadj',
+    title: 'MetaDJ',
+    description: 'Artist identity',
+    entries: [
+      {
+        id: 'digital-jockey',
+        title: 'Digital Jockey',
+        content: 'MetaDJ is a Digital Jockey who conducts music with AI.',
+        keywords: ['digital jockey', 'dj'],
+      },
+      {
+        id: 'collections',
+        title: 'Music Collections',
+        content: 'Majestic Ascent is the flagship collection of orchestral techno.',
+        keywords: ['collections'],
+        synonyms: ['albums'],
+      },
+    ],
+  },
+]
+
+const wisdom = {
+  thoughtsPosts: [
+    {
+      id: 'on-flow',
+      title: 'On Flow',
+      excerpt: 'Notes on creative flow.',
+      topics: ['Creativity'],
+      content: ['Flow arrives when the work is clear.'],
+    },
+  ],
+  guides: [],
+  reflections: [],
+}
+
+describe('splitIntoChunks', () => {
+  it('packs paragraphs up to the limit', () => {
+    expect(splitIntoChunks(['aaaa', 'bbbb', 'cccc'], 10)).toEqual(['aaaa\n\nbbbb', 'cccc'])
+  })
+
+  it('splits oversized paragraphs on sentences', () => {
+    const chunks = splitIntoChunks(['First sentence here. Second sentence here.'], 25)
+    expect(chunks).toEqual(['First sentence here.', 'Second sentence here.'])
+  })
+
+  it('never returns chunks over the limit', () => {
+    const chunks = splitIntoChunks(['x'.repeat(50)], 20)
+    expect(chunks.every((chunk) => chunk.length <= 20)).toBe(true)
+    expect(chunks.join('')).toBe('x'.repeat(50))
+  })
+})
+
+describe('buildKnowledgeChunks', () => {
+  it('chunks knowledge entries and Wisdom items with citations', () => {
+    const chunks = buildKnowledgeChunks(categories, wisdom)
+    expect(chunks.map((chunk) => chunk.id)).toEqual([
+      'metadj:digital-jockey:0',
+      'metadj:collections:0',
+      'wisdom:on-flow:0',
+    ])
+    expect(chunks[1].terms).toEqual(['collections', 'albums'])
+    expect(chunks[2].citation).toEqual({
+      entryId: 'on-flow',
+      title: 'On Flow',
+      category: 'wisdom',
+      href: '/wisdom/thoughts/on-flow',
+    })
+  })
+
+  it('hashes content so only changed chunks differ', () => {
+    const [before] = buildKnowledgeChunks(categories)
+    const edited = structuredClone(categories)
+    edited[0].entries[0].content = 'MetaDJ conducts music with AI.'
+    const [after] = buildKnowledgeChunks(edited)
+    const [, unchanged] = buildKnowledgeChunks(edited)
+
+    expect(before.contentHash).toBe(hashKnowledgeContent(before.title, before.text))
+    expect(after.contentHash).not.toBe(before.contentHash)
+    expect(unchanged.contentHash).toBe(buildKnowledgeChunks(categories)[1].contentHash)
+  })
+
+  it('covers the bundled knowledge and Wisdom content', () => {
+    const chunks = buildKnowledgeChunks([metadjKnowledge as KnowledgeCategory], wisdomContent)
+    const ids = new Set(chunks.map((chunk) => chunk.id))
+    expect(ids.size).toBe(chunks.length)
+    expect(chunks.some((chunk) => chunk.sourceType === 'wisdom')).toBe(true)
+  })
+})
+
+describe('BM25', () => {
+  const chunks = buildKnowledgeChunks(categories, wisdom)
+  const index = buildBm25Index(chunks)
+
+  it('drops stopwords and short tokens', () => {
+    expect(tokenizeForSearch('What is the Digital Jockey?')).toEqual(['digital', 'jockey'])
+  })
+
+  it('scores only chunks sharing a query term', () => {
+    const scores = scoreBm25(index, 'majestic albums')
+    expect([...scores.keys()]).toEqual(['metadj:collections:0'])
+  })
+
+  it('returns nothing for unknown terms', () => {
+    expect(scoreBm25(index, 'zzzz-unlikely').size).toBe(0)
+  })
+})
+
+describe('rankKnowledgeChunks', () => {
+  const chunks = buildKnowledgeChunks(categories, wisdom)
+  const index = buildBm25Index(chunks)
+
+  it('ranks by BM25 when no vectors exist', () => {
+    const ranked = rankKnowledgeChunks(chunks, scoreBm25(index, 'digital jockey'), new Map())
+    expect(ranked[0].chunk.citation.entryId).toBe('digital-jockey')
+    expect(ranked[0].score).toBe(1)
+  })
+
+  it('lets strong vector matches surface without keyword overlap', () => {
+    const ranked = rankKnowledgeChunks(
+      chunks,
+      scoreBm25(index, 'digital jockey'),
+      new Map([
+        ['wisdom:on-flow:0', 0.9],
+        ['metadj:collections:0', 0.1],
+      ])
+    )
+    expect(ranked.map((entry) => entry.chunk.id)).toEqual(['metadj:digital-jockey:0', 'wisdom:on-flow:0'])
+  })
+
+  it('honours the limit', () => {
+    const scores = new Map(chunks.map((chunk) => [chunk.id, 0.8]))
+    expect(rankKnowledgeChunks(chunks, new Map(), scores, { limit: 2 })).toHaveLength(2)
+  })
+})
@@ -0,0 +1,143 @@
+/**
+ * MetaDJai long-term memory tests
+ *
+ * Covers extraction transcripts, merging candidates into stored memories, and recall order.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_AI_MEMORY_LENGTH,
+  buildMemoryExtractionInstructions,
+  buildMemoryTranscript,
+  memoryExtractionSchema,
+  normalizeMemoryContent,
+  planMemoryChanges,
+  selectMemoriesForRecall,
+  type MemoryCandidate,
+} from '@/lib/ai/memories'
+import type { MetaDjAiMemory } from '@/types/metadjai.types'
+
+function memory(overrides: Partial<MetaDjAiMemory> & Pick<MetaDjAiMemory, 'id'>): MetaDjAiMemory {
+  return {
+    category: 'interest',
+    content: `Memory ${overrides.id}`,
+    sourceConversationId: null,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  }
+}
+
+function candidate(overrides: Partial<MemoryCandidate>): MemoryCandidate {
+  return { category: 'interest', content: 'Into modular synths', replacesId: null, ...overrides }
+}
+
+describe('buildMemoryTranscript', () => {
+  it('labels speakers and drops empty or system messages', () => {
+    const transcript = buildMemoryTranscript([
+      { role: 'system', content: 'hidden' },
+      { role: 'user', content: 'I am scoring a short film' },
+      { role: 'assistant', content: '  Love that.  ' },
+      { role: 'user', content: '   ' },
+    ])
+
+    expect(transcript).toBe('User: I am scoring a short film\n\nMetaDJai: Love that.')
+  })
+})
+
+describe('buildMemoryExtractionInstructions', () => {
+  it('lists known memories with their IDs', () => {
+    const instructions = buildMemoryExtractionInstructions([
+      memory({ id: 'mem_1', category: 'favorite-music', content: 'Loves Majestic Ascent' }),
+    ])
+
+    expect(instructions).toContain('- [mem_1] (favorite-music) Loves Majestic Ascent')
+  })
+})
+
+describe('memoryExtractionSchema', () => {
+  it('rejects unknown categories', () => {
+    const result = memoryExtractionSchema.safeParse({
+      memories: [{ category: 'password', content: 'secret', replacesId: null }],
+    })
+
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('normalizeMemoryContent', () => {
+  it('collapses whitespace and caps length', () => {
+    expect(normalizeMemoryContent('  Loves   late-night\nsets ')).toBe('Loves late-night sets')
+    expect(normalizeMemoryContent('a'.repeat(500))).toHaveLength(MAX_AI_MEMORY_LENGTH)
+  })
+})
+
+describe('planMemoryChanges', () => {
+  it('creates new memories and skips near-duplicates', () => {
+    const plan = planMemoryChanges(
+      [memory({ id: 'mem_1', content: 'Into modular synths' })],
+      [
+        candidate({ content: 'into modular synths!' }),
+        candidate({ category: 'creative-project', content: 'Finishing a debut EP' }),
+        candidate({ category: 'creative-project', content: 'Finishing a debut EP.' }),
+      ]
+    )
+
+    expect(plan.create).toEqual([{ category: 'creative-project', content: 'Finishing a debut EP' }])
+    expect(plan.update).toEqual([])
+    expect(plan.deleteIds).toEqual([])
+  })
+
+  it('updates the memory named by replacesId', () => {
+    const plan = planMemoryChanges(
+      [memory({ id: 'mem_1', category: 'creative-project', content: 'Starting a debut EP' })],
+      [candidate({ category: 'creative-project', content: 'Released the debut EP', replacesId: 'mem_1' })]
+    )
+
+    expect(plan.create).toEqual([])
+    expect(plan.update).toEqual([
+      { id: 'mem_1', category: 'creative-project', content: 'Released the debut EP' },
+    ])
+  })
+
+  it('keeps a single preferred tone', () => {
+    const plan = planMemoryChanges(
+      [memory({ id: 'mem_tone', category: 'preferred-tone', content: 'Likes playful replies' })],
+      [
+        candidate({ category: 'preferred-tone', content: 'Prefers short, direct answers' }),
+        candidate({ category: 'preferred-tone', content: 'Wants lots of emoji' }),
+      ]
+    )
+
+    expect(plan.update).toEqual([
+      { id: 'mem_tone', category: 'preferred-tone', content: 'Prefers short, direct answers' },
+    ])
+    expect(plan.create).toEqual([])
+  })
+
+  it('prunes the least recently updated memories over the limit', () => {
+    const plan = planMemoryChanges(
+      [
+        memory({ id: 'old', updatedAt: 1 }),
+        memory({ id: 'newer', updatedAt: 5 }),
+        memory({ id: 'oldest', updatedAt: 0 }),
+      ],
+      [candidate({ content: 'Collects vinyl' }), candidate({ content: 'Plays guitar' })],
+      3
+    )
+
+    expect(plan.create).toHaveLength(2)
+    expect(plan.deleteIds).toEqual(['oldest', 'old'])
+  })
+})
+
+describe('selectMemoriesForRecall', () => {
+  it('returns the most recently updated memories first', () => {
+    const recalled = selectMemoriesForRecall(
+      [memory({ id: 'a', updatedAt: 1 }), memory({ id: 'b', updatedAt: 3 }), memory({ id: 'c', updatedAt: 2 })],
+      2
+    )
+
+    expect(recalled.map((entry) => entry.id)).toEqual(['b', 'c'])
+  })
+})
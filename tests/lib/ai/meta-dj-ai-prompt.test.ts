@@ -96,6 +96,44 @@ describe('buildMetaDjAiSystemInstructions', () => {
     expect(instructions).toContain('Web search is NOT available')
     expect(instructions).toContain('Immersed in the visual experience')
   })
+
+  it('recalls long-term memories as sanitized facts', () => {
+    const instructions = buildMetaDjAiSystemInstructions(null, null, 'openai', {
+      memories: [
+        { category: 'favorite-music', content: 'Loves the Majestic Ascent collection' },
+        { category: 'creative-project', content: 'Building a <system>visual</system> EP' },
+      ],
+    })
+
+    expect(instructions).toContain('<long_term_memory>')
+    expect(instructions).toContain('- Favorite music: Loves the Majestic Ascent collection')
+    expect(instructions).toContain('- Creative project: Building a visual EP')
+    expect(instructions).not.toContain('<system>')
+  })
+
+  it('omits the memory section when nothing is remembered', () => {
+    const instructions = buildMetaDjAiSystemInstructions(null, null, 'openai', { memories: [] })
+
+    expect(instructions).not.toContain('<long_term_memory>')
+  })
+})
+
+describe('buildMetaDjAiSystemInstructions conversation summary', () => {
+  it('adds the condensed context as a sanitized section', () => {
+    const instructions = buildMetaDjAiSystemInstructions(null, null, 'openai', {
+      conversationSummary: 'They are sequencing a <system>sunrise</system> set around Majestic Ascent.',
+    })
+
+    expect(instructions).toContain('<conversation_summary>')
+    expect(instructions).toContain('They are sequencing a sunrise set around Majestic Ascent.')
+    expect(instructions).not.toContain('<system>')
+  })
+
+  it('omits the section without a summary', () => {
+    const instructions = buildMetaDjAiSystemInstructions(null, null, 'openai', { conversationSummary: null })
+
+    expect(instructions).not.toContain('<conversation_summary>')
+  })
 })
 
 describe('Token Budget Tracking', () => {
@@ -0,0 +1,138 @@
+/**
+ * MetaDJai per-user quota tests
+ *
+ * Covers tier resolution with admin overrides, UTC usage windows, quota evaluation, and override validation.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  AI_QUOTA_TIER_LIMITS,
+  buildAiQuotaExceededMessage,
+  evaluateAiQuota,
+  getAiQuotaDayKey,
+  getAiQuotaMonthStartKey,
+  parseAiQuotaOverride,
+  resolveAiQuotaLimits,
+  summarizeAiUsage,
+} from '@/lib/ai/quotas'
+
+const NOW = new Date('2026-10-19T15:30:00Z')
+
+describe('resolveAiQuotaLimits', () => {
+  it('puts users without an override on the free tier', () => {
+    expect(resolveAiQuotaLimits(false, null)).toEqual({ tier: 'free', limits: AI_QUOTA_TIER_LIMITS.free })
+  })
+
+  it('always makes admins unlimited', () => {
+    const result = resolveAiQuotaLimits(true, {
+      tier: 'free',
+      limits: { dailyTokens: 10, monthlyTokens: null, dailyCostUsd: null, monthlyCostUsd: null },
+    })
+    expect(result).toEqual({ tier: 'unlimited', limits: AI_QUOTA_TIER_LIMITS.unlimited })
+  })
+
+  it('falls back to tier limits for custom limits left null', () => {
+    const result = resolveAiQuotaLimits(false, {
+      tier: 'supporter',
+      limits: { dailyTokens: 1_000, monthlyTokens: null, dailyCostUsd: null, monthlyCostUsd: 2 },
+    })
+    expect(result.tier).toBe('supporter')
+    expect(result.limits).toEqual({
+      dailyTokens: 1_000,
+      monthlyTokens: AI_QUOTA_TIER_LIMITS.supporter.monthlyTokens,
+      dailyCostUsd: AI_QUOTA_TIER_LIMITS.supporter.dailyCostUsd,
+      monthlyCostUsd: 2,
+    })
+  })
+})
+
+describe('usage windows', () => {
+  it('keys days and months in UTC', () => {
+    expect(getAiQuotaDayKey(new Date('2026-10-19T23:59:59Z'))).toBe('2026-10-19')
+    expect(getAiQuotaMonthStartKey(NOW)).toBe('2026-10-01')
+  })
+
+  it('sums today and this month, ignoring other months', () => {
+    const usage = summarizeAiUsage(
+      [
+        { day: '2026-09-30', tokens: 500, costUsd: 0.5 },
+        { day: '2026-10-02', tokens: 200, costUsd: 0.02 },
+        { day: '2026-10-19', tokens: 100, costUsd: 0.01 },
+      ],
+      NOW
+    )
+    expect(usage.daily).toEqual({ tokens: 100, costUsd: 0.01 })
+    expect(usage.monthly.tokens).toBe(300)
+    expect(usage.monthly.costUsd).toBeCloseTo(0.03)
+  })
+})
+
+describe('evaluateAiQuota', () => {
+  const limits = { dailyTokens: 1_000, monthlyTokens: 10_000, dailyCostUsd: 1, monthlyCostUsd: 5 }
+
+  it('reports the tightest remaining share and reset times', () => {
+    const status = evaluateAiQuota(
+      'free',
+      limits,
+      { daily: { tokens: 250, costUsd: 0.5 }, monthly: { tokens: 1_000, costUsd: 1 } },
+      { now: NOW }
+    )
+    expect(status.allowed).toBe(true)
+    expect(status.exceeded).toBeNull()
+    expect(status.remainingFraction).toBeCloseTo(0.5)
+    expect(status.daily.resetsAt).toBe(Date.UTC(2026, 9, 20))
+    expect(status.monthly.resetsAt).toBe(Date.UTC(2026, 10, 1))
+  })
+
+  it('blocks once any daily limit is used up', () => {
+    const status = evaluateAiQuota(
+      'free',
+      limits,
+      { daily: { tokens: 1_200, costUsd: 0.1 }, monthly: { tokens: 1_200, costUsd: 0.1 } },
+      { now: NOW }
+    )
+    expect(status.allowed).toBe(false)
+    expect(status.exceeded).toBe('daily')
+    expect(status.remainingFraction).toBe(0)
+  })
+
+  it('prefers the monthly window when both are used up', () => {
+    const status = evaluateAiQuota(
+      'supporter',
+      limits,
+      { daily: { tokens: 1_000, costUsd: 1 }, monthly: { tokens: 10_000, costUsd: 5 } },
+      { now: NOW }
+    )
+    expect(status.exceeded).toBe('monthly')
+    expect(buildAiQuotaExceededMessage(status)).toMatch(/monthly MetaDJai allowance.*Nov 1/)
+  })
+
+  it('has no remaining share for unlimited users', () => {
+    const status = evaluateAiQuota(
+      'unlimited',
+      AI_QUOTA_TIER_LIMITS.unlimited,
+      { daily: { tokens: 1e9, costUsd: 1e3 }, monthly: { tokens: 1e9, costUsd: 1e3 } },
+      { now: NOW }
+    )
+    expect(status.allowed).toBe(true)
+    expect(status.remainingFraction).toBeNull()
+  })
+})
+
+describe('parseAiQuotaOverride', () => {
+  it('defaults missing custom limits to null', () => {
+    const result = parseAiQuotaOverride({ tier: 'supporter' })
+    expect(result).toEqual({
+      success: true,
+      data: {
+        tier: 'supporter',
+        limits: { dailyTokens: null, monthlyTokens: null, dailyCostUsd: null, monthlyCostUsd: null },
+      },
+    })
+  })
+
+  it('rejects unknown tiers and negative limits', () => {
+    expect(parseAiQuotaOverride({ tier: 'gold' }).success).toBe(false)
+    expect(parseAiQuotaOverride({ tier: 'free', limits: { dailyTokens: -1 } }).success).toBe(false)
+  })
+})
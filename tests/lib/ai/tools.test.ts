@@ -5,6 +5,9 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import wisdomContent from '@/data/wisdom-content.json'
 import { trackList, collectionList } from '@/lib/music/data'
+import type { Collection, Track } from '@/types'
+
+vi.mock('server-only', () => ({}))
 
 vi.mock('@ai-sdk/openai', () => ({
   createOpenAI: vi.fn(() => {
@@ -27,6 +30,27 @@ vi.mock('ai', () => ({
   cosineSimilarity: vi.fn(() => 0.8),
 }))
 
+// Knowledge vector index persistence (no database in unit tests)
+vi.mock('../../../server/storage', () => ({
+  getKnowledgeChunkHashes: vi.fn(async () => []),
+  upsertKnowledgeChunks: vi.fn(async () => undefined),
+  deleteKnowledgeChunksExcept: vi.fn(async () => 0),
+  getKnowledgeChunkEmbeddings: vi.fn(async () => []),
+}))
+
+// Database catalog (MUSIC_CATALOG_SOURCE=database)
+const databaseCatalog = vi.hoisted(() => ({
+  tracks: [] as Track[],
+  collections: [] as Collection[],
+}))
+
+vi.mock('@/lib/music/db-repository', () => ({
+  getDatabaseMusicRepository: () => ({
+    listTracks: async () => databaseCatalog.tracks,
+    listCollections: async () => databaseCatalog.collections,
+  }),
+}))
+
 vi.mock('@/lib/logger', () => ({
   logger: {
     debug: vi.fn(),
@@ -91,6 +115,22 @@ describe('ai/tools', () => {
     expect(result[0].kind).toBe('track')
   })
 
+  it('resolves tracks that only exist in the database catalog', async () => {
+    const curatedTrack = { ...trackList[0], id: 'curated-release', title: 'Curated Release' }
+    databaseCatalog.tracks = [...trackList, curatedTrack]
+    databaseCatalog.collections = collectionList
+    const { proposeQueueSet, searchCatalog } = await loadTools({
+      OPENAI_API_KEY: undefined,
+      MUSIC_CATALOG_SOURCE: 'database',
+    })
+
+    const queueSet = await proposeQueueSet.execute({ trackIds: ['curated-release'] })
+    expect(queueSet.trackIds).toEqual(['curated-release'])
+
+    const result = await searchCatalog.execute({ query: 'Curated Release', type: 'track' })
+    expect(result[0]).toMatchObject({ id: 'curated-release', kind: 'track' })
+  })
+
   it('returns platform help overview', async () => {
     const { getPlatformHelp } = await loadTools({ OPENAI_API_KEY: undefined })
     const result = await getPlatformHelp.execute({ feature: 'overview' })
@@ -179,6 +219,56 @@ describe('ai/tools', () => {
     expect(surface.type).toBe('ui')
   })
 
+  it('builds cinema, dream, and wisdom proposals', async () => {
+    const { proposeCinema, proposeDream, proposeWisdom } = await loadTools({ OPENAI_API_KEY: undefined })
+
+    const cinema = await proposeCinema.execute({ action: 'scene', scene: 'synthwave horizon' })
+    expect(cinema).toMatchObject({ type: 'cinema', sceneId: 'synthwave-horizon', sceneName: 'Synthwave Horizon' })
+
+    const missingScene = await proposeCinema.execute({ action: 'scene', scene: 'Nonexistent Scene' })
+    expect(missingScene.sceneId).toBeUndefined()
+    expect(missingScene.context).toContain("couldn't find")
+
+    const dream = await proposeDream.execute({ action: 'start', prompt: 'neon ocean' })
+    expect(dream).toMatchObject({ type: 'dream', action: 'start', prompt: 'neon ocean' })
+
+    const guide = wisdomContent.guides[0]
+    const wisdom = await proposeWisdom.execute({ query: guide.title, section: 'guides' })
+    expect(wisdom).toMatchObject({ type: 'wisdom', section: 'guides', id: guide.id, title: guide.title })
+
+    const missingEntry = await proposeWisdom.execute({ query: 'Nonexistent Entry' })
+    expect(missingEntry.id).toBeUndefined()
+  })
+
+  it('builds set plan proposals with segment targets', async () => {
+    const { proposeSetPlan } = await loadTools({ OPENAI_API_KEY: undefined })
+
+    const plan = await proposeSetPlan.execute({
+      totalMinutes: 30,
+      segments: [{ phase: 'peak', targetBpm: 130, trackTitles: ['Nonexistent Track'] }],
+    })
+    expect(plan).toMatchObject({ type: 'set-plan', action: 'build', totalMinutes: 30, approvalRequired: true })
+    expect(plan.segments.map((segment: { phase: string }) => segment.phase)).toEqual(['opening', 'build', 'peak', 'cooldown'])
+    expect(plan.segments[2].targetBpm).toBe(130)
+    expect(plan.name).toBe('30-minute set')
+
+    const catalogIds = new Set(trackList.map((track) => track.id))
+    const plannedIds = plan.segments.flatMap((segment: { trackIds: string[] }) => segment.trackIds)
+    expect(plannedIds.length).toBeGreaterThan(0)
+    expect(plannedIds.every((id: string) => catalogIds.has(id))).toBe(true)
+    expect(new Set(plannedIds).size).toBe(plannedIds.length)
+
+    const pinnedTrack = trackList[0]
+    const pinnedPlan = await proposeSetPlan.execute({
+      segments: [{ phase: 'cooldown', trackTitles: [pinnedTrack.title] }],
+    })
+    expect(pinnedPlan.segments[3].trackIds[0]).toBe(pinnedTrack.id)
+    expect(pinnedPlan.segments.slice(0, 3).flatMap((segment: { trackIds: string[] }) => segment.trackIds)).not.toContain(pinnedTrack.id)
+
+    const missingCollection = await proposeSetPlan.execute({ collection: 'Nonexistent Collection' })
+    expect(missingCollection.context).toContain("couldn't find")
+  })
+
   it('includes web_search tool only for openai when enabled', async () => {
     const { getTools } = await loadTools({ OPENAI_API_KEY: undefined })
 
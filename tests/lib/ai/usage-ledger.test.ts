@@ -0,0 +1,160 @@
+/**
+ * MetaDJai usage ledger tests
+ *
+ * Covers the admin AI dashboard summary built from SQL aggregates (cost breakdowns,
+ * p95 latency, failover rate, top tools) and CSV export.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  AI_USAGE_CSV_HEADER,
+  buildAiUsageCsvRows,
+  escapeCsvField,
+  summarizeAiUsageAggregates,
+  type AiUsageAggregates,
+  type AiUsageLedgerEntry,
+} from '@/lib/ai/usage-ledger'
+
+const NOW = new Date('2026-10-19T15:30:00Z')
+
+function entry(overrides: Partial<AiUsageLedgerEntry> = {}): AiUsageLedgerEntry {
+  return {
+    requestId: 'req_1',
+    route: 'stream',
+    userId: null,
+    provider: 'openai',
+    model: 'gpt-5.2-chat-latest',
+    inputTokens: 100,
+    outputTokens: 50,
+    totalTokens: 150,
+    costUsd: 0.01,
+    toolCalls: [],
+    latencyMs: 1000,
+    usedFallback: false,
+    success: true,
+    error: null,
+    createdAt: NOW,
+    ...overrides,
+  }
+}
+
+type ModelAggregate = AiUsageAggregates['byModel'][number]
+
+function modelRow(overrides: Partial<ModelAggregate> = {}): ModelAggregate {
+  return {
+    provider: 'openai',
+    model: 'gpt-5.2-chat-latest',
+    requests: 1,
+    costUsd: 0.01,
+    tokens: 150,
+    failedRequests: 0,
+    fallbackRequests: 0,
+    p95LatencyMs: 1000,
+    ...overrides,
+  }
+}
+
+function aggregates(overrides: Partial<AiUsageAggregates> = {}): AiUsageAggregates {
+  return { byDay: [], byModel: [], p95LatencyMs: null, toolCalls: [], ...overrides }
+}
+
+describe('summarizeAiUsageAggregates', () => {
+  it('totals cost and rates across models', () => {
+    const summary = summarizeAiUsageAggregates(
+      aggregates({
+        byModel: [
+          modelRow({ requests: 3, costUsd: 0.05, tokens: 300, failedRequests: 1 }),
+          modelRow({ provider: 'anthropic', model: 'claude-haiku-4-5', fallbackRequests: 1, p95LatencyMs: 2000 }),
+        ],
+        p95LatencyMs: 1940.6,
+      }),
+      { days: 7, now: NOW }
+    )
+
+    expect(summary.totals.requests).toBe(4)
+    expect(summary.totals.costUsd).toBeCloseTo(0.06)
+    expect(summary.totals.tokens).toBe(450)
+    expect(summary.totals.failedRequests).toBe(1)
+    expect(summary.totals.failoverRate).toBe(0.25)
+    expect(summary.totals.p95LatencyMs).toBe(1941)
+  })
+
+  it('fills every day in the window, oldest first', () => {
+    const summary = summarizeAiUsageAggregates(
+      aggregates({
+        byDay: [
+          { day: '2026-10-17', requests: 1, costUsd: 0.01, tokens: 150 },
+          { day: '2026-10-19', requests: 2, costUsd: 0.02, tokens: 300 },
+          { day: '2026-10-01', requests: 5, costUsd: 0.05, tokens: 750 },
+        ],
+      }),
+      { days: 3, now: NOW }
+    )
+    expect(summary.costByDay.map((row) => [row.day, row.requests])).toEqual([
+      ['2026-10-17', 1],
+      ['2026-10-18', 0],
+      ['2026-10-19', 2],
+    ])
+  })
+
+  it('rolls models up by provider, most expensive first', () => {
+    const summary = summarizeAiUsageAggregates(
+      aggregates({
+        byModel: [
+          modelRow({ costUsd: 0.01 }),
+          modelRow({ provider: 'google', model: 'gemini-3-flash-preview', costUsd: 0.05, fallbackRequests: 1 }),
+          modelRow({ model: 'gpt-5-mini', costUsd: 0.002, p95LatencyMs: null }),
+        ],
+      }),
+      { days: 1, now: NOW }
+    )
+
+    expect(summary.costByProvider.map((row) => [row.provider, row.requests, row.failoverRate])).toEqual([
+      ['google', 1, 1],
+      ['openai', 2, 0],
+    ])
+    expect(summary.costByModel.map((row) => [row.model, row.p95LatencyMs])).toEqual([
+      ['gemini-3-flash-preview', 1000],
+      ['gpt-5.2-chat-latest', 1000],
+      ['gpt-5-mini', null],
+    ])
+  })
+
+  it('keeps the ranked tool calls', () => {
+    const toolCalls = [
+      { name: 'searchCatalog', count: 2 },
+      { name: 'getWisdomContent', count: 1 },
+    ]
+    expect(summarizeAiUsageAggregates(aggregates({ toolCalls }), { days: 1, now: NOW }).topToolCalls).toEqual(toolCalls)
+  })
+
+  it('reports no rates without requests', () => {
+    const summary = summarizeAiUsageAggregates(aggregates(), { days: 1, now: NOW })
+    expect(summary.totals.failoverRate).toBeNull()
+    expect(summary.totals.p95LatencyMs).toBeNull()
+  })
+})
+
+describe('CSV export', () => {
+  it('writes a header and one line per request', () => {
+    expect(AI_USAGE_CSV_HEADER.trim().split(',')).toContain('latency_ms')
+
+    const csv = buildAiUsageCsvRows([
+      entry({ toolCalls: ['searchCatalog', 'web_search'], userId: 'user_1' }),
+      entry({ route: 'memory', requestId: null }),
+    ])
+    const [row, memoryRow] = csv.trim().split('\n')
+    expect(csv.endsWith('\n')).toBe(true)
+    expect(row).toContain('2026-10-19T15:30:00.000Z')
+    expect(row).toContain('searchCatalog;web_search')
+    expect(row).toContain('user_1')
+    expect(memoryRow.split(',')[2]).toBe('memory')
+  })
+
+  it('quotes delimiters and defuses spreadsheet formulas', () => {
+    expect(escapeCsvField('rate limited, retry "later"')).toBe('"rate limited, retry ""later"""')
+    expect(escapeCsvField('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`)
+    expect(escapeCsvField(null)).toBe('')
+    expect(escapeCsvField(-1)).toBe('-1')
+  })
+})
@@ -16,6 +16,7 @@ import {
   trackPlaybackControl,
   trackRepeatModeChanged,
   trackShuffleToggled,
+  trackDjOrderToggled,
   trackResumeQueue,
   trackSearchPerformed,
   trackSearchZeroResults,
@@ -203,6 +204,11 @@ describe('analytics', () => {
       expect(window.plausible).toHaveBeenCalledWith('shuffle_toggled', { props: { enabled: true } })
     })
 
+    it('tracks DJ order toggled', () => {
+      trackDjOrderToggled(false)
+      expect(window.plausible).toHaveBeenCalledWith('dj_order_toggled', { props: { enabled: false } })
+    })
+
     it('tracks resume queue', () => {
       trackResumeQueue()
       expect(window.plausible).toHaveBeenCalledWith('resume_queue', { props: undefined })
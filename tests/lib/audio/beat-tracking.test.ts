@@ -0,0 +1,226 @@
+/**
+ * Beat Tracking Tests
+ *
+ * Runs the pure tracker over PCM drum-loop fixtures (rendered deterministically
+ * below, plus a 16-bit WAV clip in `fixtures/` with annotated beat times) and
+ * checks tempo, beat alignment, downbeats, and the render helpers.
+ */
+
+import { readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, it, expect } from 'vitest'
+import {
+  EMPTY_BEAT_SNAPSHOT,
+  analyzeBeats,
+  computeMagnitudeSpectrum,
+  computeSpectralFlux,
+  createBeatTracker,
+  crossedBeat,
+  foldBpm,
+  getBeatPulse,
+  getDownbeatPulse,
+  isBeatLocked,
+  stepBeatTracker,
+} from '@/lib/audio/beat-tracking'
+import drumLoopBeats from './fixtures/drum-loop-124bpm.json'
+
+const SAMPLE_RATE = 22050
+
+function createRandom(seed: number) {
+  let value = seed
+  return () => {
+    value = (value * 1664525 + 1013904223) % 4294967296
+    return value / 4294967296 - 0.5
+  }
+}
+
+/**
+ * Four-on-the-floor loop: kick on every beat (louder with a crash on beat
+ * one), closed hats on the off-beats
+ */
+function renderDrumLoop(bpm: number, seconds: number, offsetSeconds = 0) {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE))
+  const random = createRandom(bpm)
+  const period = 60 / bpm
+
+  const addHit = (at: number, length: number, voice: (t: number) => number) => {
+    const start = Math.round(at * SAMPLE_RATE)
+    const end = Math.min(samples.length, start + Math.round(length * SAMPLE_RATE))
+    for (let i = start; i < end; i++) samples[i] += voice((i - start) / SAMPLE_RATE)
+  }
+
+  for (let beat = 0; offsetSeconds + beat * period < seconds; beat++) {
+    const at = offsetSeconds + beat * period
+    const downbeat = beat % 4 === 0
+    const level = downbeat ? 1 : 0.6
+    addHit(at, 0.25, (t) => level * Math.sin(2 * Math.PI * (50 + 90 * Math.exp(-t * 30)) * t) * Math.exp(-t * 14))
+    if (downbeat) addHit(at, 0.3, (t) => 0.35 * random() * Math.exp(-t * 10))
+    addHit(at + period / 2, 0.05, (t) => 0.12 * random() * Math.exp(-t * 90))
+  }
+  return samples
+}
+
+/**
+ * Mono 16-bit PCM from a WAV file, scaled to [-1, 1)
+ */
+function readWavFixture(name: string) {
+  const file = readFileSync(join(__dirname, 'fixtures', name))
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+  let sampleRate = 0
+  let offset = 12
+
+  while (offset + 8 <= view.byteLength) {
+    const id = file.toString('ascii', offset, offset + 4)
+    const size = view.getUint32(offset + 4, true)
+    if (id === 'fmt ') {
+      expect(view.getUint16(offset + 10, true)).toBe(1)
+      expect(view.getUint16(offset + 22, true)).toBe(16)
+      sampleRate = view.getUint32(offset + 12, true)
+    } else if (id === 'data') {
+      const samples = new Float32Array(size / 2)
+      for (let i = 0; i < samples.length; i++) samples[i] = view.getInt16(offset + 8 + i * 2, true) / 32768
+      return { samples, sampleRate }
+    }
+    offset += 8 + size + (size % 2)
+  }
+  throw new Error(`No PCM data in ${name}`)
+}
+
+function expectNear(times: number[], targets: number[], tolerance: number) {
+  for (const time of times) {
+    const distance = Math.min(...targets.map((target) => Math.abs(target - time)))
+    expect(distance).toBeLessThanOrEqual(tolerance)
+  }
+}
+
+describe('computeSpectralFlux', () => {
+  it('sums only rising bins', () => {
+    expect(computeSpectralFlux([1, 4, 2, 0], [3, 1, 2, 4])).toBe(1.5)
+    expect(computeSpectralFlux([3, 3], [1, 1])).toBe(0)
+  })
+})
+
+describe('computeMagnitudeSpectrum', () => {
+  it('peaks at the bin of a pure tone', () => {
+    const frame = Float32Array.from({ length: 256 }, (_, i) => Math.sin((2 * Math.PI * 16 * i) / 256))
+    const spectrum = computeMagnitudeSpectrum(frame)
+    expect(spectrum).toHaveLength(128)
+    expect(spectrum.indexOf(Math.max(...spectrum))).toBe(16)
+  })
+
+  it('rejects frames that are not a power of two', () => {
+    expect(() => computeMagnitudeSpectrum(new Float32Array(100))).toThrow()
+  })
+})
+
+describe('foldBpm', () => {
+  it('folds tempos into the tracked range', () => {
+    expect(foldBpm(64)).toBe(128)
+    expect(foldBpm(240)).toBe(120)
+    expect(foldBpm(0)).toBeNull()
+  })
+})
+
+describe('analyzeBeats', () => {
+  it('estimates tempo without a hint', () => {
+    const analysis = analyzeBeats(renderDrumLoop(128, 10), SAMPLE_RATE)
+    expect(analysis.bpm).not.toBeNull()
+    expect(Math.abs((analysis.bpm ?? 0) - 128)).toBeLessThan(2)
+  })
+
+  it('locks beats onto the kicks when seeded with the track BPM', () => {
+    const bpm = 96
+    const offset = 0.2
+    const analysis = analyzeBeats(renderDrumLoop(bpm, 10, offset), SAMPLE_RATE, { bpm })
+    const kicks = Array.from({ length: 16 }, (_, beat) => offset + beat * (60 / bpm))
+
+    expect(Math.abs((analysis.bpm ?? 0) - bpm)).toBeLessThan(1)
+    expectNear(analysis.beats.filter((time) => time > 2), kicks, 0.05)
+  })
+
+  it('places downbeats on the accented bar starts', () => {
+    const bpm = 120
+    const analysis = analyzeBeats(renderDrumLoop(bpm, 12), SAMPLE_RATE, { bpm })
+    const barStarts = Array.from({ length: 6 }, (_, bar) => bar * 2)
+
+    const settled = analysis.downbeats.filter((time) => time > 4)
+    expect(settled.length).toBeGreaterThanOrEqual(3)
+    expectNear(settled, barStarts, 0.05)
+  })
+
+  it('tracks the tempo and annotated beats of the WAV fixture', () => {
+    const { samples, sampleRate } = readWavFixture('drum-loop-124bpm.wav')
+    expect(sampleRate).toBe(drumLoopBeats.sampleRate)
+
+    const estimated = analyzeBeats(samples, sampleRate)
+    expect(Math.abs((estimated.bpm ?? 0) - drumLoopBeats.bpm)).toBeLessThan(2)
+
+    const seeded = analyzeBeats(samples, sampleRate, { bpm: drumLoopBeats.bpm })
+    const settled = seeded.beats.filter((time) => time > 2)
+    expect(settled.length).toBeGreaterThanOrEqual(6)
+    expectNear(settled, drumLoopBeats.beats, 0.05)
+  })
+
+  it('stays silent on silence', () => {
+    const analysis = analyzeBeats(new Float32Array(SAMPLE_RATE * 3), SAMPLE_RATE, { bpm: 120 })
+    expect(analysis.onsets).toEqual([])
+    expect(analysis.beats).toEqual([])
+  })
+})
+
+describe('stepBeatTracker', () => {
+  it('does not mutate the previous state', () => {
+    const state = createBeatTracker({ bpm: 120 })
+    const snapshot = JSON.stringify(state)
+    stepBeatTracker(state, 1, 0)
+    expect(JSON.stringify(state)).toBe(snapshot)
+  })
+
+  it('emits a beat on the first onset and phase events after it', () => {
+    let state = createBeatTracker({ bpm: 120 })
+    state = stepBeatTracker(state, 0, 0).state
+    const first = stepBeatTracker(state, 1, 0.02)
+    expect(first.onset).toBe(true)
+    expect(first.events.map((event) => event.type)).toEqual(['beat', 'downbeat', 'phase'])
+
+    const later = stepBeatTracker(first.state, 0, 0.27)
+    const phase = later.events.find((event) => event.type === 'phase')
+    expect(phase).toMatchObject({ type: 'phase', bpm: 120, beatInBar: 0 })
+    expect(phase?.type === 'phase' ? phase.phase : 0).toBeCloseTo(0.5, 5)
+  })
+})
+
+describe('getBeatPulse', () => {
+  it('peaks on the beat and scales with confidence', () => {
+    const onBeat = { bpm: 120, phase: 0, barPhase: 0, beatInBar: 0, confidence: 1 }
+    expect(getBeatPulse(onBeat)).toBe(1)
+    expect(getBeatPulse({ ...onBeat, phase: 0.5 })).toBeCloseTo(0.0625, 5)
+    expect(getBeatPulse({ ...onBeat, confidence: 0.2 })).toBeCloseTo(0.3, 5)
+    expect(getBeatPulse(EMPTY_BEAT_SNAPSHOT)).toBe(0)
+  })
+
+  it('limits the downbeat pulse to beat one', () => {
+    const snapshot = { bpm: 120, phase: 0, barPhase: 0.25, beatInBar: 1, confidence: 1 }
+    expect(getDownbeatPulse(snapshot)).toBe(0)
+    expect(getDownbeatPulse({ ...snapshot, beatInBar: 0 })).toBe(1)
+  })
+})
+
+describe('crossedBeat', () => {
+  it('detects the phase wrapping onto a new beat', () => {
+    const snapshot = { bpm: 120, phase: 0.05, barPhase: 0.26, beatInBar: 1, confidence: 1 }
+    expect(crossedBeat(0.97, snapshot)).toBe(true)
+    expect(crossedBeat(0.01, snapshot)).toBe(false)
+    expect(crossedBeat(0.97, EMPTY_BEAT_SNAPSHOT)).toBe(false)
+  })
+})
+
+describe('isBeatLocked', () => {
+  it('requires a running, confident beat clock', () => {
+    const snapshot = { bpm: 120, phase: 0.3, barPhase: 0.3, beatInBar: 1, confidence: 0.6 }
+    expect(isBeatLocked(snapshot)).toBe(true)
+    expect(isBeatLocked({ ...snapshot, confidence: 0.1 })).toBe(false)
+    expect(isBeatLocked(EMPTY_BEAT_SNAPSHOT)).toBe(false)
+    expect(isBeatLocked(undefined)).toBe(false)
+  })
+})
@@ -0,0 +1,61 @@
+/**
+ * Crossfade Settings Tests
+ *
+ * Tests crossfade length bounds, curve validation, and gain curves.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  CROSSFADE_CURVES,
+  getCrossfadeGains,
+  isCrossfadeCurve,
+  normalizeCrossfadeDuration,
+} from '@/lib/audio/crossfade'
+
+describe('normalizeCrossfadeDuration', () => {
+  it('clamps to 0–12 seconds', () => {
+    expect(normalizeCrossfadeDuration(-3)).toBe(0)
+    expect(normalizeCrossfadeDuration(30)).toBe(12)
+  })
+
+  it('rounds to the half-second slider step', () => {
+    expect(normalizeCrossfadeDuration(4.3)).toBe(4.5)
+    expect(normalizeCrossfadeDuration(4.2)).toBe(4)
+  })
+
+  it('returns null for non-numeric input', () => {
+    expect(normalizeCrossfadeDuration('5')).toBeNull()
+    expect(normalizeCrossfadeDuration(Number.NaN)).toBeNull()
+  })
+})
+
+describe('isCrossfadeCurve', () => {
+  it('accepts known curves only', () => {
+    expect(isCrossfadeCurve('equal-power')).toBe(true)
+    expect(isCrossfadeCurve('exponential')).toBe(false)
+    expect(isCrossfadeCurve(undefined)).toBe(false)
+  })
+})
+
+describe('getCrossfadeGains', () => {
+  it.each(CROSSFADE_CURVES)('%s starts on the outgoing track and ends on the incoming one', (curve) => {
+    expect(getCrossfadeGains(curve, 0).fadeOut).toBeCloseTo(1)
+    expect(getCrossfadeGains(curve, 0).fadeIn).toBeCloseTo(0)
+    expect(getCrossfadeGains(curve, 1).fadeOut).toBeCloseTo(0)
+    expect(getCrossfadeGains(curve, 1).fadeIn).toBeCloseTo(1)
+  })
+
+  it('keeps constant power at the midpoint for equal-power', () => {
+    const { fadeOut, fadeIn } = getCrossfadeGains('equal-power', 0.5)
+    expect(fadeOut ** 2 + fadeIn ** 2).toBeCloseTo(1)
+  })
+
+  it('holds the outgoing track longer with the S-curve than linear', () => {
+    expect(getCrossfadeGains('s-curve', 0.2).fadeOut).toBeGreaterThan(getCrossfadeGains('linear', 0.2).fadeOut)
+    expect(getCrossfadeGains('s-curve', 0.5).fadeIn).toBeCloseTo(0.5)
+  })
+
+  it('clamps progress outside 0–1', () => {
+    expect(getCrossfadeGains('linear', 1.5)).toEqual({ fadeOut: 0, fadeIn: 1 })
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * Loudness Normalization Tests
+ *
+ * Tests track/album gain computation, peak protection, and mode validation.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  LOUDNESS_PEAK_CEILING_DB,
+  MAX_NORMALIZATION_BOOST_DB,
+  dbToGain,
+  getCollectionLoudness,
+  getNormalizationGain,
+  getNormalizationGainDb,
+  isLoudnessNormalizationMode,
+} from '@/lib/audio/loudness'
+import type { Track } from '@/types'
+
+function makeTrack(overrides: Partial<Track> = {}): Track {
+  return {
+    id: 'track-1',
+    title: 'Track',
+    artist: 'MetaDJ',
+    collection: 'Night Drive',
+    duration: 200,
+    releaseDate: '2026-01-01',
+    audioUrl: '/api/audio/night-drive/track.mp3',
+    genres: ['Synthwave', 'Techno'],
+    ...overrides,
+  }
+}
+
+describe('isLoudnessNormalizationMode', () => {
+  it('accepts known modes only', () => {
+    expect(isLoudnessNormalizationMode('track')).toBe(true)
+    expect(isLoudnessNormalizationMode('album')).toBe(true)
+    expect(isLoudnessNormalizationMode('off')).toBe(true)
+    expect(isLoudnessNormalizationMode('replaygain')).toBe(false)
+    expect(isLoudnessNormalizationMode(undefined)).toBe(false)
+  })
+})
+
+describe('dbToGain', () => {
+  it('converts decibels to linear gain', () => {
+    expect(dbToGain(0)).toBe(1)
+    expect(dbToGain(-6)).toBeCloseTo(0.501, 3)
+    expect(dbToGain(20)).toBeCloseTo(10, 6)
+  })
+})
+
+describe('getNormalizationGainDb', () => {
+  it('levels a loud track down to the target', () => {
+    expect(getNormalizationGainDb({ loudnessLufs: -8, peakDb: -0.2 }, 'track')).toBe(-6)
+  })
+
+  it('limits boosts so the peak stays under the ceiling', () => {
+    // -20 LUFS wants +6 dB, but a -3 dBTP peak only leaves 2 dB of headroom
+    expect(getNormalizationGainDb({ loudnessLufs: -20, peakDb: -3 }, 'track'))
+      .toBe(LOUDNESS_PEAK_CEILING_DB + 3)
+  })
+
+  it('caps extreme boosts', () => {
+    expect(getNormalizationGainDb({ loudnessLufs: -60 }, 'track')).toBe(MAX_NORMALIZATION_BOOST_DB)
+  })
+
+  it('returns 0 dB when off or unanalysed', () => {
+    expect(getNormalizationGainDb({ loudnessLufs: -8 }, 'off')).toBe(0)
+    expect(getNormalizationGainDb({}, 'track')).toBe(0)
+    expect(getNormalizationGainDb(null, 'album')).toBe(0)
+  })
+
+  it('uses collection loudness in album mode and falls back to the track', () => {
+    const collection = { loudnessLufs: -10, peakDb: -0.5 }
+    expect(getNormalizationGainDb({ loudnessLufs: -16 }, 'album', collection)).toBe(-4)
+    expect(getNormalizationGainDb({ loudnessLufs: -16 }, 'album', null)).toBe(2)
+  })
+})
+
+describe('getCollectionLoudness', () => {
+  it('energy-averages loudness and keeps the loudest peak', () => {
+    const result = getCollectionLoudness([
+      makeTrack({ loudnessLufs: -10, peakDb: -1 }),
+      makeTrack({ loudnessLufs: -10, peakDb: -0.2 }),
+      makeTrack(),
+    ])
+
+    expect(result?.loudnessLufs).toBeCloseTo(-10, 6)
+    expect(result?.peakDb).toBe(-0.2)
+  })
+
+  it('weights louder tracks more than an arithmetic mean', () => {
+    const result = getCollectionLoudness([
+      makeTrack({ loudnessLufs: -8 }),
+      makeTrack({ loudnessLufs: -20 }),
+    ])
+
+    expect(result?.loudnessLufs).toBeGreaterThan(-14)
+    expect(result?.peakDb).toBeNull()
+  })
+
+  it('returns null without analysed tracks', () => {
+    expect(getCollectionLoudness([makeTrack()])).toBeNull()
+  })
+})
+
+describe('getNormalizationGain', () => {
+  const quiet = makeTrack({ id: 'quiet', loudnessLufs: -16, peakDb: -6 })
+  const loud = makeTrack({ id: 'loud', loudnessLufs: -8, peakDb: -0.1 })
+  const other = makeTrack({ id: 'other', collection: 'Other', loudnessLufs: -30, peakDb: -12 })
+
+  it('applies one gain to every track of a collection in album mode', () => {
+    const catalog = [quiet, loud, other]
+    expect(getNormalizationGain(quiet, 'album', catalog)).toBeCloseTo(getNormalizationGain(loud, 'album', catalog), 10)
+  })
+
+  it('levels each track on its own in track mode', () => {
+    expect(getNormalizationGain(quiet, 'track')).toBeGreaterThan(getNormalizationGain(loud, 'track'))
+  })
+
+  it('is unity when off or without a track', () => {
+    expect(getNormalizationGain(loud, 'off')).toBe(1)
+    expect(getNormalizationGain(null, 'track')).toBe(1)
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * Dream Audio-Reactive Prompt Tests
+ *
+ * Covers level averaging, weight quantization, energy-based seeds, and the weighted prompt list.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DREAM_REACTIVE_ACCENTS,
+  DREAM_REACTIVE_MAX_ACCENT_WEIGHT,
+  averageDreamAudioLevels,
+  buildDreamReactivePrompt,
+  computeDreamReactiveMix,
+  getDreamReactiveMixKey,
+} from '@/lib/daydream/audio-reactive'
+import { DEFAULT_STREAM_PAYLOAD, createPromptUpdatePayload } from '@/lib/daydream/config'
+
+describe('averageDreamAudioLevels', () => {
+  it('averages samples and clamps out-of-range levels', () => {
+    expect(
+      averageDreamAudioLevels([
+        { bass: 1, mid: 0.5, high: 0 },
+        { bass: 0, mid: 0.5, high: 2 },
+      ])
+    ).toEqual({ bass: 0.5, mid: 0.5, high: 0.5 })
+  })
+
+  it('treats an empty window as silence', () => {
+    expect(averageDreamAudioLevels([])).toEqual({ bass: 0, mid: 0, high: 0 })
+  })
+})
+
+describe('computeDreamReactiveMix', () => {
+  it('keeps the stream seed and zero weights in silence', () => {
+    expect(computeDreamReactiveMix({ bass: 0, mid: 0, high: 0 })).toEqual({
+      weights: { bass: 0, mid: 0, high: 0 },
+      seed: DEFAULT_STREAM_PAYLOAD.params.seed,
+    })
+  })
+
+  it('scales accents up to the max weight at full level', () => {
+    const mix = computeDreamReactiveMix({ bass: 1, mid: 1, high: 1 })
+    expect(mix.weights).toEqual({
+      bass: DREAM_REACTIVE_MAX_ACCENT_WEIGHT,
+      mid: DREAM_REACTIVE_MAX_ACCENT_WEIGHT,
+      high: DREAM_REACTIVE_MAX_ACCENT_WEIGHT,
+    })
+    expect(mix.seed).toBe(DEFAULT_STREAM_PAYLOAD.params.seed + 3)
+  })
+
+  it('quantizes small level changes to the same mix', () => {
+    const a = computeDreamReactiveMix({ bass: 0.52, mid: 0.31, high: 0.1 }, 7)
+    const b = computeDreamReactiveMix({ bass: 0.54, mid: 0.29, high: 0.12 }, 7)
+    expect(getDreamReactiveMixKey(a)).toBe(getDreamReactiveMixKey(b))
+  })
+
+  it('weights bass most when picking the seed', () => {
+    const bassHeavy = computeDreamReactiveMix({ bass: 0.9, mid: 0, high: 0 }, 100)
+    const highHeavy = computeDreamReactiveMix({ bass: 0, mid: 0, high: 0.9 }, 100)
+    expect(bassHeavy.seed).toBeGreaterThan(highHeavy.seed)
+  })
+})
+
+describe('buildDreamReactivePrompt', () => {
+  it('keeps the prompt at full weight and drops silent accents', () => {
+    const mix = computeDreamReactiveMix({ bass: 1, mid: 0, high: 0.5 })
+    expect(buildDreamReactivePrompt('female neon dj', mix)).toEqual([
+      ['female neon dj', 1],
+      [DREAM_REACTIVE_ACCENTS.bass, 0.6],
+      [DREAM_REACTIVE_ACCENTS.high, 0.3],
+    ])
+  })
+
+  it('fits the Daydream PATCH payload', () => {
+    const mix = computeDreamReactiveMix({ bass: 0.5, mid: 0.5, high: 0.5 })
+    const payload = createPromptUpdatePayload(buildDreamReactivePrompt('male dj', mix), mix.seed)
+    expect(payload.params.prompt).toEqual([
+      ['male dj', 1],
+      [DREAM_REACTIVE_ACCENTS.bass, 0.3],
+      [DREAM_REACTIVE_ACCENTS.mid, 0.3],
+      [DREAM_REACTIVE_ACCENTS.high, 0.3],
+    ])
+    expect(payload.params.seed).toBe(mix.seed)
+  })
+})
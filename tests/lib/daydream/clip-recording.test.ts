@@ -0,0 +1,152 @@
+/**
+ * Dream Clip Recording Helper Tests
+ *
+ * Covers recorder setup, rolling segment selection, clip naming, the prompt
+ * sidecar, and the WebM title rewrite.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildDreamClipBaseName,
+  buildDreamClipSidecar,
+  buildDreamClipTitle,
+  embedWebmTitle,
+  pickDreamClipMimeType,
+  pickRollingDreamClipSegment,
+} from '@/lib/daydream/clip-recording'
+
+const EBML_HEADER = [0x1a, 0x45, 0xdf, 0xa3, 0x84, 0x42, 0x86, 0x81, 0x01]
+const SEGMENT_UNKNOWN_SIZE = [0x18, 0x53, 0x80, 0x67, 0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff]
+const INFO = [0x15, 0x49, 0xa9, 0x66, 0x88, 0x2a, 0xd7, 0xb1, 0x84, 0x00, 0x0f, 0x42, 0x40]
+const TRACKS = [0x16, 0x54, 0xae, 0x6b, 0x80]
+
+describe('pickDreamClipMimeType', () => {
+  it('returns the first supported type', () => {
+    expect(pickDreamClipMimeType((type) => type === 'video/webm')).toBe('video/webm')
+    expect(pickDreamClipMimeType(() => true)).toBe('video/webm;codecs=vp9,opus')
+  })
+
+  it('returns null when WebM is unsupported', () => {
+    expect(pickDreamClipMimeType(() => false)).toBeNull()
+  })
+})
+
+describe('pickRollingDreamClipSegment', () => {
+  it('picks the newest segment that covers the buffer', () => {
+    expect(pickRollingDreamClipSegment([0, 30_000], 45_000, 30)).toBe(0)
+    expect(pickRollingDreamClipSegment([0, 30_000], 65_000, 30)).toBe(1)
+  })
+
+  it('falls back to the oldest segment while the buffer fills', () => {
+    expect(pickRollingDreamClipSegment([10_000], 15_000, 30)).toBe(0)
+  })
+
+  it('returns null without segments', () => {
+    expect(pickRollingDreamClipSegment([], 15_000, 30)).toBeNull()
+  })
+})
+
+describe('clip naming', () => {
+  const startedAt = new Date(2026, 9, 19, 18, 5, 9).getTime()
+
+  it('builds a file name from track, prompt, and start time', () => {
+    expect(
+      buildDreamClipBaseName({
+        trackTitle: 'Midnight Reverie (Extended Mix)',
+        prompt: 'cosmic nebula, swirling galaxies',
+        startedAt,
+      })
+    ).toBe('metadj-dream_midnight-reverie-extended-mix_cosmic-nebula-swirling-galaxies_20261019-180509')
+  })
+
+  it('skips the track when nothing is playing and strips accents', () => {
+    expect(buildDreamClipBaseName({ trackTitle: null, prompt: 'Café Ñight', startedAt })).toBe(
+      'metadj-dream_cafe-night_20261019-180509'
+    )
+  })
+
+  it('truncates long prompts without a trailing dash', () => {
+    const name = buildDreamClipBaseName({ prompt: `${'a'.repeat(59)} b c`, startedAt })
+    expect(name).toBe(`metadj-dream_${'a'.repeat(59)}_20261019-180509`)
+  })
+
+  it('builds the embedded title', () => {
+    expect(buildDreamClipTitle('Midnight Reverie', 'neon forest')).toBe('Midnight Reverie — neon forest')
+    expect(buildDreamClipTitle(null, 'neon forest')).toBe('neon forest')
+  })
+})
+
+describe('buildDreamClipSidecar', () => {
+  it('lists the starting prompt and changes during the clip', () => {
+    const sidecar = buildDreamClipSidecar({
+      file: 'clip.webm',
+      startedAt: 10_000,
+      endedAt: 30_000,
+      track: { id: 't1', title: 'Midnight Reverie', artist: 'MetaDJ' },
+      promptLog: [
+        { at: 0, prompt: 'a' },
+        { at: 12_340, prompt: 'c' },
+        { at: 5_000, prompt: 'b' },
+        { at: 40_000, prompt: 'd' },
+      ],
+    })
+
+    expect(sidecar).toEqual({
+      version: 1,
+      app: 'MetaDJ Nexus',
+      file: 'clip.webm',
+      startedAt: new Date(10_000).toISOString(),
+      durationSeconds: 20,
+      track: { id: 't1', title: 'Midnight Reverie', artist: 'MetaDJ' },
+      prompts: [
+        { offsetSeconds: 0, prompt: 'b' },
+        { offsetSeconds: 2.3, prompt: 'c' },
+      ],
+    })
+  })
+
+  it('handles an empty prompt log', () => {
+    const sidecar = buildDreamClipSidecar({ file: 'clip.webm', startedAt: 0, endedAt: 1_000, track: null, promptLog: [] })
+    expect(sidecar.prompts).toEqual([])
+    expect(sidecar.track).toBeNull()
+  })
+})
+
+describe('embedWebmTitle', () => {
+  it('adds a Title element to Segment Info', () => {
+    const cluster = [0x1f, 0x43, 0xb6, 0x75, 0x80]
+    const header = new Uint8Array([...EBML_HEADER, ...SEGMENT_UNKNOWN_SIZE, ...INFO, ...TRACKS, ...cluster])
+    const result = embedWebmTitle(header, 'Hi')
+
+    expect(Array.from(result)).toEqual([
+      ...EBML_HEADER,
+      ...SEGMENT_UNKNOWN_SIZE,
+      // Info size grows by the 5-byte Title element
+      0x15, 0x49, 0xa9, 0x66, 0x8d,
+      ...INFO.slice(5),
+      0x7b, 0xa9, 0x82, 0x48, 0x69,
+      ...TRACKS,
+      ...cluster,
+    ])
+  })
+
+  it('encodes multi-byte UTF-8 titles', () => {
+    const header = new Uint8Array([...EBML_HEADER, ...SEGMENT_UNKNOWN_SIZE, ...INFO])
+    const title = 'Reverie — ✨'
+    const result = embedWebmTitle(header, title)
+    const titleBytes = new TextEncoder().encode(title)
+    expect(result.length).toBe(header.length + 3 + titleBytes.length)
+    expect(new TextDecoder().decode(result.slice(result.length - titleBytes.length))).toBe(title)
+  })
+
+  it('leaves headers with a SeekHead unchanged', () => {
+    const seekHead = [0x11, 0x4d, 0x9b, 0x74, 0x80]
+    const header = new Uint8Array([...EBML_HEADER, ...SEGMENT_UNKNOWN_SIZE, ...seekHead, ...INFO])
+    expect(embedWebmTitle(header, 'Hi')).toBe(header)
+  })
+
+  it('leaves non-WebM data unchanged', () => {
+    const data = new Uint8Array([0x00, 0x01, 0x02, 0x03])
+    expect(embedWebmTitle(data, 'Hi')).toBe(data)
+  })
+})
@@ -0,0 +1,58 @@
+/**
+ * Mock Dream Stream Helper Tests
+ *
+ * Covers mock WHIP URLs and the deterministic frame transform used by the
+ * in-page mock WHIP server.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildMockWhipUrl,
+  getMockWhipStreamId,
+  isMockWhipUrl,
+  transformMockDreamFrame,
+} from '@/lib/daydream/mock-stream'
+
+describe('mock WHIP URLs', () => {
+  it('round-trips stream IDs', () => {
+    const url = buildMockWhipUrl('mock_abc')
+    expect(url).toBe('mock-whip://local/mock_abc')
+    expect(isMockWhipUrl(url)).toBe(true)
+    expect(getMockWhipStreamId(url)).toBe('mock_abc')
+    expect(getMockWhipStreamId(`${url}/session`)).toBe('mock_abc')
+  })
+
+  it('ignores real WHIP URLs', () => {
+    expect(isMockWhipUrl('https://sdaydream.live/whip/stk_xxx/stream_abc')).toBe(false)
+    expect(isMockWhipUrl(null)).toBe(false)
+    expect(getMockWhipStreamId('https://sdaydream.live/whip/stk_xxx')).toBeNull()
+  })
+})
+
+describe('transformMockDreamFrame', () => {
+  // 2x1 frame: red pixel, then blue pixel
+  const source = new Uint8ClampedArray([255, 0, 0, 255, 0, 0, 255, 128])
+
+  it('mirrors, posterizes, and rotates channels', () => {
+    const target = new Uint8ClampedArray(source.length)
+    transformMockDreamFrame(source, target, 2)
+    // Left pixel comes from the blue source pixel: B→R
+    expect(Array.from(target.slice(0, 4))).toEqual([255, 0, 0, 255])
+    // Right pixel comes from the red source pixel: R→G
+    expect(Array.from(target.slice(4, 8))).toEqual([0, 255, 0, 255])
+  })
+
+  it('snaps channels to the posterize levels', () => {
+    const target = new Uint8ClampedArray(4)
+    transformMockDreamFrame(new Uint8ClampedArray([90, 100, 200, 255]), target, 1)
+    expect(Array.from(target)).toEqual([170, 85, 85, 255])
+  })
+
+  it('is deterministic', () => {
+    const first = new Uint8ClampedArray(source.length)
+    const second = new Uint8ClampedArray(source.length)
+    transformMockDreamFrame(source, first, 2)
+    transformMockDreamFrame(source, second, 2)
+    expect(second).toEqual(first)
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * Dream Prompt Preset Tests
+ *
+ * Covers create-preset validation and mapping stored rows to the client shape.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { composeDreamPrompt } from '@/lib/daydream/config'
+import {
+  DREAM_PROMPT_BASE_MAX_LENGTH,
+  parseDreamPromptPresetInput,
+  toDreamPromptPreset,
+} from '@/lib/daydream/prompt-presets'
+
+describe('parseDreamPromptPresetInput', () => {
+  it('accepts and trims a valid preset', () => {
+    expect(parseDreamPromptPresetInput({ name: '  Neon ', promptBase: ' neon city dj ', presentation: 'female' })).toEqual({
+      success: true,
+      data: { name: 'Neon', promptBase: 'neon city dj', presentation: 'female' },
+    })
+  })
+
+  it('rejects blank names and prompts', () => {
+    expect(parseDreamPromptPresetInput({ name: ' ', promptBase: 'x', presentation: 'male' })).toEqual({
+      success: false,
+      error: 'Preset name is required',
+    })
+    expect(parseDreamPromptPresetInput({ name: 'x', promptBase: '', presentation: 'male' })).toEqual({
+      success: false,
+      error: 'Prompt is required',
+    })
+  })
+
+  it('rejects overlong prompts and unknown presentations', () => {
+    expect(
+      parseDreamPromptPresetInput({ name: 'x', promptBase: 'a'.repeat(DREAM_PROMPT_BASE_MAX_LENGTH + 1), presentation: 'male' }).success
+    ).toBe(false)
+    expect(parseDreamPromptPresetInput({ name: 'x', promptBase: 'y', presentation: 'robot' }).success).toBe(false)
+  })
+})
+
+describe('toDreamPromptPreset', () => {
+  it('maps a stored row and falls back on an unknown presentation', () => {
+    const createdAt = new Date('2026-10-19T12:00:00Z')
+    expect(
+      toDreamPromptPreset({ id: 'p1', name: 'Glow', promptBase: 'glow', presentation: 'other', createdAt })
+    ).toEqual({ id: 'p1', name: 'Glow', promptBase: 'glow', presentation: 'androgynous', createdAt: '2026-10-19T12:00:00.000Z' })
+  })
+})
+
+describe('composeDreamPrompt', () => {
+  it('prefixes the presentation word', () => {
+    expect(composeDreamPrompt('male', ' cosmic dj ')).toBe('male cosmic dj')
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * Dream Prompt Timeline Tests
+ *
+ * Covers time-mode and track-mode step resolution, hold clamping, and timeline editing.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  DREAM_TIMELINE_MAX_HOLD_SECONDS,
+  DREAM_TIMELINE_MAX_STEPS,
+  DREAM_TIMELINE_MIN_HOLD_SECONDS,
+  addDreamTimelineStep,
+  clampDreamTimelineHold,
+  getDreamTimelineCycleSeconds,
+  moveDreamTimelineStep,
+  resolveDreamTimelinePosition,
+} from '@/lib/daydream/prompt-timeline'
+import { PATCH_CONFIG } from '@/lib/daydream/utils'
+import type { DreamTimeline, DreamTimelineStep } from '@/types/daydream.types'
+
+const step = (id: string, holdSeconds = 30): DreamTimelineStep => ({
+  id,
+  promptBase: `prompt ${id}`,
+  presentation: 'androgynous',
+  holdSeconds,
+})
+
+const timeTimeline: DreamTimeline = { mode: 'time', steps: [step('a', 10), step('b', 20), step('c', 30)] }
+
+describe('clampDreamTimelineHold', () => {
+  it('keeps holds within the limits', () => {
+    expect(clampDreamTimelineHold(1)).toBe(DREAM_TIMELINE_MIN_HOLD_SECONDS)
+    expect(clampDreamTimelineHold(10_000)).toBe(DREAM_TIMELINE_MAX_HOLD_SECONDS)
+    expect(clampDreamTimelineHold(44.6)).toBe(45)
+  })
+
+  it('never allows steps faster than the PATCH spacing', () => {
+    expect(DREAM_TIMELINE_MIN_HOLD_SECONDS * 1000).toBeGreaterThanOrEqual(PATCH_CONFIG.MIN_INTERVAL_MS)
+  })
+
+  it('falls back to the default for non-finite input', () => {
+    expect(clampDreamTimelineHold(Number.NaN)).toBe(30)
+  })
+})
+
+describe('resolveDreamTimelinePosition', () => {
+  it('returns null for an empty timeline', () => {
+    expect(resolveDreamTimelinePosition({ mode: 'time', steps: [] }, { elapsedSeconds: 5, trackChanges: 0 })).toBeNull()
+  })
+
+  it('walks time-mode steps by their hold times', () => {
+    expect(resolveDreamTimelinePosition(timeTimeline, { elapsedSeconds: 0, trackChanges: 0 })).toEqual({
+      index: 0,
+      secondsUntilNext: 10,
+    })
+    expect(resolveDreamTimelinePosition(timeTimeline, { elapsedSeconds: 12, trackChanges: 0 })).toEqual({
+      index: 1,
+      secondsUntilNext: 18,
+    })
+    expect(resolveDreamTimelinePosition(timeTimeline, { elapsedSeconds: 59, trackChanges: 0 })).toEqual({
+      index: 2,
+      secondsUntilNext: 1,
+    })
+  })
+
+  it('wraps time-mode timelines after the last step', () => {
+    expect(getDreamTimelineCycleSeconds(timeTimeline.steps)).toBe(60)
+    expect(resolveDreamTimelinePosition(timeTimeline, { elapsedSeconds: 65, trackChanges: 0 })?.index).toBe(0)
+  })
+
+  it('holds a single time-mode step without scheduling', () => {
+    expect(resolveDreamTimelinePosition({ mode: 'time', steps: [step('a')] }, { elapsedSeconds: 500, trackChanges: 0 })).toEqual({
+      index: 0,
+      secondsUntilNext: null,
+    })
+  })
+
+  it('advances track-mode timelines per track change and ignores time', () => {
+    const trackTimeline: DreamTimeline = { ...timeTimeline, mode: 'track' }
+    expect(resolveDreamTimelinePosition(trackTimeline, { elapsedSeconds: 999, trackChanges: 0 })).toEqual({
+      index: 0,
+      secondsUntilNext: null,
+    })
+    expect(resolveDreamTimelinePosition(trackTimeline, { elapsedSeconds: 0, trackChanges: 2 })?.index).toBe(2)
+    expect(resolveDreamTimelinePosition(trackTimeline, { elapsedSeconds: 0, trackChanges: 4 })?.index).toBe(1)
+  })
+})
+
+describe('timeline editing', () => {
+  it('appends steps with a clamped hold and stops at the step limit', () => {
+    let timeline: DreamTimeline = { mode: 'time', steps: [] }
+    timeline = addDreamTimelineStep(timeline, { id: 'a', promptBase: 'neon', presentation: 'female', holdSeconds: 2 })
+    expect(timeline.steps[0].holdSeconds).toBe(DREAM_TIMELINE_MIN_HOLD_SECONDS)
+
+    for (let index = 1; index < DREAM_TIMELINE_MAX_STEPS + 3; index += 1) {
+      timeline = addDreamTimelineStep(timeline, { id: `s${index}`, promptBase: 'x', presentation: 'male' })
+    }
+    expect(timeline.steps).toHaveLength(DREAM_TIMELINE_MAX_STEPS)
+  })
+
+  it('moves steps and ignores out-of-range moves', () => {
+    const moved = moveDreamTimelineStep(timeTimeline, 'c', -1)
+    expect(moved.steps.map((entry) => entry.id)).toEqual(['a', 'c', 'b'])
+    expect(moveDreamTimelineStep(timeTimeline, 'a', -1)).toBe(timeTimeline)
+    expect(moveDreamTimelineStep(timeTimeline, 'missing', 1)).toBe(timeTimeline)
+  })
+})
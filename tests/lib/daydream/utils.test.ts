@@ -195,6 +195,10 @@ describe('Configuration constants', () => {
     it('has MAX_FAILURES of 5', () => {
       expect(PATCH_CONFIG.MAX_FAILURES).toBe(5)
     })
+
+    it('has MIN_INTERVAL_MS of 2000', () => {
+      expect(PATCH_CONFIG.MIN_INTERVAL_MS).toBe(2000)
+    })
   })
 
   describe('STARTUP_CONFIG', () => {
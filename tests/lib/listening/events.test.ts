@@ -0,0 +1,107 @@
+/**
+ * Listening Events Tests
+ *
+ * Tests completion/skip classification and server-side payload validation.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { buildListeningEvent, parseListeningEventInput } from '@/lib/listening/events'
+import type { FinishedListen } from '@/lib/listening/events'
+
+const startedAt = new Date('2026-10-19T12:00:00.000Z')
+
+function makeListen(overrides: Partial<FinishedListen> = {}): FinishedListen {
+  return {
+    track: { id: 'metadj-001', collection: 'Majestic Ascent', duration: 200 },
+    startedAt,
+    listenedSeconds: 100,
+    movedOn: false,
+    source: { type: 'queue', queueContext: 'collection' },
+    ...overrides,
+  }
+}
+
+describe('buildListeningEvent', () => {
+  it('marks a listen that moved on early as skipped', () => {
+    const event = buildListeningEvent(makeListen({ listenedSeconds: 40, movedOn: true }))
+
+    expect(event).toMatchObject({
+      trackId: 'metadj-001',
+      collection: 'Majestic Ascent',
+      startedAt: '2026-10-19T12:00:00.000Z',
+      durationSeconds: 200,
+      listenedSeconds: 40,
+      completionPercent: 20,
+      completed: false,
+      skipped: true,
+    })
+  })
+
+  it('counts a listen past 90% as completed, not skipped', () => {
+    const event = buildListeningEvent(makeListen({ listenedSeconds: 185, movedOn: true }))
+
+    expect(event?.completed).toBe(true)
+    expect(event?.skipped).toBe(false)
+  })
+
+  it('records a track that played to its end with the time actually listened', () => {
+    const event = buildListeningEvent(makeListen({ listenedSeconds: 150 }))
+
+    expect(event?.listenedSeconds).toBe(150)
+    expect(event?.completionPercent).toBe(75)
+    expect(event?.completed).toBe(false)
+    expect(event?.skipped).toBe(false)
+  })
+
+  it('prefers the element duration over the catalog duration', () => {
+    const event = buildListeningEvent(makeListen({ listenedSeconds: 100, durationSeconds: 400 }))
+
+    expect(event?.durationSeconds).toBe(400)
+    expect(event?.completionPercent).toBe(25)
+  })
+
+  it('caps listened time at the duration', () => {
+    const event = buildListeningEvent(makeListen({ listenedSeconds: 250 }))
+
+    expect(event?.listenedSeconds).toBe(200)
+    expect(event?.completionPercent).toBe(100)
+  })
+
+  it('neither completes nor skips a listen cut off by leaving', () => {
+    const event = buildListeningEvent(makeListen({ listenedSeconds: 60 }))
+
+    expect(event?.completed).toBe(false)
+    expect(event?.skipped).toBe(false)
+  })
+
+  it('ignores listens that never really started', () => {
+    expect(buildListeningEvent(makeListen({ listenedSeconds: 0.4, movedOn: true }))).toBeNull()
+  })
+
+  it('carries the source context', () => {
+    const event = buildListeningEvent(makeListen({
+      source: { type: 'mood-channel', id: 'deep-focus', queueContext: 'collection' },
+    }))
+
+    expect(event?.sourceType).toBe('mood-channel')
+    expect(event?.sourceId).toBe('deep-focus')
+    expect(event?.queueContext).toBe('collection')
+  })
+})
+
+describe('parseListeningEventInput', () => {
+  it('accepts an event built on the client', () => {
+    const event = buildListeningEvent(makeListen({ movedOn: true }))
+
+    expect(parseListeningEventInput(event)).toEqual({ success: true, data: event })
+  })
+
+  it('rejects unknown sources and out-of-range values', () => {
+    const event = buildListeningEvent(makeListen())
+
+    expect(parseListeningEventInput({ ...event, sourceType: 'radio' }).success).toBe(false)
+    expect(parseListeningEventInput({ ...event, completionPercent: 120 }).success).toBe(false)
+    expect(parseListeningEventInput({ ...event, startedAt: 'yesterday' }).success).toBe(false)
+    expect(parseListeningEventInput(null).success).toBe(false)
+  })
+})
@@ -0,0 +1,62 @@
+/**
+ * Listening Stats Tests
+ *
+ * Tests timezone day bucketing and listening streaks.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { computeListeningStreaks, normalizeTimezoneOffset, toListeningDay } from '@/lib/listening/stats'
+
+describe('normalizeTimezoneOffset', () => {
+  it('parses query string offsets', () => {
+    expect(normalizeTimezoneOffset('240')).toBe(240)
+    expect(normalizeTimezoneOffset('-330')).toBe(-330)
+  })
+
+  it('falls back to UTC for invalid values and clamps extremes', () => {
+    expect(normalizeTimezoneOffset(null)).toBe(0)
+    expect(normalizeTimezoneOffset('abc')).toBe(0)
+    expect(normalizeTimezoneOffset(5000)).toBe(840)
+  })
+})
+
+describe('toListeningDay', () => {
+  it('uses the listener’s local calendar day', () => {
+    const lateEvening = new Date('2026-10-20T02:30:00.000Z')
+
+    expect(toListeningDay(lateEvening, 0)).toBe('2026-10-20')
+    // UTC-4 (getTimezoneOffset() === 240)
+    expect(toListeningDay(lateEvening, 240)).toBe('2026-10-19')
+  })
+})
+
+describe('computeListeningStreaks', () => {
+  it('returns zeros without history', () => {
+    expect(computeListeningStreaks([], '2026-10-19')).toEqual({ currentStreakDays: 0, longestStreakDays: 0 })
+  })
+
+  it('counts consecutive days ending today', () => {
+    const days = ['2026-10-17', '2026-10-18', '2026-10-19', '2026-10-19']
+
+    expect(computeListeningStreaks(days, '2026-10-19')).toEqual({ currentStreakDays: 3, longestStreakDays: 3 })
+  })
+
+  it('keeps the current streak alive until a full day is missed', () => {
+    const days = ['2026-10-17', '2026-10-18']
+
+    expect(computeListeningStreaks(days, '2026-10-19').currentStreakDays).toBe(2)
+    expect(computeListeningStreaks(days, '2026-10-20').currentStreakDays).toBe(0)
+  })
+
+  it('tracks the longest streak separately from the current one', () => {
+    const days = ['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-04', '2026-10-18', '2026-10-19']
+
+    expect(computeListeningStreaks(days, '2026-10-19')).toEqual({ currentStreakDays: 2, longestStreakDays: 4 })
+  })
+
+  it('handles unsorted input across month boundaries', () => {
+    const days = ['2026-11-01', '2026-10-30', '2026-10-31']
+
+    expect(computeListeningStreaks(days, '2026-11-01')).toEqual({ currentStreakDays: 3, longestStreakDays: 3 })
+  })
+})
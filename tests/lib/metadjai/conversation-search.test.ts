@@ -0,0 +1,101 @@
+/**
+ * MetaDJai Conversation Search Tests
+ *
+ * Covers query normalization, snippet highlighting, and hit merging.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  CONVERSATION_SEARCH_MAX_QUERY_LENGTH,
+  SEARCH_HIGHLIGHT_START as START,
+  SEARCH_HIGHLIGHT_STOP as STOP,
+  mergeConversationSearchHits,
+  normalizeSearchQuery,
+  parseHighlightedSnippet,
+  type ConversationSearchHit,
+} from '@/lib/metadjai/conversation-search'
+
+function hit(overrides: Partial<ConversationSearchHit>): ConversationSearchHit {
+  return {
+    conversationId: 'c1',
+    conversationTitle: 'Sunrise set',
+    messageId: 'm1',
+    role: 'user',
+    headline: `plan a ${START}sunrise${STOP} set`,
+    rank: 0.1,
+    titleMatched: false,
+    createdAt: new Date('2026-10-01T12:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('normalizeSearchQuery', () => {
+  it('collapses whitespace and rejects short queries', () => {
+    expect(normalizeSearchQuery('  deep   house ')).toBe('deep house')
+    expect(normalizeSearchQuery(' a ')).toBeNull()
+    expect(normalizeSearchQuery(null)).toBeNull()
+  })
+
+  it('strips highlight markers and caps the length', () => {
+    expect(normalizeSearchQuery(`${START}ambient${STOP}`)).toBe('ambient')
+    expect(normalizeSearchQuery('x'.repeat(500))).toHaveLength(CONVERSATION_SEARCH_MAX_QUERY_LENGTH)
+  })
+})
+
+describe('parseHighlightedSnippet', () => {
+  it('splits plain and highlighted text', () => {
+    expect(parseHighlightedSnippet(`  build a ${START}sunrise${STOP}\n set `)).toEqual([
+      { text: 'build a ', highlight: false },
+      { text: 'sunrise', highlight: true },
+      { text: ' set', highlight: false },
+    ])
+  })
+
+  it('merges adjacent highlights and handles text without markers', () => {
+    expect(parseHighlightedSnippet(`${START}deep${STOP}${START} house${STOP}`)).toEqual([
+      { text: 'deep house', highlight: true },
+    ])
+    expect(parseHighlightedSnippet('no matches')).toEqual([{ text: 'no matches', highlight: false }])
+    expect(parseHighlightedSnippet('')).toEqual([])
+  })
+})
+
+describe('mergeConversationSearchHits', () => {
+  it('orders by rank with a boost for title matches', () => {
+    const results = mergeConversationSearchHits(
+      [
+        hit({ conversationId: 'c1', messageId: 'm1', rank: 0.3 }),
+        hit({ conversationId: 'c2', messageId: 'm2', rank: 0.2, titleMatched: true }),
+      ],
+      []
+    )
+
+    expect(results.map((result) => result.messageId)).toEqual(['m2', 'm1'])
+  })
+
+  it('drops title-only hits for conversations with message hits', () => {
+    const results = mergeConversationSearchHits(
+      [hit({ conversationId: 'c1', messageId: 'm1' })],
+      [
+        hit({ conversationId: 'c1', messageId: null, role: null }),
+        hit({ conversationId: 'c2', messageId: null, role: null, conversationTitle: null }),
+      ]
+    )
+
+    expect(results).toHaveLength(2)
+    expect(results[0]).toMatchObject({ conversationId: 'c2', messageId: null, conversationTitle: 'New conversation' })
+    expect(results[1].snippet).toContainEqual({ text: 'sunrise', highlight: true })
+  })
+
+  it('applies the limit and drops unknown roles', () => {
+    const results = mergeConversationSearchHits(
+      [hit({ messageId: 'm1', role: 'system' }), hit({ messageId: 'm2', rank: 0.05 })],
+      [],
+      1
+    )
+
+    expect(results).toHaveLength(1)
+    expect(results[0].role).toBeNull()
+    expect(results[0].createdAt).toBe(Date.parse('2026-10-01T12:00:00Z'))
+  })
+})
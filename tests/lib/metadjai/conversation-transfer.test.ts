@@ -0,0 +1,140 @@
+/**
+ * MetaDJai Conversation Transfer Tests
+ *
+ * Covers the JSON export round trip, import validation, ID remapping,
+ * Markdown rendering, and share snapshots.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  createConversationExport,
+  createConversationShareToken,
+  createConversationSnapshot,
+  formatConversationsMarkdown,
+  isConversationShareToken,
+  parseConversationImport,
+  parseConversationSnapshot,
+  remapConversationMessageIds,
+  type MetaDjAiExportedConversation,
+} from '@/lib/metadjai/conversation-transfer'
+import type { MetaDjAiMessage } from '@/types/metadjai.types'
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+const T0 = Date.parse('2026-10-18T20:00:00Z')
+
+function message(id: string, parentId: string | null, role: MetaDjAiMessage['role'], content: string): MetaDjAiMessage {
+  return { id, parentId, role, content, createdAt: T0, status: 'complete' }
+}
+
+const conversation: MetaDjAiExportedConversation = {
+  id: 'conv-1',
+  title: 'Sunrise set',
+  createdAt: T0,
+  updatedAt: T0,
+  archivedAt: null,
+  activeLeafId: 'a1b',
+  messages: [
+    message('u1', null, 'user', 'Plan a sunrise set'),
+    { ...message('a1', 'u1', 'assistant', 'First idea'), provider: 'openai', model: 'gpt-5' },
+    {
+      ...message('a1b', 'u1', 'assistant', 'Queue these'),
+      toolsUsed: ['searchCatalog'],
+      proposal: { type: 'queue-set', action: 'set', trackIds: ['t1', 't2'], trackTitles: ['Dawn', 'Glow'], approvalRequired: true },
+    },
+    { ...message('m1', 'a1b', 'assistant', 'Model: Claude'), kind: 'model-switch' },
+  ],
+}
+
+describe('conversation export and import', () => {
+  it('round-trips every branch and message detail', () => {
+    const exported = JSON.stringify(createConversationExport([conversation], { now: NOW }))
+    const [restored] = parseConversationImport(exported)
+
+    expect(restored).toEqual(conversation)
+  })
+
+  it('rejects other formats and versions', () => {
+    expect(() => parseConversationImport('not json')).toThrow('not valid JSON')
+    expect(() => parseConversationImport({ type: 'metadj-nexus-journal', version: 1 })).toThrow('Unsupported conversation import format')
+    expect(() => parseConversationImport({ type: 'metadj-nexus-metadjai-conversations', version: 2, conversations: [] })).toThrow('version')
+  })
+
+  it('drops invalid messages and empty conversations', () => {
+    const payload = createConversationExport([
+      {
+        ...conversation,
+        activeLeafId: 'missing',
+        archivedAt: T0,
+        messages: [message('u1', null, 'user', 'hi'), { id: 'bad', role: 'system' } as unknown as MetaDjAiMessage],
+      },
+      { ...conversation, id: 'conv-2', messages: [] },
+    ])
+    const restored = parseConversationImport(payload)
+
+    expect(restored).toHaveLength(1)
+    expect(restored[0].messages.map((entry) => entry.id)).toEqual(['u1'])
+    expect(restored[0]).toMatchObject({ activeLeafId: null, archivedAt: T0 })
+  })
+
+  it('remaps message IDs with their links', () => {
+    let next = 0
+    const remapped = remapConversationMessageIds(conversation, () => `new-${++next}`)
+
+    expect(remapped.messages.map((entry) => [entry.id, entry.parentId])).toEqual([
+      ['new-1', null],
+      ['new-2', 'new-1'],
+      ['new-3', 'new-1'],
+      ['new-4', 'new-3'],
+    ])
+    expect(remapped.activeLeafId).toBe('new-3')
+  })
+})
+
+describe('formatConversationsMarkdown', () => {
+  it('renders the selected branch with proposals and markers', () => {
+    const markdown = formatConversationsMarkdown([conversation])
+
+    expect(markdown.startsWith('# Sunrise set\n')).toBe(true)
+    expect(markdown).toContain('**You** · 2026-10-18 20:00 UTC')
+    expect(markdown).toContain('**MetaDJai** · 2026-10-18 20:00 UTC · Tools: searchCatalog')
+    expect(markdown).toContain('> **Proposed action**: Queue (replace): 2 tracks\n> 1. Dawn\n> 2. Glow')
+    expect(markdown).toContain('_Model: Claude_')
+    expect(markdown).toContain('_Selected branch: 3 of 4 messages.')
+    expect(markdown).not.toContain('First idea')
+  })
+
+  it('adds a header and model details for several conversations', () => {
+    const markdown = formatConversationsMarkdown(
+      [{ ...conversation, activeLeafId: 'a1' }, { ...conversation, id: 'conv-2', title: 'Night drive' }],
+      { now: NOW }
+    )
+
+    expect(markdown).toContain('# MetaDJai Conversations\n\n_Exported 2026-10-19 12:00 UTC · 2 conversations_')
+    expect(markdown).toContain('## Night drive')
+    expect(markdown).toContain('· OpenAI / gpt-5')
+  })
+})
+
+describe('share snapshots', () => {
+  it('keeps only chat text from the selected branch', () => {
+    const snapshot = createConversationSnapshot(conversation, { now: NOW })
+
+    expect(snapshot).toEqual({
+      title: 'Sunrise set',
+      sharedAt: NOW.getTime(),
+      messages: [
+        { role: 'user', content: 'Plan a sunrise set', createdAt: T0 },
+        { role: 'assistant', content: 'Queue these', createdAt: T0 },
+      ],
+    })
+    expect(parseConversationSnapshot(JSON.parse(JSON.stringify(snapshot)))).toEqual(snapshot)
+    expect(parseConversationSnapshot({ title: 'x' })).toBeNull()
+  })
+
+  it('issues URL-safe tokens', () => {
+    const token = createConversationShareToken()
+
+    expect(isConversationShareToken(token)).toBe(true)
+    expect(isConversationShareToken('conv_123')).toBe(false)
+  })
+})
@@ -0,0 +1,110 @@
+/**
+ * MetaDJai Conversation Tree Tests
+ *
+ * Covers legacy linking, active path resolution, branch positions, and branch removal.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  findBranchLeaf,
+  getActivePath,
+  getMessageBranches,
+  getMessagePath,
+  normalizeMessageTree,
+  removeMessageBranch,
+} from '@/lib/metadjai/conversation-tree'
+import type { MetaDjAiMessage } from '@/types/metadjai.types'
+
+function message(id: string, parentId: string | null | undefined, role: MetaDjAiMessage['role'] = 'user'): MetaDjAiMessage {
+  return { id, parentId, role, content: id, createdAt: 0, status: 'complete' }
+}
+
+/**
+ * u1 ─ a1 ─ u2 ─ a2
+ *   │       └─ a2b        (regeneration)
+ *   └─ a1b ─ u3           (regeneration, then a follow-up)
+ */
+const tree: MetaDjAiMessage[] = [
+  message('u1', null),
+  message('a1', 'u1', 'assistant'),
+  message('u2', 'a1'),
+  message('a2', 'u2', 'assistant'),
+  message('a1b', 'u1', 'assistant'),
+  message('u3', 'a1b'),
+  message('a2b', 'u2', 'assistant'),
+]
+
+const ids = (messages: MetaDjAiMessage[]) => messages.map((entry) => entry.id)
+
+describe('normalizeMessageTree', () => {
+  it('links unlinked history into a single thread', () => {
+    const linked = normalizeMessageTree([message('m1', undefined), message('m2', null, 'assistant'), message('m3', undefined)])
+
+    expect(linked.map((entry) => entry.parentId)).toEqual([null, 'm1', 'm2'])
+  })
+
+  it('keeps existing links and treats missing links as roots', () => {
+    const linked = normalizeMessageTree([message('m1', null), message('m2', 'm1', 'assistant'), message('m3', undefined)])
+
+    expect(linked.map((entry) => entry.parentId)).toEqual([null, 'm1', null])
+  })
+
+  it('expands legacy versions into older siblings', () => {
+    const legacy: MetaDjAiMessage = {
+      ...message('a1', 'u1', 'assistant'),
+      versions: [
+        { content: 'second', createdAt: 2 },
+        { content: 'first', createdAt: 1 },
+      ],
+    }
+    const expanded = normalizeMessageTree([message('u1', null), legacy])
+
+    expect(ids(expanded)).toEqual(['u1', 'a1:v2', 'a1:v1', 'a1'])
+    expect(expanded[1]).toMatchObject({ content: 'first', parentId: 'u1' })
+    expect(ids(normalizeMessageTree(expanded))).toEqual(ids(expanded))
+  })
+})
+
+describe('active path', () => {
+  it('ends at the most recent message by default', () => {
+    expect(ids(getActivePath(tree, null))).toEqual(['u1', 'a1', 'u2', 'a2b'])
+  })
+
+  it('extends a selected branch to its latest leaf', () => {
+    expect(findBranchLeaf(tree, 'a1b')).toBe('u3')
+    expect(ids(getActivePath(tree, 'a1b'))).toEqual(['u1', 'a1b', 'u3'])
+    expect(ids(getActivePath(tree, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2'])
+  })
+
+  it('falls back to the latest message for unknown leaves', () => {
+    expect(findBranchLeaf(tree, 'missing')).toBeNull()
+    expect(ids(getActivePath(tree, 'missing'))).toEqual(['u1', 'a1', 'u2', 'a2b'])
+    expect(getActivePath([], null)).toEqual([])
+  })
+
+  it('walks up to the root', () => {
+    expect(ids(getMessagePath(tree, 'a2'))).toEqual(['u1', 'a1', 'u2', 'a2'])
+  })
+})
+
+describe('getMessageBranches', () => {
+  it('reports sibling positions along the path', () => {
+    const branches = getMessageBranches(tree, getActivePath(tree, 'a2'))
+
+    expect(branches.a1).toEqual({ index: 0, total: 2, siblingIds: ['a1', 'a1b'] })
+    expect(branches.a2).toEqual({ index: 0, total: 2, siblingIds: ['a2', 'a2b'] })
+    expect(branches.u1).toBeUndefined()
+  })
+
+  it('ignores mode and model markers', () => {
+    const withMarker = [...tree, { ...message('switch', 'u2', 'assistant'), kind: 'model-switch' as const }]
+
+    expect(getMessageBranches(withMarker, getActivePath(withMarker, 'a2')).a2?.total).toBe(2)
+  })
+})
+
+describe('removeMessageBranch', () => {
+  it('removes a message and its descendants', () => {
+    expect(ids(removeMessageBranch(tree, 'a1b'))).toEqual(['u1', 'a1', 'u2', 'a2', 'a2b'])
+  })
+})
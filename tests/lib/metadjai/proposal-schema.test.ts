@@ -177,6 +177,92 @@ describe('parseProposal', () => {
     })
   })
 
+  describe('cinema proposals', () => {
+    it('parses a scene switch', () => {
+      const result = parseProposal({
+        type: 'cinema',
+        action: 'scene',
+        sceneId: 'synthwave-horizon',
+        sceneName: 'Synthwave Horizon',
+      })
+
+      expect(result).toMatchObject({
+        type: 'cinema',
+        action: 'scene',
+        sceneId: 'synthwave-horizon',
+        approvalRequired: true,
+      })
+    })
+
+    it('rejects unknown cinema actions', () => {
+      expect(parseProposal({ type: 'cinema', action: 'fullscreen' })).toBeNull()
+    })
+  })
+
+  describe('dream proposals', () => {
+    it('supports all dream actions', () => {
+      for (const action of ['start', 'setPrompt', 'stop']) {
+        const result = parseProposal({ type: 'dream', action, prompt: 'neon ocean' })
+        expect(result).not.toBeNull()
+      }
+    })
+
+    it('rejects oversized prompts', () => {
+      expect(parseProposal({ type: 'dream', action: 'start', prompt: 'x'.repeat(201) })).toBeNull()
+    })
+  })
+
+  describe('wisdom proposals', () => {
+    it('parses an entry proposal', () => {
+      const result = parseProposal({
+        type: 'wisdom',
+        action: 'open',
+        section: 'guides',
+        id: 'music-for-state-change',
+        title: 'Music for State Change',
+      })
+
+      expect(result).toMatchObject({
+        type: 'wisdom',
+        section: 'guides',
+        id: 'music-for-state-change',
+        approvalRequired: true,
+      })
+    })
+
+    it('requires a valid section', () => {
+      expect(parseProposal({ type: 'wisdom', action: 'open', section: 'journal' })).toBeNull()
+    })
+  })
+
+  describe('set-plan proposals', () => {
+    const segment = { phase: 'opening', minutes: 12, targetBpm: 112, targetEnergy: 4, trackIds: ['metadj-001'] }
+
+    it('parses a set plan', () => {
+      const result = parseProposal({
+        type: 'set-plan',
+        action: 'build',
+        name: 'Sunset set',
+        totalMinutes: 60,
+        segments: [segment],
+      })
+
+      expect(result).toMatchObject({
+        type: 'set-plan',
+        name: 'Sunset set',
+        segments: [segment],
+        approvalRequired: true,
+      })
+    })
+
+    it('rejects unknown phases and out-of-range energy', () => {
+      const base = { type: 'set-plan', action: 'build', name: 'Set', totalMinutes: 60 }
+      expect(parseProposal({ ...base, segments: [{ ...segment, phase: 'encore' }] })).toBeNull()
+      expect(parseProposal({ ...base, segments: [{ ...segment, targetEnergy: 11 }] })).toBeNull()
+      expect(parseProposal({ ...base, segments: [] })).toBeNull()
+    })
+  })
+
   describe('invalid inputs', () => {
     it('returns null for null input', () => {
       expect(parseProposal(null)).toBeNull()
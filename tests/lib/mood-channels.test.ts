@@ -1,12 +1,13 @@
 /**
  * Mood Channels Tests
  *
- * Coverage for mood channel filtering, sorting, and readiness gating.
+ * Coverage for mood channel scoring, filtering, sorting, and readiness gating.
  */
 
 import { describe, it, expect } from 'vitest'
 import {
   getTracksForMoodChannel,
+  scoreTrackForMoodChannel,
   sortTracksByMoodRelevance,
   getMoodChannelReadiness,
   MOOD_CHANNEL_MIN_CATALOG_TRACKS,
@@ -28,6 +29,24 @@ const baseChannel: MoodChannel = {
   energyLevel: 5,
 }
 
+describe('scoreTrackForMoodChannel', () => {
+  it('adds BPM, genre, and collection signals', () => {
+    expect(
+      scoreTrackForMoodChannel(baseChannel, {
+        id: 'all',
+        bpm: 120,
+        genres: ['Retro Future'],
+        collection: 'Majestic Ascent',
+      })
+    ).toBe(9)
+  })
+
+  it('gives partial credit for BPM just outside the range', () => {
+    expect(scoreTrackForMoodChannel(baseChannel, { id: 'near', bpm: 135, collection: 'Other' })).toBe(1)
+    expect(scoreTrackForMoodChannel(baseChannel, { id: 'far', bpm: 150, collection: 'Other' })).toBe(0)
+  })
+})
+
 describe('getTracksForMoodChannel', () => {
   it('returns tracks that match BPM, genre, or collection criteria', () => {
     const tracks: MoodTrack[] = [
@@ -0,0 +1,204 @@
+/**
+ * Music Catalog Helper Tests
+ *
+ * Tests the row → domain mapping used by the database-backed repository,
+ * seed-row conversion, and admin track input validation.
+ */
+
+import { describe, expect, it } from 'vitest'
+import {
+  buildCatalogSnapshot,
+  getAudioObjectPath,
+  parseCatalogTrackInput,
+  parseCatalogTrackUpdate,
+  resolveMusicCatalogSource,
+  toCatalogSeedRows,
+} from '@/lib/music/catalog'
+import { collectionList, trackList } from '@/lib/music/data'
+import type { CatalogCollectionRecord, CatalogTrackRecord } from '../../../shared/schema'
+
+const now = new Date('2026-10-19T12:00:00Z')
+
+function collectionRow(overrides: Partial<CatalogCollectionRecord> = {}): CatalogCollectionRecord {
+  return {
+    id: 'night-drive',
+    title: 'Night Drive',
+    artist: 'MetaDJ',
+    type: 'collection',
+    releaseDate: '2026-01-15',
+    artworkUrl: '/images/night-drive.svg',
+    description: null,
+    enabled: true,
+    position: 0,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }
+}
+
+function trackRow(overrides: Partial<CatalogTrackRecord> = {}): CatalogTrackRecord {
+  return {
+    id: 'night-drive-001',
+    collectionId: 'night-drive',
+    title: 'Neon Mile',
+    artist: 'MetaDJ',
+    duration: 240,
+    releaseDate: '2026-01-15',
+    audioUrl: '/api/audio/night-drive/01 - Neon Mile.mp3',
+    artworkUrl: null,
+    description: null,
+    genres: ['Synthwave', 'Techno'],
+    bpm: 118,
+    key: null,
+    loudnessLufs: null,
+    peakDb: null,
+    enabled: true,
+    position: 0,
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  }
+}
+
+describe('resolveMusicCatalogSource', () => {
+  it('defaults to the static catalog', () => {
+    expect(resolveMusicCatalogSource(undefined)).toBe('static')
+    expect(resolveMusicCatalogSource('postgres')).toBe('static')
+  })
+
+  it('selects the database catalog when configured', () => {
+    expect(resolveMusicCatalogSource('database')).toBe('database')
+  })
+})
+
+describe('buildCatalogSnapshot', () => {
+  it('maps rows to tracks with the collection title and computed track count', () => {
+    const snapshot = buildCatalogSnapshot(
+      [collectionRow()],
+      [trackRow(), trackRow({ id: 'night-drive-002', title: 'Afterglow', position: 1 })]
+    )
+
+    expect(snapshot.collections).toHaveLength(1)
+    expect(snapshot.collections[0]).toMatchObject({ id: 'night-drive', trackCount: 2, enabled: true })
+    expect(snapshot.tracks.map((track) => track.collection)).toEqual(['Night Drive', 'Night Drive'])
+    expect(snapshot.tracks[0]).not.toHaveProperty('key')
+    expect(snapshot.tracks[0]).not.toHaveProperty('loudnessLufs')
+    expect(snapshot.invalid).toEqual([])
+  })
+
+  it('carries loudness analysis onto tracks', () => {
+    const snapshot = buildCatalogSnapshot(
+      [collectionRow()],
+      [trackRow({ loudnessLufs: -9.6, peakDb: -0.3 })]
+    )
+
+    expect(snapshot.tracks[0]).toMatchObject({ loudnessLufs: -9.6, peakDb: -0.3 })
+  })
+
+  it('orders by collection position, then track position', () => {
+    const snapshot = buildCatalogSnapshot(
+      [
+        collectionRow({ id: 'later', title: 'Later', position: 1 }),
+        collectionRow({ id: 'first', title: 'First', position: 0 }),
+      ],
+      [
+        trackRow({ id: 'later-001', collectionId: 'later' }),
+        trackRow({ id: 'first-002', collectionId: 'first', position: 1 }),
+        trackRow({ id: 'first-001', collectionId: 'first', position: 0 }),
+      ]
+    )
+
+    expect(snapshot.collections.map((collection) => collection.id)).toEqual(['first', 'later'])
+    expect(snapshot.tracks.map((track) => track.id)).toEqual(['first-001', 'first-002', 'later-001'])
+  })
+
+  it('skips disabled tracks, disabled collections, and empty collections', () => {
+    const snapshot = buildCatalogSnapshot(
+      [
+        collectionRow(),
+        collectionRow({ id: 'hidden', title: 'Hidden', enabled: false }),
+        collectionRow({ id: 'empty', title: 'Empty' }),
+      ],
+      [
+        trackRow(),
+        trackRow({ id: 'night-drive-002', enabled: false }),
+        trackRow({ id: 'hidden-001', collectionId: 'hidden' }),
+      ]
+    )
+
+    expect(snapshot.collections.map((collection) => collection.id)).toEqual(['night-drive'])
+    expect(snapshot.tracks.map((track) => track.id)).toEqual(['night-drive-001'])
+  })
+
+  it('reports rows that fail the track schema', () => {
+    const snapshot = buildCatalogSnapshot(
+      [collectionRow()],
+      [trackRow(), trackRow({ id: 'night-drive-002', genres: ['Only One'] })]
+    )
+
+    expect(snapshot.tracks).toHaveLength(1)
+    expect(snapshot.invalid).toEqual(['track:night-drive-002'])
+  })
+})
+
+describe('toCatalogSeedRows', () => {
+  it('round-trips the bundled catalog', () => {
+    const rows = toCatalogSeedRows(collectionList, trackList)
+    const snapshot = buildCatalogSnapshot(
+      rows.collections.map((row) => collectionRow({ ...row, position: row.position ?? 0 } as CatalogCollectionRecord)),
+      rows.tracks.map((row) => trackRow({ ...row, position: row.position ?? 0 } as CatalogTrackRecord))
+    )
+
+    expect(snapshot.invalid).toEqual([])
+    expect(snapshot.tracks.map((track) => track.id)).toEqual(trackList.map((track) => track.id))
+  })
+})
+
+describe('parseCatalogTrackInput', () => {
+  const validInput = {
+    id: 'night-drive-003',
+    collectionId: 'night-drive',
+    title: 'Overpass',
+    artist: 'MetaDJ',
+    duration: 200,
+    releaseDate: '2026-02-01',
+    audioUrl: '/api/audio/night-drive/03 - Overpass.mp3',
+    genres: ['Synthwave', 'Techno'],
+  }
+
+  it('accepts a complete track', () => {
+    const result = parseCatalogTrackInput(validInput)
+    expect(result.success).toBe(true)
+  })
+
+  it('rejects IDs that are not URL-safe', () => {
+    const result = parseCatalogTrackInput({ ...validInput, id: 'Night Drive 3' })
+    expect(result.success).toBe(false)
+  })
+
+  it('rejects audio URLs outside the audio proxy', () => {
+    const result = parseCatalogTrackInput({ ...validInput, audioUrl: 'https://example.com/a.mp3' })
+    expect(result.success).toBe(false)
+  })
+
+  it('allows partial updates but still validates provided fields', () => {
+    expect(parseCatalogTrackUpdate({ enabled: false }).success).toBe(true)
+    expect(parseCatalogTrackUpdate({ duration: -5 }).success).toBe(false)
+  })
+})
+
+describe('getAudioObjectPath', () => {
+  it('strips the proxy prefix and decodes segments', () => {
+    expect(getAudioObjectPath('/api/audio/night-drive/01%20-%20Neon%20Mile.mp3')).toBe(
+      'night-drive/01 - Neon Mile.mp3'
+    )
+    expect(getAudioObjectPath('/api/audio/night-drive/01 - Neon Mile.mp3')).toBe(
+      'night-drive/01 - Neon Mile.mp3'
+    )
+  })
+
+  it('returns null for other URLs and malformed encoding', () => {
+    expect(getAudioObjectPath('/images/cover.svg')).toBeNull()
+    expect(getAudioObjectPath('/api/audio/%E0%A4%A.mp3')).toBeNull()
+  })
+})
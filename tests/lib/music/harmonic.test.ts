@@ -0,0 +1,105 @@
+/**
+ * Harmonic Sequencing Tests
+ *
+ * Tests Camelot key parsing and DJ-order track sequencing.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  areCamelotKeysCompatible,
+  formatCamelotKey,
+  orderTracksForDjSet,
+  parseCamelotKey,
+} from '@/lib/music/harmonic'
+import type { Track } from '@/types'
+
+const createTrack = (id: string, overrides?: Partial<Track>): Track => ({
+  id,
+  title: `Track ${id}`,
+  artist: 'MetaDJ',
+  collection: 'test-collection',
+  duration: 180,
+  releaseDate: '2025-01-01',
+  audioUrl: `/api/audio/${id}.mp3`,
+  genres: ['Electronic', 'Test'],
+  ...overrides,
+})
+
+const ids = (tracks: Track[]) => tracks.map((track) => track.id)
+
+describe('parseCamelotKey', () => {
+  it.each([
+    ['C major', '8B'],
+    ['A minor', '8A'],
+    ['G', '9B'],
+    ['F#m', '11A'],
+    ['Bb min', '3A'],
+    ['E♭ major', '5B'],
+    ['Dbmaj', '3B'],
+    ['8a', '8A'],
+    ['12B', '12B'],
+  ])('parses %s as %s', (key, expected) => {
+    const parsed = parseCamelotKey(key)
+    expect(parsed).not.toBeNull()
+    expect(formatCamelotKey(parsed!)).toBe(expected)
+  })
+
+  it('returns null for missing or unrecognised keys', () => {
+    expect(parseCamelotKey(undefined)).toBeNull()
+    expect(parseCamelotKey('  ')).toBeNull()
+    expect(parseCamelotKey('13A')).toBeNull()
+    expect(parseCamelotKey('H minor')).toBeNull()
+  })
+})
+
+describe('areCamelotKeysCompatible', () => {
+  it('accepts same key, wheel neighbours, and relative keys', () => {
+    const eightA = parseCamelotKey('8A')!
+    expect(areCamelotKeysCompatible(eightA, parseCamelotKey('8A')!)).toBe(true)
+    expect(areCamelotKeysCompatible(eightA, parseCamelotKey('9A')!)).toBe(true)
+    expect(areCamelotKeysCompatible(eightA, parseCamelotKey('8B')!)).toBe(true)
+    expect(areCamelotKeysCompatible(parseCamelotKey('1A')!, parseCamelotKey('12A')!)).toBe(true)
+  })
+
+  it('rejects distant keys', () => {
+    expect(areCamelotKeysCompatible(parseCamelotKey('8A')!, parseCamelotKey('10A')!)).toBe(false)
+    expect(areCamelotKeysCompatible(parseCamelotKey('8A')!, parseCamelotKey('9B')!)).toBe(false)
+  })
+})
+
+describe('orderTracksForDjSet', () => {
+  const tracks = [
+    createTrack('far', { key: '2A', bpm: 124 }),
+    createTrack('start', { key: '8A', bpm: 118 }),
+    createTrack('next', { key: '9A', bpm: 120 }),
+    createTrack('relative', { key: '9B', bpm: 122 }),
+    createTrack('unknown'),
+  ]
+
+  it('starts from the slowest track and keeps neighbours compatible', () => {
+    const ordered = orderTracksForDjSet(tracks)
+    expect(ids(ordered)).toEqual(['start', 'next', 'relative', 'far', 'unknown'])
+  })
+
+  it('leads with the anchor when it is in the list', () => {
+    const ordered = orderTracksForDjSet(tracks, tracks[3])
+    expect(ids(ordered)[0]).toBe('relative')
+    expect(ids(ordered)[1]).toBe('next')
+  })
+
+  it('continues from an anchor outside the list', () => {
+    const previous = createTrack('playing', { key: '3A', bpm: 124 })
+    const ordered = orderTracksForDjSet(tracks, previous)
+    expect(ids(ordered)[0]).toBe('far')
+    expect(ordered).toHaveLength(tracks.length)
+  })
+
+  it('prefers gradual BPM changes when keys match', () => {
+    const sameKey = [
+      createTrack('a', { key: '8A', bpm: 100 }),
+      createTrack('b', { key: '8A', bpm: 140 }),
+      createTrack('c', { key: '8A', bpm: 110 }),
+    ]
+    expect(ids(orderTracksForDjSet(sameKey))).toEqual(['a', 'c', 'b'])
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Mood Channel Engine Tests
+ *
+ * Tests energy estimation, the session energy curve, and endless stream picks.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createMoodChannelStream,
+  estimateTrackEnergy,
+  getMoodChannelTargetEnergy,
+  takeMoodChannelTracks,
+} from '@/lib/music/mood-channel-engine'
+import type { MoodChannel } from '@/data/moodChannels'
+import type { Track } from '@/types'
+
+const channel: MoodChannel = {
+  id: 'focus',
+  name: 'Focus',
+  description: 'Focus channel',
+  gradient: 'from-indigo-900/60 via-purple-900/50 to-violet-900/40',
+  glowColor: 'rgba(139, 92, 246, 0.25)',
+  bpmRange: { min: 100, max: 140 },
+  preferredGenres: ['Techno'],
+  preferredCollections: ['majestic-ascent'],
+  energyLevel: 5,
+}
+
+const createTrack = (id: string, overrides?: Partial<Track>): Track => ({
+  id,
+  title: `Track ${id}`,
+  artist: 'MetaDJ',
+  collection: 'Other',
+  duration: 180,
+  releaseDate: '2025-01-01',
+  audioUrl: `/api/audio/${id}.mp3`,
+  genres: ['Techno'],
+  bpm: 120,
+  ...overrides,
+})
+
+const first = () => 0
+const ids = (tracks: Track[]) => tracks.map((track) => track.id)
+
+describe('estimateTrackEnergy', () => {
+  it('maps BPM onto 1-10 and clamps', () => {
+    expect(estimateTrackEnergy({ bpm: 70 }, 5)).toBe(1)
+    expect(estimateTrackEnergy({ bpm: 160 }, 5)).toBe(10)
+    expect(estimateTrackEnergy({ bpm: 200 }, 5)).toBe(10)
+  })
+
+  it('falls back without BPM', () => {
+    expect(estimateTrackEnergy({}, 4)).toBe(4)
+  })
+})
+
+describe('getMoodChannelTargetEnergy', () => {
+  it('starts low, peaks mid-session, and settles back', () => {
+    expect(getMoodChannelTargetEnergy(5, 0, 10)).toBeCloseTo(3.5)
+    expect(getMoodChannelTargetEnergy(5, 5, 10)).toBeCloseTo(6.5)
+    expect(getMoodChannelTargetEnergy(5, 10, 10)).toBeCloseTo(3.5)
+  })
+
+  it('stays within 1-10', () => {
+    expect(getMoodChannelTargetEnergy(10, 5, 10)).toBe(10)
+    expect(getMoodChannelTargetEnergy(1, 0, 10)).toBe(1)
+  })
+})
+
+describe('createMoodChannelStream', () => {
+  it('keeps only matching tracks and clamps the replay window to the pool', () => {
+    const stream = createMoodChannelStream(
+      channel,
+      [createTrack('a'), createTrack('b'), createTrack('jazz', { genres: ['Jazz'], bpm: 60 })],
+      { replayWindow: 10 }
+    )
+
+    expect(stream.candidates.map((candidate) => candidate.track.id)).toEqual(['a', 'b'])
+    expect(stream.replayWindow).toBe(1)
+  })
+
+  it('weights preferred collections', () => {
+    const stream = createMoodChannelStream(channel, [
+      createTrack('other'),
+      createTrack('preferred', { collection: 'Majestic Ascent' }),
+    ])
+    const [other, preferred] = stream.candidates
+    expect(preferred.relevance).toBeGreaterThan(other.relevance)
+  })
+
+  it('uses the channel replay window when set', () => {
+    const tracks = Array.from({ length: 10 }, (_, index) => createTrack(`t${index}`))
+    expect(createMoodChannelStream({ ...channel, replayWindow: 3 }, tracks).replayWindow).toBe(3)
+  })
+})
+
+describe('takeMoodChannelTracks', () => {
+  it('follows the energy curve', () => {
+    const tracks = [
+      createTrack('calm', { bpm: 100 }),
+      createTrack('steady', { bpm: 115 }),
+      createTrack('driving', { bpm: 135 }),
+    ]
+    const stream = createMoodChannelStream(channel, tracks, { sessionLength: 2, replayWindow: 0 })
+    const { tracks: picked } = takeMoodChannelTracks(stream, 2, { random: first })
+
+    expect(ids(picked)).toEqual(['calm', 'driving'])
+  })
+
+  it('never repeats a track within the replay window', () => {
+    const tracks = Array.from({ length: 6 }, (_, index) => createTrack(`t${index}`, { bpm: 100 + index * 5 }))
+    let stream = createMoodChannelStream(channel, tracks, { replayWindow: 4 })
+    const played: string[] = []
+
+    for (let batch = 0; batch < 10; batch++) {
+      const take = takeMoodChannelTracks(stream, 2, { random: first })
+      stream = take.stream
+      played.push(...ids(take.tracks))
+    }
+
+    expect(played).toHaveLength(20)
+    played.forEach((id, index) => {
+      expect(played.slice(Math.max(0, index - 4), index)).not.toContain(id)
+    })
+  })
+
+  it('skips excluded tracks and returns fewer when the pool runs out', () => {
+    const stream = createMoodChannelStream(channel, [createTrack('a'), createTrack('b'), createTrack('c')])
+    const { tracks: picked, stream: next } = takeMoodChannelTracks(stream, 5, {
+      excludeTrackIds: ['a'],
+      random: first,
+    })
+
+    expect(ids(picked).sort()).toEqual(['b', 'c'])
+    expect(next.position).toBe(2)
+  })
+
+  it('returns nothing for a channel without matches', () => {
+    const stream = createMoodChannelStream(channel, [createTrack('jazz', { genres: ['Jazz'], bpm: 60 })])
+    expect(takeMoodChannelTracks(stream, 3).tracks).toEqual([])
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Queue Builder Tests
+ *
+ * Tests manual/auto lane composition (resolved against the supplied catalog),
+ * the smart playlist source, and DJ order.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { trackList } from '@/lib/music/data'
+import { buildQueue } from '@/lib/music/queue-builder'
+import type { SmartPlaylistRuleGroup, Track } from '@/types'
+
+const [first, second, third] = trackList
+
+describe('buildQueue', () => {
+  it('puts manual tracks first and removes them from the auto lane', () => {
+    const result = buildQueue([first, second, third], [third.id], null)
+
+    expect(result.combinedQueue.map((track) => track.id)).toEqual([third.id, first.id, second.id])
+    expect(result.autoQueue.map((track) => track.id)).toEqual([first.id, second.id])
+    expect(result.targetIndex).toBe(-1)
+  })
+
+  it('resolves manual track IDs against the supplied catalog', () => {
+    const curated: Track = { ...first, id: 'curated-release', title: 'Curated Release' }
+
+    expect(buildQueue([first], [curated.id], null).manualTrackIds).toEqual([])
+
+    const result = buildQueue([first], [curated.id], null, { catalogTracks: [...trackList, curated] })
+    expect(result.manualTrackIds).toEqual([curated.id])
+    expect(result.combinedQueue.map((track) => track.id)).toEqual([curated.id, first.id])
+  })
+
+  it('returns an empty result when nothing is queued', () => {
+    const result = buildQueue([], [], null)
+    expect(result.combinedQueue).toEqual([])
+    expect(result.targetIndex).toBe(-1)
+  })
+
+  describe('smart playlist source', () => {
+    const rules: SmartPlaylistRuleGroup = {
+      type: 'group',
+      operator: 'and',
+      rules: [{ type: 'recentlyPlayed', count: 1 }],
+    }
+
+    it('narrows base tracks to rule matches using the play history', () => {
+      const result = buildQueue([first, second, third], [], null, {
+        smartPlaylist: { rules, recentlyPlayedIds: [second.id] },
+      })
+
+      expect(result.autoQueue.map((track) => track.id)).toEqual([first.id, third.id])
+    })
+
+    it('keeps the manual lane untouched', () => {
+      const result = buildQueue([first, second, third], [second.id], null, {
+        smartPlaylist: { rules, recentlyPlayedIds: [second.id] },
+      })
+
+      expect(result.manualTrackIds).toEqual([second.id])
+      expect(result.combinedQueue.map((track) => track.id)).toEqual([second.id, first.id, third.id])
+    })
+  })
+
+  describe('DJ order', () => {
+    const withKey = (track: Track, key: string, bpm: number): Track => ({ ...track, key, bpm })
+    const [a, b, c, d] = trackList
+    const tracks = [withKey(a, '2A', 124), withKey(b, '8A', 118), withKey(c, '9A', 120), withKey(d, '8B', 119)]
+
+    it('sequences the auto lane from the anchor', () => {
+      const result = buildQueue(tracks, [], null, { djOrder: true, anchorTrackId: c.id })
+
+      expect(result.autoQueue.map((track) => track.id)).toEqual([c.id, b.id, d.id, a.id])
+      expect(result.targetIndex).toBe(0)
+    })
+
+    it('keeps the manual lane untouched', () => {
+      const result = buildQueue(tracks, [a.id, d.id], null, { djOrder: true })
+
+      expect(result.manualTrackIds).toEqual([a.id, d.id])
+      expect(result.combinedQueue.map((track) => track.id)).toEqual([a.id, d.id, b.id, c.id])
+    })
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Personalized Recommendation Tests
+ *
+ * Tests listener affinity, taste profiles, and history-based track ranking.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildListenerTasteProfile,
+  getTrackAffinity,
+  recommendTracksForListener,
+  scoreTrackForListener,
+  type TrackListeningHistory,
+} from '@/lib/music/recommendations'
+import type { Track } from '@/types'
+
+const NOW = new Date('2026-10-19T12:00:00Z')
+const LAST_WEEK = '2026-10-12T12:00:00Z'
+
+const createTrack = (id: string, overrides?: Partial<Track>): Track => ({
+  id,
+  title: `Track ${id}`,
+  artist: 'MetaDJ',
+  collection: 'test-collection',
+  duration: 180,
+  releaseDate: '2025-01-01',
+  audioUrl: `/api/audio/${id}.mp3`,
+  genres: ['Electronic'],
+  ...overrides,
+})
+
+const createHistory = (
+  trackId: string,
+  overrides?: Partial<TrackListeningHistory>
+): TrackListeningHistory => ({
+  trackId,
+  listens: 0,
+  plays: 0,
+  completions: 0,
+  skips: 0,
+  lastListenedAt: LAST_WEEK,
+  ...overrides,
+})
+
+const ids = (recommendations: { track: Track }[]) => recommendations.map((item) => item.track.id)
+
+describe('getTrackAffinity', () => {
+  it('is zero without listens', () => {
+    expect(getTrackAffinity(createHistory('a'))).toBe(0)
+  })
+
+  it('is positive for completed listens and negative for skips', () => {
+    expect(getTrackAffinity(createHistory('a', { listens: 3, plays: 3, completions: 3 }))).toBeCloseTo(0.75)
+    expect(getTrackAffinity(createHistory('a', { listens: 3, skips: 3 }))).toBeCloseTo(-0.75)
+  })
+
+  it('counts partial plays at half weight', () => {
+    expect(getTrackAffinity(createHistory('a', { listens: 1, plays: 1 }))).toBeCloseTo(0.25)
+  })
+})
+
+describe('buildListenerTasteProfile', () => {
+  const tracks = [
+    createTrack('liked', { genres: ['Techno'], bpm: 128, key: '8A' }),
+    createTrack('skipped', { genres: ['Ambient'], bpm: 80 }),
+  ]
+
+  it('derives genre weights, tempo, and keys from liked tracks', () => {
+    const profile = buildListenerTasteProfile(
+      tracks,
+      [
+        createHistory('liked', { listens: 2, plays: 2, completions: 2 }),
+        createHistory('skipped', { listens: 2, skips: 2 }),
+      ],
+      NOW
+    )
+
+    expect(profile.hasSignal).toBe(true)
+    expect(profile.genreWeights.get('techno')).toBe(1)
+    expect(profile.genreWeights.get('ambient')).toBeLessThan(0)
+    expect(profile.bpm).toBe(128)
+    expect(profile.keys).toHaveLength(1)
+  })
+
+  it('has no signal when every listen was skipped', () => {
+    const profile = buildListenerTasteProfile(tracks, [createHistory('skipped', { listens: 1, skips: 1 })], NOW)
+    expect(profile.hasSignal).toBe(false)
+    expect(profile.bpm).toBeNull()
+  })
+
+  it('marks tracks heard within the recent window', () => {
+    const profile = buildListenerTasteProfile(
+      tracks,
+      [createHistory('liked', { listens: 1, plays: 1, completions: 1, lastListenedAt: '2026-10-19T10:00:00Z' })],
+      NOW
+    )
+    expect(profile.recentTrackIds.has('liked')).toBe(true)
+  })
+})
+
+describe('scoreTrackForListener', () => {
+  const profile = buildListenerTasteProfile(
+    [createTrack('liked', { genres: ['Techno'], bpm: 128, key: '8A' })],
+    [createHistory('liked', { listens: 2, plays: 2, completions: 2 })],
+    NOW
+  )
+
+  it('explains matches on genre, tempo, and key for unheard tracks', () => {
+    const result = scoreTrackForListener(createTrack('match', { genres: ['Techno'], bpm: 126, key: '9A' }), profile)
+    expect(result.reasons).toEqual(['new-to-you', 'similar-genre', 'similar-tempo', 'harmonic-key'])
+    expect(result.score).toBeGreaterThan(0)
+  })
+
+  it('scores unrelated tracks lower than matching ones', () => {
+    const match = scoreTrackForListener(createTrack('match', { genres: ['Techno'], bpm: 126 }), profile)
+    const other = scoreTrackForListener(createTrack('other', { genres: ['Jazz'], bpm: 70 }), profile)
+    expect(match.score).toBeGreaterThan(other.score)
+    expect(other.reasons).toEqual(['new-to-you'])
+  })
+})
+
+describe('recommendTracksForListener', () => {
+  const tracks = [
+    createTrack('liked', { genres: ['Techno'], bpm: 128 }),
+    createTrack('techno-2', { genres: ['Techno'], bpm: 130 }),
+    createTrack('ambient', { genres: ['Ambient'], bpm: 80 }),
+    createTrack('skipped', { genres: ['Ambient'], bpm: 82 }),
+  ]
+  const history = [
+    createHistory('liked', { listens: 3, plays: 3, completions: 3 }),
+    createHistory('skipped', { listens: 2, skips: 2 }),
+  ]
+
+  it('returns nothing without a positive signal', () => {
+    expect(recommendTracksForListener(tracks, [], { now: NOW })).toEqual([])
+  })
+
+  it('ranks liked and similar tracks above skipped ones', () => {
+    const result = ids(recommendTracksForListener(tracks, history, { now: NOW }))
+    expect(result.slice(0, 2)).toEqual(['liked', 'techno-2'])
+    expect(result[result.length - 1]).toBe('skipped')
+  })
+
+  it('pushes recently heard tracks down', () => {
+    const recent = history.map((entry) =>
+      entry.trackId === 'liked' ? { ...entry, lastListenedAt: '2026-10-19T11:00:00Z' } : entry
+    )
+    const result = ids(recommendTracksForListener(tracks, recent, { now: NOW }))
+    expect(result[0]).toBe('techno-2')
+  })
+
+  it('honours exclusions and the limit', () => {
+    const result = ids(recommendTracksForListener(tracks, history, { now: NOW, excludeTrackIds: ['liked'], limit: 1 }))
+    expect(result).toEqual(['techno-2'])
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * Set Builder Tests
+ *
+ * Tests energy estimation, per-segment picks, and full set plans.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  buildSetPlan,
+  estimateSetTrackEnergy,
+  getSetPlanTrackIds,
+  getTracksMinutes,
+  pickSetSegmentTracks,
+} from '@/lib/music/set-builder'
+import type { Track } from '@/types'
+
+const createTrack = (id: string, overrides?: Partial<Track>): Track => ({
+  id,
+  title: `Track ${id}`,
+  artist: 'MetaDJ',
+  collection: 'Other',
+  duration: 300,
+  releaseDate: '2025-01-01',
+  audioUrl: `/api/audio/${id}.mp3`,
+  genres: ['Techno'],
+  ...overrides,
+})
+
+const ids = (tracks: Track[]) => tracks.map((track) => track.id)
+
+const catalog = [
+  createTrack('calm-1', { genres: ['Ambient'], description: 'A calm, meditative drift' }),
+  createTrack('calm-2', { genres: ['Orchestral'], description: 'Relaxed and smooth' }),
+  createTrack('mid-1', { genres: ['Techno'] }),
+  createTrack('mid-2', { genres: ['Nu Disco'] }),
+  createTrack('peak-1', { genres: ['Peak Techno'], description: 'Driving anthem' }),
+  createTrack('peak-2', { genres: ['EDM'], description: 'Euphoric power' }),
+  createTrack('bpm-128', { bpm: 128 }),
+  createTrack('bpm-100', { bpm: 100 }),
+]
+
+describe('estimateSetTrackEnergy', () => {
+  it('uses BPM when present', () => {
+    expect(estimateSetTrackEnergy({ bpm: 160, genres: ['Ambient'] })).toBe(10)
+  })
+
+  it('reads genre and description cues without BPM', () => {
+    const calm = estimateSetTrackEnergy({ genres: ['Ambient'], description: 'calm' })
+    const peak = estimateSetTrackEnergy({ genres: ['Peak Techno'], description: 'driving' })
+    expect(calm).toBeLessThan(5)
+    expect(peak).toBeGreaterThan(7)
+    expect(estimateSetTrackEnergy({ genres: [] })).toBe(5)
+  })
+})
+
+describe('pickSetSegmentTracks', () => {
+  it('fills the segment minutes with the best-fitting tracks', () => {
+    const picked = pickSetSegmentTracks(catalog, { phase: 'peak', minutes: 10, targetBpm: 128, targetEnergy: 9 })
+    expect(getTracksMinutes(picked)).toBe(10)
+    expect(ids(picked)).toEqual(expect.arrayContaining(['peak-1']))
+    expect(ids(picked)).not.toContain('calm-1')
+  })
+
+  it('keeps pinned tracks first and skips excluded ones', () => {
+    const picked = pickSetSegmentTracks(
+      catalog,
+      { phase: 'peak', minutes: 15, targetBpm: 128, targetEnergy: 9 },
+      { pinnedTrackIds: ['calm-2', 'missing'], excludeTrackIds: ['peak-1'] }
+    )
+    expect(picked[0].id).toBe('calm-2')
+    expect(ids(picked)).not.toContain('peak-1')
+    expect(picked).toHaveLength(3)
+  })
+
+  it('orders cooldown picks from high to low energy', () => {
+    const picked = pickSetSegmentTracks(catalog, { phase: 'cooldown', minutes: 15, targetBpm: 100, targetEnergy: 3 })
+    const energies = picked.map(estimateSetTrackEnergy)
+    expect(energies).toEqual([...energies].sort((a, b) => b - a))
+  })
+})
+
+describe('buildSetPlan', () => {
+  it('splits the set into four phases with default targets', () => {
+    const plan = buildSetPlan(catalog, { totalMinutes: 20 })
+    expect(plan.segments.map((segment) => segment.phase)).toEqual(['opening', 'build', 'peak', 'cooldown'])
+    expect(plan.segments.map((segment) => segment.minutes)).toEqual([4, 6, 6, 4])
+    expect(plan.segments[2].targetEnergy).toBeGreaterThan(plan.segments[0].targetEnergy)
+  })
+
+  it('never repeats a track across segments', () => {
+    const plan = buildSetPlan(catalog, { totalMinutes: 30 })
+    const trackIds = getSetPlanTrackIds(plan.segments)
+    expect(new Set(trackIds).size).toBe(trackIds.length)
+  })
+
+  it('applies overrides and reports shortfall', () => {
+    const plan = buildSetPlan(catalog, {
+      totalMinutes: 240,
+      segments: { peak: { targetBpm: 140, trackIds: ['bpm-128'] } },
+    })
+    const peak = plan.segments[2]
+    expect(peak.targetBpm).toBe(140)
+    expect(peak.trackIds[0]).toBe('bpm-128')
+    expect(plan.shortfallMinutes).toBe(200)
+  })
+
+  it('clamps the total length', () => {
+    expect(buildSetPlan(catalog, { totalMinutes: 1 }).totalMinutes).toBe(10)
+    expect(buildSetPlan(catalog, { totalMinutes: 1000 }).totalMinutes).toBe(240)
+  })
+})
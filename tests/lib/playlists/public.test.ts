@@ -0,0 +1,54 @@
+/**
+ * Public Playlist Helper Tests
+ *
+ * Tests for public slug generation and validation.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  createPublicPlaylistSlug,
+  isPublicPlaylistSlug,
+  slugifyPlaylistName,
+} from '@/lib/playlists/public'
+
+describe('slugifyPlaylistName', () => {
+  it('lowercases and hyphenates names', () => {
+    expect(slugifyPlaylistName('Night Drive: Vol. 2')).toBe('night-drive-vol-2')
+  })
+
+  it('strips accents', () => {
+    expect(slugifyPlaylistName('Café Sessions')).toBe('cafe-sessions')
+  })
+
+  it('falls back to "playlist" when nothing URL-safe remains', () => {
+    expect(slugifyPlaylistName('🎧🎧')).toBe('playlist')
+  })
+
+  it('caps long names without a trailing hyphen', () => {
+    const slug = slugifyPlaylistName(`${'a'.repeat(59)} b`)
+    expect(slug.length).toBeLessThanOrEqual(60)
+    expect(slug.endsWith('-')).toBe(false)
+  })
+})
+
+describe('createPublicPlaylistSlug', () => {
+  it('appends the suffix to the slugified name', () => {
+    expect(createPublicPlaylistSlug('Night Drive', 'k3x9qa')).toBe('night-drive-k3x9qa')
+  })
+
+  it('generates a six-character random suffix by default', () => {
+    expect(createPublicPlaylistSlug('Night Drive')).toMatch(/^night-drive-[a-z0-9]{6}$/)
+  })
+})
+
+describe('isPublicPlaylistSlug', () => {
+  it('accepts generated slugs', () => {
+    expect(isPublicPlaylistSlug(createPublicPlaylistSlug('Deep Focus'))).toBe(true)
+  })
+
+  it('rejects uppercase, spaces, and oversized values', () => {
+    expect(isPublicPlaylistSlug('Night-Drive')).toBe(false)
+    expect(isPublicPlaylistSlug('night drive')).toBe(false)
+    expect(isPublicPlaylistSlug('a'.repeat(80))).toBe(false)
+  })
+})
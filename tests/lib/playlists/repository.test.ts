@@ -9,8 +9,11 @@ import {
   getPlaylists,
   savePlaylists,
   createPlaylist,
+  createSmartPlaylist,
   duplicatePlaylist,
+  copyPlaylist,
   updatePlaylist,
+  refreshSmartPlaylistTrackIds,
   deletePlaylist,
   addTrackToPlaylist,
   removeTrackFromPlaylist,
@@ -21,7 +24,7 @@ import {
   getTrackLimitWarning,
 } from '@/lib/playlists/repository'
 import { PlaylistErrors } from '@/types/playlist.types'
-import type { Playlist, PlaylistStorage } from '@/types/playlist.types'
+import type { Playlist, PlaylistStorage, SmartPlaylistRuleGroup } from '@/types/playlist.types'
 
 // Mock localStorage
 const mockStorage: Record<string, string> = {}
@@ -249,6 +252,106 @@ describe('duplicatePlaylist', () => {
     setupMockStorage([])
     expect(() => duplicatePlaylist('unknown')).toThrow(PlaylistErrors.PLAYLIST_NOT_FOUND)
   })
+
+  it('does not copy publish state', () => {
+    const playlist = createMockPlaylist({ id: 'p1', isPublic: true, publicSlug: 'test-playlist-abc123' })
+    setupMockStorage([playlist])
+
+    const duplicate = duplicatePlaylist('p1')
+    expect(duplicate.isPublic).toBeUndefined()
+    expect(duplicate.publicSlug).toBeUndefined()
+  })
+})
+
+describe('copyPlaylist', () => {
+  it('keeps the original name when it is free', () => {
+    setupMockStorage([])
+
+    const copy = copyPlaylist('Night Drive', ['a', 'b'])
+    expect(copy.name).toBe('Night Drive')
+    expect(copy.trackIds).toEqual(['a', 'b'])
+    expect(getPlaylists()).toHaveLength(1)
+  })
+
+  it('adds a copy suffix when the name is taken', () => {
+    setupMockStorage([createMockPlaylist({ id: 'p1', name: 'Night Drive' })])
+
+    const copy = copyPlaylist('Night Drive', ['a'])
+    expect(copy.name).toBe('Night Drive (Copy)')
+  })
+
+  it('dedupes and caps track IDs', () => {
+    setupMockStorage([])
+    const trackIds = Array.from({ length: 210 }, (_, i) => `t${i}`)
+
+    const copy = copyPlaylist('Long Mix', ['t0', ...trackIds])
+    expect(copy.trackIds).toHaveLength(200)
+    expect(copy.trackIds[0]).toBe('t0')
+  })
+
+  it('throws when playlist limit reached', () => {
+    setupMockStorage(
+      Array.from({ length: 50 }, (_, i) => createMockPlaylist({ id: `p${i}`, name: `Playlist ${i}` }))
+    )
+
+    expect(() => copyPlaylist('One More', [])).toThrow(PlaylistErrors.PLAYLIST_LIMIT_REACHED)
+  })
+})
+
+describe('createSmartPlaylist', () => {
+  const rules: SmartPlaylistRuleGroup = {
+    type: 'group',
+    operator: 'and',
+    rules: [{ type: 'bpm', min: 120, max: 128 }],
+  }
+
+  it('stores the rules with the evaluated track IDs', () => {
+    setupMockStorage([])
+
+    const playlist = createSmartPlaylist('Peak Time', rules, ['a', 'b', 'a'])
+    expect(playlist.smartRules).toEqual(rules)
+    expect(playlist.trackIds).toEqual(['a', 'b'])
+    expect(getPlaylists()[0].smartRules).toEqual(rules)
+  })
+
+  it('validates the name like manual playlists', () => {
+    setupMockStorage([createMockPlaylist({ id: 'p1', name: 'Peak Time' })])
+
+    expect(() => createSmartPlaylist('Peak Time', rules, [])).toThrow(/already have/)
+  })
+
+  it('blocks manual track edits', () => {
+    setupMockStorage([createMockPlaylist({ id: 'p1', trackIds: ['a', 'b'], smartRules: rules })])
+
+    expect(() => addTrackToPlaylist('p1', 'c')).toThrow(PlaylistErrors.SMART_PLAYLIST_READ_ONLY)
+    expect(() => removeTrackFromPlaylist('p1', 'a')).toThrow(PlaylistErrors.SMART_PLAYLIST_READ_ONLY)
+    expect(() => reorderTracks('p1', 0, 1)).toThrow(PlaylistErrors.SMART_PLAYLIST_READ_ONLY)
+  })
+})
+
+describe('refreshSmartPlaylistTrackIds', () => {
+  const rules: SmartPlaylistRuleGroup = {
+    type: 'group',
+    operator: 'and',
+    rules: [{ type: 'bpm', min: 120, max: 128 }],
+  }
+
+  it('stores the new evaluation without bumping updatedAt', () => {
+    const updatedAt = '2026-01-01T00:00:00.000Z'
+    setupMockStorage([createMockPlaylist({ id: 'p1', trackIds: ['a'], smartRules: rules, updatedAt })])
+
+    const [refreshed] = refreshSmartPlaylistTrackIds(new Map([['p1', ['a', 'b']]]))
+    expect(refreshed.trackIds).toEqual(['a', 'b'])
+    expect(refreshed.updatedAt).toBe(updatedAt)
+    expect(getPlaylists()[0]).toEqual(refreshed)
+  })
+
+  it('ignores manual playlists', () => {
+    setupMockStorage([createMockPlaylist({ id: 'p1', trackIds: ['a'] })])
+
+    expect(refreshSmartPlaylistTrackIds(new Map([['p1', ['b']]]))).toEqual([])
+    expect(getPlaylists()[0].trackIds).toEqual(['a'])
+  })
 })
 
 describe('deletePlaylist', () => {
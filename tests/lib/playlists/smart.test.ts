@@ -0,0 +1,133 @@
+/**
+ * Smart Playlist Rule Tests
+ *
+ * Tests rule-tree validation, evaluation against track metadata, and labels.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  describeSmartPlaylistRule,
+  evaluateSmartPlaylist,
+  haveSameTrackIds,
+  normalizeSmartPlaylistRules,
+  SMART_PLAYLIST_MAX_DEPTH,
+} from '@/lib/playlists/smart'
+import type { Track } from '@/types'
+import type { SmartPlaylistRuleGroup } from '@/types/playlist.types'
+
+function createTrack(overrides: Partial<Track> = {}): Track {
+  return {
+    id: 'track-1',
+    title: 'Track',
+    artist: 'MetaDJ',
+    collection: 'Majestic Ascent',
+    duration: 240,
+    releaseDate: '2026-01-01',
+    audioUrl: '/api/audio/majestic-ascent/01.mp3',
+    genres: ['Techno', 'Trance'],
+    bpm: 124,
+    key: 'A minor',
+    ...overrides,
+  }
+}
+
+const catalog: Track[] = [
+  createTrack({ id: 'a', bpm: 118, genres: ['Synthwave', 'Retro'], collection: 'Bridging Reality', duration: 180 }),
+  createTrack({ id: 'b', bpm: 124, key: 'F# minor' }),
+  createTrack({ id: 'c', bpm: 128, duration: 420 }),
+  createTrack({ id: 'd', bpm: undefined, key: undefined, genres: ['Ambient', 'Downtempo'] }),
+]
+
+function group(operator: 'and' | 'or', rules: SmartPlaylistRuleGroup['rules']): SmartPlaylistRuleGroup {
+  return { type: 'group', operator, rules }
+}
+
+function ids(tracks: Track[]): string[] {
+  return tracks.map((track) => track.id)
+}
+
+describe('evaluateSmartPlaylist', () => {
+  it('matches the whole catalog for an empty rule tree', () => {
+    expect(ids(evaluateSmartPlaylist(group('and', []), catalog))).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  it('filters by inclusive BPM range and skips tracks without BPM', () => {
+    const rules = group('and', [{ type: 'bpm', min: 124, max: 128 }])
+    expect(ids(evaluateSmartPlaylist(rules, catalog))).toEqual(['b', 'c'])
+  })
+
+  it('matches genre, key, and collection case-insensitively', () => {
+    expect(ids(evaluateSmartPlaylist(group('and', [{ type: 'genre', genres: ['ambient'] }]), catalog))).toEqual(['d'])
+    expect(ids(evaluateSmartPlaylist(group('and', [{ type: 'key', keys: ['f# MINOR'] }]), catalog))).toEqual(['b'])
+    expect(
+      ids(evaluateSmartPlaylist(group('and', [{ type: 'collection', collections: ['bridging-reality'] }]), catalog))
+    ).toEqual(['a'])
+  })
+
+  it('combines AND and OR groups', () => {
+    const rules = group('or', [
+      group('and', [
+        { type: 'bpm', min: 120 },
+        { type: 'duration', max: 300 },
+      ]),
+      { type: 'genre', genres: ['Synthwave'] },
+    ])
+    expect(ids(evaluateSmartPlaylist(rules, catalog))).toEqual(['a', 'b'])
+  })
+
+  it('excludes only the configured number of recent plays', () => {
+    const rules = group('and', [{ type: 'recentlyPlayed', count: 2 }])
+    const result = evaluateSmartPlaylist(rules, catalog, { recentlyPlayedIds: ['c', 'a', 'b'] })
+    expect(ids(result)).toEqual(['b', 'd'])
+  })
+
+  it('caps results at the playlist track limit', () => {
+    const large = Array.from({ length: 250 }, (_, i) => createTrack({ id: `t${i}` }))
+    expect(evaluateSmartPlaylist(group('and', []), large)).toHaveLength(200)
+  })
+})
+
+describe('normalizeSmartPlaylistRules', () => {
+  it('accepts a valid nested tree', () => {
+    const rules = group('or', [group('and', [{ type: 'bpm', min: 120 }]), { type: 'key', keys: [' A minor '] }])
+    expect(normalizeSmartPlaylistRules(rules)).toEqual(
+      group('or', [group('and', [{ type: 'bpm', min: 120 }]), { type: 'key', keys: ['A minor'] }])
+    )
+  })
+
+  it('rejects malformed rules', () => {
+    expect(normalizeSmartPlaylistRules(null)).toBeNull()
+    expect(normalizeSmartPlaylistRules({ type: 'group', operator: 'xor', rules: [] })).toBeNull()
+    expect(normalizeSmartPlaylistRules(group('and', [{ type: 'bpm' }]))).toBeNull()
+    expect(normalizeSmartPlaylistRules(group('and', [{ type: 'bpm', min: 130, max: 120 }]))).toBeNull()
+    expect(normalizeSmartPlaylistRules(group('and', [{ type: 'genre', genres: [] }]))).toBeNull()
+    expect(normalizeSmartPlaylistRules(group('and', [{ type: 'recentlyPlayed', count: 0 }]))).toBeNull()
+    expect(
+      normalizeSmartPlaylistRules({ type: 'group', operator: 'and', rules: [{ type: 'mood', value: 'chill' }] })
+    ).toBeNull()
+  })
+
+  it('rejects trees nested deeper than the limit', () => {
+    let tree: SmartPlaylistRuleGroup = group('and', [])
+    for (let depth = 1; depth <= SMART_PLAYLIST_MAX_DEPTH; depth += 1) {
+      tree = group('and', [tree])
+    }
+    expect(normalizeSmartPlaylistRules(tree)).toBeNull()
+  })
+})
+
+describe('haveSameTrackIds', () => {
+  it('is order-sensitive', () => {
+    expect(haveSameTrackIds(['a', 'b'], ['a', 'b'])).toBe(true)
+    expect(haveSameTrackIds(['a', 'b'], ['b', 'a'])).toBe(false)
+    expect(haveSameTrackIds(['a'], ['a', 'b'])).toBe(false)
+  })
+})
+
+describe('describeSmartPlaylistRule', () => {
+  it('labels ranges and exclusions', () => {
+    expect(describeSmartPlaylistRule({ type: 'bpm', min: 120, max: 128 })).toBe('120–128 BPM')
+    expect(describeSmartPlaylistRule({ type: 'duration', max: 360 })).toBe('Length up to 6 min')
+    expect(describeSmartPlaylistRule({ type: 'recentlyPlayed', count: 10 })).toBe('Skip last 10 played')
+  })
+})
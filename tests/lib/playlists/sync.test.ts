@@ -0,0 +1,112 @@
+/**
+ * Playlist Sync Helper Tests
+ *
+ * Tests for the per-playlist updatedAt conflict rule and payload normalization.
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  getPlaylistTimestamp,
+  normalizePlaylistPayload,
+  resolvePlaylistConflict,
+} from '@/lib/playlists/sync'
+import type { Playlist } from '@/types/playlist.types'
+
+function createPlaylist(overrides: Partial<Playlist> = {}): Playlist {
+  return {
+    id: 'playlist-1',
+    name: 'Test Playlist',
+    trackIds: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+describe('getPlaylistTimestamp', () => {
+  it('parses ISO strings and Dates', () => {
+    expect(getPlaylistTimestamp('2026-01-01T00:00:00.000Z')).toBe(Date.UTC(2026, 0, 1))
+    expect(getPlaylistTimestamp(new Date(Date.UTC(2026, 0, 1)))).toBe(Date.UTC(2026, 0, 1))
+  })
+
+  it('returns 0 for missing or invalid values', () => {
+    expect(getPlaylistTimestamp(null)).toBe(0)
+    expect(getPlaylistTimestamp(undefined)).toBe(0)
+    expect(getPlaylistTimestamp('not-a-date')).toBe(0)
+  })
+})
+
+describe('resolvePlaylistConflict', () => {
+  it('prefers the copy with the newer updatedAt', () => {
+    const older = createPlaylist({ updatedAt: '2026-01-01T00:00:00.000Z' })
+    const newer = createPlaylist({ updatedAt: '2026-01-02T00:00:00.000Z' })
+
+    expect(resolvePlaylistConflict(newer, older)).toBe('local')
+    expect(resolvePlaylistConflict(older, newer)).toBe('remote')
+  })
+
+  it('keeps the remote copy on ties', () => {
+    const playlist = createPlaylist()
+    expect(resolvePlaylistConflict(playlist, { ...playlist })).toBe('remote')
+  })
+})
+
+describe('normalizePlaylistPayload', () => {
+  it('returns null for non-objects and missing fields', () => {
+    expect(normalizePlaylistPayload(null)).toBeNull()
+    expect(normalizePlaylistPayload('playlist')).toBeNull()
+    expect(normalizePlaylistPayload({ name: 'No id' })).toBeNull()
+    expect(normalizePlaylistPayload({ id: 'p1', name: '   ' })).toBeNull()
+  })
+
+  it('rejects names longer than 100 characters', () => {
+    expect(normalizePlaylistPayload({ id: 'p1', name: 'x'.repeat(101) })).toBeNull()
+  })
+
+  it('trims the name and dedupes track IDs', () => {
+    const playlist = normalizePlaylistPayload({
+      id: 'p1',
+      name: '  Night Drive  ',
+      trackIds: ['t1', 't2', 't1', 42, ''],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-02T00:00:00.000Z',
+    })
+
+    expect(playlist).toEqual({
+      id: 'p1',
+      name: 'Night Drive',
+      trackIds: ['t1', 't2'],
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-02T00:00:00.000Z',
+      artworkUrl: null,
+    })
+  })
+
+  it('caps track lists at 200 entries', () => {
+    const trackIds = Array.from({ length: 250 }, (_, i) => `track-${i}`)
+    const playlist = normalizePlaylistPayload({ id: 'p1', name: 'Long', trackIds })
+
+    expect(playlist?.trackIds).toHaveLength(200)
+  })
+
+  it('falls back to createdAt when updatedAt is invalid', () => {
+    const playlist = normalizePlaylistPayload({
+      id: 'p1',
+      name: 'Dates',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: 'garbage',
+    })
+
+    expect(playlist?.updatedAt).toBe('2026-01-01T00:00:00.000Z')
+  })
+
+  it('keeps valid smart rules and drops malformed ones', () => {
+    const base = { id: 'p1', name: 'Peak Time', trackIds: ['t1'] }
+    const smartRules = { type: 'group', operator: 'and', rules: [{ type: 'bpm', min: 124 }] }
+
+    expect(normalizePlaylistPayload({ ...base, smartRules })?.smartRules).toEqual(smartRules)
+    expect(
+      normalizePlaylistPayload({ ...base, smartRules: { type: 'group', operator: 'and', rules: [{ type: 'bpm' }] } })
+    ).not.toHaveProperty('smartRules')
+  })
+})
@@ -127,6 +127,16 @@ describe('metadjAiSessionStorage', () => {
       expect(loaded[0].mode).toBe('explorer')
     })
 
+    it('preserves parent links', () => {
+      metadjAiSessionStorage.saveMessages([
+        { ...validAssistantMessage, parentId: 'msg-user' },
+        { ...validAssistantMessage, id: 'msg-root', parentId: null },
+      ])
+
+      const loaded = metadjAiSessionStorage.loadMessages()
+      expect(loaded.map((message) => message.parentId)).toEqual(['msg-user', null])
+    })
+
     it('normalizes kind to undefined for unknown values', () => {
       const raw = JSON.stringify([
         { id: 'msg-1', role: 'user', content: 'test', createdAt: Date.now(), kind: 'unknown' },
@@ -11,6 +11,7 @@ import {
   generateTrackSchema,
   generateWebsiteSchema,
   generateFeaturedPlaylistSchema,
+  generatePublicPlaylistSchema,
   combineSchemas,
 } from '@/lib/structured-data'
 import type { Track } from '@/types'
@@ -202,6 +203,44 @@ describe('generateFeaturedPlaylistSchema', () => {
   })
 })
 
+describe('generatePublicPlaylistSchema', () => {
+  const playlist = { slug: 'night-drive-k3x9qa', name: 'Night Drive', artworkUrl: null }
+
+  it('returns MusicPlaylist schema with the public URL', () => {
+    const result = generatePublicPlaylistSchema(playlist, [createMockTrack()])
+    expect(result['@type']).toBe('MusicPlaylist')
+    expect(result.url).toBe('https://metadjnexus.ai/playlist/night-drive-k3x9qa')
+    expect(result.name).toBe('Night Drive')
+  })
+
+  it('includes positioned tracks and a track count description', () => {
+    const tracks = [createMockTrack({ id: 't1' }), createMockTrack({ id: 't2' })]
+    const result = generatePublicPlaylistSchema(playlist, tracks)
+    expect(result.numTracks).toBe(2)
+    expect(result.track[1].position).toBe(2)
+    expect(result.description).toContain('2 tracks')
+  })
+
+  it('falls back to the first track artwork', () => {
+    const result = generatePublicPlaylistSchema(playlist, [createMockTrack()])
+    expect(result.image).toBe('https://metadjnexus.ai/images/cover.jpg')
+  })
+
+  it('prefers custom playlist artwork', () => {
+    const result = generatePublicPlaylistSchema(
+      { ...playlist, artworkUrl: '/images/custom.jpg' },
+      [createMockTrack()]
+    )
+    expect(result.image).toBe('https://metadjnexus.ai/images/custom.jpg')
+  })
+
+  it('omits the image for an empty playlist without artwork', () => {
+    const result = generatePublicPlaylistSchema(playlist, [])
+    expect(result.image).toBeUndefined()
+    expect(result.description).toContain('0 tracks')
+  })
+})
+
 describe('combineSchemas', () => {
   it('wraps schemas in @graph', () => {
     const schema1 = { '@type': 'Thing', name: 'One' }
@@ -0,0 +1,113 @@
+/**
+ * Visualizer Parameter Tests
+ *
+ * Covers schema defaults, lenient resolution of stored values, strict
+ * validation, band routing, palettes, and count scaling.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { VISUALIZER_SCENES } from '@/data/scenes'
+import {
+  VISUALIZER_PARAM_SCHEMAS,
+  getDefaultVisualizerParams,
+  getVisualizerPaletteFilter,
+  getVisualizerParamsValidator,
+  mapVisualizerBands,
+  resolveVisualizerParams,
+  scaleVisualizerCount,
+} from '@/lib/visualizers/params'
+
+describe('VISUALIZER_PARAM_SCHEMAS', () => {
+  it('covers every visualizer scene with defaults inside their ranges', () => {
+    for (const scene of VISUALIZER_SCENES) {
+      const type = scene.visualizerStyle?.type
+      expect(type).toBeDefined()
+      if (!type) continue
+      for (const def of Object.values(VISUALIZER_PARAM_SCHEMAS[type])) {
+        if (def.kind === 'number') {
+          expect(def.default).toBeGreaterThanOrEqual(def.min)
+          expect(def.default).toBeLessThanOrEqual(def.max)
+        } else {
+          expect(def.options.map((option) => option.value)).toContain(def.default)
+        }
+      }
+    }
+  })
+})
+
+describe('getDefaultVisualizerParams', () => {
+  it('matches the built-in look', () => {
+    expect(getDefaultVisualizerParams('space-travel')).toEqual({
+      palette: 'original',
+      reactivity: 1,
+      bassSource: 'bass',
+      midSource: 'mid',
+      highSource: 'high',
+      particleCount: 100,
+      warpSpeed: 1,
+      cameraDrift: 1,
+    })
+  })
+})
+
+describe('resolveVisualizerParams', () => {
+  it('clamps and steps numbers, drops unknown keys, and defaults the rest', () => {
+    expect(
+      resolveVisualizerParams('pixel-paradise', { blockCount: 400, flowSpeed: 1.33, palette: 'neon', extra: 1 })
+    ).toEqual({
+      ...getDefaultVisualizerParams('pixel-paradise'),
+      blockCount: 150,
+      flowSpeed: 1.35,
+    })
+  })
+
+  it('falls back to defaults for non-object input', () => {
+    expect(resolveVisualizerParams('explosion', null)).toEqual(getDefaultVisualizerParams('explosion'))
+  })
+})
+
+describe('getVisualizerParamsValidator', () => {
+  it('accepts a full parameter set', () => {
+    const params = { ...getDefaultVisualizerParams('spectrum-ring'), palette: 'cool' }
+    expect(getVisualizerParamsValidator('spectrum-ring').safeParse(params).success).toBe(true)
+  })
+
+  it('rejects out-of-range values, unknown options, and foreign keys', () => {
+    const validator = getVisualizerParamsValidator('starlight-drift')
+    const defaults = getDefaultVisualizerParams('starlight-drift')
+
+    const tooMany = validator.safeParse({ ...defaults, starCount: 250 })
+    expect(tooMany.success).toBe(false)
+    expect(tooMany.error?.issues[0]?.message).toBe('Star count must be at most 200%')
+
+    expect(validator.safeParse({ ...defaults, bassSource: 'sub' }).success).toBe(false)
+    expect(validator.safeParse({ ...defaults, rotationSpeed: 1 }).success).toBe(false)
+  })
+})
+
+describe('mapVisualizerBands', () => {
+  const levels = { bass: 0.8, mid: 0.4, high: 0.1 }
+
+  it('passes bands through with default params', () => {
+    expect(mapVisualizerBands(levels, getDefaultVisualizerParams('explosion'))).toEqual(levels)
+  })
+
+  it('routes sources, silences "off", and clamps reactivity', () => {
+    const params = { reactivity: 2, bassSource: 'high', midSource: 'bass', highSource: 'off' } as const
+    expect(mapVisualizerBands(levels, params)).toEqual({ bass: 0.2, mid: 1, high: 0 })
+  })
+})
+
+describe('getVisualizerPaletteFilter', () => {
+  it('leaves the original palette unfiltered', () => {
+    expect(getVisualizerPaletteFilter('original')).toBe('none')
+    expect(getVisualizerPaletteFilter('monochrome')).toContain('grayscale(1)')
+  })
+})
+
+describe('scaleVisualizerCount', () => {
+  it('scales by percent and never drops below one', () => {
+    expect(scaleVisualizerCount(6000, 50)).toBe(3000)
+    expect(scaleVisualizerCount(3, 20)).toBe(1)
+  })
+})
@@ -0,0 +1,48 @@
+/**
+ * Visualizer Preset Tests
+ *
+ * Covers create-preset validation and mapping stored rows to the client shape.
+ */
+
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_SCENE_ID } from '@/data/scenes'
+import { getDefaultVisualizerParams } from '@/lib/visualizers/params'
+import { parseVisualizerPresetInput, toVisualizerPreset } from '@/lib/visualizers/presets'
+
+describe('parseVisualizerPresetInput', () => {
+  const params = { ...getDefaultVisualizerParams('explosion'), particleCount: 60 }
+
+  it('accepts and trims a valid preset', () => {
+    expect(parseVisualizerPresetInput({ name: '  Calm ', sceneId: 'cosmos', params })).toEqual({
+      success: true,
+      data: { name: 'Calm', sceneId: 'cosmos', params },
+    })
+  })
+
+  it('rejects blank names, video scenes, and params for another visualizer', () => {
+    expect(parseVisualizerPresetInput({ name: ' ', sceneId: 'cosmos', params })).toEqual({
+      success: false,
+      error: 'Preset name is required',
+    })
+    expect(parseVisualizerPresetInput({ name: 'x', sceneId: 'not-a-scene', params })).toEqual({
+      success: false,
+      error: 'Unknown visualizer',
+    })
+    expect(parseVisualizerPresetInput({ name: 'x', sceneId: 'black-hole', params: { ...params, warpSpeed: 1 } }).success).toBe(false)
+  })
+})
+
+describe('toVisualizerPreset', () => {
+  it('resolves params and falls back to the default scene', () => {
+    const createdAt = new Date('2026-10-19T12:00:00Z')
+    expect(
+      toVisualizerPreset({ id: 'v1', name: 'Old', sceneId: 'retired', params: { rotationSpeed: 9 }, createdAt })
+    ).toEqual({
+      id: 'v1',
+      name: 'Old',
+      sceneId: DEFAULT_SCENE_ID,
+      params: { ...getDefaultVisualizerParams('explosion'), rotationSpeed: 3 },
+      createdAt: '2026-10-19T12:00:00.000Z',
+    })
+  })
+})